@@ -10,21 +10,45 @@
 
 import type * as authUsers from "../authUsers.js";
 import type * as awardCalculations from "../awardCalculations.js";
+import type * as contractEligibility from "../contractEligibility.js";
 import type * as crons from "../crons.js";
 import type * as data from "../data.js";
 import type * as draft from "../draft.js";
+import type * as externalIngestion from "../externalIngestion.js";
+import type * as externalIngestionSources from "../externalIngestionSources.js";
 import type * as externalWorker from "../externalWorker.js";
 import type * as frontend from "../frontend.js";
 import type * as jobCatalog from "../jobCatalog.js";
 import type * as jobRunner from "../jobRunner.js";
 import type * as jobs from "../jobs.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_buyouts from "../lib/buyouts.js";
+import type * as lib_contractEligibility from "../lib/contractEligibility.js";
+import type * as lib_domainRows from "../lib/domainRows.js";
+import type * as lib_externalIngestion from "../lib/externalIngestion.js";
+import type * as lib_jobPipelines from "../lib/jobPipelines.js";
+import type * as lib_jobSchedules from "../lib/jobSchedules.js";
+import type * as lib_lineups from "../lib/lineups.js";
+import type * as lib_ownerLadder from "../lib/ownerLadder.js";
 import type * as lib_reporterDirectory from "../lib/reporterDirectory.js";
+import type * as lib_signingPeriods from "../lib/signingPeriods.js";
+import type * as lib_statAggregation from "../lib/statAggregation.js";
 import type * as lib_timestamps from "../lib/timestamps.js";
+import type * as lib_tradeDeadline from "../lib/tradeDeadline.js";
+import type * as lib_waivers from "../lib/waivers.js";
 import type * as maintenanceScope from "../maintenanceScope.js";
+import type * as matchupScoring from "../matchupScoring.js";
+import type * as ownerLadder from "../ownerLadder.js";
+import type * as playerRatings from "../playerRatings.js";
+import type * as powerRatings from "../powerRatings.js";
 import type * as reporterBackfill from "../reporterBackfill.js";
+import type * as seasonStatAggregation from "../seasonStatAggregation.js";
+import type * as signingPeriods from "../signingPeriods.js";
+import type * as standings from "../standings.js";
 import type * as timestampMigration from "../timestampMigration.js";
+import type * as trades from "../trades.js";
 import type * as ufa from "../ufa.js";
+import type * as waivers from "../waivers.js";
 import type * as weeklyEditionBackfill from "../weeklyEditionBackfill.js";
 import type * as weeklyEditions from "../weeklyEditions.js";
 import type * as yahooBackfill from "../yahooBackfill.js";
@@ -38,21 +62,45 @@ import type {
 declare const fullApi: ApiFromModules<{
   authUsers: typeof authUsers;
   awardCalculations: typeof awardCalculations;
+  contractEligibility: typeof contractEligibility;
   crons: typeof crons;
   data: typeof data;
   draft: typeof draft;
+  externalIngestion: typeof externalIngestion;
+  externalIngestionSources: typeof externalIngestionSources;
   externalWorker: typeof externalWorker;
   frontend: typeof frontend;
   jobCatalog: typeof jobCatalog;
   jobRunner: typeof jobRunner;
   jobs: typeof jobs;
   "lib/auth": typeof lib_auth;
+  "lib/buyouts": typeof lib_buyouts;
+  "lib/contractEligibility": typeof lib_contractEligibility;
+  "lib/domainRows": typeof lib_domainRows;
+  "lib/externalIngestion": typeof lib_externalIngestion;
+  "lib/jobPipelines": typeof lib_jobPipelines;
+  "lib/jobSchedules": typeof lib_jobSchedules;
+  "lib/lineups": typeof lib_lineups;
+  "lib/ownerLadder": typeof lib_ownerLadder;
   "lib/reporterDirectory": typeof lib_reporterDirectory;
+  "lib/signingPeriods": typeof lib_signingPeriods;
+  "lib/statAggregation": typeof lib_statAggregation;
   "lib/timestamps": typeof lib_timestamps;
+  "lib/tradeDeadline": typeof lib_tradeDeadline;
+  "lib/waivers": typeof lib_waivers;
   maintenanceScope: typeof maintenanceScope;
+  matchupScoring: typeof matchupScoring;
+  ownerLadder: typeof ownerLadder;
+  playerRatings: typeof playerRatings;
+  powerRatings: typeof powerRatings;
   reporterBackfill: typeof reporterBackfill;
+  seasonStatAggregation: typeof seasonStatAggregation;
+  signingPeriods: typeof signingPeriods;
+  standings: typeof standings;
   timestampMigration: typeof timestampMigration;
+  trades: typeof trades;
   ufa: typeof ufa;
+  waivers: typeof waivers;
   weeklyEditionBackfill: typeof weeklyEditionBackfill;
   weeklyEditions: typeof weeklyEditions;
   yahooBackfill: typeof yahooBackfill;
@@ -0,0 +1,410 @@
+import { makeFunctionReference } from "convex/server";
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import type {
+  ContractEligibility,
+  PlayerDayTally,
+  SigningPeriodWindow,
+  Week,
+} from "../src/lib/types";
+import { SeasonType } from "../src/lib/utils/domain/constants";
+import { getContractEligibility } from "../src/lib/utils/domain/contracts";
+import {
+  countRegularSeasonDays,
+  emptyPlayerDayTally,
+  resolvePlayerDayEligibility,
+  tallyPlayerDays,
+} from "../src/lib/utils/features/player-days";
+import { buildLockKey } from "./jobCatalog";
+import {
+  activeSigningSeason,
+  toPlayerDayEligibility,
+} from "./lib/contractEligibility";
+import { toContract, toSeason } from "./lib/domainRows";
+import { loadSigningPeriodCalendar } from "./lib/signingPeriods";
+import { utcTimestampToDateKey } from "./lib/timestamps";
+
+const runner = makeFunctionReference<"action", { runId: Id<"jobRuns"> }>(
+  "jobRunner:run",
+);
+const ACTIVE = new Set(["queued", "running", "waiting_external", "cancelling"]);
+const PLAYER_DAY_BATCH_SIZE = 400;
+
+type PlayerDayProgress = {
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+  // The last player of a page may continue on the next one.
+  pendingPlayer?: { playerId: Id<"players">; tally: PlayerDayTally };
+};
+
+function eligibilityByPlayer(
+  players: Doc<"players">[],
+  contracts: Doc<"contracts">[],
+  seasons: Doc<"seasons">[],
+  signingPeriods: SigningPeriodWindow[],
+  now: number,
+): Map<string, ContractEligibility> {
+  const signingSeason = activeSigningSeason(seasons);
+  const result = new Map<string, ContractEligibility>();
+  if (!signingSeason) return result;
+  const contractsByPlayer = new Map<string, ReturnType<typeof toContract>[]>();
+  for (const contract of contracts) {
+    const key = String(contract.playerId);
+    const rows = contractsByPlayer.get(key) ?? [];
+    rows.push(toContract(contract));
+    contractsByPlayer.set(key, rows);
+  }
+  const domainSeasons = seasons.map(toSeason);
+  const domainSigningSeason = toSeason(signingSeason);
+  for (const player of players) {
+    result.set(
+      String(player._id),
+      getContractEligibility({
+        player: {
+          id: String(player._id),
+          fullName: player.fullName,
+          ownerId: player.ownerId ? String(player.ownerId) : null,
+        },
+        signingSeason: domainSigningSeason,
+        contracts: contractsByPlayer.get(String(player._id)) ?? [],
+        seasons: domainSeasons,
+        signingPeriods,
+        referenceDate: new Date(now),
+      }),
+    );
+  }
+  return result;
+}
+
+/**
+ * Re-derives players.isResignable from contract history so the stored flag
+ * never drifts from the rule 9.9 engine.
+ */
+export const syncResignable = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const [players, contracts, seasons] = await Promise.all([
+      ctx.db
+        .query("players")
+        .withIndex("by_isActive", (range) => range.eq("isActive", true))
+        .collect(),
+      ctx.db.query("contracts").collect(),
+      ctx.db.query("seasons").collect(),
+    ]);
+    const signingSeason = activeSigningSeason(seasons);
+    const signingPeriods = signingSeason
+      ? await loadSigningPeriodCalendar(ctx, signingSeason)
+      : [];
+    const eligibility = eligibilityByPlayer(
+      players,
+      contracts,
+      seasons,
+      signingPeriods,
+      now,
+    );
+    let updated = 0;
+    for (const player of players) {
+      const verdict = eligibility.get(String(player._id));
+      if (!verdict) continue;
+      const isResignable = verdict.canSign ? verdict.status : null;
+      if ((player.isResignable ?? null) === isResignable) continue;
+      await ctx.db.patch(player._id, { isResignable, updatedAt: now });
+      updated += 1;
+    }
+    return { checked: players.length, updated };
+  },
+});
+
+async function resolvePlayerDaySeason(
+  ctx: MutationCtx,
+  requestedSeasonId: string | undefined,
+): Promise<Doc<"seasons">> {
+  const seasons = await ctx.db.query("seasons").collect();
+  const season = requestedSeasonId
+    ? seasons.find(
+        (candidate) =>
+          String(candidate._id) === requestedSeasonId ||
+          String(candidate.legacyId ?? "") === requestedSeasonId,
+      )
+    : activeSigningSeason(seasons);
+  if (!season) {
+    throw new Error(
+      requestedSeasonId
+        ? `Season ${requestedSeasonId} was not found`
+        : "No active season was found",
+    );
+  }
+  return season;
+}
+
+/**
+ * Pages through a season's playerDayStatLines in player order and stores
+ * each player's rule 9.11 verdict once all of their rows have been counted.
+ */
+export const processPlayerDayEligibilityBatch = internalMutation({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    if (run.status === "cancelling") return { cancelled: true, done: true };
+    const jobArgs = (run.args ?? {}) as { seasonId?: unknown };
+    const requestedSeasonId =
+      typeof jobArgs.seasonId === "string" ? jobArgs.seasonId : undefined;
+    const season = await resolvePlayerDaySeason(ctx, requestedSeasonId);
+    const weeks = await ctx.db
+      .query("weeks")
+      .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+      .collect();
+    const regularSeasonWeekIds = new Set(
+      weeks
+        .filter((week) => week.weekType === SeasonType.REGULAR_SEASON)
+        .map((week) => String(week._id)),
+    );
+    const regularSeasonDays = countRegularSeasonDays(
+      weeks.map((week) => ({
+        weekType: week.weekType as Week["weekType"],
+        startDate: utcTimestampToDateKey(week.startDate) ?? "",
+        endDate: utcTimestampToDateKey(week.endDate) ?? "",
+      })),
+    );
+    const page = await ctx.db
+      .query("playerDayStatLines")
+      .withIndex("by_seasonId_playerId_date", (range) =>
+        range.eq("seasonId", season._id),
+      )
+      .paginate({
+        cursor: run.cursor ?? null,
+        numItems: PLAYER_DAY_BATCH_SIZE,
+      });
+    const progress: PlayerDayProgress = {
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      skipped: 0,
+      ...(run.progress as Partial<PlayerDayProgress> | undefined),
+    };
+
+    const groups: Array<{
+      playerId: Id<"players">;
+      tally: PlayerDayTally;
+      rows: Array<{ gshlTeamId: string; date: string }>;
+    }> = progress.pendingPlayer
+      ? [{ ...progress.pendingPlayer, rows: [] }]
+      : [];
+    let skipped = 0;
+    for (const row of page.page) {
+      let group = groups.at(-1);
+      if (group?.playerId !== row.playerId) {
+        group = {
+          playerId: row.playerId,
+          tally: emptyPlayerDayTally(),
+          rows: [],
+        };
+        groups.push(group);
+      }
+      if (!regularSeasonWeekIds.has(String(row.weekId))) {
+        skipped += 1;
+        continue;
+      }
+      group.rows.push({
+        gshlTeamId: String(row.gshlTeamId),
+        date: utcTimestampToDateKey(row.date) ?? "",
+      });
+    }
+    for (const group of groups) {
+      group.tally = tallyPlayerDays(group.rows, group.tally);
+    }
+    const pending = page.isDone ? undefined : groups.pop();
+
+    const now = Date.now();
+    let inserted = 0;
+    let updated = 0;
+    let unchanged = 0;
+    for (const group of groups) {
+      const verdict = resolvePlayerDayEligibility({
+        seasonId: String(season._id),
+        playerId: String(group.playerId),
+        regularSeasonDays,
+        rosterDays: group.tally.rosterDays,
+        teamDays: group.tally.teamDays,
+      });
+      const fields = {
+        regularSeasonDays: verdict.regularSeasonDays,
+        rosterDays: verdict.rosterDays,
+        rosterRatio: verdict.rosterRatio,
+        teamDays: verdict.teamDays.map((count) => ({
+          ...count,
+          gshlTeamId: count.gshlTeamId as Id<"teams">,
+        })),
+        qualifyingTeamIds: verdict.qualifyingTeamIds as Id<"teams">[],
+        isEligible: verdict.isEligible,
+      };
+      const existing = await ctx.db
+        .query("playerDayEligibility")
+        .withIndex("by_seasonId_playerId", (range) =>
+          range.eq("seasonId", season._id).eq("playerId", group.playerId),
+        )
+        .unique();
+      if (!existing) {
+        inserted += 1;
+        if (run.apply) {
+          await ctx.db.insert("playerDayEligibility", {
+            seasonId: season._id,
+            playerId: group.playerId,
+            ...fields,
+            computedAt: now,
+          });
+        }
+        continue;
+      }
+      const { teamDays, qualifyingTeamIds, ...counts } = fields;
+      const changed =
+        Object.entries(counts).some(
+          ([key, value]) => existing[key as keyof typeof counts] !== value,
+        ) ||
+        JSON.stringify(existing.teamDays) !== JSON.stringify(teamDays) ||
+        JSON.stringify(existing.qualifyingTeamIds) !==
+          JSON.stringify(qualifyingTeamIds);
+      if (changed) updated += 1;
+      else unchanged += 1;
+      if (run.apply) {
+        await ctx.db.patch(existing._id, {
+          ...(changed ? fields : {}),
+          computedAt: now,
+        });
+      }
+    }
+
+    // Verdicts whose player no longer has any day rows this season are stale.
+    let deleted = 0;
+    if (page.isDone) {
+      const stored = await ctx.db
+        .query("playerDayEligibility")
+        .withIndex("by_seasonId_playerId", (range) =>
+          range.eq("seasonId", season._id),
+        )
+        .collect();
+      for (const row of stored) {
+        const dayRow = await ctx.db
+          .query("playerDayStatLines")
+          .withIndex("by_seasonId_playerId_date", (range) =>
+            range.eq("seasonId", season._id).eq("playerId", row.playerId),
+          )
+          .first();
+        if (dayRow) continue;
+        deleted += 1;
+        if (run.apply) await ctx.db.delete(row._id);
+      }
+    }
+
+    const nextProgress: PlayerDayProgress = {
+      processed: progress.processed + page.page.length,
+      inserted: progress.inserted + inserted,
+      updated: progress.updated + updated,
+      deleted: progress.deleted + deleted,
+      unchanged: progress.unchanged + unchanged,
+      skipped: progress.skipped + skipped,
+      ...(pending
+        ? {
+            pendingPlayer: { playerId: pending.playerId, tally: pending.tally },
+          }
+        : {}),
+    };
+    await ctx.db.patch(args.runId, {
+      cursor: page.isDone ? undefined : page.continueCursor,
+      progress: nextProgress,
+      heartbeatAt: now,
+    });
+    await ctx.db.insert("jobEvents", {
+      runId: args.runId,
+      level: "debug",
+      message: `Counted ${page.page.length} playerDayStatLines rows`,
+      data: {
+        cursor: page.isDone ? null : page.continueCursor,
+        progress: nextProgress,
+      },
+      createdAt: now,
+    });
+    return { done: page.isDone, cancelled: false, progress: nextProgress };
+  },
+});
+
+/** Queues the nightly rule 9.11 rebuild for the active season. */
+export const enqueuePlayerDayEligibility = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const season = activeSigningSeason(await ctx.db.query("seasons").collect());
+    if (!season) return null;
+    const jobArgs = { seasonId: String(season._id) };
+    const lockKey = buildLockKey("player-day-eligibility", jobArgs);
+    const conflicts = await ctx.db
+      .query("jobRuns")
+      .withIndex("by_lockKey_status", (range) => range.eq("lockKey", lockKey))
+      .collect();
+    if (conflicts.some((row) => ACTIVE.has(row.status))) return null;
+    const now = Date.now();
+    const runId = await ctx.db.insert("jobRuns", {
+      jobName: "player-day-eligibility",
+      args: jobArgs,
+      apply: true,
+      mode: "scheduled",
+      status: "queued",
+      lockKey,
+      attempt: 1,
+      requestedBy: "cron:player-day-eligibility",
+      createdAt: now,
+      progress: {
+        processed: 0,
+        inserted: 0,
+        updated: 0,
+        deleted: 0,
+        unchanged: 0,
+        skipped: 0,
+      },
+    });
+    await ctx.scheduler.runAfter(0, runner, { runId });
+    return runId;
+  },
+});
+
+export const playerDays = query({
+  args: {
+    seasonId: v.optional(v.id("seasons")),
+    playerIds: v.optional(v.array(v.id("players"))),
+  },
+  handler: async (ctx, args) => {
+    const season = args.seasonId
+      ? await ctx.db.get(args.seasonId)
+      : activeSigningSeason(await ctx.db.query("seasons").collect());
+    if (!season) return [];
+    if (args.playerIds) {
+      const rows = await Promise.all(
+        args.playerIds.map((playerId) =>
+          ctx.db
+            .query("playerDayEligibility")
+            .withIndex("by_seasonId_playerId", (range) =>
+              range.eq("seasonId", season._id).eq("playerId", playerId),
+            )
+            .unique(),
+        ),
+      );
+      return rows.flatMap((row) => (row ? [toPlayerDayEligibility(row)] : []));
+    }
+    const rows = await ctx.db
+      .query("playerDayEligibility")
+      .withIndex("by_seasonId_playerId", (range) =>
+        range.eq("seasonId", season._id),
+      )
+      .collect();
+    return rows.map(toPlayerDayEligibility);
+  },
+});
@@ -11,6 +11,14 @@ const tickSchedules = makeFunctionReference<"mutation">(
   Record<string, never>,
   unknown
 >;
+const reapStaleJobs = makeFunctionReference<"mutation">(
+  "jobRunner:reapStaleJobs",
+) as unknown as FunctionReference<
+  "mutation",
+  "internal",
+  Record<string, never>,
+  unknown
+>;
 const reconcileUfaOffers = makeFunctionReference<"mutation">(
   "ufa:reconcileDueGroups",
 ) as unknown as FunctionReference<
@@ -27,18 +35,80 @@ const scanDueWeeklyEditionMilestones = makeFunctionReference<"mutation">(
   Record<string, never>,
   unknown
 >;
+const syncResignableStatuses = makeFunctionReference<"mutation">(
+  "contractEligibility:syncResignable",
+) as unknown as FunctionReference<
+  "mutation",
+  "internal",
+  Record<string, never>,
+  unknown
+>;
+const enqueuePlayerDayEligibility = makeFunctionReference<"mutation">(
+  "contractEligibility:enqueuePlayerDayEligibility",
+) as unknown as FunctionReference<
+  "mutation",
+  "internal",
+  Record<string, never>,
+  unknown
+>;
+const processDueWaivers = makeFunctionReference<"mutation">(
+  "waivers:processDue",
+) as unknown as FunctionReference<
+  "mutation",
+  "internal",
+  Record<string, never>,
+  unknown
+>;
+const autoPickExpiredDraftClocks = makeFunctionReference<"mutation">(
+  "draft:autoPickExpired",
+) as unknown as FunctionReference<
+  "mutation",
+  "internal",
+  Record<string, never>,
+  unknown
+>;
 crons.interval("dispatch due job schedules", { minutes: 1 }, tickSchedules, {});
+crons.interval(
+  "recover stale job runs and expired worker leases",
+  { minutes: 5 },
+  reapStaleJobs,
+  {},
+);
 crons.interval(
   "resolve due UFA offer groups",
   { minutes: 1 },
   reconcileUfaOffers,
   {},
 );
+crons.interval(
+  "auto-draft expired draft clocks",
+  { minutes: 1 },
+  autoPickExpiredDraftClocks,
+  {},
+);
+crons.interval(
+  "process rule 3.1 waiver claims",
+  { minutes: 5 },
+  processDueWaivers,
+  {},
+);
 crons.interval(
   "publish due GSHL Weekly milestone editions",
   { hours: 6 },
   scanDueWeeklyEditionMilestones,
   {},
 );
+crons.daily(
+  "derive player contract eligibility",
+  { hourUTC: 9, minuteUTC: 0 },
+  syncResignableStatuses,
+  {},
+);
+crons.daily(
+  "count rule 9.11 player-days",
+  { hourUTC: 8, minuteUTC: 0 },
+  enqueuePlayerDayEligibility,
+  {},
+);
 
 export default crons;
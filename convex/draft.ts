@@ -1,6 +1,8 @@
+import { makeFunctionReference } from "convex/server";
 import { v } from "convex/values";
-import { mutation, query, type MutationCtx } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import {
   requireActiveUser,
   requireCommissioner,
@@ -10,22 +12,40 @@ import type {
   DraftHubPlayerSummary,
   DraftHubTeamSummary,
   DraftPick,
-  LineupAssignment,
-  LineupCandidate,
-  RosterPosition as RosterPositionType,
+  GSHLTeam,
+  SeededTeam,
+  TeamSeasonStatLine,
 } from "../src/lib/types";
+import {
+  buildContractedSeasonRosterPlayers,
+  prepareDraftBoardPlayers,
+} from "../src/lib/utils/features/draft-board-list";
 import {
   DRAFT_PICK_CLOCK_MS,
+  DRAFT_QUEUE_LIMIT,
   findLatestCompletedLiveDraftPick,
+  findLatestStartedDraftSeason,
   resolveDraftClockState,
   serializeDraftHubPick,
 } from "../src/lib/utils/features/draft-hub";
-import { generateLineupAssignments } from "../src/lib/utils/features/draft-admin";
+import { buildMockDraftProjection } from "../src/lib/utils/features/mock-draft";
+import { buildDraftOrderTournament } from "../src/lib/utils/features/playoff-bracket";
+import { ContractStatus, SeasonType } from "../src/lib/utils/domain/constants";
+import { loadContractEligibility } from "./lib/contractEligibility";
 import {
-  ContractStatus,
-  RosterPosition,
-} from "../src/lib/utils/domain/constants";
-import { toUtcTimestamp } from "./lib/timestamps";
+  toContract,
+  toMatchup,
+  toPlayer,
+  toSeason,
+  toWeek,
+} from "./lib/domainRows";
+import { rebuildTeamLineup } from "./lib/lineups";
+import { toUtcTimestamp, utcTimestampToDateKey } from "./lib/timestamps";
+
+const autoPickExpiredRef = makeFunctionReference<
+  "mutation",
+  { seasonId?: Id<"seasons"> }
+>("draft:autoPickExpired");
 
 function toDate(value: unknown, fallback: number): Date {
   return new Date(toUtcTimestamp(value) ?? fallback);
@@ -106,87 +126,6 @@ function parseTime(value: unknown): number | null {
   return toUtcTimestamp(value);
 }
 
-function toRosterPosition(value: unknown): RosterPositionType | null {
-  switch (value) {
-    case RosterPosition.BN:
-      return RosterPosition.BN;
-    case RosterPosition.IR:
-      return RosterPosition.IR;
-    case RosterPosition.IRplus:
-      return RosterPosition.IRplus;
-    case RosterPosition.LW:
-      return RosterPosition.LW;
-    case RosterPosition.C:
-      return RosterPosition.C;
-    case RosterPosition.RW:
-      return RosterPosition.RW;
-    case RosterPosition.D:
-      return RosterPosition.D;
-    case RosterPosition.G:
-      return RosterPosition.G;
-    case RosterPosition.Util:
-      return RosterPosition.Util;
-    default:
-      return null;
-  }
-}
-
-function toLineupCandidate(player: Doc<"players">): LineupCandidate {
-  const parsedRating =
-    player.overallRating === null || player.overallRating === undefined
-      ? null
-      : Number(player.overallRating);
-  return {
-    id: String(player._id),
-    nhlPos: (player.nhlPos ?? [])
-      .map(toRosterPosition)
-      .filter((position): position is RosterPositionType => position !== null),
-    lineupPos: toRosterPosition(player.lineupPos),
-    overallRating: Number.isFinite(parsedRating) ? parsedRating : null,
-  };
-}
-
-async function rebuildTeamLineup(
-  ctx: MutationCtx,
-  ownerId: Id<"owners">,
-  teamId: Id<"teams">,
-  updatedAt: number,
-  explicitlyIncludedPlayers: readonly Doc<"players">[] = [],
-): Promise<LineupAssignment[]> {
-  const [ownerRosterRows, teamRosterRows] = await Promise.all([
-    ctx.db
-      .query("players")
-      .withIndex("by_ownerId", (range) => range.eq("ownerId", ownerId))
-      .collect(),
-    ctx.db
-      .query("players")
-      .withIndex("by_gshlTeamId", (range) => range.eq("gshlTeamId", teamId))
-      .collect(),
-  ]);
-  const rosterById = new Map<string, Doc<"players">>();
-  for (const rosterPlayer of [
-    ...ownerRosterRows,
-    ...teamRosterRows,
-    ...explicitlyIncludedPlayers,
-  ]) {
-    rosterById.set(String(rosterPlayer._id), rosterPlayer);
-  }
-  const lineupAssignments = generateLineupAssignments(
-    [...rosterById.values()]
-      .filter((rosterPlayer) => rosterPlayer.isActive)
-      .map(toLineupCandidate),
-  );
-  for (const assignment of lineupAssignments) {
-    const rosterPlayer = rosterById.get(assignment.playerId);
-    if (!rosterPlayer) continue;
-    await ctx.db.patch(rosterPlayer._id, {
-      lineupPos: assignment.lineupPos,
-      updatedAt,
-    });
-  }
-  return lineupAssignments;
-}
-
 function contractCoversDraft(
   contract: Doc<"contracts">,
   draftDate: number,
@@ -263,6 +202,248 @@ export const state = query({
   },
 });
 
+type LiveDraft = {
+  orderedRows: Doc<"draftPicks">[];
+  activeRow: Doc<"draftPicks"> | null;
+  clock: ReturnType<typeof resolveDraftClockState>;
+};
+
+type DraftRules = {
+  draftDate: number;
+  signingSeason: Doc<"seasons"> | undefined;
+};
+
+async function loadLiveDraft(
+  ctx: QueryCtx,
+  season: Doc<"seasons">,
+  now: Date,
+): Promise<LiveDraft> {
+  const pickRows = await ctx.db
+    .query("draftPicks")
+    .withIndex("by_seasonId_round_pick", (range) =>
+      range.eq("seasonId", season._id),
+    )
+    .collect();
+  const orderedRows = [...pickRows].sort(compareRows);
+  return {
+    orderedRows,
+    activeRow:
+      orderedRows.find((pick) => !pick.isSigning && !pick.playerId) ?? null,
+    clock: resolveDraftClockState(
+      orderedRows.map(toDraftPick),
+      toUtcTimestamp(season.draftStartAt),
+      now,
+    ),
+  };
+}
+
+async function loadPickTeam(ctx: QueryCtx, activeRow: Doc<"draftPicks">) {
+  if (!activeRow.gshlTeamId) {
+    throw new Error("The active pick does not have a team");
+  }
+  const team = await ctx.db.get(activeRow.gshlTeamId);
+  const franchise = team ? await ctx.db.get(team.franchiseId) : null;
+  if (!team || !franchise) {
+    throw new Error("The active pick team could not be resolved");
+  }
+  return { team, franchise };
+}
+
+async function loadDraftRules(
+  ctx: QueryCtx,
+  season: Doc<"seasons">,
+): Promise<DraftRules> {
+  const draftDate = parseTime(season.startDate);
+  if (draftDate === null) {
+    throw new Error("The draft season start date is invalid");
+  }
+  const orderedSeasons = (await ctx.db.query("seasons").collect()).sort(
+    (a, b) => Number(a.year) - Number(b.year),
+  );
+  const signingSeason =
+    orderedSeasons[
+      orderedSeasons.findIndex((candidate) => candidate._id === season._id) - 1
+    ];
+  return { draftDate, signingSeason };
+}
+
+/** Why a player cannot be taken with the active pick, or null if he can. */
+async function draftIneligibility(
+  ctx: QueryCtx,
+  draft: LiveDraft,
+  rules: DraftRules,
+  player: Doc<"players">,
+  nowTimestamp: number,
+): Promise<string | null> {
+  if (!player.isActive) return "That player is not draft eligible";
+  if (
+    draft.orderedRows.some(
+      (pick) =>
+        pick.playerId === player._id && pick._id !== draft.activeRow?._id,
+    )
+  ) {
+    return "That player has already been drafted";
+  }
+  const playerContracts = await ctx.db
+    .query("contracts")
+    .withIndex("by_playerId", (range) => range.eq("playerId", player._id))
+    .collect();
+  if (
+    playerContracts.some((contract) =>
+      contractCoversDraft(contract, rules.draftDate),
+    )
+  ) {
+    return "That player already has a contract for this season";
+  }
+  if (rules.signingSeason) {
+    const eligibility = await loadContractEligibility(
+      ctx,
+      player,
+      nowTimestamp,
+      rules.signingSeason,
+    );
+    if (eligibility?.isUnderContract) return eligibility.reason;
+  }
+  return null;
+}
+
+/**
+ * Puts the player on the picking team, rebuilds its lineup and starts the
+ * next pick's clock, with an auto-pick queued for when that clock runs out.
+ */
+async function completeDraftPick(
+  ctx: MutationCtx,
+  options: {
+    season: Doc<"seasons">;
+    draft: LiveDraft;
+    activeRow: Doc<"draftPicks">;
+    team: Doc<"teams">;
+    franchise: Doc<"franchises">;
+    player: Doc<"players">;
+    nowTimestamp: number;
+  },
+) {
+  const { season, draft, activeRow, team, franchise, player, nowTimestamp } =
+    options;
+  await ctx.db.patch(player._id, {
+    ownerId: franchise.ownerId,
+    gshlTeamId: team._id,
+    lineupPos: null,
+    updatedAt: nowTimestamp,
+  });
+
+  const draftedPlayerRow: Doc<"players"> = {
+    ...player,
+    ownerId: franchise.ownerId,
+    gshlTeamId: team._id,
+    lineupPos: null,
+    updatedAt: nowTimestamp,
+  };
+  const lineupAssignments = await rebuildTeamLineup(
+    ctx,
+    franchise.ownerId,
+    team._id,
+    nowTimestamp,
+    [draftedPlayerRow],
+  );
+  const draftedPlayerAssignment = lineupAssignments.find(
+    (assignment) => assignment.playerId === String(player._id),
+  );
+  if (!draftedPlayerAssignment) {
+    throw new Error("The drafted player could not be placed in the lineup");
+  }
+
+  await ctx.db.patch(activeRow._id, {
+    playerId: player._id,
+    onClockStartedAt:
+      toUtcTimestamp(activeRow.onClockStartedAt) ??
+      toUtcTimestamp(draft.clock.clockStartedAt) ??
+      nowTimestamp,
+    onClockExpiresAt:
+      toUtcTimestamp(activeRow.onClockExpiresAt) ??
+      toUtcTimestamp(draft.clock.clockExpiresAt) ??
+      nowTimestamp + DRAFT_PICK_CLOCK_MS,
+    onClockEndedAt: nowTimestamp,
+    isSigning: false,
+    updatedAt: nowTimestamp,
+  });
+
+  const nextPick =
+    draft.orderedRows.find(
+      (pick) => pick._id !== activeRow._id && !pick.isSigning && !pick.playerId,
+    ) ?? null;
+  if (nextPick) {
+    await ctx.db.patch(nextPick._id, {
+      onClockStartedAt: nowTimestamp,
+      onClockExpiresAt: nowTimestamp + DRAFT_PICK_CLOCK_MS,
+      onClockEndedAt: null,
+      updatedAt: nowTimestamp,
+    });
+    await ctx.scheduler.runAt(
+      nowTimestamp + DRAFT_PICK_CLOCK_MS,
+      autoPickExpiredRef,
+      { seasonId: season._id },
+    );
+  }
+
+  return {
+    completedPickId: String(activeRow._id),
+    nextPickId: nextPick ? String(nextPick._id) : null,
+    isComplete: nextPick === null,
+    lineupPos: draftedPlayerAssignment.lineupPos,
+  };
+}
+
+/** The fallback auto-pick: the mock draft's projection for the active pick. */
+async function projectAutoDraftPlayer(
+  ctx: QueryCtx,
+  season: Doc<"seasons">,
+  draft: LiveDraft,
+): Promise<Doc<"players"> | null> {
+  const [playerRows, contractRows, teamById] = await Promise.all([
+    ctx.db
+      .query("players")
+      .withIndex("by_isActive", (range) => range.eq("isActive", true))
+      .collect(),
+    ctx.db.query("contracts").collect(),
+    loadTeamSummaries(ctx, season._id),
+  ]);
+  const seasonStart = utcTimestampToDateKey(season.startDate);
+  if (!seasonStart) return null;
+  const players = playerRows.map(toPlayer);
+  const contracts = contractRows.map(toContract);
+  const playerById = new Map(players.map((player) => [player.id, player]));
+  const livePicks = draft.orderedRows.filter((pick) => !pick.isSigning);
+  const [projection] = buildMockDraftProjection({
+    seasonDraftPicks: livePicks.map(toDraftPick),
+    draftPlayers: prepareDraftBoardPlayers(players, contracts, seasonStart),
+    rosterPlayers: buildContractedSeasonRosterPlayers(
+      players,
+      contracts,
+      seasonStart,
+    ),
+    completedPicks: livePicks.flatMap((pick) => {
+      const player = pick.playerId
+        ? playerById.get(String(pick.playerId))
+        : undefined;
+      return player ? [{ pick: toDraftPick(pick), player }] : [];
+    }),
+    teams: [...teamById.values()] as unknown as GSHLTeam[],
+    take: 1,
+  });
+  if (
+    !projection?.projectedPlayer ||
+    projection.pick.id !== String(draft.activeRow?._id)
+  ) {
+    return null;
+  }
+  return (
+    playerRows.find(
+      (row) => String(row._id) === projection.projectedPlayer?.id,
+    ) ?? null
+  );
+}
+
 export const submitPick = mutation({
   args: {
     seasonId: v.id("seasons"),
@@ -271,34 +452,21 @@ export const submitPick = mutation({
   },
   handler: async (ctx, args) => {
     const user = await requireOwnerOrCommissioner(ctx);
-    const [season, pickRows, player] = await Promise.all([
+    const [season, player] = await Promise.all([
       ctx.db.get(args.seasonId),
-      ctx.db
-        .query("draftPicks")
-        .withIndex("by_seasonId_round_pick", (range) =>
-          range.eq("seasonId", args.seasonId),
-        )
-        .collect(),
       ctx.db.get(args.playerId),
     ]);
     if (!season) throw new Error("Draft season not found");
     if (!player) throw new Error("Player not found");
 
-    const orderedRows = [...pickRows].sort(compareRows);
-    const activeRow =
-      orderedRows.find((pick) => !pick.isSigning && !pick.playerId) ?? null;
+    const now = new Date();
+    const nowTimestamp = now.getTime();
+    const draft = await loadLiveDraft(ctx, season, now);
+    const { activeRow, clock } = draft;
     if (!activeRow) throw new Error("The draft is complete");
     if (activeRow._id !== args.pickId) {
       throw new Error("That pick is no longer on the clock");
     }
-
-    const now = new Date();
-    const nowTimestamp = now.getTime();
-    const clock = resolveDraftClockState(
-      orderedRows.map(toDraftPick),
-      toUtcTimestamp(season.draftStartAt),
-      now,
-    );
     if (clock.status === "upcoming") {
       throw new Error("The draft has not started");
     }
@@ -309,17 +477,7 @@ export const submitPick = mutation({
       throw new Error("The active draft clock is unavailable");
     }
 
-    if (!activeRow.gshlTeamId) {
-      throw new Error("The active pick does not have a team");
-    }
-    const activeTeam = await ctx.db.get(activeRow.gshlTeamId);
-    const franchise = activeTeam
-      ? await ctx.db.get(activeTeam.franchiseId)
-      : null;
-    if (!activeTeam || !franchise) {
-      throw new Error("The active pick team could not be resolved");
-    }
-
+    const { team, franchise } = await loadPickTeam(ctx, activeRow);
     const isCommissioner = user.role === "commissioner";
     if (
       !isCommissioner &&
@@ -331,96 +489,146 @@ export const submitPick = mutation({
       throw new Error("The clock expired; a commissioner must make this pick");
     }
 
-    if (!player.isActive) {
-      throw new Error("That player is not draft eligible");
-    }
-    if (
-      orderedRows.some(
-        (pick) => pick.playerId === args.playerId && pick._id !== activeRow._id,
+    const ineligibility = await draftIneligibility(
+      ctx,
+      draft,
+      await loadDraftRules(ctx, season),
+      player,
+      nowTimestamp,
+    );
+    if (ineligibility) throw new Error(ineligibility);
+
+    return completeDraftPick(ctx, {
+      season,
+      draft,
+      activeRow,
+      team,
+      franchise,
+      player,
+      nowTimestamp,
+    });
+  },
+});
+
+/** The signed-in owner's private draft queue, best first. */
+export const myQueue = query({
+  args: { seasonId: v.id("seasons") },
+  handler: async (ctx, args) => {
+    const user = await requireOwnerOrCommissioner(ctx);
+    if (!user.ownerId) return [];
+    const queue = await ctx.db
+      .query("draftQueues")
+      .withIndex("by_seasonId_ownerId", (range) =>
+        range.eq("seasonId", args.seasonId).eq("ownerId", user.ownerId!),
       )
-    ) {
-      throw new Error("That player has already been drafted");
-    }
+      .unique();
+    return (queue?.playerIds ?? []).map(String);
+  },
+});
 
-    const draftDate = parseTime(season.startDate);
-    if (draftDate === null) {
-      throw new Error("The draft season start date is invalid");
+export const setQueue = mutation({
+  args: {
+    seasonId: v.id("seasons"),
+    playerIds: v.array(v.id("players")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireOwnerOrCommissioner(ctx);
+    if (!user.ownerId) throw new Error("Only owners can keep a draft queue.");
+    if (!(await ctx.db.get(args.seasonId))) {
+      throw new Error("Draft season not found");
     }
-    const playerContracts = await ctx.db
-      .query("contracts")
-      .withIndex("by_playerId", (range) => range.eq("playerId", args.playerId))
-      .collect();
-    if (
-      playerContracts.some((contract) =>
-        contractCoversDraft(contract, draftDate),
+    const playerIds = [...new Set(args.playerIds)];
+    if (playerIds.length > DRAFT_QUEUE_LIMIT) {
+      throw new Error(
+        `A draft queue holds at most ${DRAFT_QUEUE_LIMIT} players.`,
+      );
+    }
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("draftQueues")
+      .withIndex("by_seasonId_ownerId", (range) =>
+        range.eq("seasonId", args.seasonId).eq("ownerId", user.ownerId!),
       )
-    ) {
-      throw new Error("That player already has a contract for this season");
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { playerIds, updatedAt: now });
+    } else {
+      await ctx.db.insert("draftQueues", {
+        seasonId: args.seasonId,
+        ownerId: user.ownerId,
+        playerIds,
+        updatedAt: now,
+      });
     }
+    return playerIds.map(String);
+  },
+});
 
-    await ctx.db.patch(player._id, {
-      ownerId: franchise.ownerId,
-      gshlTeamId: activeTeam._id,
-      lineupPos: null,
-      updatedAt: nowTimestamp,
-    });
-
-    const draftedPlayerRow: Doc<"players"> = {
-      ...player,
-      ownerId: franchise.ownerId,
-      gshlTeamId: activeTeam._id,
-      lineupPos: null,
-      updatedAt: nowTimestamp,
-    };
-    const lineupAssignments = await rebuildTeamLineup(
-      ctx,
-      franchise.ownerId,
-      activeTeam._id,
-      nowTimestamp,
-      [draftedPlayerRow],
-    );
-    const draftedPlayerAssignment = lineupAssignments.find(
-      (assignment) => assignment.playerId === String(player._id),
-    );
-    if (!draftedPlayerAssignment) {
-      throw new Error("The drafted player could not be placed in the lineup");
+/**
+ * Makes the pick for an owner whose clock ran out: the first eligible player
+ * in their queue, otherwise the mock draft's projection. Without a season it
+ * checks the most recently started draft, which is how the cron sweeps.
+ */
+export const autoPickExpired = internalMutation({
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    const now = new Date();
+    const nowTimestamp = now.getTime();
+    const season = args.seasonId
+      ? await ctx.db.get(args.seasonId)
+      : findLatestStartedDraftSeason(
+          await ctx.db.query("seasons").collect(),
+          nowTimestamp,
+        );
+    if (!season) return null;
+    const draft = await loadLiveDraft(ctx, season, now);
+    const { activeRow } = draft;
+    if (!activeRow || draft.clock.status !== "commissioner_required") {
+      return null;
     }
 
-    await ctx.db.patch(activeRow._id, {
-      playerId: args.playerId,
-      onClockStartedAt:
-        toUtcTimestamp(activeRow.onClockStartedAt) ??
-        toUtcTimestamp(clock.clockStartedAt) ??
-        nowTimestamp,
-      onClockExpiresAt:
-        toUtcTimestamp(activeRow.onClockExpiresAt) ??
-        toUtcTimestamp(clock.clockExpiresAt) ??
-        nowTimestamp + DRAFT_PICK_CLOCK_MS,
-      onClockEndedAt: nowTimestamp,
-      isSigning: false,
-      updatedAt: nowTimestamp,
-    });
-
-    const nextPick =
-      orderedRows.find(
-        (pick) =>
-          pick._id !== activeRow._id && !pick.isSigning && !pick.playerId,
-      ) ?? null;
-    if (nextPick) {
-      await ctx.db.patch(nextPick._id, {
-        onClockStartedAt: nowTimestamp,
-        onClockExpiresAt: nowTimestamp + DRAFT_PICK_CLOCK_MS,
-        onClockEndedAt: null,
-        updatedAt: nowTimestamp,
-      });
+    const { team, franchise } = await loadPickTeam(ctx, activeRow);
+    const rules = await loadDraftRules(ctx, season);
+    const queue = await ctx.db
+      .query("draftQueues")
+      .withIndex("by_seasonId_ownerId", (range) =>
+        range.eq("seasonId", season._id).eq("ownerId", franchise.ownerId),
+      )
+      .unique();
+    let player: Doc<"players"> | null = null;
+    for (const playerId of queue?.playerIds ?? []) {
+      const candidate = await ctx.db.get(playerId);
+      if (
+        candidate &&
+        !(await draftIneligibility(ctx, draft, rules, candidate, nowTimestamp))
+      ) {
+        player = candidate;
+        break;
+      }
     }
-
-    return {
-      completedPickId: String(activeRow._id),
-      nextPickId: nextPick ? String(nextPick._id) : null,
-      isComplete: nextPick === null,
-      lineupPos: draftedPlayerAssignment.lineupPos,
-    };
+    const source = player ? "queue" : "projection";
+    if (!player) {
+      const projected = await projectAutoDraftPlayer(ctx, season, draft);
+      if (
+        projected &&
+        !(await draftIneligibility(ctx, draft, rules, projected, nowTimestamp))
+      ) {
+        player = projected;
+      }
+    }
+    // With nothing draftable the pick waits for the commissioner.
+    if (!player) return null;
+
+    const result = await completeDraftPick(ctx, {
+      season,
+      draft,
+      activeRow,
+      team,
+      franchise,
+      player,
+      nowTimestamp,
+    });
+    return { ...result, playerId: String(player._id), source };
   },
 });
 
@@ -506,6 +714,11 @@ export const undoPick = mutation({
       onClockEndedAt: null,
       updatedAt: nowTimestamp,
     });
+    await ctx.scheduler.runAt(
+      restartedAt + DRAFT_PICK_CLOCK_MS,
+      autoPickExpiredRef,
+      { seasonId: season._id },
+    );
 
     return {
       undonePickId: String(latestCompletedPick._id),
@@ -513,3 +726,152 @@ export const undoPick = mutation({
     };
   },
 });
+
+/**
+ * Locks the rule 7 draft-order tournament result into the following season's
+ * picks. Every round follows the same 1–14 order, so a pick's overall number
+ * is its round offset plus the original team's slot.
+ */
+export const lockDraftOrder = mutation({
+  args: { seasonId: v.id("seasons") },
+  handler: async (ctx, args) => {
+    await requireCommissioner(ctx);
+    const [season, seasons, teams, franchises, conferences, stats] =
+      await Promise.all([
+        ctx.db.get(args.seasonId),
+        ctx.db.query("seasons").collect(),
+        ctx.db
+          .query("teams")
+          .withIndex("by_seasonId", (range) =>
+            range.eq("seasonId", args.seasonId),
+          )
+          .collect(),
+        ctx.db.query("franchises").collect(),
+        ctx.db.query("conferences").collect(),
+        ctx.db
+          .query("teamSeasonStatLines")
+          .withIndex("by_seasonId_seasonType_gshlTeamId", (range) =>
+            range
+              .eq("seasonId", args.seasonId)
+              .eq("seasonType", SeasonType.REGULAR_SEASON),
+          )
+          .collect(),
+      ]);
+    if (!season) throw new Error("Season not found");
+    const nextSeason = seasons
+      .filter((candidate) => Number(candidate.year) > Number(season.year))
+      .sort((left, right) => Number(left.year) - Number(right.year))[0];
+    if (!nextSeason)
+      throw new Error("The following season has not been set up");
+
+    const [matchups, weeks, nextTeams, pickRows] = await Promise.all([
+      ctx.db
+        .query("matchups")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect(),
+      ctx.db
+        .query("weeks")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect(),
+      ctx.db
+        .query("teams")
+        .withIndex("by_seasonId", (range) =>
+          range.eq("seasonId", nextSeason._id),
+        )
+        .collect(),
+      ctx.db
+        .query("draftPicks")
+        .withIndex("by_seasonId_round_pick", (range) =>
+          range.eq("seasonId", nextSeason._id),
+        )
+        .collect(),
+    ]);
+    if (pickRows.some((pick) => pick.playerId)) {
+      throw new Error("The draft has already started");
+    }
+
+    const franchiseById = new Map(
+      franchises.map((franchise) => [String(franchise._id), franchise]),
+    );
+    const conferenceById = new Map(
+      conferences.map((conference) => [String(conference._id), conference]),
+    );
+    const seededTeams = teams.map((team): SeededTeam => {
+      const franchise = franchiseById.get(String(team.franchiseId));
+      const conference = conferenceById.get(String(team.confId));
+      return {
+        id: String(team._id),
+        seasonId: String(team.seasonId),
+        franchiseId: String(team.franchiseId),
+        name: franchise?.name ?? null,
+        abbr: franchise?.abbr ?? null,
+        logoUrl: franchise?.logoUrl ?? null,
+        isActive: franchise?.isActive ?? false,
+        yahooId: team.yahooId ?? null,
+        confId: String(team.confId),
+        confName: conference?.name ?? null,
+        confAbbr: conference?.abbr ?? null,
+        confLogoUrl: conference?.logoUrl ?? null,
+        ownerId: franchise ? String(franchise.ownerId) : null,
+        ownerFirstName: null,
+        ownerLastName: null,
+        ownerNickname: null,
+        ownerEmail: null,
+        ownerOwing: null,
+        ownerIsActive: false,
+      };
+    });
+    const tournament = buildDraftOrderTournament(
+      seededTeams,
+      stats.map(
+        (row) =>
+          ({
+            ...row,
+            id: String(row._id),
+            gshlTeamId: String(row.gshlTeamId),
+          }) as unknown as TeamSeasonStatLine,
+      ),
+      matchups.map(toMatchup),
+      toSeason(season),
+      weeks.map(toWeek),
+    );
+    if (!tournament.isFinal) {
+      throw new Error("The draft-order tournament is not finished yet");
+    }
+
+    const nextTeamByFranchise = new Map(
+      nextTeams.map((team) => [String(team.franchiseId), String(team._id)]),
+    );
+    const slotByNextTeam = new Map(
+      tournament.order.flatMap((slot) => {
+        const nextTeamId = slot.team
+          ? nextTeamByFranchise.get(slot.team.franchiseId)
+          : undefined;
+        return nextTeamId ? [[nextTeamId, slot.pick] as const] : [];
+      }),
+    );
+    const now = Date.now();
+    let updated = 0;
+    for (const pick of pickRows) {
+      const slot = slotByNextTeam.get(
+        String(pick.originalTeamId ?? pick.gshlTeamId ?? ""),
+      );
+      if (!slot) continue;
+      const overall = (Number(pick.round) - 1) * tournament.order.length + slot;
+      if (Number(pick.pick) === overall) continue;
+      await ctx.db.patch(pick._id, { pick: overall, updatedAt: now });
+      updated += 1;
+    }
+
+    return {
+      seasonId: String(nextSeason._id),
+      updated,
+      order: tournament.order.map((slot) => ({
+        pick: slot.pick,
+        teamId: slot.team
+          ? (nextTeamByFranchise.get(slot.team.franchiseId) ?? null)
+          : null,
+      })),
+    };
+  },
+});
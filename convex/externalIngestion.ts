@@ -0,0 +1,431 @@
+"use node";
+
+import { v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { internalAction, type ActionCtx } from "./_generated/server";
+import {
+  collapseToTotalRows,
+  matchSeasonCandidates,
+  normalizePlayerNhlRowForWrite,
+  parseGoalieCandidates,
+  parseSkaterCandidates,
+  resolveSeasonYear,
+  type InvestigationRow,
+  type ScrapedCandidate,
+} from "../scripts/src/domains/hockey-reference/season-parsers";
+import {
+  hasPlusMinusForSeason,
+  parseYahooDailyMatchupPage,
+  parseYahooMatchupTotals,
+  type ParsedYahooMatchupTotals,
+} from "../scripts/src/domains/yahoo/matchup-parsers";
+import {
+  assembleCapturedPage,
+  buildYahooPlayerDayRows,
+  compareYahooWeeklyTotals,
+  diffIngestedRows,
+  readPageParam,
+  resolveYahooPageSides,
+  type CapturedPage,
+  type IngestionFlag,
+  type IngestionPlayer,
+  type IngestionRowsDiff,
+} from "./lib/externalIngestion";
+
+/*
+ * Turns a completed browser-worker capture into league table writes. Each
+ * external job names the page it captures; the handlers here parse it with
+ * the same parsers the CLI scripts use, diff the result against Convex and,
+ * when the run is applied, upsert through `maintenanceScope`. Cheerio needs
+ * Node, so reads go through `externalIngestionSources`.
+ */
+
+// `maintenanceScope.upsertAggregateRows` accepts at most 25 rows per call.
+const WRITE_BATCH_SIZE = 25;
+const REPORT_SAMPLE_LIMIT = 25;
+const PLAYER_DAY_KEYS = [
+  "seasonId",
+  "gshlTeamId",
+  "playerId",
+  "weekId",
+  "date",
+];
+const PLAYER_NHL_KEYS = ["seasonId", "playerId"];
+
+const UNSUPPORTED_REASONS: Record<string, string> = {
+  "puckpedia-player-bio-sync":
+    "PuckPedia loads its player directory from the page's Alpine store rather than the HTML, and bios update players rather than stat lines. Run `npm run player-bios:sync` from scripts.",
+  "yahoo-player-id-backfill":
+    "Yahoo ids update players rather than stat lines. Run `npm run player-bios:backfill-yahoo-ids` from scripts.",
+};
+
+type IngestionCounts = {
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+};
+
+type IngestionReport = { kind: string; name: string; data: unknown };
+
+type CapturedJob = {
+  jobName: string;
+  apply: boolean;
+  args: Record<string, unknown>;
+  page: CapturedPage;
+};
+
+type Ingestion = {
+  table: string | null;
+  processed: number;
+  skipped: number;
+  diff: IngestionRowsDiff | null;
+  flags: IngestionFlag[];
+  details: Record<string, unknown>;
+};
+
+type Handler = (ctx: ActionCtx, job: CapturedJob) => Promise<Ingestion>;
+
+function text(value: unknown): string {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value).trim()
+    : "";
+}
+
+function requireArg(job: CapturedJob, name: string): string {
+  const value = text(job.args[name]);
+  if (!value) throw new Error(`${job.jobName} needs a \`${name}\` argument`);
+  return value;
+}
+
+function tryParse<T>(parse: () => T): T | null {
+  try {
+    return parse();
+  } catch {
+    return null;
+  }
+}
+
+async function loadPlayers(ctx: ActionCtx): Promise<IngestionPlayer[]> {
+  const players: IngestionPlayer[] = [];
+  let cursor: string | null = null;
+  for (;;) {
+    const page: {
+      players: IngestionPlayer[];
+      cursor: string;
+      isDone: boolean;
+    } = await ctx.runQuery(internal.externalIngestionSources.listPlayersPage, {
+      cursor,
+    });
+    players.push(...page.players);
+    if (page.isDone) return players;
+    cursor = page.cursor;
+  }
+}
+
+function investigationFlag(kind: string, row: InvestigationRow): IngestionFlag {
+  return {
+    kind,
+    playerName: row.fullName,
+    detail: `${row.fullName} (${row.nhlTeam || "no team"}, ${row.posGroup}, ${row.gp} GP) has ${kind === "ambiguous-player-match" ? "several" : "no"} matching players.`,
+  };
+}
+
+const ingestHockeyReferenceSeason: Handler = async (ctx, job) => {
+  const context = await ctx.runQuery(
+    internal.externalIngestionSources.loadSeasonContext,
+    { seasonId: requireArg(job, "seasonId") },
+  );
+  const seasonId = context.season.id;
+  const seasonYear = resolveSeasonYear(
+    seasonId,
+    [context.season],
+    text(job.args.year) || undefined,
+  );
+  const skaters = tryParse(() => parseSkaterCandidates(job.page.html));
+  const goalies = tryParse(() => parseGoalieCandidates(job.page.html));
+  if (!skaters && !goalies)
+    throw new Error("The captured page has no Hockey Reference stats table");
+  const candidates: ScrapedCandidate[] = [
+    ...(skaters ?? []),
+    ...(goalies ?? []),
+  ];
+  const collapsed = collapseToTotalRows(candidates);
+  const [players, existingRows] = await Promise.all([
+    loadPlayers(ctx),
+    ctx.runQuery(internal.externalIngestionSources.listPlayerNhlRows, {
+      seasonId: seasonId as Id<"seasons">,
+    }),
+  ]);
+  // Hockey Reference matching compares teams as the sheet's comma lists.
+  const matches = matchSeasonCandidates(
+    seasonId,
+    seasonYear,
+    collapsed.rows,
+    players.map((player) => ({ ...player, nhlTeam: player.nhlTeam.join(",") })),
+  );
+  const diff = diffIngestedRows(
+    PLAYER_NHL_KEYS,
+    existingRows,
+    matches.rows.map(normalizePlayerNhlRowForWrite),
+  );
+  if (job.apply && diff.duplicateKeys.length)
+    throw new Error(
+      `playerNhlStatLines has ${diff.duplicateKeys.length} duplicate season/player rows; resolve them before applying`,
+    );
+  return {
+    table: "playerNhlStatLines",
+    processed: candidates.length,
+    skipped: matches.unmatched.length + matches.ambiguous.length,
+    diff,
+    flags: [
+      ...matches.unmatched.map((row) =>
+        investigationFlag("no-player-match", row),
+      ),
+      ...matches.ambiguous.map((row) =>
+        investigationFlag("ambiguous-player-match", row),
+      ),
+    ],
+    details: {
+      seasonYear,
+      skaterTable: skaters !== null,
+      goalieTable: goalies !== null,
+      matchedSkaters: matches.matchedSkaters,
+      matchedGoalies: matches.matchedGoalies,
+      duplicateIncomingKeysCollapsed: collapsed.duplicateIncomingKeysCollapsed,
+    },
+  };
+};
+
+const ingestYahooMatchupDay: Handler = async (ctx, job) => {
+  const context = await ctx.runQuery(
+    internal.externalIngestionSources.loadSeasonContext,
+    { seasonId: requireArg(job, "seasonId") },
+  );
+  const date = readPageParam(job.page.url, "date") || text(job.args.date);
+  if (!date) throw new Error("The captured Yahoo page has no matchup date");
+  const week = context.weeks.find(
+    (candidate) =>
+      !!candidate.startDate &&
+      !!candidate.endDate &&
+      candidate.startDate <= date &&
+      date <= candidate.endDate,
+  );
+  if (!week) throw new Error(`No week of this season covers ${date}`);
+  const totals = tryParse(() => parseYahooMatchupTotals(job.page.html));
+  const sides = requirePageSides(job, totals, context.teams);
+  const parsed = parseYahooDailyMatchupPage(
+    job.page.html,
+    hasPlusMinusForSeason(context.season.legacyId),
+  );
+  const [players, existingRows] = await Promise.all([
+    loadPlayers(ctx),
+    ctx.runQuery(internal.externalIngestionSources.listPlayerDayRows, {
+      seasonId: context.season.id as Id<"seasons">,
+      date,
+    }),
+  ]);
+  const built = buildYahooPlayerDayRows({
+    seasonId: context.season.id,
+    weekId: week.id,
+    date,
+    sides: [
+      {
+        gshlTeamId: sides.home,
+        rows: [...parsed.home.skaters, ...parsed.home.goalies],
+      },
+      {
+        gshlTeamId: sides.away,
+        rows: [...parsed.away.skaters, ...parsed.away.goalies],
+      },
+    ],
+    players,
+    existingRows,
+  });
+  return {
+    table: "playerDayStatLines",
+    processed: built.parsed,
+    skipped: built.parsed - built.rows.length,
+    diff: diffIngestedRows(PLAYER_DAY_KEYS, existingRows, built.rows),
+    flags: built.flags,
+    details: { date, weekId: week.id, weekNum: week.weekNum, ...sides },
+  };
+};
+
+const validateYahooWeeklyMatchup: Handler = async (ctx, job) => {
+  const context = await ctx.runQuery(
+    internal.externalIngestionSources.loadSeasonContext,
+    { seasonId: requireArg(job, "seasonId") },
+  );
+  const weekNum = readPageParam(job.page.url, "week") || text(job.args.weekNum);
+  const week = context.weeks.find((candidate) => candidate.weekNum === weekNum);
+  if (!week) throw new Error(`Week ${weekNum || "(none)"} was not found`);
+  const totals = parseYahooMatchupTotals(job.page.html);
+  const sides = requirePageSides(job, totals, context.teams);
+  const teamWeekRows = await ctx.runQuery(
+    internal.externalIngestionSources.listTeamWeekRows,
+    {
+      seasonId: context.season.id as Id<"seasons">,
+      weekId: week.id as Id<"weeks">,
+    },
+  );
+  const result = compareYahooWeeklyTotals({
+    totals,
+    sides,
+    teamWeeks: new Map(
+      teamWeekRows.map((row) => [String(row.gshlTeamId), row]),
+    ),
+  });
+  return {
+    table: null,
+    processed: result.comparisons,
+    skipped: result.mismatches.length,
+    diff: null,
+    flags: [
+      ...result.mismatches.map((mismatch) => ({
+        kind: "team-week-mismatch",
+        gshlTeamId: mismatch.gshlTeamId,
+        detail: `${mismatch.field} is ${mismatch.storedValue} in Convex and ${mismatch.yahooValue} on Yahoo.`,
+      })),
+      ...result.missingTeamWeeks.map((gshlTeamId) => ({
+        kind: "missing-team-week",
+        gshlTeamId,
+        detail: `Team ${gshlTeamId} has no team week for week ${week.weekNum}.`,
+      })),
+    ],
+    details: {
+      weekId: week.id,
+      weekNum: week.weekNum,
+      ...sides,
+      unsupportedHeaders: result.unsupportedHeaders,
+    },
+  };
+};
+
+function requirePageSides(
+  job: CapturedJob,
+  totals: ParsedYahooMatchupTotals | null,
+  teams: ReadonlyArray<{ id: string; yahooId: string | null }>,
+) {
+  const sides = resolveYahooPageSides({ totals, url: job.page.url, teams });
+  if (!sides)
+    throw new Error("Could not match the Yahoo matchup teams to this season");
+  return sides;
+}
+
+const HANDLERS: Record<string, Handler> = {
+  "hockey-reference-backfill": ingestHockeyReferenceSeason,
+  "yahoo-matchup-player-day-backfill": ingestYahooMatchupDay,
+  "yahoo-weekly-validation": validateYahooWeeklyMatchup,
+};
+
+async function writeRows(
+  ctx: ActionCtx,
+  table: string,
+  diff: IngestionRowsDiff,
+) {
+  const serverSecret = process.env.CONVEX_SERVER_SECRET;
+  if (!serverSecret)
+    throw new Error("CONVEX_SERVER_SECRET is required to apply ingested rows");
+  const rows = [...diff.inserts, ...diff.updates.map((update) => update.row)];
+  for (let offset = 0; offset < rows.length; offset += WRITE_BATCH_SIZE) {
+    await ctx.runMutation(api.maintenanceScope.upsertAggregateRows, {
+      serverSecret,
+      table,
+      rows: rows.slice(offset, offset + WRITE_BATCH_SIZE),
+    });
+  }
+}
+
+export const ingestExternalResult = internalAction({
+  args: { runId: v.id("jobRuns") },
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{
+    counts: IngestionCounts;
+    report: IngestionReport;
+    warning?: string;
+  }> => {
+    const captured = await ctx.runQuery(
+      internal.externalIngestionSources.loadCapturedResult,
+      args,
+    );
+    const job: CapturedJob = {
+      jobName: captured.jobName,
+      apply: captured.apply,
+      args: captured.args,
+      page: assembleCapturedPage(captured.chunks),
+    };
+    const source = {
+      url: job.page.url,
+      title: job.page.title,
+      chunks: captured.chunks.length,
+    };
+    const name = `${job.jobName}-ingestion-${Date.now()}`;
+    const handler = HANDLERS[job.jobName];
+    if (!handler) {
+      const reason =
+        UNSUPPORTED_REASONS[job.jobName] ??
+        `No ingestion handler exists for ${job.jobName}.`;
+      return {
+        counts: {
+          processed: 0,
+          inserted: 0,
+          updated: 0,
+          deleted: 0,
+          unchanged: 0,
+          skipped: 0,
+        },
+        report: {
+          kind: "ingestion-diff",
+          name,
+          data: {
+            jobName: job.jobName,
+            apply: job.apply,
+            source,
+            supported: false,
+            reason,
+          },
+        },
+        warning: `The capture was stored but nothing was written. ${reason}`,
+      };
+    }
+
+    const ingestion = await handler(ctx, job);
+    const diff = ingestion.diff;
+    if (job.apply && ingestion.table && diff)
+      await writeRows(ctx, ingestion.table, diff);
+    const counts: IngestionCounts = {
+      processed: ingestion.processed,
+      inserted: diff?.inserts.length ?? 0,
+      updated: diff?.updates.length ?? 0,
+      deleted: 0,
+      unchanged: diff?.unchanged ?? ingestion.processed - ingestion.skipped,
+      skipped: ingestion.skipped,
+    };
+    return {
+      counts,
+      report: {
+        kind: "ingestion-diff",
+        name,
+        data: {
+          jobName: job.jobName,
+          apply: job.apply,
+          source,
+          supported: true,
+          table: ingestion.table,
+          counts,
+          ...ingestion.details,
+          duplicateKeys: diff?.duplicateKeys ?? [],
+          inserts: diff?.inserts.slice(0, REPORT_SAMPLE_LIMIT) ?? [],
+          updates: diff?.updates.slice(0, REPORT_SAMPLE_LIMIT) ?? [],
+          flags: ingestion.flags,
+        },
+      },
+    };
+  },
+});
@@ -0,0 +1,134 @@
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+import type { IngestionPlayer } from "./lib/externalIngestion";
+import { utcTimestampToDateKey } from "./lib/timestamps";
+
+/*
+ * Reads for `externalIngestion`, which runs in the Node runtime and so cannot
+ * query the database itself.
+ */
+
+const PLAYER_PAGE_SIZE = 500;
+
+export const loadCapturedResult = internalQuery({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Job run not found");
+    const task = await ctx.db
+      .query("externalTasks")
+      .withIndex("by_runId", (q) => q.eq("runId", args.runId))
+      .first();
+    if (task?.status !== "completed")
+      throw new Error("The browser task has not completed");
+    const jobArgs =
+      run.args && typeof run.args === "object" && !Array.isArray(run.args)
+        ? (run.args as Record<string, unknown>)
+        : {};
+    return {
+      jobName: run.jobName,
+      apply: run.apply,
+      args: jobArgs,
+      chunks: (task.resultChunks ?? []) as unknown[],
+    };
+  },
+});
+
+export const loadSeasonContext = internalQuery({
+  args: { seasonId: v.string() },
+  handler: async (ctx, args) => {
+    const seasons = await ctx.db.query("seasons").collect();
+    const season = seasons.find(
+      (candidate) =>
+        String(candidate._id) === args.seasonId ||
+        String(candidate.legacyId ?? "") === args.seasonId,
+    );
+    if (!season) throw new Error(`Season ${args.seasonId} was not found`);
+    const [teams, weeks] = await Promise.all([
+      ctx.db
+        .query("teams")
+        .withIndex("by_seasonId", (q) => q.eq("seasonId", season._id))
+        .collect(),
+      ctx.db
+        .query("weeks")
+        .withIndex("by_seasonId", (q) => q.eq("seasonId", season._id))
+        .collect(),
+    ]);
+    return {
+      season: {
+        id: String(season._id),
+        legacyId: String(season.legacyId ?? season._id),
+        year: season.year,
+        name: season.name,
+        endDate: utcTimestampToDateKey(season.endDate),
+      },
+      teams: teams.map((team) => ({
+        id: String(team._id),
+        yahooId: team.yahooId ?? null,
+      })),
+      weeks: weeks.map((week) => ({
+        id: String(week._id),
+        weekNum: String(week.weekNum),
+        startDate: utcTimestampToDateKey(week.startDate),
+        endDate: utcTimestampToDateKey(week.endDate),
+      })),
+    };
+  },
+});
+
+export const listPlayersPage = internalQuery({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("players")
+      .paginate({ cursor: args.cursor, numItems: PLAYER_PAGE_SIZE });
+    return {
+      players: page.page.map(
+        (player): IngestionPlayer => ({
+          id: String(player._id),
+          yahooId: player.yahooId ?? null,
+          firstName: player.firstName,
+          lastName: player.lastName,
+          fullName: player.fullName,
+          nhlPos: player.nhlPos ?? [],
+          posGroup: player.posGroup,
+          nhlTeam: player.nhlTeam ?? [],
+          isActive: player.isActive,
+        }),
+      ),
+      cursor: page.continueCursor,
+      isDone: page.isDone,
+    };
+  },
+});
+
+export const listPlayerDayRows = internalQuery({
+  args: { seasonId: v.id("seasons"), date: v.string() },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("playerDayStatLines")
+      .withIndex("by_seasonId_date", (q) =>
+        q.eq("seasonId", args.seasonId).eq("date", args.date),
+      )
+      .collect(),
+});
+
+export const listPlayerNhlRows = internalQuery({
+  args: { seasonId: v.id("seasons") },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("playerNhlStatLines")
+      .withIndex("by_seasonId", (q) => q.eq("seasonId", args.seasonId))
+      .collect(),
+});
+
+export const listTeamWeekRows = internalQuery({
+  args: { seasonId: v.id("seasons"), weekId: v.id("weeks") },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("teamWeekStatLines")
+      .withIndex("by_seasonId_weekId_gshlTeamId", (q) =>
+        q.eq("seasonId", args.seasonId).eq("weekId", args.weekId),
+      )
+      .collect(),
+});
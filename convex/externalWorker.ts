@@ -21,18 +21,13 @@ export const lease = mutationGeneric({
   handler: async (ctx, args) => {
     requireWorkerSecret(args.workerSecret);
     const now = Date.now();
+    // Expired leases are re-offered by `jobRunner:reapStaleJobs`, which
+    // counts attempts and sets `availableAt` to back off.
     const candidates = await ctx.db
       .query("externalTasks")
       .withIndex("by_status_createdAt", (q) => q.eq("status", "pending"))
       .take(20);
-    let task = candidates[0];
-    if (!task) {
-      const leased = await ctx.db
-        .query("externalTasks")
-        .withIndex("by_status_createdAt", (q) => q.eq("status", "leased"))
-        .take(20);
-      task = leased.find((item) => (item.leaseExpiresAt ?? 0) <= now);
-    }
+    const task = candidates.find((item) => (item.availableAt ?? 0) <= now);
     if (!task) return null;
     await ctx.db.patch(task._id, {
       status: "leased",
@@ -4,13 +4,21 @@ import { makeFunctionReference, paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import type { Id } from "./_generated/dataModel";
-import { requireCommissioner, requireOwnerOrCommissioner } from "./lib/auth";
+import {
+  requireCommissioner,
+  requireOwnerAccess,
+  requireOwnerOrCommissioner,
+} from "./lib/auth";
 import { buildLeagueActivity } from "../src/lib/utils/features/league-activity";
+import { planRfaResigning } from "../src/lib/utils/features/rfa-signing";
+import { deriveContractCreationTerms } from "../src/lib/utils/domain/contracts";
 import {
   buildLockKey,
   canonicalJobName,
   JOB_NAMES,
   JOB_STATUSES,
+  pipelineStageSummaries,
+  pipelineSummaries,
 } from "./jobCatalog";
 import {
   normalizeTimestampFields,
@@ -18,6 +26,17 @@ import {
   toUtcTimestamp,
   utcTimestampToDateKey,
 } from "./lib/timestamps";
+import {
+  loadPlayerDayEligibility,
+  requireContractEligibility,
+  syncPlayerResignable,
+} from "./lib/contractEligibility";
+import { loadSigningPeriodCalendar } from "./lib/signingPeriods";
+import { loadUfaReservedCap } from "./lib/ufaCap";
+import { applyContractBuyout } from "./lib/buyouts";
+import { buildScheduleFields, nextScheduleRunAt } from "./lib/jobSchedules";
+import { requireActiveSeasonTradeWindowOpen } from "./lib/tradeDeadline";
+import { releaseToWaivers } from "./lib/waivers";
 
 type Row = Record<string, unknown> & {
   _id: string;
@@ -417,38 +436,65 @@ export const activity = query({
     take: v.number(),
   },
   handler: async (ctx, args) => {
-    const [contracts, playerDays, teams, franchises] = await Promise.all([
-      (ctx.db as any)
-        .query("contracts")
-        .collect()
-        .then((rows: Row[]) =>
-          rows
-            .sort(
-              (left, right) =>
-                (toUtcTimestamp(right.signingDate) ?? 0) -
-                (toUtcTimestamp(left.signingDate) ?? 0),
-            )
-            .slice(0, 100),
-        ),
-      (ctx.db as any)
-        .query("playerDayStatLines")
-        .withIndex("by_seasonId_date", (q) => q.eq("seasonId", args.seasonId))
-        .order("desc")
-        .take(1500),
-      (ctx.db as any)
-        .query("teams")
-        .withIndex("by_seasonId", (q) => q.eq("seasonId", args.seasonId))
-        .collect(),
-      ctx.db.query("franchises").collect(),
-    ]);
+    const [contracts, playerDays, teams, franchises, trades, seasons, waivers] =
+      await Promise.all([
+        (ctx.db as any)
+          .query("contracts")
+          .collect()
+          .then((rows: Row[]) =>
+            rows
+              .sort(
+                (left, right) =>
+                  (toUtcTimestamp(right.signingDate) ?? 0) -
+                  (toUtcTimestamp(left.signingDate) ?? 0),
+              )
+              .slice(0, 100),
+          ),
+        (ctx.db as any)
+          .query("playerDayStatLines")
+          .withIndex("by_seasonId_date", (q) => q.eq("seasonId", args.seasonId))
+          .order("desc")
+          .take(1500),
+        (ctx.db as any)
+          .query("teams")
+          .withIndex("by_seasonId", (q) => q.eq("seasonId", args.seasonId))
+          .collect(),
+        ctx.db.query("franchises").collect(),
+        (ctx.db as any)
+          .query("trades")
+          .withIndex("by_seasonId_executedAt", (q) =>
+            q.eq("seasonId", args.seasonId),
+          )
+          .order("desc")
+          .take(30),
+        ctx.db.query("seasons").collect(),
+        (ctx.db as any)
+          .query("waivers")
+          .withIndex("by_seasonId_processedAt", (q) =>
+            q.eq("seasonId", args.seasonId),
+          )
+          .order("desc")
+          .take(30),
+      ]);
     const playerIds = new Set<string>();
+    const draftPickIds = new Set<string>();
     contracts.forEach((row) => playerIds.add(row.playerId));
     playerDays.forEach((row) => playerIds.add(row.playerId));
-    const players = (
-      await Promise.all(
+    waivers.forEach((row) => playerIds.add(row.playerId));
+    trades.forEach((trade) =>
+      trade.assets.forEach((asset) => {
+        if (asset.playerId) playerIds.add(asset.playerId);
+        if (asset.draftPickId) draftPickIds.add(asset.draftPickId);
+      }),
+    );
+    const [players, draftPicks] = await Promise.all([
+      Promise.all(
         [...playerIds].map((id) => ctx.db.get(id as Id<"players">)),
-      )
-    ).filter((row) => row !== null);
+      ).then((rows) => rows.filter((row) => row !== null)),
+      Promise.all(
+        [...draftPickIds].map((id) => ctx.db.get(id as Id<"draftPicks">)),
+      ).then((rows) => rows.filter((row) => row !== null)),
+    ]);
 
     return buildLeagueActivity({
       contracts: contracts.map((row) =>
@@ -462,6 +508,12 @@ export const activity = query({
       franchises: franchises.map((row) =>
         publicRow(row as unknown as Row),
       ) as never,
+      trades: trades.map((row) => publicRow(row as unknown as Row)) as never,
+      draftPicks: draftPicks.map((row) =>
+        publicRow(row as unknown as Row),
+      ) as never,
+      seasons: seasons.map((row) => publicRow(row as unknown as Row)) as never,
+      waivers: waivers.map((row) => publicRow(row as unknown as Row)) as never,
       limit: Math.min(Math.max(args.take, 1), 30),
     });
   },
@@ -489,10 +541,20 @@ export const updatePlayer = mutation({
       }
     }
 
+    if ("isResignable" in args.data) {
+      throw new Error("Player signing status is derived from contract history");
+    }
     const patch: Record<string, unknown> = { ...args.data };
     if (patch.ownerId === "") {
       patch.ownerId = null;
     }
+    if (
+      player.ownerId &&
+      typeof patch.ownerId === "string" &&
+      patch.ownerId !== String(player.ownerId)
+    ) {
+      await requireActiveSeasonTradeWindowOpen(ctx, Date.now());
+    }
     if ("gshlTeamId" in patch) {
       if (patch.gshlTeamId !== null && patch.gshlTeamId !== "") {
         throw new Error("Player ownership must be assigned through ownerId");
@@ -531,6 +593,15 @@ export const updateDraftPick = mutation({
       patch.gshlTeamId = patch.teamId;
       delete patch.teamId;
     }
+    const draftPick = await ctx.db.get(args.id);
+    if (!draftPick) throw new Error("Draft pick not found");
+    if (
+      draftPick.gshlTeamId &&
+      patch.gshlTeamId &&
+      String(patch.gshlTeamId) !== String(draftPick.gshlTeamId)
+    ) {
+      await requireActiveSeasonTradeWindowOpen(ctx, Date.now());
+    }
     patch.updatedAt = Date.now();
     await ctx.db.patch(
       args.id,
@@ -604,14 +675,29 @@ export const createContract = mutation({
       .filter((q) => q.eq(q.field("seasonId"), signingSeason._id))
       .first();
     if (duplicate) throw new Error("Player already has a contract");
-    const seasonIndex = ordered.findIndex(
-      (season) => season._id === signingSeason._id,
-    );
-    const expirySeason =
-      ordered[seasonIndex + args.contractLength - 1] ?? signingSeason;
     const now = Date.now();
-    const startDate = toUtcTimestamp(signingSeason.startDate);
-    const expiryDate = toUtcTimestamp(expirySeason.endDate);
+    const eligibility = await requireContractEligibility(
+      ctx,
+      player,
+      franchise.ownerId,
+      now,
+    );
+    const playerContracts = await ctx.db
+      .query("contracts")
+      .withIndex("by_playerId", (q) => q.eq("playerId", args.playerId))
+      .collect();
+    const terms = deriveContractCreationTerms({
+      player: {
+        ...publicRow(player as unknown as Row),
+        isResignable: eligibility.status,
+      },
+      signingSeason: publicRow(signingSeason as unknown as Row),
+      contractLength: args.contractLength,
+      contracts: playerContracts.map((row) => publicRow(row as unknown as Row)),
+      seasons: ordered.map((row) => publicRow(row as unknown as Row)),
+    });
+    const startDate = toUtcTimestamp(terms.startDate);
+    const expiryDate = toUtcTimestamp(terms.expiryDate);
     if (startDate === null || expiryDate === null) {
       throw new Error("The selected contract seasons have invalid dates");
     }
@@ -619,15 +705,15 @@ export const createContract = mutation({
       playerId: args.playerId,
       ownerId: franchise.ownerId,
       seasonId: signingSeason._id,
-      contractType: "STANDARD",
+      contractType: terms.contractType,
       contractLength: args.contractLength,
-      contractSalary: Number(player.salary ?? 0),
+      contractSalary: terms.contractSalary,
       signingDate: now,
       startDate,
-      signingStatus: "Drafted",
-      expiryStatus: "UFA",
+      signingStatus: terms.signingStatus,
+      expiryStatus: terms.expiryStatus,
       expiryDate,
-      capHit: Number(player.salary ?? 0),
+      capHit: terms.contractSalary,
       capHitEndDate: expiryDate,
       createdAt: now,
       updatedAt: now,
@@ -637,10 +723,131 @@ export const createContract = mutation({
       gshlTeamId: undefined,
       updatedAt: now,
     });
+    await syncPlayerResignable(ctx, args.playerId, now, signingSeason);
     return publicRow((await ctx.db.get(id)) as unknown as Row);
   },
 });
 
+export const resignRfa = mutation({
+  args: {
+    playerId: v.id("players"),
+    contractLength: v.union(v.literal(1), v.literal(2), v.literal(3)),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireOwnerOrCommissioner(ctx);
+    const player = await ctx.db.get(args.playerId);
+    if (!player) throw new Error("Player not found");
+    const ownerId = user.role === "owner" ? user.ownerId : player.ownerId;
+    if (!ownerId) throw new Error("No owner is linked to this account.");
+    const [seasons, ownerContracts, playerContracts] = await Promise.all([
+      ctx.db.query("seasons").collect(),
+      ctx.db
+        .query("contracts")
+        .withIndex("by_ownerId", (q) => q.eq("ownerId", ownerId))
+        .collect(),
+      ctx.db
+        .query("contracts")
+        .withIndex("by_playerId", (q) => q.eq("playerId", args.playerId))
+        .collect(),
+    ]);
+    const signingSeason = seasons.find((season) => season.isActive);
+    if (!signingSeason) throw new Error("There is no active signing season.");
+    const contracts = [
+      ...new Map(
+        [...ownerContracts, ...playerContracts].map((row) => [
+          String(row._id),
+          publicRow(row as unknown as Row),
+        ]),
+      ).values(),
+    ];
+
+    const now = Date.now();
+    const seasonRows = seasons.map((row) => publicRow(row as unknown as Row));
+    const plan = planRfaResigning({
+      player: publicRow(player as unknown as Row),
+      ownerId: String(ownerId),
+      signingSeason: publicRow(signingSeason as unknown as Row),
+      contractLength: args.contractLength,
+      contracts,
+      seasons: seasonRows,
+      playerDays: await loadPlayerDayEligibility(
+        ctx,
+        args.playerId,
+        signingSeason,
+      ),
+      signingPeriods: await loadSigningPeriodCalendar(ctx, signingSeason),
+      referenceDate: new Date(now),
+      reservedCapBySeasonId: await loadUfaReservedCap(ctx, ownerId, seasonRows),
+    });
+    if (plan.errors.length || !plan.terms) {
+      throw new Error(plan.errors.join(" "));
+    }
+
+    const startDate = toUtcTimestamp(plan.terms.startDate);
+    const expiryDate = toUtcTimestamp(plan.terms.expiryDate);
+    if (startDate === null || expiryDate === null) {
+      throw new Error("The selected contract seasons have invalid dates");
+    }
+    const id = await ctx.db.insert("contracts", {
+      playerId: args.playerId,
+      ownerId,
+      seasonId: signingSeason._id,
+      contractType: plan.terms.contractType,
+      contractLength: args.contractLength,
+      contractSalary: plan.terms.contractSalary,
+      signingDate: now,
+      startDate,
+      signingStatus: plan.terms.signingStatus,
+      expiryStatus: plan.terms.expiryStatus,
+      expiryDate,
+      capHit: plan.terms.contractSalary,
+      capHitEndDate: expiryDate,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await syncPlayerResignable(ctx, args.playerId, now, signingSeason);
+    return publicRow((await ctx.db.get(id)) as unknown as Row);
+  },
+});
+
+export const buyoutContract = mutation({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const contract = await ctx.db.get(args.contractId);
+    if (!contract) throw new Error("Contract not found");
+    await requireOwnerAccess(ctx, contract.ownerId);
+    if (contract.expiryStatus === "Buyout") {
+      throw new Error("This contract has already been bought out");
+    }
+    const [player, seasons] = await Promise.all([
+      ctx.db.get(contract.playerId),
+      ctx.db.query("seasons").collect(),
+    ]);
+    if (!player) throw new Error("Player not found");
+
+    const now = Date.now();
+    const plan = await applyContractBuyout(ctx, {
+      player,
+      ownerId: contract.ownerId,
+      now,
+      contractId: contract._id,
+    });
+
+    // Rule 9.5 treats a buyout as a drop, so the player goes on waivers.
+    const activeSeason = seasons.find((season) => season.isActive);
+    if (player.ownerId === contract.ownerId && activeSeason) {
+      await releaseToWaivers(ctx, {
+        player,
+        ownerId: contract.ownerId,
+        season: activeSeason,
+        now,
+      });
+    }
+    await syncPlayerResignable(ctx, player._id, now, activeSeason);
+    return plan;
+  },
+});
+
 const runJob = makeFunctionReference<"action", { runId: string }>(
   "jobRunner:run",
 );
@@ -649,7 +856,11 @@ export const jobCatalog = query({
   args: {},
   handler: async (ctx) => {
     await requireCommissioner(ctx);
-    return { jobs: JOB_NAMES, statuses: JOB_STATUSES };
+    return {
+      jobs: JOB_NAMES,
+      statuses: JOB_STATUSES,
+      pipelines: pipelineSummaries(),
+    };
   },
 });
 
@@ -666,6 +877,84 @@ export const jobRuns = query({
   },
 });
 
+const JOB_EVENT_LIMIT = 200;
+
+export const jobRunDetail = query({
+  args: {
+    runId: v.id("jobRuns"),
+    level: v.optional(
+      v.union(
+        v.literal("debug"),
+        v.literal("info"),
+        v.literal("warning"),
+        v.literal("error"),
+      ),
+    ),
+  },
+  handler: async (ctx, args) => {
+    await requireCommissioner(ctx);
+    const run = await ctx.db.get(args.runId);
+    if (!run) return null;
+    const eventQuery = ctx.db
+      .query("jobEvents")
+      .withIndex("by_runId_createdAt", (q) => q.eq("runId", args.runId));
+    const [events, artifacts, tasks, children] = await Promise.all([
+      (args.level
+        ? eventQuery.filter((q) => q.eq(q.field("level"), args.level))
+        : eventQuery
+      )
+        .order("desc")
+        .take(JOB_EVENT_LIMIT),
+      ctx.db
+        .query("jobArtifacts")
+        .withIndex("by_runId", (q) => q.eq("runId", args.runId))
+        .collect(),
+      ctx.db
+        .query("externalTasks")
+        .withIndex("by_runId", (q) => q.eq("runId", args.runId))
+        .collect(),
+      ctx.db
+        .query("jobRuns")
+        .withIndex("by_parentRunId", (q) => q.eq("parentRunId", args.runId))
+        .collect(),
+    ]);
+    return {
+      run: publicRow(run as unknown as Row),
+      // Oldest first so the log reads like a tail.
+      events: events
+        .reverse()
+        .map((event) => publicRow(event as unknown as Row)),
+      artifacts: await Promise.all(
+        artifacts.map(async (artifact) => ({
+          ...publicRow(artifact as unknown as Row),
+          url: await ctx.storage.getUrl(artifact.storageId),
+        })),
+      ),
+      // Captured pages stay server-side; the inspector only needs a count.
+      tasks: tasks.map(({ resultChunks, ...task }) => ({
+        ...publicRow(task as unknown as Row),
+        resultChunks: resultChunks?.length ?? 0,
+      })),
+      children: children
+        .sort(
+          (left, right) =>
+            (left.pipelineStage ?? 0) - (right.pipelineStage ?? 0),
+        )
+        .map((row) => publicRow(row as unknown as Row)),
+      pipelineStages: pipelineStageSummaries(run.jobName).map(
+        (stage, index) => {
+          const result = children.find(
+            (child) => child.pipelineStage === index,
+          )?.result;
+          return result?.skipped === true
+            ? { ...stage, skipReason: String(result.reason ?? "") }
+            : stage;
+        },
+      ),
+    };
+  },
+});
+
 export const startJob = mutation({
   args: {
     jobName: v.string(),
@@ -731,3 +1020,82 @@ export const retryJob = mutation({
     return publicRow((await ctx.db.get(runId)) as unknown as Row);
   },
 });
+
+const SCHEDULE_HISTORY_LIMIT = 10;
+
+const jobScheduleArgs = {
+  name: v.string(),
+  jobName: v.string(),
+  args: v.optional(v.record(v.string(), v.any())),
+  apply: v.optional(v.boolean()),
+  enabled: v.optional(v.boolean()),
+  intervalMinutes: v.optional(v.number()),
+  cron: v.optional(v.string()),
+  activeSeasonOnly: v.optional(v.boolean()),
+};
+
+export const jobSchedules = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireCommissioner(ctx);
+    const schedules = await ctx.db.query("jobSchedules").collect();
+    return await Promise.all(
+      schedules.map(async (schedule) => ({
+        ...publicRow(schedule as unknown as Row),
+        runs: (
+          await ctx.db
+            .query("jobRuns")
+            .withIndex("by_scheduleId_createdAt", (q) =>
+              q.eq("scheduleId", schedule._id),
+            )
+            .order("desc")
+            .take(SCHEDULE_HISTORY_LIMIT)
+        ).map((row) => publicRow(row as unknown as Row)),
+      })),
+    );
+  },
+});
+
+export const createJobSchedule = mutation({
+  args: jobScheduleArgs,
+  handler: async (ctx, args) => {
+    await requireCommissioner(ctx);
+    canonicalJobName(args.jobName);
+    const now = Date.now();
+    const scheduleId = await ctx.db.insert("jobSchedules", {
+      ...buildScheduleFields(args, now),
+      createdAt: now,
+    });
+    return publicRow((await ctx.db.get(scheduleId)) as unknown as Row);
+  },
+});
+
+export const updateJobSchedule = mutation({
+  args: { ...jobScheduleArgs, scheduleId: v.id("jobSchedules") },
+  handler: async (ctx, args) => {
+    await requireCommissioner(ctx);
+    canonicalJobName(args.jobName);
+    await ctx.db.patch(args.scheduleId, buildScheduleFields(args, Date.now()));
+    return publicRow((await ctx.db.get(args.scheduleId)) as unknown as Row);
+  },
+});
+
+export const setJobScheduleEnabled = mutation({
+  args: { scheduleId: v.id("jobSchedules"), enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    await requireCommissioner(ctx);
+    const schedule = await ctx.db.get(args.scheduleId);
+    if (!schedule) throw new Error("Schedule not found");
+    const now = Date.now();
+    // Re-enabling skips the slots missed while paused instead of firing late.
+    await ctx.db.patch(args.scheduleId, {
+      enabled: args.enabled,
+      nextRunAt:
+        args.enabled && schedule.nextRunAt < now
+          ? nextScheduleRunAt(schedule, now)
+          : schedule.nextRunAt,
+      updatedAt: now,
+    });
+    return publicRow((await ctx.db.get(args.scheduleId)) as unknown as Row);
+  },
+});
@@ -5,6 +5,8 @@ import {
   buildLockKey,
   canonicalJobName,
   isExternalJob,
+  jobRetryPolicy,
+  retryDelayMs,
 } from "./jobCatalog";
 
 void test("legacy aliases resolve to one canonical job", () => {
@@ -27,3 +29,15 @@ void test("refresh pipeline has ordered native and external stages", () => {
   assert.equal(ACTIVE_REFRESH_STAGES.at(-1), "standings-backfill");
   assert.equal(isExternalJob(ACTIVE_REFRESH_STAGES[0]), true);
 });
+
+void test("retry policies bound attempts and back off exponentially", () => {
+  const policy = jobRetryPolicy("season-stat-aggregation");
+  assert.equal(policy.maxAttempts, 3);
+  assert.deepEqual(
+    [2, 3, 4].map((attempt) => retryDelayMs(policy, attempt)),
+    [30_000, 60_000, 120_000],
+  );
+  assert.equal(retryDelayMs(policy, 12), policy.maxDelayMs);
+  assert.equal(jobRetryPolicy("hockey-reference-backfill").maxAttempts, 5);
+  assert.equal(jobRetryPolicy("unknown-job").maxAttempts, 3);
+});
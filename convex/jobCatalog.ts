@@ -1,4 +1,6 @@
 import { v } from "convex/values";
+import { leagueDateKey } from "./lib/jobSchedules";
+import { utcTimestampToDateKey } from "./lib/timestamps";
 
 export const JOB_STATUSES = [
   "queued",
@@ -24,9 +26,11 @@ export const jobStatusValidator = v.union(
 
 export const JOB_NAMES = [
   "season-stat-aggregation",
+  "matchup-scoring",
   "player-rating-rebuild",
   "team-rating-rebuild",
   "power-rating-rebuild",
+  "owner-ladder-rebuild",
   "standings-backfill",
   "awards-backfill",
   "lineup-recalculation",
@@ -38,7 +42,11 @@ export const JOB_NAMES = [
   "yahoo-weekly-validation",
   "puckpedia-player-bio-sync",
   "weekly-edition-generation",
+  "player-day-eligibility",
   "active-season-refresh",
+  "end-of-week-close",
+  "season-rollover",
+  "post-draft-cleanup",
 ] as const;
 
 export type JobName = (typeof JOB_NAMES)[number];
@@ -48,6 +56,7 @@ const aliases: Record<string, JobName> = {
   "ratings:rebuild-all": "player-rating-rebuild",
   "ratings:rebuild-team": "team-rating-rebuild",
   "power:rebuild": "power-rating-rebuild",
+  "matchups:score": "matchup-scoring",
   "standings:backfill": "standings-backfill",
   "awards:backfill": "awards-backfill",
   "stats:aggregate-season": "season-stat-aggregation",
@@ -101,13 +110,290 @@ export function buildLockKey(jobName: JobName, args: Record<string, unknown>) {
   return `${jobName}|${scope}`;
 }
 
-export const ACTIVE_REFRESH_STAGES: readonly JobName[] = [
-  "nhl-daily-stat-sync",
-  "season-stat-aggregation",
-  "player-rating-rebuild",
-  "team-rating-rebuild",
-  "power-rating-rebuild",
-  "standings-backfill",
-  "awards-backfill",
-  "weekly-edition-generation",
-];
+/** What a pipeline stage's condition and args can see when it is ready. */
+export type PipelineContext = {
+  args: Record<string, unknown>;
+  // Results of finished stages, keyed by stage id; skipped stages are absent.
+  results: Record<string, unknown>;
+  // The season named by `args.seasonId`, else the active season.
+  season: { startDate?: unknown; endDate?: unknown } | null;
+  now: number;
+};
+
+export type PipelineCondition = {
+  description: string;
+  holds: (context: PipelineContext) => boolean;
+};
+
+export type PipelineStageDefinition = {
+  id: string;
+  jobName: JobName;
+  // Stage ids that must finish first. Defaults to the stage listed before.
+  after?: readonly string[];
+  // Skipped, not failed, when this does not hold.
+  when?: PipelineCondition;
+  // Child run args. Defaults to the pipeline run's args.
+  args?: (context: PipelineContext) => Record<string, unknown>;
+};
+
+export type PipelineDefinition = {
+  label: string;
+  description: string;
+  stages: readonly PipelineStageDefinition[];
+};
+
+const seasonHasEnded: PipelineCondition = {
+  description: "after the season's end date",
+  holds: ({ season, now }) => {
+    const endDate = utcTimestampToDateKey(season?.endDate);
+    return endDate !== null && endDate < leagueDateKey(now);
+  },
+};
+
+const closingSeason = ({ args }: PipelineContext) => ({
+  seasonId: args.seasonId,
+});
+
+export const PIPELINES: Partial<Record<JobName, PipelineDefinition>> = {
+  "active-season-refresh": {
+    label: "Active-season refresh",
+    description:
+      "Nightly sync of NHL stats through ratings, standings and the weekly edition.",
+    stages: [
+      { id: "nhl-stats", jobName: "nhl-daily-stat-sync" },
+      { id: "season-stats", jobName: "season-stat-aggregation" },
+      { id: "matchups", jobName: "matchup-scoring" },
+      {
+        id: "player-ratings",
+        jobName: "player-rating-rebuild",
+        after: ["season-stats"],
+      },
+      { id: "team-ratings", jobName: "team-rating-rebuild" },
+      {
+        id: "power-ratings",
+        jobName: "power-rating-rebuild",
+        after: ["matchups"],
+      },
+      // The ladder reads the new power ranks; standings tiebreak on it.
+      { id: "owner-ladder", jobName: "owner-ladder-rebuild" },
+      { id: "standings", jobName: "standings-backfill" },
+      {
+        id: "awards",
+        jobName: "awards-backfill",
+        after: ["team-ratings", "power-ratings", "standings"],
+        when: seasonHasEnded,
+      },
+      {
+        id: "weekly-edition",
+        jobName: "weekly-edition-generation",
+        after: ["team-ratings", "power-ratings", "standings"],
+      },
+    ],
+  },
+  "end-of-week-close": {
+    label: "End-of-week close",
+    description:
+      "Final scoring for the week, then standings, ratings and the weekly edition.",
+    stages: [
+      { id: "season-stats", jobName: "season-stat-aggregation" },
+      { id: "matchups", jobName: "matchup-scoring" },
+      {
+        id: "power-ratings",
+        jobName: "power-rating-rebuild",
+        after: ["matchups"],
+      },
+      { id: "owner-ladder", jobName: "owner-ladder-rebuild" },
+      { id: "standings", jobName: "standings-backfill" },
+      {
+        id: "player-ratings",
+        jobName: "player-rating-rebuild",
+        after: ["season-stats"],
+      },
+      { id: "team-ratings", jobName: "team-rating-rebuild" },
+      {
+        id: "weekly-edition",
+        jobName: "weekly-edition-generation",
+        after: ["standings", "power-ratings", "team-ratings"],
+      },
+      {
+        id: "awards",
+        jobName: "awards-backfill",
+        when: seasonHasEnded,
+      },
+    ],
+  },
+  "season-rollover": {
+    label: "Season rollover",
+    description:
+      "Closes `seasonId` with final stats, ratings, standings and awards, then its rule 9.11 signing verdicts.",
+    stages: [
+      {
+        id: "season-stats",
+        jobName: "season-stat-aggregation",
+        args: closingSeason,
+      },
+      {
+        id: "player-ratings",
+        jobName: "player-rating-rebuild",
+        args: closingSeason,
+      },
+      {
+        id: "team-ratings",
+        jobName: "team-rating-rebuild",
+        args: closingSeason,
+      },
+      {
+        id: "power-ratings",
+        jobName: "power-rating-rebuild",
+        after: ["season-stats"],
+        args: closingSeason,
+      },
+      {
+        id: "owner-ladder",
+        jobName: "owner-ladder-rebuild",
+        after: ["power-ratings"],
+      },
+      {
+        id: "standings",
+        jobName: "standings-backfill",
+        after: ["season-stats", "owner-ladder"],
+        args: closingSeason,
+      },
+      {
+        id: "awards",
+        jobName: "awards-backfill",
+        after: ["team-ratings", "power-ratings", "standings"],
+        when: seasonHasEnded,
+        args: closingSeason,
+      },
+      // Runs again so the closing season's awards reach the ladder.
+      {
+        id: "final-owner-ladder",
+        jobName: "owner-ladder-rebuild",
+        after: ["awards"],
+      },
+      // The coming signing periods read the closing season's verdicts.
+      {
+        id: "eligibility",
+        jobName: "player-day-eligibility",
+        args: closingSeason,
+      },
+    ],
+  },
+  "post-draft-cleanup": {
+    label: "Post-draft cleanup",
+    description:
+      "Links newly drafted players to NHL and Yahoo ids, then refreshes lineups.",
+    stages: [
+      { id: "nhl-ids", jobName: "nhl-player-id-backfill" },
+      { id: "yahoo-ids", jobName: "yahoo-player-id-backfill", after: [] },
+      {
+        id: "lineups",
+        jobName: "lineup-recalculation",
+        after: ["nhl-ids", "yahoo-ids"],
+      },
+    ],
+  },
+};
+
+export function pipelineDefinition(
+  jobName: string,
+): PipelineDefinition | undefined {
+  return names.has(jobName) ? PIPELINES[jobName as JobName] : undefined;
+}
+
+export function isPipelineJob(jobName: string): boolean {
+  return pipelineDefinition(jobName) !== undefined;
+}
+
+/** Stage ids a stage waits on, with the linear default filled in. */
+export function pipelineStageDependencies(
+  definition: PipelineDefinition,
+  stage: number,
+): readonly string[] {
+  const entry = definition.stages[stage];
+  if (!entry) return [];
+  const previous = definition.stages[stage - 1];
+  return entry.after ?? (previous ? [previous.id] : []);
+}
+
+/** The serializable shape of each pipeline, for the admin UI. */
+export function pipelineSummaries() {
+  return JOB_NAMES.flatMap((jobName) => {
+    const definition = PIPELINES[jobName];
+    if (!definition) return [];
+    return [
+      {
+        jobName,
+        label: definition.label,
+        description: definition.description,
+        stages: pipelineStageSummaries(jobName),
+      },
+    ];
+  });
+}
+
+export function pipelineStageSummaries(jobName: string) {
+  const definition = pipelineDefinition(jobName);
+  if (!definition) return [];
+  return definition.stages.map((stage, index) => ({
+    id: stage.id,
+    jobName: stage.jobName,
+    after: [...pipelineStageDependencies(definition, index)],
+    ...(stage.when ? { condition: stage.when.description } : {}),
+  }));
+}
+
+export const ACTIVE_REFRESH_STAGES: readonly JobName[] = (
+  PIPELINES["active-season-refresh"]?.stages ?? []
+).map((stage) => stage.jobName);
+
+export type JobRetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+// A running run whose heartbeat is older than this lost its action; Convex
+// actions time out well before it.
+export const STALE_HEARTBEAT_MS = 15 * 60_000;
+
+const DEFAULT_RETRY_POLICY: JobRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 30_000,
+  maxDelayMs: 15 * 60_000,
+};
+
+// External jobs depend on third-party sites and an operator's browser worker,
+// so they get more chances; pipelines only re-advance their stages.
+const RETRY_POLICY_OVERRIDES: Partial<
+  Record<JobName, Partial<JobRetryPolicy>>
+> = {
+  "nhl-player-id-backfill": { maxAttempts: 5 },
+  "nhl-daily-stat-sync": { maxAttempts: 5 },
+  "hockey-reference-backfill": { maxAttempts: 5, baseDelayMs: 120_000 },
+  "yahoo-player-id-backfill": { maxAttempts: 5 },
+  "yahoo-matchup-player-day-backfill": { maxAttempts: 5 },
+  "yahoo-weekly-validation": { maxAttempts: 5 },
+  "puckpedia-player-bio-sync": { maxAttempts: 5 },
+  "weekly-edition-generation": { maxAttempts: 2 },
+  "active-season-refresh": { maxAttempts: 5, baseDelayMs: 60_000 },
+  "end-of-week-close": { maxAttempts: 5, baseDelayMs: 60_000 },
+  "season-rollover": { maxAttempts: 5, baseDelayMs: 60_000 },
+  "post-draft-cleanup": { maxAttempts: 5, baseDelayMs: 60_000 },
+};
+
+export function jobRetryPolicy(jobName: string): JobRetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(names.has(jobName) ? RETRY_POLICY_OVERRIDES[jobName as JobName] : {}),
+  };
+}
+
+/** Backoff before retry `attempt` (the attempt about to start, from 2). */
+export function retryDelayMs(policy: JobRetryPolicy, attempt: number): number {
+  return Math.min(
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 2),
+    policy.maxDelayMs,
+  );
+}
@@ -4,14 +4,22 @@ import {
   internalMutationGeneric,
   makeFunctionReference,
   type FunctionReference,
+  type GenericDataModel,
+  type GenericMutationCtx,
 } from "convex/server";
-import { v } from "convex/values";
+import { v, type GenericId, type Value } from "convex/values";
 import {
-  ACTIVE_REFRESH_STAGES,
   buildLockKey,
   canonicalJobName,
   isExternalJob,
+  isPipelineJob,
+  jobRetryPolicy,
+  pipelineDefinition,
+  retryDelayMs,
+  STALE_HEARTBEAT_MS,
 } from "./jobCatalog";
+import { planPipelineStep } from "./lib/jobPipelines";
+import { isWithinActiveSeason, nextScheduleRunAt } from "./lib/jobSchedules";
 import { utcTimestampToDateKey } from "./lib/timestamps";
 import {
   calculatePlayerAwards,
@@ -35,6 +43,18 @@ const actionRef = (name: string) =>
 const runner = actionRef("jobRunner:run");
 const ACTIVE = new Set(["queued", "running", "waiting_external", "cancelling"]);
 const BATCH_SIZE = 100;
+// Jobs with their own resumable batch mutation; the rest use processNativeBatch.
+const BATCH_PROCESSORS: Record<string, string> = {
+  "player-day-eligibility":
+    "contractEligibility:processPlayerDayEligibilityBatch",
+  "season-stat-aggregation":
+    "seasonStatAggregation:processSeasonStatAggregationBatch",
+  "matchup-scoring": "matchupScoring:processMatchupScoringBatch",
+  "player-rating-rebuild": "playerRatings:processPlayerRatingBatch",
+  "power-rating-rebuild": "powerRatings:processPowerRatingBatch",
+  "owner-ladder-rebuild": "ownerLadder:processOwnerLadderBatch",
+  "standings-backfill": "standings:processStandingsBatch",
+};
 
 type Progress = {
   processed: number;
@@ -112,6 +132,36 @@ export const appendEvent = internalMutationGeneric({
   },
 });
 
+async function finishRun(
+  ctx: GenericMutationCtx<GenericDataModel>,
+  args: {
+    runId: GenericId<"jobRuns">;
+    status: "succeeded" | "failed" | "cancelled";
+    result?: Value;
+    error?: string;
+  },
+) {
+  const run = await ctx.db.get(args.runId);
+  if (!run) return;
+  const status = run.status === "cancelling" ? "cancelled" : args.status;
+  await ctx.db.patch(args.runId, {
+    status,
+    result: args.result,
+    error: args.error,
+    finishedAt: Date.now(),
+    heartbeatAt: Date.now(),
+  });
+  await ctx.db.insert("jobEvents", {
+    runId: args.runId,
+    level: status === "failed" ? "error" : "info",
+    message:
+      status === "failed" ? (args.error ?? "Job failed") : `Job ${status}`,
+    createdAt: Date.now(),
+  });
+  if (run.parentRunId)
+    await ctx.scheduler.runAfter(0, runner, { runId: run.parentRunId });
+}
+
 export const finish = internalMutationGeneric({
   args: {
     runId: v.id("jobRuns"),
@@ -123,41 +173,13 @@ export const finish = internalMutationGeneric({
     result: v.optional(v.any()),
     error: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
-    const run = await ctx.db.get(args.runId);
-    if (!run) return;
-    const status = run.status === "cancelling" ? "cancelled" : args.status;
-    await ctx.db.patch(args.runId, {
-      status,
-      result: args.result,
-      error: args.error,
-      finishedAt: Date.now(),
-      heartbeatAt: Date.now(),
-    });
-    await ctx.db.insert("jobEvents", {
-      runId: args.runId,
-      level: status === "failed" ? "error" : "info",
-      message:
-        status === "failed" ? (args.error ?? "Job failed") : `Job ${status}`,
-      createdAt: Date.now(),
-    });
-    if (run.parentRunId)
-      await ctx.scheduler.runAfter(0, runner, { runId: run.parentRunId });
-  },
+  handler: async (ctx, args) => await finishRun(ctx, args),
 });
 
 function targetTable(jobName: string) {
   switch (jobName) {
-    case "season-stat-aggregation":
-      return "playerDayStatLines";
-    case "player-rating-rebuild":
-      return "playerTotalStatLines";
     case "team-rating-rebuild":
       return "teamSeasonStatLines";
-    case "power-rating-rebuild":
-      return "teamWeekStatLines";
-    case "standings-backfill":
-      return "matchups";
     case "lineup-recalculation":
       return "playerDayStatLines";
     default:
@@ -579,43 +601,51 @@ export const saveArtifact = internalMutationGeneric({
     await ctx.db.insert("jobArtifacts", { ...args, createdAt: Date.now() }),
 });
 
+async function pipelineSeason(
+  ctx: GenericMutationCtx<GenericDataModel>,
+  args: Record<string, unknown>,
+) {
+  const seasonId =
+    typeof args.seasonId === "string"
+      ? ctx.db.normalizeId("seasons", args.seasonId)
+      : null;
+  if (seasonId) return await ctx.db.get(seasonId);
+  return (
+    (await ctx.db.query("seasons").collect()).find(
+      (season) => season.isActive,
+    ) ?? null
+  );
+}
+
 export const advancePipeline = internalMutationGeneric({
   args: { runId: v.id("jobRuns") },
   handler: async (ctx, args) => {
     const parent = await ctx.db.get(args.runId);
     if (!parent) throw new Error("Pipeline not found");
     if (parent.status === "cancelling") return { state: "cancelled" as const };
+    const definition = pipelineDefinition(parent.jobName);
+    if (!definition) throw new Error(`${parent.jobName} is not a pipeline`);
+    const jobArgs = asRecord(parent.args);
+    const now = Date.now();
+    const context = {
+      args: jobArgs,
+      season: await pipelineSeason(ctx, jobArgs),
+      now,
+    };
     const children = await ctx.db
       .query("jobRuns")
       .withIndex("by_parentRunId", (q) => q.eq("parentRunId", args.runId))
       .collect();
-    const failed = children.find(
-      (child) => child.status === "failed" || child.status === "cancelled",
-    );
-    if (failed)
-      return {
-        state: "failed" as const,
-        childId: failed._id,
-        error: failed.error,
-      };
-    const active = children.find((child) => ACTIVE.has(child.status));
-    if (active) return { state: "waiting" as const, childId: active._id };
-    const stage = children.length;
-    if (stage >= ACTIVE_REFRESH_STAGES.length)
-      return {
-        state: "complete" as const,
-        children: children.map((child) => child._id),
-      };
-    const jobName = ACTIVE_REFRESH_STAGES[stage]!;
-    const jobArgs = asRecord(parent.args);
-    const now = Date.now();
-    const childId = await ctx.db.insert("jobRuns", {
+    const childRun = (
+      stage: number,
+      jobName: string,
+      stageArgs: Record<string, unknown>,
+    ) => ({
       jobName,
-      args: jobArgs,
+      args: stageArgs,
       apply: parent.apply,
       mode: "pipeline",
-      status: "queued",
-      lockKey: buildLockKey(jobName, jobArgs),
+      lockKey: buildLockKey(canonicalJobName(jobName), stageArgs),
       parentRunId: args.runId,
       pipelineStage: stage,
       attempt: 1,
@@ -623,8 +653,65 @@ export const advancePipeline = internalMutationGeneric({
       createdAt: now,
       progress: emptyProgress(),
     });
-    await ctx.scheduler.runAfter(0, runner, { runId: childId });
-    return { state: "started" as const, childId };
+    const started = [];
+    for (;;) {
+      const step = planPipelineStep(
+        definition,
+        children.map((child) => ({
+          stage: child.pipelineStage ?? 0,
+          status: child.status,
+          result: child.result,
+          error: child.error,
+        })),
+        context,
+      );
+      if (step.state === "failed") {
+        const failed = children.find(
+          (child) => child.pipelineStage === step.stage,
+        );
+        return {
+          state: "failed" as const,
+          childId: failed?._id,
+          error:
+            step.error ?? `Stage ${definition.stages[step.stage]?.id} failed`,
+        };
+      }
+      if (step.state === "complete")
+        return {
+          state: "complete" as const,
+          children: children.map((child) => child._id),
+        };
+      for (const stage of step.start) {
+        const queued = {
+          ...childRun(stage.stage, stage.jobName, stage.args),
+          status: "queued",
+        };
+        const childId = await ctx.db.insert("jobRuns", queued);
+        await ctx.scheduler.runAfter(0, runner, { runId: childId });
+        children.push({ _id: childId, _creationTime: now, ...queued });
+        started.push(childId);
+      }
+      for (const stage of step.skip) {
+        const skipped = {
+          ...childRun(stage.stage, stage.jobName, jobArgs),
+          status: "succeeded",
+          result: { skipped: true, reason: stage.reason },
+          finishedAt: now,
+        };
+        const childId = await ctx.db.insert("jobRuns", skipped);
+        children.push({ _id: childId, _creationTime: now, ...skipped });
+        await ctx.db.insert("jobEvents", {
+          runId: args.runId,
+          level: "info",
+          message: `Skipped ${stage.jobName}: ${stage.reason}`,
+          createdAt: now,
+        });
+      }
+      if (!step.skip.length)
+        return started.length
+          ? { state: "started" as const, childIds: started }
+          : { state: "waiting" as const };
+    }
   },
 });
 
@@ -656,7 +743,7 @@ export const run = internalActionGeneric({
     if (!run) return;
     try {
       const jobName = canonicalJobName(String(run.jobName));
-      if (jobName === "active-season-refresh") {
+      if (isPipelineJob(jobName)) {
         const state = (await ctx.runMutation(
           mutationRef("jobRunner:advancePipeline"),
           args,
@@ -685,10 +772,42 @@ export const run = internalActionGeneric({
           const chunks = Array.isArray(existing.resultChunks)
             ? existing.resultChunks
             : [];
+          const ingestion = (await ctx.runAction(
+            actionRef("externalIngestion:ingestExternalResult"),
+            args,
+          )) as {
+            counts: Progress;
+            report: { kind: string; name: string; data: unknown };
+            warning?: string;
+          };
+          const storageId = await ctx.storage.store(
+            new Blob([JSON.stringify(ingestion.report.data, null, 2)], {
+              type: "application/json",
+            }),
+          );
+          await ctx.runMutation(mutationRef("jobRunner:saveArtifact"), {
+            ...args,
+            storageId,
+            kind: ingestion.report.kind,
+            name: ingestion.report.name,
+            contentType: "application/json",
+          });
+          if (ingestion.warning)
+            await ctx.runMutation(mutationRef("jobRunner:appendEvent"), {
+              ...args,
+              level: "warning",
+              message: ingestion.warning,
+            });
           await ctx.runMutation(mutationRef("jobRunner:finish"), {
             ...args,
             status: "succeeded",
-            result: { source: "browser-worker", chunks: chunks.length },
+            result: {
+              source: "browser-worker",
+              chunks: chunks.length,
+              apply: run.apply === true,
+              counts: ingestion.counts,
+              warning: ingestion.warning,
+            },
           });
           return;
         }
@@ -780,9 +899,30 @@ export const run = internalActionGeneric({
       }
 
       const batch = (await ctx.runMutation(
-        mutationRef("jobRunner:processNativeBatch"),
+        mutationRef(
+          BATCH_PROCESSORS[jobName] ?? "jobRunner:processNativeBatch",
+        ),
         args,
-      )) as { done: boolean; cancelled: boolean; progress?: Progress };
+      )) as {
+        done: boolean;
+        cancelled: boolean;
+        progress?: Progress;
+        report?: { kind: string; name: string; data: unknown };
+      };
+      if (batch.done && batch.report) {
+        const storageId = await ctx.storage.store(
+          new Blob([JSON.stringify(batch.report.data, null, 2)], {
+            type: "application/json",
+          }),
+        );
+        await ctx.runMutation(mutationRef("jobRunner:saveArtifact"), {
+          ...args,
+          storageId,
+          kind: batch.report.kind,
+          name: batch.report.name,
+          contentType: "application/json",
+        });
+      }
       if (batch.cancelled)
         await ctx.runMutation(mutationRef("jobRunner:finish"), {
           ...args,
@@ -814,40 +954,188 @@ export const tickSchedules = internalMutationGeneric({
       .withIndex("by_enabled_nextRunAt", (q) => q.eq("enabled", true))
       .filter((q) => q.lte(q.field("nextRunAt"), now))
       .take(20);
+    const inSeason = due.some((schedule) => schedule.activeSeasonOnly)
+      ? isWithinActiveSeason(await ctx.db.query("seasons").collect(), now)
+      : true;
     for (const schedule of due) {
-      const jobName = canonicalJobName(schedule.jobName);
-      const jobArgs = asRecord(schedule.args);
-      const lockKey = buildLockKey(jobName, jobArgs);
-      const conflicts = await ctx.db
-        .query("jobRuns")
-        .withIndex("by_lockKey_status", (q) => q.eq("lockKey", lockKey))
-        .collect();
-      if (!conflicts.some((row) => ACTIVE.has(row.status))) {
+      try {
+        const nextRunAt = nextScheduleRunAt(schedule, now);
+        if (schedule.activeSeasonOnly && !inSeason) {
+          await ctx.db.patch(schedule._id, { nextRunAt, updatedAt: now });
+          continue;
+        }
+        const jobName = canonicalJobName(schedule.jobName);
+        const jobArgs = asRecord(schedule.args);
+        const lockKey = buildLockKey(jobName, jobArgs);
+        const conflicts = await ctx.db
+          .query("jobRuns")
+          .withIndex("by_lockKey_status", (q) => q.eq("lockKey", lockKey))
+          .collect();
+        if (!conflicts.some((row) => ACTIVE.has(row.status))) {
+          const runId = await ctx.db.insert("jobRuns", {
+            jobName,
+            args: jobArgs,
+            apply: schedule.apply,
+            mode: "scheduled",
+            status: "queued",
+            lockKey,
+            attempt: 1,
+            requestedBy: `schedule:${schedule.name}`,
+            scheduleId: schedule._id,
+            createdAt: now,
+            progress: emptyProgress(),
+          });
+          await ctx.scheduler.runAfter(0, runner, { runId });
+          await ctx.db.patch(schedule._id, {
+            lastRunAt: now,
+            lastRunId: runId,
+            nextRunAt,
+            updatedAt: now,
+          });
+        } else {
+          await ctx.db.patch(schedule._id, { nextRunAt, updatedAt: now });
+        }
+      } catch (error) {
+        // One broken schedule (an unknown job, a cron that never fires) must
+        // not hold up the rest of the tick. It is disabled and its failure is
+        // recorded as a run so it shows under the schedule's recent runs.
         const runId = await ctx.db.insert("jobRuns", {
-          jobName,
-          args: jobArgs,
+          jobName: schedule.jobName,
+          args: asRecord(schedule.args),
           apply: schedule.apply,
           mode: "scheduled",
-          status: "queued",
-          lockKey,
+          status: "failed",
+          lockKey: `schedule:${schedule._id}`,
           attempt: 1,
           requestedBy: `schedule:${schedule.name}`,
+          scheduleId: schedule._id,
+          error: errorMessage(error),
           createdAt: now,
+          finishedAt: now,
           progress: emptyProgress(),
         });
-        await ctx.scheduler.runAfter(0, runner, { runId });
+        await ctx.db.insert("jobEvents", {
+          runId,
+          level: "error",
+          message: `Schedule "${schedule.name}" was disabled: ${errorMessage(error)}`,
+          createdAt: now,
+        });
         await ctx.db.patch(schedule._id, {
+          enabled: false,
           lastRunAt: now,
           lastRunId: runId,
-          nextRunAt: now + schedule.intervalMinutes * 60_000,
           updatedAt: now,
         });
-      } else {
-        await ctx.db.patch(schedule._id, {
-          nextRunAt: now + schedule.intervalMinutes * 60_000,
+      }
+    }
+  },
+});
+
+/*
+ * Recovers work whose action crashed or whose browser worker vanished. A
+ * running run with a stale heartbeat is re-queued in place, so resumable jobs
+ * keep their cursor, and an expired task lease goes back to pending. Both
+ * back off exponentially; past the job's max attempts the run fails, which
+ * releases its lock.
+ */
+export const reapStaleJobs = internalMutationGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const staleBefore = now - STALE_HEARTBEAT_MS;
+    const runs = [
+      ...(await ctx.db
+        .query("jobRuns")
+        .withIndex("by_status", (q) => q.eq("status", "running"))
+        .collect()),
+      ...(await ctx.db
+        .query("jobRuns")
+        .withIndex("by_status", (q) => q.eq("status", "cancelling"))
+        .collect()),
+    ].filter((run) => (run.heartbeatAt ?? run.createdAt) < staleBefore);
+    for (const run of runs) {
+      const children = await ctx.db
+        .query("jobRuns")
+        .withIndex("by_parentRunId", (q) => q.eq("parentRunId", run._id))
+        .collect();
+      // A pipeline waits on its active stage, which has its own heartbeat.
+      if (children.some((child) => ACTIVE.has(child.status))) continue;
+      const lastSeen = new Date(run.heartbeatAt ?? run.createdAt).toISOString();
+      if (run.status === "cancelling") {
+        await finishRun(ctx, {
+          runId: run._id,
+          status: "cancelled",
+          error: `Cancelled run stopped heartbeating at ${lastSeen}`,
+        });
+        continue;
+      }
+      const policy = jobRetryPolicy(run.jobName);
+      if (run.attempt >= policy.maxAttempts) {
+        await finishRun(ctx, {
+          runId: run._id,
+          status: "failed",
+          error: `Run stopped heartbeating at ${lastSeen} after ${run.attempt} of ${policy.maxAttempts} attempts`,
+        });
+        continue;
+      }
+      const attempt = run.attempt + 1;
+      const delayMs = retryDelayMs(policy, attempt);
+      await ctx.db.patch(run._id, {
+        status: "queued",
+        attempt,
+        heartbeatAt: now,
+      });
+      await ctx.db.insert("jobEvents", {
+        runId: run._id,
+        level: "warning",
+        message: `Run stopped heartbeating at ${lastSeen}; retrying as attempt ${attempt} of ${policy.maxAttempts} in ${Math.round(delayMs / 1000)}s`,
+        data: { reason: "stale-heartbeat", attempt, delayMs },
+        createdAt: now,
+      });
+      await ctx.scheduler.runAfter(delayMs, runner, { runId: run._id });
+    }
+
+    const expired = (
+      await ctx.db
+        .query("externalTasks")
+        .withIndex("by_status_createdAt", (q) => q.eq("status", "leased"))
+        .collect()
+    ).filter((task) => (task.leaseExpiresAt ?? 0) <= now);
+    for (const task of expired) {
+      const run = await ctx.db.get(task.runId);
+      const leaseOwner = task.leaseOwner ?? "unknown worker";
+      const attempt = task.attempt ?? 1;
+      const policy = jobRetryPolicy(run?.jobName ?? task.kind);
+      if (run?.status === "waiting_external" && attempt < policy.maxAttempts) {
+        const delayMs = retryDelayMs(policy, attempt + 1);
+        await ctx.db.patch(task._id, {
+          status: "pending",
+          leaseOwner: undefined,
+          leaseExpiresAt: undefined,
+          attempt: attempt + 1,
+          availableAt: now + delayMs,
           updatedAt: now,
         });
+        await ctx.db.insert("jobEvents", {
+          runId: task.runId,
+          level: "warning",
+          message: `Browser worker ${leaseOwner} let its lease expire; re-offering the task as attempt ${attempt + 1} of ${policy.maxAttempts} in ${Math.round(delayMs / 1000)}s`,
+          data: { reason: "expired-lease", leaseOwner, attempt: attempt + 1 },
+          createdAt: now,
+        });
+        continue;
       }
+      const error =
+        run?.status === "waiting_external"
+          ? `Browser worker leases expired ${attempt} of ${policy.maxAttempts} times; last owner ${leaseOwner}`
+          : "The task's run is no longer waiting for it";
+      await ctx.db.patch(task._id, {
+        status: "failed",
+        error,
+        updatedAt: now,
+      });
+      if (run?.status === "waiting_external")
+        await finishRun(ctx, { runId: run._id, status: "failed", error });
     }
   },
 });
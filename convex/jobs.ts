@@ -11,7 +11,9 @@ import {
   JOB_NAMES,
   JOB_STATUSES,
   jobStatusValidator,
+  pipelineSummaries,
 } from "./jobCatalog";
+import { buildScheduleFields } from "./lib/jobSchedules";
 
 const runner = makeFunctionReference<"action", { runId: string }>(
   "jobRunner:run",
@@ -32,7 +34,11 @@ export const catalog = queryGeneric({
   args: { serverSecret: v.string() },
   handler: (_ctx, args) => {
     requireSecret(args.serverSecret);
-    return { jobs: JOB_NAMES, statuses: JOB_STATUSES };
+    return {
+      jobs: JOB_NAMES,
+      statuses: JOB_STATUSES,
+      pipelines: pipelineSummaries(),
+    };
   },
 });
 
@@ -220,7 +226,9 @@ const scheduleFields = {
   args: v.optional(v.record(v.string(), v.any())),
   apply: v.optional(v.boolean()),
   enabled: v.optional(v.boolean()),
-  intervalMinutes: v.number(),
+  intervalMinutes: v.optional(v.number()),
+  cron: v.optional(v.string()),
+  activeSeasonOnly: v.optional(v.boolean()),
   nextRunAt: v.optional(v.number()),
 };
 
@@ -229,19 +237,10 @@ export const createSchedule = mutationGeneric({
   handler: async (ctx, args) => {
     requireSecret(args.serverSecret);
     canonicalJobName(args.jobName);
-    if (args.intervalMinutes < 1)
-      throw new Error("intervalMinutes must be at least 1");
     const now = Date.now();
     return await ctx.db.insert("jobSchedules", {
-      name: args.name,
-      jobName: args.jobName,
-      args: args.args ?? {},
-      apply: args.apply === true,
-      enabled: args.enabled === true,
-      intervalMinutes: args.intervalMinutes,
-      nextRunAt: args.nextRunAt ?? now + args.intervalMinutes * 60_000,
+      ...buildScheduleFields(args, now),
       createdAt: now,
-      updatedAt: now,
     });
   },
 });
@@ -251,16 +250,7 @@ export const updateSchedule = mutationGeneric({
   handler: async (ctx, args) => {
     requireSecret(args.serverSecret);
     canonicalJobName(args.jobName);
-    await ctx.db.patch(args.scheduleId, {
-      name: args.name,
-      jobName: args.jobName,
-      args: args.args ?? {},
-      apply: args.apply === true,
-      enabled: args.enabled === true,
-      intervalMinutes: args.intervalMinutes,
-      nextRunAt: args.nextRunAt ?? Date.now() + args.intervalMinutes * 60_000,
-      updatedAt: Date.now(),
-    });
+    await ctx.db.patch(args.scheduleId, buildScheduleFields(args, Date.now()));
     return args.scheduleId;
   },
 });
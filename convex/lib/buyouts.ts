@@ -0,0 +1,85 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import type { ContractBuyoutPlan } from "../../src/lib/types";
+import { formatMoney } from "../../src/lib/utils/core/format";
+import { getTorontoDate } from "../../src/lib/utils/domain/contracts";
+import { planContractBuyout } from "../../src/lib/utils/features/buyouts";
+import { toContract, toSeason } from "./domainRows";
+import { toUtcTimestamp } from "./timestamps";
+
+/**
+ * Applies a rule 9.5 buyout to every live contract an owner holds for a
+ * player and records the charge as a league event. Returns null when the
+ * owner holds no live contract and no specific contract was named.
+ */
+export async function applyContractBuyout(
+  ctx: MutationCtx,
+  options: {
+    player: Doc<"players">;
+    ownerId: Id<"owners">;
+    now: number;
+    contractId?: Id<"contracts">;
+  },
+): Promise<ContractBuyoutPlan | null> {
+  const { player, ownerId, now, contractId } = options;
+  const [seasons, ownerContracts, franchise] = await Promise.all([
+    ctx.db.query("seasons").collect(),
+    ctx.db
+      .query("contracts")
+      .withIndex("by_ownerId", (q) => q.eq("ownerId", ownerId))
+      .collect(),
+    ctx.db
+      .query("franchises")
+      .withIndex("by_ownerId", (q) => q.eq("ownerId", ownerId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .first(),
+  ]);
+  const buyoutDate = getTorontoDate(new Date(now));
+  const plan = planContractBuyout({
+    playerId: String(player._id),
+    ownerId: String(ownerId),
+    contracts: ownerContracts.map(toContract),
+    seasons: seasons.map(toSeason),
+    buyoutDate,
+  });
+  if (!contractId && plan.changes.length === 0) return null;
+  if (plan.errors.length) throw new Error(plan.errors.join(" "));
+  if (
+    contractId &&
+    !plan.changes.some((change) => change.contractId === String(contractId))
+  ) {
+    throw new Error("That contract has no remaining term to buy out");
+  }
+
+  for (const change of plan.changes) {
+    await ctx.db.patch(change.contractId as Id<"contracts">, {
+      expiryStatus: "Buyout",
+      capHit: change.capHit,
+      capHitEndDate: toUtcTimestamp(change.capHitEndDate),
+      updatedAt: now,
+    });
+  }
+
+  const activeSeason = seasons.find((season) => season.isActive);
+  const charge = plan.changes.reduce(
+    (latest, change) =>
+      change.capHitEndDate > latest.capHitEndDate ? change : latest,
+    plan.changes[0]!,
+  );
+  const seasonId =
+    activeSeason?._id ??
+    ownerContracts.find((contract) => contract._id === charge.contractId)
+      ?.seasonId;
+  if (seasonId) {
+    await ctx.db.insert("events", {
+      seasonId,
+      name: `${player.fullName} bought out`,
+      description: `${franchise?.name ?? "The owner"} carries a ${formatMoney(charge.capHit)} buyout charge through ${charge.capHitEndDate}.`,
+      date: toUtcTimestamp(buyoutDate),
+      type: "BUYOUT",
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  return plan;
+}
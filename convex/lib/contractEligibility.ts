@@ -0,0 +1,185 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type {
+  ContractEligibility,
+  Player,
+  PlayerDayEligibility,
+} from "../../src/lib/types";
+import { ResignableStatus } from "../../src/lib/utils/domain/constants";
+import { getContractEligibility } from "../../src/lib/utils/domain/contracts";
+import {
+  getPlayerDayEligibilityError,
+  resolvePlayerDayEligibility,
+} from "../../src/lib/utils/features/player-days";
+import { toContract, toSeason } from "./domainRows";
+import {
+  loadSigningPeriodCalendar,
+  requireSigningPeriodOpen,
+} from "./signingPeriods";
+
+type Ctx = QueryCtx | MutationCtx;
+
+export function activeSigningSeason(
+  seasons: Doc<"seasons">[],
+): Doc<"seasons"> | null {
+  return seasons.find((season) => season.isActive) ?? null;
+}
+
+/** Runs the shared rule 9.9 eligibility engine against stored rows. */
+export async function loadContractEligibility(
+  ctx: Ctx,
+  player: Doc<"players">,
+  now: number,
+  signingSeason?: Doc<"seasons"> | null,
+): Promise<ContractEligibility | null> {
+  const seasons = await ctx.db.query("seasons").collect();
+  const season = signingSeason ?? activeSigningSeason(seasons);
+  if (!season) return null;
+  const [contracts, signingPeriods] = await Promise.all([
+    ctx.db
+      .query("contracts")
+      .withIndex("by_playerId", (range) => range.eq("playerId", player._id))
+      .collect(),
+    loadSigningPeriodCalendar(ctx, season),
+  ]);
+  return getContractEligibility({
+    player: {
+      id: String(player._id),
+      fullName: player.fullName,
+      ownerId: player.ownerId ? String(player.ownerId) : null,
+    } as Pick<Player, "id" | "fullName" | "ownerId">,
+    signingSeason: toSeason(season),
+    contracts: contracts.map(toContract),
+    seasons: seasons.map(toSeason),
+    signingPeriods,
+    referenceDate: new Date(now),
+  });
+}
+
+export function toPlayerDayEligibility(
+  row: Doc<"playerDayEligibility">,
+): PlayerDayEligibility {
+  return {
+    seasonId: String(row.seasonId),
+    playerId: String(row.playerId),
+    regularSeasonDays: row.regularSeasonDays,
+    rosterDays: row.rosterDays,
+    rosterRatio: row.rosterRatio,
+    teamDays: row.teamDays.map((count) => ({
+      ...count,
+      gshlTeamId: String(count.gshlTeamId),
+    })),
+    qualifyingTeamIds: row.qualifyingTeamIds.map(String),
+    isEligible: row.isEligible,
+    computedAt: new Date(row.computedAt).toISOString(),
+  };
+}
+
+/**
+ * Reads the stored rule 9.11 verdict. Once a season has been computed, a
+ * player without a row never appeared on a GSHL roster that season.
+ */
+export async function loadPlayerDayEligibility(
+  ctx: Ctx,
+  playerId: Id<"players">,
+  season: Doc<"seasons">,
+): Promise<PlayerDayEligibility | null> {
+  const row = await ctx.db
+    .query("playerDayEligibility")
+    .withIndex("by_seasonId_playerId", (range) =>
+      range.eq("seasonId", season._id).eq("playerId", playerId),
+    )
+    .unique();
+  if (row) return toPlayerDayEligibility(row);
+  const computed = await ctx.db
+    .query("playerDayEligibility")
+    .withIndex("by_seasonId_playerId", (range) =>
+      range.eq("seasonId", season._id),
+    )
+    .first();
+  if (!computed) return null;
+  return resolvePlayerDayEligibility({
+    seasonId: String(season._id),
+    playerId: String(playerId),
+    regularSeasonDays: computed.regularSeasonDays,
+    rosterDays: 0,
+    teamDays: [],
+  });
+}
+
+/** Rejects an RFA or UFA signing that fails the rule 9.11 roster-day test. */
+export async function requirePlayerDayEligibility(
+  ctx: Ctx,
+  player: Doc<"players">,
+  season: Doc<"seasons">,
+): Promise<PlayerDayEligibility | null> {
+  const verdict = await loadPlayerDayEligibility(ctx, player._id, season);
+  const error = getPlayerDayEligibilityError(verdict, player.fullName);
+  if (error) throw new Error(error);
+  return verdict;
+}
+
+/**
+ * Rejects a new contract the engine does not allow, including a third
+ * consecutive deal, signings by an owner who does not hold the rights,
+ * signings outside a rule 9.8 window open to the player's status and RFA or
+ * UFA signings that fail the rule 9.11 roster-day test.
+ */
+export async function requireContractEligibility(
+  ctx: Ctx,
+  player: Doc<"players">,
+  ownerId: Id<"owners">,
+  now: number,
+): Promise<ContractEligibility> {
+  const season = activeSigningSeason(await ctx.db.query("seasons").collect());
+  const eligibility = season
+    ? await loadContractEligibility(ctx, player, now, season)
+    : null;
+  if (!season || !eligibility) {
+    throw new Error("There is no active signing season.");
+  }
+  if (!eligibility.canSign || !eligibility.status) {
+    throw new Error(eligibility.reason);
+  }
+  if (
+    eligibility.rightsOwnerId &&
+    eligibility.rightsOwnerId !== String(ownerId)
+  ) {
+    throw new Error(
+      `${player.fullName}'s signing rights are held by another owner.`,
+    );
+  }
+  requireSigningPeriodOpen(
+    await loadSigningPeriodCalendar(ctx, season),
+    eligibility.status,
+    now,
+  );
+  if (
+    eligibility.status === ResignableStatus.RFA ||
+    eligibility.status === ResignableStatus.UFA
+  ) {
+    await requirePlayerDayEligibility(ctx, player, season);
+  }
+  return eligibility;
+}
+
+/** Stores the derived signing status on the player row. */
+export async function syncPlayerResignable(
+  ctx: MutationCtx,
+  playerId: Id<"players">,
+  now: number,
+  signingSeason?: Doc<"seasons"> | null,
+): Promise<void> {
+  const player = await ctx.db.get(playerId);
+  if (!player) return;
+  const eligibility = await loadContractEligibility(
+    ctx,
+    player,
+    now,
+    signingSeason,
+  );
+  const isResignable = eligibility?.canSign ? eligibility.status : null;
+  if ((player.isResignable ?? null) !== isResignable) {
+    await ctx.db.patch(playerId, { isResignable, updatedAt: now });
+  }
+}
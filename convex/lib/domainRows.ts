@@ -0,0 +1,84 @@
+import type { Doc } from "../_generated/dataModel";
+import type {
+  Contract,
+  Matchup,
+  Player,
+  Season,
+  Week,
+} from "../../src/lib/types";
+import { utcTimestampToDateKey } from "./timestamps";
+
+/** Maps a stored contract onto the date-keyed shape the shared utils expect. */
+export function toContract(row: Doc<"contracts">): Contract {
+  return {
+    ...row,
+    id: String(row._id),
+    playerId: String(row.playerId),
+    ownerId: String(row.ownerId),
+    seasonId: String(row.seasonId),
+    contractLength: Number(row.contractLength ?? 0),
+    contractSalary: Number(row.contractSalary ?? 0),
+    capHit: Number(row.capHit ?? row.contractSalary ?? 0),
+    signingDate: utcTimestampToDateKey(row.signingDate) ?? "",
+    startDate: utcTimestampToDateKey(row.startDate) ?? "",
+    expiryDate: utcTimestampToDateKey(row.expiryDate) ?? "",
+    capHitEndDate: utcTimestampToDateKey(row.capHitEndDate) ?? "",
+  } as unknown as Contract;
+}
+
+function toOptionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Maps a stored player onto the id-keyed shape the shared utils expect. */
+export function toPlayer(row: Doc<"players">): Player {
+  return {
+    ...row,
+    id: String(row._id),
+    ownerId: row.ownerId ? String(row.ownerId) : null,
+    gshlTeamId: row.gshlTeamId ? String(row.gshlTeamId) : null,
+    nhlPos: row.nhlPos ?? [],
+    preDraftRk: toOptionalNumber(row.preDraftRk),
+    overallRk: toOptionalNumber(row.overallRk),
+    overallRating: toOptionalNumber(row.overallRating),
+  } as unknown as Player;
+}
+
+/** Maps a stored season onto the date-keyed shape the shared utils expect. */
+export function toSeason(row: Doc<"seasons">): Season {
+  return {
+    ...row,
+    id: String(row._id),
+    startDate: utcTimestampToDateKey(row.startDate) ?? "",
+    endDate: utcTimestampToDateKey(row.endDate) ?? "",
+    signingEndDate: utcTimestampToDateKey(row.signingEndDate) ?? "",
+  } as unknown as Season;
+}
+
+/** Maps a stored week onto the shape the shared utils expect. */
+export function toWeek(row: Doc<"weeks">): Week {
+  return {
+    ...row,
+    id: String(row._id),
+    seasonId: String(row.seasonId),
+    weekNum: Number(row.weekNum),
+    gameDays: Number(row.gameDays),
+    startDate: utcTimestampToDateKey(row.startDate) ?? "",
+    endDate: utcTimestampToDateKey(row.endDate) ?? "",
+  } as unknown as Week;
+}
+
+/** Maps a stored matchup onto the shape the shared utils expect. */
+export function toMatchup(row: Doc<"matchups">): Matchup {
+  return {
+    ...row,
+    id: String(row._id),
+    seasonId: String(row.seasonId),
+    weekId: String(row.weekId),
+    homeTeamId: String(row.homeTeamId),
+    awayTeamId: String(row.awayTeamId),
+    isComplete: Boolean(row.isComplete),
+  } as unknown as Matchup;
+}
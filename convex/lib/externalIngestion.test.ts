@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  assembleCapturedPage,
+  buildYahooPlayerDayRows,
+  diffIngestedRows,
+  resolveYahooPageSides,
+} from "./externalIngestion";
+
+const yahooRow = (yahooId: string, playerName: string, dailyPos: string) => ({
+  yahooId,
+  playerName,
+  dailyPos,
+  posGroup: "skater" as const,
+  GP: "1",
+  GS: "1",
+  G: "0",
+  A: "0",
+  P: "0",
+  PM: "",
+  PPP: "0",
+  SOG: "0",
+  HIT: "0",
+  BLK: "0",
+  W: "",
+  GAA: "",
+  SVP: "",
+});
+
+const player = (id: string, yahooId: string, fullName: string) => ({
+  id,
+  yahooId,
+  firstName: fullName.split(" ")[0] ?? "",
+  lastName: fullName.split(" ")[1] ?? "",
+  fullName,
+  nhlPos: ["C"],
+  posGroup: "F",
+  nhlTeam: ["TOR"],
+  isActive: true,
+});
+
+test("captured pages are joined in chunk sequence order", () => {
+  const page = assembleCapturedPage([
+    { sequence: 1, url: "https://example.test/p", title: "P", html: "</b>" },
+    { sequence: 0, url: "https://example.test/p", title: "P", html: "<b>" },
+  ]);
+  assert.deepEqual(page, {
+    url: "https://example.test/p",
+    title: "P",
+    html: "<b></b>",
+  });
+  assert.throws(() => assembleCapturedPage([]), /no page chunks/);
+});
+
+test("ingested rows diff only their own columns and never delete", () => {
+  const diff = diffIngestedRows(
+    ["seasonId", "playerId"],
+    [
+      { _id: "a", seasonId: "s", playerId: "p1", G: "3", nhlTeam: ["TOR"] },
+      { _id: "b", seasonId: "s", playerId: "p2", G: "1" },
+      { _id: "c", seasonId: "s", playerId: "p3", G: "0" },
+      { _id: "d", seasonId: "s", playerId: "p3", G: "0" },
+    ],
+    [
+      { seasonId: "s", playerId: "p1", G: "3" },
+      { seasonId: "s", playerId: "p2", G: "2" },
+      { seasonId: "s", playerId: "p4", G: "5" },
+    ],
+  );
+  assert.equal(diff.unchanged, 1);
+  assert.deepEqual(diff.updates, [
+    {
+      id: "b",
+      row: { seasonId: "s", playerId: "p2", G: "2" },
+      changes: [{ field: "G", previous: "1", next: "2" }],
+    },
+  ]);
+  assert.deepEqual(diff.inserts, [{ seasonId: "s", playerId: "p4", G: "5" }]);
+  assert.deepEqual(diff.duplicateKeys, ["s|p3"]);
+});
+
+test("Yahoo page sides fall back to the matchup URL team ids", () => {
+  const teams = [
+    { id: "team-a", yahooId: "3" },
+    { id: "team-b", yahooId: "7" },
+  ];
+  assert.deepEqual(
+    resolveYahooPageSides({
+      totals: null,
+      url: "https://hockey.fantasysports.yahoo.com/hockey/1/matchup?mid1=7&mid2=3",
+      teams,
+    }),
+    { home: "team-b", away: "team-a" },
+  );
+  assert.equal(
+    resolveYahooPageSides({ totals: null, url: "not a url", teams }),
+    null,
+  );
+});
+
+test("Yahoo lineups patch daily slots, seed new rows and flag the rest", () => {
+  const result = buildYahooPlayerDayRows({
+    seasonId: "season",
+    weekId: "week",
+    date: "2025-10-07",
+    sides: [
+      {
+        gshlTeamId: "team-a",
+        rows: [
+          yahooRow("11", "Auston Matthews", "C"),
+          yahooRow("12", "Mitch Marner", "Util"),
+          yahooRow("99", "Nobody Known", "BN"),
+        ],
+      },
+    ],
+    players: [
+      player("p1", "11", "Auston Matthews"),
+      player("p2", "12", "Mitch Marner"),
+    ],
+    existingRows: [
+      { playerId: "p1", gshlTeamId: "team-a", dailyPos: "BN" },
+      { playerId: "p3", gshlTeamId: "team-a", dailyPos: "LW" },
+    ],
+  });
+  const key = { seasonId: "season", weekId: "week", date: "2025-10-07" };
+  assert.equal(result.parsed, 3);
+  assert.deepEqual(result.rows, [
+    { ...key, gshlTeamId: "team-a", playerId: "p1", dailyPos: "C" },
+    {
+      ...key,
+      gshlTeamId: "team-a",
+      playerId: "p2",
+      nhlPos: ["C"],
+      posGroup: "F",
+      nhlTeam: ["TOR"],
+      dailyPos: "Util",
+    },
+  ]);
+  assert.deepEqual(
+    result.flags.map((flag) => flag.kind),
+    ["unknown-yahoo-player", "stale-player-day-row"],
+  );
+});
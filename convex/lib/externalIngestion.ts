@@ -0,0 +1,331 @@
+import {
+  buildPlayersByNormalizedName,
+  compareStatValues,
+  resolvePlayerFromYahooReference,
+  YAHOO_HEADER_TO_TEAM_WEEK_FIELD,
+  type ParsedYahooMatchupTotals,
+  type YahooDailyMatchupPlayerRow,
+} from "../../scripts/src/domains/yahoo/matchup-parsers";
+import type { AggregateFieldChange } from "./statAggregation";
+
+type Row = Record<string, unknown>;
+
+export type CapturedPage = {
+  url: string;
+  title: string;
+  html: string;
+};
+
+export type IngestionRowsDiff = {
+  inserts: Row[];
+  updates: Array<{ id: string; row: Row; changes: AggregateFieldChange[] }>;
+  unchanged: number;
+  duplicateKeys: string[];
+};
+
+export type IngestionFlag = {
+  kind: string;
+  detail: string;
+  gshlTeamId?: string;
+  playerId?: string;
+  playerName?: string;
+  yahooId?: string;
+};
+
+export type IngestionPlayer = {
+  id: string;
+  yahooId?: string | null;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  nhlPos: string[];
+  posGroup: string;
+  nhlTeam: string[];
+  isActive: boolean;
+};
+
+export type YahooMatchupSide = {
+  gshlTeamId: string;
+  rows: YahooDailyMatchupPlayerRow[];
+};
+
+export type YahooWeeklyMismatch = {
+  gshlTeamId: string;
+  side: "home" | "away";
+  field: string;
+  yahooHeader: string;
+  storedValue: string;
+  yahooValue: string;
+};
+
+function text(value: unknown): string {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value).trim()
+    : "";
+}
+
+function comparable(value: unknown) {
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Reassembles the page the browser worker captured. The worker slices one
+ * page's HTML into sequenced chunks, so they are joined in sequence order.
+ */
+export function assembleCapturedPage(chunks: readonly unknown[]): CapturedPage {
+  const ordered = chunks
+    .map((chunk) =>
+      chunk && typeof chunk === "object" && !Array.isArray(chunk)
+        ? (chunk as Row)
+        : {},
+    )
+    .sort((left, right) => Number(left.sequence) - Number(right.sequence));
+  const first = ordered[0];
+  if (!first) throw new Error("The browser worker returned no page chunks");
+  return {
+    url: text(first.url),
+    title: text(first.title),
+    html: ordered
+      .map((chunk) => (typeof chunk.html === "string" ? chunk.html : ""))
+      .join(""),
+  };
+}
+
+/** Reads a query parameter from a captured page URL. */
+export function readPageParam(url: string, name: string): string {
+  try {
+    return new URL(url).searchParams.get(name)?.trim() ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Compares ingested rows with the stored rows under the same key. Ingested
+ * rows only carry the columns their source owns, so only those columns are
+ * compared and stored rows missing from the page are left alone.
+ */
+export function diffIngestedRows(
+  keyFields: readonly string[],
+  existingRows: ReadonlyArray<Row & { _id: unknown }>,
+  incomingRows: readonly Row[],
+): IngestionRowsDiff {
+  const keyOf = (row: Row) =>
+    keyFields.map((field) => text(row[field])).join("|");
+  const existingByKey = new Map<string, Row & { _id: unknown }>();
+  const diff: IngestionRowsDiff = {
+    inserts: [],
+    updates: [],
+    unchanged: 0,
+    duplicateKeys: [],
+  };
+  for (const row of existingRows) {
+    const key = keyOf(row);
+    if (existingByKey.has(key)) diff.duplicateKeys.push(key);
+    else existingByKey.set(key, row);
+  }
+  const incomingByKey = new Map(incomingRows.map((row) => [keyOf(row), row]));
+  for (const [key, row] of incomingByKey) {
+    const existing = existingByKey.get(key);
+    if (!existing) {
+      diff.inserts.push(row);
+      continue;
+    }
+    const changes = Object.entries(row)
+      .filter(
+        ([field, next]) => comparable(existing[field]) !== comparable(next),
+      )
+      .map(([field, next]) => ({ field, previous: existing[field], next }));
+    if (changes.length) {
+      diff.updates.push({ id: String(existing._id), row, changes });
+    } else {
+      diff.unchanged += 1;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Assigns the page's left and right tables to teams. The totals table names
+ * each side's Yahoo team, and the `mid1`/`mid2` URL parameters are the
+ * fallback when it does not.
+ */
+export function resolveYahooPageSides(params: {
+  totals: ParsedYahooMatchupTotals | null;
+  url: string;
+  teams: ReadonlyArray<{ id: string; yahooId?: string | null }>;
+}): { home: string; away: string } | null {
+  const teamIdByYahooId = new Map(
+    params.teams
+      .filter((team) => text(team.yahooId))
+      .map((team) => [text(team.yahooId), team.id]),
+  );
+  const candidates = [
+    [params.totals?.home.yahooTeamId, params.totals?.away.yahooTeamId],
+    [readPageParam(params.url, "mid1"), readPageParam(params.url, "mid2")],
+  ];
+  for (const [left, right] of candidates) {
+    const home = teamIdByYahooId.get(text(left));
+    const away = teamIdByYahooId.get(text(right));
+    if (home && away && home !== away) return { home, away };
+  }
+  return null;
+}
+
+/**
+ * Builds the lineup slots a Yahoo daily matchup page records, as in
+ * `stats:backfill-yahoo-matchup-days`: stored rows only take the Yahoo
+ * `dailyPos`, and players without a row for the day get one seeded from the
+ * player directory. Unknown players, rows on another team and stored rows
+ * Yahoo no longer lists are flagged rather than written.
+ */
+export function buildYahooPlayerDayRows(input: {
+  seasonId: string;
+  weekId: string;
+  date: string;
+  sides: readonly YahooMatchupSide[];
+  players: readonly IngestionPlayer[];
+  existingRows: readonly Row[];
+}): { rows: Row[]; flags: IngestionFlag[]; parsed: number } {
+  const playersByYahooId = new Map(
+    input.players
+      .filter((player) => text(player.yahooId))
+      .map((player) => [text(player.yahooId), player]),
+  );
+  const playersByNormalizedName = buildPlayersByNormalizedName(input.players);
+  const existingByPlayerId = new Map<string, Row>();
+  for (const row of input.existingRows) {
+    const playerId = text(row.playerId);
+    if (!existingByPlayerId.has(playerId))
+      existingByPlayerId.set(playerId, row);
+  }
+  const rows: Row[] = [];
+  const flags: IngestionFlag[] = [];
+  let parsed = 0;
+
+  for (const side of input.sides) {
+    const matchedPlayerIds = new Set<string>();
+    for (const yahooRow of side.rows) {
+      parsed += 1;
+      const player = resolvePlayerFromYahooReference({
+        yahooId: yahooRow.yahooId,
+        playerName: yahooRow.playerName,
+        playersByYahooId,
+        playersByNormalizedName,
+        players: input.players,
+      });
+      if (!player) {
+        flags.push({
+          kind: "unknown-yahoo-player",
+          gshlTeamId: side.gshlTeamId,
+          playerName: yahooRow.playerName,
+          yahooId: yahooRow.yahooId,
+          detail: `Yahoo player ${yahooRow.playerName} does not match a player.`,
+        });
+        continue;
+      }
+      if (matchedPlayerIds.has(player.id)) continue;
+      matchedPlayerIds.add(player.id);
+      const existing = existingByPlayerId.get(player.id);
+      if (existing && text(existing.gshlTeamId) !== side.gshlTeamId) {
+        flags.push({
+          kind: "moved-player-day-row",
+          gshlTeamId: side.gshlTeamId,
+          playerId: player.id,
+          playerName: yahooRow.playerName,
+          detail: `Player ${player.id} is stored on team ${text(existing.gshlTeamId)} for ${input.date}.`,
+        });
+        continue;
+      }
+      const key = {
+        seasonId: input.seasonId,
+        gshlTeamId: side.gshlTeamId,
+        playerId: player.id,
+        weekId: input.weekId,
+        date: input.date,
+      };
+      const dailyPos = yahooRow.dailyPos || text(existing?.dailyPos) || "BN";
+      rows.push(
+        existing
+          ? { ...key, dailyPos }
+          : {
+              ...key,
+              nhlPos: player.nhlPos,
+              posGroup: player.posGroup,
+              nhlTeam: player.nhlTeam,
+              dailyPos,
+            },
+      );
+    }
+    for (const row of input.existingRows) {
+      const playerId = text(row.playerId);
+      if (
+        text(row.gshlTeamId) !== side.gshlTeamId ||
+        matchedPlayerIds.has(playerId)
+      )
+        continue;
+      flags.push({
+        kind: "stale-player-day-row",
+        gshlTeamId: side.gshlTeamId,
+        playerId,
+        detail: `Player ${playerId} is stored for ${input.date} but missing from the Yahoo lineup.`,
+      });
+    }
+  }
+
+  return { rows, flags, parsed };
+}
+
+/**
+ * Checks Yahoo's weekly matchup totals against the stored team weeks, as in
+ * `yahoo:check-weekly-matchups`. Headers without a team week column are
+ * reported once and skipped.
+ */
+export function compareYahooWeeklyTotals(input: {
+  totals: ParsedYahooMatchupTotals;
+  sides: { home: string; away: string };
+  teamWeeks: ReadonlyMap<string, Row>;
+}): {
+  comparisons: number;
+  mismatches: YahooWeeklyMismatch[];
+  missingTeamWeeks: string[];
+  unsupportedHeaders: string[];
+} {
+  const result = {
+    comparisons: 0,
+    mismatches: [] as YahooWeeklyMismatch[],
+    missingTeamWeeks: [] as string[],
+    unsupportedHeaders: [] as string[],
+  };
+  for (const side of ["home", "away"] as const) {
+    const gshlTeamId = input.sides[side];
+    const teamWeek = input.teamWeeks.get(gshlTeamId);
+    if (!teamWeek) {
+      result.missingTeamWeeks.push(gshlTeamId);
+      continue;
+    }
+    for (const [yahooHeader, yahooValue] of Object.entries(
+      input.totals[side].stats,
+    )) {
+      const field = YAHOO_HEADER_TO_TEAM_WEEK_FIELD[yahooHeader];
+      if (!field || !(field in teamWeek)) {
+        if (!result.unsupportedHeaders.includes(yahooHeader))
+          result.unsupportedHeaders.push(yahooHeader);
+        continue;
+      }
+      result.comparisons += 1;
+      const comparison = compareStatValues(field, teamWeek[field], yahooValue);
+      if (!comparison.matches) {
+        result.mismatches.push({
+          gshlTeamId,
+          side,
+          field,
+          yahooHeader,
+          storedValue: comparison.sheetDisplay,
+          yahooValue: comparison.yahooDisplay,
+        });
+      }
+    }
+  }
+  return result;
+}
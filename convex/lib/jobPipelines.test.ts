@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { PIPELINES, pipelineStageDependencies } from "../jobCatalog";
+import { planPipelineStep } from "./jobPipelines";
+
+const refresh = PIPELINES["active-season-refresh"]!;
+const midSeason = {
+  args: { seasonId: "s1" },
+  season: { startDate: "2025-10-07", endDate: "2026-04-19" },
+  now: Date.parse("2026-01-15T12:00:00.000Z"),
+};
+const succeeded = (...stages: number[]) =>
+  stages.map((stage) => ({ stage, status: "succeeded" }));
+
+test("pipeline stages only wait on earlier stages", () => {
+  for (const [jobName, definition] of Object.entries(PIPELINES)) {
+    const seen = new Set<string>();
+    definition.stages.forEach((stage, index) => {
+      for (const id of pipelineStageDependencies(definition, index))
+        assert.ok(seen.has(id), `${jobName}: ${stage.id} waits on ${id}`);
+      assert.ok(!seen.has(stage.id), `${jobName}: duplicate ${stage.id}`);
+      seen.add(stage.id);
+    });
+  }
+});
+
+test("independent stages start together once their inputs finish", () => {
+  const step = planPipelineStep(refresh, succeeded(0, 1), midSeason);
+  assert.equal(step.state, "advance");
+  assert.deepEqual(
+    step.state === "advance" && step.start.map((stage) => stage.jobName),
+    ["matchup-scoring", "player-rating-rebuild"],
+  );
+  assert.deepEqual(
+    planPipelineStep(
+      refresh,
+      [...succeeded(0, 1), { stage: 2, status: "running" }],
+      midSeason,
+    ),
+    {
+      state: "advance",
+      start: [
+        {
+          stage: 3,
+          jobName: "player-rating-rebuild",
+          args: { seasonId: "s1" },
+        },
+      ],
+      skip: [],
+    },
+  );
+});
+
+test("conditional stages are skipped mid-season and run once it ends", () => {
+  const step = planPipelineStep(
+    refresh,
+    succeeded(0, 1, 2, 3, 4, 5, 6, 7),
+    midSeason,
+  );
+  assert.deepEqual(
+    step.state === "advance" && step.skip.map((stage) => stage.jobName),
+    ["awards-backfill"],
+  );
+  const ended = planPipelineStep(refresh, succeeded(0, 1, 2, 3, 4, 5, 6, 7), {
+    ...midSeason,
+    now: Date.parse("2026-05-01T12:00:00.000Z"),
+  });
+  assert.deepEqual(
+    ended.state === "advance" && ended.start.map((stage) => stage.jobName),
+    ["awards-backfill", "weekly-edition-generation"],
+  );
+  assert.deepEqual(
+    planPipelineStep(
+      refresh,
+      [
+        ...succeeded(0, 1, 2, 3, 4, 5, 6, 7, 9),
+        { stage: 8, status: "succeeded", result: { skipped: true } },
+      ],
+      midSeason,
+    ),
+    { state: "complete" },
+  );
+});
+
+test("stages read pipeline args and earlier stage results", () => {
+  const rollover = PIPELINES["season-rollover"]!;
+  const step = planPipelineStep(rollover, succeeded(0, 1, 2, 3, 4, 5, 6, 7), {
+    ...midSeason,
+    args: { seasonId: "s1" },
+  });
+  assert.deepEqual(step.state === "advance" && step.start, [
+    { stage: 8, jobName: "player-day-eligibility", args: { seasonId: "s1" } },
+  ]);
+
+  const cleanup = PIPELINES["post-draft-cleanup"]!;
+  const linked = planPipelineStep(cleanup, succeeded(0, 1), midSeason);
+  assert.deepEqual(
+    linked.state === "advance" && linked.start.map((stage) => stage.jobName),
+    ["lineup-recalculation"],
+  );
+});
+
+test("a failed stage fails the pipeline", () => {
+  assert.deepEqual(
+    planPipelineStep(
+      refresh,
+      [...succeeded(0), { stage: 1, status: "failed", error: "boom" }],
+      midSeason,
+    ),
+    { state: "failed", stage: 1, error: "boom" },
+  );
+});
@@ -0,0 +1,104 @@
+import {
+  pipelineStageDependencies,
+  type PipelineContext,
+  type PipelineDefinition,
+} from "../jobCatalog";
+
+/*
+ * Pipelines run their stages as child job runs, each tagged with the stage's
+ * index. A stage starts once every stage it waits on has succeeded or been
+ * skipped, so independent stages run side by side. A skipped stage is stored
+ * as a succeeded child whose result is `{ skipped: true, reason }`.
+ */
+
+export type PipelineChild = {
+  stage: number;
+  status: string;
+  result?: unknown;
+  error?: string;
+};
+
+export type PipelineStep =
+  | { state: "failed"; stage: number; error?: string }
+  | { state: "complete" }
+  | {
+      state: "advance";
+      start: Array<{
+        stage: number;
+        jobName: string;
+        args: Record<string, unknown>;
+      }>;
+      skip: Array<{ stage: number; jobName: string; reason: string }>;
+    };
+
+const FINISHED_OK = new Set(["succeeded"]);
+const FINISHED_BAD = new Set(["failed", "cancelled"]);
+
+export function isSkippedStageResult(
+  result: unknown,
+): result is { skipped: true; reason: string } {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    (result as { skipped?: unknown }).skipped === true
+  );
+}
+
+/**
+ * Decides what a pipeline does next given its existing child runs: fail on
+ * the first failed stage, finish when every stage is done, or start and skip
+ * whichever stages have become ready. Callers record the skipped stages and
+ * plan again, since a trailing skip can be what completes the pipeline.
+ */
+export function planPipelineStep(
+  definition: PipelineDefinition,
+  children: readonly PipelineChild[],
+  context: Omit<PipelineContext, "results">,
+): PipelineStep {
+  const failed = children.find((child) => FINISHED_BAD.has(child.status));
+  if (failed)
+    return { state: "failed", stage: failed.stage, error: failed.error };
+
+  const started = new Set(children.map((child) => child.stage));
+  const done = new Set<string>();
+  const results: Record<string, unknown> = {};
+  for (const child of children) {
+    const stage = definition.stages[child.stage];
+    if (!stage || !FINISHED_OK.has(child.status)) continue;
+    done.add(stage.id);
+    if (!isSkippedStageResult(child.result)) results[stage.id] = child.result;
+  }
+  if (done.size === definition.stages.length) return { state: "complete" };
+
+  const start: Extract<PipelineStep, { state: "advance" }>["start"] = [];
+  const skip: Extract<PipelineStep, { state: "advance" }>["skip"] = [];
+  // Skipping a stage can make the stages after it ready in the same step.
+  for (let changed = true; changed; ) {
+    changed = false;
+    definition.stages.forEach((stage, index) => {
+      if (started.has(index)) return;
+      const ready = pipelineStageDependencies(definition, index).every((id) =>
+        done.has(id),
+      );
+      if (!ready) return;
+      started.add(index);
+      const stageContext = { ...context, results };
+      if (stage.when && !stage.when.holds(stageContext)) {
+        skip.push({
+          stage: index,
+          jobName: stage.jobName,
+          reason: `Runs only ${stage.when.description}`,
+        });
+        done.add(stage.id);
+        changed = true;
+        return;
+      }
+      start.push({
+        stage: index,
+        jobName: stage.jobName,
+        args: stage.args ? stage.args(stageContext) : context.args,
+      });
+    });
+  }
+  return { state: "advance", start, skip };
+}
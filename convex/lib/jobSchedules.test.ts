@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildScheduleFields,
+  isWithinActiveSeason,
+  nextCronRunAt,
+  nextScheduleRunAt,
+  normalizeScheduleTiming,
+  parseCronExpression,
+} from "./jobSchedules";
+
+test("cron fields accept lists, ranges and steps", () => {
+  const fields = parseCronExpression("*/15 4,16 1-3 * 1-5");
+  assert.deepEqual(fields.minutes, [0, 15, 30, 45]);
+  assert.deepEqual(fields.hours, [4, 16]);
+  assert.deepEqual([...fields.daysOfMonth], [1, 2, 3]);
+  assert.deepEqual([...fields.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.throws(() => parseCronExpression("0 4 * *"), /five fields/);
+  assert.throws(() => parseCronExpression("0 24 * * *"), /out of range/);
+});
+
+test("daily cron schedules fire at Toronto time across daylight saving", () => {
+  // 4am EDT is 08:00 UTC; 4am EST is 09:00 UTC.
+  assert.equal(
+    nextCronRunAt("0 4 * * *", Date.parse("2025-10-07T12:00:00.000Z")),
+    Date.parse("2025-10-08T08:00:00.000Z"),
+  );
+  assert.equal(
+    nextCronRunAt("0 4 * * *", Date.parse("2025-11-02T12:00:00.000Z")),
+    Date.parse("2025-11-03T09:00:00.000Z"),
+  );
+  // 2:30am does not exist on the spring-forward date.
+  assert.equal(
+    nextCronRunAt("30 2 * * *", Date.parse("2026-03-08T00:00:00.000Z")),
+    Date.parse("2026-03-09T06:30:00.000Z"),
+  );
+});
+
+test("restricted day-of-month and day-of-week fields match either", () => {
+  // 2025-10-07 is a Tuesday; the next Monday is the 13th, before the 15th.
+  assert.equal(
+    nextCronRunAt("0 9 15 * 1", Date.parse("2025-10-07T16:00:00.000Z")),
+    Date.parse("2025-10-13T13:00:00.000Z"),
+  );
+});
+
+test("stepped day fields do not count as restricted", () => {
+  // Odd days that are also Mondays: the 9th alone would match either-or.
+  assert.equal(
+    nextCronRunAt("0 9 */2 * 1", Date.parse("2025-10-07T16:00:00.000Z")),
+    Date.parse("2025-10-13T13:00:00.000Z"),
+  );
+});
+
+test("schedules need exactly one timing", () => {
+  const now = Date.parse("2025-10-07T12:00:00.000Z");
+  assert.equal(
+    nextScheduleRunAt({ intervalMinutes: 30 }, now),
+    now + 1_800_000,
+  );
+  assert.deepEqual(normalizeScheduleTiming({ cron: " 0 4 * * * " }), {
+    cron: "0 4 * * *",
+  });
+  assert.throws(
+    () => normalizeScheduleTiming({ cron: "0 4 * * *", intervalMinutes: 5 }),
+    /not both/,
+  );
+  assert.throws(() => normalizeScheduleTiming({}), /needs a cron/);
+  assert.throws(
+    () => normalizeScheduleTiming({ intervalMinutes: 0 }),
+    /at least 1/,
+  );
+  assert.throws(
+    () =>
+      buildScheduleFields(
+        { name: "Leap", jobName: "standings-backfill", cron: "0 0 30 2 *" },
+        now,
+      ),
+    /never fires/,
+  );
+  assert.throws(
+    () =>
+      buildScheduleFields(
+        {
+          name: "Pinned",
+          jobName: "standings-backfill",
+          cron: "0 0 30 2 *",
+          nextRunAt: now,
+        },
+        now,
+      ),
+    /never fires/,
+  );
+});
+
+test("active-season schedules only run inside the active season's dates", () => {
+  const seasons = [
+    { isActive: false, startDate: "2024-10-01", endDate: "2025-04-20" },
+    { isActive: true, startDate: "2025-10-07", endDate: "2026-04-19" },
+  ];
+  assert.equal(
+    isWithinActiveSeason(seasons, Date.parse("2025-10-07T08:00:00.000Z")),
+    true,
+  );
+  assert.equal(
+    isWithinActiveSeason(seasons, Date.parse("2025-10-07T03:00:00.000Z")),
+    false,
+  );
+  assert.equal(
+    isWithinActiveSeason(seasons, Date.parse("2026-07-01T12:00:00.000Z")),
+    false,
+  );
+});
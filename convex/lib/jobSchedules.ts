@@ -0,0 +1,263 @@
+import { utcTimestampToDateKey } from "./timestamps";
+
+/*
+ * Job schedules fire either every `intervalMinutes` or on a five-field cron
+ * expression (minute hour day-of-month month day-of-week). Cron expressions
+ * are read in league time, so `0 4 * * *` means 4am in Toronto year-round.
+ */
+
+export const SCHEDULE_TIME_ZONE = "America/Toronto";
+// Long enough for any real expression, including `29 2` (leap days).
+const CRON_SEARCH_DAYS = 366 * 8;
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export type ScheduleTiming = {
+  intervalMinutes?: number | null;
+  cron?: string | null;
+};
+
+export type CronFields = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+type WallClock = { dateKey: string; hour: number; minute: number };
+
+const CRON_FIELD_RANGES = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+function parseCronField(
+  source: string,
+  range: (typeof CRON_FIELD_RANGES)[number],
+): number[] {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match?.[1]) throw new Error(`Invalid cron ${range.name} "${part}"`);
+    const step = match[2] === undefined ? 1 : Number(match[2]);
+    const [low, high] =
+      match[1] === "*"
+        ? [range.min, range.max]
+        : match[1].includes("-")
+          ? match[1].split("-").map(Number)
+          : [
+              Number(match[1]),
+              match[2] === undefined ? Number(match[1]) : range.max,
+            ];
+    if (
+      low === undefined ||
+      high === undefined ||
+      low < range.min ||
+      high > range.max ||
+      low > high ||
+      step < 1
+    )
+      throw new Error(`Cron ${range.name} "${part}" is out of range`);
+    for (let value = low; value <= high; value += step) values.add(value);
+  }
+  return [...values].sort((left, right) => left - right);
+}
+
+/** Parses a five-field cron expression, throwing on anything unsupported. */
+export function parseCronExpression(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5)
+    throw new Error(
+      "Cron expressions need five fields: minute hour day-of-month month day-of-week",
+    );
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseCronField(part, CRON_FIELD_RANGES[index]!),
+  );
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    // Both 0 and 7 mean Sunday.
+    daysOfWeek: new Set(daysOfWeek!.map((day) => day % 7)),
+    // As in standard cron, a day field starting with `*` (including `*/n`)
+    // does not count as restricted for the either-may-match rule.
+    anyDayOfMonth: parts[2]!.startsWith("*"),
+    anyDayOfWeek: parts[4]!.startsWith("*"),
+  };
+}
+
+function torontoWallClock(instant: number): WallClock {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: SCHEDULE_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(instant));
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    dateKey: `${value("year")}-${value("month")}-${value("day")}`,
+    hour: Number(value("hour")),
+    minute: Number(value("minute")),
+  };
+}
+
+/** The league (Toronto) calendar date of an instant, as `YYYY-MM-DD`. */
+export function leagueDateKey(instant: number): string {
+  return torontoWallClock(instant).dateKey;
+}
+
+// Returns the instant a Toronto wall-clock time happens, or null when a
+// spring-forward gap skips it. Repeated fall-back times resolve to the first.
+function torontoInstant(
+  dateKey: string,
+  hour: number,
+  minute: number,
+): number | null {
+  const wallAsUtc = Date.parse(
+    `${dateKey}T${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}:00.000Z`,
+  );
+  for (const offsetHours of [4, 5]) {
+    const candidate = wallAsUtc + offsetHours * HOUR_MS;
+    const clock = torontoWallClock(candidate);
+    if (
+      clock.dateKey === dateKey &&
+      clock.hour === hour &&
+      clock.minute === minute
+    )
+      return candidate;
+  }
+  return null;
+}
+
+function cronMatchesDay(fields: CronFields, dateKey: string): boolean {
+  const date = new Date(`${dateKey}T12:00:00.000Z`);
+  if (!fields.months.has(date.getUTCMonth() + 1)) return false;
+  const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay());
+  // Standard cron: when both day fields are restricted, either may match.
+  if (fields.anyDayOfMonth || fields.anyDayOfWeek)
+    return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+/** Returns the first instant after `after` that a cron expression fires. */
+export function nextCronRunAt(expression: string, after: number): number {
+  const fields = parseCronExpression(expression);
+  let dateKey = torontoWallClock(after).dateKey;
+  for (let day = 0; day < CRON_SEARCH_DAYS; day += 1) {
+    if (cronMatchesDay(fields, dateKey)) {
+      for (const hour of fields.hours) {
+        for (const minute of fields.minutes) {
+          const instant = torontoInstant(dateKey, hour, minute);
+          if (instant !== null && instant > after) return instant;
+        }
+      }
+    }
+    const next = new Date(`${dateKey}T12:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    dateKey = next.toISOString().slice(0, 10);
+  }
+  throw new Error(`Cron expression "${expression}" never fires`);
+}
+
+/**
+ * Checks that a schedule has exactly one timing and returns it normalized.
+ */
+export function normalizeScheduleTiming(timing: ScheduleTiming): {
+  intervalMinutes?: number;
+  cron?: string;
+} {
+  const cron = timing.cron?.trim() ?? "";
+  const intervalMinutes = timing.intervalMinutes ?? undefined;
+  if (cron && intervalMinutes !== undefined)
+    throw new Error(
+      "Use either a cron expression or intervalMinutes, not both",
+    );
+  if (cron) {
+    parseCronExpression(cron);
+    return { cron };
+  }
+  if (intervalMinutes === undefined)
+    throw new Error("A schedule needs a cron expression or intervalMinutes");
+  if (!Number.isFinite(intervalMinutes) || intervalMinutes < 1)
+    throw new Error("intervalMinutes must be at least 1");
+  return { intervalMinutes };
+}
+
+/** Returns when a schedule should next fire after `after`. */
+export function nextScheduleRunAt(
+  timing: ScheduleTiming,
+  after: number,
+): number {
+  const normalized = normalizeScheduleTiming(timing);
+  return normalized.cron
+    ? nextCronRunAt(normalized.cron, after)
+    : after + normalized.intervalMinutes! * MINUTE_MS;
+}
+
+/**
+ * Whether `now` falls inside the active season's dates in league time.
+ * Active-season-only schedules skip their slot when it does not.
+ */
+export function isWithinActiveSeason(
+  seasons: ReadonlyArray<{
+    isActive?: boolean | null;
+    startDate?: unknown;
+    endDate?: unknown;
+  }>,
+  now: number,
+): boolean {
+  const today = torontoWallClock(now).dateKey;
+  return seasons.some((season) => {
+    if (!season.isActive) return false;
+    const startDate = utcTimestampToDateKey(season.startDate);
+    const endDate = utcTimestampToDateKey(season.endDate);
+    return (!startDate || startDate <= today) && (!endDate || today <= endDate);
+  });
+}
+
+/**
+ * Builds the stored fields for a created or edited schedule. The first run is
+ * the next slot after `now` unless the caller pins `nextRunAt`.
+ */
+export function buildScheduleFields(
+  input: ScheduleTiming & {
+    name: string;
+    jobName: string;
+    args?: Record<string, unknown>;
+    apply?: boolean;
+    enabled?: boolean;
+    activeSeasonOnly?: boolean;
+    nextRunAt?: number;
+  },
+  now: number,
+) {
+  const name = input.name.trim();
+  if (!name) throw new Error("Schedules need a name");
+  const timing = normalizeScheduleTiming(input);
+  // Always computed, even when pinned, so a cron that never fires is rejected.
+  const nextRunAt = nextScheduleRunAt(timing, now);
+  return {
+    name,
+    jobName: input.jobName,
+    args: input.args ?? {},
+    apply: input.apply === true,
+    enabled: input.enabled === true,
+    intervalMinutes: timing.intervalMinutes,
+    cron: timing.cron,
+    activeSeasonOnly: input.activeSeasonOnly === true,
+    nextRunAt: input.nextRunAt ?? nextRunAt,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,90 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import type {
+  LineupAssignment,
+  LineupCandidate,
+  RosterPosition as RosterPositionType,
+} from "../../src/lib/types";
+import { generateLineupAssignments } from "../../src/lib/utils/features/draft-admin";
+import { RosterPosition } from "../../src/lib/utils/domain/constants";
+
+function toRosterPosition(value: unknown): RosterPositionType | null {
+  switch (value) {
+    case RosterPosition.BN:
+      return RosterPosition.BN;
+    case RosterPosition.IR:
+      return RosterPosition.IR;
+    case RosterPosition.IRplus:
+      return RosterPosition.IRplus;
+    case RosterPosition.LW:
+      return RosterPosition.LW;
+    case RosterPosition.C:
+      return RosterPosition.C;
+    case RosterPosition.RW:
+      return RosterPosition.RW;
+    case RosterPosition.D:
+      return RosterPosition.D;
+    case RosterPosition.G:
+      return RosterPosition.G;
+    case RosterPosition.Util:
+      return RosterPosition.Util;
+    default:
+      return null;
+  }
+}
+
+function toLineupCandidate(player: Doc<"players">): LineupCandidate {
+  const parsedRating =
+    player.overallRating === null || player.overallRating === undefined
+      ? null
+      : Number(player.overallRating);
+  return {
+    id: String(player._id),
+    nhlPos: (player.nhlPos ?? [])
+      .map(toRosterPosition)
+      .filter((position): position is RosterPositionType => position !== null),
+    lineupPos: toRosterPosition(player.lineupPos),
+    overallRating: Number.isFinite(parsedRating) ? parsedRating : null,
+  };
+}
+
+export async function rebuildTeamLineup(
+  ctx: MutationCtx,
+  ownerId: Id<"owners">,
+  teamId: Id<"teams">,
+  updatedAt: number,
+  explicitlyIncludedPlayers: readonly Doc<"players">[] = [],
+): Promise<LineupAssignment[]> {
+  const [ownerRosterRows, teamRosterRows] = await Promise.all([
+    ctx.db
+      .query("players")
+      .withIndex("by_ownerId", (range) => range.eq("ownerId", ownerId))
+      .collect(),
+    ctx.db
+      .query("players")
+      .withIndex("by_gshlTeamId", (range) => range.eq("gshlTeamId", teamId))
+      .collect(),
+  ]);
+  const rosterById = new Map<string, Doc<"players">>();
+  for (const rosterPlayer of [
+    ...ownerRosterRows,
+    ...teamRosterRows,
+    ...explicitlyIncludedPlayers,
+  ]) {
+    rosterById.set(String(rosterPlayer._id), rosterPlayer);
+  }
+  const lineupAssignments = generateLineupAssignments(
+    [...rosterById.values()]
+      .filter((rosterPlayer) => rosterPlayer.isActive)
+      .map(toLineupCandidate),
+  );
+  for (const assignment of lineupAssignments) {
+    const rosterPlayer = rosterById.get(assignment.playerId);
+    if (!rosterPlayer) continue;
+    await ctx.db.patch(rosterPlayer._id, {
+      lineupPos: assignment.lineupPos,
+      updatedAt,
+    });
+  }
+  return lineupAssignments;
+}
@@ -0,0 +1,49 @@
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+
+type Ctx = QueryCtx | MutationCtx;
+
+/**
+ * The current Owner Ladder: every owner's snapshot from the latest rebuilt
+ * week. Empty until the owner-ladder-rebuild job has run once.
+ */
+export async function loadCurrentOwnerLadder(
+  ctx: Ctx,
+): Promise<Doc<"ownerLadderSnapshots">[]> {
+  const latest = await ctx.db
+    .query("ownerLadderSnapshots")
+    .withIndex("by_weekStartDate")
+    .order("desc")
+    .first();
+  return latest ? await loadOwnerLadderWeek(ctx, latest.weekStartDate) : [];
+}
+
+/**
+ * The Owner Ladder as it stood on `date`: every owner's snapshot from the
+ * latest rebuilt week starting on or before it.
+ */
+export async function loadOwnerLadderAsOf(
+  ctx: Ctx,
+  date: string,
+): Promise<Doc<"ownerLadderSnapshots">[]> {
+  const latest = await ctx.db
+    .query("ownerLadderSnapshots")
+    .withIndex("by_weekStartDate", (range) => range.lte("weekStartDate", date))
+    .order("desc")
+    .first();
+  return latest ? await loadOwnerLadderWeek(ctx, latest.weekStartDate) : [];
+}
+
+async function loadOwnerLadderWeek(
+  ctx: Ctx,
+  weekStartDate: string,
+): Promise<Doc<"ownerLadderSnapshots">[]> {
+  return (
+    await ctx.db
+      .query("ownerLadderSnapshots")
+      .withIndex("by_weekStartDate", (range) =>
+        range.eq("weekStartDate", weekStartDate),
+      )
+      .collect()
+  ).sort((left, right) => left.rank - right.rank);
+}
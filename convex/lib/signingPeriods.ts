@@ -0,0 +1,48 @@
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type {
+  ResignableStatus,
+  SigningPeriodWindow,
+} from "../../src/lib/types";
+import {
+  buildSigningPeriodCalendar,
+  findSigningPeriodWindow,
+  getSigningPeriodError,
+} from "../../src/lib/utils/domain/contracts";
+import { toSeason } from "./domainRows";
+
+type Ctx = QueryCtx | MutationCtx;
+
+/** Loads a season's rule 9.8 calendar with any commissioner overrides. */
+export async function loadSigningPeriodCalendar(
+  ctx: Ctx,
+  season: Doc<"seasons">,
+): Promise<SigningPeriodWindow[]> {
+  const overrides = await ctx.db
+    .query("signingPeriods")
+    .withIndex("by_seasonId_period", (range) =>
+      range.eq("seasonId", season._id),
+    )
+    .collect();
+  return buildSigningPeriodCalendar({
+    season: toSeason(season),
+    overrides: overrides.map((row) => ({
+      period: row.period,
+      startAt: row.startAt,
+      endAt: row.endAt ?? null,
+      allowedStatuses: row.allowedStatuses,
+    })),
+  });
+}
+
+/** Rejects a signing the currently open window does not allow. */
+export function requireSigningPeriodOpen(
+  calendar: SigningPeriodWindow[],
+  status: ResignableStatus,
+  now: number,
+): SigningPeriodWindow {
+  const window = findSigningPeriodWindow(calendar, new Date(now));
+  const error = getSigningPeriodError(window, status);
+  if (error || !window) throw new Error(error ?? "No signing period is open.");
+  return window;
+}
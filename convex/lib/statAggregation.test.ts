@@ -0,0 +1,260 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  aggregatePlayerCareers,
+  aggregatePlayerSplitsAndTotals,
+  aggregatePlayerWeeks,
+  aggregateTeamSeasons,
+  aggregateTeamWeek,
+  applyPlayerDayFlags,
+  buildAggregationFieldConfig,
+  buildWeekTypeMap,
+  canonicalizePlayerDays,
+  countPlayersUsed,
+  diffAggregateRows,
+  mergeAggregateTableDiff,
+} from "./statAggregation";
+
+const config = buildAggregationFieldConfig({ _id: "season", categories: [] });
+const week = {
+  id: "week-1",
+  weekType: "RS",
+  startDate: "2025-10-06",
+  endDate: "2025-10-08",
+};
+const weekTypeMap = buildWeekTypeMap([week, { id: "week-po", weekType: "LT" }]);
+
+const skaterDay = (date: string, stats: Record<string, unknown> = {}) => ({
+  seasonId: "season",
+  gshlTeamId: "team-a",
+  playerId: "skater",
+  weekId: "week-1",
+  date,
+  posGroup: "F",
+  nhlPos: ["C"],
+  nhlTeam: ["TOR"],
+  dailyPos: "C",
+  fullPos: "C",
+  bestPos: "C",
+  GP: 1,
+  G: 1,
+  A: 1,
+  P: 2,
+  ...stats,
+});
+const goalieDay = (date: string, stats: Record<string, unknown> = {}) => ({
+  seasonId: "season",
+  gshlTeamId: "team-a",
+  playerId: "goalie",
+  weekId: "week-1",
+  date,
+  posGroup: "G",
+  nhlPos: ["G"],
+  nhlTeam: ["BOS"],
+  dailyPos: "G",
+  fullPos: "G",
+  bestPos: "G",
+  GP: 1,
+  W: 1,
+  GA: 2,
+  SV: 28,
+  SA: 30,
+  TOI: 60,
+  ...stats,
+});
+
+void test("merges duplicate player-days and recomputes goalie rate stats", () => {
+  const [row] = canonicalizePlayerDays([
+    goalieDay("2025-10-06", { GA: 1, SV: 10, SA: 11, TOI: 30 }),
+    goalieDay("2025-10-06", { GP: "", W: "", GA: 1, SV: 9, SA: 10, TOI: 30 }),
+  ]);
+  assert.equal(row?.GA, "2");
+  assert.equal(row?.TOI, "60.00");
+  assert.equal(row?.GAA, "2.00000");
+  assert.equal(row?.SVP, "0.90476");
+  assert.equal(row?.GS, "1");
+});
+
+void test("flags adds, missed starts and benched starters", () => {
+  const days = canonicalizePlayerDays([
+    skaterDay("2025-10-06"),
+    skaterDay("2025-10-07", { dailyPos: "BN", fullPos: "C" }),
+  ]);
+  const context = canonicalizePlayerDays([
+    { ...skaterDay("2025-10-05"), playerId: "someone-else" },
+  ]);
+  applyPlayerDayFlags(days, context);
+  assert.deepEqual(
+    days.map((row) => [row.ADD, row.MS, row.BS]),
+    [
+      ["1", "", ""],
+      ["", "1", ""],
+    ],
+  );
+});
+
+void test("counts scoring stats for starters only and blanks the other position group", () => {
+  const days = canonicalizePlayerDays([
+    skaterDay("2025-10-06"),
+    skaterDay("2025-10-07", { dailyPos: "BN", G: 3 }),
+    goalieDay("2025-10-06"),
+  ]);
+  const weeks = aggregatePlayerWeeks(days, {
+    seasonId: "season",
+    weekTypeMap,
+    config,
+  });
+  const skater = weeks.find((row) => row.playerId === "skater");
+  const goalie = weeks.find((row) => row.playerId === "goalie");
+  assert.equal(skater?.days, "2");
+  assert.equal(skater?.GP, "2");
+  assert.equal(skater?.GS, "1");
+  assert.equal(skater?.G, "1");
+  assert.equal(skater?.W, "");
+  assert.equal(skater?.nhlPos, "C");
+  assert.equal(goalie?.G, "");
+  assert.equal(goalie?.GAA, "2.00000");
+  assert.equal(goalie?.SVP, "0.93333");
+});
+
+void test("builds every team-day and blanks goalie stats below the start minimum", () => {
+  const playerDays = canonicalizePlayerDays([
+    skaterDay("2025-10-06"),
+    goalieDay("2025-10-06"),
+  ]);
+  const playerWeeks = aggregatePlayerWeeks(playerDays, {
+    seasonId: "season",
+    weekTypeMap,
+    config,
+  });
+  const oneStart = aggregateTeamWeek({
+    seasonId: "season",
+    week,
+    teamIds: ["team-a", "team-b"],
+    playerDays,
+    playerWeeks,
+    config,
+  });
+  assert.equal(oneStart.teamDays.length, 6);
+  assert.equal(oneStart.teamWeeks.length, 2);
+  const teamA = oneStart.teamWeeks.find((row) => row.gshlTeamId === "team-a");
+  assert.equal(teamA?.days, "3");
+  assert.equal(teamA?.G, "1");
+  assert.equal(teamA?.GA, "");
+  assert.equal(teamA?.GAA, "");
+
+  const seasonOne = buildAggregationFieldConfig({ legacyId: "1" });
+  const qualified = aggregateTeamWeek({
+    seasonId: "season",
+    week,
+    teamIds: ["team-a"],
+    playerDays,
+    playerWeeks,
+    config: seasonOne,
+  });
+  assert.equal(qualified.teamWeeks[0]?.GA, "2");
+  assert.equal(qualified.teamWeeks[0]?.SVP, "0.93333");
+});
+
+void test("rolls weeks into splits, totals, careers and team seasons", () => {
+  const playerWeeks = [
+    { ...skaterDay(""), weekId: "week-1", days: 3, GP: 3, G: 2 },
+    {
+      ...skaterDay(""),
+      weekId: "week-po",
+      gshlTeamId: "team-b",
+      days: 2,
+      G: 1,
+    },
+    { ...skaterDay(""), weekId: "week-1", gshlTeamId: "team-b", days: 1, G: 4 },
+  ];
+  const { splits, totals } = aggregatePlayerSplitsAndTotals(playerWeeks, {
+    seasonId: "season",
+    weekTypeMap,
+    config,
+  });
+  assert.equal(splits.length, 3);
+  const regularTotal = totals.find((row) => row.seasonType === "RS");
+  assert.equal(regularTotal?.G, "6");
+  assert.equal(regularTotal?.gshlTeamIds, "team-a,team-b");
+  assert.equal(totals.find((row) => row.seasonType === "PO")?.G, "1");
+
+  const { careerTotals } = aggregatePlayerCareers(
+    [...playerWeeks, { ...playerWeeks[0], weekId: "old-week", G: 5 }],
+    { weekTypeMap, config },
+  );
+  assert.equal(careerTotals.find((row) => row.seasonType === "RS")?.G, "11");
+
+  const teamSeasons = aggregateTeamSeasons(
+    [
+      { gshlTeamId: "team-a", weekId: "week-1", days: "7", G: "10", GA: "" },
+      { gshlTeamId: "team-a", weekId: "week-1", days: "7", G: "5", GA: "4" },
+    ],
+    countPlayersUsed(splits),
+    { seasonId: "season", weekTypeMap, config },
+  );
+  assert.equal(teamSeasons.length, 1);
+  assert.equal(teamSeasons[0]?.days, "14");
+  assert.equal(teamSeasons[0]?.G, "15");
+  assert.equal(teamSeasons[0]?.GA, "4");
+  assert.equal(teamSeasons[0]?.playersUsed, "1");
+});
+
+void test("diffs generated rows against stored rows by composite key", () => {
+  const diff = diffAggregateRows(
+    "teamWeekStatLines",
+    [
+      {
+        _id: "keep",
+        seasonId: "season",
+        weekId: "week-1",
+        gshlTeamId: "team-a",
+        G: "1",
+        powerRk: 3,
+      },
+      {
+        _id: "dupe",
+        seasonId: "season",
+        weekId: "week-1",
+        gshlTeamId: "team-a",
+      },
+      {
+        _id: "stale",
+        seasonId: "season",
+        weekId: "week-1",
+        gshlTeamId: "gone",
+      },
+    ],
+    [
+      { seasonId: "season", weekId: "week-1", gshlTeamId: "team-a", G: "2" },
+      { seasonId: "season", weekId: "week-1", gshlTeamId: "team-b", G: "0" },
+    ],
+  );
+  assert.deepEqual(diff.deletes, ["dupe", "stale"]);
+  assert.equal(diff.inserts.length, 1);
+  assert.deepEqual(diff.updates[0]?.changes, [
+    { field: "G", previous: "1", next: "2" },
+  ]);
+
+  const careers = diffAggregateRows(
+    "playerCareerTotalStatLines",
+    [],
+    [
+      {
+        seasonId: "",
+        playerId: "skater",
+        seasonType: "RS",
+        gshlTeamIds: "a,b",
+        Rating: "1",
+      },
+    ],
+  );
+  assert.deepEqual(careers.inserts, [
+    { playerId: "skater", seasonType: "RS", gshlTeamIds: ["a", "b"] },
+  ]);
+
+  const report = mergeAggregateTableDiff(undefined, "teamWeekStatLines", diff);
+  assert.equal(report.generated, 2);
+  assert.deepEqual(report.changedColumns, { G: 1 });
+  assert.equal(report.samples[0]?.key, "season|week-1|team-a");
+});
@@ -0,0 +1,1101 @@
+type Row = Record<string, unknown>;
+
+export type AggregateTable =
+  | "playerWeekStatLines"
+  | "playerSplitStatLines"
+  | "playerTotalStatLines"
+  | "playerCareerSplitStatLines"
+  | "playerCareerTotalStatLines"
+  | "teamDayStatLines"
+  | "teamWeekStatLines"
+  | "teamSeasonStatLines";
+
+export type AggregationFieldConfig = {
+  activeCategories: Set<string>;
+  activeStarterFields: Set<string>;
+  goalieStartMinimum: number;
+};
+
+export type AggregationWeek = {
+  id: string;
+  weekType: unknown;
+  startDate: string;
+  endDate: string;
+  isActive?: boolean;
+};
+
+export type AggregateFieldChange = {
+  field: string;
+  previous: unknown;
+  next: unknown;
+};
+
+export type AggregateRowsDiff = {
+  inserts: Row[];
+  updates: Array<{ id: string; row: Row; changes: AggregateFieldChange[] }>;
+  deletes: string[];
+  unchanged: number;
+};
+
+export type AggregateTableDiff = {
+  generated: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  changedColumns: Record<string, number>;
+  samples: Array<{ key: string; changes: AggregateFieldChange[] }>;
+};
+
+const TEAM_STAT_FIELDS = [
+  "GP",
+  "MG",
+  "IR",
+  "IRplus",
+  "GS",
+  "G",
+  "A",
+  "P",
+  "PM",
+  "PIM",
+  "PPP",
+  "SOG",
+  "HIT",
+  "BLK",
+  "W",
+  "GA",
+  "SV",
+  "SA",
+  "SO",
+  "TOI",
+  "ADD",
+  "MS",
+  "BS",
+] as const;
+const TEAM_ALWAYS_SUM_FIELDS = [
+  "GP",
+  "MG",
+  "IR",
+  "IRplus",
+  "GS",
+  "ADD",
+  "MS",
+  "BS",
+] as const;
+const TEAM_SKATER_STARTER_FIELDS = [
+  "G",
+  "A",
+  "P",
+  "PM",
+  "PIM",
+  "PPP",
+  "SOG",
+  "HIT",
+  "BLK",
+] as const;
+const TEAM_GOALIE_STARTER_FIELDS = [
+  "W",
+  "GA",
+  "SV",
+  "SA",
+  "SO",
+  "TOI",
+] as const;
+const FALLBACK_SEASON_CATEGORIES = [
+  "G",
+  "A",
+  "P",
+  "PM",
+  "PPP",
+  "SOG",
+  "HIT",
+  "BLK",
+  "W",
+  "GAA",
+  "SVP",
+];
+const SEASON_CATEGORY_ALIASES = new Map<string, string>([
+  ["+/-", "PM"],
+  ["PLUSMINUS", "PM"],
+  ["PLUS_MINUS", "PM"],
+  ["PLUS-MINUS", "PM"],
+  ["PENALTYMINUTES", "PIM"],
+  ["PENALTY_MINUTES", "PIM"],
+  ["PENALTY-MINUTES", "PIM"],
+  ["POWERPLAYPOINTS", "PPP"],
+  ["POWER_PLAY_POINTS", "PPP"],
+  ["POWER-PLAY-POINTS", "PPP"],
+  ["SHOTS", "SOG"],
+  ["SHOTSONGOAL", "SOG"],
+  ["SHOTS_ON_GOAL", "SOG"],
+  ["SHOTS-ON-GOAL", "SOG"],
+  ["HITS", "HIT"],
+  ["BLOCKS", "BLK"],
+  ["WINS", "W"],
+  ["GOALSAGAINST", "GA"],
+  ["GOALS_AGAINST", "GA"],
+  ["GOALS-AGAINST", "GA"],
+  ["SV%", "SVP"],
+  ["SAVEPERCENTAGE", "SVP"],
+  ["SAVE_PERCENTAGE", "SVP"],
+  ["SAVE-PERCENTAGE", "SVP"],
+  ["SAVES", "SV"],
+  ["SHUTOUTS", "SO"],
+]);
+const SUPPORTED_CATEGORIES = new Set<string>([
+  ...TEAM_SKATER_STARTER_FIELDS,
+  ...TEAM_GOALIE_STARTER_FIELDS,
+  "GAA",
+  "SVP",
+]);
+const STARTING_DAILY_POSITIONS = new Set(["C", "LW", "RW", "D", "G", "UTIL"]);
+const NON_STARTING_DAILY_POSITIONS = new Set(["BN", "IR", "IR+"]);
+const NON_GOALIE_STARTING_FULL_POSITIONS = new Set([
+  "LW",
+  "C",
+  "RW",
+  "D",
+  "UTIL",
+]);
+const INTEGER_FIELDS = new Set<string>([
+  ...TEAM_STAT_FIELDS,
+  "days",
+  "playersUsed",
+]);
+// Season 1 rosters carried a single goalie, so one start qualified a week.
+const SINGLE_GOALIE_START_SEASON_IDS = new Set(["1"]);
+const DIFF_SAMPLE_LIMIT = 5;
+
+export const STAT_AGGREGATE_KEYS: Record<AggregateTable, string[]> = {
+  playerWeekStatLines: ["seasonId", "gshlTeamId", "playerId", "weekId"],
+  playerSplitStatLines: ["seasonId", "seasonType", "gshlTeamId", "playerId"],
+  playerTotalStatLines: ["seasonId", "seasonType", "playerId"],
+  playerCareerSplitStatLines: ["gshlTeamId", "playerId", "seasonType"],
+  playerCareerTotalStatLines: ["playerId", "seasonType"],
+  teamDayStatLines: ["seasonId", "gshlTeamId", "weekId", "date"],
+  teamWeekStatLines: ["seasonId", "weekId", "gshlTeamId"],
+  teamSeasonStatLines: ["seasonId", "seasonType", "gshlTeamId"],
+};
+
+// Team weeks and seasons also carry power, standings and award columns owned
+// by later pipeline stages, so only the rolled-up stat columns are written.
+const TEAM_MANAGED_FIELDS: Partial<Record<AggregateTable, Set<string>>> = {
+  teamWeekStatLines: new Set([
+    "seasonId",
+    "gshlTeamId",
+    "weekId",
+    "days",
+    ...TEAM_STAT_FIELDS,
+  ]),
+  teamSeasonStatLines: new Set([
+    "seasonId",
+    "seasonType",
+    "gshlTeamId",
+    "days",
+    ...TEAM_STAT_FIELDS,
+    "playersUsed",
+  ]),
+};
+const CAREER_TABLES = new Set<AggregateTable>([
+  "playerCareerSplitStatLines",
+  "playerCareerTotalStatLines",
+]);
+const LIST_FIELDS = ["nhlPos", "nhlTeam", "gshlTeamIds"] as const;
+
+const text = (value: unknown) =>
+  typeof value === "string" || typeof value === "number"
+    ? String(value).trim()
+    : "";
+const toNumber = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = typeof value === "string" ? parseFloat(value) : Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+const hasValue = (value: unknown) =>
+  !(value === null || value === undefined || text(value) === "");
+
+function formatNumber(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "";
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric.toString() : "";
+}
+
+function formatFixed(value: unknown, decimals: number): string {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) return "";
+  const factor = 10 ** decimals;
+  return (Math.round(numeric * factor) / factor).toFixed(decimals);
+}
+
+function normalizePrecision(row: Row): Row {
+  for (const [field, value] of Object.entries(row)) {
+    if (value === null || value === undefined || value === "") {
+      row[field] = value ?? "";
+    } else if (field === "GAA" || field === "SVP") {
+      row[field] = formatFixed(value, 5);
+    } else if (field === "TOI") {
+      row[field] = formatFixed(value, 2);
+    } else if (/rating$/i.test(field)) {
+      row[field] = formatFixed(value, 4);
+    } else if (INTEGER_FIELDS.has(field)) {
+      const numeric = Number(value);
+      row[field] = Number.isFinite(numeric) ? String(Math.round(numeric)) : "";
+    }
+  }
+  return row;
+}
+
+function computeGAA(goalsAgainst: unknown, timeOnIce: unknown): string {
+  const toi = toNumber(timeOnIce);
+  return toi > 0 ? ((toNumber(goalsAgainst) / toi) * 60).toFixed(5) : "";
+}
+
+function computeSVP(saves: unknown, shotsAgainst: unknown): string {
+  const sa = toNumber(shotsAgainst);
+  return sa > 0 ? (toNumber(saves) / sa).toFixed(5) : "";
+}
+
+function listTokens(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(listTokens);
+  const raw = text(value);
+  if (!raw) return [];
+  if (raw.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (Array.isArray(parsed)) return parsed.flatMap(listTokens);
+    } catch {
+      // Plain comma-separated values fall through.
+    }
+  }
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+function uniqueCsv(values: unknown[]): string {
+  return Array.from(new Set(values.flatMap(listTokens))).join(",");
+}
+
+function compareText(left: unknown, right: unknown): number {
+  return text(left).localeCompare(text(right), undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+}
+
+function sortBy(rows: Row[], fields: string[]): Row[] {
+  return rows.slice().sort((left, right) => {
+    for (const field of fields) {
+      const order = compareText(left[field], right[field]);
+      if (order) return order;
+    }
+    return 0;
+  });
+}
+
+export function previousDateKey(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  if (Number.isNaN(date.getTime())) return "";
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+function datesInRange(startDate: string, endDate: string): string[] {
+  if (!startDate || !endDate || startDate > endDate) return [];
+  const dates: string[] = [];
+  const cursor = new Date(`${startDate}T00:00:00.000Z`);
+  const end = new Date(`${endDate}T00:00:00.000Z`).getTime();
+  while (cursor.getTime() <= end) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+function normalizeSeasonType(value: unknown): string | null {
+  const seasonType = text(value);
+  if (!seasonType) return "RS";
+  if (seasonType === "LT") return "PO";
+  return seasonType === "RS" || seasonType === "PO" ? seasonType : null;
+}
+
+function isStarter(row: Row): boolean {
+  if (text(row.GP) !== "1") return false;
+  const dailyPos = text(row.dailyPos).toUpperCase();
+  if (STARTING_DAILY_POSITIONS.has(dailyPos)) return true;
+  if (NON_STARTING_DAILY_POSITIONS.has(dailyPos) || dailyPos) return false;
+  return text(row.GS) === "1";
+}
+
+function emptyTotals(): Record<string, number> {
+  return Object.fromEntries(TEAM_STAT_FIELDS.map((field) => [field, 0]));
+}
+
+function addFields(
+  target: Record<string, number>,
+  source: Row,
+  fields: readonly string[],
+) {
+  for (const field of fields) {
+    target[field] = (target[field] ?? 0) + toNumber(source[field]);
+  }
+}
+
+function activeFields(
+  fields: readonly string[],
+  config: AggregationFieldConfig,
+): string[] {
+  return fields.filter((field) => config.activeStarterFields.has(field));
+}
+
+/** Adds a player-day's counting stats to a week or team bucket. */
+function addPlayerDay(
+  totals: Record<string, number>,
+  playerDay: Row,
+  isGoalie: boolean,
+  config: AggregationFieldConfig,
+): boolean {
+  addFields(totals, playerDay, TEAM_ALWAYS_SUM_FIELDS);
+  if (!isStarter(playerDay)) return false;
+  addFields(
+    totals,
+    playerDay,
+    activeFields(
+      isGoalie ? TEAM_GOALIE_STARTER_FIELDS : TEAM_SKATER_STARTER_FIELDS,
+      config,
+    ),
+  );
+  return true;
+}
+
+function normalizeCategory(category: unknown): string | null {
+  const normalized = text(category).toUpperCase();
+  if (!normalized) return null;
+  const alias = SEASON_CATEGORY_ALIASES.get(normalized) ?? normalized;
+  return SUPPORTED_CATEGORIES.has(alias) ? alias : null;
+}
+
+/**
+ * Resolves which starter columns a season scores. GA, SV and SA are always
+ * kept because goalie qualification and the rate stats depend on them.
+ */
+export function buildAggregationFieldConfig(
+  season: Row,
+): AggregationFieldConfig {
+  const configured = listTokens(season.categories)
+    .map(normalizeCategory)
+    .filter((category): category is string => category !== null);
+  const activeCategories = new Set(
+    configured.length ? configured : FALLBACK_SEASON_CATEGORIES,
+  );
+  const activeStarterFields = new Set(["GA", "SV", "SA"]);
+  for (const category of activeCategories) {
+    if (category === "GAA") {
+      activeStarterFields.add("GA");
+      activeStarterFields.add("TOI");
+    } else if (category === "SVP") {
+      activeStarterFields.add("SV");
+      activeStarterFields.add("SA");
+    } else {
+      activeStarterFields.add(category);
+    }
+  }
+  const singleGoalieStart = [season._id, season.id, season.legacyId].some(
+    (value) => SINGLE_GOALIE_START_SEASON_IDS.has(text(value)),
+  );
+  return {
+    activeCategories,
+    activeStarterFields,
+    goalieStartMinimum: singleGoalieStart ? 1 : 2,
+  };
+}
+
+/** Maps week ids to RS/PO, folding the losers tournament into playoffs. */
+export function buildWeekTypeMap(
+  weeks: Array<{ id: string; weekType: unknown }>,
+): Map<string, string> {
+  const weekTypes = new Map<string, string>();
+  for (const week of weeks) {
+    const seasonType = normalizeSeasonType(week.weekType);
+    if (week.id && seasonType) weekTypes.set(week.id, seasonType);
+  }
+  return weekTypes;
+}
+
+/** Team days only exist for weeks that have started. */
+export function isAggregationWeekStarted(
+  week: AggregationWeek,
+  today: string,
+): boolean {
+  const complete = Boolean(week.endDate && week.endDate < today);
+  const active =
+    week.isActive === true ||
+    Boolean(
+      week.startDate &&
+        week.endDate &&
+        today >= week.startDate &&
+        today <= week.endDate,
+    );
+  return complete || active;
+}
+
+/**
+ * Merges duplicate player-days (same player and date) by summing their stats,
+ * then recomputes the derived GS, GAA and SVP columns.
+ */
+export function canonicalizePlayerDays(playerDays: Row[]): Row[] {
+  const byKey = new Map<string, Row>();
+  for (const playerDay of playerDays) {
+    const playerId = text(playerDay.playerId);
+    const date = text(playerDay.date).slice(0, 10);
+    if (!playerId || !date) continue;
+    const key = `${playerId}|${date}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      const canonical: Row = {
+        seasonId: text(playerDay.seasonId),
+        gshlTeamId: text(playerDay.gshlTeamId),
+        playerId,
+        weekId: text(playerDay.weekId),
+        date,
+        nhlPos: uniqueCsv([playerDay.nhlPos]),
+        posGroup: text(playerDay.posGroup),
+        nhlTeam: uniqueCsv([playerDay.nhlTeam]),
+        dailyPos: text(playerDay.dailyPos),
+        bestPos: text(playerDay.bestPos),
+        fullPos: text(playerDay.fullPos),
+      };
+      for (const field of TEAM_STAT_FIELDS) {
+        canonical[field] = hasValue(playerDay[field])
+          ? formatNumber(playerDay[field])
+          : "";
+      }
+      byKey.set(key, canonical);
+      continue;
+    }
+    for (const field of [
+      "seasonId",
+      "gshlTeamId",
+      "weekId",
+      "posGroup",
+      "dailyPos",
+      "bestPos",
+      "fullPos",
+    ]) {
+      existing[field] = text(existing[field]) || text(playerDay[field]);
+    }
+    existing.nhlPos = uniqueCsv([existing.nhlPos, playerDay.nhlPos]);
+    existing.nhlTeam = uniqueCsv([existing.nhlTeam, playerDay.nhlTeam]);
+    for (const field of TEAM_STAT_FIELDS) {
+      existing[field] =
+        hasValue(existing[field]) || hasValue(playerDay[field])
+          ? formatNumber(toNumber(existing[field]) + toNumber(playerDay[field]))
+          : "";
+    }
+  }
+
+  const rows = Array.from(byKey.values());
+  for (const row of rows) {
+    const isGoalie = text(row.posGroup) === "G";
+    row.GS = isStarter(row) ? "1" : "";
+    row.GAA = isGoalie ? computeGAA(row.GA, row.TOI) : "";
+    row.SVP = isGoalie ? computeSVP(row.SV, row.SA) : "";
+    normalizePrecision(row);
+  }
+  return sortBy(rows, ["weekId", "gshlTeamId", "date", "playerId"]);
+}
+
+/**
+ * Derives the ADD (new to the roster since the previous league day), MS
+ * (played on the bench) and BS (benched a better option) flags. Context rows
+ * supply the day before the first target date.
+ */
+export function applyPlayerDayFlags(targets: Row[], context: Row[]): void {
+  const presence = new Set<string>();
+  const datesWithRows = new Set<string>();
+  for (const row of [...context, ...targets]) {
+    const date = text(row.date).slice(0, 10);
+    if (!text(row.playerId) || !text(row.gshlTeamId) || !date) continue;
+    presence.add(`${text(row.playerId)}|${text(row.gshlTeamId)}|${date}`);
+    datesWithRows.add(date);
+  }
+
+  for (const row of targets) {
+    const previous = previousDateKey(text(row.date));
+    row.ADD =
+      previous &&
+      datesWithRows.has(previous) &&
+      !presence.has(`${text(row.playerId)}|${text(row.gshlTeamId)}|${previous}`)
+        ? "1"
+        : "";
+    const played = text(row.GP) === "1";
+    const isGoalie = text(row.posGroup).toUpperCase() === "G";
+    const dailyPos = text(row.dailyPos).toUpperCase();
+    const fullPos = text(row.fullPos).toUpperCase();
+    const bestPos = text(row.bestPos).toUpperCase();
+    row.MS =
+      played &&
+      !isGoalie &&
+      NON_STARTING_DAILY_POSITIONS.has(dailyPos) &&
+      NON_GOALIE_STARTING_FULL_POSITIONS.has(fullPos)
+        ? "1"
+        : "";
+    row.BS =
+      played && !isGoalie && fullPos === "BN" && !!bestPos && bestPos !== "BN"
+        ? "1"
+        : "";
+  }
+}
+
+/**
+ * Rolls canonical player-days into one row per week, team and player. Only
+ * starters count toward the scoring columns; the other position group's
+ * columns are blank.
+ */
+export function aggregatePlayerWeeks(
+  playerDays: Row[],
+  options: {
+    seasonId: string;
+    weekTypeMap: ReadonlyMap<string, string>;
+    config: AggregationFieldConfig;
+  },
+): Row[] {
+  const buckets = new Map<
+    string,
+    {
+      row: Row;
+      nhlPos: string[];
+      nhlTeam: string[];
+      days: number;
+      totals: Record<string, number>;
+    }
+  >();
+  for (const playerDay of playerDays) {
+    const weekId = text(playerDay.weekId);
+    const playerId = text(playerDay.playerId);
+    const gshlTeamId = text(playerDay.gshlTeamId);
+    if (!options.weekTypeMap.has(weekId) || !playerId || !gshlTeamId) continue;
+    const key = `${weekId}|${gshlTeamId}|${playerId}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        row: {
+          seasonId: options.seasonId,
+          gshlTeamId,
+          playerId,
+          weekId,
+          posGroup: text(playerDay.posGroup),
+        },
+        nhlPos: [],
+        nhlTeam: [],
+        days: 0,
+        totals: emptyTotals(),
+      };
+      buckets.set(key, bucket);
+    }
+    bucket.days += 1;
+    bucket.row.posGroup ||= text(playerDay.posGroup);
+    bucket.nhlPos.push(...listTokens(playerDay.nhlPos));
+    bucket.nhlTeam.push(...listTokens(playerDay.nhlTeam));
+    addPlayerDay(
+      bucket.totals,
+      playerDay,
+      text(bucket.row.posGroup) === "G",
+      options.config,
+    );
+  }
+
+  return Array.from(buckets.values()).map((bucket) => {
+    const isGoalie = bucket.row.posGroup === "G";
+    const row: Row = {
+      ...bucket.row,
+      nhlPos: uniqueCsv(bucket.nhlPos),
+      nhlTeam: uniqueCsv(bucket.nhlTeam),
+      days: formatNumber(bucket.days),
+    };
+    for (const field of TEAM_ALWAYS_SUM_FIELDS) {
+      row[field] = formatNumber(bucket.totals[field]);
+    }
+    const [kept, blanked] = isGoalie
+      ? [TEAM_GOALIE_STARTER_FIELDS, TEAM_SKATER_STARTER_FIELDS]
+      : [TEAM_SKATER_STARTER_FIELDS, TEAM_GOALIE_STARTER_FIELDS];
+    for (const field of kept) {
+      row[field] = options.config.activeStarterFields.has(field)
+        ? formatNumber(bucket.totals[field])
+        : "";
+    }
+    for (const field of blanked) row[field] = "";
+    row.GAA =
+      isGoalie && options.config.activeCategories.has("GAA")
+        ? computeGAA(row.GA, row.TOI)
+        : "";
+    row.SVP =
+      isGoalie && options.config.activeCategories.has("SVP")
+        ? computeSVP(row.SV, row.SA)
+        : "";
+    return normalizePrecision(row);
+  });
+}
+
+/** Formats team totals, blanking goalie columns the team did not qualify for. */
+function buildTeamStatColumns(
+  totals: Record<string, number>,
+  config: AggregationFieldConfig,
+  goalieQualified: boolean,
+): Row {
+  const row: Row = {};
+  for (const field of TEAM_ALWAYS_SUM_FIELDS) {
+    row[field] = formatNumber(totals[field]);
+  }
+  for (const field of TEAM_SKATER_STARTER_FIELDS) {
+    row[field] = config.activeStarterFields.has(field)
+      ? formatNumber(totals[field])
+      : "";
+  }
+  for (const field of TEAM_GOALIE_STARTER_FIELDS) {
+    row[field] =
+      goalieQualified && config.activeStarterFields.has(field)
+        ? formatNumber(totals[field])
+        : "";
+  }
+  row.GAA =
+    goalieQualified && config.activeCategories.has("GAA")
+      ? computeGAA(totals.GA, totals.TOI)
+      : "";
+  row.SVP =
+    goalieQualified && config.activeCategories.has("SVP")
+      ? computeSVP(totals.SV, totals.SA)
+      : "";
+  return row;
+}
+
+/**
+ * Builds one week's team-days (every date for every team, even empty ones)
+ * and team-week rows. Weekly goalie totals come from the goalie player-weeks
+ * so team GAA/SVP cannot drift from them, and are blank unless the team met
+ * the season's goalie start minimum.
+ */
+export function aggregateTeamWeek(input: {
+  seasonId: string;
+  week: AggregationWeek;
+  teamIds: string[];
+  playerDays: Row[];
+  playerWeeks: Row[];
+  config: AggregationFieldConfig;
+}): { teamDays: Row[]; teamWeeks: Row[] } {
+  const { seasonId, week, config } = input;
+  const days = new Map<
+    string,
+    {
+      gshlTeamId: string;
+      date: string;
+      goalieStarts: number;
+      totals: Record<string, number>;
+    }
+  >();
+  const dayBucket = (gshlTeamId: string, date: string) => {
+    const key = `${gshlTeamId}|${date}`;
+    let bucket = days.get(key);
+    if (!bucket) {
+      bucket = { gshlTeamId, date, goalieStarts: 0, totals: emptyTotals() };
+      days.set(key, bucket);
+    }
+    return bucket;
+  };
+  for (const gshlTeamId of input.teamIds) {
+    for (const date of datesInRange(week.startDate, week.endDate)) {
+      dayBucket(gshlTeamId, date);
+    }
+  }
+  for (const playerDay of input.playerDays) {
+    const gshlTeamId = text(playerDay.gshlTeamId);
+    const date = text(playerDay.date);
+    if (!gshlTeamId || !date || text(playerDay.weekId) !== week.id) continue;
+    const bucket = dayBucket(gshlTeamId, date);
+    const isGoalie = text(playerDay.posGroup) === "G";
+    const started = addPlayerDay(bucket.totals, playerDay, isGoalie, config);
+    if (started && isGoalie) bucket.goalieStarts += toNumber(playerDay.GS);
+  }
+
+  const weeks = new Map<
+    string,
+    { days: number; goalieStarts: number; totals: Record<string, number> }
+  >();
+  const teamDays: Row[] = [];
+  for (const day of days.values()) {
+    teamDays.push(
+      normalizePrecision({
+        seasonId,
+        gshlTeamId: day.gshlTeamId,
+        weekId: week.id,
+        date: day.date,
+        ...buildTeamStatColumns(day.totals, config, true),
+      }),
+    );
+    let bucket = weeks.get(day.gshlTeamId);
+    if (!bucket) {
+      bucket = { days: 0, goalieStarts: 0, totals: emptyTotals() };
+      weeks.set(day.gshlTeamId, bucket);
+    }
+    bucket.days += 1;
+    bucket.goalieStarts += day.goalieStarts;
+    for (const field of TEAM_STAT_FIELDS) {
+      bucket.totals[field]! += day.totals[field]!;
+    }
+  }
+
+  const goalieWeeks = new Map<string, Record<string, number>>();
+  for (const playerWeek of input.playerWeeks) {
+    if (text(playerWeek.posGroup) !== "G") continue;
+    if (text(playerWeek.weekId) !== week.id) continue;
+    const gshlTeamId = text(playerWeek.gshlTeamId);
+    const totals = goalieWeeks.get(gshlTeamId) ?? { goalieStarts: 0 };
+    totals.goalieStarts! += toNumber(playerWeek.GS);
+    addFields(totals, playerWeek, TEAM_GOALIE_STARTER_FIELDS);
+    goalieWeeks.set(gshlTeamId, totals);
+  }
+  for (const [gshlTeamId, totals] of goalieWeeks) {
+    const bucket = weeks.get(gshlTeamId);
+    if (!bucket) continue;
+    bucket.goalieStarts = totals.goalieStarts!;
+    for (const field of TEAM_GOALIE_STARTER_FIELDS) {
+      bucket.totals[field] = totals[field] ?? 0;
+    }
+  }
+
+  const teamWeeks = Array.from(weeks.entries()).map(([gshlTeamId, bucket]) =>
+    normalizePrecision({
+      seasonId,
+      gshlTeamId,
+      weekId: week.id,
+      days: formatNumber(bucket.days),
+      ...buildTeamStatColumns(
+        bucket.totals,
+        config,
+        bucket.goalieStarts >= config.goalieStartMinimum,
+      ),
+    }),
+  );
+  return {
+    teamDays: sortBy(teamDays, ["gshlTeamId", "date"]),
+    teamWeeks: sortBy(teamWeeks, ["gshlTeamId"]),
+  };
+}
+
+function buildPlayerAggregate(
+  rows: Row[],
+  identity: Row,
+  config: AggregationFieldConfig,
+): Row {
+  const isGoalie = text(rows[0]?.posGroup) === "G";
+  const sum = (field: string) =>
+    rows.reduce((total, row) => total + toNumber(row[field]), 0);
+  const aggregate: Row = {
+    ...identity,
+    posGroup: text(rows[0]?.posGroup),
+    nhlPos: uniqueCsv(rows.map((row) => row.nhlPos)),
+    nhlTeam: uniqueCsv(rows.map((row) => row.nhlTeam)),
+    days: formatNumber(sum("days")),
+  };
+  const blanked = new Set<string>(
+    isGoalie ? TEAM_SKATER_STARTER_FIELDS : TEAM_GOALIE_STARTER_FIELDS,
+  );
+  for (const field of TEAM_STAT_FIELDS) {
+    aggregate[field] =
+      (TEAM_ALWAYS_SUM_FIELDS as readonly string[]).includes(field) ||
+      (!blanked.has(field) && config.activeStarterFields.has(field))
+        ? formatNumber(sum(field))
+        : "";
+  }
+  aggregate.GAA =
+    isGoalie && config.activeCategories.has("GAA")
+      ? computeGAA(aggregate.GA, aggregate.TOI)
+      : "";
+  aggregate.SVP =
+    isGoalie && config.activeCategories.has("SVP")
+      ? computeSVP(aggregate.SV, aggregate.SA)
+      : "";
+  return normalizePrecision(aggregate);
+}
+
+function groupPlayerWeeks(
+  playerWeeks: Row[],
+  seasonTypeOf: (row: Row) => string | null,
+) {
+  const splits = new Map<string, Row[]>();
+  const totals = new Map<string, Row[]>();
+  for (const row of playerWeeks) {
+    const playerId = text(row.playerId);
+    const gshlTeamId = text(row.gshlTeamId);
+    const seasonType = seasonTypeOf(row);
+    if (!playerId || !gshlTeamId || !seasonType) continue;
+    const splitKey = `${playerId}|${gshlTeamId}|${seasonType}`;
+    const totalKey = `${playerId}|${seasonType}`;
+    splits.set(splitKey, [...(splits.get(splitKey) ?? []), row]);
+    totals.set(totalKey, [...(totals.get(totalKey) ?? []), row]);
+  }
+  return { splits, totals };
+}
+
+/** Rolls a season's player-weeks into per-team splits and season totals. */
+export function aggregatePlayerSplitsAndTotals(
+  playerWeeks: Row[],
+  options: {
+    seasonId: string;
+    weekTypeMap: ReadonlyMap<string, string>;
+    config: AggregationFieldConfig;
+  },
+): { splits: Row[]; totals: Row[] } {
+  const groups = groupPlayerWeeks(
+    sortBy(playerWeeks, ["weekId", "gshlTeamId", "playerId"]),
+    (row) => options.weekTypeMap.get(text(row.weekId)) ?? null,
+  );
+  return {
+    splits: Array.from(groups.splits.entries()).map(([key, rows]) => {
+      const [playerId, gshlTeamId, seasonType] = key.split("|");
+      return buildPlayerAggregate(
+        rows,
+        { playerId, seasonId: options.seasonId, seasonType, gshlTeamId },
+        options.config,
+      );
+    }),
+    totals: Array.from(groups.totals.entries()).map(([key, rows]) => {
+      const [playerId, seasonType] = key.split("|");
+      return buildPlayerAggregate(
+        rows,
+        {
+          playerId,
+          seasonId: options.seasonId,
+          seasonType,
+          gshlTeamIds: uniqueCsv(rows.map((row) => row.gshlTeamId)),
+        },
+        options.config,
+      );
+    }),
+  };
+}
+
+/**
+ * Rolls player-weeks from every season into career splits and totals. Weeks
+ * missing from the map fall back to the row's own season type.
+ */
+export function aggregatePlayerCareers(
+  playerWeeks: Row[],
+  options: {
+    weekTypeMap: ReadonlyMap<string, string>;
+    config: AggregationFieldConfig;
+  },
+): { careerSplits: Row[]; careerTotals: Row[] } {
+  const deduped = new Map<string, Row>();
+  for (const row of playerWeeks) {
+    deduped.set(aggregateRowKey("playerWeekStatLines", row), row);
+  }
+  const groups = groupPlayerWeeks(
+    sortBy(Array.from(deduped.values()), ["weekId", "gshlTeamId", "playerId"]),
+    (row) =>
+      normalizeSeasonType(
+        options.weekTypeMap.get(text(row.weekId)) ?? row.seasonType,
+      ),
+  );
+  return {
+    careerSplits: Array.from(groups.splits.entries()).map(([key, rows]) => {
+      const [playerId, gshlTeamId, seasonType] = key.split("|");
+      return buildPlayerAggregate(
+        rows,
+        { playerId, seasonType, gshlTeamId },
+        options.config,
+      );
+    }),
+    careerTotals: Array.from(groups.totals.entries()).map(([key, rows]) => {
+      const [playerId, seasonType] = key.split("|");
+      return buildPlayerAggregate(
+        rows,
+        {
+          playerId,
+          seasonType,
+          gshlTeamIds: uniqueCsv(rows.map((row) => row.gshlTeamId)),
+        },
+        options.config,
+      );
+    }),
+  };
+}
+
+/**
+ * Counts player splits by `gshlTeamId|seasonType`. Counts from separate
+ * pages of players add up, since each split belongs to one player.
+ */
+export function countPlayersUsed(playerSplits: Row[]): Record<string, number> {
+  const playersUsed: Record<string, number> = {};
+  for (const split of playerSplits) {
+    const key = `${text(split.gshlTeamId)}|${text(split.seasonType)}`;
+    playersUsed[key] = (playersUsed[key] ?? 0) + 1;
+  }
+  return playersUsed;
+}
+
+/**
+ * Rolls team-weeks into RS/PO season rows. Weeks below the goalie start
+ * minimum store blank goalie columns, so they add nothing to the goalie
+ * totals. playersUsed comes from `countPlayersUsed` over the season's splits.
+ */
+export function aggregateTeamSeasons(
+  teamWeeks: Row[],
+  playersUsed: Readonly<Record<string, number>>,
+  options: {
+    seasonId: string;
+    weekTypeMap: ReadonlyMap<string, string>;
+    config: AggregationFieldConfig;
+  },
+): Row[] {
+  const buckets = new Map<
+    string,
+    {
+      gshlTeamId: string;
+      seasonType: string;
+      days: number;
+      totals: Record<string, number>;
+    }
+  >();
+  for (const week of sortBy(teamWeeks, ["weekId", "gshlTeamId"])) {
+    const seasonType = options.weekTypeMap.get(text(week.weekId));
+    const gshlTeamId = text(week.gshlTeamId);
+    if (!seasonType || !gshlTeamId) continue;
+    const key = `${gshlTeamId}|${seasonType}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { gshlTeamId, seasonType, days: 0, totals: emptyTotals() };
+      buckets.set(key, bucket);
+    }
+    bucket.days += toNumber(week.days);
+    addFields(bucket.totals, week, TEAM_STAT_FIELDS);
+  }
+
+  return sortBy(
+    Array.from(buckets.entries()).map(([key, bucket]) =>
+      normalizePrecision({
+        seasonId: options.seasonId,
+        seasonType: bucket.seasonType,
+        gshlTeamId: bucket.gshlTeamId,
+        days: formatNumber(bucket.days),
+        ...buildTeamStatColumns(bucket.totals, options.config, true),
+        playersUsed: formatNumber(playersUsed[key] ?? 0),
+      }),
+    ),
+    ["seasonType", "gshlTeamId"],
+  );
+}
+
+export function aggregateRowKey(table: AggregateTable, row: Row): string {
+  return STAT_AGGREGATE_KEYS[table].map((field) => text(row[field])).join("|");
+}
+
+/**
+ * Shapes a generated row the way it is stored: list columns become arrays,
+ * career rows drop seasonId and team rows keep only their managed columns.
+ * Rating is left to the rating rebuild jobs.
+ */
+export function toStoredAggregateRow(table: AggregateTable, row: Row): Row {
+  const managed = TEAM_MANAGED_FIELDS[table];
+  const stored: Row = {};
+  for (const [field, value] of Object.entries(row)) {
+    if (field === "Rating" || (managed && !managed.has(field))) continue;
+    stored[field] = value;
+  }
+  if (CAREER_TABLES.has(table)) delete stored.seasonId;
+  for (const field of LIST_FIELDS) {
+    if (typeof stored[field] === "string")
+      stored[field] = listTokens(stored[field]);
+  }
+  return stored;
+}
+
+function comparable(value: unknown) {
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Compares generated rows with the stored rows for the same scope. Stored
+ * rows whose key was not generated, and duplicate keys, are deleted.
+ */
+export function diffAggregateRows(
+  table: AggregateTable,
+  existingRows: Array<Row & { _id: unknown }>,
+  generatedRows: Row[],
+): AggregateRowsDiff {
+  const generatedByKey = new Map<string, Row>();
+  for (const row of generatedRows) {
+    const stored = toStoredAggregateRow(table, row);
+    generatedByKey.set(aggregateRowKey(table, stored), stored);
+  }
+  const existingByKey = new Map<string, Row & { _id: unknown }>();
+  const diff: AggregateRowsDiff = {
+    inserts: [],
+    updates: [],
+    deletes: [],
+    unchanged: 0,
+  };
+  for (const row of existingRows) {
+    const key = aggregateRowKey(table, row);
+    if (!generatedByKey.has(key) || existingByKey.has(key)) {
+      diff.deletes.push(String(row._id));
+    } else {
+      existingByKey.set(key, row);
+    }
+  }
+  for (const [key, row] of generatedByKey) {
+    const existing = existingByKey.get(key);
+    if (!existing) {
+      diff.inserts.push(row);
+      continue;
+    }
+    const changes = Object.entries(row)
+      .filter(
+        ([field, next]) => comparable(existing[field]) !== comparable(next),
+      )
+      .map(([field, next]) => ({ field, previous: existing[field], next }));
+    if (changes.length) {
+      diff.updates.push({ id: String(existing._id), row, changes });
+    } else {
+      diff.unchanged += 1;
+    }
+  }
+  return diff;
+}
+
+/** Folds one scope's diff into the running per-table report. */
+export function mergeAggregateTableDiff(
+  summary: AggregateTableDiff | undefined,
+  table: AggregateTable,
+  diff: AggregateRowsDiff,
+): AggregateTableDiff {
+  const next: AggregateTableDiff = {
+    generated: 0,
+    inserted: 0,
+    updated: 0,
+    deleted: 0,
+    unchanged: 0,
+    ...summary,
+    changedColumns: { ...summary?.changedColumns },
+    samples: [...(summary?.samples ?? [])],
+  };
+  next.generated += diff.inserts.length + diff.updates.length + diff.unchanged;
+  next.inserted += diff.inserts.length;
+  next.updated += diff.updates.length;
+  next.deleted += diff.deletes.length;
+  next.unchanged += diff.unchanged;
+  for (const update of diff.updates) {
+    for (const change of update.changes) {
+      next.changedColumns[change.field] =
+        (next.changedColumns[change.field] ?? 0) + 1;
+    }
+    if (next.samples.length < DIFF_SAMPLE_LIMIT) {
+      next.samples.push({
+        key: aggregateRowKey(table, update.row),
+        changes: update.changes,
+      });
+    }
+  }
+  return next;
+}
@@ -19,6 +19,7 @@ export const UTC_TIMESTAMP_TABLE_FIELDS = {
     "endDate",
     "signingEndDate",
     "draftStartAt",
+    "tradeDeadlineDate",
     "createdAt",
     "updatedAt",
   ],
@@ -69,7 +70,14 @@ export const UTC_TIMESTAMP_TABLE_FIELDS = {
   ],
   weeklyEditionRevisions: ["createdAt"],
   ufaOfferGroups: ["deadlineAt", "createdAt", "resolvedAt", "updatedAt"],
-  ufaOffers: ["submittedAt", "updatedAt"],
+  ufaOffers: ["submittedAt", "withdrawnAt", "updatedAt"],
+  trades: ["executedAt", "createdAt", "updatedAt"],
+  signingPeriods: ["startAt", "endAt", "createdAt", "updatedAt"],
+  playerDayEligibility: ["computedAt"],
+  waivers: ["droppedAt", "clearsAt", "processedAt", "createdAt", "updatedAt"],
+  waiverClaims: ["createdAt", "updatedAt"],
+  waiverPriorities: ["updatedAt"],
+  draftQueues: ["updatedAt"],
   jobRuns: ["createdAt", "startedAt", "heartbeatAt", "finishedAt"],
   jobEvents: ["createdAt"],
   jobSchedules: ["nextRunAt", "lastRunAt", "createdAt", "updatedAt"],
@@ -0,0 +1,62 @@
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { TradeDeadlineStatus } from "../../src/lib/types";
+import { getTradeDeadlineStatus } from "../../src/lib/utils/domain/season";
+import { utcTimestampToDateKey } from "./timestamps";
+
+export function tradeDeadlineStatusForSeason(
+  season: Doc<"seasons">,
+  weeks: Doc<"weeks">[],
+  now: number,
+): TradeDeadlineStatus {
+  return getTradeDeadlineStatus(
+    {
+      id: String(season._id),
+      endDate: utcTimestampToDateKey(season.endDate) ?? "",
+      tradeDeadlineDate: utcTimestampToDateKey(season.tradeDeadlineDate),
+    },
+    weeks.map((week) => ({
+      isPlayoffs: week.isPlayoffs,
+      endDate: utcTimestampToDateKey(week.endDate) ?? "",
+    })),
+    new Date(now),
+  );
+}
+
+export async function loadTradeDeadlineStatus(
+  ctx: QueryCtx | MutationCtx,
+  season: Doc<"seasons">,
+  now: number,
+): Promise<TradeDeadlineStatus> {
+  const weeks = await ctx.db
+    .query("weeks")
+    .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+    .collect();
+  return tradeDeadlineStatusForSeason(season, weeks, now);
+}
+
+/** Rejects roster moves between owners once the rule 3.2 deadline passes. */
+export async function requireTradeWindowOpen(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  now: number,
+): Promise<TradeDeadlineStatus> {
+  const status = await loadTradeDeadlineStatus(ctx, season, now);
+  if (status.isClosed) {
+    throw new Error(
+      `The ${season.name} trade deadline passed on ${status.deadline}. Trades reopen after the season ends.`,
+    );
+  }
+  return status;
+}
+
+/** Applies the trade deadline of the active season, when one exists. */
+export async function requireActiveSeasonTradeWindowOpen(
+  ctx: MutationCtx,
+  now: number,
+): Promise<TradeDeadlineStatus | null> {
+  const season = (await ctx.db.query("seasons").collect()).find(
+    (candidate) => candidate.isActive,
+  );
+  return season ? requireTradeWindowOpen(ctx, season, now) : null;
+}
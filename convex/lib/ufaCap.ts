@@ -0,0 +1,26 @@
+import type { Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Season } from "../../src/lib/types";
+import { getUfaReservedCapBySeasonId } from "../../src/lib/utils/features/ufa";
+
+/** Loads the cap an owner's pending UFA offers reserve, by covered season. */
+export async function loadUfaReservedCap(
+  ctx: QueryCtx | MutationCtx,
+  ownerId: Id<"owners">,
+  seasons: Season[],
+): Promise<Map<string, number>> {
+  const pendingOffers = await ctx.db
+    .query("ufaOffers")
+    .withIndex("by_owner_status", (range) =>
+      range.eq("ownerId", ownerId).eq("status", "pending"),
+    )
+    .collect();
+  return getUfaReservedCapBySeasonId(
+    pendingOffers.map((offer) => ({
+      seasonId: String(offer.seasonId),
+      contractLength: offer.contractLength,
+      salary: offer.salary,
+    })),
+    seasons,
+  );
+}
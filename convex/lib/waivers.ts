@@ -0,0 +1,175 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import {
+  getWaiverClearsAt,
+  seedWaiverPriority,
+} from "../../src/lib/utils/features/waivers";
+import { rebuildTeamLineup } from "./lineups";
+
+type Ctx = QueryCtx | MutationCtx;
+
+/** Finds the team an owner's active franchise fields in a season. */
+export async function loadOwnerSeasonTeam(
+  ctx: Ctx,
+  ownerId: Id<"owners">,
+  seasonId: Id<"seasons">,
+): Promise<Doc<"teams"> | null> {
+  const franchise = await ctx.db
+    .query("franchises")
+    .withIndex("by_ownerId", (q) => q.eq("ownerId", ownerId))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .first();
+  if (!franchise) return null;
+  return ctx.db
+    .query("teams")
+    .withIndex("by_seasonId_franchiseId", (q) =>
+      q.eq("seasonId", seasonId).eq("franchiseId", franchise._id),
+    )
+    .first();
+}
+
+/**
+ * Takes a player off an owner's roster and places him on rule 3.1 waivers
+ * until the two-day window ends.
+ */
+export async function releaseToWaivers(
+  ctx: MutationCtx,
+  options: {
+    player: Doc<"players">;
+    ownerId: Id<"owners">;
+    season: Doc<"seasons">;
+    now: number;
+  },
+): Promise<Id<"waivers"> | null> {
+  const { player, ownerId, season, now } = options;
+  await ctx.db.patch(player._id, {
+    ownerId: null,
+    gshlTeamId: undefined,
+    lineupPos: null,
+    updatedAt: now,
+  });
+  const team = await loadOwnerSeasonTeam(ctx, ownerId, season._id);
+  if (team) await rebuildTeamLineup(ctx, ownerId, team._id, now);
+
+  const clearsAt = getWaiverClearsAt(now);
+  if (clearsAt === null) return null;
+  return ctx.db.insert("waivers", {
+    seasonId: season._id,
+    playerId: player._id,
+    droppedByOwnerId: ownerId,
+    droppedAt: now,
+    clearsAt,
+    status: "active",
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/** Reads a season's rolling waiver list, best priority first. */
+export async function loadWaiverPriority(
+  ctx: Ctx,
+  seasonId: Id<"seasons">,
+): Promise<Id<"owners">[]> {
+  const rows = await ctx.db
+    .query("waiverPriorities")
+    .withIndex("by_seasonId_rank", (q) => q.eq("seasonId", seasonId))
+    .collect();
+  return rows.map((row) => row.ownerId);
+}
+
+/**
+ * Returns the season's rolling waiver list, seeding it in reverse first-round
+ * draft order the first time it is needed. Active owners missing from the
+ * stored list join at the bottom.
+ */
+export async function ensureWaiverPriority(
+  ctx: MutationCtx,
+  seasonId: Id<"seasons">,
+  now: number,
+): Promise<Id<"owners">[]> {
+  const [stored, franchises] = await Promise.all([
+    loadWaiverPriority(ctx, seasonId),
+    ctx.db.query("franchises").collect(),
+  ]);
+  const activeOwnerIds = franchises
+    .filter((franchise) => franchise.isActive)
+    .sort((left, right) => left.name.localeCompare(right.name))
+    .map((franchise) => String(franchise.ownerId));
+  let priority: string[];
+  if (stored.length) {
+    priority = [
+      ...stored.map(String),
+      ...activeOwnerIds.filter(
+        (ownerId) => !stored.some((existing) => String(existing) === ownerId),
+      ),
+    ];
+  } else {
+    const [picks, teams] = await Promise.all([
+      ctx.db
+        .query("draftPicks")
+        .withIndex("by_seasonId_round_pick", (q) => q.eq("seasonId", seasonId))
+        .collect(),
+      ctx.db
+        .query("teams")
+        .withIndex("by_seasonId", (q) => q.eq("seasonId", seasonId))
+        .collect(),
+    ]);
+    const franchiseOwner = new Map(
+      franchises.map((franchise) => [
+        String(franchise._id),
+        String(franchise.ownerId),
+      ]),
+    );
+    const teamOwner = new Map(
+      teams.map((team) => [
+        String(team._id),
+        franchiseOwner.get(String(team.franchiseId)),
+      ]),
+    );
+    const draftOrderOwnerIds = picks
+      .filter((pick) => Number(pick.round) === 1)
+      .sort((left, right) => Number(left.pick) - Number(right.pick))
+      .flatMap((pick) => {
+        const ownerId = teamOwner.get(
+          String(pick.originalTeamId ?? pick.gshlTeamId ?? ""),
+        );
+        return ownerId ? [ownerId] : [];
+      });
+    priority = seedWaiverPriority({
+      draftOrderOwnerIds,
+      ownerIds: activeOwnerIds,
+    });
+  }
+  if (priority.length !== stored.length) {
+    await saveWaiverPriority(ctx, seasonId, priority as Id<"owners">[], now);
+  }
+  return priority as Id<"owners">[];
+}
+
+/** Persists the rolling list so rank 1 is the first owner given. */
+export async function saveWaiverPriority(
+  ctx: MutationCtx,
+  seasonId: Id<"seasons">,
+  ownerIds: Id<"owners">[],
+  now: number,
+): Promise<void> {
+  const rows = await ctx.db
+    .query("waiverPriorities")
+    .withIndex("by_seasonId_ownerId", (q) => q.eq("seasonId", seasonId))
+    .collect();
+  const rowByOwner = new Map(rows.map((row) => [String(row.ownerId), row]));
+  for (const [index, ownerId] of ownerIds.entries()) {
+    const row = rowByOwner.get(String(ownerId));
+    const rank = index + 1;
+    if (!row) {
+      await ctx.db.insert("waiverPriorities", {
+        seasonId,
+        ownerId,
+        rank,
+        updatedAt: now,
+      });
+    } else if (row.rank !== rank) {
+      await ctx.db.patch(row._id, { rank, updatedAt: now });
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import { resolveMatchupCategories } from "../src/lib/utils/features/matchup-details";
+import {
+  getGoalieStartMinimum,
+  resolveMatchupResult,
+  scoreMatchup,
+} from "../src/lib/utils/features/matchup-scoring";
+import { toSeason } from "./lib/domainRows";
+import { isAggregationWeekStarted } from "./lib/statAggregation";
+import { utcTimestampToDateKey } from "./lib/timestamps";
+
+const MATCHUP_SCORE_FIELDS = [
+  "homeScore",
+  "awayScore",
+  "homeWin",
+  "awayWin",
+  "tie",
+  "isComplete",
+] as const;
+
+type MatchupScoreField = (typeof MATCHUP_SCORE_FIELDS)[number];
+type MatchupScorePatch = Partial<Pick<Doc<"matchups">, MatchupScoreField>>;
+
+type ScoringProgress = {
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+};
+
+function parseWeekCursor(cursor: string | undefined): number {
+  const [, index] = (cursor ?? "").split(":");
+  return Number(index ?? 0);
+}
+
+async function resolveScoringSeason(
+  ctx: MutationCtx,
+  requestedSeasonId: string | undefined,
+): Promise<Doc<"seasons">> {
+  const seasons = await ctx.db.query("seasons").collect();
+  const season = requestedSeasonId
+    ? seasons.find(
+        (candidate) =>
+          String(candidate._id) === requestedSeasonId ||
+          String(candidate.legacyId ?? "") === requestedSeasonId,
+      )
+    : seasons.find((candidate) => candidate.isActive);
+  if (!season) {
+    throw new Error(
+      requestedSeasonId
+        ? `Season ${requestedSeasonId} was not found`
+        : "No active season was found",
+    );
+  }
+  return season;
+}
+
+/** Sums goalie starts per team for the week, keyed by team id. */
+function sumGoalieStarts(
+  playerWeeks: Doc<"playerWeekStatLines">[],
+): Map<string, number> {
+  const starts = new Map<string, number>();
+  for (const row of playerWeeks) {
+    if (row.posGroup !== "G") continue;
+    const teamId = String(row.gshlTeamId);
+    const value = Number.parseFloat(String(row.GS ?? ""));
+    starts.set(
+      teamId,
+      (starts.get(teamId) ?? 0) + (Number.isFinite(value) ? value : 0),
+    );
+  }
+  return starts;
+}
+
+function changedScoreFields(
+  matchup: Doc<"matchups">,
+  update: MatchupScorePatch,
+): MatchupScorePatch {
+  const patch: Record<string, unknown> = {};
+  for (const field of MATCHUP_SCORE_FIELDS) {
+    if (!(field in update)) continue;
+    if ((matchup[field] ?? null) !== (update[field] ?? null)) {
+      patch[field] = update[field];
+    }
+  }
+  return patch;
+}
+
+/**
+ * Native matchup scoring, replacing the Apps Script `MatchupHandler`. Each
+ * batch scores one week's matchups from the stored team weeks, using the
+ * season categories and the goalie starts summed from player weeks. Scores
+ * are refreshed while a week is live; results are only written once the week
+ * has ended. Weeks that have not started are skipped.
+ */
+export const processMatchupScoringBatch = internalMutation({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    if (run.status === "cancelling") return { cancelled: true, done: true };
+    const jobArgs = (run.args ?? {}) as { seasonId?: unknown };
+    const season = await resolveScoringSeason(
+      ctx,
+      typeof jobArgs.seasonId === "string" ? jobArgs.seasonId : undefined,
+    );
+    const weeks = (
+      await ctx.db
+        .query("weeks")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect()
+    ).sort((left, right) =>
+      (utcTimestampToDateKey(left.startDate) ?? "").localeCompare(
+        utcTimestampToDateKey(right.startDate) ?? "",
+      ),
+    );
+    if (!weeks.length) {
+      throw new Error(`No weeks were found for season ${String(season._id)}`);
+    }
+    const progress: ScoringProgress = {
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      skipped: 0,
+      ...(run.progress as Partial<ScoringProgress> | undefined),
+    };
+
+    const index = parseWeekCursor(run.cursor);
+    const week = weeks[index]!;
+    const today = utcTimestampToDateKey(Date.now())!;
+    const endDate = utcTimestampToDateKey(week.endDate) ?? "";
+    const started = isAggregationWeekStarted(
+      {
+        id: String(week._id),
+        weekType: week.weekType,
+        startDate: utcTimestampToDateKey(week.startDate) ?? "",
+        endDate,
+        isActive: week.isActive,
+      },
+      today,
+    );
+    const complete = Boolean(endDate && endDate < today);
+    const matchups = await ctx.db
+      .query("matchups")
+      .withIndex("by_seasonId_weekId", (range) =>
+        range.eq("seasonId", season._id).eq("weekId", week._id),
+      )
+      .collect();
+
+    const now = Date.now();
+    let scored = 0;
+    if (started) {
+      const [teamWeeks, playerWeeks] = await Promise.all([
+        ctx.db
+          .query("teamWeekStatLines")
+          .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+            range.eq("seasonId", season._id).eq("weekId", week._id),
+          )
+          .collect(),
+        ctx.db
+          .query("playerWeekStatLines")
+          .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+            range.eq("seasonId", season._id).eq("weekId", week._id),
+          )
+          .collect(),
+      ]);
+      const teamWeekByTeam = new Map(
+        teamWeeks.map((row) => [String(row.gshlTeamId), row]),
+      );
+      const goalieStarts = sumGoalieStarts(playerWeeks);
+      const categories = resolveMatchupCategories(season.categories);
+      const goalieStartMinimum = getGoalieStartMinimum(toSeason(season));
+
+      for (const matchup of matchups) {
+        const homeTeamId = String(matchup.homeTeamId);
+        const awayTeamId = String(matchup.awayTeamId);
+        const homeStats = teamWeekByTeam.get(homeTeamId);
+        const awayStats = teamWeekByTeam.get(awayTeamId);
+        if (!homeStats || !awayStats) {
+          progress.skipped += 1;
+          continue;
+        }
+        const score = scoreMatchup({
+          homeStats,
+          awayStats,
+          categories,
+          goalieStartMinimum,
+          homeGoalieStarts: goalieStarts.get(homeTeamId) ?? null,
+          awayGoalieStarts: goalieStarts.get(awayTeamId) ?? null,
+        });
+        const update: MatchupScorePatch = {
+          homeScore: score.homeScore,
+          awayScore: score.awayScore,
+          ...(complete
+            ? {
+                isComplete: true,
+                ...resolveMatchupResult(score, {
+                  season,
+                  weekType: week.weekType,
+                }),
+              }
+            : {}),
+        };
+        scored += 1;
+        const patch = changedScoreFields(matchup, update);
+        if (!Object.keys(patch).length) {
+          progress.unchanged += 1;
+          continue;
+        }
+        progress.updated += 1;
+        if (run.apply) {
+          await ctx.db.patch(matchup._id, { ...patch, updatedAt: now });
+        }
+      }
+    } else {
+      progress.skipped += matchups.length;
+    }
+    progress.processed += matchups.length;
+
+    const nextCursor =
+      index + 1 < weeks.length ? `weeks:${index + 1}` : undefined;
+    await ctx.db.patch(args.runId, {
+      cursor: nextCursor,
+      progress,
+      heartbeatAt: now,
+    });
+    await ctx.db.insert("jobEvents", {
+      runId: args.runId,
+      level: "debug",
+      message: started
+        ? `Scored ${scored} matchups in week ${index + 1} of ${weeks.length}`
+        : `Skipped week ${index + 1} of ${weeks.length} before it started`,
+      data: { weekId: String(week._id), complete, cursor: nextCursor ?? null },
+      createdAt: now,
+    });
+    return { done: nextCursor === undefined, cancelled: false, progress };
+  },
+});
@@ -0,0 +1,301 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import {
+  rankGmLadder,
+  replayGmSeason,
+  type PowerGmLadderEntry,
+  type PowerGmStates,
+} from "../src/lib/utils/features/power-gm-ladder";
+import { leagueDateKey } from "./lib/jobSchedules";
+import { loadCurrentOwnerLadder } from "./lib/ownerLadder";
+import { utcTimestampToDateKey } from "./lib/timestamps";
+
+// Snapshot values closer than this are treated as unchanged.
+const RATING_TOLERANCE = 1e-9;
+
+type LadderProgress = {
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+  // Ladder states carried between season batches; dropped once done.
+  state?: PowerGmStates;
+};
+
+type SnapshotFields = Pick<
+  Doc<"ownerLadderSnapshots">,
+  | "ownerId"
+  | "seasonId"
+  | "weekId"
+  | "weekStartDate"
+  | "rating"
+  | "rank"
+  | "elo"
+  | "achievementBonus"
+>;
+
+function snapshotChanged(
+  row: Doc<"ownerLadderSnapshots">,
+  next: SnapshotFields,
+): boolean {
+  return (
+    row.weekStartDate !== next.weekStartDate ||
+    row.rank !== next.rank ||
+    Math.abs(row.rating - next.rating) > RATING_TOLERANCE ||
+    Math.abs(row.elo - next.elo) > RATING_TOLERANCE ||
+    Math.abs(row.achievementBonus - next.achievementBonus) > RATING_TOLERANCE
+  );
+}
+
+/**
+ * Replays one season onto the ladder and returns a snapshot for every owner
+ * after each week that has started. The last of those weeks also carries the
+ * season's awards, so a finished season ends on its final standing.
+ */
+async function buildSeasonSnapshots(
+  ctx: MutationCtx,
+  states: PowerGmStates,
+  season: Doc<"seasons">,
+  today: string,
+): Promise<SnapshotFields[]> {
+  const [weeks, matchups, teamWeeks, awards, teams, franchises] =
+    await Promise.all([
+      ctx.db
+        .query("weeks")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect(),
+      ctx.db
+        .query("matchups")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect(),
+      ctx.db
+        .query("teamWeekStatLines")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect(),
+      ctx.db
+        .query("teamAwards")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect(),
+      ctx.db.query("teams").collect(),
+      ctx.db.query("franchises").collect(),
+    ]);
+  const ownerIdByFranchiseId = new Map(
+    franchises.map((franchise) => [
+      String(franchise._id),
+      String(franchise.ownerId),
+    ]),
+  );
+  const ownerIdByTeamId = new Map(
+    teams.map((team) => [
+      String(team._id),
+      ownerIdByFranchiseId.get(String(team.franchiseId)) ?? "",
+    ]),
+  );
+  const startedWeeks = weeks
+    .map((week) => ({
+      week,
+      startDate: utcTimestampToDateKey(week.startDate) ?? "",
+    }))
+    .filter(({ startDate }) => startDate && startDate <= today)
+    .sort(
+      (left, right) =>
+        left.startDate.localeCompare(right.startDate) ||
+        String(left.week._id).localeCompare(String(right.week._id)),
+    );
+  const startedWeekById = new Map(
+    startedWeeks.map((entry) => [String(entry.week._id), entry]),
+  );
+  const groupByWeek = <T extends { weekId: Id<"weeks"> }>(rows: T[]) => {
+    const grouped = new Map<string, T[]>();
+    for (const row of rows) {
+      const weekId = String(row.weekId);
+      grouped.set(weekId, [...(grouped.get(weekId) ?? []), row]);
+    }
+    return grouped;
+  };
+
+  const rankedByWeek = new Map<string, PowerGmLadderEntry[]>();
+  replayGmSeason(
+    states,
+    {
+      seasonId: String(season._id),
+      weekIds: startedWeeks.map(({ week }) => String(week._id)),
+      matchupsByWeek: new Map(
+        Array.from(groupByWeek(matchups), ([weekId, rows]) => [
+          weekId,
+          rows.map((matchup) => ({
+            ...matchup,
+            homeTeamId: String(matchup.homeTeamId),
+            awayTeamId: String(matchup.awayTeamId),
+          })),
+        ]),
+      ),
+      rankedRowsByWeek: new Map(
+        Array.from(groupByWeek(teamWeeks), ([weekId, rows]) => [
+          weekId,
+          rows.map((row) => ({
+            gshlTeamId: String(row.gshlTeamId),
+            powerRk: row.powerRk,
+          })),
+        ]),
+      ),
+      awards: awards.map((award) => ({
+        award: award.award,
+        ownerId: award.ownerId ?? null,
+        teamId: award.teamId ?? null,
+      })),
+    },
+    ownerIdByTeamId,
+    (weekId) => rankedByWeek.set(weekId, rankGmLadder(states)),
+  );
+  const lastWeekId = startedWeeks.at(-1)?.week._id;
+  if (lastWeekId) rankedByWeek.set(String(lastWeekId), rankGmLadder(states));
+
+  return Array.from(rankedByWeek, ([weekId, entries]) =>
+    entries.flatMap((entry) => {
+      const ownerId = ctx.db.normalizeId("owners", entry.ownerId);
+      const state = states[entry.ownerId];
+      const week = startedWeekById.get(weekId);
+      if (!ownerId || !state || !week) return [];
+      return [
+        {
+          ownerId,
+          seasonId: season._id,
+          weekId: week.week._id,
+          weekStartDate: week.startDate,
+          rating: entry.rating,
+          rank: entry.rank,
+          elo: state.elo,
+          achievementBonus: state.achievementBonus,
+        },
+      ];
+    }),
+  ).flat();
+}
+
+/**
+ * Rebuilds the persisted Owner Ladder. The ladder is a career rating, so
+ * every run replays the league from its first season, one season per batch,
+ * carrying the owner states in the run's progress. Snapshots are diffed
+ * against the stored ones and only written when `apply` is set.
+ */
+export const processOwnerLadderBatch = internalMutation({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    if (run.status === "cancelling") return { cancelled: true, done: true };
+    const now = Date.now();
+    const today = leagueDateKey(now);
+    const seasons = (await ctx.db.query("seasons").collect())
+      .filter((season) => {
+        const startDate = utcTimestampToDateKey(season.startDate);
+        return !startDate || startDate <= today;
+      })
+      .sort((left, right) => Number(left.year) - Number(right.year));
+    const progress: LadderProgress = {
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      skipped: 0,
+      ...(run.progress as Partial<LadderProgress> | undefined),
+    };
+    const states = progress.state ?? {};
+    const index = Number(run.cursor ?? 0);
+    const season = seasons[index];
+
+    let message = "No seasons have started yet";
+    if (season) {
+      const snapshots = await buildSeasonSnapshots(ctx, states, season, today);
+      const existing = await ctx.db
+        .query("ownerLadderSnapshots")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect();
+      const existingByKey = new Map(
+        existing.map((row) => [`${row.weekId}|${row.ownerId}`, row]),
+      );
+      for (const snapshot of snapshots) {
+        progress.processed += 1;
+        const key = `${snapshot.weekId}|${snapshot.ownerId}`;
+        const row = existingByKey.get(key);
+        existingByKey.delete(key);
+        if (!row) {
+          progress.inserted += 1;
+          if (run.apply)
+            await ctx.db.insert("ownerLadderSnapshots", {
+              ...snapshot,
+              computedAt: now,
+            });
+        } else if (snapshotChanged(row, snapshot)) {
+          progress.updated += 1;
+          if (run.apply)
+            await ctx.db.patch(row._id, { ...snapshot, computedAt: now });
+        } else {
+          progress.unchanged += 1;
+        }
+      }
+      for (const stale of existingByKey.values()) {
+        progress.deleted += 1;
+        if (run.apply) await ctx.db.delete(stale._id);
+      }
+      message = `Rebuilt ${snapshots.length} ladder snapshots for season ${season.legacyId ?? String(season._id)}`;
+    }
+
+    const nextCursor =
+      season && index + 1 < seasons.length ? String(index + 1) : undefined;
+    const done = nextCursor === undefined;
+    progress.state = done ? undefined : states;
+    await ctx.db.patch(args.runId, {
+      cursor: nextCursor,
+      progress,
+      heartbeatAt: now,
+    });
+    await ctx.db.insert("jobEvents", {
+      runId: args.runId,
+      level: "debug",
+      message,
+      data: { cursor: nextCursor ?? null },
+      createdAt: now,
+    });
+    return { done, cancelled: false, progress };
+  },
+});
+
+/** The current Owner Ladder, best rating first. */
+export const current = query({
+  args: {},
+  handler: async (ctx) =>
+    (await loadCurrentOwnerLadder(ctx)).map((row) => ({
+      ownerId: String(row.ownerId),
+      seasonId: String(row.seasonId),
+      weekId: String(row.weekId),
+      weekStartDate: row.weekStartDate,
+      rating: row.rating,
+      rank: row.rank,
+    })),
+});
+
+/** Every owner's weekly ladder snapshots, oldest first, for the history chart. */
+export const history = query({
+  args: {},
+  handler: async (ctx) =>
+    (
+      await ctx.db
+        .query("ownerLadderSnapshots")
+        .withIndex("by_weekStartDate")
+        .collect()
+    ).map((row) => ({
+      ownerId: String(row.ownerId),
+      seasonId: String(row.seasonId),
+      weekId: String(row.weekId),
+      weekStartDate: row.weekStartDate,
+      rating: row.rating,
+      rank: row.rank,
+    })),
+});
@@ -0,0 +1,608 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import type {
+  PlayerRatingModel,
+  PlayerRatingParityReport,
+  PlayerRatingParitySample,
+  PlayerRatingParitySummary,
+} from "../src/lib/types";
+import {
+  accumulatePlayerRatingPopulation,
+  getPlayerRatingOutputField,
+  ratePlayerRows,
+  ratePlayerRowsAgainstPopulation,
+  type PlayerRatingPopulation,
+} from "../src/lib/utils/features/player-rating-engine";
+import {
+  buildPlayerRatingLeagueAnchors,
+  computeOverallPlayerRating,
+  rankPlayerRatings,
+} from "../src/lib/utils/features/player-rating-history";
+
+// Matches the `ratings:parity` default.
+const PARITY_MAX_DELTA = 0.01;
+const PARITY_SAMPLE_LIMIT = 25;
+const PLAYER_PAGE_SIZE = 200;
+const SCOPE_PAGE_SIZE = 500;
+const NHL_HISTORY_SEASONS = 4;
+
+type RatedTable =
+  | "playerDayStatLines"
+  | "playerWeekStatLines"
+  | "playerSplitStatLines"
+  | "playerTotalStatLines"
+  | "playerCareerSplitStatLines"
+  | "playerCareerTotalStatLines";
+
+type RatingScope = {
+  table: RatedTable;
+  model: PlayerRatingModel;
+  // Day and week lines are rated across both season types together.
+  seasonType?: "RS" | "PO";
+};
+
+const RATING_SCOPES: RatingScope[] = [
+  { table: "playerDayStatLines", model: "PlayerDayStatLine" },
+  { table: "playerWeekStatLines", model: "PlayerWeekStatLine" },
+  {
+    table: "playerSplitStatLines",
+    model: "PlayerSplitStatLine",
+    seasonType: "RS",
+  },
+  {
+    table: "playerSplitStatLines",
+    model: "PlayerSplitStatLine",
+    seasonType: "PO",
+  },
+  {
+    table: "playerTotalStatLines",
+    model: "PlayerTotalStatLine",
+    seasonType: "RS",
+  },
+  {
+    table: "playerTotalStatLines",
+    model: "PlayerTotalStatLine",
+    seasonType: "PO",
+  },
+  {
+    table: "playerCareerSplitStatLines",
+    model: "PlayerCareerSplitStatLine",
+    seasonType: "RS",
+  },
+  {
+    table: "playerCareerSplitStatLines",
+    model: "PlayerCareerSplitStatLine",
+    seasonType: "PO",
+  },
+  {
+    table: "playerCareerTotalStatLines",
+    model: "PlayerCareerTotalStatLine",
+    seasonType: "RS",
+  },
+  {
+    table: "playerCareerTotalStatLines",
+    model: "PlayerCareerTotalStatLine",
+    seasonType: "PO",
+  },
+];
+
+const PLAYER_RATING_FIELDS = [
+  "seasonRating",
+  "overallRating",
+  "seasonRk",
+  "overallRk",
+] as const;
+
+type PlayerRatingField = (typeof PLAYER_RATING_FIELDS)[number];
+
+type PlayerRatingUpdate = { playerId: string } & Record<
+  PlayerRatingField,
+  number | null
+>;
+
+type ParityTally = PlayerRatingParitySummary & {
+  comparedRows: number;
+  deltaTotal: number;
+};
+
+type RatingProgress = {
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+  parity: PlayerRatingParitySummary[];
+  // The current scope's distributions, collected before any row is rated.
+  population?: PlayerRatingPopulation;
+  scopeParity?: ParityTally;
+  // The active season's player ratings and ranks, rated once in the NHL
+  // phase and written a page of players at a time.
+  playerRatings?: PlayerRatingUpdate[];
+};
+
+type RatingCursor =
+  | { phase: "population" | "rate"; index: number; page: string | null }
+  | { phase: "nhl" }
+  | { phase: "players"; page: string | null };
+
+type RatedPage = {
+  page: RatedRow[];
+  isDone: boolean;
+  continueCursor: string;
+};
+
+type NhlRating = {
+  row: Doc<"playerNhlStatLines">;
+  seasonRating: number;
+  overallRating: number | null;
+};
+
+type RatedRow = {
+  _id: Doc<RatedTable>["_id"];
+  seasonType?: string;
+  posGroup: string;
+  Rating?: number | string | null;
+};
+
+// Cursors are `population:scope:page`, `rate:scope:page`, `nhl` and
+// `players:page`, where a page is a Convex pagination cursor.
+function parseCursor(cursor: string | undefined): RatingCursor {
+  const [phase = "", ...rest] = (cursor ?? "").split(":");
+  if (phase === "nhl") return { phase };
+  if (phase === "players") return { phase, page: rest.join(":") || null };
+  const [index = "", ...page] = rest;
+  return {
+    phase: phase === "rate" ? "rate" : "population",
+    index: Number(index || 0),
+    page: page.join(":") || null,
+  };
+}
+
+async function resolveRatingSeason(
+  ctx: MutationCtx,
+  requestedSeasonId: string | undefined,
+): Promise<{ season: Doc<"seasons">; seasons: Doc<"seasons">[] }> {
+  const seasons = (await ctx.db.query("seasons").collect()).sort(
+    (left, right) => Number(left.year) - Number(right.year),
+  );
+  const season = requestedSeasonId
+    ? seasons.find(
+        (candidate) =>
+          String(candidate._id) === requestedSeasonId ||
+          String(candidate.legacyId ?? "") === requestedSeasonId,
+      )
+    : seasons.find((candidate) => candidate.isActive);
+  if (!season) {
+    throw new Error(
+      requestedSeasonId
+        ? `Season ${requestedSeasonId} was not found`
+        : "No active season was found",
+    );
+  }
+  return { season, seasons };
+}
+
+async function loadScopePage(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  scope: RatingScope,
+  page: string | null,
+): Promise<RatedPage> {
+  const options = { cursor: page, numItems: SCOPE_PAGE_SIZE };
+  const seasonType = scope.seasonType ?? "RS";
+  switch (scope.table) {
+    case "playerDayStatLines":
+      return ctx.db
+        .query("playerDayStatLines")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .paginate(options);
+    case "playerWeekStatLines":
+      return ctx.db
+        .query("playerWeekStatLines")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .paginate(options);
+    case "playerSplitStatLines":
+      return ctx.db
+        .query("playerSplitStatLines")
+        .withIndex("by_seasonId_seasonType_gshlTeamId_playerId", (range) =>
+          range.eq("seasonId", season._id).eq("seasonType", seasonType),
+        )
+        .paginate(options);
+    case "playerTotalStatLines":
+      return ctx.db
+        .query("playerTotalStatLines")
+        .withIndex("by_seasonId_seasonType_playerId", (range) =>
+          range.eq("seasonId", season._id).eq("seasonType", seasonType),
+        )
+        .paginate(options);
+    case "playerCareerSplitStatLines":
+      return ctx.db
+        .query("playerCareerSplitStatLines")
+        .withIndex("by_seasonType", (range) =>
+          range.eq("seasonType", seasonType),
+        )
+        .paginate(options);
+    case "playerCareerTotalStatLines":
+      return ctx.db
+        .query("playerCareerTotalStatLines")
+        .withIndex("by_seasonType", (range) =>
+          range.eq("seasonType", seasonType),
+        )
+        .paginate(options);
+  }
+}
+
+function toStoredNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+/**
+ * Compares a page of native scores with the stored ratings last written by
+ * the Apps Script engine, using the `ratings:parity` comparison, and adds
+ * them to the scope's tally.
+ */
+function tallyParity(
+  tally: ParityTally | undefined,
+  model: PlayerRatingModel,
+  seasonType: string,
+  entries: Array<{
+    id: string;
+    posGroup: string;
+    score: number;
+    storedScore: number | string | null;
+  }>,
+): ParityTally {
+  const outputField = getPlayerRatingOutputField(model);
+  const samples: PlayerRatingParitySample[] = entries.map((entry) => {
+    const stored = toStoredNumber(entry.storedScore);
+    return {
+      id: entry.id,
+      score: entry.score,
+      storedScore: entry.storedScore,
+      delta: stored === null ? null : Math.abs(entry.score - stored),
+      outputField,
+      posGroup: entry.posGroup,
+      seasonType,
+    };
+  });
+  const compared = samples.filter(
+    (sample): sample is PlayerRatingParitySample & { delta: number } =>
+      sample.delta !== null,
+  );
+  const mismatches = samples.filter(
+    (sample) => sample.delta === null || sample.delta > PARITY_MAX_DELTA,
+  );
+  const comparedRows = (tally?.comparedRows ?? 0) + compared.length;
+  const deltaTotal =
+    (tally?.deltaTotal ?? 0) +
+    compared.reduce((sum, sample) => sum + sample.delta, 0);
+  const totalRows = (tally?.totalRows ?? 0) + samples.length;
+  const mismatchedRows = (tally?.mismatchedRows ?? 0) + mismatches.length;
+  return {
+    modelName: model,
+    seasonType,
+    outputField,
+    totalRows,
+    matchedRows: totalRows - mismatchedRows,
+    mismatchedRows,
+    maxDelta: compared.reduce(
+      (max, sample) => Math.max(max, sample.delta),
+      tally?.maxDelta ?? 0,
+    ),
+    meanDelta: comparedRows ? deltaTotal / comparedRows : 0,
+    mismatches: [...(tally?.mismatches ?? []), ...mismatches]
+      .sort(
+        (left, right) =>
+          (right.delta ?? Number.MAX_VALUE) - (left.delta ?? Number.MAX_VALUE),
+      )
+      .slice(0, PARITY_SAMPLE_LIMIT),
+    comparedRows,
+    deltaTotal,
+  };
+}
+
+function toParitySummary({
+  comparedRows: _comparedRows,
+  deltaTotal: _deltaTotal,
+  ...summary
+}: ParityTally): PlayerRatingParitySummary {
+  return summary;
+}
+
+function buildParityReport(
+  season: Doc<"seasons">,
+  parity: PlayerRatingParitySummary[],
+): PlayerRatingParityReport {
+  return {
+    seasonId: String(season._id),
+    maxDelta: PARITY_MAX_DELTA,
+    models: parity,
+    totals: parity.reduce(
+      (totals, summary) => ({
+        totalRows: totals.totalRows + summary.totalRows,
+        matchedRows: totals.matchedRows + summary.matchedRows,
+        mismatchedRows: totals.mismatchedRows + summary.mismatchedRows,
+        maxDelta: Math.max(totals.maxDelta, summary.maxDelta),
+      }),
+      { totalRows: 0, matchedRows: 0, mismatchedRows: 0, maxDelta: 0 },
+    ),
+  };
+}
+
+/**
+ * Rates the season's NHL rows and blends each player's last four NHL seasons
+ * into an overall rating. Earlier seasons contribute their stored ratings.
+ */
+async function rateNhlSeason(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  seasons: Doc<"seasons">[],
+): Promise<NhlRating[]> {
+  const seasonIndex = seasons.findIndex(
+    (candidate) => candidate._id === season._id,
+  );
+  const priorSeasons = seasons
+    .slice(Math.max(0, seasonIndex - NHL_HISTORY_SEASONS + 1), seasonIndex)
+    .reverse();
+  const loadSeason = (seasonId: Doc<"seasons">["_id"]) =>
+    ctx.db
+      .query("playerNhlStatLines")
+      .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+      .collect();
+  const [rows, ...priorRows] = await Promise.all([
+    loadSeason(season._id),
+    ...priorSeasons.map((prior) => loadSeason(prior._id)),
+  ]);
+  const priorByPlayer = priorRows.map(
+    (seasonRows) => new Map(seasonRows.map((row) => [row.playerId, row])),
+  );
+
+  const scores = ratePlayerRows(rows, { model: "PlayerNHL" });
+  const rated = rows.map((row, index) => ({
+    row,
+    seasonRating: scores[index] ?? 0,
+  }));
+  const anchors = buildPlayerRatingLeagueAnchors(
+    rated.map((entry) => ({ ...entry.row, seasonRating: entry.seasonRating })),
+  );
+  return rated.map((entry) => {
+    const history = [
+      { ...entry.row, seasonRating: entry.seasonRating },
+      ...priorByPlayer
+        .map((byPlayer) => byPlayer.get(entry.row.playerId))
+        .filter((row) => row !== undefined),
+    ];
+    const posGroup =
+      entry.row.posGroup === "G" || entry.row.posGroup === "D"
+        ? entry.row.posGroup
+        : "F";
+    return {
+      ...entry,
+      overallRating: computeOverallPlayerRating(history, anchors[posGroup]),
+    };
+  });
+}
+
+function buildPlayerRatingUpdates(ratings: NhlRating[]): PlayerRatingUpdate[] {
+  const seasonRanks = new Map(
+    rankPlayerRatings(ratings, (entry) => entry.seasonRating).map(
+      ({ item, rank }) => [item.row.playerId, rank],
+    ),
+  );
+  const overallRanks = new Map(
+    rankPlayerRatings(ratings, (entry) => entry.overallRating).map(
+      ({ item, rank }) => [item.row.playerId, rank],
+    ),
+  );
+  return ratings.map((entry) => ({
+    playerId: String(entry.row.playerId),
+    seasonRating: entry.seasonRating,
+    overallRating: entry.overallRating,
+    seasonRk: seasonRanks.get(entry.row.playerId) ?? null,
+    overallRk: overallRanks.get(entry.row.playerId) ?? null,
+  }));
+}
+
+/**
+ * Native player rating rebuild, replacing the Apps Script `RankingEngine`
+ * run by `ratings:backfill`. Scopes are the season's day and week lines,
+ * then its split and total lines and the career lines one season type at a
+ * time. Each scope is paged twice: once to collect its distributions into
+ * the run's progress, then again to rate and write each page against them.
+ * The NHL season is rated next with overall ratings, then, for the active
+ * season only, the ratings and ranks on player rows. Each scope is compared
+ * with the stored ratings for a parity artifact.
+ */
+export const processPlayerRatingBatch = internalMutation({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    if (run.status === "cancelling") return { cancelled: true, done: true };
+    const jobArgs = (run.args ?? {}) as { seasonId?: unknown };
+    const { season, seasons } = await resolveRatingSeason(
+      ctx,
+      typeof jobArgs.seasonId === "string" ? jobArgs.seasonId : undefined,
+    );
+    const progress: RatingProgress = {
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      skipped: 0,
+      parity: [],
+      ...(run.progress as Partial<RatingProgress> | undefined),
+    };
+
+    const now = Date.now();
+    const cursor = parseCursor(run.cursor);
+    let nextCursor: string | undefined;
+    let message: string;
+    if (cursor.phase === "population") {
+      const scope = RATING_SCOPES[cursor.index]!;
+      const page = await loadScopePage(ctx, season, scope, cursor.page);
+      progress.population = accumulatePlayerRatingPopulation(
+        progress.population ?? [],
+        page.page,
+        { model: scope.model, seasonCategories: season.categories },
+      );
+      nextCursor = page.isDone
+        ? `rate:${cursor.index}:`
+        : `population:${cursor.index}:${page.continueCursor}`;
+      message = `Collected ${page.page.length} ${scope.model} rows for rating`;
+    } else if (cursor.phase === "rate") {
+      const scope = RATING_SCOPES[cursor.index]!;
+      const page = await loadScopePage(ctx, season, scope, cursor.page);
+      const scores = ratePlayerRowsAgainstPopulation(
+        page.page,
+        progress.population ?? [],
+        { model: scope.model, seasonCategories: season.categories },
+      );
+      const entries = page.page.map((row, index) => ({
+        row,
+        score: scores[index] ?? 0,
+      }));
+      for (const { row, score } of entries) {
+        if (row.Rating === score) {
+          progress.unchanged += 1;
+          continue;
+        }
+        progress.updated += 1;
+        if (run.apply) {
+          await ctx.db.patch(row._id, { Rating: score, updatedAt: now });
+        }
+      }
+      progress.processed += page.page.length;
+      const scopeParity = tallyParity(
+        progress.scopeParity,
+        scope.model,
+        scope.seasonType ?? "",
+        entries.map(({ row, score }) => ({
+          id: String(row._id),
+          posGroup: row.posGroup,
+          score,
+          storedScore: row.Rating ?? null,
+        })),
+      );
+      if (page.isDone) {
+        progress.parity.push(toParitySummary(scopeParity));
+        delete progress.population;
+        delete progress.scopeParity;
+        nextCursor =
+          cursor.index + 1 < RATING_SCOPES.length
+            ? `population:${cursor.index + 1}:`
+            : "nhl";
+      } else {
+        progress.scopeParity = scopeParity;
+        nextCursor = `rate:${cursor.index}:${page.continueCursor}`;
+      }
+      message = `Rated ${page.page.length} ${scope.model} ${scope.seasonType ?? ""} rows`;
+    } else if (cursor.phase === "nhl") {
+      const ratings = await rateNhlSeason(ctx, season, seasons);
+      for (const { row, seasonRating, overallRating } of ratings) {
+        if (
+          (row.seasonRating ?? null) === seasonRating &&
+          (row.overallRating ?? null) === overallRating
+        ) {
+          progress.unchanged += 1;
+          continue;
+        }
+        progress.updated += 1;
+        if (run.apply) {
+          await ctx.db.patch(row._id, {
+            seasonRating,
+            overallRating,
+            updatedAt: now,
+          });
+        }
+      }
+      progress.processed += ratings.length;
+      progress.parity.push(
+        toParitySummary(
+          tallyParity(
+            undefined,
+            "PlayerNHL",
+            "",
+            ratings.map(({ row, seasonRating }) => ({
+              id: String(row._id),
+              posGroup: row.posGroup,
+              score: seasonRating,
+              storedScore: row.seasonRating ?? null,
+            })),
+          ),
+        ),
+      );
+      if (season.isActive) {
+        progress.playerRatings = buildPlayerRatingUpdates(ratings);
+        nextCursor = "players:";
+      }
+      message = `Rated ${ratings.length} NHL seasons`;
+    } else {
+      const updates = new Map(
+        (progress.playerRatings ?? []).map((update) => [
+          update.playerId,
+          update,
+        ]),
+      );
+      const page = await ctx.db
+        .query("players")
+        .paginate({ cursor: cursor.page, numItems: PLAYER_PAGE_SIZE });
+      for (const player of page.page) {
+        const update = updates.get(String(player._id));
+        const patch: Partial<Record<PlayerRatingField, number | null>> = {};
+        for (const field of PLAYER_RATING_FIELDS) {
+          const value = update?.[field] ?? null;
+          if ((player[field] ?? null) !== value) patch[field] = value;
+        }
+        if (!Object.keys(patch).length) {
+          progress.unchanged += 1;
+          continue;
+        }
+        progress.updated += 1;
+        if (run.apply) {
+          await ctx.db.patch(player._id, { ...patch, updatedAt: now });
+        }
+      }
+      progress.processed += page.page.length;
+      nextCursor = page.isDone ? undefined : `players:${page.continueCursor}`;
+      message = `Updated ratings and ranks for ${page.page.length} players`;
+    }
+
+    const done = nextCursor === undefined;
+    if (done) delete progress.playerRatings;
+    await ctx.db.patch(args.runId, {
+      cursor: nextCursor,
+      progress,
+      heartbeatAt: now,
+    });
+    await ctx.db.insert("jobEvents", {
+      runId: args.runId,
+      level: "debug",
+      message,
+      data: { cursor: nextCursor ?? null },
+      createdAt: now,
+    });
+    return {
+      done,
+      cancelled: false,
+      progress,
+      report: done
+        ? {
+            kind: "rating-parity",
+            name: `player-rating-parity-${season.legacyId ?? String(season._id)}.json`,
+            data: {
+              ...buildParityReport(season, progress.parity),
+              apply: run.apply,
+              generatedAt: now,
+            },
+          }
+        : undefined,
+    };
+  },
+});
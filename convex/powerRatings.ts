@@ -0,0 +1,796 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import type {
+  PowerHistorySignal,
+  PowerMatchupUpdate,
+  PowerRatingParityReport,
+  PowerRatingParitySample,
+  PowerRatingParitySummary,
+  PowerTalentAccumulator,
+  PowerTeamState,
+  PowerTeamWeekUpdate,
+} from "../src/lib/types";
+import {
+  applyGmMatchup,
+  applyGmPowerRanks,
+  getGmLadderRating,
+  replayGmSeason,
+  type PowerGmStates,
+} from "../src/lib/utils/features/power-gm-ladder";
+import {
+  accumulatePlayerTalent,
+  computePlayerTalent,
+  computePowerHistoryPrior,
+  computePowerRatingWeek,
+  computeRosterStrength,
+  getPreseasonPlayerTalent,
+  pickBestFinishWeekRows,
+  readPowerHistorySignal,
+  seedPowerTeamStates,
+} from "../src/lib/utils/features/power-rating-engine";
+import { utcTimestampToDateKey } from "./lib/timestamps";
+
+// Matches the `power:parity` comparison.
+const PARITY_TOLERANCE = 1e-9;
+const PARITY_SAMPLE_LIMIT = 25;
+// Prior seasons whose finishes feed the history prior.
+const HISTORY_SEASONS = 3;
+
+const TEAM_WEEK_FIELDS = [
+  "powerElo",
+  "powerEloPre",
+  "powerEloPost",
+  "powerEloDelta",
+  "powerEloExpected",
+  "powerEloK",
+  "powerStatScore",
+  "powerStatEwma",
+  "powerTalent",
+  "gmLadderRating",
+  "powerGmScore",
+  "powerHistoryPrior",
+  "powerComposite",
+  "powerRating",
+  "powerRk",
+] as const satisfies ReadonlyArray<keyof PowerTeamWeekUpdate>;
+
+const MATCHUP_FIELDS = [
+  "homeRank",
+  "awayRank",
+  "rating",
+  "ratingPre",
+  "ratingRealized",
+  "ratingCompetitive",
+  "ratingImportance",
+  "ratingRosterStrength",
+] as const satisfies ReadonlyArray<keyof PowerMatchupUpdate>;
+
+/** Chain state carried between batches; dropped once the run finishes. */
+type PowerState = {
+  gm: PowerGmStates;
+  history: PowerHistorySignal[];
+  baseTalent: Record<string, number>;
+  talent: Record<string, PowerTalentAccumulator>;
+  teams: Record<string, PowerTeamState>;
+  historyPrior: Record<string, number>;
+  lastRanks: Record<string, Record<string, number | null>>;
+};
+
+type PowerParity = {
+  teamWeeks: PowerRatingParitySummary;
+  teamSeasons: PowerRatingParitySummary;
+  matchups: PowerRatingParitySummary;
+};
+
+type PowerProgress = {
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+  parity: PowerParity;
+  state?: PowerState;
+};
+
+type PowerCursor =
+  | { phase: "gm"; index: number }
+  | { phase: "weeks"; index: number }
+  | { phase: "seasons" };
+
+type StartedWeek = { week: Doc<"weeks">; isComplete: boolean };
+
+function parseCursor(cursor: string | undefined): PowerCursor {
+  const [phase, index] = (cursor ?? "").split(":");
+  if (phase === "weeks") return { phase, index: Number(index ?? 0) };
+  if (phase === "seasons") return { phase };
+  return { phase: "gm", index: Number(index ?? 0) };
+}
+
+function emptySummary(): PowerRatingParitySummary {
+  return {
+    totalRows: 0,
+    matchedRows: 0,
+    mismatchedRows: 0,
+    maxDelta: 0,
+    mismatches: [],
+  };
+}
+
+function emptyState(): PowerState {
+  return {
+    gm: {},
+    history: [],
+    baseTalent: {},
+    talent: {},
+    teams: {},
+    historyPrior: {},
+    lastRanks: {},
+  };
+}
+
+async function resolvePowerSeason(
+  ctx: MutationCtx,
+  requestedSeasonId: string | undefined,
+): Promise<{ season: Doc<"seasons">; seasons: Doc<"seasons">[] }> {
+  const seasons = (await ctx.db.query("seasons").collect()).sort(
+    (left, right) => Number(left.year) - Number(right.year),
+  );
+  const season = requestedSeasonId
+    ? seasons.find(
+        (candidate) =>
+          String(candidate._id) === requestedSeasonId ||
+          String(candidate.legacyId ?? "") === requestedSeasonId,
+      )
+    : seasons.find((candidate) => candidate.isActive);
+  if (!season) {
+    throw new Error(
+      requestedSeasonId
+        ? `Season ${requestedSeasonId} was not found`
+        : "No active season was found",
+    );
+  }
+  return { season, seasons };
+}
+
+async function loadSeasonWeeks(
+  ctx: MutationCtx,
+  seasonId: Id<"seasons">,
+): Promise<Doc<"weeks">[]> {
+  return (
+    await ctx.db
+      .query("weeks")
+      .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+      .collect()
+  ).sort(
+    (left, right) =>
+      (utcTimestampToDateKey(left.startDate) ?? "").localeCompare(
+        utcTimestampToDateKey(right.startDate) ?? "",
+      ) || String(left._id).localeCompare(String(right._id)),
+  );
+}
+
+/** Weeks that have ended or are under way, the ones the chain runs over. */
+function listStartedWeeks(weeks: Doc<"weeks">[], today: string): StartedWeek[] {
+  return weeks.flatMap((week) => {
+    const startDate = utcTimestampToDateKey(week.startDate) ?? "";
+    const endDate = utcTimestampToDateKey(week.endDate) ?? "";
+    const isComplete = Boolean(endDate && endDate < today);
+    const isActive =
+      week.isActive ||
+      Boolean(startDate && endDate && today >= startDate && today <= endDate);
+    return isComplete || isActive ? [{ week, isComplete }] : [];
+  });
+}
+
+/** Maps every team to its franchise's owner, across all seasons. */
+async function loadTeamOwners(ctx: MutationCtx) {
+  const [teams, franchises] = await Promise.all([
+    ctx.db.query("teams").collect(),
+    ctx.db.query("franchises").collect(),
+  ]);
+  const ownerIdByFranchiseId = new Map(
+    franchises.map((franchise) => [
+      String(franchise._id),
+      String(franchise.ownerId),
+    ]),
+  );
+  return {
+    teams,
+    ownerIdByFranchiseId,
+    ownerIdByTeamId: new Map(
+      teams.map((team) => [
+        String(team._id),
+        ownerIdByFranchiseId.get(String(team.franchiseId)) ?? "",
+      ]),
+    ),
+  };
+}
+
+function groupByWeek<T extends { weekId: Id<"weeks"> }>(
+  rows: T[],
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const weekId = String(row.weekId);
+    grouped.set(weekId, [...(grouped.get(weekId) ?? []), row]);
+  }
+  return grouped;
+}
+
+function toMatchupInput(matchup: Doc<"matchups">) {
+  return {
+    ...matchup,
+    id: String(matchup._id),
+    homeTeamId: String(matchup.homeTeamId),
+    awayTeamId: String(matchup.awayTeamId),
+  };
+}
+
+/**
+ * Replays one prior season: its matchups, stored power ranks and awards
+ * move the GM ladder, its NHL rows become the latest preseason talent and,
+ * for the last three seasons, its best finishes feed the history prior.
+ */
+async function replayPriorSeason(
+  ctx: MutationCtx,
+  state: PowerState,
+  prior: Doc<"seasons">,
+  seasonIndex: number,
+  targetIndex: number,
+): Promise<number> {
+  const [weeks, matchups, teamWeeks, awards, nhlRows, owners] =
+    await Promise.all([
+      loadSeasonWeeks(ctx, prior._id),
+      ctx.db
+        .query("matchups")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", prior._id))
+        .collect(),
+      ctx.db
+        .query("teamWeekStatLines")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", prior._id))
+        .collect(),
+      ctx.db
+        .query("teamAwards")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", prior._id))
+        .collect(),
+      ctx.db
+        .query("playerNhlStatLines")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", prior._id))
+        .collect(),
+      loadTeamOwners(ctx),
+    ]);
+
+  const rankedRows = teamWeeks.map((row) => ({
+    ...row,
+    gshlTeamId: String(row.gshlTeamId),
+    weekId: String(row.weekId),
+  }));
+  replayGmSeason(
+    state.gm,
+    {
+      seasonId: String(prior._id),
+      weekIds: weeks.map((week) => String(week._id)),
+      matchupsByWeek: new Map(
+        Array.from(groupByWeek(matchups), ([weekId, rows]) => [
+          weekId,
+          rows.map(toMatchupInput),
+        ]),
+      ),
+      rankedRowsByWeek: new Map(
+        Array.from(groupByWeek(teamWeeks), ([weekId, rows]) => [
+          weekId,
+          rows.map((row) => ({
+            gshlTeamId: String(row.gshlTeamId),
+            powerRk: row.powerRk,
+          })),
+        ]),
+      ),
+      awards: awards.map((award) => ({
+        award: award.award,
+        ownerId: award.ownerId ?? null,
+        teamId: award.teamId ?? null,
+      })),
+    },
+    owners.ownerIdByTeamId,
+  );
+
+  const ratedPlayerIds = new Set<string>();
+  for (const row of nhlRows) {
+    if (ratedPlayerIds.has(row.playerId)) continue;
+    ratedPlayerIds.add(row.playerId);
+    const talent = getPreseasonPlayerTalent(row);
+    if (talent === null) delete state.baseTalent[row.playerId];
+    else state.baseTalent[row.playerId] = talent;
+  }
+
+  if (targetIndex - seasonIndex <= HISTORY_SEASONS) {
+    const franchiseIdByTeamId = new Map(
+      owners.teams.map((team) => [String(team._id), String(team.franchiseId)]),
+    );
+    const finishWeeks = new Map(
+      weeks.map((week) => [
+        String(week._id),
+        {
+          weekType: week.weekType,
+          endDate: utcTimestampToDateKey(week.endDate) ?? "",
+        },
+      ]),
+    );
+    for (const row of pickBestFinishWeekRows(rankedRows, finishWeeks)) {
+      const franchiseId = franchiseIdByTeamId.get(row.gshlTeamId);
+      const signal = readPowerHistorySignal(row);
+      if (!franchiseId || signal === null) continue;
+      state.history.push({
+        seasonIndex,
+        franchiseId,
+        ownerId: owners.ownerIdByFranchiseId.get(franchiseId) ?? "",
+        signal,
+      });
+    }
+  }
+  return matchups.length;
+}
+
+/**
+ * Measures each team's roster entering the week from the players it
+ * carried on its latest day up to the week's start, looking back through
+ * earlier weeks when the week has no such day yet.
+ */
+async function loadRosterStrength(
+  ctx: MutationCtx,
+  state: PowerState,
+  season: Doc<"seasons">,
+  startDate: string,
+  weeksBack: Doc<"weeks">[],
+  teamIds: string[],
+): Promise<Map<string, number>> {
+  const strength = new Map<string, number>();
+  for (const teamId of teamIds) {
+    let rows: Doc<"playerDayStatLines">[] = [];
+    for (const week of weeksBack) {
+      const weekRows = (
+        await ctx.db
+          .query("playerDayStatLines")
+          .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+            range
+              .eq("seasonId", season._id)
+              .eq("weekId", week._id)
+              .eq("gshlTeamId", teamId as Id<"teams">),
+          )
+          .collect()
+      ).filter((row) => row.date && row.date <= startDate);
+      const latestDate = weekRows.reduce(
+        (latest, row) => (row.date && row.date > latest ? row.date : latest),
+        "",
+      );
+      rows = weekRows.filter((row) => row.date === latestDate);
+      if (rows.length) break;
+    }
+    const playerIds = new Set(rows.map((row) => String(row.playerId)));
+    strength.set(
+      teamId,
+      computeRosterStrength(
+        Array.from(playerIds).flatMap((playerId) => {
+          const talent = computePlayerTalent(
+            state.baseTalent[playerId],
+            state.talent[playerId],
+          );
+          return talent === null ? [] : [talent];
+        }),
+      ),
+    );
+  }
+  return strength;
+}
+
+function toStoredNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+/**
+ * Compares a row's native values with the stored ones, using the
+ * `power:parity` tolerance, and folds the result into the summary.
+ */
+function recordParity<T extends string>(
+  summary: PowerRatingParitySummary,
+  id: string,
+  fields: readonly T[],
+  values: Readonly<Record<T, number | null>>,
+  stored: Readonly<Partial<Record<T, unknown>>>,
+) {
+  const mismatches: PowerRatingParitySample[] = [];
+  for (const field of fields) {
+    const value = values[field];
+    const storedNumber = toStoredNumber(stored[field]);
+    const delta =
+      value === null || storedNumber === null
+        ? value === storedNumber
+          ? 0
+          : null
+        : Math.abs(value - storedNumber);
+    if (delta !== null) summary.maxDelta = Math.max(summary.maxDelta, delta);
+    if (delta !== null && delta <= PARITY_TOLERANCE) continue;
+    mismatches.push({
+      id,
+      field,
+      value,
+      storedValue:
+        typeof stored[field] === "number" || typeof stored[field] === "string"
+          ? stored[field]
+          : null,
+      delta,
+    });
+  }
+  summary.totalRows += 1;
+  if (mismatches.length) summary.mismatchedRows += 1;
+  else summary.matchedRows += 1;
+  summary.mismatches = [...summary.mismatches, ...mismatches]
+    .sort(
+      (left, right) =>
+        (right.delta ?? Number.MAX_VALUE) - (left.delta ?? Number.MAX_VALUE),
+    )
+    .slice(0, PARITY_SAMPLE_LIMIT);
+}
+
+function changedFields<T extends string>(
+  fields: readonly T[],
+  values: Readonly<Record<T, number | null>>,
+  stored: Readonly<Partial<Record<T, unknown>>>,
+): Partial<Record<T, number | null>> {
+  const patch: Partial<Record<T, number | null>> = {};
+  for (const field of fields) {
+    if ((stored[field] ?? null) !== values[field]) {
+      patch[field] = values[field];
+    }
+  }
+  return patch;
+}
+
+/** Runs the chain over one started week and writes its team weeks and matchups. */
+async function rebuildWeek(
+  ctx: MutationCtx,
+  run: Doc<"jobRuns">,
+  state: PowerState,
+  progress: PowerProgress,
+  season: Doc<"seasons">,
+  seasonIndex: number,
+  weeks: Doc<"weeks">[],
+  started: StartedWeek[],
+  index: number,
+  now: number,
+): Promise<string> {
+  const { week, isComplete } = started[index]!;
+  const [seasonTeams, weekMatchups, teamWeeks, playerWeeks, owners] =
+    await Promise.all([
+      ctx.db
+        .query("teams")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect(),
+      ctx.db
+        .query("matchups")
+        .withIndex("by_seasonId_weekId", (range) =>
+          range.eq("seasonId", season._id).eq("weekId", week._id),
+        )
+        .collect(),
+      ctx.db
+        .query("teamWeekStatLines")
+        .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+          range.eq("seasonId", season._id).eq("weekId", week._id),
+        )
+        .collect(),
+      ctx.db
+        .query("playerWeekStatLines")
+        .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+          range.eq("seasonId", season._id).eq("weekId", week._id),
+        )
+        .collect(),
+      loadTeamOwners(ctx),
+    ]);
+  const teamIds = seasonTeams
+    .map((team) => String(team._id))
+    .sort((left, right) => left.localeCompare(right));
+  const teamIdSet = new Set(teamIds);
+  const matchups = weekMatchups
+    .filter(
+      (matchup) =>
+        teamIdSet.has(String(matchup.homeTeamId)) &&
+        teamIdSet.has(String(matchup.awayTeamId)),
+    )
+    .map((matchup) => ({ doc: matchup, input: toMatchupInput(matchup) }));
+  const teamWeekByTeam = new Map(
+    teamWeeks.map((row) => [String(row.gshlTeamId), row]),
+  );
+
+  const weekPosition = weeks.findIndex((entry) => entry._id === week._id);
+  const rosterStrength = await loadRosterStrength(
+    ctx,
+    state,
+    season,
+    utcTimestampToDateKey(week.startDate) ?? "",
+    weeks.slice(0, weekPosition + 1).reverse(),
+    teamIds,
+  );
+  if (index === 0) {
+    state.historyPrior = computePowerHistoryPrior(
+      seasonTeams.map((team) => ({
+        teamId: String(team._id),
+        franchiseId: String(team.franchiseId),
+        ownerId: owners.ownerIdByTeamId.get(String(team._id)) ?? "",
+      })),
+      state.history,
+      seasonIndex,
+    );
+    state.teams = seedPowerTeamStates(
+      teamIds,
+      rosterStrength,
+      state.historyPrior,
+    );
+  }
+
+  const playoffWeeks = started.filter((entry) => entry.week.weekType === "PO");
+  const playoffRound = playoffWeeks.findIndex(
+    (entry) => entry.week._id === week._id,
+  );
+  const result = computePowerRatingWeek({
+    teamIds,
+    week: { id: String(week._id), weekType: week.weekType, isComplete },
+    weekNumber: index + 1,
+    playoffRound: playoffRound < 0 ? 1 : playoffRound + 1,
+    teamStates: state.teams,
+    teamWeeks: teamWeekByTeam,
+    matchups: matchups.map(({ input }) => input),
+    rosterStrength,
+    gmRatings: new Map(
+      teamIds.map((teamId) => [
+        teamId,
+        getGmLadderRating(state.gm, owners.ownerIdByTeamId.get(teamId)),
+      ]),
+    ),
+    historyPrior: state.historyPrior,
+  });
+  state.teams = result.teamStates;
+
+  for (const update of result.teamWeeks) {
+    const row = teamWeekByTeam.get(update.gshlTeamId);
+    progress.processed += 1;
+    if (!row) {
+      progress.skipped += 1;
+      continue;
+    }
+    recordParity(
+      progress.parity.teamWeeks,
+      String(row._id),
+      TEAM_WEEK_FIELDS,
+      update,
+      row,
+    );
+    const patch = changedFields(TEAM_WEEK_FIELDS, update, row);
+    if (!Object.keys(patch).length) {
+      progress.unchanged += 1;
+      continue;
+    }
+    progress.updated += 1;
+    if (run.apply) await ctx.db.patch(row._id, { ...patch, updatedAt: now });
+  }
+
+  const matchupById = new Map(
+    matchups.map(({ doc }) => [String(doc._id), doc]),
+  );
+  for (const update of result.matchups) {
+    const matchup = matchupById.get(update.id);
+    if (!matchup) continue;
+    progress.processed += 1;
+    recordParity(
+      progress.parity.matchups,
+      update.id,
+      MATCHUP_FIELDS,
+      update,
+      matchup,
+    );
+    const patch = changedFields(MATCHUP_FIELDS, update, matchup);
+    if (!Object.keys(patch).length) {
+      progress.unchanged += 1;
+      continue;
+    }
+    progress.updated += 1;
+    if (run.apply) {
+      await ctx.db.patch(matchup._id, { ...patch, updatedAt: now });
+    }
+  }
+
+  state.lastRanks[week.weekType] = Object.fromEntries(
+    result.teamWeeks.map((update) => [update.gshlTeamId, update.powerRk]),
+  );
+  if (isComplete) {
+    for (const { input } of matchups) {
+      applyGmMatchup(
+        state.gm,
+        input,
+        owners.ownerIdByTeamId,
+        String(season._id),
+      );
+    }
+    applyGmPowerRanks(state.gm, result.teamWeeks, owners.ownerIdByTeamId);
+  }
+  accumulatePlayerTalent(
+    state.talent,
+    playerWeeks.map((row) => ({ ...row, playerId: String(row.playerId) })),
+    index,
+  );
+  return `Rebuilt power for week ${index + 1} of ${started.length}`;
+}
+
+/** Writes each season type's final-week power rank to the team seasons. */
+async function writeSeasonRanks(
+  ctx: MutationCtx,
+  run: Doc<"jobRuns">,
+  state: PowerState,
+  progress: PowerProgress,
+  season: Doc<"seasons">,
+  now: number,
+): Promise<string> {
+  const rows = await ctx.db
+    .query("teamSeasonStatLines")
+    .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+    .collect();
+  let written = 0;
+  for (const row of rows) {
+    const ranks = state.lastRanks[row.seasonType];
+    const gshlTeamId = String(row.gshlTeamId);
+    if (!ranks || !(gshlTeamId in ranks)) continue;
+    const values = { powerRk: ranks[gshlTeamId] ?? null };
+    written += 1;
+    progress.processed += 1;
+    recordParity(
+      progress.parity.teamSeasons,
+      String(row._id),
+      ["powerRk"],
+      values,
+      row,
+    );
+    if ((row.powerRk ?? null) === values.powerRk) {
+      progress.unchanged += 1;
+      continue;
+    }
+    progress.updated += 1;
+    if (run.apply) {
+      await ctx.db.patch(row._id, { ...values, updatedAt: now });
+    }
+  }
+  return `Wrote final power ranks to ${written} team seasons`;
+}
+
+function buildParityReport(
+  season: Doc<"seasons">,
+  parity: PowerParity,
+): PowerRatingParityReport {
+  return {
+    seasonId: String(season._id),
+    tolerance: PARITY_TOLERANCE,
+    ...parity,
+  };
+}
+
+/**
+ * Native power rating rebuild, replacing the Apps Script
+ * `PowerRankingsAlgo` run by `power:rebuild`. Batches first replay each
+ * earlier season onto the GM ladder, the preseason talent and the history
+ * prior, then run the chain one started week at a time, carrying Elo, stat
+ * EWMA, form and rolling player talent in the run's progress. A last batch
+ * writes each season type's final rank to the team seasons. Every written
+ * value is compared with the stored one for a parity artifact.
+ */
+export const processPowerRatingBatch = internalMutation({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    if (run.status === "cancelling") return { cancelled: true, done: true };
+    const jobArgs = (run.args ?? {}) as { seasonId?: unknown };
+    const { season, seasons } = await resolvePowerSeason(
+      ctx,
+      typeof jobArgs.seasonId === "string" ? jobArgs.seasonId : undefined,
+    );
+    const seasonIndex = seasons.findIndex(
+      (candidate) => candidate._id === season._id,
+    );
+    const progress: PowerProgress = {
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      skipped: 0,
+      parity: {
+        teamWeeks: emptySummary(),
+        teamSeasons: emptySummary(),
+        matchups: emptySummary(),
+      },
+      ...(run.progress as Partial<PowerProgress> | undefined),
+    };
+    const state = progress.state ?? emptyState();
+
+    const now = Date.now();
+    const cursor = parseCursor(run.cursor);
+    let nextCursor: string | undefined;
+    let message: string;
+    if (cursor.phase === "gm" && cursor.index < seasonIndex) {
+      const prior = seasons[cursor.index]!;
+      const replayed = await replayPriorSeason(
+        ctx,
+        state,
+        prior,
+        cursor.index,
+        seasonIndex,
+      );
+      nextCursor =
+        cursor.index + 1 < seasonIndex ? `gm:${cursor.index + 1}` : "weeks:0";
+      message = `Replayed ${replayed} matchups from season ${prior.legacyId ?? String(prior._id)}`;
+    } else if (cursor.phase !== "seasons") {
+      const index = cursor.phase === "weeks" ? cursor.index : 0;
+      const weeks = await loadSeasonWeeks(ctx, season._id);
+      const started = listStartedWeeks(
+        weeks,
+        utcTimestampToDateKey(Date.now())!,
+      );
+      if (!started.length) {
+        nextCursor = undefined;
+        message = "No weeks have started yet";
+      } else {
+        message = await rebuildWeek(
+          ctx,
+          run,
+          state,
+          progress,
+          season,
+          seasonIndex,
+          weeks,
+          started,
+          index,
+          now,
+        );
+        nextCursor =
+          index + 1 < started.length ? `weeks:${index + 1}` : "seasons";
+      }
+    } else {
+      message = await writeSeasonRanks(ctx, run, state, progress, season, now);
+      nextCursor = undefined;
+    }
+
+    const done = nextCursor === undefined;
+    progress.state = done ? undefined : state;
+    await ctx.db.patch(args.runId, {
+      cursor: nextCursor,
+      progress,
+      heartbeatAt: now,
+    });
+    await ctx.db.insert("jobEvents", {
+      runId: args.runId,
+      level: "debug",
+      message,
+      data: { cursor: nextCursor ?? null },
+      createdAt: now,
+    });
+    return {
+      done,
+      cancelled: false,
+      progress,
+      report: done
+        ? {
+            kind: "power-parity",
+            name: `power-rating-parity-${season.legacyId ?? String(season._id)}.json`,
+            data: {
+              ...buildParityReport(season, progress.parity),
+              apply: run.apply,
+              generatedAt: now,
+            },
+          }
+        : undefined,
+    };
+  },
+});
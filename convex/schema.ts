@@ -191,6 +191,7 @@ export default defineSchema({
     usesLegacyTies: boolValue,
     signingEndDate: dateOnlyValue,
     draftStartAt: timestampValue,
+    tradeDeadlineDate: dateOnlyValue,
     createdAt: timestampValue,
     updatedAt: timestampValue,
   }),
@@ -336,18 +337,31 @@ export default defineSchema({
       v.literal("resolving"),
       v.literal("resolved"),
       v.literal("failed"),
+      // Every offer was withdrawn; the next offer reopens the group.
+      v.literal("withdrawn"),
     ),
     winningOfferId: v.optional(v.id("ufaOffers")),
     finalOdds: v.optional(v.string()),
     randomRoll: v.optional(v.number()),
+    // Commit-reveal: the hash is public from the first offer and the seed,
+    // kept in ufaDrawSeeds until then, is copied here at resolution.
+    seedHash: v.optional(v.string()),
+    revealedSeed: v.optional(v.string()),
     failureReason: v.optional(v.string()),
     createdAt: v.number(),
     resolvedAt: v.optional(v.number()),
     updatedAt: v.number(),
   })
     .index("by_player_season", ["playerId", "seasonId"])
+    .index("by_season_status", ["seasonId", "status"])
     .index("by_status_deadline", ["status", "deadlineAt"]),
 
+  ufaDrawSeeds: defineTable({
+    groupId: v.id("ufaOfferGroups"),
+    seed: v.string(),
+    createdAt: v.number(),
+  }).index("by_groupId", ["groupId"]),
+
   ufaOffers: defineTable({
     groupId: v.id("ufaOfferGroups"),
     playerId: v.id("players"),
@@ -357,15 +371,154 @@ export default defineSchema({
     teamId: v.id("teams"),
     contractLength: v.number(),
     salary: v.number(),
-    status: v.union(v.literal("pending"), v.literal("won"), v.literal("lost")),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("won"),
+      v.literal("lost"),
+      v.literal("withdrawn"),
+    ),
     factorSnapshot: v.optional(v.string()),
     submittedAt: v.number(),
+    withdrawnAt: v.optional(v.number()),
     updatedAt: v.number(),
   })
     .index("by_group", ["groupId"])
     .index("by_group_franchise", ["groupId", "franchiseId"])
     .index("by_owner_status", ["ownerId", "status"]),
 
+  trades: defineTable({
+    seasonId: v.id("seasons"),
+    ownerIds: v.array(v.id("owners")),
+    assets: v.array(
+      v.object({
+        kind: v.union(v.literal("player"), v.literal("draftPick")),
+        fromOwnerId: v.id("owners"),
+        toOwnerId: v.id("owners"),
+        playerId: v.optional(v.id("players")),
+        draftPickId: v.optional(v.id("draftPicks")),
+        // Every contract carried with the player; rule 3.5 forbids retention.
+        contractIds: v.optional(v.array(v.id("contracts"))),
+      }),
+    ),
+    notes: v.optional(v.string()),
+    recordedBy: v.optional(v.string()),
+    executedAt: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_seasonId_executedAt", ["seasonId", "executedAt"]),
+
+  // Rule 3.1 waivers: a dropped player stays here until the two-day window
+  // ends and the best-placed claim on the rolling list wins.
+  waivers: defineTable({
+    seasonId: v.id("seasons"),
+    playerId: v.id("players"),
+    droppedByOwnerId: v.id("owners"),
+    droppedAt: v.number(),
+    clearsAt: v.number(),
+    status: v.union(
+      v.literal("active"),
+      v.literal("claimed"),
+      v.literal("cleared"),
+    ),
+    awardedOwnerId: v.optional(v.id("owners")),
+    processedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status_clearsAt", ["status", "clearsAt"])
+    .index("by_playerId_status", ["playerId", "status"])
+    .index("by_seasonId_processedAt", ["seasonId", "processedAt"]),
+
+  waiverClaims: defineTable({
+    waiverId: v.id("waivers"),
+    seasonId: v.id("seasons"),
+    playerId: v.id("players"),
+    ownerId: v.id("owners"),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("awarded"),
+      v.literal("lost"),
+      v.literal("cancelled"),
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_waiverId", ["waiverId"])
+    .index("by_ownerId_status", ["ownerId", "status"]),
+
+  // The rolling waiver list; rank 1 claims first and a successful claim
+  // moves that owner to the bottom.
+  waiverPriorities: defineTable({
+    seasonId: v.id("seasons"),
+    ownerId: v.id("owners"),
+    rank: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_seasonId_rank", ["seasonId", "rank"])
+    .index("by_seasonId_ownerId", ["seasonId", "ownerId"]),
+
+  // Each owner's private ranked draft queue; when their clock expires the
+  // first still-eligible player here is drafted for them.
+  draftQueues: defineTable({
+    seasonId: v.id("seasons"),
+    ownerId: v.id("owners"),
+    playerIds: v.array(v.id("players")),
+    updatedAt: v.number(),
+  }).index("by_seasonId_ownerId", ["seasonId", "ownerId"]),
+
+  // Commissioner overrides of the rule 9.8 signing windows; seasons without a
+  // row fall back to the calendar derived from their dates.
+  signingPeriods: defineTable({
+    seasonId: v.id("seasons"),
+    period: v.union(v.literal("early"), v.literal("late"), v.literal("summer")),
+    startAt: v.number(),
+    endAt: v.optional(v.number()),
+    allowedStatuses: v.array(
+      v.union(v.literal("DRAFT"), v.literal("RFA"), v.literal("UFA")),
+    ),
+    updatedBy: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_seasonId_period", ["seasonId", "period"]),
+
+  // Rule 9.11 roster-day verdicts, rebuilt nightly from playerDayStatLines.
+  playerDayEligibility: defineTable({
+    seasonId: v.id("seasons"),
+    playerId: v.id("players"),
+    regularSeasonDays: v.number(),
+    rosterDays: v.number(),
+    rosterRatio: v.number(),
+    teamDays: v.array(
+      v.object({
+        gshlTeamId: v.id("teams"),
+        days: v.number(),
+        ratio: v.number(),
+      }),
+    ),
+    qualifyingTeamIds: v.array(v.id("teams")),
+    isEligible: v.boolean(),
+    computedAt: v.number(),
+  })
+    .index("by_seasonId_playerId", ["seasonId", "playerId"])
+    .index("by_playerId", ["playerId"]),
+
+  // Owner Ladder ratings after each played week, rebuilt by the
+  // owner-ladder-rebuild job. The latest week start holds the current ladder.
+  ownerLadderSnapshots: defineTable({
+    ownerId: v.id("owners"),
+    seasonId: v.id("seasons"),
+    weekId: v.id("weeks"),
+    weekStartDate: v.string(),
+    rating: v.number(),
+    rank: v.number(),
+    elo: v.number(),
+    achievementBonus: v.number(),
+    computedAt: v.number(),
+  })
+    .index("by_seasonId", ["seasonId"])
+    .index("by_weekStartDate", ["weekStartDate"])
+    .index("by_ownerId", ["ownerId"]),
+
   weeks: table(
     {
       seasonId: id("seasons"),
@@ -701,6 +854,17 @@ export default defineSchema({
       overallRk: optionalNullableNumber,
       conferenceRk: optionalNullableNumber,
       wildcardRk: optionalNullableNumber,
+      // Rule 4.5 decisions behind the ranks above, for the standings page.
+      tiebreaks: optionalNullable(
+        v.array(
+          v.object({
+            scope: v.string(),
+            tiebreaker: v.string(),
+            teamIds: v.array(id("teams")),
+            values: v.array(v.number()),
+          }),
+        ),
+      ),
       playersUsed: statValue,
       hartRating: ratingValue,
       hartRk: optionalNullableNumber,
@@ -729,6 +893,7 @@ export default defineSchema({
     editionKey: v.string(),
     issueType: v.union(
       v.literal("weekly"),
+      v.literal("trade_deadline"),
       v.literal("final_recap"),
       v.literal("resigning_outlook"),
       v.literal("offseason_market"),
@@ -804,6 +969,7 @@ export default defineSchema({
     pipelineStage: v.optional(v.number()),
     attempt: v.number(),
     requestedBy: v.optional(v.string()),
+    scheduleId: v.optional(id("jobSchedules")),
     createdAt: v.number(),
     startedAt: v.optional(v.number()),
     heartbeatAt: v.optional(v.number()),
@@ -812,7 +978,8 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_jobName_createdAt", ["jobName", "createdAt"])
     .index("by_lockKey_status", ["lockKey", "status"])
-    .index("by_parentRunId", ["parentRunId"]),
+    .index("by_parentRunId", ["parentRunId"])
+    .index("by_scheduleId_createdAt", ["scheduleId", "createdAt"]),
 
   jobEvents: defineTable({
     runId: id("jobRuns"),
@@ -833,7 +1000,10 @@ export default defineSchema({
     args: v.any(),
     apply: v.boolean(),
     enabled: v.boolean(),
-    intervalMinutes: v.number(),
+    intervalMinutes: v.optional(v.number()),
+    // Five-field cron in Toronto time; used instead of intervalMinutes.
+    cron: v.optional(v.string()),
+    activeSeasonOnly: v.optional(v.boolean()),
     nextRunAt: v.number(),
     lastRunAt: v.optional(v.number()),
     lastRunId: v.optional(id("jobRuns")),
@@ -855,6 +1025,9 @@ export default defineSchema({
     ),
     leaseOwner: v.optional(v.string()),
     leaseExpiresAt: v.optional(v.number()),
+    // Lease count so far, and the backoff before an expired lease is re-offered.
+    attempt: v.optional(v.number()),
+    availableAt: v.optional(v.number()),
     heartbeatAt: v.optional(v.number()),
     resultChunks: v.optional(v.array(v.any())),
     error: v.optional(v.string()),
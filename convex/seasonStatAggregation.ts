@@ -0,0 +1,599 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import {
+  aggregatePlayerCareers,
+  aggregatePlayerSplitsAndTotals,
+  aggregatePlayerWeeks,
+  aggregateTeamSeasons,
+  aggregateTeamWeek,
+  applyPlayerDayFlags,
+  buildAggregationFieldConfig,
+  buildWeekTypeMap,
+  canonicalizePlayerDays,
+  countPlayersUsed,
+  diffAggregateRows,
+  isAggregationWeekStarted,
+  mergeAggregateTableDiff,
+  previousDateKey,
+  type AggregateRowsDiff,
+  type AggregateTable,
+  type AggregateTableDiff,
+  type AggregationFieldConfig,
+  type AggregationWeek,
+} from "./lib/statAggregation";
+import { utcTimestampToDateKey } from "./lib/timestamps";
+
+const SEASON_PLAYER_BATCH_SIZE = 25;
+const CAREER_PLAYER_BATCH_SIZE = 25;
+const ORPHAN_PAGE_SIZE = 200;
+const ORPHAN_TABLES = ["playerSplitStatLines", "playerTotalStatLines"] as const;
+
+type AggregationProgress = {
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+  // Players seen in the season's week rows. Their season rows are rebuilt a
+  // page at a time, then their careers.
+  playerIds?: string[];
+  // Player splits per `gshlTeamId|seasonType`, summed across player pages
+  // for the team seasons' playersUsed.
+  playersUsed?: Record<string, number>;
+  tables: Partial<Record<AggregateTable, AggregateTableDiff>>;
+};
+
+type OrphanTable = (typeof ORPHAN_TABLES)[number];
+
+type AggregationCursor =
+  | { phase: "weeks"; index: number }
+  | { phase: "players"; index: number }
+  | { phase: "orphans"; table: number; page: string | null }
+  | { phase: "teams" }
+  | { phase: "careers"; index: number };
+
+type ScopeDiff = [AggregateTable, AggregateRowsDiff];
+
+// Cursors are `phase:index`, except `orphans:table:page` where the page is a
+// Convex pagination cursor and may itself contain colons.
+function parseCursor(cursor: string | undefined): AggregationCursor {
+  const [phase = "", index = "0", ...rest] = (cursor ?? "").split(":");
+  if (phase === "teams") return { phase };
+  if (phase === "players" || phase === "careers")
+    return { phase, index: Number(index) };
+  if (phase === "orphans")
+    return { phase, table: Number(index), page: rest.join(":") || null };
+  return { phase: "weeks", index: Number(index || 0) };
+}
+
+function toAggregationWeek(week: Doc<"weeks">): AggregationWeek {
+  return {
+    id: String(week._id),
+    weekType: week.weekType,
+    startDate: utcTimestampToDateKey(week.startDate) ?? "",
+    endDate: utcTimestampToDateKey(week.endDate) ?? "",
+    isActive: week.isActive,
+  };
+}
+
+async function resolveAggregationSeason(
+  ctx: MutationCtx,
+  requestedSeasonId: string | undefined,
+): Promise<Doc<"seasons">> {
+  const seasons = await ctx.db.query("seasons").collect();
+  const season = requestedSeasonId
+    ? seasons.find(
+        (candidate) =>
+          String(candidate._id) === requestedSeasonId ||
+          String(candidate.legacyId ?? "") === requestedSeasonId,
+      )
+    : seasons.find((candidate) => candidate.isActive);
+  if (!season) {
+    throw new Error(
+      requestedSeasonId
+        ? `Season ${requestedSeasonId} was not found`
+        : "No active season was found",
+    );
+  }
+  return season;
+}
+
+async function applyScopeDiff(
+  ctx: MutationCtx,
+  [table, diff]: ScopeDiff,
+  now: number,
+) {
+  for (const row of diff.inserts) {
+    await ctx.db.insert(table, {
+      ...row,
+      createdAt: now,
+      updatedAt: now,
+    } as never);
+  }
+  for (const update of diff.updates) {
+    const patch = Object.fromEntries(
+      update.changes.map((change) => [change.field, change.next]),
+    );
+    await ctx.db.patch(
+      update.id as Id<typeof table>,
+      {
+        ...patch,
+        updatedAt: now,
+      } as never,
+    );
+  }
+  for (const id of diff.deletes) await ctx.db.delete(id as Id<typeof table>);
+}
+
+/**
+ * Rebuilds one week: player-weeks from the week's player-days, plus the
+ * team-days and team-weeks once the week has started. The day before the
+ * week is loaded so Monday's ADD flags see Sunday's rosters.
+ */
+async function aggregateWeekScope(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  week: AggregationWeek,
+  weekTypeMap: Map<string, string>,
+  config: AggregationFieldConfig,
+): Promise<{ diffs: ScopeDiff[]; processed: number; playerIds: string[] }> {
+  const seasonId = season._id;
+  const weekId = week.id as Id<"weeks">;
+  const [
+    dayRows,
+    previousDayRows,
+    teams,
+    storedPlayerWeeks,
+    storedTeamDays,
+    storedTeamWeeks,
+  ] = await Promise.all([
+    ctx.db
+      .query("playerDayStatLines")
+      .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+        range.eq("seasonId", seasonId).eq("weekId", weekId),
+      )
+      .collect(),
+    ctx.db
+      .query("playerDayStatLines")
+      .withIndex("by_seasonId_date", (range) =>
+        range
+          .eq("seasonId", seasonId)
+          .eq("date", previousDateKey(week.startDate)),
+      )
+      .collect(),
+    ctx.db
+      .query("teams")
+      .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+      .collect(),
+    ctx.db
+      .query("playerWeekStatLines")
+      .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+        range.eq("seasonId", seasonId).eq("weekId", weekId),
+      )
+      .collect(),
+    ctx.db
+      .query("teamDayStatLines")
+      .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+        range.eq("seasonId", seasonId).eq("weekId", weekId),
+      )
+      .collect(),
+    ctx.db
+      .query("teamWeekStatLines")
+      .withIndex("by_seasonId_weekId_gshlTeamId", (range) =>
+        range.eq("seasonId", seasonId).eq("weekId", weekId),
+      )
+      .collect(),
+  ]);
+  const playerDays = canonicalizePlayerDays(dayRows);
+  applyPlayerDayFlags(playerDays, canonicalizePlayerDays(previousDayRows));
+  const playerWeeks = aggregatePlayerWeeks(playerDays, {
+    seasonId: String(seasonId),
+    weekTypeMap,
+    config,
+  });
+  const started =
+    weekTypeMap.has(week.id) &&
+    isAggregationWeekStarted(week, utcTimestampToDateKey(Date.now())!);
+  const { teamDays, teamWeeks } = started
+    ? aggregateTeamWeek({
+        seasonId: String(seasonId),
+        week,
+        teamIds: teams.map((team) => String(team._id)),
+        playerDays,
+        playerWeeks,
+        config,
+      })
+    : { teamDays: [], teamWeeks: [] };
+  return {
+    processed: dayRows.length,
+    // Stored rows count too, so a player whose days are gone still has
+    // their season rows rebuilt.
+    playerIds: [...storedPlayerWeeks, ...playerWeeks].map((row) =>
+      String(row.playerId),
+    ),
+    diffs: [
+      [
+        "playerWeekStatLines",
+        diffAggregateRows(
+          "playerWeekStatLines",
+          storedPlayerWeeks,
+          playerWeeks,
+        ),
+      ],
+      [
+        "teamDayStatLines",
+        diffAggregateRows("teamDayStatLines", storedTeamDays, teamDays),
+      ],
+      [
+        "teamWeekStatLines",
+        diffAggregateRows("teamWeekStatLines", storedTeamWeeks, teamWeeks),
+      ],
+    ],
+  };
+}
+
+/**
+ * Rebuilds season splits and totals for a page of players from their stored
+ * week rows, and counts the splits toward each team's playersUsed.
+ */
+async function aggregateSeasonPlayerScope(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  playerIds: string[],
+  weekTypeMap: Map<string, string>,
+  config: AggregationFieldConfig,
+): Promise<{
+  diffs: ScopeDiff[];
+  processed: number;
+  playersUsed: Record<string, number>;
+}> {
+  const seasonId = season._id;
+  const options = { seasonId: String(seasonId), weekTypeMap, config };
+  const diffs: ScopeDiff[] = [];
+  const playersUsed: Record<string, number> = {};
+  let processed = 0;
+  for (const rawPlayerId of playerIds) {
+    const playerId = rawPlayerId as Id<"players">;
+    const [playerWeeks, storedSplits, storedTotals] = await Promise.all([
+      ctx.db
+        .query("playerWeekStatLines")
+        .withIndex("by_seasonId_playerId", (range) =>
+          range.eq("seasonId", seasonId).eq("playerId", playerId),
+        )
+        .collect(),
+      ctx.db
+        .query("playerSplitStatLines")
+        .withIndex("by_playerId", (range) => range.eq("playerId", playerId))
+        .collect(),
+      ctx.db
+        .query("playerTotalStatLines")
+        .withIndex("by_playerId", (range) => range.eq("playerId", playerId))
+        .collect(),
+    ]);
+    const { splits, totals } = aggregatePlayerSplitsAndTotals(
+      playerWeeks,
+      options,
+    );
+    for (const [key, count] of Object.entries(countPlayersUsed(splits)))
+      playersUsed[key] = (playersUsed[key] ?? 0) + count;
+    processed += playerWeeks.length;
+    diffs.push(
+      [
+        "playerSplitStatLines",
+        diffAggregateRows(
+          "playerSplitStatLines",
+          storedSplits.filter((row) => row.seasonId === seasonId),
+          splits,
+        ),
+      ],
+      [
+        "playerTotalStatLines",
+        diffAggregateRows(
+          "playerTotalStatLines",
+          storedTotals.filter((row) => row.seasonId === seasonId),
+          totals,
+        ),
+      ],
+    );
+  }
+  return { diffs, processed, playersUsed };
+}
+
+/**
+ * Pages through one table's stored season rows and deletes those whose
+ * player has no week rows left, which the player pages never visit.
+ */
+async function sweepOrphanScope(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  table: OrphanTable,
+  page: string | null,
+  playerIds: ReadonlySet<string>,
+): Promise<{ diffs: ScopeDiff[]; processed: number; nextPage: string | null }> {
+  const result = await ctx.db
+    .query(table)
+    .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+    .paginate({ cursor: page, numItems: ORPHAN_PAGE_SIZE });
+  const orphans = result.page.filter(
+    (row) => !playerIds.has(String(row.playerId)),
+  );
+  return {
+    processed: result.page.length,
+    nextPage: result.isDone ? null : result.continueCursor,
+    diffs: [[table, diffAggregateRows(table, orphans, [])]],
+  };
+}
+
+/**
+ * Rebuilds the season's team rows from the stored team-weeks, using the
+ * playersUsed counts carried from the player pages.
+ */
+async function aggregateTeamSeasonScope(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  playersUsed: Record<string, number>,
+  weekTypeMap: Map<string, string>,
+  config: AggregationFieldConfig,
+): Promise<{ diffs: ScopeDiff[]; processed: number }> {
+  const seasonId = season._id;
+  const [teamWeeks, storedSeasons] = await Promise.all([
+    ctx.db
+      .query("teamWeekStatLines")
+      .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+      .collect(),
+    ctx.db
+      .query("teamSeasonStatLines")
+      .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+      .collect(),
+  ]);
+  const teamSeasons = aggregateTeamSeasons(teamWeeks, playersUsed, {
+    seasonId: String(seasonId),
+    weekTypeMap,
+    config,
+  });
+  return {
+    processed: teamWeeks.length,
+    diffs: [
+      [
+        "teamSeasonStatLines",
+        diffAggregateRows("teamSeasonStatLines", storedSeasons, teamSeasons),
+      ],
+    ],
+  };
+}
+
+/** Rebuilds career splits and totals for a page of players. */
+async function aggregateCareerScope(
+  ctx: MutationCtx,
+  playerIds: string[],
+  config: AggregationFieldConfig,
+): Promise<{ diffs: ScopeDiff[]; processed: number }> {
+  const weeks = await ctx.db.query("weeks").collect();
+  const weekTypeMap = buildWeekTypeMap(weeks.map(toAggregationWeek));
+  const diffs: ScopeDiff[] = [];
+  let processed = 0;
+  for (const rawPlayerId of playerIds) {
+    const playerId = rawPlayerId as Id<"players">;
+    const [playerWeeks, storedSplits, storedTotals] = await Promise.all([
+      ctx.db
+        .query("playerWeekStatLines")
+        .withIndex("by_playerId", (range) => range.eq("playerId", playerId))
+        .collect(),
+      ctx.db
+        .query("playerCareerSplitStatLines")
+        .withIndex("by_playerId", (range) => range.eq("playerId", playerId))
+        .collect(),
+      ctx.db
+        .query("playerCareerTotalStatLines")
+        .withIndex("by_playerId", (range) => range.eq("playerId", playerId))
+        .collect(),
+    ]);
+    const { careerSplits, careerTotals } = aggregatePlayerCareers(playerWeeks, {
+      weekTypeMap,
+      config,
+    });
+    processed += playerWeeks.length;
+    diffs.push(
+      [
+        "playerCareerSplitStatLines",
+        diffAggregateRows(
+          "playerCareerSplitStatLines",
+          storedSplits,
+          careerSplits,
+        ),
+      ],
+      [
+        "playerCareerTotalStatLines",
+        diffAggregateRows(
+          "playerCareerTotalStatLines",
+          storedTotals,
+          careerTotals,
+        ),
+      ],
+    );
+  }
+  return { diffs, processed };
+}
+
+/**
+ * Native season stat aggregation, replacing `stats:aggregate-season`. Each
+ * batch rebuilds one scope (a week, a page of players' season rows, a page
+ * of orphaned season rows, the team seasons, then a page of careers) and
+ * records a per-table diff against the stored rows. Later scopes read
+ * the week rows as stored, so a dry run checks each level against the
+ * script's output for the level below it. The finished diff report is
+ * returned for the runner to save as a job artifact.
+ */
+export const processSeasonStatAggregationBatch = internalMutation({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    if (run.status === "cancelling") return { cancelled: true, done: true };
+    const jobArgs = (run.args ?? {}) as { seasonId?: unknown };
+    const season = await resolveAggregationSeason(
+      ctx,
+      typeof jobArgs.seasonId === "string" ? jobArgs.seasonId : undefined,
+    );
+    const config = buildAggregationFieldConfig(season);
+    const weeks = (
+      await ctx.db
+        .query("weeks")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", season._id))
+        .collect()
+    )
+      .map(toAggregationWeek)
+      .sort((left, right) => left.startDate.localeCompare(right.startDate));
+    const weekTypeMap = buildWeekTypeMap(weeks);
+    if (weekTypeMap.size === 0) {
+      throw new Error(`No weeks were found for season ${String(season._id)}`);
+    }
+    const progress: AggregationProgress = {
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      skipped: 0,
+      tables: {},
+      ...(run.progress as Partial<AggregationProgress> | undefined),
+    };
+
+    const cursor = parseCursor(run.cursor);
+    const playerIds = progress.playerIds ?? [];
+    let scope: { diffs: ScopeDiff[]; processed: number };
+    let nextCursor: string | undefined;
+    let message: string;
+    if (cursor.phase === "weeks") {
+      const week = weeks[cursor.index]!;
+      const result = await aggregateWeekScope(
+        ctx,
+        season,
+        week,
+        weekTypeMap,
+        config,
+      );
+      scope = result;
+      progress.playerIds = Array.from(
+        new Set([...playerIds, ...result.playerIds]),
+      ).sort();
+      nextCursor =
+        cursor.index + 1 < weeks.length
+          ? `weeks:${cursor.index + 1}`
+          : "players:0";
+      message = `Aggregated week ${cursor.index + 1} of ${weeks.length}`;
+    } else if (cursor.phase === "players") {
+      const page = playerIds.slice(
+        cursor.index,
+        cursor.index + SEASON_PLAYER_BATCH_SIZE,
+      );
+      const result = await aggregateSeasonPlayerScope(
+        ctx,
+        season,
+        page,
+        weekTypeMap,
+        config,
+      );
+      scope = result;
+      const playersUsed = { ...progress.playersUsed };
+      for (const [key, count] of Object.entries(result.playersUsed))
+        playersUsed[key] = (playersUsed[key] ?? 0) + count;
+      progress.playersUsed = playersUsed;
+      const nextIndex = cursor.index + page.length;
+      nextCursor =
+        nextIndex < playerIds.length ? `players:${nextIndex}` : "orphans:0";
+      message = `Aggregated season splits and totals for ${page.length} players`;
+    } else if (cursor.phase === "orphans") {
+      const table = ORPHAN_TABLES[cursor.table]!;
+      const result = await sweepOrphanScope(
+        ctx,
+        season,
+        table,
+        cursor.page,
+        new Set(playerIds),
+      );
+      scope = result;
+      nextCursor =
+        result.nextPage !== null
+          ? `orphans:${cursor.table}:${result.nextPage}`
+          : cursor.table + 1 < ORPHAN_TABLES.length
+            ? `orphans:${cursor.table + 1}`
+            : "teams";
+      message = `Checked ${result.processed} ${table} rows for players without weeks`;
+    } else if (cursor.phase === "teams") {
+      scope = await aggregateTeamSeasonScope(
+        ctx,
+        season,
+        progress.playersUsed ?? {},
+        weekTypeMap,
+        config,
+      );
+      nextCursor = playerIds.length ? "careers:0" : undefined;
+      message = "Aggregated team seasons";
+    } else {
+      const page = playerIds.slice(
+        cursor.index,
+        cursor.index + CAREER_PLAYER_BATCH_SIZE,
+      );
+      scope = await aggregateCareerScope(ctx, page, config);
+      const nextIndex = cursor.index + page.length;
+      nextCursor =
+        nextIndex < playerIds.length ? `careers:${nextIndex}` : undefined;
+      message = `Aggregated careers for ${page.length} players`;
+    }
+
+    const now = Date.now();
+    for (const entry of scope.diffs) {
+      const [table, diff] = entry;
+      if (run.apply) await applyScopeDiff(ctx, entry, now);
+      progress.tables[table] = mergeAggregateTableDiff(
+        progress.tables[table],
+        table,
+        diff,
+      );
+      progress.inserted += diff.inserts.length;
+      progress.updated += diff.updates.length;
+      progress.deleted += diff.deletes.length;
+      progress.unchanged += diff.unchanged;
+    }
+    progress.processed += scope.processed;
+    const done = nextCursor === undefined;
+    if (done) {
+      delete progress.playerIds;
+      delete progress.playersUsed;
+    }
+
+    await ctx.db.patch(args.runId, {
+      cursor: nextCursor,
+      progress,
+      heartbeatAt: now,
+    });
+    await ctx.db.insert("jobEvents", {
+      runId: args.runId,
+      level: "debug",
+      message,
+      data: { cursor: nextCursor ?? null },
+      createdAt: now,
+    });
+    return {
+      done,
+      cancelled: false,
+      progress,
+      report: done
+        ? {
+            kind: "aggregation-diff",
+            name: `season-stat-aggregation-${season.legacyId ?? String(season._id)}.json`,
+            data: {
+              seasonId: String(season._id),
+              apply: run.apply,
+              generatedAt: now,
+              tables: progress.tables,
+            },
+          }
+        : undefined,
+    };
+  },
+});
@@ -0,0 +1,99 @@
+import { makeFunctionReference } from "convex/server";
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireCommissioner } from "./lib/auth";
+import { activeSigningSeason } from "./lib/contractEligibility";
+import { loadSigningPeriodCalendar } from "./lib/signingPeriods";
+
+const syncResignable = makeFunctionReference<"mutation", Record<string, never>>(
+  "contractEligibility:syncResignable",
+);
+
+const periodValidator = v.union(
+  v.literal("early"),
+  v.literal("late"),
+  v.literal("summer"),
+);
+
+const statusValidator = v.union(
+  v.literal("DRAFT"),
+  v.literal("RFA"),
+  v.literal("UFA"),
+);
+
+/** The season's rule 9.8 windows, defaulting to the active signing season. */
+export const calendar = query({
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    const seasons = await ctx.db.query("seasons").collect();
+    const season = args.seasonId
+      ? seasons.find((candidate) => candidate._id === args.seasonId)
+      : activeSigningSeason(seasons);
+    if (!season) return null;
+    return {
+      season: { id: String(season._id), name: season.name },
+      periods: await loadSigningPeriodCalendar(ctx, season),
+    };
+  },
+});
+
+export const setPeriod = mutation({
+  args: {
+    seasonId: v.id("seasons"),
+    period: periodValidator,
+    startAt: v.number(),
+    endAt: v.optional(v.number()),
+    allowedStatuses: v.array(statusValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireCommissioner(ctx);
+    if (!(await ctx.db.get(args.seasonId))) throw new Error("Season not found");
+    if (args.endAt !== undefined && args.endAt <= args.startAt)
+      throw new Error("A signing period must end after it starts.");
+    if (!args.allowedStatuses.length)
+      throw new Error("A signing period must allow at least one status.");
+    const now = Date.now();
+    const allowedStatuses = Array.from(new Set(args.allowedStatuses));
+    const existing = await ctx.db
+      .query("signingPeriods")
+      .withIndex("by_seasonId_period", (range) =>
+        range.eq("seasonId", args.seasonId).eq("period", args.period),
+      )
+      .unique();
+    const fields = {
+      startAt: args.startAt,
+      endAt: args.endAt,
+      allowedStatuses,
+      updatedBy: user.email,
+      updatedAt: now,
+    };
+    const id = existing
+      ? (await ctx.db.patch(existing._id, fields), existing._id)
+      : await ctx.db.insert("signingPeriods", {
+          seasonId: args.seasonId,
+          period: args.period,
+          ...fields,
+          createdAt: now,
+        });
+    await ctx.scheduler.runAfter(0, syncResignable, {});
+    return { id };
+  },
+});
+
+/** Drops a commissioner override so the window follows the season dates. */
+export const resetPeriod = mutation({
+  args: { seasonId: v.id("seasons"), period: periodValidator },
+  handler: async (ctx, args) => {
+    await requireCommissioner(ctx);
+    const existing = await ctx.db
+      .query("signingPeriods")
+      .withIndex("by_seasonId_period", (range) =>
+        range.eq("seasonId", args.seasonId).eq("period", args.period),
+      )
+      .unique();
+    if (!existing) return { deleted: false };
+    await ctx.db.delete(existing._id);
+    await ctx.scheduler.runAfter(0, syncResignable, {});
+    return { deleted: true };
+  },
+});
@@ -0,0 +1,204 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import type {
+  TeamSeasonStandingsUpdate,
+  TeamSeasonStatLine,
+} from "../src/lib/types";
+import { getRegularSeasonEndDate } from "../src/lib/utils/domain/season";
+import { buildSeasonStandings } from "../src/lib/utils/features/standings-engine";
+import { toMatchup, toWeek } from "./lib/domainRows";
+import { loadCurrentOwnerLadder, loadOwnerLadderAsOf } from "./lib/ownerLadder";
+
+const STANDINGS_FIELDS = [
+  "teamW",
+  "teamHW",
+  "teamHL",
+  "teamL",
+  "teamT",
+  "teamCCW",
+  "teamCCHW",
+  "teamCCHL",
+  "teamCCL",
+  "teamCCT",
+  "streak",
+  "overallRk",
+  "conferenceRk",
+  "wildcardRk",
+  "tiebreaks",
+] as const satisfies readonly (keyof TeamSeasonStandingsUpdate)[];
+
+function resolveStandingsSeason(
+  seasons: Doc<"seasons">[],
+  requestedSeasonId: string | undefined,
+): Doc<"seasons"> {
+  const season = requestedSeasonId
+    ? seasons.find(
+        (candidate) =>
+          String(candidate._id) === requestedSeasonId ||
+          String(candidate.legacyId ?? "") === requestedSeasonId,
+      )
+    : seasons.find((candidate) => candidate.isActive);
+  if (!season) {
+    throw new Error(
+      requestedSeasonId
+        ? `Season ${requestedSeasonId} was not found`
+        : "No active season was found",
+    );
+  }
+  return season;
+}
+
+/**
+ * Ranks each of the season's teams by its owner's position on the persisted
+ * Owner Ladder as it stood when the regular season ended, so rebuilding a
+ * past season does not pick up later ladder weeks. A season without a
+ * regular-season schedule falls back to the current ladder.
+ */
+async function loadOwnerLadderRanks(
+  ctx: MutationCtx,
+  franchises: Doc<"franchises">[],
+  seasonTeams: Doc<"teams">[],
+  regularSeasonEndDate: string | null,
+): Promise<Map<string, number>> {
+  const ladder = regularSeasonEndDate
+    ? await loadOwnerLadderAsOf(ctx, regularSeasonEndDate)
+    : await loadCurrentOwnerLadder(ctx);
+  const rankByOwner = new Map(
+    ladder.map((entry) => [String(entry.ownerId), entry.rank]),
+  );
+  const ownerByFranchise = new Map(
+    franchises.map((franchise) => [franchise._id, String(franchise.ownerId)]),
+  );
+  const ranks = new Map<string, number>();
+  for (const team of seasonTeams) {
+    const rank = rankByOwner.get(ownerByFranchise.get(team.franchiseId) ?? "");
+    if (rank !== undefined) ranks.set(String(team._id), rank);
+  }
+  return ranks;
+}
+
+function changedStandingsFields(
+  row: Doc<"teamSeasonStatLines">,
+  update: TeamSeasonStandingsUpdate,
+): Partial<TeamSeasonStandingsUpdate> {
+  const patch: Record<string, unknown> = {};
+  for (const field of STANDINGS_FIELDS) {
+    const current = (row as Record<string, unknown>)[field] ?? null;
+    if (JSON.stringify(current) !== JSON.stringify(update[field])) {
+      patch[field] = update[field];
+    }
+  }
+  return patch;
+}
+
+/**
+ * Native standings rebuild, replacing `standings:backfill`. Recomputes every
+ * team-season record, conference record and streak from the season's
+ * matchups, then ranks the regular season under the rule 4.5 tiebreaker
+ * chain and stores each tiebreaker decision beside the ranks. Matchup scores
+ * are read as stored. A season is small enough to rebuild in one batch.
+ */
+export const processStandingsBatch = internalMutation({
+  args: { runId: v.id("jobRuns") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    if (run.status === "cancelling") return { cancelled: true, done: true };
+    const jobArgs = (run.args ?? {}) as { seasonId?: unknown };
+    const [seasons, franchises] = await Promise.all([
+      ctx.db.query("seasons").collect(),
+      ctx.db.query("franchises").collect(),
+    ]);
+    const season = resolveStandingsSeason(
+      seasons,
+      typeof jobArgs.seasonId === "string" ? jobArgs.seasonId : undefined,
+    );
+    const seasonId = season._id;
+    const [weeks, matchups, teams, teamSeasons] = await Promise.all([
+      ctx.db
+        .query("weeks")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+        .collect(),
+      ctx.db
+        .query("matchups")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+        .collect(),
+      ctx.db
+        .query("teams")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+        .collect(),
+      ctx.db
+        .query("teamSeasonStatLines")
+        .withIndex("by_seasonId", (range) => range.eq("seasonId", seasonId))
+        .collect(),
+    ]);
+    const conferenceByTeamId = new Map(
+      teams.map((team) => [String(team._id), String(team.confId)]),
+    );
+
+    const seasonWeeks = weeks.map(toWeek);
+    const updates = buildSeasonStandings({
+      season,
+      weeks: seasonWeeks,
+      matchups: matchups.map(toMatchup),
+      teamSeasons: teamSeasons.map(
+        (row) =>
+          ({
+            id: String(row._id),
+            gshlTeamId: String(row.gshlTeamId),
+            seasonType: row.seasonType,
+          }) as Pick<TeamSeasonStatLine, "id" | "gshlTeamId" | "seasonType">,
+      ),
+      conferenceByTeamId,
+      ownerLadderRankByTeamId: await loadOwnerLadderRanks(
+        ctx,
+        franchises,
+        teams,
+        getRegularSeasonEndDate(seasonWeeks),
+      ),
+    });
+
+    const now = Date.now();
+    const rowById = new Map(teamSeasons.map((row) => [String(row._id), row]));
+    let updated = 0;
+    for (const update of updates) {
+      const row = rowById.get(update.id);
+      if (!row) continue;
+      const patch = changedStandingsFields(row, update);
+      if (!Object.keys(patch).length) continue;
+      updated += 1;
+      if (run.apply) {
+        await ctx.db.patch(row._id, {
+          ...patch,
+          updatedAt: now,
+        } as never);
+      }
+    }
+    const progress = {
+      processed: updates.length,
+      inserted: 0,
+      updated,
+      deleted: 0,
+      unchanged: updates.length - updated,
+      skipped: 0,
+    };
+
+    await ctx.db.patch(args.runId, { progress, heartbeatAt: now });
+    await ctx.db.insert("jobEvents", {
+      runId: args.runId,
+      level: "debug",
+      message: `Rebuilt standings for ${updates.length} team seasons`,
+      data: {
+        seasonId: String(season._id),
+        tiebreaks: updates.reduce(
+          (total, update) => total + update.tiebreaks.length,
+          0,
+        ),
+      },
+      createdAt: now,
+    });
+    return { done: true, cancelled: false, progress };
+  },
+});
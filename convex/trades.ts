@@ -0,0 +1,353 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireCommissioner } from "./lib/auth";
+import { toContract, toSeason } from "./lib/domainRows";
+import { rebuildTeamLineup } from "./lib/lineups";
+import {
+  loadTradeDeadlineStatus,
+  requireTradeWindowOpen,
+} from "./lib/tradeDeadline";
+import type { Trade, TradeAsset } from "../src/lib/types";
+import { getTorontoDate } from "../src/lib/utils/domain/contracts";
+import { planTrade } from "../src/lib/utils/features/trades";
+import { toUtcTimestamp } from "./lib/timestamps";
+import { loadUfaReservedCap } from "./lib/ufaCap";
+
+const tradeAssetValidator = v.object({
+  kind: v.union(v.literal("player"), v.literal("draftPick")),
+  fromOwnerId: v.id("owners"),
+  toOwnerId: v.id("owners"),
+  playerId: v.optional(v.id("players")),
+  draftPickId: v.optional(v.id("draftPicks")),
+  contractIds: v.optional(v.array(v.id("contracts"))),
+});
+
+function toTrade(row: Doc<"trades">): Trade {
+  return {
+    id: String(row._id),
+    seasonId: String(row.seasonId),
+    ownerIds: row.ownerIds.map(String),
+    assets: row.assets.map((asset) => ({
+      kind: asset.kind,
+      fromOwnerId: String(asset.fromOwnerId),
+      toOwnerId: String(asset.toOwnerId),
+      playerId: asset.playerId ? String(asset.playerId) : null,
+      draftPickId: asset.draftPickId ? String(asset.draftPickId) : null,
+      contractIds: (asset.contractIds ?? []).map(String),
+    })),
+    notes: row.notes ?? null,
+    executedAt: new Date(row.executedAt).toISOString(),
+    createdAt: new Date(row.createdAt).toISOString(),
+    updatedAt: new Date(row.updatedAt).toISOString(),
+  };
+}
+
+export const list = query({
+  args: {
+    seasonId: v.optional(v.id("seasons")),
+    ownerId: v.optional(v.id("owners")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = Math.min(Math.max(args.limit ?? 50, 1), 200);
+    const rows = args.seasonId
+      ? await ctx.db
+          .query("trades")
+          .withIndex("by_seasonId_executedAt", (range) =>
+            range.eq("seasonId", args.seasonId!),
+          )
+          .order("desc")
+          .collect()
+      : await ctx.db.query("trades").order("desc").collect();
+    const trades = rows
+      .filter(
+        (row) =>
+          !args.ownerId || row.ownerIds.some((id) => id === args.ownerId),
+      )
+      .sort((left, right) => right.executedAt - left.executedAt)
+      .slice(0, limit);
+
+    const assets = trades.flatMap((trade) => trade.assets);
+    const playerIds = [
+      ...new Set(assets.flatMap((asset) => asset.playerId ?? [])),
+    ];
+    const draftPickIds = [
+      ...new Set(assets.flatMap((asset) => asset.draftPickId ?? [])),
+    ];
+    const contractIds = [
+      ...new Set(assets.flatMap((asset) => asset.contractIds ?? [])),
+    ];
+    const [players, draftPicks, contracts] = await Promise.all([
+      Promise.all(playerIds.map((id) => ctx.db.get(id))),
+      Promise.all(draftPickIds.map((id) => ctx.db.get(id))),
+      Promise.all(contractIds.map((id) => ctx.db.get(id))),
+    ]);
+
+    return {
+      trades: trades.map(toTrade),
+      players: players.flatMap((player) =>
+        player ? [{ id: String(player._id), fullName: player.fullName }] : [],
+      ),
+      draftPicks: draftPicks.flatMap((draftPick) =>
+        draftPick
+          ? [
+              {
+                id: String(draftPick._id),
+                seasonId: String(draftPick.seasonId),
+                round: String(draftPick.round ?? ""),
+                pick: String(draftPick.pick ?? ""),
+              },
+            ]
+          : [],
+      ),
+      contracts: contracts.flatMap((contract) =>
+        contract
+          ? [
+              {
+                id: String(contract._id),
+                contractLength: Number(contract.contractLength ?? 0),
+                contractSalary: Number(contract.contractSalary ?? 0),
+              },
+            ]
+          : [],
+      ),
+    };
+  },
+});
+
+export const execute = mutation({
+  args: {
+    assets: v.array(tradeAssetValidator),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireCommissioner(ctx);
+    const seasonRows = await ctx.db.query("seasons").collect();
+    const tradeSeason = seasonRows.find((season) => season.isActive);
+    if (!tradeSeason) throw new Error("There is no active season to trade in");
+    const now = Date.now();
+    await requireTradeWindowOpen(ctx, tradeSeason, now);
+
+    const ownerIds = [
+      ...new Set(
+        args.assets.flatMap((asset) => [asset.fromOwnerId, asset.toOwnerId]),
+      ),
+    ];
+    const franchiseByOwnerId = new Map<Id<"owners">, Doc<"franchises">>();
+    for (const ownerId of ownerIds) {
+      const franchise = await ctx.db
+        .query("franchises")
+        .withIndex("by_ownerId", (range) => range.eq("ownerId", ownerId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .first();
+      if (!franchise) throw new Error("Every trade owner needs a franchise");
+      franchiseByOwnerId.set(ownerId, franchise);
+    }
+
+    const teamCache = new Map<string, Doc<"teams"> | null>();
+    const teamFor = async (
+      ownerId: Id<"owners">,
+      seasonId: Id<"seasons">,
+    ): Promise<Doc<"teams"> | null> => {
+      const key = `${ownerId}:${seasonId}`;
+      if (!teamCache.has(key)) {
+        const franchise = franchiseByOwnerId.get(ownerId);
+        teamCache.set(
+          key,
+          franchise
+            ? await ctx.db
+                .query("teams")
+                .withIndex("by_seasonId_franchiseId", (range) =>
+                  range
+                    .eq("seasonId", seasonId)
+                    .eq("franchiseId", franchise._id),
+                )
+                .first()
+            : null,
+        );
+      }
+      return teamCache.get(key) ?? null;
+    };
+
+    const draftPicks = new Map<Id<"draftPicks">, Doc<"draftPicks">>();
+    for (const asset of args.assets) {
+      if (asset.kind === "player" && asset.playerId) {
+        const player = await ctx.db.get(asset.playerId);
+        if (!player) throw new Error("Traded player not found");
+        if (player.ownerId !== asset.fromOwnerId) {
+          throw new Error(
+            `${player.fullName} is not on the sending owner's roster`,
+          );
+        }
+      }
+      if (asset.kind === "draftPick" && asset.draftPickId) {
+        const draftPick = await ctx.db.get(asset.draftPickId);
+        if (!draftPick) throw new Error("Traded draft pick not found");
+        if (draftPick.playerId) {
+          throw new Error("A draft pick that has been used cannot be traded");
+        }
+        const sendingTeam = await teamFor(
+          asset.fromOwnerId,
+          draftPick.seasonId,
+        );
+        if (!sendingTeam || draftPick.gshlTeamId !== sendingTeam._id) {
+          throw new Error("The sending owner does not hold that draft pick");
+        }
+        if (!(await teamFor(asset.toOwnerId, draftPick.seasonId))) {
+          throw new Error(
+            "The receiving owner has no team in that draft pick's season",
+          );
+        }
+        draftPicks.set(draftPick._id, draftPick);
+      }
+    }
+
+    const contractRows = (
+      await Promise.all(
+        ownerIds.map((ownerId) =>
+          ctx.db
+            .query("contracts")
+            .withIndex("by_ownerId", (range) => range.eq("ownerId", ownerId))
+            .collect(),
+        ),
+      )
+    ).flat();
+    const ownerNames = new Map(
+      [...franchiseByOwnerId].map(([ownerId, franchise]) => [
+        String(ownerId),
+        franchise.name,
+      ]),
+    );
+    const assets: TradeAsset[] = args.assets.map((asset) => ({
+      kind: asset.kind,
+      fromOwnerId: String(asset.fromOwnerId),
+      toOwnerId: String(asset.toOwnerId),
+      playerId: asset.playerId ? String(asset.playerId) : null,
+      draftPickId: asset.draftPickId ? String(asset.draftPickId) : null,
+      contractIds: asset.contractIds?.map(String),
+    }));
+    const seasons = seasonRows.map(toSeason);
+    const reservedCapByOwnerId = new Map(
+      await Promise.all(
+        ownerIds.map(
+          async (ownerId) =>
+            [
+              String(ownerId),
+              await loadUfaReservedCap(ctx, ownerId, seasons),
+            ] as const,
+        ),
+      ),
+    );
+    const plan = planTrade({
+      assets,
+      contracts: contractRows.map(toContract),
+      seasons,
+      tradeSeasonId: String(tradeSeason._id),
+      tradeDate: getTorontoDate(new Date(now)),
+      ownerNames,
+      reservedCapByOwnerId,
+    });
+    if (plan.errors.length) throw new Error(plan.errors.join(" "));
+
+    for (const move of plan.contractMoves) {
+      await ctx.db.patch(move.contractId as Id<"contracts">, {
+        ownerId: move.toOwnerId as Id<"owners">,
+        updatedAt: now,
+      });
+    }
+    for (const asset of args.assets) {
+      if (asset.kind === "player" && asset.playerId) {
+        const receivingTeam = await teamFor(asset.toOwnerId, tradeSeason._id);
+        await ctx.db.patch(asset.playerId, {
+          ownerId: asset.toOwnerId,
+          gshlTeamId: receivingTeam?._id,
+          lineupPos: null,
+          updatedAt: now,
+        });
+      }
+      if (asset.kind === "draftPick" && asset.draftPickId) {
+        const draftPick = draftPicks.get(asset.draftPickId);
+        const receivingTeam = draftPick
+          ? await teamFor(asset.toOwnerId, draftPick.seasonId)
+          : null;
+        if (!draftPick || !receivingTeam) continue;
+        await ctx.db.patch(draftPick._id, {
+          gshlTeamId: receivingTeam._id,
+          originalTeamId: draftPick.originalTeamId ?? draftPick.gshlTeamId,
+          isTraded: true,
+          updatedAt: now,
+        });
+      }
+    }
+
+    for (const ownerId of ownerIds) {
+      const team = await teamFor(ownerId, tradeSeason._id);
+      if (!team) continue;
+      await rebuildTeamLineup(ctx, ownerId, team._id, now);
+    }
+
+    const movedContractIds = (playerId: Id<"players"> | undefined) =>
+      plan.contractMoves
+        .filter((move) => move.playerId === String(playerId))
+        .map((move) => move.contractId as Id<"contracts">);
+    const notes = args.notes?.trim();
+    const tradeId = await ctx.db.insert("trades", {
+      seasonId: tradeSeason._id,
+      ownerIds,
+      assets: args.assets.map((asset) =>
+        asset.kind === "player"
+          ? {
+              kind: asset.kind,
+              fromOwnerId: asset.fromOwnerId,
+              toOwnerId: asset.toOwnerId,
+              playerId: asset.playerId,
+              contractIds: movedContractIds(asset.playerId),
+            }
+          : {
+              kind: asset.kind,
+              fromOwnerId: asset.fromOwnerId,
+              toOwnerId: asset.toOwnerId,
+              draftPickId: asset.draftPickId,
+            },
+      ),
+      ...(notes ? { notes } : {}),
+      recordedBy: user.email,
+      executedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const trade = await ctx.db.get(tradeId);
+    if (!trade) throw new Error("The trade could not be recorded");
+    return {
+      trade: toTrade(trade),
+      capChecks: plan.capChecks,
+    };
+  },
+});
+
+export const setDeadline = mutation({
+  args: {
+    seasonId: v.id("seasons"),
+    tradeDeadlineDate: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    await requireCommissioner(ctx);
+    const season = await ctx.db.get(args.seasonId);
+    if (!season) throw new Error("Season not found");
+    const tradeDeadlineDate =
+      args.tradeDeadlineDate === null
+        ? null
+        : toUtcTimestamp(args.tradeDeadlineDate);
+    if (
+      args.tradeDeadlineDate !== null &&
+      (tradeDeadlineDate === null ||
+        !/^\d{4}-\d{2}-\d{2}$/.test(args.tradeDeadlineDate))
+    ) {
+      throw new Error("The trade deadline must be a YYYY-MM-DD date");
+    }
+    const now = Date.now();
+    await ctx.db.patch(season._id, { tradeDeadlineDate, updatedAt: now });
+    return loadTradeDeadlineStatus(ctx, { ...season, tradeDeadlineDate }, now);
+  },
+});
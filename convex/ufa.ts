@@ -8,8 +8,28 @@ import {
   mutation,
   query,
 } from "./_generated/server";
-import { getUfaOfferGroupDeadline } from "../src/lib/utils/features/ufa-deadline";
-import { requireOwnerOrCommissioner } from "./lib/auth";
+import {
+  getUfaOfferChangeBlock,
+  getUfaOfferGroupDeadline,
+} from "../src/lib/utils/features/ufa-deadline";
+import {
+  createUfaDrawSeed,
+  deriveUfaDrawRoll,
+  hashUfaDrawSeed,
+  pickUfaDrawWinner,
+} from "../src/lib/utils/features/ufa-draw";
+import { getUfaOfferStandingBand } from "../src/lib/utils/features/ufa-odds";
+import { GM_BASE_RATING } from "../src/lib/utils/features/power-gm-ladder";
+import { requireOwnerAccess, requireOwnerOrCommissioner } from "./lib/auth";
+import { loadCurrentOwnerLadder } from "./lib/ownerLadder";
+import {
+  loadContractEligibility,
+  requireContractEligibility,
+} from "./lib/contractEligibility";
+import {
+  loadSigningPeriodCalendar,
+  requireSigningPeriodOpen,
+} from "./lib/signingPeriods";
 import { utcTimestampToDateKey } from "./lib/timestamps";
 
 const CAP = 25_000_000;
@@ -36,14 +56,6 @@ const num = (value: unknown, fallback = 0) => {
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
-const torontoDate = (at = Date.now()) =>
-  new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/Toronto",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date(at));
-
 function percentile(value: number, population: number[]) {
   const valid = population.filter(Number.isFinite).sort((a, b) => a - b);
   if (!valid.length || !Number.isFinite(value)) return 0.5;
@@ -185,6 +197,67 @@ async function draftPicksForSigningWindow(
   return picksBySeason.flat();
 }
 
+async function requireUfaCapSpace(
+  db: any,
+  options: {
+    ownerId: any;
+    seasonId: any;
+    contractLength: number;
+    salary: number;
+    orderedSeasons: any[];
+    contracts: any[];
+    // An amended offer stops reserving cap for its old term.
+    excludeOfferId?: any;
+  },
+) {
+  const { ownerId, orderedSeasons, contracts, salary } = options;
+  const signingIndex = orderedSeasons.findIndex(
+    (season: any) => season._id === options.seasonId,
+  );
+  const newCovered = orderedSeasons.slice(
+    signingIndex + 1,
+    signingIndex + 1 + options.contractLength,
+  );
+  if (newCovered.length !== options.contractLength)
+    throw new Error("The required future seasons are not configured.");
+  const pendingOffers = (
+    await db
+      .query("ufaOffers")
+      .withIndex("by_owner_status", (q: any) =>
+        q.eq("ownerId", ownerId).eq("status", "pending"),
+      )
+      .collect()
+  ).filter((offer: any) => offer._id !== options.excludeOfferId);
+  for (const season of newCovered) {
+    const committed = contracts
+      .filter(
+        (contract: any) =>
+          contract.ownerId === ownerId &&
+          contractAffectsSeason(contract, season, orderedSeasons),
+      )
+      .reduce(
+        (sum: number, contract: any) =>
+          sum + num(contract.capHit, num(contract.contractSalary)),
+        0,
+      );
+    const reserved = pendingOffers
+      .filter((offer: any) => {
+        const offerIndex = orderedSeasons.findIndex(
+          (item: any) => item._id === offer.seasonId,
+        );
+        return orderedSeasons
+          .slice(offerIndex + 1, offerIndex + 1 + num(offer.contractLength))
+          .some((item: any) => item._id === season._id);
+      })
+      .reduce((sum: number, offer: any) => sum + num(offer.salary), 0);
+    if (committed + reserved + salary > CAP) {
+      throw new Error(
+        `Your franchise does not have enough cap space for ${season.name ?? season.year}.`,
+      );
+    }
+  }
+}
+
 async function calculateOdds(ctx: any, groupId: any) {
   const db: any = ctx.db;
   const offers = await db
@@ -193,12 +266,21 @@ async function calculateOdds(ctx: any, groupId: any) {
     .collect();
   const pending = offers.filter((offer: any) => offer.status === "pending");
   if (!pending.length) return { odds: [], factors: new Map<string, unknown>() };
-
-  const [group, seasons] = await Promise.all([
-    db.get(groupId),
-    db.query("seasons").collect(),
-  ]);
+  const group = await db.get(groupId);
   if (!group) return { odds: [], factors: new Map<string, unknown>() };
+  const { scores, factors } = await scoreUfaOffers(ctx, group, pending);
+  return { odds: softmaxOdds(scores), factors };
+}
+
+// Scores each offer independently; softmaxOdds turns the scores of competing
+// offers into probabilities.
+async function scoreUfaOffers(
+  ctx: any,
+  group: { seasonId: any; playerId: any },
+  pending: any[],
+) {
+  const db: any = ctx.db;
+  const seasons = await db.query("seasons").collect();
   const orderedSeasons = [...seasons].sort((a, b) => num(a.year) - num(b.year));
   const signingIndex = orderedSeasons.findIndex(
     (season) => season._id === group.seasonId,
@@ -212,7 +294,7 @@ async function calculateOdds(ctx: any, groupId: any) {
     picks,
     matchups,
     nhlStats,
-    teamAwards,
+    ladder,
   ] = await Promise.all([
     db.query("players").collect(),
     db.query("contracts").collect(),
@@ -221,7 +303,7 @@ async function calculateOdds(ctx: any, groupId: any) {
     draftPicksForSigningWindow(db, orderedSeasons, signingIndex),
     db.query("matchups").collect(),
     latestNhlStatsForSigningSeason(db, orderedSeasons, signingIndex),
-    db.query("teamAwards").collect(),
+    loadCurrentOwnerLadder(ctx),
   ]);
   const player = players.find(
     (candidate: any) => candidate._id === group.playerId,
@@ -261,61 +343,15 @@ async function calculateOdds(ctx: any, groupId: any) {
     );
   const playerPercentile = percentile(playerRating, peerRatings);
 
-  const franchiseById = new Map<string, any>(
-    franchises.map((franchise: any) => [String(franchise._id), franchise]),
-  );
-  const ownerByTeamId = new Map<string, string>(
-    teams.map((team: any) => [
-      String(team._id),
-      String(franchiseById.get(String(team.franchiseId))?.ownerId ?? ""),
-    ]),
-  );
+  // Owners not yet on the persisted ladder enter at its base rating.
   const ladderByOwner = new Map<string, number>(
-    franchises.map((franchise: any) => [String(franchise.ownerId), 250]),
-  );
-  const chronologicalMatches = [...matchups].sort((a: any, b: any) =>
-    String(a.createdAt ?? a._creationTime).localeCompare(
-      String(b.createdAt ?? b._creationTime),
-    ),
+    franchises.map((franchise: any) => [
+      String(franchise.ownerId),
+      GM_BASE_RATING,
+    ]),
   );
-  for (const matchup of chronologicalMatches) {
-    const homeOwner = ownerByTeamId.get(String(matchup.homeTeamId));
-    const awayOwner = ownerByTeamId.get(String(matchup.awayTeamId));
-    const homeScore = num(matchup.homeScore, Number.NaN);
-    const awayScore = num(matchup.awayScore, Number.NaN);
-    if (
-      !homeOwner ||
-      !awayOwner ||
-      homeOwner === awayOwner ||
-      !Number.isFinite(homeScore) ||
-      !Number.isFinite(awayScore)
-    )
-      continue;
-    const homeRating = ladderByOwner.get(homeOwner) ?? 250;
-    const awayRating = ladderByOwner.get(awayOwner) ?? 250;
-    const expected = 1 / (1 + 10 ** ((awayRating - homeRating) / 400));
-    const actual =
-      homeScore === awayScore ? 0.5 : homeScore > awayScore ? 1 : 0;
-    const type = String(matchup.gameType);
-    const k = type === "F" ? 40 : type === "SF" ? 34 : type === "QF" ? 28 : 20;
-    const delta = k * (actual - expected);
-    ladderByOwner.set(homeOwner, homeRating + delta);
-    ladderByOwner.set(awayOwner, awayRating - delta);
-  }
-  for (const award of teamAwards) {
-    const ownerId = String(award.ownerId ?? "");
-    if (!ownerId || !ladderByOwner.has(ownerId)) continue;
-    const name = String(award.award);
-    const bonus =
-      name === "gshlCup"
-        ? 40
-        : name === "gmoy" || name === "jackAdams"
-          ? 20
-          : name === "brophy"
-            ? -10
-            : 5;
-    ladderByOwner.set(ownerId, (ladderByOwner.get(ownerId) ?? 250) + bonus);
-  }
+  for (const entry of ladder)
+    ladderByOwner.set(String(entry.ownerId), entry.rating);
   const ownerWinScores = [...ladderByOwner.entries()].map(
     ([ownerId, value]) => ({ ownerId, value }),
   );
@@ -473,7 +509,7 @@ async function calculateOdds(ctx: any, groupId: any) {
     });
     return { offerId: String(offer._id), score };
   });
-  return { odds: softmaxOdds(scores), factors };
+  return { scores, factors };
 }
 
 export const listState = query({
@@ -510,13 +546,21 @@ export const publicState = query({
     const currentUser = identity ? await db.get(identity.subject) : null;
     const groups = await db.query("ufaOfferGroups").collect();
     const offers = await db.query("ufaOffers").collect();
-    const oddsEntries = await Promise.all(
+    // Open groups only report each offer's band, the same as the standing
+    // preview; exact odds would let owners back out the signing weights.
+    const standingEntries = await Promise.all(
       groups
         .filter((group: any) => group.status === "open")
-        .map(async (group: any) => [
-          String(group._id),
-          (await calculateOdds(ctx, group._id)).odds,
-        ]),
+        .map(async (group: any) => {
+          const { odds } = await calculateOdds(ctx, group._id);
+          return [
+            String(group._id),
+            odds.map((entry: { offerId: string; probability: number }) => ({
+              offerId: entry.offerId,
+              band: getUfaOfferStandingBand(entry.probability, odds.length),
+            })),
+          ];
+        }),
     );
     return {
       groups: groups.map((group: any) => ({ ...group, id: group._id })),
@@ -527,9 +571,236 @@ export const publicState = query({
         contractLength: offer.contractLength,
         salary: offer.salary,
         status: offer.status,
+        submittedAt: offer.submittedAt,
         isMine: currentUser?.ownerId === offer.ownerId,
       })),
-      oddsByGroup: Object.fromEntries(oddsEntries),
+      standingByGroup: Object.fromEntries(standingEntries),
+    };
+  },
+});
+
+/**
+ * League-wide view of the signing season's UFA market. Open groups only carry
+ * how many offers compete, never whose they are; resolved groups carry the
+ * winning term. The viewer's own pending offers are flagged for the watchlist.
+ */
+export const marketBoard = query({
+  args: {},
+  handler: async (ctx) => {
+    const db: any = ctx.db;
+    const identity = await ctx.auth.getUserIdentity();
+    const currentUser = identity ? await db.get(identity.subject) : null;
+    const ownerId = currentUser?.ownerId ?? null;
+    const seasons = await db.query("seasons").collect();
+    const signingSeason = seasons.find((season: any) => season.isActive);
+    if (!signingSeason)
+      return { open: [], signings: [], marketEditionId: null };
+    // Only live and resolved groups reach the board, so withdrawn and failed
+    // groups are never read.
+    const [openGroups, resolvedGroups, marketEdition] = await Promise.all([
+      ...(["open", "resolved"] as const).map((status) =>
+        db
+          .query("ufaOfferGroups")
+          .withIndex("by_season_status", (q: any) =>
+            q.eq("seasonId", signingSeason._id).eq("status", status),
+          )
+          .collect(),
+      ),
+      // The newest offseason-market issue covers this summer's market.
+      db
+        .query("weeklyEditions")
+        .withIndex("by_status_publishedAt", (q: any) =>
+          q.eq("status", "published"),
+        )
+        .order("desc")
+        .filter((q: any) => q.eq(q.field("issueType"), "offseason_market"))
+        .first(),
+    ]);
+    const seasonGroups = [...openGroups, ...resolvedGroups];
+    const [players, groupOffers] = await Promise.all([
+      Promise.all(seasonGroups.map((group: any) => db.get(group.playerId))),
+      Promise.all(
+        seasonGroups.map((group: any) =>
+          db
+            .query("ufaOffers")
+            .withIndex("by_group", (q: any) => q.eq("groupId", group._id))
+            .collect(),
+        ),
+      ),
+    ]);
+    const open: unknown[] = [];
+    const signings: unknown[] = [];
+    seasonGroups.forEach((group: any, index: number) => {
+      const player = players[index];
+      const offers = groupOffers[index] ?? [];
+      const base = {
+        groupId: group._id,
+        playerId: group.playerId,
+        playerName: player?.fullName ?? "Unknown player",
+        nhlTeam: player?.nhlTeam ?? "",
+        posGroup: String(player?.posGroup ?? "F"),
+        positions: Array.isArray(player?.nhlPos) ? player.nhlPos : [],
+      };
+      if (group.status === "open") {
+        const pending = offers.filter(
+          (offer: any) => offer.status === "pending",
+        );
+        open.push({
+          ...base,
+          salary: Math.round(num(player?.salary, 0) * 1.25),
+          deadlineAt: group.deadlineAt,
+          offerCount: pending.length,
+          lastOfferAt: Math.max(
+            0,
+            ...pending.map((offer: any) => num(offer.submittedAt)),
+          ),
+          myTerm:
+            pending.find((offer: any) => ownerId && offer.ownerId === ownerId)
+              ?.contractLength ?? null,
+        });
+      } else if (group.status === "resolved" && group.winningOfferId) {
+        const winner = offers.find(
+          (offer: any) => offer._id === group.winningOfferId,
+        );
+        if (!winner) return;
+        signings.push({
+          ...base,
+          salary: winner.salary,
+          years: winner.contractLength,
+          offerCount: offers.filter(
+            (offer: any) => offer.status !== "withdrawn",
+          ).length,
+          resolvedAt: group.resolvedAt ?? group.updatedAt,
+        });
+      }
+    });
+    return {
+      open,
+      signings,
+      marketEditionId: marketEdition?._id ?? null,
+    };
+  },
+});
+
+/**
+ * Public record of one offer group's draw. The seed is only returned once
+ * the group has resolved; the factor snapshots behind the odds never are.
+ */
+export const drawVerification = query({
+  args: { groupId: v.string() },
+  handler: async (ctx, args) => {
+    const db: any = ctx.db;
+    const groupId = db.normalizeId("ufaOfferGroups", args.groupId);
+    const group = groupId ? await db.get(groupId) : null;
+    if (!group) return null;
+    const [player, offers] = await Promise.all([
+      db.get(group.playerId),
+      db
+        .query("ufaOffers")
+        .withIndex("by_group", (q: any) => q.eq("groupId", group._id))
+        .collect(),
+    ]);
+    const franchises = await Promise.all(
+      offers.map((offer: any) => db.get(offer.franchiseId)),
+    );
+    const resolved = group.status === "resolved";
+    return {
+      id: group._id,
+      playerName: player?.fullName ?? "Unknown player",
+      status: group.status,
+      deadlineAt: group.deadlineAt,
+      resolvedAt: group.resolvedAt ?? null,
+      seedHash: group.seedHash ?? null,
+      revealedSeed: resolved ? (group.revealedSeed ?? null) : null,
+      randomRoll: resolved ? (group.randomRoll ?? null) : null,
+      odds: resolved && group.finalOdds ? JSON.parse(group.finalOdds) : [],
+      winningOfferId: group.winningOfferId ?? null,
+      offers: offers.map((offer: any, index: number) => ({
+        id: offer._id,
+        franchiseName: franchises[index]?.name ?? "Unknown franchise",
+        franchiseLogoUrl: franchises[index]?.logoUrl ?? null,
+        contractLength: offer.contractLength,
+        salary: offer.salary,
+        status: offer.status,
+      })),
+    };
+  },
+});
+
+export const previewOfferStanding = query({
+  args: { playerId: v.string() },
+  handler: async (ctx, args) => {
+    const db: any = ctx.db;
+    const identity = await ctx.auth.getUserIdentity();
+    const currentUser = identity ? await db.get(identity.subject) : null;
+    const ownerId = currentUser?.ownerId;
+    if (!ownerId) return null;
+    const [player, seasons, franchises] = await Promise.all([
+      resolveUfaPlayer(db, args.playerId),
+      db.query("seasons").collect(),
+      db.query("franchises").collect(),
+    ]);
+    const signingSeason = seasons.find((season: any) => season.isActive);
+    const franchise = franchises.find(
+      (candidate: any) => candidate.ownerId === ownerId && candidate.isActive,
+    );
+    if (!player || !signingSeason || !franchise) return null;
+    const group = await db
+      .query("ufaOfferGroups")
+      .withIndex("by_player_season", (q: any) =>
+        q.eq("playerId", player._id).eq("seasonId", signingSeason._id),
+      )
+      .first();
+    if (group && group.status !== "open" && group.status !== "withdrawn")
+      return null;
+    const offers = group
+      ? (
+          await db
+            .query("ufaOffers")
+            .withIndex("by_group", (q: any) => q.eq("groupId", group._id))
+            .collect()
+        ).filter((offer: any) => offer.status === "pending")
+      : [];
+    const competing = offers.filter(
+      (offer: any) => offer.franchiseId !== franchise._id,
+    );
+    const previews = ([1, 2, 3] as const).map((years) => ({
+      _id: `preview-${years}`,
+      franchiseId: franchise._id,
+      ownerId,
+      contractLength: years,
+    }));
+    const { scores } = await scoreUfaOffers(
+      ctx,
+      { seasonId: signingSeason._id, playerId: player._id },
+      [...competing, ...previews],
+    );
+    const competingScores = scores.filter(
+      (entry: { offerId: string }) => !entry.offerId.startsWith("preview-"),
+    );
+    return {
+      playerId: String(player._id),
+      competingOffers: competing.length,
+      currentTerm:
+        offers.find((offer: any) => offer.franchiseId === franchise._id)
+          ?.contractLength ?? null,
+      // Live odds only leave the server as bands, here and in publicState, so
+      // probing terms cannot reveal the weights.
+      terms: previews.map((preview) => {
+        const own = scores.find(
+          (entry: { offerId: string }) => entry.offerId === preview._id,
+        );
+        const odds = own ? softmaxOdds([...competingScores, own]) : [];
+        const probability =
+          odds.find((entry) => entry.offerId === preview._id)?.probability ?? 0;
+        return {
+          years: preview.contractLength,
+          band: getUfaOfferStandingBand(
+            probability,
+            competingScores.length + 1,
+          ),
+        };
+      }),
     };
   },
 });
@@ -568,10 +839,11 @@ export const submitOffer = mutation({
     );
     const signingSeason = orderedSeasons.find((season: any) => season.isActive);
     if (!signingSeason) throw new Error("There is no active signing season.");
-    const signingEndDate = normalizeDateOnly(signingSeason.signingEndDate);
-    if (!signingEndDate || torontoDate(now) <= signingEndDate) {
-      throw new Error("Summer Free Agency is not open.");
-    }
+    requireSigningPeriodOpen(
+      await loadSigningPeriodCalendar(ctx, signingSeason),
+      "UFA",
+      now,
+    );
     if (
       !isUnsignedAfterSigningDeadline(
         player._id,
@@ -582,6 +854,7 @@ export const submitOffer = mutation({
     ) {
       throw new Error("This player is already under contract.");
     }
+    await requireContractEligibility(ctx, player, ownerId, now);
     const franchise = franchises.find(
       (candidate: any) => candidate.ownerId === ownerId && candidate.isActive,
     );
@@ -611,16 +884,43 @@ export const submitOffer = mutation({
         .query("ufaOffers")
         .withIndex("by_group", (q: any) => q.eq("groupId", group!._id))
         .collect();
+      const reopening = group.status === "withdrawn";
       const sharedDeadlineAt = getUfaOfferGroupDeadline({
         submittedAt: now,
-        existingDeadlineAt: group.deadlineAt,
-        existingOfferSubmittedAt: existingOffers.map(
-          (offer: any) => offer.submittedAt,
-        ),
+        existingDeadlineAt: reopening ? undefined : group.deadlineAt,
+        existingOfferSubmittedAt: existingOffers
+          .filter((offer: any) => offer.status === "pending")
+          .map((offer: any) => offer.submittedAt),
       });
-      if (group.status !== "open" || sharedDeadlineAt <= now) {
+      if ((group.status !== "open" && !reopening) || sharedDeadlineAt <= now) {
         throw new Error("Offers for this player are closed.");
       }
+      const duplicate = existingOffers.find(
+        (offer: any) => offer.franchiseId === franchise._id,
+      );
+      if (duplicate)
+        throw new Error(
+          duplicate.status === "withdrawn"
+            ? "Your franchise withdrew its offer to this player and cannot make another."
+            : "Your franchise has already made a binding offer to this player.",
+        );
+      if (reopening) {
+        // A reopened group draws from a fresh commitment.
+        const seed = createUfaDrawSeed();
+        const previousSeeds = await db
+          .query("ufaDrawSeeds")
+          .withIndex("by_groupId", (q: any) => q.eq("groupId", group!._id))
+          .collect();
+        for (const previous of previousSeeds) await db.delete(previous._id);
+        await db.insert("ufaDrawSeeds", {
+          groupId: group._id,
+          seed,
+          createdAt: now,
+        });
+        const seedHash = await hashUfaDrawSeed(seed);
+        await db.patch(group._id, { status: "open", seedHash, updatedAt: now });
+        group = { ...group, status: "open", seedHash, updatedAt: now };
+      }
       if (sharedDeadlineAt !== group.deadlineAt) {
         await db.patch(group._id, {
           deadlineAt: sharedDeadlineAt,
@@ -631,69 +931,30 @@ export const submitOffer = mutation({
           groupId: group._id,
         });
       }
-      const duplicate = existingOffers.find(
-        (offer: any) => offer.franchiseId === franchise._id,
-      );
-      if (duplicate)
-        throw new Error(
-          "Your franchise has already made a binding offer to this player.",
-        );
     }
 
-    const signingIndex = orderedSeasons.findIndex(
-      (season: any) => season._id === signingSeason._id,
-    );
-    const newCovered = orderedSeasons.slice(
-      signingIndex + 1,
-      signingIndex + 1 + args.contractLength,
-    );
-    if (newCovered.length !== args.contractLength)
-      throw new Error("The required future seasons are not configured.");
-    const pendingOffers = await db
-      .query("ufaOffers")
-      .withIndex("by_owner_status", (q: any) =>
-        q.eq("ownerId", ownerId).eq("status", "pending"),
-      )
-      .collect();
-    for (const season of newCovered) {
-      const committed = contracts
-        .filter(
-          (contract: any) =>
-            contract.ownerId === ownerId &&
-            contractAffectsSeason(contract, season, orderedSeasons),
-        )
-        .reduce(
-          (sum: number, contract: any) =>
-            sum + num(contract.capHit, num(contract.contractSalary)),
-          0,
-        );
-      const reserved = pendingOffers
-        .filter((offer: any) => {
-          const offerIndex = orderedSeasons.findIndex(
-            (item: any) => item._id === offer.seasonId,
-          );
-          return orderedSeasons
-            .slice(offerIndex + 1, offerIndex + 1 + num(offer.contractLength))
-            .some((item: any) => item._id === season._id);
-        })
-        .reduce((sum: number, offer: any) => sum + num(offer.salary), 0);
-      if (committed + reserved + salary > CAP) {
-        throw new Error(
-          `Your franchise does not have enough cap space for ${season.name ?? season.year}.`,
-        );
-      }
-    }
+    await requireUfaCapSpace(db, {
+      ownerId,
+      seasonId: signingSeason._id,
+      contractLength: args.contractLength,
+      salary,
+      orderedSeasons,
+      contracts,
+    });
 
     if (!group) {
       const deadlineAt = getUfaOfferGroupDeadline({ submittedAt: now });
+      const seed = createUfaDrawSeed();
       const groupId = await db.insert("ufaOfferGroups", {
         playerId: player._id,
         seasonId: signingSeason._id,
         deadlineAt,
         status: "open",
+        seedHash: await hashUfaDrawSeed(seed),
         createdAt: now,
         updatedAt: now,
       });
+      await db.insert("ufaDrawSeeds", { groupId, seed, createdAt: now });
       group = await db.get(groupId);
       await ctx.scheduler.runAt(deadlineAt, internal.ufa.resolveGroup, {
         groupId,
@@ -717,19 +978,129 @@ export const submitOffer = mutation({
   },
 });
 
+async function loadChangeableOffer(
+  ctx: any,
+  args: { serverSecret?: string; offerId: string },
+  action: "withdraw" | "amend",
+) {
+  const db: any = ctx.db;
+  const offerId = db.normalizeId("ufaOffers", args.offerId);
+  const offer = offerId ? await db.get(offerId) : null;
+  if (!offer) throw new Error("This offer no longer exists.");
+  if (args.serverSecret) requireServerSecret(args.serverSecret);
+  else await requireOwnerAccess(ctx, offer.ownerId);
+  const group = await db.get(offer.groupId);
+  if (!group || group.status !== "open")
+    throw new Error("Offers for this player are closed.");
+  const groupOffers = await db
+    .query("ufaOffers")
+    .withIndex("by_group", (q: any) => q.eq("groupId", group._id))
+    .collect();
+  const now = Date.now();
+  const blocked = getUfaOfferChangeBlock({
+    action,
+    offer: { ...offer, id: String(offer._id) },
+    groupOffers: groupOffers.map((entry: any) => ({
+      ...entry,
+      id: String(entry._id),
+    })),
+    deadlineAt: group.deadlineAt,
+    now,
+  });
+  if (blocked) throw new Error(blocked);
+  return { db, offer, group, groupOffers, now };
+}
+
+export const withdrawOffer = mutation({
+  args: {
+    serverSecret: v.optional(v.string()),
+    offerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { db, offer, group, groupOffers, now } = await loadChangeableOffer(
+      ctx,
+      args,
+      "withdraw",
+    );
+    await db.patch(offer._id, {
+      status: "withdrawn",
+      withdrawnAt: now,
+      updatedAt: now,
+    });
+    const remaining = groupOffers.filter(
+      (entry: any) => entry.status === "pending" && entry._id !== offer._id,
+    );
+    if (!remaining.length)
+      await db.patch(group._id, { status: "withdrawn", updatedAt: now });
+    return {
+      offerId: offer._id,
+      groupStatus: remaining.length ? "open" : "withdrawn",
+    };
+  },
+});
+
+export const amendOffer = mutation({
+  args: {
+    serverSecret: v.optional(v.string()),
+    offerId: v.string(),
+    contractLength: v.number(),
+  },
+  handler: async (ctx, args) => {
+    if (![1, 2, 3].includes(args.contractLength))
+      throw new Error("Contract length must be 1, 2, or 3 years.");
+    const { db, offer, now } = await loadChangeableOffer(ctx, args, "amend");
+    if (offer.contractLength === args.contractLength)
+      throw new Error(
+        `This offer is already for ${args.contractLength} years.`,
+      );
+    const [seasons, contracts] = await Promise.all([
+      db.query("seasons").collect(),
+      db.query("contracts").collect(),
+    ]);
+    await requireUfaCapSpace(db, {
+      ownerId: offer.ownerId,
+      seasonId: offer.seasonId,
+      contractLength: args.contractLength,
+      salary: offer.salary,
+      orderedSeasons: [...seasons].sort(
+        (a: any, b: any) => num(a.year) - num(b.year),
+      ),
+      contracts,
+      excludeOfferId: offer._id,
+    });
+    await db.patch(offer._id, {
+      contractLength: args.contractLength,
+      updatedAt: now,
+    });
+    return { offerId: offer._id, contractLength: args.contractLength };
+  },
+});
+
 export const resolveGroup = internalAction({
   args: { groupId: v.id("ufaOfferGroups") },
   handler: async (ctx, args) => {
     try {
       const prepared = await ctx.runQuery(internal.ufa.prepareResolution, args);
       if (!prepared) return;
-      const values = new Uint32Array(1);
-      crypto.getRandomValues(values);
-      const roll = (values[0] ?? 0) / 2 ** 32;
+      const { seed, odds, factorSnapshots } = prepared;
+      let roll: number;
+      if (seed) {
+        roll = await deriveUfaDrawRoll(
+          seed,
+          odds.map((entry) => entry.offerId),
+        );
+      } else {
+        // Groups opened before commit-reveal have no seed to draw from.
+        const values = new Uint32Array(1);
+        crypto.getRandomValues(values);
+        roll = (values[0] ?? 0) / 2 ** 32;
+      }
       await ctx.runMutation(internal.ufa.finalizeGroup, {
         ...args,
-        ...prepared,
+        odds,
+        factorSnapshots,
         roll,
+        ...(seed ? { seed } : {}),
       });
     } catch (error) {
       await ctx.runMutation(internal.ufa.recordResolutionFailure, {
@@ -749,7 +1120,12 @@ export const prepareResolution = internalQuery({
     }
     const { odds, factors } = await calculateOdds(ctx, group._id);
     if (!odds.length) throw new Error("No valid pending offers remain.");
+    const drawSeed = await ctx.db
+      .query("ufaDrawSeeds")
+      .withIndex("by_groupId", (q) => q.eq("groupId", group._id))
+      .first();
     return {
+      seed: drawSeed?.seed ?? null,
       odds,
       factorSnapshots: odds.map((entry) => ({
         offerId: entry.offerId,
@@ -778,6 +1154,7 @@ export const finalizeGroup = internalMutation({
   args: {
     groupId: v.id("ufaOfferGroups"),
     roll: v.number(),
+    seed: v.optional(v.string()),
     odds: resolutionOddsValidator,
     factorSnapshots: factorSnapshotsValidator,
   },
@@ -787,15 +1164,12 @@ export const finalizeGroup = internalMutation({
     if (!group || group.status !== "open") return;
     if (Date.now() < group.deadlineAt) return;
     if (!args.odds.length) throw new Error("No valid pending offers remain.");
-    let cumulative = 0;
-    let winningId = args.odds.at(-1)!.offerId;
-    for (const entry of args.odds) {
-      cumulative += entry.probability;
-      if (args.roll < cumulative) {
-        winningId = entry.offerId;
-        break;
-      }
-    }
+    if (
+      group.seedHash &&
+      (!args.seed || (await hashUfaDrawSeed(args.seed)) !== group.seedHash)
+    )
+      throw new Error("The draw seed does not match the published hash.");
+    const winningId = pickUfaDrawWinner(args.odds, args.roll);
     const offers = await db
       .query("ufaOffers")
       .withIndex("by_group", (q: any) => q.eq("groupId", group._id))
@@ -820,9 +1194,18 @@ export const finalizeGroup = internalMutation({
           .withIndex("by_playerId", (q: any) => q.eq("playerId", player._id))
           .collect()
       : [];
+    const eligibility = player
+      ? await loadContractEligibility(
+          ctx,
+          player,
+          Date.now(),
+          seasons[signingIndex],
+        )
+      : null;
     if (
       !winningOffer ||
       !player ||
+      !eligibility?.canSign ||
       !isUnsignedAfterSigningDeadline(
         player._id,
         group.seasonId,
@@ -869,6 +1252,7 @@ export const finalizeGroup = internalMutation({
       updatedAt: now,
     });
     for (const offer of offers) {
+      if (offer.status === "withdrawn") continue;
       await db.patch(offer._id, {
         status: offer._id === winningOffer._id ? "won" : "lost",
         factorSnapshot: factorByOfferId.get(String(offer._id)) ?? "{}",
@@ -880,6 +1264,7 @@ export const finalizeGroup = internalMutation({
       winningOfferId: winningOffer._id,
       finalOdds: JSON.stringify(args.odds),
       randomRoll: args.roll,
+      revealedSeed: args.seed,
       failureReason: undefined,
       resolvedAt: now,
       updatedAt: now,
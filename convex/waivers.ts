@@ -0,0 +1,268 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import type { Waiver, WaiverClaim } from "../src/lib/types";
+import {
+  rankWaiverClaims,
+  rotateWaiverPriority,
+} from "../src/lib/utils/features/waivers";
+import { requireOwnerAccess, requireOwnerOrCommissioner } from "./lib/auth";
+import { applyContractBuyout } from "./lib/buyouts";
+import {
+  activeSigningSeason,
+  syncPlayerResignable,
+} from "./lib/contractEligibility";
+import { rebuildTeamLineup } from "./lib/lineups";
+import {
+  ensureWaiverPriority,
+  loadOwnerSeasonTeam,
+  loadWaiverPriority,
+  releaseToWaivers,
+  saveWaiverPriority,
+} from "./lib/waivers";
+
+function toWaiver(row: Doc<"waivers">): Waiver {
+  return {
+    id: String(row._id),
+    seasonId: String(row.seasonId),
+    playerId: String(row.playerId),
+    droppedByOwnerId: String(row.droppedByOwnerId),
+    droppedAt: new Date(row.droppedAt).toISOString(),
+    clearsAt: new Date(row.clearsAt).toISOString(),
+    status: row.status,
+    awardedOwnerId: row.awardedOwnerId ? String(row.awardedOwnerId) : null,
+    processedAt: row.processedAt
+      ? new Date(row.processedAt).toISOString()
+      : null,
+  };
+}
+
+function toWaiverClaim(row: Doc<"waiverClaims">): WaiverClaim {
+  return {
+    id: String(row._id),
+    waiverId: String(row.waiverId),
+    seasonId: String(row.seasonId),
+    playerId: String(row.playerId),
+    ownerId: String(row.ownerId),
+    status: row.status,
+    createdAt: new Date(row.createdAt).toISOString(),
+  };
+}
+
+/** Players on waivers now and the season's rolling priority list. */
+export const list = query({
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    const season = args.seasonId
+      ? await ctx.db.get(args.seasonId)
+      : activeSigningSeason(await ctx.db.query("seasons").collect());
+    if (!season) return null;
+    const [waivers, priority] = await Promise.all([
+      ctx.db
+        .query("waivers")
+        .withIndex("by_status_clearsAt", (q) => q.eq("status", "active"))
+        .collect(),
+      loadWaiverPriority(ctx, season._id),
+    ]);
+    return {
+      seasonId: String(season._id),
+      waivers: waivers
+        .filter((waiver) => waiver.seasonId === season._id)
+        .map(toWaiver),
+      priority: priority.map((ownerId, index) => ({
+        ownerId: String(ownerId),
+        rank: index + 1,
+      })),
+    };
+  },
+});
+
+/** The signed-in owner's pending claims; other owners' claims stay private. */
+export const myClaims = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireOwnerOrCommissioner(ctx);
+    if (!user.ownerId) return [];
+    const rows = await ctx.db
+      .query("waiverClaims")
+      .withIndex("by_ownerId_status", (q) =>
+        q.eq("ownerId", user.ownerId!).eq("status", "pending"),
+      )
+      .collect();
+    return rows.map(toWaiverClaim);
+  },
+});
+
+/**
+ * Drops a player to waivers. A player still under contract is bought out
+ * first, as rule 9.5 requires.
+ */
+export const drop = mutation({
+  args: { playerId: v.id("players") },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (!player) throw new Error("Player not found");
+    if (!player.ownerId) throw new Error("That player is not on a roster.");
+    await requireOwnerAccess(ctx, player.ownerId);
+    const season = activeSigningSeason(await ctx.db.query("seasons").collect());
+    if (!season) throw new Error("There is no active season.");
+
+    const now = Date.now();
+    const buyout = await applyContractBuyout(ctx, {
+      player,
+      ownerId: player.ownerId,
+      now,
+    });
+    const waiverId = await releaseToWaivers(ctx, {
+      player,
+      ownerId: player.ownerId,
+      season,
+      now,
+    });
+    await syncPlayerResignable(ctx, player._id, now, season);
+    return { waiverId, buyout };
+  },
+});
+
+export const claim = mutation({
+  args: { waiverId: v.id("waivers") },
+  handler: async (ctx, args) => {
+    const user = await requireOwnerOrCommissioner(ctx);
+    if (!user.ownerId) throw new Error("Only owners can submit waiver claims.");
+    const waiver = await ctx.db.get(args.waiverId);
+    const now = Date.now();
+    if (waiver?.status !== "active" || waiver.clearsAt <= now) {
+      throw new Error("That player is no longer on waivers.");
+    }
+    if (waiver.droppedByOwnerId === user.ownerId) {
+      throw new Error("You cannot claim a player you dropped.");
+    }
+    if (!(await loadOwnerSeasonTeam(ctx, user.ownerId, waiver.seasonId))) {
+      throw new Error("Your franchise has no team this season.");
+    }
+    const existing = await ctx.db
+      .query("waiverClaims")
+      .withIndex("by_waiverId", (q) => q.eq("waiverId", waiver._id))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("ownerId"), user.ownerId),
+          q.eq(q.field("status"), "pending"),
+        ),
+      )
+      .first();
+    if (existing) throw new Error("You already have a claim on this player.");
+    const claimId = await ctx.db.insert("waiverClaims", {
+      waiverId: waiver._id,
+      seasonId: waiver.seasonId,
+      playerId: waiver.playerId,
+      ownerId: user.ownerId,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+    return toWaiverClaim((await ctx.db.get(claimId))!);
+  },
+});
+
+export const cancelClaim = mutation({
+  args: { claimId: v.id("waiverClaims") },
+  handler: async (ctx, args) => {
+    const claim = await ctx.db.get(args.claimId);
+    if (!claim) throw new Error("Waiver claim not found");
+    await requireOwnerAccess(ctx, claim.ownerId);
+    if (claim.status !== "pending") {
+      throw new Error("That claim has already been processed.");
+    }
+    await ctx.db.patch(claim._id, {
+      status: "cancelled",
+      updatedAt: Date.now(),
+    });
+    return { cancelled: true };
+  },
+});
+
+async function processWaiver(
+  ctx: MutationCtx,
+  waiver: Doc<"waivers">,
+  now: number,
+): Promise<"claimed" | "cleared"> {
+  const [player, claims, priority] = await Promise.all([
+    ctx.db.get(waiver.playerId),
+    ctx.db
+      .query("waiverClaims")
+      .withIndex("by_waiverId", (q) => q.eq("waiverId", waiver._id))
+      .filter((q) => q.eq(q.field("status"), "pending"))
+      .collect(),
+    ensureWaiverPriority(ctx, waiver.seasonId, now),
+  ]);
+  // A player someone already rostered by other means simply clears.
+  const available = Boolean(player && !player.ownerId);
+  const ranked = rankWaiverClaims(
+    claims.map((row) => ({ ...toWaiverClaim(row), row })),
+    priority.map(String),
+  );
+  let winner: Doc<"waiverClaims"> | null = null;
+  for (const candidate of available ? ranked : []) {
+    const team = await loadOwnerSeasonTeam(
+      ctx,
+      candidate.row.ownerId,
+      waiver.seasonId,
+    );
+    if (!team || !player) continue;
+    await ctx.db.patch(player._id, {
+      ownerId: candidate.row.ownerId,
+      gshlTeamId: team._id,
+      lineupPos: null,
+      updatedAt: now,
+    });
+    await rebuildTeamLineup(ctx, candidate.row.ownerId, team._id, now);
+    await saveWaiverPriority(
+      ctx,
+      waiver.seasonId,
+      rotateWaiverPriority(
+        priority.map(String),
+        String(candidate.row.ownerId),
+      ) as typeof priority,
+      now,
+    );
+    winner = candidate.row;
+    break;
+  }
+
+  for (const claim of claims) {
+    await ctx.db.patch(claim._id, {
+      status: claim._id === winner?._id ? "awarded" : "lost",
+      updatedAt: now,
+    });
+  }
+  await ctx.db.patch(waiver._id, {
+    status: winner ? "claimed" : "cleared",
+    awardedOwnerId: winner?.ownerId,
+    processedAt: now,
+    updatedAt: now,
+  });
+  return winner ? "claimed" : "cleared";
+}
+
+/**
+ * Awards every waiver whose two-day window has ended, oldest first, so each
+ * successful claim drops its owner to the bottom before the next is decided.
+ */
+export const processDue = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("waivers")
+      .withIndex("by_status_clearsAt", (q) =>
+        q.eq("status", "active").lte("clearsAt", now),
+      )
+      .collect();
+    const counts = { claimed: 0, cleared: 0 };
+    for (const waiver of due) {
+      counts[await processWaiver(ctx, waiver, now)] += 1;
+    }
+    return counts;
+  },
+});
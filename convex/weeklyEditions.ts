@@ -8,6 +8,7 @@ import {
 } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { requireCommissioner } from "./lib/auth";
+import { loadSigningPeriodCalendar } from "./lib/signingPeriods";
 import { buildLeagueActivity } from "../src/lib/utils/features/league-activity";
 import { buildOwnerRankings } from "../src/lib/utils/features/owner-rankings";
 import { calculateDraftRosterTalentRating } from "../src/lib/utils/features/draft-roster-board";
@@ -38,6 +39,7 @@ import {
   weeklyEditionContractAffectsSeason,
 } from "../src/lib/utils/features/weekly-edition";
 import { toUtcTimestamp, utcTimestampToDateKey } from "./lib/timestamps";
+import { tradeDeadlineStatusForSeason } from "./lib/tradeDeadline";
 
 type EditionRow = Doc<"weeklyEditions">;
 type GenerationOptions = {
@@ -46,6 +48,7 @@ type GenerationOptions = {
   replaceEditorial?: boolean;
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
 const PUBLIC_TIMESTAMP_FIELDS = [
   "startDate",
   "endDate",
@@ -212,6 +215,8 @@ async function buildSource(
     teamAwards,
     playerTotals,
     teamSeasonRowsForSeason,
+    trades,
+    waivers,
   ] = await Promise.all([
     previousWeek
       ? ctx.db
@@ -254,7 +259,41 @@ async function buildSource(
       .query("teamSeasonStatLines")
       .withIndex("by_seasonId", (q) => q.eq("seasonId", season._id))
       .collect(),
+    // Trades are keyed by instant; pad the window so Toronto-local dates at
+    // either edge of the week are still considered.
+    ctx.db
+      .query("trades")
+      .withIndex("by_seasonId_executedAt", (q) =>
+        q
+          .eq("seasonId", season._id)
+          .gte("executedAt", (toUtcTimestamp(week.startDate) ?? 0) - DAY_MS)
+          .lte(
+            "executedAt",
+            (toUtcTimestamp(week.endDate) ?? Date.now()) + 2 * DAY_MS,
+          ),
+      )
+      .collect(),
+    ctx.db
+      .query("waivers")
+      .withIndex("by_seasonId_processedAt", (q) =>
+        q
+          .eq("seasonId", season._id)
+          .gte("processedAt", (toUtcTimestamp(week.startDate) ?? 0) - DAY_MS)
+          .lte(
+            "processedAt",
+            (toUtcTimestamp(week.endDate) ?? Date.now()) + 2 * DAY_MS,
+          ),
+      )
+      .collect(),
   ]);
+  const tradedDraftPicks = (
+    await Promise.all(
+      trades
+        .flatMap((trade) => trade.assets)
+        .flatMap((asset) => (asset.draftPickId ? [asset.draftPickId] : []))
+        .map((draftPickId) => ctx.db.get(draftPickId)),
+    )
+  ).flatMap((row) => (row ? [row] : []));
 
   const franchiseById = new Map(
     franchises.map((franchise) => [String(franchise._id), franchise]),
@@ -369,6 +408,36 @@ async function buildSource(
       id: String(row._id),
       logoUrl: row.logoUrl ?? "",
     })),
+    trades: trades.map((row) => ({
+      id: String(row._id),
+      seasonId: String(row.seasonId),
+      executedAt: new Date(row.executedAt).toISOString(),
+      assets: row.assets.map((asset) => ({
+        kind: asset.kind,
+        fromOwnerId: String(asset.fromOwnerId),
+        toOwnerId: String(asset.toOwnerId),
+        playerId: asset.playerId ? String(asset.playerId) : null,
+        draftPickId: asset.draftPickId ? String(asset.draftPickId) : null,
+      })),
+    })),
+    draftPicks: tradedDraftPicks.map((row) => ({
+      id: String(row._id),
+      seasonId: String(row.seasonId),
+      round: String(row.round),
+      pick: String(row.pick ?? ""),
+    })),
+    seasons: [{ id: String(season._id), name: season.name }],
+    waivers: waivers.map((row) => ({
+      id: String(row._id),
+      seasonId: String(row.seasonId),
+      playerId: String(row.playerId),
+      droppedByOwnerId: String(row.droppedByOwnerId),
+      status: row.status,
+      awardedOwnerId: row.awardedOwnerId ? String(row.awardedOwnerId) : null,
+      processedAt: row.processedAt
+        ? new Date(row.processedAt).toISOString()
+        : null,
+    })),
     limit: 100,
   }).filter(
     (event) =>
@@ -383,15 +452,19 @@ async function buildSource(
       : [
           {
             id: event.id,
-            kind: event.type,
+            kind: event.type === "waiver" ? ("add" as const) : event.type,
             date: event.date,
             playerName: event.playerName,
             teamName: event.teamName,
             detail:
-              (event.type === "signing" || event.type === "trade") &&
-              event.signingStatus
-                ? event.signingStatus
-                : undefined,
+              event.type === "waiver" && event.fromTeamName
+                ? `off waivers from ${event.fromTeamName}`
+                : event.type === "trade" && event.fromTeamName
+                  ? `from ${event.fromTeamName}`
+                  : (event.type === "signing" || event.type === "trade") &&
+                      event.signingStatus
+                    ? event.signingStatus
+                    : undefined,
           },
         ],
   );
@@ -1065,14 +1138,38 @@ async function generateForWeek(
   return { state: "inserted", existing: await ctx.db.get(editionId) };
 }
 
-function milestoneSchedule(season: Doc<"seasons">, finalWeek: Doc<"weeks">) {
+async function milestoneSchedule(
+  ctx: MutationCtx,
+  season: Doc<"seasons">,
+  finalWeek: Doc<"weeks">,
+  tradeDeadline?: string | null,
+) {
   return buildWeeklyEditionMilestoneSchedule({
     finalWeekEnd: dateKey(finalWeek.endDate),
     signingEndDate: dateKey(season.signingEndDate),
     draftStartAt: isoTimestamp(season.draftStartAt),
+    tradeDeadline,
+    signingPeriods: await loadSigningPeriodCalendar(ctx, season),
   });
 }
 
+// The trade deadline issue covers the week the deadline falls in rather than
+// the final week every offseason milestone is anchored to.
+function milestoneAnchorWeek(
+  weeks: Doc<"weeks">[],
+  finalWeek: Doc<"weeks">,
+  milestone: { issueType: WeeklyEditionIssueType; scheduledFor: string },
+) {
+  if (milestone.issueType !== "trade_deadline") return finalWeek;
+  return (
+    weeks.find(
+      (week) =>
+        dateKey(week.startDate) <= milestone.scheduledFor &&
+        dateKey(week.endDate) >= milestone.scheduledFor,
+    ) ?? finalWeek
+  );
+}
+
 function nextChronologicalSeason(
   seasons: Doc<"seasons">[],
   season: Doc<"seasons">,
@@ -1137,6 +1234,7 @@ async function buildPreseasonGmRankingFacts(
       endDate: dateKey(season.endDate),
       signingEndDate: dateKey(season.signingEndDate),
       draftStartAt: isoTimestamp(season.draftStartAt),
+      tradeDeadlineDate: utcTimestampToDateKey(season.tradeDeadlineDate),
       createdAt: new Date(toUtcTimestamp(season.createdAt) ?? 0),
       updatedAt: new Date(toUtcTimestamp(season.updatedAt) ?? 0),
     })),
@@ -1260,7 +1358,10 @@ async function buildMilestoneSource(
   triggerDate: string,
 ) {
   const allSeasons = await ctx.db.query("seasons").collect();
-  const analysisSeason = nextChronologicalSeason(allSeasons, season);
+  const analysisSeason =
+    issueType === "trade_deadline"
+      ? season
+      : nextChronologicalSeason(allSeasons, season);
   const [
     teams,
     sourceTeams,
@@ -1273,6 +1374,7 @@ async function buildMilestoneSource(
     teamWeekRows,
     seasonMatchups,
     finalPlayerRows,
+    seasonTrades,
   ] = await Promise.all([
     ctx.db
       .query("teams")
@@ -1308,6 +1410,14 @@ async function buildMilestoneSource(
       .query("playerWeekStatLines")
       .withIndex("by_weekId", (q) => q.eq("weekId", anchorWeek._id))
       .collect(),
+    issueType === "trade_deadline"
+      ? ctx.db
+          .query("trades")
+          .withIndex("by_seasonId_executedAt", (q) =>
+            q.eq("seasonId", season._id),
+          )
+          .collect()
+      : [],
   ]);
   if (teams.length === 0) throw new Error("Season teams are not available");
   if (
@@ -1384,8 +1494,17 @@ async function buildMilestoneSource(
   const weekNumById = new Map(
     weeks.map((week) => [String(week._id), asNumber(week.weekNum)]),
   );
+  const weekEndById = new Map(
+    weeks.map((week) => [String(week._id), dateKey(week.endDate)]),
+  );
   const latestPowerByTeam = new Map();
   teamWeekRows.forEach((row) => {
+    if (
+      issueType === "trade_deadline" &&
+      (weekEndById.get(String(row.weekId)) ?? "") > triggerDate
+    ) {
+      return;
+    }
     const key = String(row.gshlTeamId);
     const previous = latestPowerByTeam.get(key);
     if (
@@ -1680,14 +1799,85 @@ async function buildMilestoneSource(
           conferences,
         )
       : [];
+  const tradeDeadline = tradeDeadlineStatusForSeason(season, weeks, Date.now());
+  const deadlineTrades = seasonTrades.filter(
+    (trade) => dateKey(trade.executedAt) <= triggerDate,
+  );
+  const deadlineTradedPicks = (
+    await Promise.all(
+      deadlineTrades
+        .flatMap((trade) => trade.assets)
+        .flatMap((asset) => (asset.draftPickId ? [asset.draftPickId] : []))
+        .map((draftPickId) => ctx.db.get(draftPickId)),
+    )
+  ).flatMap((row) => (row ? [row] : []));
+  const activity =
+    issueType === "trade_deadline"
+      ? buildLeagueActivity({
+          contracts: [],
+          playerDays: [],
+          players: players.map((row) => ({ ...row, id: String(row._id) })),
+          teams: sourceTeams.map((row) => ({ ...row, id: String(row._id) })),
+          franchises: franchises.map((row) => ({
+            ...row,
+            id: String(row._id),
+            logoUrl: row.logoUrl ?? "",
+          })),
+          trades: deadlineTrades.map((row) => ({
+            id: String(row._id),
+            seasonId: String(row.seasonId),
+            executedAt: new Date(row.executedAt).toISOString(),
+            assets: row.assets.map((asset) => ({
+              kind: asset.kind,
+              fromOwnerId: String(asset.fromOwnerId),
+              toOwnerId: String(asset.toOwnerId),
+              playerId: asset.playerId ? String(asset.playerId) : null,
+              draftPickId: asset.draftPickId ? String(asset.draftPickId) : null,
+            })),
+          })),
+          draftPicks: deadlineTradedPicks.map((row) => ({
+            id: String(row._id),
+            seasonId: String(row.seasonId),
+            round: String(row.round),
+            pick: String(row.pick ?? ""),
+          })),
+          seasons: allSeasons.map((row) => ({
+            id: String(row._id),
+            name: row.name,
+          })),
+          limit: 100,
+        }).flatMap((event) =>
+          event.type === "trade"
+            ? [
+                {
+                  id: event.id,
+                  kind: event.type,
+                  date: event.date,
+                  playerName: event.playerName,
+                  teamName: event.teamName,
+                  detail: event.fromTeamName
+                    ? `from ${event.fromTeamName}`
+                    : undefined,
+                },
+              ]
+            : [],
+        )
+      : [];
 
   return buildMilestoneEditionFactPacket({
     issueType,
     issueLabel:
-      milestoneSchedule(analysisSeason, anchorWeek).find(
-        (item) => item.issueType === issueType,
-      )?.issueLabel ?? issueType,
+      (
+        await milestoneSchedule(
+          ctx,
+          analysisSeason,
+          anchorWeek,
+          tradeDeadline.deadline,
+        )
+      ).find((item) => item.issueType === issueType)?.issueLabel ?? issueType,
     triggerDate,
+    regularSeasonEndDate: tradeDeadline.regularSeasonEndDate ?? undefined,
+    activity,
     analysisSeason: {
       id: String(analysisSeason._id),
       name: analysisSeason.name,
@@ -1953,6 +2143,7 @@ export const generateHistorical = mutation({
     issueType: v.optional(
       v.union(
         v.literal("weekly"),
+        v.literal("trade_deadline"),
         v.literal("final_recap"),
         v.literal("resigning_outlook"),
         v.literal("offseason_market"),
@@ -1964,19 +2155,32 @@ export const generateHistorical = mutation({
   },
   handler: async (ctx, args) => {
     const user = await requireCommissioner(ctx);
-    const [season, week, allSeasons] = await Promise.all([
+    const [season, week, allSeasons, weeks] = await Promise.all([
       ctx.db.get(args.seasonId),
       ctx.db.get(args.weekId),
       ctx.db.query("seasons").collect(),
+      ctx.db
+        .query("weeks")
+        .withIndex("by_seasonId", (q) => q.eq("seasonId", args.seasonId))
+        .collect(),
     ]);
     if (!season || !week || week.seasonId !== season._id)
       throw new Error("Season or week not found");
     const issueType = args.issueType ?? "weekly";
-    const analysisSeason = nextChronologicalSeason(allSeasons, season);
+    const analysisSeason =
+      issueType === "trade_deadline"
+        ? season
+        : nextChronologicalSeason(allSeasons, season);
     const scheduledFor =
-      milestoneSchedule(analysisSeason, week).find(
-        (item) => item.issueType === issueType,
-      )?.scheduledFor ?? dateKey(week.endDate);
+      (
+        await milestoneSchedule(
+          ctx,
+          analysisSeason,
+          week,
+          tradeDeadlineStatusForSeason(season, weeks, Date.now()).deadline,
+        )
+      ).find((item) => item.issueType === issueType)?.scheduledFor ??
+      dateKey(week.endDate);
     const result =
       issueType === "weekly"
         ? await generateForWeek(ctx, season, week, {
@@ -2207,16 +2411,20 @@ export const processGenerationJob = internalMutation({
       )[0];
       if (!finalWeek) continue;
       const analysisSeason = nextChronologicalSeason(allSeasons, season);
-      for (const milestone of milestoneSchedule(
-        analysisSeason,
-        finalWeek,
+      const tradeDeadline = tradeDeadlineStatusForSeason(
+        season,
+        weeks,
+        Date.now(),
+      ).deadline;
+      for (const milestone of (
+        await milestoneSchedule(ctx, analysisSeason, finalWeek, tradeDeadline)
       ).filter((item) => item.scheduledFor <= today)) {
         counts.processed += 1;
         try {
           const result = await generateMilestoneForSeason(
             ctx,
             season,
-            finalWeek,
+            milestoneAnchorWeek(weeks, finalWeek, milestone),
             milestone.issueType,
             milestone.scheduledFor,
           );
@@ -2259,16 +2467,20 @@ export const scanDueMilestones = internalMutation({
       )[0];
       if (!finalWeek) continue;
       const analysisSeason = nextChronologicalSeason(seasons, season);
-      for (const milestone of milestoneSchedule(
-        analysisSeason,
-        finalWeek,
+      const tradeDeadline = tradeDeadlineStatusForSeason(
+        season,
+        weeks,
+        Date.now(),
+      ).deadline;
+      for (const milestone of (
+        await milestoneSchedule(ctx, analysisSeason, finalWeek, tradeDeadline)
       ).filter((item) => item.scheduledFor <= today)) {
         result.processed += 1;
         try {
           const generated = await generateMilestoneForSeason(
             ctx,
             season,
-            finalWeek,
+            milestoneAnchorWeek(weeks, finalWeek, milestone),
             milestone.issueType,
             milestone.scheduledFor,
           );
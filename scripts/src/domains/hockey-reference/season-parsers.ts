@@ -0,0 +1,1027 @@
+import { load } from "cheerio";
+
+/*
+ * Cheerio-only parsing and player matching for Hockey Reference season
+ * pages. Kept free of path aliases and Node builtins so the Convex ingestion
+ * action can reuse it on pages returned by the browser worker.
+ */
+
+export type SourceType = "skater" | "goalie";
+
+export type ScrapedCandidate = {
+  sourceType: SourceType;
+  sourceIndex: number;
+  fullName: string;
+  normalizedName: string;
+  nhlTeam: string;
+  rawPos: string;
+  nhlPos: string;
+  primaryPos: string;
+  posGroup: string;
+  age: string;
+  GP: string;
+  G: string;
+  A: string;
+  P: string;
+  PM: string;
+  PIM: string;
+  PPP: string;
+  SOG: string;
+  HIT: string;
+  BLK: string;
+  W: string;
+  GA: string;
+  GAA: string;
+  SV: string;
+  SA: string;
+  SVP: string;
+  SO: string;
+  QS: string;
+  RBS: string;
+  TOI: string;
+};
+
+export type HockeyReferencePlayer = {
+  id: string;
+  fullName?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  nhlPos?: unknown;
+  posGroup?: unknown;
+  nhlTeam?: unknown;
+  isActive?: boolean | null;
+};
+
+export type HockeyReferenceSeason = {
+  id: string;
+  year?: number | string | null;
+  name?: string | null;
+  endDate?: string | null;
+};
+
+export type HockeyReferenceStatLineRow = {
+  seasonId: string;
+  playerId: string;
+  nhlPos: string;
+  posGroup: string;
+  nhlTeam: string;
+  age: string;
+  GP: string;
+  G: string;
+  A: string;
+  P: string;
+  PM: string;
+  PIM: string;
+  PPP: string;
+  SOG: string;
+  HIT: string;
+  BLK: string;
+  W: string;
+  GA: string;
+  GAA: string;
+  SV: string;
+  SA: string;
+  SVP: string;
+  SO: string;
+  QS: string;
+  RBS: string;
+  TOI: string;
+};
+
+export type SeasonCandidateMatches = {
+  rows: HockeyReferenceStatLineRow[];
+  matchedSkaters: number;
+  matchedGoalies: number;
+  unmatched: InvestigationRow[];
+  ambiguous: InvestigationRow[];
+};
+
+export type InvestigationRow = {
+  seasonId: string;
+  seasonYear: string;
+  fullName: string;
+  posGroup: string;
+  nhlTeam: string;
+  sourceType: SourceType;
+  reason: string;
+  rawPos: string;
+  nhlPos: string;
+  age: string;
+  gp: string;
+  sourceIndex: number;
+};
+
+const NHL_TEAM_ALIASES: Record<string, string> = {
+  ANH: "ANA",
+  ARZ: "ARI",
+  CLB: "CBJ",
+  CLS: "CBJ",
+  LA: "LAK",
+  MTL: "MTL",
+  MON: "MTL",
+  NAS: "NSH",
+  NASH: "NSH",
+  NJ: "NJD",
+  SJ: "SJS",
+  TB: "TBL",
+  VEG: "VGK",
+  WAS: "WSH",
+};
+
+const FIRST_NAME_ALIAS_FAMILIES = [
+  ["alexei", "alexey"],
+  ["ben", "benjamin"],
+  ["cam", "cameron"],
+  ["dan", "daniel"],
+  ["egor", "yegor"],
+  ["fedor", "fyodor"],
+  ["jake", "jacob"],
+  ["joe", "joseph"],
+  ["josh", "joshua"],
+  ["matt", "mathew", "matthew", "matty"],
+  ["sam", "samuel"],
+  ["will", "william"],
+  ["zach", "zachary", "zack"],
+] as const;
+
+const FULL_NAME_ALIAS_FAMILIES = [
+  ["Michael Anderson", "Mikey Anderson"],
+  ["Nicholas Merkley", "Nick Merkley"],
+  ["Gabriel Perreault", "Gabe Perreault"],
+  ["Danil But", "Daniil But"],
+  ["Danil Tarasov", "Daniil Tarasov"],
+] as const;
+
+const POSITIONALLY_DYNAMIC_PLAYER_NAMES = new Set([
+  "kurtismacdermid",
+  "brentburns",
+]);
+
+const FIRST_NAME_ALIAS_MAP = buildFirstNameAliasMap(FIRST_NAME_ALIAS_FAMILIES);
+const FULL_NAME_ALIAS_MAP = buildFullNameAliasMap(FULL_NAME_ALIAS_FAMILIES);
+
+function toSafeString(value: unknown): string {
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return String(value);
+  }
+  return "";
+}
+
+function buildFirstNameAliasMap(
+  families: readonly (readonly string[])[],
+): Record<string, string[]> {
+  const map: Record<string, Set<string>> = {};
+  for (const family of families) {
+    for (const name of family) {
+      const normalized = normalizeNamePart(name);
+      if (!normalized) continue;
+      map[normalized] ??= new Set<string>();
+      for (const sibling of family) {
+        const normalizedSibling = normalizeNamePart(sibling);
+        if (normalizedSibling && normalizedSibling !== normalized) {
+          map[normalized].add(normalizedSibling);
+        }
+      }
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(map).map(([key, value]) => [key, Array.from(value)]),
+  );
+}
+
+function buildFullNameAliasMap(
+  families: readonly (readonly string[])[],
+): Record<string, string[]> {
+  const map: Record<string, Set<string>> = {};
+  for (const family of families) {
+    for (const fullName of family) {
+      const normalized = normalizeName(fullName);
+      if (!normalized) continue;
+      map[normalized] ??= new Set<string>();
+      for (const sibling of family) {
+        const normalizedSibling = normalizeName(sibling);
+        if (normalizedSibling && normalizedSibling !== normalized) {
+          map[normalized].add(normalizedSibling);
+        }
+      }
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(map).map(([key, value]) => [key, Array.from(value)]),
+  );
+}
+
+function normalizeNamePart(value: unknown): string {
+  return toSafeString(value)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "")
+    .trim();
+}
+
+function cleanWhitespace(value: unknown): string {
+  return toSafeString(value).replace(/\s+/g, " ").trim();
+}
+
+function isIgnoredSourceName(value: unknown): boolean {
+  return cleanWhitespace(value).toLowerCase() === "league average";
+}
+
+function normalizeName(value: unknown): string {
+  return normalizeNamePart(cleanWhitespace(value));
+}
+
+function tokenizeName(value: unknown): string[] {
+  const cleaned = cleanWhitespace(
+    toSafeString(value)
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[.'’\-]/g, " ")
+      .replace(/[^A-Za-z\s]/g, " ")
+      .toLowerCase(),
+  );
+
+  return cleaned ? cleaned.split(/\s+/).filter(Boolean) : [];
+}
+
+function trimSuffixTokens(tokens: string[]): string[] {
+  const suffixes = new Set(["jr", "sr", "ii", "iii", "iv", "v"]);
+  const next = [...tokens];
+  while (next.length && suffixes.has(next[next.length - 1] ?? "")) {
+    next.pop();
+  }
+  return next;
+}
+
+function buildNameKeys(value: unknown): string[] {
+  const raw = cleanWhitespace(value);
+  if (!raw) return [];
+
+  const keys = new Set<string>();
+  const normalizedRaw = normalizeName(raw);
+  const tokens = trimSuffixTokens(tokenizeName(raw));
+  const first = tokens[0] ?? "";
+  const last = tokens[tokens.length - 1] ?? "";
+  const aliasFirsts = new Set([first, ...(FIRST_NAME_ALIAS_MAP[first] ?? [])]);
+  const fullNameAliases = new Set([
+    normalizedRaw,
+    ...(FULL_NAME_ALIAS_MAP[normalizedRaw] ?? []),
+  ]);
+
+  const pushKey = (candidate: string): void => {
+    const normalized = normalizeName(candidate);
+    if (normalized) {
+      keys.add(normalized);
+    }
+  };
+
+  pushKey(raw);
+  if (tokens.length) {
+    pushKey(tokens.join(" "));
+  }
+  if (first && last) {
+    for (const aliasFirst of aliasFirsts) {
+      pushKey(`${aliasFirst} ${last}`);
+    }
+  }
+  for (const fullNameAlias of fullNameAliases) {
+    keys.add(fullNameAlias);
+  }
+
+  return Array.from(keys);
+}
+
+function getComparableNameParts(value: unknown): {
+  first: string;
+  last: string;
+  joined: string;
+} {
+  const tokens = trimSuffixTokens(tokenizeName(value));
+  return {
+    first: tokens[0] ?? "",
+    last: tokens[tokens.length - 1] ?? "",
+    joined: tokens.join(" "),
+  };
+}
+
+function isNamePrefixMatch(left: string, right: string): boolean {
+  if (!left || !right) return false;
+  if (left === right) return true;
+  if (
+    left.startsWith(right.charAt(0)) &&
+    right.startsWith(left.charAt(0)) &&
+    (left.length >= 3 || right.length >= 3)
+  ) {
+    return left.startsWith(right) || right.startsWith(left);
+  }
+  return false;
+}
+
+function areFirstNamesCompatible(left: string, right: string): boolean {
+  if (!left || !right) return false;
+  if (left === right || isNamePrefixMatch(left, right)) return true;
+  const leftAliases = new Set([left, ...(FIRST_NAME_ALIAS_MAP[left] ?? [])]);
+  const rightAliases = new Set([right, ...(FIRST_NAME_ALIAS_MAP[right] ?? [])]);
+  for (const alias of leftAliases) {
+    if (rightAliases.has(alias)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function areFullNamesCompatible(left: unknown, right: unknown): boolean {
+  const leftNormalized = normalizeName(left);
+  const rightNormalized = normalizeName(right);
+  if (!leftNormalized || !rightNormalized) return false;
+  if (leftNormalized === rightNormalized) return true;
+
+  const leftAliases = new Set([
+    leftNormalized,
+    ...(FULL_NAME_ALIAS_MAP[leftNormalized] ?? []),
+  ]);
+  const rightAliases = new Set([
+    rightNormalized,
+    ...(FULL_NAME_ALIAS_MAP[rightNormalized] ?? []),
+  ]);
+
+  for (const alias of leftAliases) {
+    if (rightAliases.has(alias)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function isPositionallyDynamicPlayerName(value: unknown): boolean {
+  return POSITIONALLY_DYNAMIC_PLAYER_NAMES.has(normalizeName(value));
+}
+
+function allowPosGroupMismatch(
+  player: HockeyReferencePlayer,
+  candidate: ScrapedCandidate,
+): boolean {
+  return (
+    isPositionallyDynamicPlayerName(buildPlayerFullName(player)) &&
+    isPositionallyDynamicPlayerName(candidate.fullName)
+  );
+}
+
+function normalizeTeamAbbr(value: unknown): string {
+  const raw = toSafeString(value)
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .trim();
+  if (!raw) return "";
+  return NHL_TEAM_ALIASES[raw] ?? raw;
+}
+
+function isAggregateTeamAbbr(value: unknown): boolean {
+  const normalized = normalizeTeamAbbr(value);
+  return normalized === "TOT" || /^\d+TM$/.test(normalized);
+}
+
+function normalizePosToken(value: unknown): string {
+  const raw = toSafeString(value)
+    .toUpperCase()
+    .replace(/[^A-Z+]/g, "")
+    .trim();
+  if (!raw) return "";
+  if (raw === "LEFTWING" || raw === "LW") return "LW";
+  if (raw === "RIGHTWING" || raw === "RW") return "RW";
+  if (raw === "CENTER" || raw === "C") return "C";
+  if (raw === "DEFENSE" || raw === "DEFENCE" || raw === "D") return "D";
+  if (raw === "GOALIE" || raw === "GOALTENDER" || raw === "G") return "G";
+  return raw;
+}
+
+function splitPosTokens(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((entry) => normalizePosToken(entry)).filter(Boolean);
+  }
+
+  return toSafeString(value)
+    .split(/[ ,/|]+/)
+    .map((entry) => normalizePosToken(entry))
+    .filter(Boolean);
+}
+
+function inferPosGroup(posTokens: unknown, fallback?: unknown): string {
+  const tokens = splitPosTokens(posTokens);
+  if (tokens.includes("G") || normalizePosToken(fallback) === "G") return "G";
+  if (tokens.includes("D") || normalizePosToken(fallback) === "D") return "D";
+  return "F";
+}
+
+function toStatString(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "";
+  const text = toSafeString(value)
+    .replace(/,/g, "")
+    .replace(/\u2212/g, "-")
+    .trim();
+  if (!text) return "";
+  if (text.startsWith(".")) return `0${text}`;
+  if (text.startsWith("-.")) return text.replace("-.", "-0.");
+  const numeric = Number(text);
+  return Number.isFinite(numeric) ? String(numeric) : "";
+}
+
+function toNumber(value: unknown): number {
+  const numeric = Number(toStatString(value));
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+function parseTimeToMinutes(value: unknown): string {
+  const text = cleanWhitespace(value);
+  if (!text) return "";
+  const [minutesText, secondsText] = text.split(":");
+  if (!minutesText || !secondsText) {
+    return toStatString(text);
+  }
+  const minutes = Number(minutesText);
+  const seconds = Number(secondsText);
+  if (!Number.isFinite(minutes) || !Number.isFinite(seconds)) {
+    return "";
+  }
+  return String(Math.round((minutes + seconds / 60) * 100) / 100);
+}
+
+export function buildSourceUrl(
+  kind: "skaters" | "goalies",
+  seasonYear: string,
+): string {
+  return `https://www.hockey-reference.com/leagues/NHL_${seasonYear}_${kind}.html`;
+}
+
+function extractTableHtml(html: string, tableId: string): string {
+  const $ = load(html);
+  const tableHtml = $(`#${tableId}`).toString();
+  if (tableHtml) {
+    return tableHtml;
+  }
+
+  const commentMatches = html.match(/<!--([\s\S]*?)-->/g) ?? [];
+  for (const comment of commentMatches) {
+    if (!comment.includes(tableId)) continue;
+    const commentHtml = comment.slice(4, -3);
+    const comment$ = load(commentHtml);
+    const nested = comment$(`#${tableId}`).toString();
+    if (nested) {
+      return nested;
+    }
+  }
+
+  throw new Error(`Could not find Hockey Reference table ${tableId}.`);
+}
+
+function parseTableRows(
+  html: string,
+  tableId: string,
+): Array<Record<string, string>> {
+  const tableHtml = extractTableHtml(html, tableId);
+  const $ = load(tableHtml);
+  const rows: Array<Record<string, string>> = [];
+
+  $("tbody tr")
+    .not(".thead")
+    .each((index, element) => {
+      const row: Record<string, string> = {
+        __sourceIndex: String(index),
+      };
+
+      $(element)
+        .find("th[data-stat], td[data-stat]")
+        .each((_cellIndex, cell) => {
+          const dataStat = $(cell).attr("data-stat");
+          if (!dataStat) return;
+          row[dataStat] = cleanWhitespace($(cell).text());
+        });
+
+      if (row.name_display && !isIgnoredSourceName(row.name_display)) {
+        rows.push(row);
+      }
+    });
+
+  return rows;
+}
+
+function buildSkaterCandidate(row: Record<string, string>): ScrapedCandidate {
+  const powerPlayGoals = toNumber(row.goals_pp);
+  const powerPlayAssists = toNumber(row.assists_pp);
+  const rawPos = cleanWhitespace(row.pos);
+  const nhlPosTokens = splitPosTokens(rawPos);
+
+  return {
+    sourceType: "skater",
+    sourceIndex: toNumber(row.__sourceIndex),
+    fullName: cleanWhitespace(row.name_display),
+    normalizedName: normalizeName(row.name_display),
+    nhlTeam: cleanWhitespace(row.team_name_abbr),
+    rawPos,
+    nhlPos: nhlPosTokens.join(",") || rawPos,
+    primaryPos: nhlPosTokens[0] ?? "",
+    posGroup: inferPosGroup(rawPos, rawPos),
+    age: toStatString(row.age),
+    GP: toStatString(row.games),
+    G: toStatString(row.goals),
+    A: toStatString(row.assists),
+    P: toStatString(row.points),
+    PM: toStatString(row.plus_minus),
+    PIM: toStatString(row.pen_min),
+    PPP:
+      powerPlayGoals || powerPlayAssists
+        ? String(Math.round((powerPlayGoals + powerPlayAssists) * 100) / 100)
+        : "",
+    SOG: toStatString(row.shots),
+    HIT: toStatString(row.hits),
+    BLK: toStatString(row.blocks),
+    W: "",
+    GA: "",
+    GAA: "",
+    SV: "",
+    SA: "",
+    SVP: "",
+    SO: "",
+    QS: "",
+    RBS: "",
+    TOI: parseTimeToMinutes(row.time_on_ice),
+  };
+}
+
+function buildGoalieCandidate(row: Record<string, string>): ScrapedCandidate {
+  return {
+    sourceType: "goalie",
+    sourceIndex: toNumber(row.__sourceIndex),
+    fullName: cleanWhitespace(row.name_display),
+    normalizedName: normalizeName(row.name_display),
+    nhlTeam: cleanWhitespace(row.team_name_abbr),
+    rawPos: cleanWhitespace(row.pos ?? "G"),
+    nhlPos: "G",
+    primaryPos: "G",
+    posGroup: "G",
+    age: toStatString(row.age),
+    GP: toStatString(row.goalie_games),
+    G: "",
+    A: "",
+    P: "",
+    PM: "",
+    PIM: "",
+    PPP: "",
+    SOG: "",
+    HIT: "",
+    BLK: "",
+    W: toStatString(row.goalie_wins),
+    GA: toStatString(row.goalie_goals_against),
+    GAA: toStatString(row.goals_against_avg),
+    SV: toStatString(row.goalie_saves),
+    SA: toStatString(row.shots_against_goalie),
+    SVP: toStatString(row.save_pct_goalie),
+    SO: toStatString(row.goalie_shutouts),
+    QS: toStatString(row.quality_starts),
+    RBS: toStatString(row.goalie_really_bad_starts),
+    TOI: parseTimeToMinutes(row.goalie_min),
+  };
+}
+
+export function collapseToTotalRows(candidates: ScrapedCandidate[]): {
+  rows: ScrapedCandidate[];
+  duplicateIncomingKeysCollapsed: number;
+} {
+  const grouped = new Map<string, ScrapedCandidate[]>();
+  for (const candidate of candidates) {
+    const key = [
+      candidate.sourceType,
+      candidate.normalizedName,
+      candidate.posGroup,
+    ].join("|");
+    const bucket = grouped.get(key) ?? [];
+    bucket.push(candidate);
+    grouped.set(key, bucket);
+  }
+
+  const rows: ScrapedCandidate[] = [];
+  let duplicateIncomingKeysCollapsed = 0;
+
+  for (const bucket of grouped.values()) {
+    if (bucket.length > 1) {
+      duplicateIncomingKeysCollapsed += bucket.length - 1;
+    }
+    const aggregateRow = bucket.find((candidate) =>
+      isAggregateTeamAbbr(candidate.nhlTeam),
+    );
+    rows.push(
+      (aggregateRow ??
+        [...bucket].sort(
+          (left, right) => left.sourceIndex - right.sourceIndex,
+        )[0])!,
+    );
+  }
+
+  rows.sort((left, right) => left.sourceIndex - right.sourceIndex);
+  return { rows, duplicateIncomingKeysCollapsed };
+}
+
+function buildPlayerFullName(player: HockeyReferencePlayer): string {
+  const fullName = cleanWhitespace(player.fullName);
+  if (fullName) return fullName;
+  return cleanWhitespace(`${player.firstName} ${player.lastName}`);
+}
+
+function getPlayerPosTokens(player: HockeyReferencePlayer): string[] {
+  return splitPosTokens(player.nhlPos);
+}
+
+function buildPlayersByName<TPlayer extends HockeyReferencePlayer>(
+  players: readonly TPlayer[],
+): Map<string, TPlayer[]> {
+  const index = new Map<string, TPlayer[]>();
+
+  for (const player of players) {
+    for (const key of buildNameKeys(buildPlayerFullName(player))) {
+      const existing = index.get(key) ?? [];
+      if (!existing.some((entry) => String(entry.id) === String(player.id))) {
+        existing.push(player);
+        index.set(key, existing);
+      }
+    }
+  }
+
+  return index;
+}
+
+function getPlayersForCandidate<TPlayer extends HockeyReferencePlayer>(
+  playersByName: Map<string, TPlayer[]>,
+  candidate: ScrapedCandidate,
+): TPlayer[] {
+  const seen = new Set<string>();
+  const matches: TPlayer[] = [];
+
+  for (const key of buildNameKeys(candidate.fullName)) {
+    for (const player of playersByName.get(key) ?? []) {
+      const playerId = String(player.id);
+      if (!seen.has(playerId)) {
+        seen.add(playerId);
+        matches.push(player);
+      }
+    }
+  }
+
+  return matches.filter(
+    (player) =>
+      inferPosGroup(player.nhlPos, player.posGroup) === candidate.posGroup ||
+      allowPosGroupMismatch(player, candidate),
+  );
+}
+
+function findFallbackPlayers<TPlayer extends HockeyReferencePlayer>(
+  candidate: ScrapedCandidate,
+  players: readonly TPlayer[],
+): TPlayer[] {
+  const candidateName = getComparableNameParts(candidate.fullName);
+  if (!candidateName.last) return [];
+
+  return players.filter((player) => {
+    const playerPosGroup = inferPosGroup(player.nhlPos, player.posGroup);
+    if (
+      String(playerPosGroup) !== candidate.posGroup &&
+      !allowPosGroupMismatch(player, candidate)
+    ) {
+      return false;
+    }
+
+    const playerName = getComparableNameParts(buildPlayerFullName(player));
+    if (!playerName.last || playerName.last !== candidateName.last) {
+      return false;
+    }
+
+    if (
+      areFullNamesCompatible(buildPlayerFullName(player), candidate.fullName)
+    ) {
+      return true;
+    }
+
+    return areFirstNamesCompatible(playerName.first, candidateName.first);
+  });
+}
+
+function scorePlayerForCandidate(
+  player: HockeyReferencePlayer,
+  candidate: ScrapedCandidate,
+): number {
+  let score = 0;
+  const playerName = getComparableNameParts(buildPlayerFullName(player));
+  const candidateName = getComparableNameParts(candidate.fullName);
+  const playerPosGroup = inferPosGroup(player.nhlPos, player.posGroup);
+  const playerTeam = normalizeTeamAbbr(player.nhlTeam);
+  const candidateTeam = normalizeTeamAbbr(candidate.nhlTeam);
+
+  if (playerPosGroup === candidate.posGroup) {
+    score += 4;
+  } else if (allowPosGroupMismatch(player, candidate)) {
+    score += 4;
+  }
+  if (areFullNamesCompatible(buildPlayerFullName(player), candidate.fullName)) {
+    score += 4;
+  }
+  if (areFirstNamesCompatible(playerName.first, candidateName.first)) {
+    score += 2;
+  }
+  if (playerName.last && playerName.last === candidateName.last) {
+    score += 2;
+  }
+  if (
+    candidate.primaryPos &&
+    getPlayerPosTokens(player).includes(candidate.primaryPos)
+  ) {
+    score += 2;
+  }
+  if (playerTeam && candidateTeam && playerTeam === candidateTeam) {
+    score += 3;
+  } else if (isAggregateTeamAbbr(candidateTeam)) {
+    score += 1;
+  }
+  if (player.isActive) {
+    score += 1;
+  }
+
+  return score;
+}
+
+function choosePlayerForCandidate<TPlayer extends HockeyReferencePlayer>(
+  candidate: ScrapedCandidate,
+  players: TPlayer[],
+): TPlayer | null {
+  if (!players.length) return null;
+  if (players.length === 1) return players[0] ?? null;
+
+  const ranked = players
+    .map((player) => ({
+      player,
+      score: scorePlayerForCandidate(player, candidate),
+    }))
+    .sort((left, right) => {
+      if (right.score !== left.score) {
+        return right.score - left.score;
+      }
+      return String(left.player.id).localeCompare(String(right.player.id));
+    });
+
+  const best = ranked[0];
+  const next = ranked[1];
+  if (!best || best.score <= 0) {
+    return null;
+  }
+  if (next?.score === best.score) {
+    return null;
+  }
+
+  return best.player;
+}
+
+export function resolveSeasonYear(
+  seasonId: string,
+  seasons: readonly HockeyReferenceSeason[],
+  yearOverride?: string,
+): string {
+  if (yearOverride) {
+    return yearOverride.trim();
+  }
+
+  const season = seasons.find((entry) => String(entry.id) === String(seasonId));
+  if (!season) {
+    throw new Error(`Could not find Season row for seasonId=${seasonId}.`);
+  }
+  if (season.year) {
+    return String(season.year).trim();
+  }
+
+  const nameMatch = /(\d{4})\s*-\s*(\d{2,4})/.exec(season.name ?? "");
+  if (nameMatch) {
+    const startYear = Number(nameMatch[1]);
+    const endPart = nameMatch[2] ?? "";
+    if (endPart.length === 2) {
+      return `${String(startYear).slice(0, 2)}${endPart}`;
+    }
+    return endPart;
+  }
+
+  if (season.endDate) {
+    const endDate = new Date(season.endDate);
+    if (!Number.isNaN(endDate.getTime())) {
+      return String(endDate.getUTCFullYear());
+    }
+  }
+
+  const numericSeasonId = Number(seasonId);
+  if (Number.isFinite(numericSeasonId) && numericSeasonId > 0) {
+    return String(2014 + numericSeasonId);
+  }
+
+  throw new Error(
+    `Could not resolve Hockey Reference year for seasonId=${seasonId}.`,
+  );
+}
+
+function normalizeCompositeKeyPart(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = toSafeString(value).trim();
+  if (!text) return "";
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return String(Number(text));
+  }
+  return text;
+}
+
+export function makeSeasonPlayerKey(
+  seasonId: unknown,
+  playerId: unknown,
+): string {
+  return `${normalizeCompositeKeyPart(seasonId)}|${normalizeCompositeKeyPart(playerId)}`;
+}
+
+export function normalizePlayerNhlRowForWrite(
+  row: object,
+): Record<string, unknown> {
+  const normalized = { ...row } as Record<string, unknown>;
+  for (const field of ["nhlPos", "nhlTeam"] as const) {
+    const value = normalized[field];
+    if (typeof value === "string") {
+      normalized[field] = value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+    }
+  }
+  return normalized;
+}
+
+export function hasPlayerNhlRowChanges(
+  existing: object,
+  incoming: Record<string, unknown>,
+): boolean {
+  return Object.entries(incoming).some(([field, nextValue]) => {
+    const previousValue = (existing as Record<string, unknown>)[field];
+    return JSON.stringify(previousValue) !== JSON.stringify(nextValue);
+  });
+}
+
+export function auditExistingDuplicates(
+  seasonId: string,
+  rows: ReadonlyArray<{ seasonId?: unknown; playerId?: unknown }>,
+): { count: number; sampleKeys: string[] } {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    if (String(row.seasonId) !== String(seasonId)) continue;
+    const key = makeSeasonPlayerKey(row.seasonId, row.playerId);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const duplicateKeys = Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([key]) => key);
+
+  return {
+    count: duplicateKeys.length,
+    sampleKeys: duplicateKeys.slice(0, 10),
+  };
+}
+
+function buildStatLineRow(
+  seasonId: string,
+  player: HockeyReferencePlayer,
+  candidate: ScrapedCandidate,
+): HockeyReferenceStatLineRow {
+  const storedTeam = isAggregateTeamAbbr(candidate.nhlTeam)
+    ? cleanWhitespace(player.nhlTeam || candidate.nhlTeam)
+    : cleanWhitespace(candidate.nhlTeam);
+
+  return {
+    seasonId: String(seasonId),
+    playerId: String(player.id),
+    nhlPos: candidate.nhlPos || cleanWhitespace(player.nhlPos),
+    posGroup:
+      candidate.posGroup || inferPosGroup(player.nhlPos, player.posGroup),
+    nhlTeam: storedTeam,
+    age: candidate.age,
+    GP: candidate.GP,
+    G: candidate.G,
+    A: candidate.A,
+    P: candidate.P,
+    PM: candidate.PM,
+    PIM: candidate.PIM,
+    PPP: candidate.PPP,
+    SOG: candidate.SOG,
+    HIT: candidate.HIT,
+    BLK: candidate.BLK,
+    W: candidate.W,
+    GA: candidate.GA,
+    GAA: candidate.GAA,
+    SV: candidate.SV,
+    SA: candidate.SA,
+    SVP: candidate.SVP,
+    SO: candidate.SO,
+    QS: candidate.QS,
+    RBS: candidate.RBS,
+    TOI: candidate.TOI,
+  };
+}
+
+function buildInvestigationRow(
+  seasonId: string,
+  seasonYear: string,
+  candidate: ScrapedCandidate,
+  reason: string,
+): InvestigationRow {
+  return {
+    seasonId,
+    seasonYear,
+    fullName: candidate.fullName,
+    posGroup: candidate.posGroup,
+    nhlTeam: candidate.nhlTeam,
+    sourceType: candidate.sourceType,
+    reason,
+    rawPos: candidate.rawPos,
+    nhlPos: candidate.nhlPos,
+    age: candidate.age,
+    gp: candidate.GP,
+    sourceIndex: candidate.sourceIndex,
+  };
+}
+
+export function parseSkaterCandidates(html: string): ScrapedCandidate[] {
+  return parseTableRows(html, "player_stats")
+    .map(buildSkaterCandidate)
+    .filter((candidate) => candidate.posGroup !== "G");
+}
+
+export function parseGoalieCandidates(html: string): ScrapedCandidate[] {
+  return parseTableRows(html, "goalie_stats").map(buildGoalieCandidate);
+}
+
+/**
+ * Matches collapsed candidates to players by name, position group and team,
+ * falling back to surname matches. Candidates with no match or a tied best
+ * match are returned for investigation instead of a stat line.
+ */
+export function matchSeasonCandidates(
+  seasonId: string,
+  seasonYear: string,
+  candidates: readonly ScrapedCandidate[],
+  players: readonly HockeyReferencePlayer[],
+): SeasonCandidateMatches {
+  const playersByName = buildPlayersByName(players);
+  const result: SeasonCandidateMatches = {
+    rows: [],
+    matchedSkaters: 0,
+    matchedGoalies: 0,
+    unmatched: [],
+    ambiguous: [],
+  };
+
+  for (const candidate of candidates) {
+    const directMatches = getPlayersForCandidate(playersByName, candidate);
+    const candidatePlayers = directMatches.length
+      ? directMatches
+      : findFallbackPlayers(candidate, players);
+    const player = choosePlayerForCandidate(candidate, candidatePlayers);
+
+    if (!candidatePlayers.length) {
+      result.unmatched.push(
+        buildInvestigationRow(
+          seasonId,
+          seasonYear,
+          candidate,
+          "no-player-match",
+        ),
+      );
+      continue;
+    }
+
+    if (!player) {
+      result.ambiguous.push(
+        buildInvestigationRow(
+          seasonId,
+          seasonYear,
+          candidate,
+          "ambiguous-player-match",
+        ),
+      );
+      continue;
+    }
+
+    result.rows.push(buildStatLineRow(seasonId, player, candidate));
+    if (candidate.sourceType === "goalie") {
+      result.matchedGoalies += 1;
+    } else {
+      result.matchedSkaters += 1;
+    }
+  }
+
+  return result;
+}
@@ -26,7 +26,6 @@
  */
 import { existsSync, readFileSync } from "node:fs";
 import { config as loadEnv } from "dotenv";
-import { load as loadHtml } from "cheerio";
 import { fastSheetsReader } from "@gshl-lib/sheets/reader/fast-reader";
 import {
   getArgValue,
@@ -43,6 +42,12 @@ import type {
   TeamWeekStatLine,
   Week,
 } from "@gshl-lib/types/database";
+import {
+  compareStatValues,
+  parseYahooMatchupTotals,
+  YAHOO_HEADER_TO_TEAM_WEEK_FIELD,
+} from "./matchup-parsers";
+import type { ParsedYahooMatchupTotals } from "./matchup-parsers";
 
 loadEnv({ path: ".env.local" });
 loadEnv();
@@ -57,18 +62,6 @@ type YahooWeeklyMatchupCheckOptions = {
   logToConsole: boolean;
 };
 
-type ParsedYahooTeamStats = {
-  teamName: string;
-  stats: Record<string, string>;
-  matchupScore: string;
-};
-
-type ParsedYahooMatchupTotals = {
-  headers: string[];
-  home: ParsedYahooTeamStats;
-  away: ParsedYahooTeamStats;
-};
-
 type DiscrepancyRecord = {
   type:
     | "missing-week"
@@ -130,32 +123,6 @@ const SEASON_LEAGUE_ID_MAP: Record<string, string> = {
   "12": "6989",
 };
 
-const YAHOO_HEADER_TO_TEAM_WEEK_FIELD: Record<string, string> = {
-  G: "G",
-  A: "A",
-  P: "P",
-  PPP: "PPP",
-  "PPG": "PPG",
-  "PPA": "PPA",
-  SOG: "SOG",
-  HIT: "HIT",
-  BLK: "BLK",
-  W: "W",
-  "GA*": "GA",
-  GA: "GA",
-  GAA: "GAA",
-  "SV*": "SV",
-  SV: "SV",
-  "SA*": "SA",
-  SA: "SA",
-  "SV%": "SVP",
-  "SVP": "SVP",
-  SHO: "SO",
-  SO: "SO",
-  "+/-": "PM",
-  PIM: "PIM",
-};
-
 let yahooRequestGate: Promise<void> = Promise.resolve();
 let lastYahooRequestAt = 0;
 
@@ -168,10 +135,6 @@ function log(
   }
 }
 
-function normalizeHeader(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
-
 function parseOptions(args: string[]): YahooWeeklyMatchupCheckOptions {
   if (hasFlag(args, "--help")) {
     console.log(
@@ -439,152 +402,6 @@ function buildYahooMatchupUrl(params: {
   return `https://hockey.fantasysports.yahoo.com/${seasonYear}/hockey/${leagueId}/matchup?mid1=${toTrimmedString(homeTeam.yahooId)}&mid2=${toTrimmedString(awayTeam.yahooId)}&week=${toTrimmedString(week.weekNum)}`;
 }
 
-function parseYahooMatchupTotals(html: string): ParsedYahooMatchupTotals {
-  const $ = loadHtml(html);
-  const table = $("table")
-    .toArray()
-    .find((candidate) => {
-      const headers = $(candidate)
-        .find("thead th")
-        .map((_, cell) => normalizeHeader($(cell).text()))
-        .get()
-        .filter(Boolean);
-
-      return (
-        headers[0] === "Team" &&
-        headers.includes("G") &&
-        headers.includes("W") &&
-        headers.includes("GAA")
-      );
-    });
-
-  if (!table) {
-    throw new Error(
-      "[yahoo:check-weekly-matchups] Could not find the Yahoo matchup totals table.",
-    );
-  }
-
-  const headers = $(table)
-    .find("thead th")
-    .map((_, cell) => normalizeHeader($(cell).text()))
-    .get()
-    .filter(Boolean);
-
-  const statHeaders = headers.slice(1);
-  const parseSide = (values: string[]): ParsedYahooTeamStats => {
-    const stats: Record<string, string> = {};
-    for (let index = 0; index < statHeaders.length; index += 1) {
-      const header = statHeaders[index];
-      if (!header) continue;
-      stats[header] = values[index + 1] ?? "";
-    }
-
-    return {
-      teamName: values[0] ?? "",
-      stats,
-      matchupScore: values[statHeaders.length + 1] ?? "",
-    };
-  };
-
-  const rowValues = $(table)
-    .find("tbody tr")
-    .toArray()
-    .map((row) =>
-      $(row)
-        .find("th,td")
-        .map((_, cell) => normalizeHeader($(cell).text()))
-        .get(),
-    )
-    .filter((values) => values.length > 0);
-
-  if (headers.length < 2 || rowValues.length === 0) {
-    throw new Error(
-      `[yahoo:check-weekly-matchups] Unexpected totals table shape. headers=${headers.length} rows=${rowValues.length}`,
-    );
-  }
-
-  if (rowValues.length >= 2) {
-    return {
-      headers,
-      home: parseSide(rowValues[0] ?? []),
-      away: parseSide(rowValues[1] ?? []),
-    };
-  }
-
-  const firstRowValues = rowValues[0] ?? [];
-  const perSideCount = Math.floor(firstRowValues.length / 2);
-  if (firstRowValues.length < headers.length * 2) {
-    throw new Error(
-      `[yahoo:check-weekly-matchups] Unexpected mirrored totals row shape. headers=${headers.length} cells=${firstRowValues.length}`,
-    );
-  }
-
-  return {
-    headers,
-    home: parseSide(firstRowValues.slice(0, perSideCount)),
-    away: parseSide(firstRowValues.slice(perSideCount)),
-  };
-}
-
-function parseYahooNumeric(value: string): number | null {
-  const normalized = value.replace(/,/g, "").trim();
-  if (!normalized) return null;
-
-  const safe =
-    normalized.startsWith(".") || normalized.startsWith("-.")
-      ? normalized.replace(/^(-?)\./, "$10.")
-      : normalized;
-  const numeric = Number(safe);
-  return Number.isFinite(numeric) ? numeric : null;
-}
-
-function getDecimalPlaces(value: string): number {
-  const normalized = value.replace(/,/g, "").trim();
-  const decimalIndex = normalized.indexOf(".");
-  return decimalIndex >= 0 ? normalized.length - decimalIndex - 1 : 0;
-}
-
-function formatNumberForDisplay(value: number, decimals: number): string {
-  const fixed = value.toFixed(decimals);
-  return fixed.replace(/^(-?)0\./, "$1.");
-}
-
-function compareStatValues(
-  fieldName: string,
-  sheetValue: unknown,
-  yahooValue: string,
-): {
-  matches: boolean;
-  sheetDisplay: string;
-  yahooDisplay: string;
-} {
-  const yahooDisplay = yahooValue.trim();
-  const yahooNumeric = parseYahooNumeric(yahooDisplay);
-  const sheetNumeric = Number(sheetValue);
-
-  if (yahooNumeric !== null && Number.isFinite(sheetNumeric)) {
-    const decimals = getDecimalPlaces(yahooDisplay);
-    const roundedSheet = Number(sheetNumeric.toFixed(decimals));
-    const epsilon =
-      fieldName === "GAA"
-        ? 0.01
-        : fieldName === "SVP"
-          ? 0.001
-          : 1 / 10 ** Math.max(decimals + 2, 6);
-    return {
-      matches: Math.abs(roundedSheet - yahooNumeric) <= epsilon,
-      sheetDisplay: formatNumberForDisplay(roundedSheet, decimals),
-      yahooDisplay,
-    };
-  }
-
-  return {
-    matches: toTrimmedString(sheetValue) === yahooDisplay,
-    sheetDisplay: toTrimmedString(sheetValue),
-    yahooDisplay,
-  };
-}
-
 function buildTeamWeekKey(weekId: string, gshlTeamId: string): string {
   return `${weekId}|${gshlTeamId}`;
 }
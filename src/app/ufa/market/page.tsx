@@ -0,0 +1,5 @@
+import { UfaMarketBoard } from "@gshl-components/contracts/UfaMarketBoard";
+
+export default function UfaMarketBoardPage() {
+  return <UfaMarketBoard />;
+}
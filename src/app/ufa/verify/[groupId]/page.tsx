@@ -0,0 +1,9 @@
+import { UfaDrawVerification } from "@gshl-components/contracts/UfaDrawVerification";
+import type { UfaDrawVerificationRouteProps } from "@gshl-types";
+
+export default async function UfaDrawVerificationPage({
+  params,
+}: UfaDrawVerificationRouteProps) {
+  const { groupId } = await params;
+  return <UfaDrawVerification groupId={groupId} />;
+}
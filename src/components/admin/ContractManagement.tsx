@@ -21,10 +21,9 @@ import {
 import {
   checkContractCapSpace,
   deriveContractCreationTerms,
-  getEffectiveSigningStatus,
+  getContractEligibility,
   formatMoney,
   findNhlTeamByAbbreviation,
-  isUnsignedForSigningSeason,
   isUfaFreeAgencyOpen,
 } from "@gshl-utils";
 import { type ContractLength, type GSHLTeam, type NHLTeam } from "@gshl-types";
@@ -83,34 +82,27 @@ export function ContractManagement() {
     const ownerId = selectedTeam.ownerId;
     return playersQuery.data
       .flatMap((player) => {
-        const belongsToTeam =
-          String(player.ownerId) === String(selectedTeam.ownerId);
-        const isLeagueUfa =
-          freeAgencyOpen &&
-          isUnsignedForSigningSeason(
-            String(player.id),
-            String(signingSeason.id),
-            contractsQuery.data,
-            seasonsQuery.data,
-          );
-        const eligible =
-          player.isActive &&
-          ((player.isSignable &&
-            Boolean(player.isResignable) &&
-            belongsToTeam) ||
-            isLeagueUfa) &&
-          !playerHasSigningSeasonContract.has(String(player.id));
-        if (!eligible) return [];
+        if (
+          !player.isActive ||
+          playerHasSigningSeasonContract.has(String(player.id))
+        ) {
+          return [];
+        }
+        const eligibility = getContractEligibility({
+          player,
+          signingSeason,
+          contracts: contractsQuery.data,
+          seasons: seasonsQuery.data,
+        });
+        const holdsRights = eligibility.rightsOwnerId
+          ? Boolean(player.isSignable) &&
+            eligibility.rightsOwnerId === String(ownerId)
+          : freeAgencyOpen;
+        if (!eligibility.canSign || !holdsRights) return [];
 
         try {
-          const effectiveSigningStatus = getEffectiveSigningStatus({
-            player,
-            signingSeason,
-            contracts: contractsQuery.data,
-            seasons: seasonsQuery.data,
-          });
           const terms = deriveContractCreationTerms({
-            player: { ...player, isResignable: effectiveSigningStatus },
+            player: { ...player, isResignable: eligibility.status },
             signingSeason,
             contractLength,
             contracts: contractsQuery.data,
@@ -2,8 +2,11 @@
 
 import { useMemo, useState } from "react";
 import { useJobAdmin, useSeasons, useTeams, useWeeks } from "@gshl-hooks";
-import type { GSHLTeam } from "@gshl-types";
+import type { GSHLTeam, JobRun } from "@gshl-types";
 import { Button } from "@gshl-ui";
+import { JobPipelineOverview } from "./JobPipelineOverview";
+import { JobRunInspector } from "./JobRunInspector";
+import { JobSchedules } from "./JobSchedules";
 
 const activeStatuses = new Set([
   "queued",
@@ -12,21 +15,48 @@ const activeStatuses = new Set([
   "cancelling",
 ]);
 
+// Jobs whose browser-worker capture needs the page to open.
+const browserSourceJobs = new Set([
+  "hockey-reference-backfill",
+  "yahoo-player-id-backfill",
+  "yahoo-matchup-player-day-backfill",
+  "yahoo-weekly-validation",
+  "puckpedia-player-bio-sync",
+]);
+
 function formatTime(value?: number) {
   return value ? new Date(value).toLocaleString() : "—";
 }
 
 export function JobManagement() {
-  const { catalog, runs, start, cancel, retry } = useJobAdmin();
+  const {
+    catalog,
+    runs,
+    start,
+    cancel,
+    retry,
+    schedules,
+    createSchedule,
+    updateSchedule,
+    setScheduleEnabled,
+  } = useJobAdmin();
   const [jobName, setJobName] = useState("season-stat-aggregation");
   const [seasonId, setSeasonId] = useState("");
   const [weekNum, setWeekNum] = useState("");
   const [teamId, setTeamId] = useState("");
   const [matchupId, setMatchupId] = useState("");
+  const [sourceUrl, setSourceUrl] = useState("");
   const [apply, setApply] = useState(false);
+  const [inspectedRunId, setInspectedRunId] = useState<JobRun["id"] | null>(
+    null,
+  );
   const sortedRuns = useMemo(() => runs.data ?? [], [runs.data]);
   const isYahooPlayerDayBackfill =
     jobName === "yahoo-matchup-player-day-backfill";
+  const needsSourceUrl = browserSourceJobs.has(jobName);
+  const pipeline = catalog.data?.pipelines.find(
+    (entry) => entry.jobName === jobName,
+  );
   const seasonsQuery = useSeasons({ orderBy: { year: "desc" } });
   const weeksQuery = useWeeks({
     seasonId,
@@ -63,6 +93,7 @@ export function JobManagement() {
     const normalizedWeekNum = weekNum.trim();
     const normalizedTeamId = teamId.trim();
     const normalizedMatchupId = matchupId.trim();
+    const normalizedSourceUrl = sourceUrl.trim();
     if (normalizedSeasonId) args.seasonId = normalizedSeasonId;
     if (isYahooPlayerDayBackfill && normalizedWeekNum) {
       args.weekNum = normalizedWeekNum;
@@ -73,6 +104,9 @@ export function JobManagement() {
     if (isYahooPlayerDayBackfill && normalizedMatchupId) {
       args.matchupId = normalizedMatchupId;
     }
+    if (needsSourceUrl && normalizedSourceUrl) {
+      args.url = normalizedSourceUrl;
+    }
     start.mutate({ jobName, apply, args });
   };
 
@@ -176,6 +210,17 @@ export function JobManagement() {
             />
           </label>
         ) : null}
+        {needsSourceUrl ? (
+          <label className="text-sm">
+            <span className="mb-1 block font-medium">Source URL</span>
+            <input
+              className="w-full rounded border px-3 py-2"
+              value={sourceUrl}
+              onChange={(event) => setSourceUrl(event.target.value)}
+              placeholder="Page for the browser worker to capture"
+            />
+          </label>
+        ) : null}
         <label className="flex items-end gap-2 pb-2 text-sm font-medium">
           <input
             type="checkbox"
@@ -203,6 +248,23 @@ export function JobManagement() {
       {start.error ? (
         <p className="text-sm text-red-600">{start.error.message}</p>
       ) : null}
+      {pipeline ? <JobPipelineOverview pipeline={pipeline} /> : null}
+
+      {inspectedRunId ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold">Run detail</h2>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setInspectedRunId(null)}
+            >
+              Close
+            </Button>
+          </div>
+          <JobRunInspector runId={inspectedRunId} />
+        </div>
+      ) : null}
 
       <div className="overflow-x-auto rounded-lg border">
         <table className="w-full min-w-[900px] text-sm">
@@ -251,7 +313,14 @@ export function JobManagement() {
                   <td className="px-3 py-3 text-xs">
                     {formatTime(run.startedAt ?? run.createdAt)}
                   </td>
-                  <td className="px-3 py-3">
+                  <td className="space-x-2 px-3 py-3">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setInspectedRunId(run.id)}
+                    >
+                      Inspect
+                    </Button>
                     {activeStatuses.has(run.status) ? (
                       <Button
                         size="sm"
@@ -279,6 +348,14 @@ export function JobManagement() {
           </tbody>
         </table>
       </div>
+
+      <JobSchedules
+        jobs={catalog.data?.jobs ?? []}
+        schedules={schedules}
+        createSchedule={createSchedule}
+        updateSchedule={updateSchedule}
+        setScheduleEnabled={setScheduleEnabled}
+      />
     </section>
   );
 }
@@ -0,0 +1,33 @@
+"use client";
+
+import type { JobPipelineOverviewProps } from "@gshl-types";
+
+export function JobPipelineOverview({ pipeline }: JobPipelineOverviewProps) {
+  return (
+    <div className="space-y-2 rounded-lg border p-4">
+      <div>
+        <h2 className="font-semibold">{pipeline.label}</h2>
+        <p className="text-sm text-muted-foreground">{pipeline.description}</p>
+      </div>
+      <ol className="space-y-1 text-sm">
+        {pipeline.stages.map((stage, index) => (
+          <li key={stage.id}>
+            <span className="font-medium">
+              {index + 1}. {stage.jobName}
+            </span>{" "}
+            <span className="text-xs text-muted-foreground">
+              {stage.after.length
+                ? `after ${stage.after.join(", ")}`
+                : "starts first"}
+              {stage.condition ? ` · ${stage.condition}` : ""}
+            </span>
+          </li>
+        ))}
+      </ol>
+      <p className="text-xs text-muted-foreground">
+        Stages with finished inputs run side by side. Schedule a pipeline like
+        any other job below.
+      </p>
+    </div>
+  );
+}
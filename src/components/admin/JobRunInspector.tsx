@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useJobRunDetail } from "@gshl-hooks";
+import type {
+  JobEventLevel,
+  JobProgressBarProps,
+  JobRunInspectorProps,
+} from "@gshl-types";
+import { jobRunProgressPercent } from "@gshl-utils";
+
+const eventLevels: JobEventLevel[] = ["debug", "info", "warning", "error"];
+
+const levelClassNames: Record<JobEventLevel, string> = {
+  debug: "text-gray-500",
+  info: "text-gray-900",
+  warning: "text-amber-700",
+  error: "text-red-600",
+};
+
+function formatTime(value?: number) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function ProgressBar({ run }: JobProgressBarProps) {
+  const percent = jobRunProgressPercent(run);
+  const failed = run?.status === "failed" || run?.status === "cancelled";
+  return (
+    <div className="h-2 w-full overflow-hidden rounded bg-gray-200">
+      {percent === null ? (
+        <div className="h-full w-full animate-pulse bg-blue-300" />
+      ) : (
+        <div
+          className={`h-full ${failed ? "bg-red-400" : "bg-blue-500"}`}
+          style={{ width: `${percent}%` }}
+        />
+      )}
+    </div>
+  );
+}
+
+export function JobRunInspector({ runId, nested }: JobRunInspectorProps) {
+  const [level, setLevel] = useState<JobEventLevel | "">("");
+  const [follow, setFollow] = useState(true);
+  const [openStages, setOpenStages] = useState<Set<number>>(new Set());
+  const detail = useJobRunDetail(runId, level || undefined);
+  const logRef = useRef<HTMLDivElement>(null);
+  const events = detail.data?.events;
+
+  useEffect(() => {
+    if (follow && logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [events, follow]);
+
+  if (detail.isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading run…</p>;
+  }
+  if (!detail.data) {
+    return <p className="text-sm text-muted-foreground">Run not found.</p>;
+  }
+
+  const { run, artifacts, tasks, pipelineStages } = detail.data;
+  const progress = run.progress;
+  const toggleStage = (stage: number) =>
+    setOpenStages((current) => {
+      const next = new Set(current);
+      if (next.has(stage)) next.delete(stage);
+      else next.add(stage);
+      return next;
+    });
+
+  return (
+    <div className={nested ? "space-y-3" : "space-y-4 rounded-lg border p-4"}>
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div>
+          <div className="font-semibold">{run.jobName}</div>
+          <div className="text-xs text-muted-foreground">
+            {run.apply ? "Apply" : "Dry run"} · {run.mode} · requested by{" "}
+            {run.requestedBy || "—"}
+          </div>
+        </div>
+        <span className="rounded bg-gray-100 px-2 py-1 text-sm">
+          {run.status}
+        </span>
+      </div>
+      <ProgressBar run={run} />
+      <div className="grid gap-2 text-xs sm:grid-cols-2 lg:grid-cols-4">
+        <div>Created: {formatTime(run.createdAt)}</div>
+        <div>Started: {formatTime(run.startedAt)}</div>
+        <div>Heartbeat: {formatTime(run.heartbeatAt)}</div>
+        <div>Finished: {formatTime(run.finishedAt)}</div>
+        <div>
+          {progress.processed ?? 0} processed · {progress.inserted ?? 0}{" "}
+          inserted · {progress.updated ?? 0} updated · {progress.deleted ?? 0}{" "}
+          deleted · {progress.skipped ?? 0} skipped
+        </div>
+      </div>
+      {run.error ? <p className="text-sm text-red-600">{run.error}</p> : null}
+
+      {pipelineStages.length ? (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Pipeline stages</h3>
+          <ul className="space-y-2">
+            {pipelineStages.map((stage) => (
+              <li key={stage.stage} className="rounded border p-2">
+                <div className="flex items-center gap-3 text-sm">
+                  <button
+                    type="button"
+                    className="w-5 text-left disabled:text-gray-300"
+                    disabled={!stage.run || Boolean(stage.skipReason)}
+                    aria-expanded={openStages.has(stage.stage)}
+                    onClick={() => toggleStage(stage.stage)}
+                  >
+                    {openStages.has(stage.stage) ? "▾" : "▸"}
+                  </button>
+                  <span className="w-56">
+                    <span className="block font-medium">
+                      {stage.stage + 1}. {stage.jobName}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {stage.after.length
+                        ? `after ${stage.after.join(", ")}`
+                        : "starts first"}
+                      {stage.condition ? ` · ${stage.condition}` : ""}
+                    </span>
+                  </span>
+                  <span
+                    className="w-28 text-xs text-muted-foreground"
+                    title={stage.skipReason}
+                  >
+                    {stage.skipReason
+                      ? "skipped"
+                      : (stage.run?.status ?? "not started")}
+                  </span>
+                  <div className="flex-1">
+                    <ProgressBar run={stage.run} />
+                  </div>
+                </div>
+                {stage.run &&
+                !stage.skipReason &&
+                openStages.has(stage.stage) ? (
+                  <div className="mt-3 border-l-2 pl-4">
+                    <JobRunInspector runId={stage.run.id} nested />
+                  </div>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="text-sm font-semibold">Events</h3>
+          <select
+            className="rounded border bg-white px-2 py-1 text-xs"
+            value={level}
+            onChange={(event) =>
+              setLevel(event.target.value as JobEventLevel | "")
+            }
+          >
+            <option value="">All levels</option>
+            {eventLevels.map((entry) => (
+              <option key={entry} value={entry}>
+                {entry}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs">
+            <input
+              type="checkbox"
+              checked={follow}
+              onChange={(event) => setFollow(event.target.checked)}
+            />
+            Follow
+          </label>
+        </div>
+        <div
+          ref={logRef}
+          className="max-h-64 overflow-y-auto rounded bg-gray-50 p-2 font-mono text-xs"
+        >
+          {events?.length ? (
+            events.map((event) => (
+              <div key={event.id} className={levelClassNames[event.level]}>
+                <span className="text-gray-400">
+                  {formatTime(event.createdAt)}
+                </span>{" "}
+                [{event.level}] {event.message}
+              </div>
+            ))
+          ) : (
+            <div className="text-muted-foreground">No events.</div>
+          )}
+        </div>
+      </div>
+
+      {artifacts.length ? (
+        <div className="space-y-1">
+          <h3 className="text-sm font-semibold">Artifacts</h3>
+          <ul className="space-y-1 text-sm">
+            {artifacts.map((artifact) => (
+              <li key={artifact.id}>
+                {artifact.url ? (
+                  <a
+                    className="text-blue-700 underline"
+                    href={artifact.url}
+                    download={artifact.name}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    {artifact.name}
+                  </a>
+                ) : (
+                  artifact.name
+                )}{" "}
+                <span className="text-xs text-muted-foreground">
+                  {artifact.kind} · {formatTime(artifact.createdAt)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {tasks.length ? (
+        <div className="space-y-1">
+          <h3 className="text-sm font-semibold">Browser worker tasks</h3>
+          <table className="w-full text-xs">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th className="py-1">Status</th>
+                <th className="py-1">Lease owner</th>
+                <th className="py-1">Lease expires</th>
+                <th className="py-1">Heartbeat</th>
+                <th className="py-1">Chunks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tasks.map((task) => (
+                <tr key={task.id} className="border-t align-top">
+                  <td className="py-1">
+                    {task.status}
+                    {task.error ? (
+                      <div className="text-red-600">{task.error}</div>
+                    ) : null}
+                  </td>
+                  <td className="py-1">{task.leaseOwner ?? "—"}</td>
+                  <td className="py-1">{formatTime(task.leaseExpiresAt)}</td>
+                  <td className="py-1">{formatTime(task.heartbeatAt)}</td>
+                  <td className="py-1">{task.resultChunks}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {nested ? null : (
+        <p className="text-xs text-muted-foreground">
+          Updates live while the run is open.
+        </p>
+      )}
+    </div>
+  );
+}
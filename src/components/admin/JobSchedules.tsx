@@ -0,0 +1,374 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  JobSchedule,
+  JobScheduleArgs,
+  JobScheduleDraft,
+  JobScheduleTimingMode,
+  JobSchedulesProps,
+} from "@gshl-types";
+import { dailyCronExpression, describeJobScheduleTiming } from "@gshl-utils";
+import { Button } from "@gshl-ui";
+
+const emptyDraft: JobScheduleDraft = {
+  name: "",
+  jobName: "active-season-refresh",
+  seasonId: "",
+  timingMode: "daily",
+  time: "04:00",
+  cron: "0 4 * * *",
+  intervalMinutes: "60",
+  activeSeasonOnly: true,
+  apply: false,
+  enabled: true,
+};
+
+function formatTime(value?: number) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function draftFromSchedule(schedule: JobSchedule): JobScheduleDraft {
+  const daily = /^(\d{1,2}) (\d{1,2}) \* \* \*$/.exec(schedule.cron ?? "");
+  return {
+    scheduleId: schedule.id,
+    name: schedule.name,
+    jobName: schedule.jobName,
+    seasonId: schedule.args.seasonId ?? "",
+    timingMode:
+      schedule.intervalMinutes !== undefined
+        ? "interval"
+        : daily
+          ? "daily"
+          : "cron",
+    time: daily
+      ? `${daily[2]!.padStart(2, "0")}:${daily[1]!.padStart(2, "0")}`
+      : emptyDraft.time,
+    cron: schedule.cron ?? emptyDraft.cron,
+    intervalMinutes: String(
+      schedule.intervalMinutes ?? emptyDraft.intervalMinutes,
+    ),
+    activeSeasonOnly: schedule.activeSeasonOnly,
+    apply: schedule.apply,
+    enabled: schedule.enabled,
+  };
+}
+
+function scheduleArgs(
+  schedule: Omit<JobSchedule, "id" | "runs" | "nextRunAt" | "lastRunAt">,
+): JobScheduleArgs {
+  return {
+    name: schedule.name,
+    jobName: schedule.jobName,
+    args: schedule.args,
+    apply: schedule.apply,
+    enabled: schedule.enabled,
+    activeSeasonOnly: schedule.activeSeasonOnly,
+    ...(schedule.cron ? { cron: schedule.cron } : {}),
+    ...(schedule.intervalMinutes !== undefined
+      ? { intervalMinutes: schedule.intervalMinutes }
+      : {}),
+  };
+}
+
+export function JobSchedules({
+  jobs,
+  schedules,
+  createSchedule,
+  updateSchedule,
+  setScheduleEnabled,
+}: JobSchedulesProps) {
+  const [draft, setDraft] = useState<JobScheduleDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const scheduleRows = schedules.data ?? [];
+  const saving = createSchedule.isPending || updateSchedule.isPending;
+  const mutationError =
+    createSchedule.error ?? updateSchedule.error ?? setScheduleEnabled.error;
+
+  const editDraft = (changes: Partial<JobScheduleDraft>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const saveDraft = () => {
+    setFormError(null);
+    let timing: { cron?: string; intervalMinutes?: number };
+    try {
+      timing =
+        draft.timingMode === "interval"
+          ? { intervalMinutes: Number(draft.intervalMinutes) }
+          : {
+              cron:
+                draft.timingMode === "daily"
+                  ? dailyCronExpression(draft.time)
+                  : draft.cron.trim(),
+            };
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const seasonId = draft.seasonId.trim();
+    const args = scheduleArgs({
+      name: draft.name.trim(),
+      jobName: draft.jobName,
+      args: seasonId ? { seasonId } : {},
+      apply: draft.apply,
+      enabled: draft.enabled,
+      activeSeasonOnly: draft.activeSeasonOnly,
+      ...timing,
+    });
+    const reset = { onSuccess: () => setDraft(emptyDraft) };
+    if (draft.scheduleId) {
+      updateSchedule.mutate({ ...args, scheduleId: draft.scheduleId }, reset);
+    } else {
+      createSchedule.mutate(args, reset);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-bold">Schedules</h2>
+        <p className="text-sm text-muted-foreground">
+          Daily and cron times are Toronto time. Active-season schedules skip
+          their slot outside the active season&apos;s dates.
+        </p>
+      </div>
+
+      <div className="grid gap-3 rounded-lg border p-4 md:grid-cols-2 xl:grid-cols-4">
+        <label className="text-sm">
+          <span className="mb-1 block font-medium">Name</span>
+          <input
+            className="w-full rounded border px-3 py-2"
+            value={draft.name}
+            onChange={(event) => editDraft({ name: event.target.value })}
+            placeholder="Nightly refresh"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="mb-1 block font-medium">Job</span>
+          <select
+            className="w-full rounded border bg-white px-3 py-2"
+            value={draft.jobName}
+            onChange={(event) => editDraft({ jobName: event.target.value })}
+          >
+            {jobs.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="mb-1 block font-medium">Season ID (optional)</span>
+          <input
+            className="w-full rounded border px-3 py-2"
+            value={draft.seasonId}
+            onChange={(event) => editDraft({ seasonId: event.target.value })}
+            placeholder="Convex season ID"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="mb-1 block font-medium">Runs</span>
+          <select
+            className="w-full rounded border bg-white px-3 py-2"
+            value={draft.timingMode}
+            onChange={(event) =>
+              editDraft({
+                timingMode: event.target.value as JobScheduleTimingMode,
+              })
+            }
+          >
+            <option value="daily">Daily at a Toronto time</option>
+            <option value="cron">Cron expression</option>
+            <option value="interval">Every N minutes</option>
+          </select>
+        </label>
+        {draft.timingMode === "daily" ? (
+          <label className="text-sm">
+            <span className="mb-1 block font-medium">Time (ET)</span>
+            <input
+              type="time"
+              className="w-full rounded border px-3 py-2"
+              value={draft.time}
+              onChange={(event) => editDraft({ time: event.target.value })}
+            />
+          </label>
+        ) : null}
+        {draft.timingMode === "cron" ? (
+          <label className="text-sm">
+            <span className="mb-1 block font-medium">Cron (ET)</span>
+            <input
+              className="w-full rounded border px-3 py-2 font-mono"
+              value={draft.cron}
+              onChange={(event) => editDraft({ cron: event.target.value })}
+              placeholder="0 4 * * 1-5"
+            />
+          </label>
+        ) : null}
+        {draft.timingMode === "interval" ? (
+          <label className="text-sm">
+            <span className="mb-1 block font-medium">Minutes</span>
+            <input
+              type="number"
+              min={1}
+              className="w-full rounded border px-3 py-2"
+              value={draft.intervalMinutes}
+              onChange={(event) =>
+                editDraft({ intervalMinutes: event.target.value })
+              }
+            />
+          </label>
+        ) : null}
+        <div className="flex flex-wrap items-end gap-4 pb-2 text-sm font-medium">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.activeSeasonOnly}
+              onChange={(event) =>
+                editDraft({ activeSeasonOnly: event.target.checked })
+              }
+            />
+            Active season only
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.apply}
+              onChange={(event) => editDraft({ apply: event.target.checked })}
+            />
+            Apply changes
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(event) => editDraft({ enabled: event.target.checked })}
+            />
+            Enabled
+          </label>
+        </div>
+        <div className="flex items-end gap-2">
+          <Button disabled={saving || !draft.name.trim()} onClick={saveDraft}>
+            {saving
+              ? "Saving…"
+              : draft.scheduleId
+                ? "Save schedule"
+                : "Create schedule"}
+          </Button>
+          {draft.scheduleId ? (
+            <Button variant="outline" onClick={() => setDraft(emptyDraft)}>
+              Cancel edit
+            </Button>
+          ) : null}
+        </div>
+      </div>
+      {(formError ?? mutationError) ? (
+        <p className="text-sm text-red-600">
+          {formError ?? mutationError?.message}
+        </p>
+      ) : null}
+
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full min-w-[900px] text-sm">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="px-3 py-2">Schedule</th>
+              <th className="px-3 py-2">Timing</th>
+              <th className="px-3 py-2">Mode</th>
+              <th className="px-3 py-2">Last / next run</th>
+              <th className="px-3 py-2">Recent runs</th>
+              <th className="px-3 py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scheduleRows.map((schedule) => (
+              <tr key={schedule.id} className="border-t align-top">
+                <td className="px-3 py-3">
+                  <div className="font-medium">{schedule.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {schedule.jobName}
+                  </div>
+                </td>
+                <td className="px-3 py-3 text-xs">
+                  {describeJobScheduleTiming(schedule)}
+                </td>
+                <td className="px-3 py-3">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={updateSchedule.isPending}
+                    onClick={() =>
+                      updateSchedule.mutate({
+                        ...scheduleArgs({
+                          ...schedule,
+                          apply: !schedule.apply,
+                        }),
+                        scheduleId: schedule.id,
+                      })
+                    }
+                  >
+                    {schedule.apply ? "Apply" : "Dry run"}
+                  </Button>
+                </td>
+                <td className="px-3 py-3 text-xs">
+                  Last: {formatTime(schedule.lastRunAt)}
+                  <br />
+                  Next:{" "}
+                  {schedule.enabled ? formatTime(schedule.nextRunAt) : "—"}
+                </td>
+                <td className="px-3 py-3 text-xs">
+                  {schedule.runs.length ? (
+                    <ul className="space-y-1">
+                      {schedule.runs.map((run) => (
+                        <li key={run.id}>
+                          <span className="rounded bg-gray-100 px-1">
+                            {run.status}
+                          </span>{" "}
+                          {formatTime(run.createdAt)}
+                          {run.apply ? "" : " (dry run)"}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    "No runs yet"
+                  )}
+                </td>
+                <td className="space-x-2 px-3 py-3">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={setScheduleEnabled.isPending}
+                    onClick={() =>
+                      setScheduleEnabled.mutate({
+                        scheduleId: schedule.id,
+                        enabled: !schedule.enabled,
+                      })
+                    }
+                  >
+                    {schedule.enabled ? "Disable" : "Enable"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setDraft(draftFromSchedule(schedule))}
+                  >
+                    Edit
+                  </Button>
+                </td>
+              </tr>
+            ))}
+            {!schedules.isLoading && !scheduleRows.length ? (
+              <tr>
+                <td
+                  className="px-3 py-6 text-center text-muted-foreground"
+                  colSpan={6}
+                >
+                  No schedules yet.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+"use client";
+
+import { useMemo, useState, type FormEvent } from "react";
+import {
+  useContracts,
+  useDraftPicks,
+  useExecuteTrade,
+  usePlayers,
+  useSeasons,
+  useSetTradeDeadline,
+  useTeams,
+  useTradeDeadline,
+} from "@gshl-hooks";
+import { Button, Input, Select } from "@gshl-ui";
+import {
+  formatMoney,
+  formatTradeDraftPickLabel,
+  getTorontoDate,
+  getTradeableContracts,
+  orderContractSeasons,
+  planTrade,
+  showDate,
+} from "@gshl-utils";
+import type { GSHLTeam, Player, TradeAsset } from "@gshl-types";
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value)
+    ? values.filter((candidate) => candidate !== value)
+    : [...values, value];
+}
+
+export function TradeManagement() {
+  const [ownerIds, setOwnerIds] = useState<[string, string]>(["", ""]);
+  const [selected, setSelected] = useState<[string[], string[]]>([[], []]);
+  const [notes, setNotes] = useState("");
+  const [success, setSuccess] = useState("");
+  const [deadlineDraft, setDeadlineDraft] = useState("");
+
+  const seasonsQuery = useSeasons();
+  const tradeSeason = seasonsQuery.data.find((season) => season.isActive);
+  const teamsQuery = useTeams();
+  const contractsQuery = useContracts();
+  const draftPicksQuery = useDraftPicks();
+  const firstPlayers = usePlayers({
+    ownerId: ownerIds[0],
+    enabled: Boolean(ownerIds[0]),
+  });
+  const secondPlayers = usePlayers({
+    ownerId: ownerIds[1],
+    enabled: Boolean(ownerIds[1]),
+  });
+  const executeTrade = useExecuteTrade();
+  const tradeDeadline = useTradeDeadline();
+  const setTradeDeadline = useSetTradeDeadline();
+  const deadlineStatus = tradeDeadline.status;
+
+  const allTeams = teamsQuery.data as GSHLTeam[];
+  const seasonTeams = useMemo(
+    () =>
+      allTeams
+        .filter(
+          (team) =>
+            team.isActive &&
+            String(team.seasonId) === String(tradeSeason?.id ?? ""),
+        )
+        .sort((left, right) =>
+          String(left.name ?? "").localeCompare(String(right.name ?? "")),
+        ),
+    [allTeams, tradeSeason?.id],
+  );
+  const ownerNames = useMemo(
+    () =>
+      new Map(
+        seasonTeams.map((team) => [String(team.ownerId), String(team.name)]),
+      ),
+    [seasonTeams],
+  );
+  const tradeDate = getTorontoDate();
+
+  const sides = useMemo(() => {
+    const ordered = orderContractSeasons(seasonsQuery.data);
+    const tradeSeasonIndex = ordered.findIndex(
+      (season) => String(season.id) === String(tradeSeason?.id ?? ""),
+    );
+    const openSeasonIds = new Set(
+      ordered.slice(Math.max(tradeSeasonIndex, 0)).map((season) => season.id),
+    );
+    const seasonById = new Map(ordered.map((season) => [season.id, season]));
+    const ownerByTeamId = new Map(
+      allTeams.map((team) => [String(team.id), String(team.ownerId ?? "")]),
+    );
+    return [firstPlayers.data, secondPlayers.data].map(
+      (players: Player[], index) => {
+        const ownerId = ownerIds[index] ?? "";
+        return {
+          ownerId,
+          players: [...players]
+            .filter((player) => player.isActive)
+            .sort((left, right) => left.fullName.localeCompare(right.fullName))
+            .map((player) => {
+              const contracts = getTradeableContracts(
+                String(player.id),
+                ownerId,
+                contractsQuery.data,
+                tradeDate,
+              );
+              return {
+                key: `player:${player.id}`,
+                player,
+                contracts,
+                capHit: contracts[0]?.capHit ?? null,
+              };
+            }),
+          draftPicks: draftPicksQuery.data
+            .filter(
+              (draftPick) =>
+                !draftPick.playerId &&
+                openSeasonIds.has(draftPick.seasonId) &&
+                ownerByTeamId.get(String(draftPick.gshlTeamId)) === ownerId,
+            )
+            .sort(
+              (left, right) =>
+                String(left.seasonId).localeCompare(String(right.seasonId)) ||
+                Number(left.round) - Number(right.round),
+            )
+            .map((draftPick) => ({
+              key: `draftPick:${draftPick.id}`,
+              draftPick,
+              label: formatTradeDraftPickLabel(
+                draftPick,
+                seasonById.get(draftPick.seasonId),
+              ),
+            })),
+        };
+      },
+    );
+  }, [
+    allTeams,
+    contractsQuery.data,
+    draftPicksQuery.data,
+    firstPlayers.data,
+    ownerIds,
+    seasonsQuery.data,
+    secondPlayers.data,
+    tradeDate,
+    tradeSeason?.id,
+  ]);
+
+  const assets = useMemo<TradeAsset[]>(
+    () =>
+      sides.flatMap((side, index) => {
+        const toOwnerId = ownerIds[index === 0 ? 1 : 0];
+        const keys = new Set(selected[index]);
+        return [
+          ...side.players
+            .filter((option) => keys.has(option.key))
+            .map((option) => ({
+              kind: "player" as const,
+              fromOwnerId: side.ownerId,
+              toOwnerId,
+              playerId: String(option.player.id),
+              contractIds: option.contracts.map((contract) => contract.id),
+            })),
+          ...side.draftPicks
+            .filter((option) => keys.has(option.key))
+            .map((option) => ({
+              kind: "draftPick" as const,
+              fromOwnerId: side.ownerId,
+              toOwnerId,
+              draftPickId: option.draftPick.id,
+            })),
+        ];
+      }),
+    [ownerIds, selected, sides],
+  );
+
+  const plan = useMemo(
+    () =>
+      tradeSeason && assets.length
+        ? planTrade({
+            assets,
+            contracts: contractsQuery.data,
+            seasons: seasonsQuery.data,
+            tradeSeasonId: String(tradeSeason.id),
+            tradeDate,
+            ownerNames,
+          })
+        : null,
+    [
+      assets,
+      contractsQuery.data,
+      ownerNames,
+      seasonsQuery.data,
+      tradeDate,
+      tradeSeason,
+    ],
+  );
+
+  const isLoading =
+    seasonsQuery.isLoading ||
+    teamsQuery.isLoading ||
+    contractsQuery.isLoading ||
+    draftPicksQuery.isLoading;
+  const canSubmit = Boolean(
+    !isLoading &&
+      !deadlineStatus?.isClosed &&
+      ownerIds[0] &&
+      ownerIds[1] &&
+      plan?.errors.length === 0,
+  );
+
+  const selectOwner = (index: 0 | 1, ownerId: string) => {
+    setOwnerIds((current) =>
+      index === 0 ? [ownerId, current[1]] : [current[0], ownerId],
+    );
+    setSelected((current) =>
+      index === 0 ? [[], current[1]] : [current[0], []],
+    );
+    setSuccess("");
+  };
+
+  const saveDeadline = (tradeDeadlineDate: string | null) => {
+    if (!tradeSeason) return;
+    setTradeDeadline.mutate(
+      { seasonId: tradeSeason.id, tradeDeadlineDate },
+      { onSuccess: () => setDeadlineDraft("") },
+    );
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    setSuccess("");
+    executeTrade.mutate(
+      { assets, notes: notes.trim() || undefined },
+      {
+        onSuccess: () => {
+          setSuccess("The trade was recorded.");
+          setSelected([[], []]);
+          setNotes("");
+        },
+      },
+    );
+  };
+
+  return (
+    <section className="mx-auto max-w-4xl space-y-6 py-6">
+      <div>
+        <h1 className="text-2xl font-bold">Record Trade</h1>
+        <p className="text-sm text-muted-foreground">
+          Players move with every remaining contract year; salary retention is
+          not allowed. Each owner taking on salary is checked against the cap in
+          every season the moved contracts cover.
+        </p>
+      </div>
+
+      <div className="space-y-3 rounded-lg border p-5 text-sm">
+        <div>
+          <h2 className="font-semibold">Trade deadline</h2>
+          <p className="text-muted-foreground">
+            {deadlineStatus?.deadline
+              ? `${deadlineStatus.isOverride ? "Published" : "Derived"} deadline: ${showDate(deadlineStatus.deadline)}. Trades close when that day ends in Toronto.`
+              : "No regular-season schedule is available to derive a deadline."}
+          </p>
+          {deadlineStatus?.isClosed ? (
+            <p className="mt-1 text-red-600">
+              The deadline has passed. Trades reopen after the season ends.
+            </p>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="block space-y-1 font-medium">
+            <span>Publish a deadline</span>
+            <Input
+              type="date"
+              value={deadlineDraft}
+              onChange={(event) => setDeadlineDraft(event.target.value)}
+            />
+          </label>
+          <Button
+            type="button"
+            disabled={
+              !tradeSeason || !deadlineDraft || setTradeDeadline.isPending
+            }
+            onClick={() => saveDeadline(deadlineDraft)}
+          >
+            Save deadline
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={
+              !tradeSeason ||
+              !deadlineStatus?.isOverride ||
+              setTradeDeadline.isPending
+            }
+            onClick={() => saveDeadline(null)}
+          >
+            Use derived date
+          </Button>
+        </div>
+        {setTradeDeadline.error ? (
+          <p className="text-red-600">{setTradeDeadline.error.message}</p>
+        ) : null}
+      </div>
+
+      <form className="space-y-5 rounded-lg border p-5" onSubmit={handleSubmit}>
+        <div className="grid gap-4 md:grid-cols-2">
+          {sides.map((side, index) => (
+            <div key={index} className="space-y-3">
+              <label className="block space-y-1 text-sm font-medium">
+                <span>{index === 0 ? "First team" : "Second team"}</span>
+                <Select
+                  value={ownerIds[index]}
+                  disabled={isLoading || !tradeSeason}
+                  onValueChange={(value) => selectOwner(index as 0 | 1, value)}
+                >
+                  <option value="">Select team</option>
+                  {seasonTeams
+                    .filter(
+                      (team) =>
+                        String(team.ownerId) !== ownerIds[index === 0 ? 1 : 0],
+                    )
+                    .map((team) => (
+                      <option key={team.id} value={String(team.ownerId)}>
+                        {team.name ?? team.abbr ?? team.id}
+                      </option>
+                    ))}
+                </Select>
+              </label>
+              {side.ownerId ? (
+                <fieldset className="max-h-80 space-y-1 overflow-y-auto rounded-md border p-2 text-sm">
+                  <legend className="px-1 text-xs text-muted-foreground">
+                    Sends
+                  </legend>
+                  {side.players.map((option) => (
+                    <label
+                      key={option.key}
+                      className="flex items-center justify-between gap-2"
+                    >
+                      <span className="flex min-w-0 items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selected[index]?.includes(option.key)}
+                          onChange={() =>
+                            setSelected((current) =>
+                              index === 0
+                                ? [toggle(current[0], option.key), current[1]]
+                                : [current[0], toggle(current[1], option.key)],
+                            )
+                          }
+                        />
+                        <span className="truncate">
+                          {option.player.fullName}
+                        </span>
+                      </span>
+                      <span className="shrink-0 text-xs tabular-nums text-muted-foreground">
+                        {option.capHit === null
+                          ? "Unsigned"
+                          : formatMoney(option.capHit, true)}
+                      </span>
+                    </label>
+                  ))}
+                  {side.draftPicks.map((option) => (
+                    <label key={option.key} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected[index]?.includes(option.key)}
+                        onChange={() =>
+                          setSelected((current) =>
+                            index === 0
+                              ? [toggle(current[0], option.key), current[1]]
+                              : [current[0], toggle(current[1], option.key)],
+                          )
+                        }
+                      />
+                      <span>{option.label}</span>
+                    </label>
+                  ))}
+                </fieldset>
+              ) : null}
+            </div>
+          ))}
+        </div>
+
+        <label className="block space-y-1 text-sm font-medium">
+          <span>Notes</span>
+          <Input
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            placeholder="Optional context for the ledger"
+          />
+        </label>
+
+        {plan ? (
+          <div className="rounded-md bg-muted p-4 text-sm">
+            <h2 className="mb-2 font-semibold">Cap check</h2>
+            {plan.capChecks.length === 0 ? (
+              <p className="text-muted-foreground">
+                No owner takes on net salary in any covered season.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {plan.capChecks.map((check) => (
+                  <li
+                    key={`${check.ownerId}:${check.seasonId}`}
+                    className="flex justify-between gap-3"
+                  >
+                    <span>
+                      {ownerNames.get(check.ownerId) ?? "Owner"} ·{" "}
+                      {seasonsQuery.data.find(
+                        (season) => season.id === check.seasonId,
+                      )?.name ?? check.seasonId}
+                    </span>
+                    <span
+                      className={
+                        check.affordable ? "text-green-700" : "text-red-600"
+                      }
+                    >
+                      {formatMoney(check.availableCapSpace)} left
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {plan.errors.map((message) => (
+              <p key={message} className="mt-2 text-red-600">
+                {message}
+              </p>
+            ))}
+          </div>
+        ) : null}
+
+        {executeTrade.error ? (
+          <p className="text-sm text-red-600">{executeTrade.error.message}</p>
+        ) : null}
+        {success ? <p className="text-sm text-green-700">{success}</p> : null}
+
+        <Button type="submit" disabled={!canSubmit || executeTrade.isPending}>
+          {executeTrade.isPending ? "Recording…" : "Record trade"}
+        </Button>
+      </form>
+    </section>
+  );
+}
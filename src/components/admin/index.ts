@@ -1,2 +1,3 @@
 export { JobManagement } from "./JobManagement";
 export { ContractManagement } from "./ContractManagement";
+export { TradeManagement } from "./TradeManagement";
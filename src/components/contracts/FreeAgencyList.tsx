@@ -5,7 +5,11 @@
  *
  * Displays a comprehensive list of all active signable players (RFAs and UFAs)
  * sorted by overall rating. Shows player details including NHL team, position,
- * age, current season rating, and projected signing salary (125% of current).
+ * age, current season rating, projected signing salary (125% of current), and
+ * the contract-eligibility verdict: signing status, consecutive contracts, and
+ * the reason behind it, and the share of regular-season days spent on GSHL
+ * rosters. Players on rule 3.1 waivers are listed first, where owners can
+ * place or withdraw a claim before the two-day window ends.
  *
  * Features:
  * - Automatic filtering for active and signable players
@@ -13,6 +17,9 @@
  * - NHL team logo display
  * - Player statistics including age and season rating
  * - Salary calculation with 125% markup
+ * - Rule 9.9 eligibility status with its explanation
+ * - Rule 9.11 roster-day share, muted when below two-thirds
+ * - Waiver claims ranked by the season's rolling priority list
  * - Loading state while data is being fetched
  *
  * @example
@@ -21,16 +28,26 @@
  * ```
  */
 
-import { useFreeAgencyData } from "@gshl-hooks";
+import { useAuthSession, useFreeAgencyData } from "@gshl-hooks";
 import { FreeAgencyListSkeleton } from "@gshl-skeletons";
-import { Table } from "@gshl-ui";
+import { Button, Table } from "@gshl-ui";
 import { NHLLogo } from "@gshl-components/player/NHLLogo";
 import {
   findNhlTeamByAbbreviation,
   formatMoney,
   formatNumber,
+  formatPercentage,
+  getPlayerDayEligibilityError,
+  getTorontoDate,
+  showDate,
 } from "@gshl-utils";
-import type { Player, NHLTeam } from "@gshl-types";
+import type {
+  ContractEligibility,
+  Player,
+  PlayerDayEligibility,
+  NHLTeam,
+  WaiverWireRow,
+} from "@gshl-types";
 
 // ============================================================================
 // INTERNAL COMPONENTS
@@ -44,9 +61,13 @@ import type { Player, NHLTeam } from "@gshl-types";
 const FreeAgentRow = ({
   player,
   nhlTeams,
+  eligibility,
+  playerDays,
 }: {
   player: Player;
   nhlTeams: NHLTeam[];
+  eligibility?: ContractEligibility;
+  playerDays?: PlayerDayEligibility;
 }) => {
   const nhlTeam = findNhlTeamByAbbreviation(nhlTeams, player.nhlTeam);
 
@@ -66,16 +87,95 @@ const FreeAgentRow = ({
       <td className="whitespace-nowrap">
         {formatMoney(+(player.salary ?? 0) * 1.25)}
       </td>
+      <td
+        className={
+          eligibility?.canSign
+            ? "whitespace-nowrap"
+            : "whitespace-nowrap text-muted-foreground"
+        }
+        title={eligibility?.reason}
+      >
+        {eligibility?.status ?? "-"}
+      </td>
+      <td className="whitespace-nowrap">
+        {eligibility?.consecutiveContracts ?? 0}
+      </td>
+      <td
+        className={
+          playerDays && !playerDays.isEligible
+            ? "whitespace-nowrap text-muted-foreground"
+            : "whitespace-nowrap"
+        }
+        title={
+          getPlayerDayEligibilityError(playerDays, player.fullName) ?? undefined
+        }
+      >
+        {playerDays ? formatPercentage(playerDays.rosterRatio, true) : "-"}
+      </td>
     </tr>
   );
 };
 
+/**
+ * WaiverRow Component
+ *
+ * Renders a player on waivers with when he clears and the viewer's claim
+ */
+const WaiverRow = ({
+  row,
+  canClaim,
+  isPending,
+  onToggleClaim,
+}: {
+  row: WaiverWireRow;
+  canClaim: boolean;
+  isPending: boolean;
+  onToggleClaim: (row: WaiverWireRow) => void;
+}) => (
+  <tr className="py-2">
+    <td className="whitespace-nowrap">
+      {row.player?.fullName ?? "Unknown player"}
+    </td>
+    <td className="whitespace-nowrap">
+      {row.player?.nhlPos.toString() ?? "-"}
+    </td>
+    <td className="whitespace-nowrap">
+      Clears {showDate(getTorontoDate(new Date(row.waiver.clearsAt)))}
+    </td>
+    <td>
+      {canClaim ? (
+        <Button
+          size="sm"
+          variant={row.claim ? "outline" : "default"}
+          disabled={isPending}
+          onClick={() => onToggleClaim(row)}
+        >
+          {row.claim ? "Cancel claim" : "Claim"}
+        </Button>
+      ) : null}
+    </td>
+  </tr>
+);
+
 // ============================================================================
 // MAIN EXPORT
 // ============================================================================
 
 export function FreeAgencyList() {
-  const { freeAgents, nhlTeams, isLoading } = useFreeAgencyData();
+  const { session } = useAuthSession();
+  const ownerId = session?.user.ownerId ? String(session.user.ownerId) : null;
+  const {
+    freeAgents,
+    eligibility,
+    playerDays,
+    nhlTeams,
+    waivers,
+    waiverRank,
+    toggleWaiverClaim,
+    pendingWaiverId,
+    waiverError,
+    isLoading,
+  } = useFreeAgencyData({ ownerId });
 
   if (isLoading) {
     return <FreeAgencyListSkeleton />;
@@ -83,6 +183,44 @@ export function FreeAgencyList() {
 
   return (
     <div className="mt-8">
+      {waivers.length > 0 ? (
+        <section className="mb-8">
+          <h2 className="mb-2 text-2xl font-bold">Waivers</h2>
+          <p className="mb-4 text-xs text-muted-foreground">
+            Dropped players clear after two days. The highest claimant on the
+            rolling priority list wins and moves to the bottom.
+            {waiverRank ? ` Your priority: #${waiverRank}.` : ""}
+          </p>
+          <Table className="divide-y divide-gray-200 text-center">
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Pos</th>
+                <th>Waivers</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {waivers.map((row) => (
+                <WaiverRow
+                  key={row.waiver.id}
+                  row={row}
+                  canClaim={
+                    Boolean(ownerId) && row.waiver.droppedByOwnerId !== ownerId
+                  }
+                  isPending={pendingWaiverId === row.waiver.id}
+                  onToggleClaim={toggleWaiverClaim}
+                />
+              ))}
+            </tbody>
+          </Table>
+          {waiverError ? (
+            <p className="mt-2 text-center text-xs text-red-700">
+              {waiverError}
+            </p>
+          ) : null}
+        </section>
+      ) : null}
       <h2 className="mb-2 text-2xl font-bold">Free Agency List</h2>
       <p className="mb-4 text-xs text-muted-foreground">
         Showing {freeAgents.length} active signable players (RFAs & UFAs).
@@ -96,11 +234,20 @@ export function FreeAgencyList() {
             <th>Age</th>
             <th>2024-25 Rating</th>
             <th>Salary</th>
+            <th>Status</th>
+            <th>Contracts</th>
+            <th>RS Days</th>
           </tr>
         </thead>
         <tbody>
           {freeAgents.map((player: Player) => (
-            <FreeAgentRow key={player.id} player={player} nhlTeams={nhlTeams} />
+            <FreeAgentRow
+              key={player.id}
+              player={player}
+              nhlTeams={nhlTeams}
+              eligibility={eligibility.get(String(player.id))}
+              playerDays={playerDays.get(String(player.id))}
+            />
           ))}
         </tbody>
       </Table>
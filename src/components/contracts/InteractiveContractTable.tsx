@@ -3,7 +3,7 @@
 import { useMemo, useState } from "react";
 import { RotateCcw } from "lucide-react";
 import { TeamContractTable } from "./ContractTable";
-import { useInteractiveContractTable } from "@gshl-hooks";
+import { useAuthSession, useInteractiveContractTable } from "@gshl-hooks";
 import { Button, Input, Select } from "@gshl-ui";
 import type { InteractiveContractTableProps, Player } from "@gshl-types";
 import { formatMoney } from "@gshl-utils";
@@ -24,6 +24,11 @@ export function InteractiveContractTable({
 }: InteractiveContractTableProps) {
   const [playerSearch, setPlayerSearch] = useState("");
   const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const { session } = useAuthSession();
+  const canBuyout =
+    session?.user.role === "commissioner" ||
+    (Boolean(session?.user.ownerId) &&
+      String(session?.user.ownerId) === String(currentTeam.ownerId));
   const tablePlayers = useMemo(() => {
     const byId = new Map<string, Player>();
     [...signablePlayers, ...tradePlayers, ...contractPlayers].forEach(
@@ -58,6 +63,10 @@ export function InteractiveContractTable({
     );
   }, [interactive.availablePlayers, playerSearch]);
 
+  const playerName = (playerId: string | null) =>
+    tablePlayers.find((player) => String(player.id) === String(playerId))
+      ?.fullName ?? "this player";
+
   const choosePlayer = (playerId: string) => {
     interactive.addPlayer(playerId);
     setPlayerSearch("");
@@ -166,6 +175,28 @@ export function InteractiveContractTable({
         </label>
       </div>
 
+      {canBuyout && interactive.buyoutPlayerIds.length > 0 ? (
+        <div className="mx-auto mt-1.5 max-w-xl text-left">
+          <label className="text-xs font-medium text-slate-600">
+            <span className="mb-0.5 block">Buy out a contract</span>
+            <Select
+              className="h-9 px-2 py-1.5"
+              value=""
+              onValueChange={(value) =>
+                interactive.setBuyoutPlayerId(value || null)
+              }
+            >
+              <option value="">Select a player</option>
+              {interactive.buyoutPlayerIds.map((playerId) => (
+                <option key={playerId} value={playerId}>
+                  {playerName(playerId)}
+                </option>
+              ))}
+            </Select>
+          </label>
+        </div>
+      ) : null}
+
       {interactive.pickerError ? (
         <p className="mt-1.5 text-xs text-amber-700">
           {interactive.pickerError}
@@ -191,6 +222,95 @@ export function InteractiveContractTable({
           />
         </div>
       ) : null}
+
+      {interactive.buyoutPlan ? (
+        <div
+          className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/60 p-3"
+          onMouseDown={(event) => {
+            if (event.target === event.currentTarget) {
+              interactive.setBuyoutPlayerId(null);
+            }
+          }}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label={`Buy out ${playerName(interactive.buyoutPlayerId)}`}
+            className="w-full max-w-md rounded-lg bg-white p-4 text-left shadow-xl"
+          >
+            <h3 className="text-base font-semibold text-slate-900">
+              Buy out {playerName(interactive.buyoutPlayerId)}?
+            </h3>
+            <p className="mt-1 text-xs text-slate-500">
+              The player is released to waivers immediately. Half of the cap hit
+              stays on your cap for the rest of the contract, or through next
+              season for a final-year buyout.
+            </p>
+            <table className="mt-3 w-full text-xs">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="py-1 text-left font-normal">Season</th>
+                  <th className="py-1 text-right font-normal">Now</th>
+                  <th className="py-1 text-right font-normal">After</th>
+                  <th className="py-1 text-right font-normal">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {interactive.buyoutPlan.seasons.map((season) => (
+                  <tr key={season.seasonId} className="border-t">
+                    <td className="py-1">{season.seasonName}</td>
+                    <td className="py-1 text-right tabular-nums">
+                      {formatMoney(season.currentCapHit)}
+                    </td>
+                    <td className="py-1 text-right tabular-nums">
+                      {formatMoney(season.buyoutCapHit)}
+                    </td>
+                    <td
+                      className={
+                        season.buyoutCapHit > season.currentCapHit
+                          ? "py-1 text-right tabular-nums text-red-600"
+                          : "py-1 text-right tabular-nums text-green-700"
+                      }
+                    >
+                      {formatMoney(season.buyoutCapHit - season.currentCapHit)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {[
+              ...interactive.buyoutPlan.errors,
+              ...(interactive.buyoutError ? [interactive.buyoutError] : []),
+            ].map((message) => (
+              <p key={message} className="mt-2 text-xs text-red-600">
+                {message}
+              </p>
+            ))}
+            <div className="mt-4 flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => interactive.setBuyoutPlayerId(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                size="sm"
+                disabled={
+                  interactive.isBuyingOut ||
+                  interactive.buyoutPlan.changes.length === 0
+                }
+                onClick={interactive.confirmBuyout}
+              >
+                {interactive.isBuyingOut ? "Buying out…" : "Confirm buyout"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : null}
     </section>
   );
 }
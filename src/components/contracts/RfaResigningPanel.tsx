@@ -0,0 +1,98 @@
+"use client";
+
+import { useAuthSession, useRfaResigning } from "@gshl-hooks";
+import { Button, Select } from "@gshl-ui";
+import type { ContractLength, RfaResigningPanelProps } from "@gshl-types";
+import { formatMoney } from "@gshl-utils";
+
+const CONTRACT_LENGTHS = [1, 2, 3] as const;
+const SIGNING_PERIOD_LABELS = {
+  early: "Early Signing Period",
+  late: "Late Signing Period",
+  summer: "Summer Free Agency",
+} as const;
+
+export function RfaResigningPanel({
+  currentTeam,
+  players,
+  contracts,
+  seasons,
+}: RfaResigningPanelProps) {
+  const { session } = useAuthSession();
+  const canResign =
+    session?.user.role === "commissioner" ||
+    (Boolean(session?.user.ownerId) &&
+      String(session?.user.ownerId) === String(currentTeam.ownerId));
+  const rfa = useRfaResigning({
+    ownerId: currentTeam.ownerId,
+    players,
+    contracts,
+    seasons,
+  });
+
+  if (!canResign || rfa.candidates.length === 0) return null;
+
+  return (
+    <section className="mx-auto mt-4 w-full max-w-3xl border-t border-slate-200 pt-3">
+      <h2 className="text-center text-lg font-bold">RFA Re-signing</h2>
+      <p className="mb-2 text-center text-xs text-muted-foreground">
+        {rfa.signingPeriod
+          ? SIGNING_PERIOD_LABELS[rfa.signingPeriod]
+          : "Outside a signing period"}{" "}
+        · RFAs re-sign at 115% of their updated salary.
+      </p>
+      <ul className="space-y-2 text-xs">
+        {rfa.candidates.map(({ player, contractLength, plan }) => {
+          const playerId = String(player.id);
+          const isPending = rfa.pendingPlayerId === playerId;
+          return (
+            <li key={playerId} className="rounded-md border px-3 py-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="min-w-0 flex-1 truncate font-semibold">
+                  {player.fullName}
+                </span>
+                <span className="tabular-nums">
+                  {plan.terms ? formatMoney(plan.terms.contractSalary) : "-"}
+                </span>
+                <Select
+                  aria-label={`Contract length for ${player.fullName}`}
+                  className="h-8 w-24 px-2 py-1"
+                  value={String(contractLength)}
+                  onValueChange={(value) =>
+                    rfa.setContractLength(
+                      playerId,
+                      Number(value) as ContractLength,
+                    )
+                  }
+                >
+                  {CONTRACT_LENGTHS.map((length) => (
+                    <option key={length} value={length}>
+                      {length} {length === 1 ? "year" : "years"}
+                    </option>
+                  ))}
+                </Select>
+                <Button
+                  size="sm"
+                  disabled={
+                    plan.errors.length > 0 || rfa.pendingPlayerId !== null
+                  }
+                  onClick={() => rfa.resign(playerId)}
+                >
+                  {isPending ? "Re-signing…" : "Re-sign"}
+                </Button>
+              </div>
+              {plan.errors.map((error) => (
+                <p key={error} className="mt-1 text-amber-700">
+                  {error}
+                </p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+      {rfa.error ? (
+        <p className="mt-2 text-center text-xs text-red-700">{rfa.error}</p>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useTradeHistory } from "@gshl-hooks";
+import { showDate } from "@gshl-utils";
+
+export function FranchiseTradeHistory({ ownerId }: { ownerId?: string }) {
+  const { data: rows, isLoading } = useTradeHistory({
+    ownerId,
+    enabled: Boolean(ownerId),
+  });
+
+  return (
+    <div className="py-6">
+      <h2 className="mb-2 text-center text-lg font-bold">Trade History</h2>
+
+      {isLoading ? (
+        <div className="text-center text-xs text-muted-foreground">
+          Loading trades…
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-center text-xs text-muted-foreground">
+          No trades have been recorded for this franchise.
+        </div>
+      ) : (
+        <ul className="mx-auto max-w-3xl space-y-2 text-xs">
+          {rows.map((row) => (
+            <li key={row.id} className="rounded-md border px-3 py-2">
+              <div className="mb-1 flex items-center justify-between text-muted-foreground">
+                <time dateTime={row.executedAt}>
+                  {showDate(row.executedAt)}
+                </time>
+                {row.notes ? (
+                  <span className="truncate">{row.notes}</span>
+                ) : null}
+              </div>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {row.sides.map((side) => (
+                  <div key={side.ownerId}>
+                    <p className="font-semibold">
+                      {side.franchiseName} receive
+                    </p>
+                    {side.received.length === 0 ? (
+                      <p className="text-muted-foreground">Nothing</p>
+                    ) : (
+                      <ul>
+                        {side.received.map((asset) => (
+                          <li
+                            key={asset.key}
+                            className="flex justify-between gap-2"
+                          >
+                            <span className="truncate">{asset.label}</span>
+                            {asset.detail ? (
+                              <span className="shrink-0 tabular-nums text-muted-foreground">
+                                {asset.detail}
+                              </span>
+                            ) : null}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
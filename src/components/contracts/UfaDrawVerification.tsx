@@ -0,0 +1,180 @@
+"use client";
+
+import { useUfaDrawVerification } from "@gshl-hooks";
+import { formatMoney } from "@gshl-utils";
+import type { UfaDrawVerificationProps } from "@gshl-types";
+
+function CheckBadge({ matches }: { matches: boolean | null | undefined }) {
+  if (matches === undefined)
+    return <span className="text-xs text-muted-foreground">Checking…</span>;
+  if (matches === null)
+    return <span className="text-xs text-muted-foreground">Not available</span>;
+  return matches ? (
+    <span className="text-xs font-semibold text-emerald-700">Matches</span>
+  ) : (
+    <span className="text-xs font-semibold text-destructive">
+      Does not match
+    </span>
+  );
+}
+
+function Value({ children }: { children: string | null }) {
+  return (
+    <code className="block break-all rounded bg-muted px-2 py-1 font-mono text-xs">
+      {children ?? "—"}
+    </code>
+  );
+}
+
+export function UfaDrawVerification({ groupId }: UfaDrawVerificationProps) {
+  const query = useUfaDrawVerification(groupId);
+  if (query.isLoading)
+    return <p className="p-6 text-sm text-muted-foreground">Loading draw…</p>;
+  if (!query.data)
+    return <p className="p-6 text-sm">This UFA offer group was not found.</p>;
+
+  const { draw, check } = query.data;
+  const resolved = draw.status === "resolved";
+  const probabilityById = new Map(
+    draw.odds.map((entry) => [entry.offerId, entry.probability]),
+  );
+  const winner = draw.offers.find((offer) => offer.id === draw.winningOfferId);
+  const oddsOrder = draw.odds.map((entry) => entry.offerId);
+  const offers = [...draw.offers].sort((left, right) => {
+    const leftIndex = oddsOrder.indexOf(left.id);
+    const rightIndex = oddsOrder.indexOf(right.id);
+    return (
+      (leftIndex < 0 ? oddsOrder.length : leftIndex) -
+      (rightIndex < 0 ? oddsOrder.length : rightIndex)
+    );
+  });
+
+  return (
+    <section className="mx-auto max-w-3xl space-y-6 p-4 sm:p-6">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.2em] text-primary">
+          Verify this signing
+        </p>
+        <h1 className="text-2xl font-black">{draw.playerName}</h1>
+        <p className="text-sm text-muted-foreground">
+          {resolved && winner
+            ? `Signed with ${winner.franchiseName} for ${winner.contractLength} year${winner.contractLength === 1 ? "" : "s"} at ${formatMoney(winner.salary)}.`
+            : `Offers close ${new Date(draw.deadlineAt).toLocaleString()}.`}
+        </p>
+      </div>
+
+      <div className="space-y-3 rounded-lg border p-4">
+        <div>
+          <div className="mb-1 flex items-center justify-between text-sm font-semibold">
+            Committed seed hash
+            {resolved ? <CheckBadge matches={check?.hashMatches} /> : null}
+          </div>
+          <Value>{draw.seedHash}</Value>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Published when the first offer opened the group.
+          </p>
+        </div>
+        <div>
+          <div className="mb-1 text-sm font-semibold">Revealed seed</div>
+          <Value>{draw.revealedSeed}</Value>
+          {!resolved ? (
+            <p className="mt-1 text-xs text-muted-foreground">
+              Revealed when the group resolves.
+            </p>
+          ) : null}
+        </div>
+        {resolved ? (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <div className="mb-1 flex items-center justify-between text-sm font-semibold">
+                Recorded roll
+                <CheckBadge matches={check?.rollMatches} />
+              </div>
+              <Value>
+                {draw.randomRoll === null ? null : String(draw.randomRoll)}
+              </Value>
+            </div>
+            <div>
+              <div className="mb-1 text-sm font-semibold">Recomputed roll</div>
+              <Value>
+                {check?.recomputedRoll == null
+                  ? null
+                  : String(check.recomputedRoll)}
+              </Value>
+            </div>
+          </div>
+        ) : null}
+        {resolved && !draw.seedHash ? (
+          <p className="text-xs text-muted-foreground">
+            This group was drawn before seeds were committed, so only its
+            recorded roll and odds are available.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/70 text-left text-xs uppercase">
+            <tr>
+              <th className="px-3 py-2">Franchise</th>
+              <th className="px-3 py-2">Years</th>
+              <th className="px-3 py-2">Salary</th>
+              <th className="px-3 py-2">Final odds</th>
+              <th className="px-3 py-2">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {offers.map((offer) => {
+              const probability = probabilityById.get(offer.id);
+              return (
+                <tr key={offer.id} className="border-t">
+                  <td className="px-3 py-2 font-medium">
+                    {offer.franchiseName}
+                  </td>
+                  <td className="px-3 py-2">{offer.contractLength}</td>
+                  <td className="px-3 py-2 tabular-nums">
+                    {formatMoney(offer.salary)}
+                  </td>
+                  <td className="px-3 py-2 tabular-nums">
+                    {probability === undefined
+                      ? "—"
+                      : `${Math.round(probability * 1000) / 10}%`}
+                  </td>
+                  <td className="px-3 py-2">
+                    {offer.status}
+                    {check?.recomputedWinnerId === offer.id ? (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        recomputed winner
+                      </span>
+                    ) : null}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {resolved ? (
+        <div className="flex items-center gap-2 text-sm">
+          Winner from the recomputed roll:
+          <CheckBadge matches={check?.winnerMatches} />
+        </div>
+      ) : null}
+
+      <div className="space-y-1 text-xs text-muted-foreground">
+        <p>
+          To check by hand: the SHA-256 of the revealed seed must equal the
+          committed hash. The roll is the first 8 hex digits of the SHA-256 of
+          the seed, a colon, and the ids of the offers with final odds, sorted
+          and joined with commas, read as a number and divided by 2³²
+          (4294967296).
+        </p>
+        <p>
+          The winner is the first offer, in final-odds order, whose running
+          total of odds passes the roll. The weighting behind the odds stays
+          private under rule 9.15.
+        </p>
+      </div>
+    </section>
+  );
+}
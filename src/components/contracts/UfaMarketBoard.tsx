@@ -0,0 +1,245 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { useUfaMarketBoard } from "@gshl-hooks";
+import { FreeAgencySkeleton } from "@gshl-skeletons";
+import type { UfaMarketFilters, UfaSalaryBandId } from "@gshl-types";
+import {
+  filterUfaMarketRows,
+  formatMoney,
+  getUfaDemandLevel,
+  UFA_SALARY_BANDS,
+} from "@gshl-utils";
+import { UfaCountdown } from "./UfaCountdown";
+
+const emptyFilters: UfaMarketFilters = {
+  posGroup: "",
+  salaryBand: "",
+  myOffersOnly: false,
+};
+
+const demandClassNames = {
+  "single offer": "bg-muted text-muted-foreground",
+  contested: "bg-amber-100 text-amber-800",
+  "bidding war": "bg-red-100 text-red-700",
+};
+
+function formatTime(value: number) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function UfaMarketBoard() {
+  const [filters, setFilters] = useState<UfaMarketFilters>(emptyFilters);
+  const query = useUfaMarketBoard();
+  const open = useMemo(
+    () => filterUfaMarketRows(query.data?.open ?? [], filters),
+    [filters, query.data?.open],
+  );
+  // The watchlist only narrows live offers; history stays league-wide.
+  const signings = useMemo(
+    () =>
+      filterUfaMarketRows(query.data?.signings ?? [], {
+        ...filters,
+        myOffersOnly: false,
+      }),
+    [filters, query.data?.signings],
+  );
+  const editFilters = (changes: Partial<UfaMarketFilters>) =>
+    setFilters((current) => ({ ...current, ...changes }));
+
+  if (query.isLoading) return <FreeAgencySkeleton />;
+  if (query.error || !query.data)
+    return (
+      <p className="text-destructive">
+        Unable to load the UFA market: {query.error?.message}
+      </p>
+    );
+  const watching = query.data.open.filter((row) => row.myTerm !== null).length;
+
+  return (
+    <div className="container mx-auto w-full min-w-0 max-w-5xl space-y-4 px-3 py-5 sm:space-y-6 sm:px-5 sm:py-8">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="text-[10px] font-semibold uppercase tracking-[0.16em] text-primary sm:text-xs sm:tracking-[0.2em]">
+            Summer Free Agency
+          </p>
+          <h1 className="text-2xl font-black sm:text-3xl">UFA Market Board</h1>
+          <p className="text-xs text-muted-foreground sm:text-sm">
+            Every open UFA with its 125% salary and how many offers it has
+            drawn. Bidding teams stay anonymous until the draw.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {query.data.marketEditionId ? (
+            <Link
+              href={`/headlines/${query.data.marketEditionId}`}
+              className="rounded-md border px-2 py-1 text-[10px] font-semibold hover:bg-muted sm:px-4 sm:py-2 sm:text-sm"
+            >
+              Offseason market issue
+            </Link>
+          ) : null}
+          <Link
+            href="/leagueoffice?view=freeAgents"
+            className="rounded-md border px-2 py-1 text-[10px] font-semibold hover:bg-muted sm:px-4 sm:py-2 sm:text-sm"
+          >
+            Make an offer
+          </Link>
+        </div>
+      </div>
+
+      <div
+        className="flex flex-wrap items-end gap-3 rounded-lg border p-3 text-xs sm:text-sm"
+        aria-label="Filter the UFA market"
+      >
+        <label>
+          <span className="mb-1 block font-medium">Position</span>
+          <select
+            className="rounded border bg-white px-2 py-1"
+            value={filters.posGroup}
+            onChange={(event) => editFilters({ posGroup: event.target.value })}
+          >
+            <option value="">All</option>
+            <option value="F">Forwards</option>
+            <option value="D">Defence</option>
+            <option value="G">Goalies</option>
+          </select>
+        </label>
+        <label>
+          <span className="mb-1 block font-medium">Salary</span>
+          <select
+            className="rounded border bg-white px-2 py-1"
+            value={filters.salaryBand}
+            onChange={(event) =>
+              editFilters({
+                salaryBand: event.target.value as UfaSalaryBandId | "",
+              })
+            }
+          >
+            <option value="">Any salary</option>
+            {UFA_SALARY_BANDS.map((band) => (
+              <option key={band.id} value={band.id}>
+                {band.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 pb-1 font-medium">
+          <input
+            type="checkbox"
+            checked={filters.myOffersOnly}
+            disabled={!watching}
+            onChange={(event) =>
+              editFilters({ myOffersOnly: event.target.checked })
+            }
+          />
+          My offers only ({watching})
+        </label>
+      </div>
+
+      <section className="space-y-2" aria-labelledby="ufa-market-open">
+        <h2 id="ufa-market-open" className="text-base font-bold sm:text-lg">
+          Open Offers
+        </h2>
+        {open.length === 0 ? (
+          <p className="rounded-lg border border-dashed p-2 text-xs text-muted-foreground sm:p-4 sm:text-sm">
+            No open UFA offers match these filters.
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full min-w-[720px] text-center text-xs sm:text-sm">
+              <thead className="bg-muted/70 text-[10px] uppercase sm:text-xs">
+                <tr>
+                  <th className="px-3 py-2 text-left">Player</th>
+                  <th className="px-3 py-2">Pos</th>
+                  <th className="px-3 py-2">Salary</th>
+                  <th className="px-3 py-2">Offers</th>
+                  <th className="px-3 py-2">Last offer</th>
+                  <th className="px-3 py-2">My offer</th>
+                  <th className="px-3 py-2">Time Left</th>
+                </tr>
+              </thead>
+              <tbody>
+                {open.map((row) => {
+                  const demand = getUfaDemandLevel(row.offerCount);
+                  return (
+                    <tr key={row.groupId} className="border-t">
+                      <td className="px-3 py-2 text-left">
+                        <span className="font-semibold">{row.playerName}</span>
+                        <span className="block text-[10px] text-muted-foreground">
+                          {row.nhlTeam || "—"}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.positions.join("/") || row.posGroup}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 font-bold tabular-nums">
+                        {formatMoney(row.salary)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className="font-bold tabular-nums">
+                          {row.offerCount}
+                        </span>{" "}
+                        <span
+                          className={`whitespace-nowrap rounded px-1.5 py-0.5 text-[10px] font-semibold ${demandClassNames[demand]}`}
+                        >
+                          {demand}
+                        </span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-[10px] sm:text-xs">
+                        {formatTime(row.lastOfferAt)}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.myTerm === null ? "—" : `${row.myTerm} yr`}
+                      </td>
+                      <td className="px-3 py-2">
+                        <UfaCountdown deadlineAt={row.deadlineAt} />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-2" aria-labelledby="ufa-market-signings">
+        <h2 id="ufa-market-signings" className="text-base font-bold sm:text-lg">
+          Resolved Signings
+        </h2>
+        {signings.length === 0 ? (
+          <p className="rounded-lg border border-dashed p-2 text-xs text-muted-foreground sm:p-4 sm:text-sm">
+            No UFA signings match these filters yet.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-lg border text-xs sm:text-sm">
+            {signings.map((row) => (
+              <li
+                key={row.groupId}
+                className="flex flex-wrap items-center justify-between gap-2 px-3 py-2"
+              >
+                <span>
+                  <span className="font-semibold">{row.playerName}</span> ·{" "}
+                  {row.posGroup} · {row.years} yr · {formatMoney(row.salary)}
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {row.offerCount}{" "}
+                    {row.offerCount === 1 ? "offer" : "offers"} ·{" "}
+                    {formatTime(row.resolvedAt)}
+                  </span>
+                </span>
+                <Link
+                  href={`/ufa/verify/${row.groupId}`}
+                  className="rounded-md border px-2 py-1 font-semibold hover:bg-muted"
+                >
+                  Verify draw
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -4,10 +4,27 @@ import Image from "next/image";
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { NHLLogo } from "@gshl-components/player/NHLLogo";
-import { useSubmitUfaOffer, useUfaOverview } from "@gshl-hooks";
+import {
+  useAmendUfaOffer,
+  useSubmitUfaOffer,
+  useUfaOfferStanding,
+  useUfaOverview,
+  useWithdrawUfaOffer,
+} from "@gshl-hooks";
 import { FreeAgencySkeleton, UfaHomeCardSkeleton } from "@gshl-skeletons";
-import { formatMoney, formatUfaStat } from "@gshl-utils";
-import type { UfaFreeAgentView, UfaOfferGroupView } from "@gshl-types";
+import {
+  formatMoney,
+  formatUfaStat,
+  getUfaOfferChangeBlock,
+  UFA_OFFER_LOCK_MS,
+} from "@gshl-utils";
+import type {
+  UfaFreeAgentView,
+  UfaMyOfferView,
+  UfaOfferGroupView,
+  UfaRecentSigningView,
+} from "@gshl-types";
+import { UfaCountdown } from "./UfaCountdown";
 
 function Logo({ src, alt }: { src: string | null; alt: string }) {
   return src ? (
@@ -23,22 +40,42 @@ function Logo({ src, alt }: { src: string | null; alt: string }) {
   );
 }
 
-function Countdown({ deadlineAt }: { deadlineAt: number }) {
-  const [now, setNow] = useState(() => Date.now());
-  useEffect(() => {
-    const timer = window.setInterval(() => setNow(Date.now()), 1_000);
-    return () => window.clearInterval(timer);
-  }, []);
-  const seconds = Math.max(0, Math.floor((deadlineAt - now) / 1_000));
-  const days = Math.floor(seconds / 86_400);
-  const hours = Math.floor((seconds % 86_400) / 3_600);
-  const minutes = Math.floor((seconds % 3_600) / 60);
-  const remainder = seconds % 60;
+function OfferStanding({ player }: { player: UfaFreeAgentView }) {
+  const [requested, setRequested] = useState(false);
+  const standing = useUfaOfferStanding(player.id, requested);
+  if (!requested)
+    return (
+      <button
+        type="button"
+        onClick={() => setRequested(true)}
+        className="text-left text-[9px] font-semibold text-primary underline-offset-2 hover:underline sm:text-[10px]"
+      >
+        Estimate my odds
+      </button>
+    );
+  if (standing.isLoading)
+    return (
+      <span className="text-[9px] text-muted-foreground sm:text-[10px]">
+        Estimating…
+      </span>
+    );
+  if (!standing.data)
+    return (
+      <span className="text-[9px] text-muted-foreground sm:text-[10px]">
+        No estimate available.
+      </span>
+    );
   return (
-    <span className="whitespace-nowrap font-mono text-xs font-semibold">
-      {seconds === 0
-        ? "Resolving…"
-        : `${days}d ${String(hours).padStart(2, "0")}h ${String(minutes).padStart(2, "0")}m ${String(remainder).padStart(2, "0")}s`}
+    <span
+      className="text-[9px] leading-tight text-muted-foreground sm:text-[10px]"
+      title="Estimated against the offers currently visible for this player."
+    >
+      {standing.data.competingOffers
+        ? `vs ${standing.data.competingOffers} offer${standing.data.competingOffers === 1 ? "" : "s"}: `
+        : "Unopposed: "}
+      {standing.data.terms
+        .map((term) => `${term.years}y ${term.band}`)
+        .join(" · ")}
     </span>
   );
 }
@@ -114,6 +151,7 @@ function OfferControls({
       >
         {helperText}
       </span>
+      {player.canOffer ? <OfferStanding player={player} /> : null}
     </div>
   );
 }
@@ -330,7 +368,7 @@ function ActiveOffers({ groups }: { groups: UfaOfferGroupView[] }) {
                   Years
                 </th>
                 <th className="whitespace-nowrap px-1 py-1 sm:px-3 sm:py-3">
-                  Odds
+                  Standing
                 </th>
                 <th className="whitespace-nowrap px-1 py-1 sm:px-3 sm:py-3">
                   Time Left
@@ -379,10 +417,10 @@ function ActiveOffers({ groups }: { groups: UfaOfferGroupView[] }) {
                     </td>
                     <td className="px-1 py-1 sm:px-3 sm:py-3">{offer.years}</td>
                     <td className="px-1 py-1 font-bold sm:px-3 sm:py-3">
-                      {Math.round(offer.probability * 1000) / 10}%
+                      {offer.band}
                     </td>
                     <td className="px-1 py-1 sm:px-3 sm:py-3">
-                      <Countdown deadlineAt={group.deadlineAt} />
+                      <UfaCountdown deadlineAt={group.deadlineAt} />
                     </td>
                   </tr>
                 )),
@@ -395,6 +433,162 @@ function ActiveOffers({ groups }: { groups: UfaOfferGroupView[] }) {
   );
 }
 
+function MyOfferRow({ offer }: { offer: UfaMyOfferView }) {
+  const [now, setNow] = useState(() => Date.now());
+  const [years, setYears] = useState<number>(offer.amendableTerms[0] ?? 0);
+  const [message, setMessage] = useState<{
+    text: string;
+    ok: boolean;
+  } | null>(null);
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+  const withdraw = useWithdrawUfaOffer({
+    onSuccess: () => setMessage({ text: "Offer withdrawn.", ok: true }),
+    onError: (text) => setMessage({ text, ok: false }),
+  });
+  const amend = useAmendUfaOffer({
+    onSuccess: () => setMessage({ text: "Offer amended.", ok: true }),
+    onError: (text) => setMessage({ text, ok: false }),
+  });
+  const blockFor = (action: "withdraw" | "amend") =>
+    getUfaOfferChangeBlock({
+      action,
+      offer: { ...offer, status: "pending" },
+      groupOffers: offer.groupOffers,
+      deadlineAt: offer.deadlineAt,
+      now,
+    });
+  const withdrawBlock = blockFor("withdraw");
+  const amendBlock =
+    blockFor("amend") ??
+    (offer.amendableTerms.length === 0
+      ? "No other term fits within your cap space."
+      : null);
+  const pending = withdraw.isPending || amend.isPending;
+  const remaining = offer.deadlineAt - now;
+  const notice =
+    remaining <= UFA_OFFER_LOCK_MS
+      ? "Locked in. The draw runs when the timer ends."
+      : remaining <= 2 * UFA_OFFER_LOCK_MS
+        ? "Changes lock 24 hours before the deadline."
+        : null;
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+      <div className="space-y-0.5">
+        <div>
+          <span className="font-semibold">{offer.playerName}</span> ·{" "}
+          {offer.years} yr · {formatMoney(offer.salary)}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+          <UfaCountdown deadlineAt={offer.deadlineAt} />
+          {notice ? <span className="text-amber-700">{notice}</span> : null}
+        </div>
+        <span
+          aria-live="polite"
+          className={message?.ok ? "text-emerald-600" : "text-destructive"}
+        >
+          {message?.text}
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          aria-label={`New contract years for ${offer.playerName}`}
+          value={years}
+          disabled={Boolean(amendBlock) || pending}
+          onChange={(event) => setYears(Number(event.target.value))}
+          className="h-8 rounded-md border bg-background px-2 disabled:opacity-50"
+        >
+          {offer.amendableTerms.map((term) => (
+            <option key={term} value={term}>
+              {term} year{term === 1 ? "" : "s"}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={Boolean(amendBlock) || pending || !years}
+          title={amendBlock ?? undefined}
+          onClick={() => {
+            setMessage(null);
+            amend.mutate({
+              offerId: offer.id,
+              contractLength: years as 1 | 2 | 3,
+            });
+          }}
+          className="rounded-md border px-2 py-1 font-semibold hover:bg-muted disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {amend.isPending ? "Amending…" : "Amend"}
+        </button>
+        <button
+          type="button"
+          disabled={Boolean(withdrawBlock) || pending}
+          title={withdrawBlock ?? undefined}
+          onClick={() => {
+            setMessage(null);
+            withdraw.mutate({ offerId: offer.id });
+          }}
+          className="rounded-md border border-destructive/40 px-2 py-1 font-semibold text-destructive hover:bg-destructive/10 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {withdraw.isPending ? "Withdrawing…" : "Withdraw"}
+        </button>
+      </div>
+    </li>
+  );
+}
+
+function MyOffers({ offers }: { offers: UfaMyOfferView[] }) {
+  if (offers.length === 0) return null;
+  return (
+    <section className="space-y-2" aria-labelledby="ufa-my-offers">
+      <h3 id="ufa-my-offers" className="text-base font-bold sm:text-lg">
+        My Open Offers
+      </h3>
+      <p className="text-[10px] text-muted-foreground sm:text-xs">
+        Offers can be withdrawn or amended until 24 hours before the deadline.
+        The original offer cannot be withdrawn once another team has matched it.
+      </p>
+      <ul className="divide-y rounded-lg border text-xs sm:text-sm">
+        {offers.map((offer) => (
+          <MyOfferRow key={`${offer.id}-${offer.years}`} offer={offer} />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function RecentSignings({ signings }: { signings: UfaRecentSigningView[] }) {
+  if (signings.length === 0) return null;
+  return (
+    <section className="space-y-2" aria-labelledby="ufa-recent-signings">
+      <h3 id="ufa-recent-signings" className="text-base font-bold sm:text-lg">
+        Recent UFA Signings
+      </h3>
+      <ul className="divide-y rounded-lg border text-xs sm:text-sm">
+        {signings.map((signing) => (
+          <li
+            key={signing.groupId}
+            className="flex flex-wrap items-center justify-between gap-2 px-3 py-2"
+          >
+            <span>
+              <span className="font-semibold">{signing.playerName}</span> to{" "}
+              {signing.franchiseName} · {signing.years} yr ·{" "}
+              {formatMoney(signing.salary)}
+            </span>
+            <Link
+              href={`/ufa/verify/${signing.groupId}`}
+              className="rounded-md border px-2 py-1 font-semibold hover:bg-muted"
+            >
+              Verify draw
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
 export function UfaHomeCard() {
   const query = useUfaOverview();
   if (query.isLoading) return <UfaHomeCardSkeleton />;
@@ -428,6 +622,7 @@ export function UfaHomeCard() {
         </Link>
       </div>
       <ActiveOffers groups={query.data.offerGroups} />
+      <MyOffers offers={query.data.myOffers} />
       {query.data.window.isOpen ? (
         query.data.topFreeAgents.length > 0 ? (
           <PlayerTable players={query.data.topFreeAgents} showStats />
@@ -482,6 +677,12 @@ export function UfaLeagueOffice() {
           All eligible UFAs with their previous NHL season statistics and fixed
           125% salary.
         </p>
+        <Link
+          href="/ufa/market"
+          className="mt-2 inline-block rounded-md border px-2 py-1 text-xs font-semibold hover:bg-muted sm:px-4 sm:py-2 sm:text-sm"
+        >
+          UFA market board
+        </Link>
       </div>
       <div
         className="flex flex-wrap gap-1.5 sm:gap-2"
@@ -507,6 +708,8 @@ export function UfaLeagueOffice() {
         </p>
       ) : null}
       <ActiveOffers groups={query.data.offerGroups} />
+      <MyOffers offers={query.data.myOffers} />
+      <RecentSignings signings={query.data.recentSignings} />
       <PlayerTable players={visiblePlayers} showStats />
       {visibleCount < players.length ? (
         <div className="flex justify-center">
@@ -6,4 +6,6 @@ export {
 } from "./ContractHistory";
 export { FranchiseDraftPickSummary } from "./FranchiseDraftPickSummary";
 export { FreeAgencyList } from "./FreeAgencyList";
+export { FranchiseTradeHistory } from "./TradeHistory";
 export { UfaHomeCard, UfaLeagueOffice } from "./UfaSigning";
+export { UfaMarketBoard } from "./UfaMarketBoard";
@@ -316,7 +316,7 @@ function DraftStatusHero({
           <div>
             <p className="text-xs font-bold uppercase tracking-[0.2em] text-white/65">
               {expired
-                ? "Commissioner pick required"
+                ? "Clock expired · auto-drafting"
                 : upcoming
                   ? "First selection"
                   : "On the clock"}
@@ -1,6 +1,7 @@
 "use client";
 
 import { TeamContractTable } from "@gshl-components/contracts";
+import { DraftQueuePanel } from "@gshl-components/draft/DraftQueuePanel";
 import { LockerRoomHeader } from "@gshl-components/team/LockerRoomHeader";
 import { TeamDraftPickList } from "@gshl-components/team/TeamDraftPickList";
 import { TeamRoster } from "@gshl-components/team/TeamRoster";
@@ -53,6 +54,11 @@ export function DraftHubTeamPage({ mode }: DraftHubTeamPageProps) {
           showSalaries
         />
       </section>
+      {mode === "my-team" ? (
+        <section className="overflow-hidden rounded-xl border bg-white p-2 shadow-sm">
+          <DraftQueuePanel season={data.season} />
+        </section>
+      ) : null}
       <section className="overflow-hidden rounded-xl border bg-white p-2 pb-5 shadow-sm">
         <TeamDraftPickList
           teams={data.teams}
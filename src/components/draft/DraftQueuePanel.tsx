@@ -0,0 +1,124 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Search, X } from "lucide-react";
+import { Button } from "@gshl-ui";
+import { useDraftQueueEditor } from "@gshl-hooks";
+import { DRAFT_QUEUE_LIMIT } from "@gshl-utils";
+import type { DraftQueuePanelProps } from "@gshl-types";
+
+/**
+ * The owner's private ranked queue. When their draft clock expires, the
+ * first player here who is still eligible is drafted for them.
+ */
+export function DraftQueuePanel({ season }: DraftQueuePanelProps) {
+  const queue = useDraftQueueEditor(season);
+
+  return (
+    <div className="space-y-4 p-3">
+      <div className="text-center">
+        <h2 className="text-xl font-bold">Draft Queue</h2>
+        <p className="text-sm text-muted-foreground">
+          Only you can see this list. If your clock runs out, the top available
+          player is drafted for you, or the mock draft&apos;s pick if none is
+          left.
+        </p>
+      </div>
+
+      <label className="relative mx-auto block max-w-md">
+        <Search className="pointer-events-none absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+        <span className="sr-only">Search players to queue</span>
+        <input
+          value={queue.searchTerm}
+          onChange={(event) => queue.setSearchTerm(event.target.value)}
+          placeholder={
+            queue.isFull
+              ? `Queue is full (${DRAFT_QUEUE_LIMIT} players)`
+              : "Add a player to your queue"
+          }
+          disabled={queue.isFull}
+          className="h-10 w-full rounded-md border bg-white pl-9 pr-3 text-sm"
+        />
+      </label>
+      {queue.searchResults.length ? (
+        <ul className="mx-auto max-w-md divide-y rounded-md border text-sm">
+          {queue.searchResults.map((player) => (
+            <li
+              key={player.id}
+              className="flex items-center justify-between gap-2 px-3 py-1.5"
+            >
+              <span>
+                {player.fullName}{" "}
+                <span className="text-xs text-muted-foreground">
+                  {player.nhlPos.join(", ")}
+                </span>
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                disabled={queue.isSaving}
+                onClick={() => queue.addPlayer(player.id)}
+              >
+                Queue
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {queue.isLoading ? null : queue.queue.length ? (
+        <ol className="mx-auto max-w-md divide-y rounded-md border text-sm">
+          {queue.queue.map((player, index) => (
+            <li key={player.id} className="flex items-center gap-2 px-3 py-1.5">
+              <span className="w-6 text-right font-semibold text-muted-foreground">
+                {index + 1}
+              </span>
+              <span className="flex-1">
+                {player.fullName}{" "}
+                <span className="text-xs text-muted-foreground">
+                  {player.nhlPos.join(", ")}
+                </span>
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                aria-label={`Move ${player.fullName} up`}
+                disabled={queue.isSaving || index === 0}
+                onClick={() => queue.movePlayer(player.id, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                aria-label={`Move ${player.fullName} down`}
+                disabled={queue.isSaving || index === queue.queue.length - 1}
+                onClick={() => queue.movePlayer(player.id, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                aria-label={`Remove ${player.fullName}`}
+                disabled={queue.isSaving}
+                onClick={() => queue.removePlayer(player.id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-center text-sm text-muted-foreground">
+          Your queue is empty.
+        </p>
+      )}
+      {queue.error ? (
+        <p className="text-center text-xs text-red-700">{queue.error}</p>
+      ) : null}
+    </div>
+  );
+}
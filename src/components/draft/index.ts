@@ -11,4 +11,5 @@ export { DraftBoardList, MockDraft, MockDraftPreview } from "./DraftBoardList";
 export { DraftHubBoard } from "./DraftHubBoard";
 export { DraftHubNavbar } from "./DraftHubNavbar";
 export { DraftHubTeamPage } from "./DraftHubTeamPage";
+export { DraftQueuePanel } from "./DraftQueuePanel";
 export { DraftRosterBoard } from "./DraftRosterBoard";
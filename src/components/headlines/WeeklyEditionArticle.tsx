@@ -1,7 +1,8 @@
 "use client";
 
 import Image from "next/image";
-import { ArrowLeft, CalendarDays, X } from "lucide-react";
+import Link from "next/link";
+import { ArrowLeft, ArrowRight, CalendarDays, X } from "lucide-react";
 import { useAppRouter } from "@gshl-hooks";
 import type { WeeklyEditionArticleProps } from "@gshl-types";
 import { formatDisplayDate, WEEKLY_EDITION_LOGO_URL } from "@gshl-utils";
@@ -131,6 +132,15 @@ export function WeeklyEditionArticle({
         <p className="mt-2.5 max-w-2xl text-[13px] leading-5 text-slate-600">
           {edition.content.deck}
         </p>
+        {edition.issueType === "offseason_market" && !preview ? (
+          <Link
+            href="/ufa/market"
+            className="mt-3 inline-flex items-center gap-1 text-[11px] font-bold text-blue-700 hover:text-blue-900"
+          >
+            Follow live bidding on the UFA market board
+            <ArrowRight className="h-3 w-3" aria-hidden="true" />
+          </Link>
+        ) : null}
 
         {primaryArticles.length > 0 ? (
           <div className="mt-5 grid gap-3 sm:grid-cols-2">
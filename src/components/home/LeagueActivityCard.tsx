@@ -23,6 +23,10 @@ const activityStyle: Record<
     label: "Added",
     badge: "bg-emerald-50 text-emerald-700 ring-emerald-200",
   },
+  waiver: {
+    label: "Claimed",
+    badge: "bg-teal-50 text-teal-700 ring-teal-200",
+  },
   drop: {
     label: "Dropped",
     badge: "bg-rose-50 text-rose-700 ring-rose-200",
@@ -34,6 +38,12 @@ const activityStyle: Record<
 };
 
 function activityDetail(event: LeagueActivityEvent): string {
+  if (event.type === "trade" && event.fromTeamName) {
+    return `${event.teamName} · from ${event.fromTeamName}`;
+  }
+  if (event.type === "waiver" && event.fromTeamName) {
+    return `${event.teamName} · off waivers from ${event.fromTeamName}`;
+  }
   if (event.type !== "signing" && event.type !== "trade") {
     return event.teamName;
   }
@@ -63,7 +73,7 @@ export function LeagueActivityCard({ seasonId }: { seasonId?: string }) {
           Recent league activity
         </h2>
         <p className="mt-0.5 text-xs text-slate-500">
-          Signings, roster moves and missed starts
+          Signings, trades, roster moves and missed starts
         </p>
       </header>
 
@@ -11,6 +11,7 @@ import {
   RulebookSkeleton,
   UserManagementSkeleton,
 } from "@gshl-skeletons";
+import { TradeDeadlineCountdown } from "./TradeDeadlineCountdown";
 
 const ConferenceContest = dynamic(
   () =>
@@ -43,6 +44,13 @@ const ContractManagement = dynamic(
     ),
   { loading: () => <AdminPanelSkeleton /> },
 );
+const TradeManagement = dynamic(
+  () =>
+    import("@gshl-components/admin/TradeManagement").then(
+      (module) => module.TradeManagement,
+    ),
+  { loading: () => <AdminPanelSkeleton /> },
+);
 const JobManagement = dynamic(
   () =>
     import("@gshl-components/admin/JobManagement").then(
@@ -61,6 +69,10 @@ const ImageUpload = dynamic(
   () => import("./ImageUpload").then((module) => module.ImageUpload),
   { loading: () => <AdminPanelSkeleton /> },
 );
+const SigningCalendar = dynamic(
+  () => import("./SigningCalendar").then((module) => module.SigningCalendar),
+  { loading: () => <AdminPanelSkeleton /> },
+);
 const Newsroom = dynamic(
   () => import("./Newsroom").then((module) => module.Newsroom),
   { loading: () => <AdminPanelSkeleton /> },
@@ -72,10 +84,12 @@ export function LeagueOfficeContent() {
 
   return (
     <div className="container mx-auto px-4 py-8">
+      <TradeDeadlineCountdown />
       {selectedType === "rules" ? <Rulebook /> : null}
       {selectedType === "draft" ? <DraftClasses /> : null}
       {selectedType === "confBattle" ? <ConferenceContest /> : null}
       {selectedType === "ownerRankings" ? <OwnerRankings /> : null}
+      {selectedType === "calendar" ? <SigningCalendar /> : null}
       {selectedType === "freeAgents" ? <UfaLeagueOffice /> : null}
       {selectedType === "users" && session?.user.role === "commissioner" ? (
         <UserManagement />
@@ -86,6 +100,9 @@ export function LeagueOfficeContent() {
       {selectedType === "contracts" && session?.user.role === "commissioner" ? (
         <ContractManagement />
       ) : null}
+      {selectedType === "trades" && session?.user.role === "commissioner" ? (
+        <TradeManagement />
+      ) : null}
       {selectedType === "imageUpload" &&
       session?.user.role === "commissioner" ? (
         <ImageUpload />
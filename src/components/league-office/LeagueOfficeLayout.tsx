@@ -79,6 +79,11 @@ export function LeagueOfficeLayout({
         value: "Owner Ladder",
         setter: selectView,
       },
+      {
+        key: "calendar",
+        value: "Calendar",
+        setter: selectView,
+      },
       ...(session?.user.role === "commissioner"
         ? [
             {
@@ -86,6 +91,11 @@ export function LeagueOfficeLayout({
               value: "Contracts",
               setter: selectView,
             },
+            {
+              key: "trades",
+              value: "Trades",
+              setter: selectView,
+            },
             {
               key: "users",
               value: "User Access",
@@ -266,6 +266,7 @@ export function Newsroom() {
             className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-3 py-2"
           >
             <option value="weekly">Weekly recap</option>
+            <option value="trade_deadline">Trade deadline</option>
             <option value="final_recap">Final recap</option>
             <option value="resigning_outlook">Re-signing outlook</option>
             <option value="offseason_market">Offseason market</option>
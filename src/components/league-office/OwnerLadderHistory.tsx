@@ -0,0 +1,100 @@
+"use client";
+
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { OwnerLadderHistoryProps } from "@gshl-types";
+
+const lineColors = [
+  "#1d4ed8",
+  "#dc2626",
+  "#059669",
+  "#d97706",
+  "#7c3aed",
+  "#0891b2",
+  "#db2777",
+  "#475569",
+];
+
+export function OwnerLadderHistory({ chart }: OwnerLadderHistoryProps) {
+  return (
+    <section className="mt-3 rounded-lg border border-slate-200 bg-white p-3 sm:mt-4 sm:p-5">
+      <div>
+        <h2 className="font-oswald text-xl text-slate-950 sm:text-2xl">
+          Ladder history
+        </h2>
+        <p className="mt-0.5 text-[11px] text-slate-500 sm:text-xs">
+          Weekly GM Ladder ratings for the top active GMs.
+        </p>
+      </div>
+      {chart.rows.length ? (
+        <div
+          className="mt-4 h-[24rem] w-full"
+          aria-label="Weekly GM Ladder rating history"
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={chart.rows}
+              margin={{ top: 12, right: 12, left: -8, bottom: 8 }}
+            >
+              <CartesianGrid
+                strokeDasharray="4 4"
+                stroke="#e2e8f0"
+                vertical={false}
+              />
+              <XAxis
+                dataKey="weekStartDate"
+                tick={{ fontSize: 10 }}
+                stroke="#94a3b8"
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tick={{ fontSize: 10 }}
+                stroke="#94a3b8"
+              />
+              <Tooltip
+                formatter={(value: number, ownerId: string) => {
+                  const owner = chart.series.find(
+                    (item) => item.ownerId === ownerId,
+                  );
+                  return [value.toFixed(1), owner?.name ?? ownerId];
+                }}
+                contentStyle={{
+                  borderRadius: 10,
+                  borderColor: "#e2e8f0",
+                  boxShadow: "0 8px 20px rgba(15,23,42,.08)",
+                  fontSize: 12,
+                }}
+              />
+              {chart.series.map((owner, index) => (
+                <Line
+                  key={owner.ownerId}
+                  type="monotone"
+                  dataKey={owner.ownerId}
+                  name={owner.ownerId}
+                  stroke={lineColors[index % lineColors.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  activeDot={{ r: 4, strokeWidth: 0 }}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="mt-4 rounded-xl bg-slate-50 p-6 text-center text-sm text-slate-500">
+          Ladder history appears after the next Owner Ladder rebuild.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -12,6 +12,7 @@ import type {
   OwnerRankingRecord,
 } from "@gshl-types";
 import { AwardsList, cn } from "@gshl-utils";
+import { OwnerLadderHistory } from "./OwnerLadderHistory";
 
 const formatRating = (value: number) => Math.round(value).toLocaleString();
 const formatSigned = (value: number) =>
@@ -167,7 +168,7 @@ function AwardHeading({
 }
 
 export function OwnerRankings() {
-  const { data, isLoading, error } = useOwnerRankingsData();
+  const { data, ladderHistory, isLoading, error } = useOwnerRankingsData();
 
   if (isLoading) return <OwnerRankingsSkeleton />;
 
@@ -438,6 +439,7 @@ export function OwnerRankings() {
           <span className="text-red-600">Brophy −10</span>
         </div>
       </div>
+      <OwnerLadderHistory chart={ladderHistory} />
     </div>
   );
 }
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { useSigningCalendar } from "@gshl-hooks";
+import { Button, Input } from "@gshl-ui";
+import {
+  ResignableStatus,
+  getSigningPeriodDateRange,
+  showDate,
+} from "@gshl-utils";
+import type {
+  ResignableStatus as ResignableStatusType,
+  SigningPeriod,
+  SigningPeriodWindow,
+} from "@gshl-types";
+import { AdminPanelSkeleton } from "@gshl-skeletons";
+
+const STATUS_OPTIONS: ResignableStatusType[] = [
+  ResignableStatus.DRAFT,
+  ResignableStatus.RFA,
+  ResignableStatus.UFA,
+];
+
+function SigningPeriodEditor({
+  window,
+  isSaving,
+  onSave,
+  onReset,
+}: {
+  window: SigningPeriodWindow;
+  isSaving: boolean;
+  onSave: (
+    period: SigningPeriod,
+    schedule: {
+      startDate: string;
+      endDate: string | null;
+      allowedStatuses: ResignableStatusType[];
+    },
+  ) => void;
+  onReset: (period: SigningPeriod) => void;
+}) {
+  const range = getSigningPeriodDateRange(window);
+  const [startDate, setStartDate] = useState(range.startDate);
+  const [endDate, setEndDate] = useState(range.endDate ?? "");
+  const [allowedStatuses, setAllowedStatuses] = useState(
+    window.allowedStatuses,
+  );
+
+  const toggleStatus = (status: ResignableStatusType) =>
+    setAllowedStatuses((current) =>
+      current.includes(status)
+        ? current.filter((candidate) => candidate !== status)
+        : [...current, status],
+    );
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 border-t pt-3">
+      <label className="block space-y-1 font-medium">
+        <span>Opens</span>
+        <Input
+          type="date"
+          value={startDate}
+          onChange={(event) => setStartDate(event.target.value)}
+        />
+      </label>
+      <label className="block space-y-1 font-medium">
+        <span>Closes</span>
+        <Input
+          type="date"
+          value={endDate}
+          onChange={(event) => setEndDate(event.target.value)}
+        />
+      </label>
+      <div className="flex gap-3 pb-2">
+        {STATUS_OPTIONS.map((status) => (
+          <label key={status} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={allowedStatuses.includes(status)}
+              onChange={() => toggleStatus(status)}
+            />
+            {status}
+          </label>
+        ))}
+      </div>
+      <Button
+        type="button"
+        disabled={!startDate || !allowedStatuses.length || isSaving}
+        onClick={() =>
+          onSave(window.period, {
+            startDate,
+            endDate: endDate || null,
+            allowedStatuses,
+          })
+        }
+      >
+        Save window
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        disabled={!window.isOverride || isSaving}
+        onClick={() => onReset(window.period)}
+      >
+        Use season dates
+      </Button>
+    </div>
+  );
+}
+
+export function SigningCalendar() {
+  const {
+    season,
+    periods,
+    openPeriod,
+    milestones,
+    canEdit,
+    savePeriod,
+    resetPeriod,
+    isSaving,
+    error,
+    isLoading,
+  } = useSigningCalendar();
+
+  if (isLoading) return <AdminPanelSkeleton />;
+  if (!season) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        There is no active signing season.
+      </p>
+    );
+  }
+
+  return (
+    <section className="mx-auto max-w-4xl space-y-6 py-6">
+      <div>
+        <h1 className="text-2xl font-bold">{season.name} Signing Calendar</h1>
+        <p className="text-sm text-muted-foreground">
+          Rule 9.8 signing periods. Contracts can only be signed while a window
+          open to the player&apos;s status is running, and every date is league
+          time in Toronto.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {periods.map((window) => {
+          const range = getSigningPeriodDateRange(window);
+          const isOpen = openPeriod?.period === window.period;
+          return (
+            <div
+              key={`${window.period}-${window.startAt}-${window.endAt}`}
+              className="space-y-3 rounded-lg border p-5 text-sm"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <h2 className="font-semibold">{window.label}</h2>
+                  <p className="text-muted-foreground">
+                    {showDate(range.startDate)} –{" "}
+                    {range.endDate ? showDate(range.endDate) : "open-ended"}
+                    {" · "}
+                    {window.allowedStatuses.join(", ")} signings
+                  </p>
+                </div>
+                <div className="flex gap-2 text-xs font-semibold">
+                  {isOpen ? (
+                    <span className="rounded bg-green-100 px-2 py-0.5 text-green-800">
+                      Open now
+                    </span>
+                  ) : null}
+                  {window.isOverride ? (
+                    <span className="rounded bg-amber-100 px-2 py-0.5 text-amber-800">
+                      Set by the commissioner
+                    </span>
+                  ) : null}
+                </div>
+              </div>
+              {canEdit ? (
+                <SigningPeriodEditor
+                  window={window}
+                  isSaving={isSaving}
+                  onSave={savePeriod}
+                  onReset={resetPeriod}
+                />
+              ) : null}
+            </div>
+          );
+        })}
+        {!periods.length ? (
+          <p className="text-sm text-muted-foreground">
+            The season has no dates to derive signing periods from.
+          </p>
+        ) : null}
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+      </div>
+
+      <div className="space-y-2 rounded-lg border p-5 text-sm">
+        <h2 className="font-semibold">Weekly Edition Milestones</h2>
+        <ul className="divide-y">
+          {milestones.map((milestone) => (
+            <li
+              key={milestone.issueType}
+              className="flex justify-between gap-2 py-1.5"
+            >
+              <span>{milestone.issueLabel}</span>
+              <span className="text-muted-foreground">
+                {showDate(milestone.scheduledFor)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+}
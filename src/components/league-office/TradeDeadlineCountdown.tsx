@@ -0,0 +1,33 @@
+"use client";
+
+import { useTradeDeadline } from "@gshl-hooks";
+import { showDate } from "@gshl-utils";
+
+export function TradeDeadlineCountdown() {
+  const { season, status, countdown, isLoading } = useTradeDeadline();
+
+  if (isLoading || !season || !status?.deadline) return null;
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center justify-between gap-2 rounded-lg border px-4 py-3 text-sm">
+      <div>
+        <p className="font-semibold">{season.name} Trade Deadline</p>
+        <p className="text-xs text-muted-foreground">
+          {showDate(status.deadline)}
+          {status.isOverride ? " · published by the commissioner" : ""}
+        </p>
+      </div>
+      {status.isClosed ? (
+        <span className="text-xs font-semibold text-red-600">
+          Trade deadline passed · trades reopen after the season
+        </span>
+      ) : countdown ? (
+        <span className="whitespace-nowrap font-mono text-xs font-semibold">
+          {countdown}
+        </span>
+      ) : (
+        <span className="text-xs text-muted-foreground">Trades are open</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import Image from "next/image";
+import { useAuthSession, useLockDraftOrder } from "@gshl-hooks";
+import { Button } from "@gshl-ui";
+import { buildDraftOrderTournament, cn } from "@gshl-utils";
+import type {
+  DraftOrderGame,
+  DraftOrderGroup,
+  DraftOrderSlot,
+  DraftOrderTournamentProps,
+  SeededTeam,
+} from "@gshl-types";
+
+function TeamLine({
+  label,
+  score,
+  team,
+  winner,
+}: {
+  label: string;
+  score: number | null;
+  team: SeededTeam | null;
+  winner: boolean;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 px-2.5 py-1.5",
+        winner && "bg-emerald-50/80",
+      )}
+      title={team?.name ?? "TBD"}
+    >
+      <span className="w-14 shrink-0 truncate text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+        {label}
+      </span>
+      {team?.logoUrl ? (
+        <Image
+          src={team.logoUrl}
+          alt=""
+          width={20}
+          height={20}
+          className="h-5 w-5 shrink-0 object-contain"
+        />
+      ) : null}
+      <span
+        className={cn(
+          "min-w-0 flex-1 truncate text-xs font-medium text-slate-700",
+          winner && "font-bold text-slate-950",
+        )}
+      >
+        {team?.name ?? "TBD"}
+      </span>
+      <span className="w-7 shrink-0 text-right font-mono text-sm font-bold tabular-nums text-slate-900">
+        {score ?? "-"}
+      </span>
+    </div>
+  );
+}
+
+function GameCard({ game }: { game: DraftOrderGame }) {
+  const winnerId = game.winnerTeam?.id ?? null;
+  return (
+    <article className="rounded-xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between gap-2 border-b border-slate-200 bg-slate-50 px-2.5 py-1.5">
+        <h4 className="truncate text-[9px] font-bold uppercase tracking-[0.14em] text-slate-500">
+          Week {game.week} · {game.title}
+        </h4>
+        <span
+          className={cn(
+            "shrink-0 text-[9px] font-semibold uppercase tracking-wide",
+            game.source === "played"
+              ? "text-emerald-600"
+              : game.source === "scheduled"
+                ? "text-sky-600"
+                : "text-slate-400",
+          )}
+        >
+          {game.source === "played"
+            ? "Final"
+            : game.source === "scheduled"
+              ? "Scheduled"
+              : "Projected"}
+        </span>
+      </div>
+      <div className="divide-y divide-slate-100">
+        <TeamLine
+          label={game.homeLabel}
+          score={game.homeScore}
+          team={game.homeTeam}
+          winner={winnerId !== null && winnerId === game.homeTeam?.id}
+        />
+        <TeamLine
+          label={game.awayLabel}
+          score={game.awayScore}
+          team={game.awayTeam}
+          winner={winnerId !== null && winnerId === game.awayTeam?.id}
+        />
+      </div>
+      {game.picks ? (
+        <p className="border-t border-slate-100 px-2.5 py-1 text-[10px] text-slate-500">
+          Winner: pick {game.picks[0]} · Loser: pick {game.picks[1]}
+        </p>
+      ) : null}
+    </article>
+  );
+}
+
+function GroupSection({ group }: { group: DraftOrderGroup }) {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-slate-50/90 p-3">
+      <header className="mb-3">
+        <h3 className="text-sm font-bold text-slate-950">{group.title}</h3>
+        <p className="text-xs text-slate-600">{group.subtitle}</p>
+      </header>
+      <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+        {group.games.map((game) => (
+          <GameCard key={game.id} game={game} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function DraftOrderList({ order }: { order: DraftOrderSlot[] }) {
+  return (
+    <ol className="divide-y divide-slate-100 rounded-2xl border border-slate-200 bg-white">
+      {order.map((slot) => (
+        <li
+          key={slot.pick}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs"
+        >
+          <span className="w-6 shrink-0 font-mono font-bold tabular-nums text-slate-500">
+            {slot.pick}
+          </span>
+          <span
+            className={cn(
+              "truncate",
+              slot.team ? "font-medium text-slate-900" : "text-slate-400",
+            )}
+          >
+            {slot.team?.name ?? "TBD"}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Rule 7 draft-order placement games for the selected season, resolved as
+ * results come in, with the commissioner's control to lock the order into
+ * next season's picks.
+ */
+export function DraftOrderTournament({
+  teams,
+  stats,
+  matchups,
+  season,
+  weeks,
+}: DraftOrderTournamentProps) {
+  const { session } = useAuthSession();
+  const lockDraftOrder = useLockDraftOrder();
+  const tournament = buildDraftOrderTournament(
+    teams,
+    stats,
+    matchups,
+    season,
+    weeks,
+  );
+
+  if (!season) {
+    return (
+      <div className="rounded-xl border border-dashed p-10 text-center text-sm text-slate-500">
+        Select a season to view the draft-order tournament.
+      </div>
+    );
+  }
+
+  return (
+    <section className="pb-12 pt-4">
+      <div className="mx-auto max-w-[96rem] px-3 sm:px-6">
+        <div className="border-b border-slate-200 pb-4">
+          <p className="text-[13px] font-semibold uppercase text-slate-500">
+            {season.name} draft-order tournament
+          </p>
+        </div>
+        <div className="mt-5 grid gap-5 lg:grid-cols-[1fr_16rem]">
+          <div className="space-y-4">
+            {tournament.groups.map((group) => (
+              <GroupSection key={group.id} group={group} />
+            ))}
+          </div>
+          <aside className="space-y-3">
+            <h3 className="text-sm font-bold text-slate-950">
+              Next season&apos;s order
+            </h3>
+            <DraftOrderList order={tournament.order} />
+            {session?.user.role === "commissioner" ? (
+              <>
+                <Button
+                  size="sm"
+                  className="w-full"
+                  disabled={!tournament.isFinal || lockDraftOrder.isPending}
+                  onClick={() => lockDraftOrder.mutate({ seasonId: season.id })}
+                >
+                  {lockDraftOrder.isPending ? "Locking…" : "Lock draft order"}
+                </Button>
+                {lockDraftOrder.error ? (
+                  <p className="text-center text-xs text-red-700">
+                    {lockDraftOrder.error.message}
+                  </p>
+                ) : null}
+              </>
+            ) : null}
+          </aside>
+        </div>
+      </div>
+    </section>
+  );
+}
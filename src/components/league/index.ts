@@ -1,4 +1,5 @@
 export { StandingsComponent, StandingsTable } from "./StandingsContainer";
+export { DraftOrderTournament } from "./DraftOrderTournament";
 export { PlayoffBracket } from "./PlayoffBracket";
 export { SeasonAwards } from "./SeasonAwards";
 export { WeeklySchedule } from "./WeeklySchedule";
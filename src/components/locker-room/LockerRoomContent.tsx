@@ -84,6 +84,13 @@ const FranchiseContractHistory = dynamic(
     ),
   { loading: () => <ContractHistorySkeleton /> },
 );
+const FranchiseTradeHistory = dynamic(
+  () =>
+    import("@gshl-components/contracts/TradeHistory").then(
+      (module) => module.FranchiseTradeHistory,
+    ),
+  { loading: () => <ContractHistorySkeleton /> },
+);
 const InteractiveContractTable = dynamic(
   () =>
     import("@gshl-components/contracts/InteractiveContractTable").then(
@@ -91,6 +98,13 @@ const InteractiveContractTable = dynamic(
     ),
   { loading: () => <CapLabSkeleton /> },
 );
+const RfaResigningPanel = dynamic(
+  () =>
+    import("@gshl-components/contracts/RfaResigningPanel").then(
+      (module) => module.RfaResigningPanel,
+    ),
+  { loading: () => null },
+);
 
 const SHOW_LOCKER_ROOM_ROSTER_SALARIES = true;
 
@@ -331,7 +345,14 @@ export function LockerRoomContent() {
             seasons={seasons ?? []}
             ready={teamContractTableData.ready}
           />
+          <RfaResigningPanel
+            currentTeam={currentTeam}
+            players={contractPlayers}
+            contracts={allLeagueContracts}
+            seasons={seasons ?? []}
+          />
           <FranchiseContractHistory {...teamContractHistory} />
+          <FranchiseTradeHistory ownerId={currentTeam.ownerId ?? undefined} />
         </>
       )}
       {selectedLockerRoomType === "roster" && (
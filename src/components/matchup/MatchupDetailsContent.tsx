@@ -27,6 +27,7 @@ import {
   formatStatValue,
   formatWeekRange,
   getGameTypeDisplay,
+  getGoalieStartMinimum,
   getStarPlayers,
   resolveMatchupCategories,
   toStatNumber,
@@ -361,8 +362,9 @@ export function MatchupDetailsContent({
       homeTeamStats,
       awayTeamStats,
       matchupCategories,
+      getGoalieStartMinimum(season),
     );
-  }, [awayTeamStats, homeTeamStats, matchupCategories]);
+  }, [awayTeamStats, homeTeamStats, matchupCategories, season]);
 
   const computedScore = useMemo(() => {
     return categoryResults.reduce(
@@ -21,6 +21,13 @@ const PlayoffBracket = dynamic(
     ),
   { loading: () => <PlayoffBracketSkeleton /> },
 );
+const DraftOrderTournament = dynamic(
+  () =>
+    import("@gshl-components/league/DraftOrderTournament").then(
+      (module) => module.DraftOrderTournament,
+    ),
+  { loading: () => <PlayoffBracketSkeleton /> },
+);
 const SeasonAwards = dynamic(
   () =>
     import("@gshl-components/league/SeasonAwards").then(
@@ -97,7 +104,7 @@ export function StandingsContent() {
     if (isAwardsView) {
       return <SeasonAwardsSkeleton />;
     }
-    if ((standingsType ?? "overall") === "playoff") {
+    if (["playoff", "draft"].includes(standingsType ?? "overall")) {
       return <PlayoffBracketSkeleton />;
     }
     return <StandingsSkeleton />;
@@ -127,6 +134,18 @@ export function StandingsContent() {
     );
   }
 
+  if ((standingsType ?? "overall") === "draft") {
+    return (
+      <DraftOrderTournament
+        matchups={matchups}
+        teams={teams}
+        stats={stats}
+        season={selectedSeason ?? null}
+        weeks={weeks}
+      />
+    );
+  }
+
   if ((standingsType ?? "overall") === "power") {
     return (
       <PowerRankings season={selectedSeason ?? null} rankings={powerRankings} />
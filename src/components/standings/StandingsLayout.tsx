@@ -18,6 +18,7 @@ export function StandingsLayout({ children }: { children: React.ReactNode }) {
     { key: "wildcard", label: "Wildcard" },
     { key: "power", label: "Power Ranks" },
     { key: "playoff", label: "Playoff" },
+    { key: "draft", label: "Draft Order" },
     { key: "awards", label: "Awards" },
   ];
 
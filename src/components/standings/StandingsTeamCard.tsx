@@ -5,6 +5,7 @@ import {
   CalendarDays,
   ChartNoAxesColumnIncreasing,
   Crown,
+  Scale,
   Shield,
   UserRound,
 } from "lucide-react";
@@ -12,6 +13,7 @@ import type {
   StandingsCategoryRanksProps,
   StandingsGameListProps,
   StandingsTeamCardProps,
+  StandingsTiebreakNotesProps,
   StandingsTopPlayersProps,
 } from "@gshl-types";
 import { buildStandingsTeamCardViewModel, cn } from "@gshl-utils";
@@ -114,6 +116,37 @@ function StandingsCategoryRanks({ categories }: StandingsCategoryRanksProps) {
   );
 }
 
+function StandingsTiebreakNotes({ notes }: StandingsTiebreakNotesProps) {
+  return (
+    <div>
+      <div className="mb-2 flex items-center gap-1.5">
+        <Scale className="h-3.5 w-3.5 text-slate-400" />
+        <p className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-500">
+          Tiebreakers
+        </p>
+      </div>
+      <div className="space-y-1.5">
+        {notes.map((note, index) => (
+          <div
+            key={`${note.scopeLabel}-${index}`}
+            className="rounded-lg border border-slate-100 bg-white px-2.5 py-2 text-xs"
+          >
+            <p className="font-semibold text-slate-700">
+              <span className="text-[9px] uppercase tracking-wide text-slate-400">
+                {note.scopeLabel}
+              </span>{" "}
+              {note.tiebreakerLabel}
+            </p>
+            <p className="mt-0.5 font-mono text-[10px] tabular-nums text-slate-500">
+              {note.summary}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function StandingsTopPlayers({ players }: StandingsTopPlayersProps) {
   return (
     <div>
@@ -231,6 +264,12 @@ export function StandingsTeamCard({
       <div className="mt-4 border-t border-slate-200 pt-3">
         <StandingsTopPlayers players={context.topPlayers} />
       </div>
+
+      {context.tiebreakNotes.length ? (
+        <div className="mt-4 border-t border-slate-200 pt-3">
+          <StandingsTiebreakNotes notes={context.tiebreakNotes} />
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -938,6 +938,7 @@ export const rulebookSections: RulebookSection[] = [
             "Other teams may submit matching offers during the seven-day period.",
             "If no other team matches, the player signs with the original offering team.",
             "If multiple teams submit matching offers, the player is assigned through the UFA Signing Algorithm.",
+            "An offer may be withdrawn or have its contract length changed until 24 hours before the deadline. The original offer cannot be withdrawn once another team has matched it.",
           ]),
         ],
       },
@@ -961,6 +962,9 @@ export const rulebookSections: RulebookSection[] = [
           paragraph(
             "The specific formula and weighting are intentionally not published.",
           ),
+          paragraph(
+            "The random draw is committed when the first offer is posted and revealed when the offers resolve, so any signing can be verified in the GSHL App without publishing the weighting.",
+          ),
           callout("algorithm", "Probabilistic result", [
             "The UFA process is probabilistic, not a guaranteed-priority system. A team with a stronger probability may still lose a signing because the final result includes randomness.",
           ]),
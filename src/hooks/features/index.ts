@@ -18,6 +18,7 @@ export * from "./useDraftAdminList";
 export * from "./useDraftCountdown";
 export * from "./useDraftHubBoard";
 export * from "./useDraftHubTeamData";
+export * from "./useDraftQueue";
 export * from "./useDraftRosterBoard";
 export * from "./useFreeAgencyData";
 export * from "./useNavigation";
@@ -26,12 +27,15 @@ export * from "./useOwnerRankingsData";
 export * from "./useScheduleData";
 export * from "./useSeasonDataBundle";
 export * from "./useSeasonMatchupsAndTeams";
+export * from "./useSigningCalendar";
 export * from "./useStandingsData";
 export * from "./useTeamDraftPickListData";
 export * from "./useTeamHistoryData";
 export * from "./useTeamHistoryRows";
 export * from "./useTeamRecordBookView";
 export * from "./useTeamRosterData";
+export * from "./useTradeDeadline";
+export * from "./useTradeHistory";
 export * from "./useTeamRosterView";
 export * from "./useTeamScheduleData";
 export * from "./useTeamScheduleMatchupDetails";
@@ -41,3 +45,4 @@ export * from "./useTeamColor";
 export * from "./useToast";
 export * from "./useUfaData";
 export * from "./useInteractiveContractTable";
+export * from "./useRfaResigning";
@@ -0,0 +1,112 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { DraftQueueViewModel, Player, Season } from "@gshl-types";
+import {
+  DRAFT_QUEUE_LIMIT,
+  moveDraftQueuePlayer,
+  prepareDraftBoardPlayers,
+} from "@gshl-utils";
+import {
+  useContracts,
+  useDraftPicks,
+  useDraftQueue,
+  usePlayers,
+  useSetDraftQueue,
+} from "@gshl-hooks";
+
+const SEARCH_RESULT_LIMIT = 12;
+
+export function useDraftQueueEditor(
+  season: Season | undefined,
+): DraftQueueViewModel {
+  const [searchTerm, setSearchTerm] = useState("");
+  const queueQuery = useDraftQueue({
+    seasonId: season?.id,
+    enabled: Boolean(season?.id),
+  });
+  const playersQuery = usePlayers({
+    isActive: true,
+    enabled: Boolean(season?.id),
+  });
+  const contractsQuery = useContracts();
+  const draftPicksQuery = useDraftPicks({
+    seasonId: season?.id,
+    enabled: Boolean(season?.id),
+  });
+  const saveMutation = useSetDraftQueue();
+
+  const draftedIds = useMemo(
+    () =>
+      new Set(
+        (draftPicksQuery.data ?? []).flatMap((pick) =>
+          pick.playerId ? [String(pick.playerId)] : [],
+        ),
+      ),
+    [draftPicksQuery.data],
+  );
+  const availablePlayers = useMemo(
+    () =>
+      prepareDraftBoardPlayers(
+        playersQuery.data,
+        contractsQuery.data,
+        season?.startDate,
+      ).filter((player) => !draftedIds.has(String(player.id))),
+    [contractsQuery.data, draftedIds, playersQuery.data, season?.startDate],
+  );
+  // Drafted players fall out of the queue the next time it is saved.
+  const queueIds = useMemo(
+    () => queueQuery.data.filter((playerId) => !draftedIds.has(playerId)),
+    [draftedIds, queueQuery.data],
+  );
+  const queue = useMemo(() => {
+    const playerById = new Map(
+      playersQuery.data.map((player) => [String(player.id), player]),
+    );
+    return queueIds.flatMap((playerId) => {
+      const player = playerById.get(playerId);
+      return player ? [player] : [];
+    });
+  }, [playersQuery.data, queueIds]);
+  const searchResults = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return [];
+    const queued = new Set(queueIds);
+    return availablePlayers
+      .filter(
+        (player: Player) =>
+          !queued.has(String(player.id)) &&
+          player.fullName.toLowerCase().includes(term),
+      )
+      .slice(0, SEARCH_RESULT_LIMIT);
+  }, [availablePlayers, queueIds, searchTerm]);
+
+  const save = (playerIds: string[]) => {
+    if (!season?.id) return;
+    saveMutation.mutate({ seasonId: season.id, playerIds });
+  };
+
+  return {
+    queue,
+    searchResults,
+    searchTerm,
+    setSearchTerm,
+    addPlayer: (playerId) => {
+      if (queueIds.length >= DRAFT_QUEUE_LIMIT) return;
+      save([...queueIds, playerId]);
+      setSearchTerm("");
+    },
+    removePlayer: (playerId) =>
+      save(queueIds.filter((queuedId) => queuedId !== playerId)),
+    movePlayer: (playerId, offset) =>
+      save(moveDraftQueuePlayer(queueIds, playerId, offset)),
+    isFull: queueIds.length >= DRAFT_QUEUE_LIMIT,
+    isSaving: saveMutation.isPending,
+    error: saveMutation.error?.message ?? null,
+    isLoading:
+      queueQuery.isLoading ||
+      playersQuery.isLoading ||
+      contractsQuery.isLoading ||
+      draftPicksQuery.isLoading,
+  };
+}
@@ -4,20 +4,39 @@
  * Orchestrates free agency data by fetching players/teams and applying
  * domain utilities for filtering and sorting.
  *
- * Heavy lifting: lib/utils/domain/player.ts (getFreeAgents)
+ * Heavy lifting: lib/utils/domain/player.ts (getFreeAgents) and
+ * lib/utils/domain/contracts.ts (getContractEligibility), plus the stored
+ * rule 9.11 roster-day verdicts for the signing season and the rule 3.1
+ * waiver wire with the viewer's pending claims.
  */
 
 "use client";
 
-import { useMemo } from "react";
-import { usePlayers, useNHLTeams } from "../main";
-import { getFreeAgents } from "@gshl-utils/domain";
-import type { NHLTeam, UseFreeAgencyDataOptions } from "@gshl-types";
+import { useMemo, useState } from "react";
+import {
+  useCancelWaiverClaim,
+  useContracts,
+  useMyWaiverClaims,
+  usePlayerDayEligibility,
+  usePlayers,
+  useNHLTeams,
+  useSeasons,
+  useSubmitWaiverClaim,
+  useWaivers,
+} from "../main";
+import { getContractEligibility, getFreeAgents } from "@gshl-utils/domain";
+import type {
+  ContractEligibility,
+  NHLTeam,
+  PlayerDayEligibility,
+  UseFreeAgencyDataOptions,
+  WaiverWireRow,
+} from "@gshl-types";
 
 /**
  * Hook for free agency data.
  * Fetches players and NHL teams, then applies domain utilities to filter
- * and sort free agents.
+ * and sort free agents and to report each one's contract eligibility.
  *
  * @param options - Configuration options
  * @returns Free agents data with loading state
@@ -31,10 +50,19 @@ import type { NHLTeam, UseFreeAgencyDataOptions } from "@gshl-types";
  * ```
  */
 export function useFreeAgencyData(options: UseFreeAgencyDataOptions = {}) {
-  const { minRating, sortDirection = "desc" } = options;
+  const { minRating, sortDirection = "desc", ownerId } = options;
+  const [pendingWaiverId, setPendingWaiverId] = useState<string | null>(null);
 
   const { data: players, isLoading: playersLoading } = usePlayers();
   const { data: nhlTeamsRaw, isLoading: teamsLoading } = useNHLTeams();
+  const { data: contracts, isLoading: contractsLoading } = useContracts();
+  const { data: seasons, isLoading: seasonsLoading } = useSeasons();
+  const { data: playerDayRows, isLoading: playerDaysLoading } =
+    usePlayerDayEligibility();
+  const { data: waiverWire, isLoading: waiversLoading } = useWaivers();
+  const { data: myClaims } = useMyWaiverClaims({ enabled: Boolean(ownerId) });
+  const submitClaim = useSubmitWaiverClaim();
+  const cancelClaim = useCancelWaiverClaim();
 
   const nhlTeams = (nhlTeamsRaw as NHLTeam[]) ?? [];
 
@@ -44,11 +72,85 @@ export function useFreeAgencyData(options: UseFreeAgencyDataOptions = {}) {
     [players, minRating, sortDirection],
   );
 
-  const isLoading = playersLoading || teamsLoading;
+  const eligibility = useMemo(() => {
+    const signingSeason = seasons.find((season) => season.isActive);
+    const byPlayerId = new Map<string, ContractEligibility>();
+    if (!signingSeason) return byPlayerId;
+    const referenceDate = new Date();
+    for (const player of freeAgents) {
+      byPlayerId.set(
+        String(player.id),
+        getContractEligibility({
+          player,
+          signingSeason,
+          contracts: contracts ?? [],
+          seasons,
+          referenceDate,
+        }),
+      );
+    }
+    return byPlayerId;
+  }, [contracts, freeAgents, seasons]);
+
+  const playerDays = useMemo(
+    () =>
+      new Map<string, PlayerDayEligibility>(
+        playerDayRows.map((verdict) => [verdict.playerId, verdict]),
+      ),
+    [playerDayRows],
+  );
+
+  const waivers = useMemo<WaiverWireRow[]>(() => {
+    const playerById = new Map(
+      (players ?? []).map((player) => [String(player.id), player]),
+    );
+    const claimByWaiverId = new Map(
+      myClaims.map((claim) => [claim.waiverId, claim]),
+    );
+    return (waiverWire?.waivers ?? [])
+      .map((waiver) => ({
+        waiver,
+        player: playerById.get(waiver.playerId) ?? null,
+        claim: claimByWaiverId.get(waiver.id) ?? null,
+      }))
+      .sort((left, right) =>
+        left.waiver.clearsAt.localeCompare(right.waiver.clearsAt),
+      );
+  }, [myClaims, players, waiverWire]);
+
+  const waiverRank =
+    waiverWire?.priority.find((entry) => entry.ownerId === ownerId)?.rank ??
+    null;
+
+  const toggleWaiverClaim = (row: WaiverWireRow) => {
+    setPendingWaiverId(row.waiver.id);
+    const onSettled = () => setPendingWaiverId(null);
+    if (row.claim) {
+      cancelClaim.mutate({ claimId: row.claim.id }, { onSettled });
+    } else {
+      submitClaim.mutate({ waiverId: row.waiver.id }, { onSettled });
+    }
+  };
+
+  const isLoading =
+    playersLoading ||
+    teamsLoading ||
+    contractsLoading ||
+    seasonsLoading ||
+    playerDaysLoading ||
+    waiversLoading;
 
   return {
     freeAgents,
+    eligibility,
+    playerDays,
     nhlTeams,
+    waivers,
+    waiverRank,
+    toggleWaiverClaim,
+    pendingWaiverId,
+    waiverError:
+      submitClaim.error?.message ?? cancelClaim.error?.message ?? null,
     isLoading,
     error: null,
     ready: !isLoading && !!players,
@@ -13,9 +13,13 @@ import {
   calculateContractCapSpaceWindow,
   deriveContractCreationTerms,
   getCapLabPlayerOptions,
+  getTorontoDate,
+  getTradeableContracts,
   groupContractsByPlayer,
+  planContractBuyout,
   ResignableStatus,
 } from "@gshl-utils";
+import { useBuyoutContract } from "../main";
 
 const DEFAULT_CONTRACT_LENGTH = 1 as const;
 
@@ -39,6 +43,8 @@ export function useInteractiveContractTable(
   const [contractLength, setContractLength] = useState<ContractLength>(
     DEFAULT_CONTRACT_LENGTH,
   );
+  const [buyoutPlayerId, setBuyoutPlayerId] = useState<string | null>(null);
+  const buyout = useBuyoutContract();
 
   const availablePlayers = useMemo(
     () =>
@@ -177,6 +183,48 @@ export function useInteractiveContractTable(
     );
   };
 
+  const buyoutDate = getTorontoDate();
+  const buyoutPlayerIds = useMemo(
+    () =>
+      ownerId
+        ? [
+            ...new Set(
+              existingContracts
+                .filter(
+                  (contract) =>
+                    getTradeableContracts(
+                      String(contract.playerId),
+                      ownerId,
+                      [contract],
+                      buyoutDate,
+                    ).length > 0,
+                )
+                .map((contract) => String(contract.playerId)),
+            ),
+          ]
+        : [],
+    [buyoutDate, existingContracts, ownerId],
+  );
+  const buyoutPlan = useMemo(
+    () =>
+      buyoutPlayerId && ownerId
+        ? planContractBuyout({
+            playerId: buyoutPlayerId,
+            ownerId,
+            contracts: existingContracts,
+            seasons,
+            buyoutDate,
+          })
+        : null,
+    [buyoutDate, buyoutPlayerId, existingContracts, ownerId, seasons],
+  );
+
+  const confirmBuyout = () => {
+    const contractId = buyoutPlan?.changes[0]?.contractId;
+    if (!contractId) return;
+    buyout.mutate({ contractId }, { onSuccess: () => setBuyoutPlayerId(null) });
+  };
+
   const resetContracts = () => {
     setSelections([]);
     setRemovedContractIds([]);
@@ -199,6 +247,13 @@ export function useInteractiveContractTable(
     capSpaceWindow,
     ghostContracts,
     hasChanges: selections.length > 0 || removedContractIds.length > 0,
+    buyoutPlayerIds,
+    buyoutPlayerId,
+    setBuyoutPlayerId,
+    buyoutPlan,
+    confirmBuyout,
+    isBuyingOut: buyout.isPending,
+    buyoutError: buyout.error?.message ?? null,
   };
 }
 
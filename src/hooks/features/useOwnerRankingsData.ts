@@ -11,7 +11,12 @@ import {
   useTeams,
   useWeeks,
 } from "@gshl-hooks";
-import { buildOwnerRankings, isGshlTeam } from "@gshl-utils";
+import {
+  buildOwnerLadderHistoryChart,
+  buildOwnerRankings,
+  isGshlTeam,
+  normalizeOwnerLadderSnapshots,
+} from "@gshl-utils";
 import type { Owner, OwnerPowerRankingStat } from "@gshl-types";
 
 export function useOwnerRankingsData() {
@@ -27,6 +32,11 @@ export function useOwnerRankingsData() {
   const teamsQuery = useTeams();
   const powerRankingsQuery = useTeams({ statsLevel: "weekly" });
   const awardsQuery = useTeamAwards();
+  const ladderResult = useQuery(api.ownerLadder.history, {});
+  const ladderSnapshots = useMemo(
+    () => normalizeOwnerLadderSnapshots(ladderResult),
+    [ladderResult],
+  );
 
   const teams = useMemo(
     () => teamsQuery.data.filter(isGshlTeam),
@@ -43,9 +53,11 @@ export function useOwnerRankingsData() {
         teamAwards: awardsQuery.data,
         powerRankingStats:
           powerRankingsQuery.data as unknown as OwnerPowerRankingStat[],
+        ladderSnapshots,
       }),
     [
       awardsQuery.data,
+      ladderSnapshots,
       matchupsQuery.data,
       ownersQuery.data,
       powerRankingsQuery.data,
@@ -55,8 +67,14 @@ export function useOwnerRankingsData() {
     ],
   );
 
+  const ladderHistory = useMemo(
+    () => buildOwnerLadderHistoryChart(ladderSnapshots, data.rankings),
+    [data.rankings, ladderSnapshots],
+  );
+
   return {
     data,
+    ladderHistory,
     isLoading:
       ownersQuery.isLoading ||
       seasonsQuery.isLoading ||
@@ -64,7 +82,8 @@ export function useOwnerRankingsData() {
       weeksQuery.isLoading ||
       teamsQuery.isLoading ||
       powerRankingsQuery.isLoading ||
-      awardsQuery.isLoading,
+      awardsQuery.isLoading ||
+      ladderResult === undefined,
     error:
       ownersQuery.error ??
       seasonsQuery.error ??
@@ -0,0 +1,116 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type {
+  ContractLength,
+  UseRfaResigningOptions,
+  UseRfaResigningResult,
+} from "@gshl-types";
+import {
+  getSigningPeriod,
+  listRfaResigningCandidates,
+  planRfaResigning,
+} from "@gshl-utils";
+import {
+  usePlayerDayEligibility,
+  useResignRfa,
+  useSigningPeriodCalendar,
+} from "../main";
+
+const DEFAULT_CONTRACT_LENGTH = 1 as const;
+
+/**
+ * Lists an owner's expiring RFAs with a live 115% re-signing preview for the
+ * chosen contract length, including the rule 9.11 roster-day verdict.
+ */
+export function useRfaResigning({
+  ownerId,
+  players,
+  contracts,
+  seasons,
+}: UseRfaResigningOptions): UseRfaResigningResult {
+  const [lengths, setLengths] = useState<Record<string, ContractLength>>({});
+  const [pendingPlayerId, setPendingPlayerId] = useState<string | null>(null);
+  const resignRfa = useResignRfa();
+  const signingSeason = useMemo(
+    () => seasons.find((season) => season.isActive) ?? null,
+    [seasons],
+  );
+  const { data: playerDays } = usePlayerDayEligibility({
+    seasonId: signingSeason ? String(signingSeason.id) : undefined,
+    enabled: Boolean(ownerId && signingSeason),
+  });
+  const { data: calendar } = useSigningPeriodCalendar({
+    seasonId: signingSeason ? String(signingSeason.id) : undefined,
+    enabled: Boolean(signingSeason),
+  });
+  const signingPeriods = calendar?.periods;
+
+  const candidates = useMemo(() => {
+    if (!ownerId || !signingSeason) return [];
+    const referenceDate = new Date();
+    const verdicts = new Map(
+      playerDays.map((verdict) => [verdict.playerId, verdict]),
+    );
+    return listRfaResigningCandidates({
+      ownerId,
+      signingSeason,
+      players,
+      contracts,
+      seasons,
+    }).map(({ player, expiringContract }) => {
+      const contractLength =
+        lengths[String(player.id)] ?? DEFAULT_CONTRACT_LENGTH;
+      return {
+        player,
+        expiringContract,
+        contractLength,
+        plan: planRfaResigning({
+          player,
+          ownerId,
+          signingSeason,
+          contractLength,
+          contracts,
+          seasons,
+          playerDays: verdicts.get(String(player.id)),
+          signingPeriods,
+          referenceDate,
+        }),
+      };
+    });
+  }, [
+    contracts,
+    lengths,
+    ownerId,
+    playerDays,
+    players,
+    seasons,
+    signingPeriods,
+    signingSeason,
+  ]);
+
+  const resign = (playerId: string) => {
+    const candidate = candidates.find(
+      (entry) => String(entry.player.id) === playerId,
+    );
+    if (!candidate || candidate.plan.errors.length) return;
+    setPendingPlayerId(playerId);
+    resignRfa.mutate(
+      { playerId, contractLength: candidate.contractLength },
+      { onSettled: () => setPendingPlayerId(null) },
+    );
+  };
+
+  return {
+    signingSeason,
+    signingPeriod: signingSeason
+      ? getSigningPeriod(signingSeason, new Date(), signingPeriods)
+      : null,
+    candidates,
+    setContractLength: (playerId, length) =>
+      setLengths((current) => ({ ...current, [playerId]: length })),
+    resign,
+    pendingPlayerId,
+    error: resignRfa.error?.message ?? null,
+  };
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useMemo } from "react";
+import type { ResignableStatus, SigningPeriod } from "@gshl-types";
+import {
+  buildWeeklyEditionMilestoneSchedule,
+  findSigningPeriodWindow,
+  getTorontoDateEnd,
+  getTorontoDateStart,
+  getTradeDeadlineStatus,
+} from "@gshl-utils";
+import {
+  useAuthSession,
+  useResetSigningPeriod,
+  useSeasons,
+  useSetSigningPeriod,
+  useSigningPeriodCalendar,
+  useWeeks,
+} from "../main";
+
+/**
+ * Lays out the active signing season's rule 9.8 windows next to the weekly
+ * edition milestones they drive, with commissioner overrides.
+ */
+export function useSigningCalendar() {
+  const { session } = useAuthSession();
+  const seasonsQuery = useSeasons({ orderBy: { year: "asc" } });
+  const seasonIndex = seasonsQuery.data.findIndex(
+    (candidate) => candidate.isActive,
+  );
+  const season = seasonsQuery.data[seasonIndex] ?? null;
+  const nextSeason =
+    seasonIndex >= 0 ? (seasonsQuery.data[seasonIndex + 1] ?? null) : null;
+  const calendarQuery = useSigningPeriodCalendar({
+    seasonId: season?.id,
+    enabled: Boolean(season),
+  });
+  const weeksQuery = useWeeks({
+    seasonId: season?.id,
+    enabled: Boolean(season),
+  });
+  const setPeriod = useSetSigningPeriod();
+  const resetPeriod = useResetSigningPeriod();
+
+  const periods = useMemo(
+    () => calendarQuery.data?.periods ?? [],
+    [calendarQuery.data],
+  );
+  const milestones = useMemo(() => {
+    if (!season) return [];
+    return buildWeeklyEditionMilestoneSchedule({
+      finalWeekEnd: season.endDate,
+      signingEndDate: season.signingEndDate,
+      draftStartAt: nextSeason?.draftStartAt ?? undefined,
+      tradeDeadline: getTradeDeadlineStatus(season, weeksQuery.data).deadline,
+      signingPeriods: periods,
+    }).sort((left, right) =>
+      left.scheduledFor.localeCompare(right.scheduledFor),
+    );
+  }, [nextSeason, periods, season, weeksQuery.data]);
+
+  const savePeriod = (
+    period: SigningPeriod,
+    schedule: {
+      startDate: string;
+      endDate: string | null;
+      allowedStatuses: ResignableStatus[];
+    },
+  ) => {
+    const startAt = getTorontoDateStart(schedule.startDate);
+    const endAt = schedule.endDate ? getTorontoDateEnd(schedule.endDate) : null;
+    if (!season || startAt === null) return;
+    setPeriod.mutate({
+      seasonId: season.id,
+      period,
+      startAt,
+      ...(endAt === null ? {} : { endAt }),
+      allowedStatuses: schedule.allowedStatuses,
+    });
+  };
+
+  return {
+    season,
+    periods,
+    openPeriod: findSigningPeriodWindow(periods),
+    milestones,
+    canEdit: session?.user.role === "commissioner",
+    savePeriod,
+    resetPeriod: (period: SigningPeriod) => {
+      if (!season) return;
+      resetPeriod.mutate({ seasonId: season.id, period });
+    },
+    isSaving: setPeriod.isPending || resetPeriod.isPending,
+    error: setPeriod.error?.message ?? resetPeriod.error?.message ?? null,
+    isLoading:
+      seasonsQuery.isLoading || calendarQuery.isLoading || weeksQuery.isLoading,
+  };
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getTradeDeadlineStatus } from "@gshl-utils";
+import { useSeasons, useWeeks } from "../main";
+
+function formatCountdownNumber(n: number): string {
+  return n.toString().padStart(2, "0");
+}
+
+/**
+ * Tracks the active season's rule 3.2 trade deadline with a live countdown.
+ */
+export function useTradeDeadline() {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const seasonsQuery = useSeasons();
+  const season = seasonsQuery.data.find((candidate) => candidate.isActive);
+  const weeksQuery = useWeeks({
+    seasonId: season?.id,
+    enabled: Boolean(season),
+  });
+
+  const status = useMemo(
+    () =>
+      season
+        ? getTradeDeadlineStatus(season, weeksQuery.data, new Date(now))
+        : null,
+    [now, season, weeksQuery.data],
+  );
+
+  let countdown: string | null = null;
+  if (status?.deadlineAt && status.deadlineAt > now) {
+    const totalSeconds = Math.floor((status.deadlineAt - now) / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    countdown = `${days}d ${formatCountdownNumber(hours)}h ${formatCountdownNumber(minutes)}m ${formatCountdownNumber(seconds)}s`;
+  }
+
+  return {
+    season: season ?? null,
+    status,
+    countdown,
+    isLoading: seasonsQuery.isLoading || weeksQuery.isLoading,
+  };
+}
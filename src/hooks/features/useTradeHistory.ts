@@ -0,0 +1,40 @@
+"use client";
+
+import { useMemo } from "react";
+import type { Franchise, UseTradesOptions } from "@gshl-types";
+import { buildTradeHistoryRows } from "@gshl-utils";
+import { useFranchises, useSeasons, useTrades } from "../main";
+
+/**
+ * Builds the locker-room trade ledger for one owner, or for the whole league
+ * when no owner is supplied.
+ */
+export function useTradeHistory(options: UseTradesOptions = {}) {
+  const { ownerId, enabled = true } = options;
+  const trades = useTrades(options);
+  const franchisesQuery = useFranchises({ enabled });
+  const seasonsQuery = useSeasons({ enabled });
+
+  const data = useMemo(() => {
+    if (!trades.data) return [];
+    const franchises = franchisesQuery.data.filter(
+      (team): team is Franchise => "ownerId" in team && !("seasonId" in team),
+    );
+    return buildTradeHistoryRows({
+      trades: trades.data.trades,
+      players: trades.data.players,
+      draftPicks: trades.data.draftPicks,
+      contracts: trades.data.contracts,
+      franchises,
+      seasons: seasonsQuery.data,
+      ownerId: ownerId ?? undefined,
+    });
+  }, [franchisesQuery.data, ownerId, seasonsQuery.data, trades.data]);
+
+  return {
+    data,
+    isLoading:
+      trades.isLoading || franchisesQuery.isLoading || seasonsQuery.isLoading,
+    error: null,
+  };
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useQuery } from "convex/react";
 import { useSession } from "next-auth/react";
 import { api } from "../../../convex/_generated/api";
@@ -11,6 +11,7 @@ import {
   usePlayerNhlStatsByPlayers,
   usePlayers,
   useSeasons,
+  useSigningPeriodCalendar,
   useTeams,
 } from "../main";
 import { useAppMutation } from "../main/useAppMutation";
@@ -18,8 +19,14 @@ import type {
   Franchise,
   GSHLTeam,
   NHLTeam,
+  UfaDrawCheck,
   UfaFreeAgentView,
+  UfaMyOfferView,
   UfaOfferGroupView,
+  UfaRecentSigningView,
+  UseUfaDrawVerificationResult,
+  UseUfaMarketBoardResult,
+  UseUfaOfferStandingResult,
   UseUfaOverviewResult,
 } from "@gshl-types";
 import {
@@ -29,9 +36,13 @@ import {
   indexLatestUfaNhlStats,
   isEligibleUfaRank,
   isUnsignedForSigningSeason,
+  normalizeUfaDrawRecord,
+  normalizeUfaMarketBoard,
+  normalizeUfaOfferStanding,
   normalizeUfaPublicState,
   rankUfas,
   selectAffordableUfas,
+  verifyUfaDraw,
 } from "@gshl-utils";
 
 export function useUfaOverview(): UseUfaOverviewResult {
@@ -52,9 +63,11 @@ export function useUfaOverview(): UseUfaOverviewResult {
   const teamsQuery = useTeams();
   const seasons = useSeasons({ orderBy: { year: "asc" } });
   const contracts = useContracts();
+  const signingCalendar = useSigningPeriodCalendar();
   const data = useMemo(() => {
     if (
       rawState === undefined ||
+      signingCalendar.isLoading ||
       players.isLoading ||
       nhlStatsQuery.isLoading ||
       nhlTeamsQuery.isLoading ||
@@ -85,7 +98,11 @@ export function useUfaOverview(): UseUfaOverviewResult {
       seasons.data,
       activeSeason?.year,
     );
-    const window = getUfaWindow(activeSeason ?? null);
+    const window = getUfaWindow(
+      activeSeason ?? null,
+      new Date(),
+      signingCalendar.data?.periods,
+    );
     const ownerId = session?.user?.ownerId;
     const ownerFranchise = franchises.find(
       (franchise) =>
@@ -179,7 +196,7 @@ export function useUfaOverview(): UseUfaOverviewResult {
     const franchiseById = new Map(
       franchises.map((franchise) => [String(franchise.id), franchise]),
     );
-    const odds = state.oddsByGroup;
+    const standing = state.standingByGroup;
     const offerGroups: UfaOfferGroupView[] = state.groups
       .filter((group) => group.status === "open")
       .map((group) => ({
@@ -187,7 +204,10 @@ export function useUfaOverview(): UseUfaOverviewResult {
         deadlineAt: group.deadlineAt,
         player: playerById.get(String(group.playerId)),
         offers: state.offers
-          .filter((offer) => offer.groupId === group._id)
+          .filter(
+            (offer) =>
+              offer.groupId === group._id && offer.status === "pending",
+          )
           .map((offer) => {
             const franchise = franchiseById.get(String(offer.franchiseId));
             return {
@@ -196,22 +216,83 @@ export function useUfaOverview(): UseUfaOverviewResult {
               franchiseLogoUrl: franchise?.logoUrl ?? null,
               years: offer.contractLength,
               salary: offer.salary,
-              probability:
-                odds[String(group.id)]?.find(
+              band:
+                standing[String(group.id)]?.find(
                   (entry) => entry.offerId === String(offer.id),
-                )?.probability ?? 0,
+                )?.band ?? "even",
             };
           }),
       }));
+    const playerNameById = new Map(
+      players.data.map((player) => [String(player.id), player.fullName]),
+    );
+    const myOffers: UfaMyOfferView[] = state.offers.flatMap((offer) => {
+      const group = state.groups.find(
+        (candidate) =>
+          candidate._id === offer.groupId && candidate.status === "open",
+      );
+      if (!group || !offer.isMine || offer.status !== "pending") return [];
+      const salary = offer.salary;
+      return [
+        {
+          id: offer.id,
+          groupId: String(group.id),
+          playerName:
+            playerNameById.get(String(group.playerId)) ?? "Unknown player",
+          years: offer.contractLength,
+          salary,
+          submittedAt: offer.submittedAt,
+          deadlineAt: group.deadlineAt,
+          groupOffers: state.offers
+            .filter((entry) => entry.groupId === offer.groupId)
+            .map(({ id, status, submittedAt }) => ({
+              id,
+              status,
+              submittedAt,
+            })),
+          amendableTerms: getAffordableUfaTerms({
+            ownerId,
+            salary,
+            signingSeason: activeSeason ?? null,
+            seasons: seasons.data,
+            contracts: contracts.data,
+            groups: state.groups,
+            offers: state.offers.filter((entry) => entry.id !== offer.id),
+          }).filter((years) => years !== offer.contractLength),
+        },
+      ];
+    });
+    const recentSignings: UfaRecentSigningView[] = state.groups
+      .filter((group) => group.status === "resolved" && group.winningOfferId)
+      .sort((left, right) => (right.resolvedAt ?? 0) - (left.resolvedAt ?? 0))
+      .slice(0, 10)
+      .map((group) => {
+        const offer = state.offers.find(
+          (entry) => entry.id === group.winningOfferId,
+        );
+        return {
+          groupId: String(group.id),
+          playerName:
+            playerNameById.get(String(group.playerId)) ?? "Unknown player",
+          franchiseName:
+            franchiseById.get(String(offer?.franchiseId ?? ""))?.name ??
+            "Unknown franchise",
+          years: offer?.contractLength ?? 0,
+          salary: offer?.salary ?? 0,
+          resolvedAt: group.resolvedAt ?? 0,
+        };
+      });
     return {
       window: {
         isOpen: window.isOpen,
         signingEndDate: activeSeason?.signingEndDate ?? null,
-        reason: window.isOpen ? null : "Summer Free Agency is closed.",
+        reason: window.reason,
       },
       freeAgents,
       topFreeAgents: freeAgents.slice(0, 15),
       offerGroups,
+      myOffers,
+      recentSignings,
       franchises,
       viewer: {
         isSignedInOwner,
@@ -231,6 +312,8 @@ export function useUfaOverview(): UseUfaOverviewResult {
     seasons.data,
     seasons.isLoading,
     session?.user?.ownerId,
+    signingCalendar.data,
+    signingCalendar.isLoading,
     rawState,
     state,
     teamsQuery.data,
@@ -244,6 +327,90 @@ export function useUfaOverview(): UseUfaOverviewResult {
   };
 }
 
+/**
+ * Loads one offer group's public draw record and recomputes the hash, roll
+ * and winner in the browser, so the check does not rely on the server.
+ */
+export function useUfaDrawVerification(
+  groupId: string,
+): UseUfaDrawVerificationResult {
+  const raw = useQuery(api.ufa.drawVerification, { groupId });
+  const draw = useMemo(() => normalizeUfaDrawRecord(raw), [raw]);
+  const [check, setCheck] = useState<UfaDrawCheck | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    setCheck(null);
+    if (!draw) return;
+    void verifyUfaDraw(draw).then((result) => {
+      if (!cancelled) setCheck(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [draw]);
+  return {
+    data: raw === undefined ? undefined : draw ? { draw, check } : null,
+    isLoading: raw === undefined,
+    error: null,
+  };
+}
+
+export function useUfaMarketBoard(): UseUfaMarketBoardResult {
+  const raw = useQuery(api.ufa.marketBoard, {});
+  const data = useMemo(() => normalizeUfaMarketBoard(raw), [raw]);
+  return {
+    data: data ?? undefined,
+    isLoading: raw === undefined,
+    error: null,
+  };
+}
+
+export function useUfaOfferStanding(
+  playerId: string,
+  enabled: boolean,
+): UseUfaOfferStandingResult {
+  const raw = useQuery(
+    api.ufa.previewOfferStanding,
+    enabled ? { playerId } : "skip",
+  );
+  const standing = useMemo(() => normalizeUfaOfferStanding(raw), [raw]);
+  return {
+    data: raw === undefined ? undefined : standing,
+    isLoading: enabled && raw === undefined,
+    error: null,
+  };
+}
+
+export function useWithdrawUfaOffer(options?: {
+  onSuccess?: () => void;
+  onError?: (message: string) => void;
+}) {
+  const mutation = useAppMutation(api.ufa.withdrawOffer);
+  return {
+    ...mutation,
+    mutate: (args: { offerId: string }) =>
+      mutation.mutate(args, {
+        onSuccess: options?.onSuccess,
+        onError: (error) => options?.onError?.(error.message),
+      }),
+  };
+}
+
+export function useAmendUfaOffer(options?: {
+  onSuccess?: () => void;
+  onError?: (message: string) => void;
+}) {
+  const mutation = useAppMutation(api.ufa.amendOffer);
+  return {
+    ...mutation,
+    mutate: (args: { offerId: string; contractLength: 1 | 2 | 3 }) =>
+      mutation.mutate(args, {
+        onSuccess: options?.onSuccess,
+        onError: (error) => options?.onError?.(error.message),
+      }),
+  };
+}
+
 export function useSubmitUfaOffer(options?: {
   onSuccess?: () => void;
   onError?: (message: string) => void;
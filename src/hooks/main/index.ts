@@ -19,7 +19,7 @@ export {
   useAuthSession,
   useConvexAuth,
 } from "./useAuthSession";
-export { useJobAdmin } from "./useJobs";
+export { useJobAdmin, useJobRunDetail } from "./useJobs";
 export { useImageUpload } from "./useImageUpload";
 export { useLeagueActivity } from "./useLeagueActivity";
 export {
@@ -31,12 +31,26 @@ export {
 export {
   useContracts,
   useAllContracts,
+  useBuyoutContract,
   useContractData,
   useCreateContract,
+  usePlayerDayEligibility,
+  useResetSigningPeriod,
+  useResignRfa,
+  useSetSigningPeriod,
+  useSigningPeriodCalendar,
   type ContractFilters,
   type ContractSortOption,
   type ContractSummary,
 } from "./useContract";
+export { useExecuteTrade, useSetTradeDeadline, useTrades } from "./useTrade";
+export {
+  useCancelWaiverClaim,
+  useDropPlayer,
+  useMyWaiverClaims,
+  useSubmitWaiverClaim,
+  useWaivers,
+} from "./useWaivers";
 export type {
   BuyoutContractType,
   CapSpaceEntry,
@@ -47,12 +61,18 @@ export type {
   UseContractDataOptions,
   UseContractDataResult,
   UseContractsOptions,
+  UsePlayerDayEligibilityOptions,
+  UseSigningPeriodCalendarOptions,
+  UseWaiversOptions,
 } from "@gshl-types";
 
 // Draft pick hooks
 export { useDraftPicks, useDraftPickPages } from "./useDraftPick";
 export {
   useDraftHubState,
+  useDraftQueue,
+  useLockDraftOrder,
+  useSetDraftQueue,
   useSubmitDraftPick,
   useUndoDraftPick,
 } from "./useDraftHub";
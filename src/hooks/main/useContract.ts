@@ -12,10 +12,13 @@ import {
   type FranchiseDraftPickGroupType,
   type GSHLTeam,
   type Player,
+  type PlayerDayEligibility,
   type Season,
   type UseContractDataOptions,
   type UseContractDataResult,
   type UseContractsOptions,
+  type UsePlayerDayEligibilityOptions,
+  type UseSigningPeriodCalendarOptions,
 } from "@gshl-types";
 import {
   applyContractFilters,
@@ -41,6 +44,7 @@ export type {
 } from "@gshl-types";
 
 const EMPTY_CONTRACTS: Contract[] = [];
+const EMPTY_PLAYER_DAYS: PlayerDayEligibility[] = [];
 const DEFAULT_SELECT_DEPS = [] as const;
 
 function singleFilterValue(value: unknown): string | undefined {
@@ -59,6 +63,62 @@ export function useCreateContract() {
   return useAppMutation(api.frontend.createContract);
 }
 
+export function useBuyoutContract() {
+  return useAppMutation(api.frontend.buyoutContract);
+}
+
+export function useResignRfa() {
+  return useAppMutation(api.frontend.resignRfa);
+}
+
+export function useSetSigningPeriod() {
+  return useAppMutation(api.signingPeriods.setPeriod);
+}
+
+export function useResetSigningPeriod() {
+  return useAppMutation(api.signingPeriods.resetPeriod);
+}
+
+/** Rule 9.8 signing windows, defaulting to the active signing season. */
+export function useSigningPeriodCalendar(
+  options: UseSigningPeriodCalendarOptions = {},
+) {
+  const { seasonId, enabled = true } = options;
+  const result = useQuery(
+    api.signingPeriods.calendar,
+    enabled
+      ? seasonId
+        ? { seasonId: seasonId as Id<"seasons"> }
+        : {}
+      : "skip",
+  );
+  return {
+    data: result ?? null,
+    isLoading: enabled && result === undefined,
+    error: null,
+  };
+}
+
+/** Stored rule 9.11 roster-day verdicts, defaulting to the active season. */
+export function usePlayerDayEligibility(
+  options: UsePlayerDayEligibilityOptions = {},
+) {
+  const { seasonId, enabled = true } = options;
+  const result = useQuery(
+    api.contractEligibility.playerDays,
+    enabled
+      ? seasonId
+        ? { seasonId: seasonId as Id<"seasons"> }
+        : {}
+      : "skip",
+  );
+  return {
+    data: result ?? EMPTY_PLAYER_DAYS,
+    isLoading: enabled && result === undefined,
+    error: null,
+  };
+}
+
 /**
  * Hook for fetching and filtering contracts with advanced options.
  *
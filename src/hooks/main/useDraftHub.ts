@@ -19,6 +19,23 @@ export function useDraftHubState(options: UseDraftHubStateOptions = {}) {
   };
 }
 
+export function useDraftQueue(options: UseDraftHubStateOptions = {}) {
+  const { seasonId, enabled = true } = options;
+  const result = useQuery(
+    api.draft.myQueue,
+    enabled && seasonId ? { seasonId: seasonId as Id<"seasons"> } : "skip",
+  );
+  return {
+    data: result ?? [],
+    isLoading: enabled && Boolean(seasonId) && result === undefined,
+    error: null,
+  };
+}
+
+export function useSetDraftQueue() {
+  return useAppMutation(api.draft.setQueue);
+}
+
 export function useSubmitDraftPick() {
   return useAppMutation(api.draft.submitPick);
 }
@@ -26,3 +43,7 @@ export function useSubmitDraftPick() {
 export function useUndoDraftPick() {
   return useAppMutation(api.draft.undoPick);
 }
+
+export function useLockDraftOrder() {
+  return useAppMutation(api.draft.lockDraftOrder);
+}
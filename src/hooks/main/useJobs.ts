@@ -3,18 +3,35 @@
 import { useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { useAppMutation } from "./useAppMutation";
-import { normalizeJobRuns } from "@gshl-utils";
-import type { JobRun, QueryLike, UseJobAdminResult } from "@gshl-types";
+import {
+  normalizeJobRunDetail,
+  normalizeJobRuns,
+  normalizeJobSchedules,
+} from "@gshl-utils";
+import type {
+  JobEventLevel,
+  JobRun,
+  JobRunDetail,
+  JobSchedule,
+  QueryLike,
+  UseJobAdminResult,
+} from "@gshl-types";
 
 export function useJobAdmin(): UseJobAdminResult {
   const catalog = useQuery(api.frontend.jobCatalog, {});
   const runs = useQuery(api.frontend.jobRuns, { limit: 50 });
+  const schedules = useQuery(api.frontend.jobSchedules, {});
   const normalizedRuns = normalizeJobRuns(runs);
   const runsState: QueryLike<JobRun[]> = {
     data: normalizedRuns,
     isLoading: runs === undefined,
     error: null,
   };
+  const schedulesState: QueryLike<JobSchedule[]> = {
+    data: normalizeJobSchedules(schedules),
+    isLoading: schedules === undefined,
+    error: null,
+  };
   return {
     catalog: {
       data: catalog,
@@ -25,5 +42,25 @@ export function useJobAdmin(): UseJobAdminResult {
     start: useAppMutation(api.frontend.startJob),
     cancel: useAppMutation(api.frontend.cancelJob),
     retry: useAppMutation(api.frontend.retryJob),
+    schedules: schedulesState,
+    createSchedule: useAppMutation(api.frontend.createJobSchedule),
+    updateSchedule: useAppMutation(api.frontend.updateJobSchedule),
+    setScheduleEnabled: useAppMutation(api.frontend.setJobScheduleEnabled),
+  };
+}
+
+/** Subscribes to one run's inspector payload, so its event log tails live. */
+export function useJobRunDetail(
+  runId: JobRun["id"],
+  level?: JobEventLevel,
+): QueryLike<JobRunDetail | null> {
+  const detail = useQuery(api.frontend.jobRunDetail, {
+    runId,
+    ...(level ? { level } : {}),
+  });
+  return {
+    data: normalizeJobRunDetail(detail),
+    isLoading: detail === undefined,
+    error: null,
   };
 }
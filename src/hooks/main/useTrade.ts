@@ -0,0 +1,34 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import type { UseTradesOptions } from "@gshl-types";
+import { useAppMutation } from "./useAppMutation";
+
+export function useTrades(options: UseTradesOptions = {}) {
+  const { seasonId, ownerId, limit, enabled = true } = options;
+  const result = useQuery(
+    api.trades.list,
+    enabled
+      ? {
+          ...(seasonId ? { seasonId: seasonId as Id<"seasons"> } : {}),
+          ...(ownerId ? { ownerId: ownerId as Id<"owners"> } : {}),
+          ...(limit ? { limit } : {}),
+        }
+      : "skip",
+  );
+  return {
+    data: result,
+    isLoading: enabled && result === undefined,
+    error: null,
+  };
+}
+
+export function useExecuteTrade() {
+  return useAppMutation(api.trades.execute);
+}
+
+export function useSetTradeDeadline() {
+  return useAppMutation(api.trades.setDeadline);
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import type { UseWaiversOptions, WaiverClaim } from "@gshl-types";
+import { useAppMutation } from "./useAppMutation";
+
+const EMPTY_CLAIMS: WaiverClaim[] = [];
+
+/** Players on rule 3.1 waivers and the season's rolling priority list. */
+export function useWaivers(options: UseWaiversOptions = {}) {
+  const { seasonId, enabled = true } = options;
+  const result = useQuery(
+    api.waivers.list,
+    enabled
+      ? seasonId
+        ? { seasonId: seasonId as Id<"seasons"> }
+        : {}
+      : "skip",
+  );
+  return {
+    data: result ?? null,
+    isLoading: enabled && result === undefined,
+    error: null,
+  };
+}
+
+/** The signed-in owner's pending waiver claims. */
+export function useMyWaiverClaims(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  const result = useQuery(api.waivers.myClaims, enabled ? {} : "skip");
+  return {
+    data: result ?? EMPTY_CLAIMS,
+    isLoading: enabled && result === undefined,
+    error: null,
+  };
+}
+
+export function useDropPlayer() {
+  return useAppMutation(api.waivers.drop);
+}
+
+export function useSubmitWaiverClaim() {
+  return useAppMutation(api.waivers.claim);
+}
+
+export function useCancelWaiverClaim() {
+  return useAppMutation(api.waivers.cancelClaim);
+}
@@ -6,11 +6,28 @@ import type {
   Player,
   Season,
 } from "./database";
-import type { ContractStatus, ContractType } from "./enums";
+import type { ContractStatus, ContractType, ResignableStatus } from "./enums";
 
 export type MaybeArray<T> = T | T[] | null | undefined;
 export type ContractLength = 1 | 2 | 3;
 export type InteractiveContractAction = "sign" | "trade";
+export type SigningPeriod = "early" | "late" | "summer";
+
+/** A rule 9.8 signing window as the commissioner schedules it. */
+export interface SigningPeriodSchedule {
+  period: SigningPeriod;
+  /** Epoch milliseconds the window opens. */
+  startAt: number;
+  /** Epoch milliseconds the window closes; null stays open. */
+  endAt: number | null;
+  allowedStatuses: ResignableStatus[];
+}
+
+export interface SigningPeriodWindow extends SigningPeriodSchedule {
+  seasonId: string;
+  label: string;
+  isOverride: boolean;
+}
 
 export interface ContractFilters {
   ids?: MaybeArray<string>;
@@ -69,6 +86,85 @@ export interface ContractCapCheck {
   requiredSalary: number;
 }
 
+export interface ContractEligibility {
+  playerId: string;
+  status: ResignableStatus | null;
+  canSign: boolean;
+  isUnderContract: boolean;
+  consecutiveContracts: number;
+  expiringContractId: string | null;
+  rightsOwnerId: string | null;
+  reason: string;
+}
+
+export interface PlayerDayTeamCount {
+  gshlTeamId: string;
+  days: number;
+}
+
+/** Running rule 9.11 roster-day counts for one player across job pages. */
+export interface PlayerDayTally {
+  rosterDays: number;
+  teamDays: PlayerDayTeamCount[];
+  lastDate: string | null;
+  lastDateTeamIds: string[];
+}
+
+export interface PlayerDayEligibility {
+  seasonId: string;
+  playerId: string;
+  regularSeasonDays: number;
+  rosterDays: number;
+  rosterRatio: number;
+  teamDays: Array<PlayerDayTeamCount & { ratio: number }>;
+  qualifyingTeamIds: string[];
+  isEligible: boolean;
+  computedAt?: string;
+}
+
+export interface UsePlayerDayEligibilityOptions {
+  seasonId?: string;
+  enabled?: boolean;
+}
+
+export interface UseSigningPeriodCalendarOptions {
+  seasonId?: string;
+  enabled?: boolean;
+}
+
+export interface ContractBuyoutChange {
+  contractId: string;
+  capHit: number;
+  capHitEndDate: string;
+  isFinalYear: boolean;
+}
+
+export interface ContractBuyoutSeasonPreview {
+  seasonId: string;
+  seasonName: string;
+  currentCapHit: number;
+  buyoutCapHit: number;
+}
+
+export interface ContractBuyoutPlan {
+  playerId: string;
+  ownerId: string;
+  changes: ContractBuyoutChange[];
+  seasons: ContractBuyoutSeasonPreview[];
+  errors: string[];
+}
+
+export interface RfaResigningPlan {
+  playerId: string;
+  ownerId: string;
+  expiringContractId: string | null;
+  signingPeriod: SigningPeriod | null;
+  contractLength: ContractLength;
+  terms: ContractCreationTerms | null;
+  capCheck: ContractCapCheck | null;
+  errors: string[];
+}
+
 export interface PlayerNhlSalaryRow {
   playerId: string;
   seasonId: string;
@@ -133,6 +229,44 @@ export interface UseInteractiveContractTableResult {
   capSpaceWindow: CapSpaceEntry[];
   ghostContracts: Contract[];
   hasChanges: boolean;
+  buyoutPlayerIds: string[];
+  buyoutPlayerId: string | null;
+  setBuyoutPlayerId: (playerId: string | null) => void;
+  buyoutPlan: ContractBuyoutPlan | null;
+  confirmBuyout: () => void;
+  isBuyingOut: boolean;
+  buyoutError: string | null;
+}
+
+export interface RfaResigningPanelProps {
+  currentTeam: GSHLTeam;
+  players: Player[];
+  contracts: Contract[];
+  seasons: Season[];
+}
+
+export interface RfaResigningCandidate {
+  player: Player;
+  expiringContract: Contract;
+  contractLength: ContractLength;
+  plan: RfaResigningPlan;
+}
+
+export interface UseRfaResigningOptions {
+  ownerId?: string | null;
+  players: Player[];
+  contracts: Contract[];
+  seasons: Season[];
+}
+
+export interface UseRfaResigningResult {
+  signingSeason: Season | null;
+  signingPeriod: SigningPeriod | null;
+  candidates: RfaResigningCandidate[];
+  setContractLength: (playerId: string, length: ContractLength) => void;
+  resign: (playerId: string) => void;
+  pendingPlayerId: string | null;
+  error: string | null;
 }
 
 export interface FranchiseContractHistoryRowType {
@@ -10,6 +10,7 @@ import type {
   AwardsList,
   ResignableStatus,
 } from "./enums";
+import type { StandingsTiebreak } from "./standings";
 
 // Core model types
 export interface Season {
@@ -25,6 +26,7 @@ export interface Season {
   usesLegacyTies: boolean;
   signingEndDate: string;
   draftStartAt?: string | null;
+  tradeDeadlineDate?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -782,6 +784,7 @@ export interface TeamSeasonStatLine {
   overallRk: number;
   conferenceRk: number;
   wildcardRk?: number | null;
+  tiebreaks?: StandingsTiebreak[] | null;
   playersUsed: number;
   hartRating?: number | null;
   hartRk?: number | null;
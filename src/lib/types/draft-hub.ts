@@ -171,6 +171,25 @@ export interface DraftHubTeamData {
   isLoading: boolean;
 }
 
+/** The signed-in owner's private draft queue and the player search beside it. */
+export interface DraftQueueViewModel {
+  queue: Player[];
+  searchResults: Player[];
+  searchTerm: string;
+  setSearchTerm: (value: string) => void;
+  addPlayer: (playerId: string) => void;
+  removePlayer: (playerId: string) => void;
+  movePlayer: (playerId: string, offset: number) => void;
+  isFull: boolean;
+  isSaving: boolean;
+  error: string | null;
+  isLoading: boolean;
+}
+
+export interface DraftQueuePanelProps {
+  season: Season;
+}
+
 export interface DraftHubTeamPageProps {
   mode: "my-team" | "other-team";
 }
@@ -19,7 +19,7 @@ export type MatchupType = "CC" | "NC" | "QF" | "SF" | "F" | "LT";
 
 export type PlayerPosition = "C" | "LW" | "RW" | "D" | "G";
 
-export type EventType = "DRAFT" | "MEETINGS";
+export type EventType = "DRAFT" | "MEETINGS" | "BUYOUT";
 
 export type ContractType = "STANDARD" | "EXTENSION";
 
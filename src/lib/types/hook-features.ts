@@ -140,6 +140,8 @@ export interface DraftCountdownState {
 export interface UseFreeAgencyDataOptions {
   minRating?: number;
   sortDirection?: "asc" | "desc";
+  /** Viewer's owner id; loads their pending waiver claims when set. */
+  ownerId?: string | null;
 }
 
 export interface UseDraftBoardDataOptions {
@@ -102,12 +102,16 @@ export * from "./array-utils";
 export * from "./app-mutation";
 export * from "./auth";
 export * from "./contracts";
+export * from "./trades";
+export * from "./waivers";
 export * from "./awards-ui";
 export * from "./conference-contest";
 export * from "./owner-rankings";
 export * from "./draft";
 export * from "./draft-hub";
 export * from "./matchup";
+export * from "./player-ratings";
+export * from "./power-ratings";
 export * from "./playoff-bracket";
 export * from "./season";
 export * from "./team";
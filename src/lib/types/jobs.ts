@@ -4,7 +4,12 @@ import type { QueryLike } from "./hook-query";
 
 export interface JobRunProgress {
   processed?: number;
+  inserted?: number;
   updated?: number;
+  deleted?: number;
+  unchanged?: number;
+  skipped?: number;
+  total?: number;
 }
 
 export interface JobRun {
@@ -16,13 +21,94 @@ export interface JobRun {
   status: string;
   progress: JobRunProgress;
   error?: string;
+  pipelineStage?: number;
   startedAt?: number;
   createdAt?: number;
+  heartbeatAt?: number;
+  finishedAt?: number;
+}
+
+export type JobEventLevel = "debug" | "info" | "warning" | "error";
+
+export interface JobEvent {
+  id: Id<"jobEvents">;
+  level: JobEventLevel;
+  message: string;
+  data?: unknown;
+  createdAt?: number;
+}
+
+export interface JobArtifact {
+  id: Id<"jobArtifacts">;
+  kind: string;
+  name: string;
+  contentType?: string;
+  url: string | null;
+  createdAt?: number;
+}
+
+export interface JobExternalTask {
+  id: Id<"externalTasks">;
+  kind: string;
+  status: string;
+  leaseOwner?: string;
+  leaseExpiresAt?: number;
+  heartbeatAt?: number;
+  resultChunks: number;
+  error?: string;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export interface JobPipelineStageSummary {
+  id: string;
+  jobName: string;
+  // Stage ids this stage waits on.
+  after: readonly string[];
+  condition?: string;
+}
+
+export interface JobPipeline {
+  jobName: string;
+  label: string;
+  description: string;
+  stages: readonly JobPipelineStageSummary[];
+}
+
+export interface JobPipelineStage extends JobPipelineStageSummary {
+  stage: number;
+  skipReason?: string;
+  run?: JobRun;
+}
+
+export interface JobRunDetail {
+  run: JobRun;
+  events: JobEvent[];
+  artifacts: JobArtifact[];
+  tasks: JobExternalTask[];
+  children: JobRun[];
+  pipelineStages: JobPipelineStage[];
+}
+
+export interface JobSchedule {
+  id: Id<"jobSchedules">;
+  name: string;
+  jobName: string;
+  args: Record<string, string>;
+  apply: boolean;
+  enabled: boolean;
+  intervalMinutes?: number;
+  cron?: string;
+  activeSeasonOnly: boolean;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  runs: JobRun[];
 }
 
 export interface JobCatalog {
   jobs: readonly string[];
   statuses: readonly string[];
+  pipelines: readonly JobPipeline[];
 }
 
 export interface StartJobArgs extends Record<string, unknown> {
@@ -35,10 +121,71 @@ export interface JobRunMutationArgs extends Record<string, unknown> {
   runId: Id<"jobRuns">;
 }
 
+export interface JobScheduleArgs extends Record<string, unknown> {
+  name: string;
+  jobName: string;
+  args: Record<string, string>;
+  apply: boolean;
+  enabled: boolean;
+  activeSeasonOnly: boolean;
+  intervalMinutes?: number;
+  cron?: string;
+}
+
+export interface UpdateJobScheduleArgs extends JobScheduleArgs {
+  scheduleId: Id<"jobSchedules">;
+}
+
+export interface SetJobScheduleEnabledArgs extends Record<string, unknown> {
+  scheduleId: Id<"jobSchedules">;
+  enabled: boolean;
+}
+
 export interface UseJobAdminResult {
   catalog: QueryLike<JobCatalog>;
   runs: QueryLike<JobRun[]>;
   start: AppMutationController<StartJobArgs>;
   cancel: AppMutationController<JobRunMutationArgs>;
   retry: AppMutationController<JobRunMutationArgs>;
+  schedules: QueryLike<JobSchedule[]>;
+  createSchedule: AppMutationController<JobScheduleArgs>;
+  updateSchedule: AppMutationController<UpdateJobScheduleArgs>;
+  setScheduleEnabled: AppMutationController<SetJobScheduleEnabledArgs>;
+}
+
+export type JobScheduleTimingMode = "daily" | "cron" | "interval";
+
+export interface JobScheduleDraft {
+  scheduleId?: Id<"jobSchedules">;
+  name: string;
+  jobName: string;
+  seasonId: string;
+  timingMode: JobScheduleTimingMode;
+  time: string;
+  cron: string;
+  intervalMinutes: string;
+  activeSeasonOnly: boolean;
+  apply: boolean;
+  enabled: boolean;
+}
+
+export interface JobSchedulesProps {
+  jobs: readonly string[];
+  schedules: QueryLike<JobSchedule[]>;
+  createSchedule: AppMutationController<JobScheduleArgs>;
+  updateSchedule: AppMutationController<UpdateJobScheduleArgs>;
+  setScheduleEnabled: AppMutationController<SetJobScheduleEnabledArgs>;
+}
+
+export interface JobRunInspectorProps {
+  runId: Id<"jobRuns">;
+  nested?: boolean;
+}
+
+export interface JobPipelineOverviewProps {
+  pipeline: JobPipeline;
+}
+
+export interface JobProgressBarProps {
+  run: JobRun | undefined;
 }
@@ -3,6 +3,7 @@ export type LeagueActivityType =
   | "trade"
   | "add"
   | "drop"
+  | "waiver"
   | "missed_start";
 
 export interface LeagueActivityEvent {
@@ -18,4 +19,5 @@ export interface LeagueActivityEvent {
   signingStatus?: string;
   contractLength?: number;
   contractSalary?: number;
+  fromTeamName?: string;
 }
@@ -80,6 +80,30 @@ export interface CategoryResult {
   winner: "home" | "away" | "tie";
 }
 
+export type MatchupCategoryWinner = CategoryResult["winner"];
+
+/**
+ * One scored category. `forfeit` marks a goalie category decided because
+ * only one side met the goalie start minimum.
+ */
+export interface MatchupCategoryScore {
+  field: string;
+  winner: MatchupCategoryWinner;
+  forfeit: boolean;
+}
+
+export interface MatchupScore {
+  homeScore: number;
+  awayScore: number;
+  categories: MatchupCategoryScore[];
+}
+
+export interface MatchupResult {
+  homeWin: boolean;
+  awayWin: boolean;
+  tie: boolean;
+}
+
 export type StarPlayer = MatchupPlayerStat & {
   starRank: 1 | 2 | 3;
   team: GSHLTeam | null;
@@ -71,3 +71,28 @@ export interface OwnerRankingsViewModel {
   activeOwnerCount: number;
   inactiveOwnerCount: number;
 }
+
+/** One owner's persisted Owner Ladder standing after a week. */
+export interface OwnerLadderSnapshot {
+  ownerId: string;
+  seasonId: string;
+  weekId: string;
+  weekStartDate: string;
+  rating: number;
+  rank: number;
+}
+
+export interface OwnerLadderHistorySeries {
+  ownerId: string;
+  name: string;
+}
+
+export interface OwnerLadderHistoryChart {
+  // One row per week: `weekStartDate` plus each series' rating by owner id.
+  rows: Array<Record<string, number | string>>;
+  series: OwnerLadderHistorySeries[];
+}
+
+export interface OwnerLadderHistoryProps {
+  chart: OwnerLadderHistoryChart;
+}
@@ -0,0 +1,51 @@
+/** Stat line models the player rating engine scores. */
+export type PlayerRatingModel =
+  | "PlayerDayStatLine"
+  | "PlayerWeekStatLine"
+  | "PlayerSplitStatLine"
+  | "PlayerTotalStatLine"
+  | "PlayerCareerSplitStatLine"
+  | "PlayerCareerTotalStatLine"
+  | "PlayerNHL";
+
+export type PlayerRatingPosGroup = "F" | "D" | "G";
+
+export type PlayerRatingOutputField = "Rating" | "seasonRating";
+
+/**
+ * One row of a rating parity sample, in the shape `runRatingParitySample`
+ * returns, with the stored score the native engine was compared against.
+ */
+export interface PlayerRatingParitySample {
+  id: string;
+  score: number;
+  storedScore: number | string | null;
+  delta: number | null;
+  outputField: string;
+  posGroup: string;
+  seasonType: string;
+}
+
+export interface PlayerRatingParitySummary {
+  modelName: PlayerRatingModel;
+  seasonType: string;
+  outputField: string;
+  totalRows: number;
+  matchedRows: number;
+  mismatchedRows: number;
+  maxDelta: number;
+  meanDelta: number;
+  mismatches: PlayerRatingParitySample[];
+}
+
+export interface PlayerRatingParityReport {
+  seasonId: string;
+  maxDelta: number;
+  models: PlayerRatingParitySummary[];
+  totals: {
+    totalRows: number;
+    matchedRows: number;
+    mismatchedRows: number;
+    maxDelta: number;
+  };
+}
@@ -1,4 +1,10 @@
-import type { GSHLTeam, Matchup, Season, TeamSeasonStatLine } from "./database";
+import type {
+  GSHLTeam,
+  Matchup,
+  Season,
+  TeamSeasonStatLine,
+  Week,
+} from "./database";
 
 export type SeededTeam = GSHLTeam & { seasonStats?: TeamSeasonStatLine };
 
@@ -43,3 +49,46 @@ export interface PlayoffBracketProps {
   matchups: Matchup[];
   season: Season | null;
 }
+
+export type DraftOrderWeek = 1 | 2 | 3;
+
+/** One rule 7 placement game; the two-week 5/6 game spans weeks 2 and 3. */
+export interface DraftOrderGame {
+  id: string;
+  week: DraftOrderWeek;
+  title: string;
+  homeLabel: string;
+  awayLabel: string;
+  homeTeam: SeededTeam | null;
+  awayTeam: SeededTeam | null;
+  homeScore: number | null;
+  awayScore: number | null;
+  isComplete: boolean;
+  source: PlayoffMatchupSource;
+  winnerTeam: SeededTeam | null;
+  /** Picks awarded to the winner and loser, when the game decides them. */
+  picks: [number, number] | null;
+}
+
+export interface DraftOrderGroup {
+  id: string;
+  title: string;
+  subtitle: string;
+  games: DraftOrderGame[];
+}
+
+export interface DraftOrderSlot {
+  pick: number;
+  team: SeededTeam | null;
+}
+
+export interface DraftOrderTournamentViewModel {
+  groups: DraftOrderGroup[];
+  order: DraftOrderSlot[];
+  /** True once every pick from 1 to 14 has a team. */
+  isFinal: boolean;
+}
+
+export interface DraftOrderTournamentProps extends PlayoffBracketProps {
+  weeks: Week[];
+}
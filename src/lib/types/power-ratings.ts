@@ -0,0 +1,109 @@
+/** A win/loss/tie record the GM ladder keeps per owner and game bucket. */
+export interface PowerGmRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+/**
+ * One owner's GM ladder state, replayed across seasons. Season sets are
+ * stored as arrays so the state can be persisted between job batches.
+ */
+export interface PowerGmState {
+  elo: number;
+  achievementBonus: number;
+  weeksAtNumberOne: number;
+  weeksInTopThree: number;
+  weeksInBottomThree: number;
+  weeksInLastPlace: number;
+  overall: PowerGmRecord;
+  conference: PowerGmRecord;
+  playoffs: PowerGmRecord;
+  playoffSeasonIds: string[];
+  finalistSeasonIds: string[];
+}
+
+/** A team's running power state carried from one week into the next. */
+export interface PowerTeamState {
+  elo: number;
+  statEwma: number;
+  previousWeekScore: number;
+}
+
+/** Rolling talent sums for one player, built from their rated weeks. */
+export interface PowerTalentAccumulator {
+  weightedRating: number;
+  weight: number;
+  gamesPlayed: number;
+}
+
+/** A prior season's best-finish power signal for one team. */
+export interface PowerHistorySignal {
+  seasonIndex: number;
+  franchiseId: string;
+  ownerId: string;
+  signal: number;
+}
+
+/** The power component fields written to a team week. */
+export interface PowerTeamWeekUpdate {
+  gshlTeamId: string;
+  weekId: string;
+  powerElo: number;
+  powerEloPre: number;
+  powerEloPost: number;
+  powerEloDelta: number;
+  powerEloExpected: number | null;
+  powerEloK: number | null;
+  powerStatScore: number;
+  powerStatEwma: number;
+  powerTalent: number;
+  gmLadderRating: number;
+  powerGmScore: number;
+  powerHistoryPrior: number;
+  powerComposite: number;
+  powerRating: number;
+  powerRk: number | null;
+}
+
+/** The rank and rating fields written to a matchup. */
+export interface PowerMatchupUpdate {
+  id: string;
+  homeRank: number | null;
+  awayRank: number | null;
+  rating: number;
+  ratingPre: number;
+  ratingRealized: number | null;
+  ratingCompetitive: number;
+  ratingImportance: number;
+  ratingRosterStrength: number;
+}
+
+/** One native value that differs from the stored legacy value. */
+export interface PowerRatingParitySample {
+  id: string;
+  field: string;
+  value: number | null;
+  storedValue: number | string | null;
+  delta: number | null;
+}
+
+export interface PowerRatingParitySummary {
+  totalRows: number;
+  matchedRows: number;
+  mismatchedRows: number;
+  maxDelta: number;
+  mismatches: PowerRatingParitySample[];
+}
+
+/**
+ * Native power rebuild compared with the values last written by the Apps
+ * Script engine, in the shape of the `power:parity` report.
+ */
+export interface PowerRatingParityReport {
+  seasonId: string;
+  tolerance: number;
+  teamWeeks: PowerRatingParitySummary;
+  teamSeasons: PowerRatingParitySummary;
+  matchups: PowerRatingParitySummary;
+}
@@ -10,3 +10,14 @@ export interface OffseasonWindow {
   endedSeason: Season;
   upcomingSeason: Season;
 }
+
+export interface TradeDeadlineStatus {
+  seasonId: string;
+  /** League-local date of the deadline; trades close when it ends. */
+  deadline: string | null;
+  /** Epoch milliseconds at the end of the deadline date in Toronto. */
+  deadlineAt: number | null;
+  regularSeasonEndDate: string | null;
+  isOverride: boolean;
+  isClosed: boolean;
+}
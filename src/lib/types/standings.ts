@@ -54,12 +54,61 @@ export interface StandingsTopPlayer {
   statLabel: string;
 }
 
+/** Rule 4.5 tiebreakers, in the order they are applied after record. */
+export type StandingsTiebreaker =
+  | "standingsPoints"
+  | "headToHeadPoints"
+  | "headToHeadDifferential"
+  | "categoryDifferential"
+  | "conferencePoints"
+  | "conferenceDifferential"
+  | "ownerLadder";
+
+/**
+ * One tiebreaker decision: the tied teams in the order the tiebreaker left
+ * them, with each team's value. Owner Ladder values are ranks, so lower wins.
+ */
+export interface StandingsTiebreak {
+  scope: StandingsType;
+  tiebreaker: StandingsTiebreaker;
+  teamIds: string[];
+  values: number[];
+}
+
+export interface StandingsTiebreakNote {
+  scopeLabel: string;
+  tiebreakerLabel: string;
+  summary: string;
+}
+
+export interface TeamSeasonStandingsUpdate {
+  id: string;
+  gshlTeamId: string;
+  seasonType: string;
+  teamW: number;
+  teamHW: number;
+  teamHL: number;
+  teamL: number;
+  teamT: number;
+  teamCCW: number;
+  teamCCHW: number;
+  teamCCHL: number;
+  teamCCL: number;
+  teamCCT: number;
+  streak: string;
+  overallRk: number | null;
+  conferenceRk: number | null;
+  wildcardRk: number | null;
+  tiebreaks: StandingsTiebreak[];
+}
+
 export interface StandingsTeamCardViewModel {
   categoryRanks: StandingsCategoryRank[];
   conferenceLabel: string;
   ownerName: string;
   powerRank: number | null;
   previousGames: StandingsTeamGameContext[];
+  tiebreakNotes: StandingsTiebreakNote[];
   topPlayers: StandingsTopPlayer[];
   upcomingGames: StandingsTeamGameContext[];
 }
@@ -88,6 +137,10 @@ export interface StandingsTopPlayersProps {
   players: StandingsTopPlayer[];
 }
 
+export interface StandingsTiebreakNotesProps {
+  notes: StandingsTiebreakNote[];
+}
+
 export interface StandingsGroupTableProps {
   allTeamStats: TeamSeasonStatLine[];
   allTeams: GSHLTeam[];
@@ -0,0 +1,72 @@
+export type TradeAssetKind = "player" | "draftPick";
+
+export interface TradeAsset {
+  kind: TradeAssetKind;
+  fromOwnerId: string;
+  toOwnerId: string;
+  playerId?: string | null;
+  draftPickId?: string | null;
+  contractIds?: string[];
+}
+
+export interface Trade {
+  id: string;
+  seasonId: string;
+  ownerIds: string[];
+  assets: TradeAsset[];
+  notes?: string | null;
+  recordedBy?: string | null;
+  executedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TradeContractMove {
+  contractId: string;
+  playerId: string;
+  fromOwnerId: string;
+  toOwnerId: string;
+  capHit: number;
+}
+
+export interface TradeSeasonCapCheck {
+  ownerId: string;
+  seasonId: string;
+  incomingCapHit: number;
+  outgoingCapHit: number;
+  availableCapSpace: number;
+  affordable: boolean;
+}
+
+export interface TradePlan {
+  contractMoves: TradeContractMove[];
+  capChecks: TradeSeasonCapCheck[];
+  errors: string[];
+}
+
+export interface TradeHistoryAssetView {
+  key: string;
+  kind: TradeAssetKind;
+  label: string;
+  detail: string | null;
+}
+
+export interface TradeHistorySideView {
+  ownerId: string;
+  franchiseName: string;
+  received: TradeHistoryAssetView[];
+}
+
+export interface TradeHistoryRowView {
+  id: string;
+  executedAt: string;
+  sides: TradeHistorySideView[];
+  notes: string | null;
+}
+
+export interface UseTradesOptions {
+  seasonId?: string | null;
+  ownerId?: string | null;
+  limit?: number;
+  enabled?: boolean;
+}
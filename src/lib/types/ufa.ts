@@ -43,7 +43,7 @@ export interface UfaOfferView {
   franchiseLogoUrl: string | null;
   years: number;
   salary: number;
-  probability: number;
+  band: UfaStandingBand;
 }
 
 export interface UfaOfferGroupView {
@@ -60,6 +60,8 @@ export interface UfaPublicGroup {
   seasonId: string;
   deadlineAt: number;
   status: string;
+  winningOfferId?: string;
+  resolvedAt?: number;
 }
 
 export interface UfaPublicOffer {
@@ -69,6 +71,7 @@ export interface UfaPublicOffer {
   contractLength: number;
   salary: number;
   status: string;
+  submittedAt: number;
   isMine: boolean;
 }
 
@@ -77,10 +80,153 @@ export interface UfaOfferProbability {
   probability: number;
 }
 
+export interface UfaOfferStandingEntry {
+  offerId: string;
+  band: UfaStandingBand;
+}
+
 export interface UfaPublicState {
   groups: UfaPublicGroup[];
   offers: UfaPublicOffer[];
-  oddsByGroup: Record<string, UfaOfferProbability[]>;
+  // Open groups' offers as standing bands; exact odds stay on the server.
+  standingByGroup: Record<string, UfaOfferStandingEntry[]>;
+}
+
+export interface UfaMyOfferView {
+  id: string;
+  groupId: string;
+  playerName: string;
+  years: number;
+  salary: number;
+  submittedAt: number;
+  deadlineAt: number;
+  groupOffers: Array<Pick<UfaPublicOffer, "id" | "status" | "submittedAt">>;
+  // Terms the franchise could switch to, given its other pending offers.
+  amendableTerms: Array<1 | 2 | 3>;
+}
+
+export interface UfaRecentSigningView {
+  groupId: string;
+  playerName: string;
+  franchiseName: string;
+  years: number;
+  salary: number;
+  resolvedAt: number;
+}
+
+export interface UfaDrawOffer {
+  id: string;
+  franchiseName: string;
+  franchiseLogoUrl: string | null;
+  contractLength: number;
+  salary: number;
+  status: string;
+}
+
+export interface UfaDrawRecord {
+  id: string;
+  playerName: string;
+  status: string;
+  deadlineAt: number;
+  resolvedAt: number | null;
+  seedHash: string | null;
+  revealedSeed: string | null;
+  randomRoll: number | null;
+  odds: UfaOfferProbability[];
+  winningOfferId: string | null;
+  offers: UfaDrawOffer[];
+}
+
+export interface UfaDrawCheck {
+  recomputedHash: string | null;
+  recomputedRoll: number | null;
+  recomputedWinnerId: string | null;
+  hashMatches: boolean | null;
+  rollMatches: boolean | null;
+  winnerMatches: boolean | null;
+}
+
+export interface UfaDrawVerificationData {
+  draw: UfaDrawRecord;
+  // Null until the browser has recomputed the draw.
+  check: UfaDrawCheck | null;
+}
+
+export type UfaStandingBand = "strong" | "even" | "long shot";
+
+export interface UfaOfferStanding {
+  playerId: string;
+  competingOffers: number;
+  currentTerm: number | null;
+  terms: Array<{ years: 1 | 2 | 3; band: UfaStandingBand }>;
+}
+
+export interface UseUfaOfferStandingResult {
+  data: UfaOfferStanding | null | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+export interface UseUfaDrawVerificationResult {
+  data: UfaDrawVerificationData | null | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+export interface UfaDrawVerificationProps {
+  groupId: string;
+}
+
+export interface UfaDrawVerificationRouteProps {
+  params: Promise<{
+    groupId: string;
+  }>;
+}
+
+export type UfaSalaryBandId = "under-1m" | "1m-3m" | "3m-6m" | "6m-plus";
+
+export type UfaDemandLevel = "single offer" | "contested" | "bidding war";
+
+export interface UfaMarketPlayerRow {
+  groupId: string;
+  playerId: string;
+  playerName: string;
+  nhlTeam: string;
+  posGroup: string;
+  positions: string[];
+  salary: number;
+}
+
+export interface UfaMarketOpenRow extends UfaMarketPlayerRow {
+  deadlineAt: number;
+  offerCount: number;
+  lastOfferAt: number;
+  // The viewer's pending term, or null when they have not bid.
+  myTerm: number | null;
+}
+
+export interface UfaMarketSigningRow extends UfaMarketPlayerRow {
+  years: number;
+  offerCount: number;
+  resolvedAt: number;
+}
+
+export interface UfaMarketBoardData {
+  open: UfaMarketOpenRow[];
+  signings: UfaMarketSigningRow[];
+  marketEditionId: string | null;
+}
+
+export interface UfaMarketFilters {
+  posGroup: string;
+  salaryBand: UfaSalaryBandId | "";
+  myOffersOnly: boolean;
+}
+
+export interface UseUfaMarketBoardResult {
+  data: UfaMarketBoardData | undefined;
+  isLoading: boolean;
+  error: Error | null;
 }
 
 export interface UfaOverviewData {
@@ -92,6 +238,8 @@ export interface UfaOverviewData {
   freeAgents: UfaFreeAgentView[];
   topFreeAgents: UfaFreeAgentView[];
   offerGroups: UfaOfferGroupView[];
+  myOffers: UfaMyOfferView[];
+  recentSignings: UfaRecentSigningView[];
   franchises: Franchise[];
   viewer: {
     isSignedInOwner: boolean;
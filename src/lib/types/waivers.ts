@@ -0,0 +1,51 @@
+import type { Player } from "./database";
+
+export type WaiverStatus = "active" | "claimed" | "cleared";
+
+export type WaiverClaimStatus = "pending" | "awarded" | "lost" | "cancelled";
+
+/** A dropped player sitting on rule 3.1 waivers. */
+export interface Waiver {
+  id: string;
+  seasonId: string;
+  playerId: string;
+  droppedByOwnerId: string;
+  droppedAt: string;
+  clearsAt: string;
+  status: WaiverStatus;
+  awardedOwnerId?: string | null;
+  processedAt?: string | null;
+}
+
+export interface WaiverClaim {
+  id: string;
+  waiverId: string;
+  seasonId: string;
+  playerId: string;
+  ownerId: string;
+  status: WaiverClaimStatus;
+  createdAt: string;
+}
+
+export interface WaiverPriorityEntry {
+  ownerId: string;
+  rank: number;
+}
+
+export interface WaiverWire {
+  seasonId: string;
+  waivers: Waiver[];
+  priority: WaiverPriorityEntry[];
+}
+
+export interface UseWaiversOptions {
+  seasonId?: string;
+  enabled?: boolean;
+}
+
+/** A waived player on the free-agency list with the viewer's claim, if any. */
+export interface WaiverWireRow {
+  waiver: Waiver;
+  player: Player | null;
+  claim: WaiverClaim | null;
+}
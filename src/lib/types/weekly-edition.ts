@@ -1,3 +1,5 @@
+import type { SigningPeriodSchedule } from "./contracts";
+
 export type WeeklyEditionGenerationMode =
   | "template"
   | "chatgpt_import"
@@ -11,7 +13,8 @@ export type WeeklyEditionIssueType =
   | "resigning_outlook"
   | "offseason_market"
   | "pre_draft"
-  | "preseason";
+  | "preseason"
+  | "trade_deadline";
 
 export type WeeklyEditionSectionKind =
   | "primary_article"
@@ -393,6 +396,7 @@ export interface WeeklyEditionMilestoneFacts {
   analysisSeasonName: string;
   analysisSeasonSigningEndDate?: string;
   analysisSeasonDraftStartAt?: string;
+  regularSeasonEndDate?: string;
   salaryCap: number;
   teamOutlooks: WeeklyEditionTeamOutlookFact[];
   expiringContracts: WeeklyEditionContractFact[];
@@ -522,6 +526,8 @@ export interface BuildMilestoneEditionFactPacketInput {
   buyoutCharges?: WeeklyEditionBuyoutFact[];
   gmRankings?: WeeklyEditionGmRankingFact[];
   draftPicks: WeeklyEditionDraftPickFact[];
+  activity?: WeeklyEditionActivityFact[];
+  regularSeasonEndDate?: string;
   editorialCandidates?: WeeklyEditionEditorialCandidate[];
 }
 
@@ -569,6 +575,9 @@ export interface WeeklyEditionMilestoneScheduleInput {
   finalWeekEnd: string;
   signingEndDate?: string;
   draftStartAt?: string;
+  tradeDeadline?: string | null;
+  /** Rule 9.8 windows; the offseason market issue follows the Late window. */
+  signingPeriods?: SigningPeriodSchedule[];
 }
 
 export interface WeeklyEditionMilestoneScheduleEntry {
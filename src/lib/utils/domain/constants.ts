@@ -63,6 +63,7 @@ export const PlayerPosition = {
 export const EventType = {
   DRAFT: "DRAFT",
   SUMMER_MEETINGS: "MEETINGS",
+  BUYOUT: "BUYOUT",
 } as const satisfies Record<string, EventTypeType>;
 
 export const ContractType = {
@@ -8,11 +8,16 @@ import type {
 } from "@gshl-types";
 import { ContractStatus, ContractType, ResignableStatus } from "./constants";
 import {
+  buildSigningPeriodCalendar,
   checkContractCapSpace,
+  countConsecutiveContracts,
   deriveContractCreationTerms,
   doesContractAffectSeason,
+  getContractEligibility,
   getEffectiveSigningStatus,
   getContractCoveredSeasonIds,
+  getSigningPeriod,
+  getSigningPeriodError,
   hasContractContinuity,
   isUnsignedForSigningSeason,
   isUfaFreeAgencyOpen,
@@ -185,6 +190,67 @@ void test("UFA free agency opens after the signing deadline", () => {
   );
 });
 
+void test("signing periods follow the rule 9.8 calendar", () => {
+  const signingSeason = seasons[1]!;
+  const periodOn = (date: string) =>
+    getSigningPeriod(signingSeason, new Date(`${date}T16:00:00Z`));
+
+  assert.equal(periodOn("2019-12-14"), null);
+  assert.equal(periodOn("2019-12-15"), "early");
+  assert.equal(periodOn("2019-12-31"), "early");
+  assert.equal(periodOn("2020-01-01"), null);
+  assert.equal(periodOn("2020-04-20"), null);
+  assert.equal(periodOn("2020-04-21"), "late");
+  assert.equal(periodOn("2020-06-20"), "late");
+  assert.equal(periodOn("2020-06-21"), "summer");
+});
+
+void test("the signing calendar honours commissioner overrides", () => {
+  const signingSeason = seasons[1]!;
+  const calendar = buildSigningPeriodCalendar({
+    season: signingSeason,
+    overrides: [
+      {
+        period: "late",
+        startAt: Date.parse("2020-05-01T04:00:00.000Z"),
+        endAt: Date.parse("2020-06-21T04:00:00.000Z"),
+        allowedStatuses: [ResignableStatus.RFA],
+      },
+    ],
+  });
+
+  assert.deepEqual(
+    calendar.map((window) => [window.period, window.isOverride]),
+    [
+      ["early", false],
+      ["late", true],
+      ["summer", false],
+    ],
+  );
+  assert.equal(calendar[2]?.endAt, null);
+  assert.equal(
+    getSigningPeriod(signingSeason, new Date("2020-04-25T16:00:00Z"), calendar),
+    null,
+  );
+  assert.equal(
+    getSigningPeriod(signingSeason, new Date("2020-09-13T16:00:00Z"), calendar),
+    "summer",
+  );
+  assert.equal(
+    isUfaFreeAgencyOpen(
+      signingSeason,
+      new Date("2020-06-21T16:00:00Z"),
+      calendar,
+    ),
+    true,
+  );
+  assert.equal(getSigningPeriodError(calendar[1]!, ResignableStatus.RFA), null);
+  assert.equal(
+    getSigningPeriodError(calendar[1]!, ResignableStatus.DRAFT),
+    "DRAFT signings are not allowed during the Late Signing Period, which is open to RFA signings.",
+  );
+});
+
 void test("expired free-agent rows use the expired season's signing deadline", () => {
   const expiredSeason = seasons[1]!;
   const upcomingSeason = seasons[2]!;
@@ -418,3 +484,84 @@ void test("cap checks use actual cap-charge dates and pending reservations", ()
   assert.equal(result.affordable, false);
   assert.equal(result.availableCapSpace, 5_000_000);
 });
+
+void test("contract eligibility follows the RFA and UFA lifecycle", () => {
+  const options = {
+    player: { ...player(ResignableStatus.RFA), ownerId: "owner-1" },
+    signingSeason: seasons[1]!,
+    contracts: [contract()],
+    seasons,
+  };
+
+  const late = getContractEligibility({
+    ...options,
+    referenceDate: new Date("2020-05-01T16:00:00Z"),
+  });
+  assert.equal(late.status, ResignableStatus.RFA);
+  assert.equal(late.canSign, true);
+  assert.equal(late.rightsOwnerId, "owner-1");
+  assert.equal(late.consecutiveContracts, 1);
+  assert.equal(late.expiringContractId, "contract-1");
+
+  const summer = getContractEligibility({
+    ...options,
+    referenceDate: new Date("2020-07-01T16:00:00Z"),
+  });
+  assert.equal(summer.status, ResignableStatus.UFA);
+  assert.equal(summer.rightsOwnerId, null);
+
+  const rostered = getContractEligibility({
+    ...options,
+    contracts: [],
+    referenceDate: new Date("2020-05-01T16:00:00Z"),
+  });
+  assert.equal(rostered.status, ResignableStatus.DRAFT);
+  assert.equal(rostered.canSign, true);
+  assert.equal(rostered.consecutiveContracts, 0);
+
+  const unrostered = getContractEligibility({
+    ...options,
+    player: { ...options.player, ownerId: null },
+    contracts: [],
+    referenceDate: new Date("2020-05-01T16:00:00Z"),
+  });
+  assert.equal(unrostered.status, null);
+  assert.equal(unrostered.canSign, false);
+});
+
+void test("a second consecutive contract sends the player back to the draft", () => {
+  const first = contract();
+  const second = contract({
+    id: "contract-2",
+    seasonId: "6",
+    contractType: [ContractType.EXTENSION],
+    signingStatus: ContractStatus.RFA,
+    startDate: "2020-10-01",
+    expiryDate: "2021-04-20",
+    capHitEndDate: "2021-04-20",
+  });
+
+  assert.equal(countConsecutiveContracts(second, [first, second], seasons), 2);
+  assert.equal(
+    countConsecutiveContracts(
+      { ...second, signingStatus: ContractStatus.DRAFTED },
+      [first, second],
+      seasons,
+    ),
+    1,
+  );
+
+  for (const referenceDate of ["2021-05-01", "2021-07-01"]) {
+    const eligibility = getContractEligibility({
+      player: { ...player(ResignableStatus.RFA), ownerId: "owner-1" },
+      signingSeason: seasons[2]!,
+      contracts: [first, second],
+      seasons,
+      referenceDate: new Date(`${referenceDate}T16:00:00Z`),
+    });
+    assert.equal(eligibility.status, ResignableStatus.DRAFT);
+    assert.equal(eligibility.canSign, false);
+    assert.equal(eligibility.consecutiveContracts, 2);
+    assert.match(eligibility.reason, /GSHL Draft pool/);
+  }
+});
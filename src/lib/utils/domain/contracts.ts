@@ -9,12 +9,16 @@ import type {
   ContractFilters,
   ContractCapCheck,
   ContractCreationTerms,
+  ContractEligibility,
   ContractSortOption,
   ContractSummary,
   MaybeArray,
   Player,
   ResignableStatus as ResignableStatusType,
   Season,
+  SigningPeriod,
+  SigningPeriodSchedule,
+  SigningPeriodWindow,
 } from "@gshl-types";
 import {
   ContractStatus,
@@ -52,17 +56,209 @@ export function getTorontoDate(referenceDate: Date = new Date()): string {
   return `${value("year")}-${value("month")}-${value("day")}`;
 }
 
-/** Free agency opens on the first Toronto date after the signing deadline. */
+/** Shifts a date key by whole calendar days. */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T12:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the instant a league-local date ends.
+ *
+ * @param dateKey - The Toronto date.
+ * @returns Epoch milliseconds at the following Toronto midnight.
+ */
+export function getTorontoDateEnd(dateKey: string): number | null {
+  const normalized = normalizeDateOnlyValue(dateKey);
+  if (!normalized) return null;
+  const nextDate = shiftDateKey(normalized, 1);
+  const utcMidnight = Date.parse(`${nextDate}T00:00:00.000Z`);
+  // Toronto midnight falls four or five hours after UTC midnight.
+  for (const offsetHours of [4, 5]) {
+    const candidate = utcMidnight + offsetHours * 60 * 60 * 1000;
+    if (
+      getTorontoDate(new Date(candidate)) === nextDate &&
+      getTorontoDate(new Date(candidate - 1)) === normalized
+    ) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/** Returns the instant a league-local date begins. */
+export function getTorontoDateStart(dateKey: string): number | null {
+  const normalized = normalizeDateOnlyValue(dateKey);
+  return normalized ? getTorontoDateEnd(shiftDateKey(normalized, -1)) : null;
+}
+
+export const SIGNING_PERIOD_LABELS: Record<SigningPeriod, string> = {
+  early: "Early Signing Period",
+  late: "Late Signing Period",
+  summer: "Summer Free Agency",
+};
+
+/** Rule 9.8: teams sign their own players early and late, UFAs in summer. */
+export const DEFAULT_SIGNING_PERIOD_STATUSES: Record<
+  SigningPeriod,
+  ResignableStatusType[]
+> = {
+  early: [ResignableStatus.DRAFT, ResignableStatus.RFA],
+  late: [ResignableStatus.DRAFT, ResignableStatus.RFA],
+  summer: [ResignableStatus.UFA],
+};
+
+/**
+ * Builds a season's rule 9.8 signing calendar.
+ *
+ * Without a commissioner override, the Early period runs December 15–31 of
+ * the signing season, the Late period from the day after the GSHL season ends
+ * through the signing deadline, and Summer Free Agency from the day after
+ * that deadline until the commissioner closes it.
+ */
+export function buildSigningPeriodCalendar(options: {
+  season: Pick<Season, "startDate" | "endDate" | "signingEndDate"> &
+    Partial<Pick<Season, "id">>;
+  overrides?: SigningPeriodSchedule[];
+}): SigningPeriodWindow[] {
+  const { season, overrides = [] } = options;
+  const seasonStart = normalizeDateOnlyValue(season.startDate);
+  const seasonEnd = normalizeDateOnlyValue(season.endDate);
+  const signingEndDate = normalizeDateOnlyValue(season.signingEndDate);
+  const defaults: SigningPeriodSchedule[] = [];
+  const earlyStart = seasonStart
+    ? getTorontoDateStart(`${seasonStart.slice(0, 4)}-12-15`)
+    : null;
+  const earlyEnd = seasonStart
+    ? getTorontoDateEnd(`${seasonStart.slice(0, 4)}-12-31`)
+    : null;
+  if (earlyStart !== null && earlyEnd !== null) {
+    defaults.push({
+      period: "early",
+      startAt: earlyStart,
+      endAt: earlyEnd,
+      allowedStatuses: DEFAULT_SIGNING_PERIOD_STATUSES.early,
+    });
+  }
+  const signingEndAt = signingEndDate
+    ? getTorontoDateEnd(signingEndDate)
+    : null;
+  const lateStart = seasonEnd ? getTorontoDateEnd(seasonEnd) : null;
+  if (lateStart !== null && signingEndAt !== null) {
+    defaults.push({
+      period: "late",
+      startAt: lateStart,
+      endAt: signingEndAt,
+      allowedStatuses: DEFAULT_SIGNING_PERIOD_STATUSES.late,
+    });
+  }
+  if (signingEndAt !== null) {
+    defaults.push({
+      period: "summer",
+      startAt: signingEndAt,
+      endAt: null,
+      allowedStatuses: DEFAULT_SIGNING_PERIOD_STATUSES.summer,
+    });
+  }
+
+  const overridden = new Map(
+    overrides.map((override) => [override.period, override]),
+  );
+  return (["early", "late", "summer"] as const)
+    .flatMap((period) => {
+      const override = overridden.get(period);
+      const schedule =
+        override ?? defaults.find((entry) => entry.period === period);
+      return schedule
+        ? [
+            {
+              ...schedule,
+              seasonId: String(season.id ?? ""),
+              label: SIGNING_PERIOD_LABELS[period],
+              isOverride: Boolean(override),
+            },
+          ]
+        : [];
+    })
+    .sort((left, right) => left.startAt - right.startAt);
+}
+
+/** Returns the signing window open at a moment, if any. */
+export function findSigningPeriodWindow(
+  calendar: SigningPeriodWindow[],
+  referenceDate: Date = new Date(),
+): SigningPeriodWindow | null {
+  const now = referenceDate.getTime();
+  return (
+    calendar.find(
+      (window) =>
+        window.startAt <= now && (window.endAt === null || now < window.endAt),
+    ) ?? null
+  );
+}
+
+/** Returns the first and last Toronto dates a signing window covers. */
+export function getSigningPeriodDateRange(
+  window: Pick<SigningPeriodSchedule, "startAt" | "endAt">,
+): { startDate: string; endDate: string | null } {
+  return {
+    startDate: getTorontoDate(new Date(window.startAt)),
+    endDate:
+      window.endAt === null ? null : getTorontoDate(new Date(window.endAt - 1)),
+  };
+}
+
+/**
+ * Explains why a signing with the given status cannot happen right now, or
+ * returns null when the open window allows it.
+ */
+export function getSigningPeriodError(
+  window: SigningPeriodWindow | null,
+  status: ResignableStatusType,
+): string | null {
+  if (!window) return "No signing period is open.";
+  if (window.allowedStatuses.includes(status)) return null;
+  const allowed = window.allowedStatuses.join(", ");
+  return `${status} signings are not allowed during the ${window.label}${allowed ? `, which is open to ${allowed} signings` : ""}.`;
+}
+
+/**
+ * Free agency opens when Summer Free Agency starts, the first Toronto date
+ * after the signing deadline unless the calendar says otherwise.
+ */
 export function isUfaFreeAgencyOpen(
   signingSeason: Pick<Season, "signingEndDate"> | null | undefined,
   referenceDate: Date = new Date(),
+  calendar?: SigningPeriodWindow[],
 ): boolean {
+  if (calendar) {
+    const summer = calendar.find((window) => window.period === "summer");
+    return Boolean(summer && summer.startAt <= referenceDate.getTime());
+  }
   const signingEndDate = normalizeDateOnlyValue(signingSeason?.signingEndDate);
   return Boolean(
     signingEndDate && getTorontoDate(referenceDate) > signingEndDate,
   );
 }
 
+/** Resolves the rule 9.8 signing period open at a moment. */
+export function getSigningPeriod(
+  signingSeason:
+    | Pick<Season, "startDate" | "endDate" | "signingEndDate">
+    | null
+    | undefined,
+  referenceDate: Date = new Date(),
+  calendar?: SigningPeriodWindow[],
+): SigningPeriod | null {
+  const windows =
+    calendar ??
+    (signingSeason
+      ? buildSigningPeriodCalendar({ season: signingSeason })
+      : []);
+  return findSigningPeriodWindow(windows, referenceDate)?.period ?? null;
+}
+
 /**
  * Returns whether an expired RFA/UFA contract is still visible during the
  * signing period for the season in which it expired.
@@ -179,6 +375,21 @@ function reservedCapForSeason(
   return Number.isFinite(value) ? value : 0;
 }
 
+/** Sums the cap hits an owner's contracts charge against one season. */
+export function getCommittedCapHit(
+  ownerId: string,
+  season: Season,
+  contracts: Contract[],
+  seasons: Season[],
+): number {
+  return contracts.reduce((total, contract) => {
+    if (String(contract.ownerId) !== String(ownerId)) return total;
+    if (!doesContractAffectSeason(contract, season, seasons)) return total;
+    const capHit = Number(contract.capHit ?? contract.contractSalary ?? 0);
+    return total + (Number.isFinite(capHit) ? capHit : 0);
+  }, 0);
+}
+
 /** Checks a proposed contract against an owner's cap in every covered season. */
 export function checkContractCapSpace(options: {
   ownerId: string;
@@ -212,14 +423,9 @@ export function checkContractCapSpace(options: {
     const season = seasons.find(
       (candidate) => String(candidate.id) === seasonId,
     );
-    const committed = contracts.reduce((total, contract) => {
-      if (String(contract.ownerId) !== String(ownerId)) return total;
-      if (!season || !doesContractAffectSeason(contract, season, seasons)) {
-        return total;
-      }
-      const capHit = Number(contract.capHit ?? contract.contractSalary ?? 0);
-      return total + (Number.isFinite(capHit) ? capHit : 0);
-    }, 0);
+    const committed = season
+      ? getCommittedCapHit(ownerId, season, contracts, seasons)
+      : 0;
     const seasonCapSpace =
       salaryCap -
       committed -
@@ -321,6 +527,189 @@ export function isUnsignedForSigningSeason(
   );
 }
 
+/**
+ * Resolves the season a contract expires in. The expiry date is authoritative;
+ * legacy season/length coverage is retained as a fallback.
+ */
+function getContractExpirySeasonId(
+  contract: Pick<Contract, "seasonId" | "contractLength" | "expiryDate">,
+  seasons: Season[],
+): string | null {
+  const expiryDate = normalizeDateOnlyValue(contract.expiryDate);
+  const season = expiryDate
+    ? seasons.find((candidate) => {
+        const start = normalizeDateOnlyValue(candidate.startDate);
+        const end = normalizeDateOnlyValue(candidate.endDate);
+        return Boolean(
+          start && end && expiryDate >= start && expiryDate <= end,
+        );
+      })
+    : undefined;
+  return season
+    ? String(season.id)
+    : (getContractCoveredSeasonIds(contract, seasons).at(-1) ?? null);
+}
+
+/**
+ * Counts the unbroken run of playing contracts that ends with `contract`.
+ *
+ * A contract continues the run when the previous playing contract expired in
+ * the season it was signed. A drafted contract always starts a new run, since
+ * rule 9.9 sends players back through the draft to reset the limit.
+ */
+export function countConsecutiveContracts(
+  contract: Contract,
+  contracts: Contract[],
+  seasons: Season[],
+): number {
+  const seen = new Set([String(contract.id)]);
+  let current = contract;
+  let count = 1;
+  while (String(current.signingStatus) !== String(ContractStatus.DRAFTED)) {
+    const signingSeasonId = String(current.seasonId);
+    const previous = contracts.find(
+      (candidate) =>
+        !seen.has(String(candidate.id)) &&
+        String(candidate.playerId) === String(contract.playerId) &&
+        isPlayingContract(candidate) &&
+        getContractExpirySeasonId(candidate, seasons) === signingSeasonId,
+    );
+    if (!previous) break;
+    seen.add(String(previous.id));
+    current = previous;
+    count += 1;
+  }
+  return count;
+}
+
+/**
+ * Reports whether a player can sign a contract in a signing season, under
+ * which status, and why.
+ *
+ * This is the single source of truth for rules 9.9, 9.10 and 9.12: a player
+ * coming off a first contract is an RFA of the holding owner, a player coming
+ * off a second consecutive contract returns to the draft pool, a rostered
+ * player without a contract may sign a first contract with the rostering
+ * owner, and once the signing period ends every other unsigned player is a UFA.
+ */
+export function getContractEligibility(options: {
+  player: Pick<Player, "id" | "fullName" | "ownerId">;
+  signingSeason: Season;
+  contracts: Contract[];
+  seasons: Season[];
+  signingPeriods?: SigningPeriodWindow[];
+  referenceDate?: Date;
+}): ContractEligibility {
+  const {
+    player,
+    signingSeason,
+    contracts,
+    seasons,
+    signingPeriods,
+    referenceDate = new Date(),
+  } = options;
+  const playerId = String(player.id);
+  const signingSeasonId = String(signingSeason.id);
+  const ordered = orderContractSeasons(seasons);
+  const signingIndex = ordered.findIndex(
+    (season) => String(season.id) === signingSeasonId,
+  );
+  const playingContracts = contracts.filter(
+    (contract) =>
+      String(contract.playerId) === playerId && isPlayingContract(contract),
+  );
+  const lastCoveredIndex = (contract: Contract) =>
+    ordered.findIndex(
+      (season) =>
+        String(season.id) === getContractExpirySeasonId(contract, ordered),
+    );
+  const latestContract =
+    playingContracts
+      .filter((contract) => lastCoveredIndex(contract) >= signingIndex)
+      .sort((a, b) => lastCoveredIndex(b) - lastCoveredIndex(a))[0] ?? null;
+  const expiringContract =
+    playingContracts.find(
+      (contract) => lastCoveredIndex(contract) === signingIndex,
+    ) ?? null;
+  const isUnderContract = !isUnsignedForSigningSeason(
+    playerId,
+    signingSeasonId,
+    contracts,
+    ordered,
+  );
+  const result = (
+    status: ContractEligibility["status"],
+    reason: string,
+    rightsOwnerId: string | null = null,
+  ): ContractEligibility => ({
+    playerId,
+    status,
+    canSign:
+      status !== null &&
+      !(status === ResignableStatus.DRAFT && expiringContract !== null),
+    isUnderContract,
+    consecutiveContracts: latestContract
+      ? countConsecutiveContracts(latestContract, contracts, ordered)
+      : 0,
+    expiringContractId: expiringContract ? String(expiringContract.id) : null,
+    rightsOwnerId,
+    reason,
+  });
+
+  if (isUnderContract) {
+    return result(
+      null,
+      `${player.fullName} is already under contract beyond ${signingSeason.name}.`,
+    );
+  }
+
+  const freeAgencyOpen = isUfaFreeAgencyOpen(
+    signingSeason,
+    referenceDate,
+    signingPeriods,
+  );
+  if (expiringContract) {
+    if (
+      countConsecutiveContracts(expiringContract, contracts, ordered) >= 2 ||
+      String(expiringContract.expiryStatus) === String(ContractStatus.UFA)
+    ) {
+      return result(
+        ResignableStatus.DRAFT,
+        `${player.fullName} is coming off a second consecutive contract and must return to the GSHL Draft pool.`,
+      );
+    }
+    if (freeAgencyOpen) {
+      return result(
+        ResignableStatus.UFA,
+        `${player.fullName} was not re-signed before the signing deadline and is a UFA.`,
+      );
+    }
+    return result(
+      ResignableStatus.RFA,
+      `${player.fullName} is coming off a first contract and is an RFA of the owner holding it.`,
+      String(expiringContract.ownerId),
+    );
+  }
+
+  if (freeAgencyOpen) {
+    return result(
+      ResignableStatus.UFA,
+      `${player.fullName} is not under contract and is a UFA.`,
+    );
+  }
+  if (player.ownerId) {
+    return result(
+      ResignableStatus.DRAFT,
+      `${player.fullName} is rostered without a contract and may sign a first contract with the rostering owner.`,
+      String(player.ownerId),
+    );
+  }
+  return result(
+    null,
+    `${player.fullName} is not on a GSHL roster and becomes a UFA when Summer Free Agency opens.`,
+  );
+}
+
 /**
  * Resolves the only signing status a player may use at the current point in
  * the calendar. Once the signing period ends, every unsigned player is a UFA
@@ -2,8 +2,10 @@ import assert from "node:assert/strict";
 import test from "node:test";
 
 import type { Season } from "@gshl-types";
+import { getTorontoDateEnd } from "./contracts";
 import {
   buildSeasonSummaries,
+  getTradeDeadlineStatus,
   isSeasonPickable,
   SEASON_PICKER_ADVANCE_DAYS,
 } from "./season";
@@ -67,3 +69,76 @@ void test("season picker summaries exclude sentinel and too-early seasons", () =
     ["past", "soon"],
   );
 });
+
+const deadlineWeeks = [
+  { isPlayoffs: false, endDate: "2026-03-22" },
+  { isPlayoffs: false, endDate: "2026-03-29" },
+  { isPlayoffs: true, endDate: "2026-04-12" },
+];
+
+void test("the trade deadline falls 2.5 weeks before the regular season ends", () => {
+  const status = getTradeDeadlineStatus(
+    { id: "7", endDate: "2026-04-12" },
+    deadlineWeeks,
+    new Date("2026-03-12T16:00:00.000Z"),
+  );
+
+  assert.equal(status.regularSeasonEndDate, "2026-03-29");
+  assert.equal(status.deadline, "2026-03-12");
+  assert.equal(status.isOverride, false);
+  assert.equal(status.isClosed, false);
+  assert.equal(status.deadlineAt, Date.parse("2026-03-13T04:00:00.000Z"));
+  assert.equal(
+    getTradeDeadlineStatus(
+      { id: "7", endDate: "2026-04-12" },
+      deadlineWeeks,
+      new Date("2026-03-13T04:00:00.000Z"),
+    ).isClosed,
+    true,
+  );
+});
+
+void test("a published trade deadline overrides the derived date", () => {
+  const status = getTradeDeadlineStatus(
+    { id: "7", endDate: "2026-04-12", tradeDeadlineDate: "2026-03-10" },
+    deadlineWeeks,
+    new Date("2026-03-11T16:00:00.000Z"),
+  );
+
+  assert.equal(status.deadline, "2026-03-10");
+  assert.equal(status.isOverride, true);
+  assert.equal(status.isClosed, true);
+});
+
+void test("trades reopen once the season ends", () => {
+  const season = { id: "7", endDate: "2026-04-12" };
+
+  assert.equal(
+    getTradeDeadlineStatus(
+      season,
+      deadlineWeeks,
+      new Date("2026-04-12T20:00:00.000Z"),
+    ).isClosed,
+    true,
+  );
+  assert.equal(
+    getTradeDeadlineStatus(
+      season,
+      deadlineWeeks,
+      new Date("2026-04-13T20:00:00.000Z"),
+    ).isClosed,
+    false,
+  );
+});
+
+void test("a Toronto date ends at local midnight across daylight time", () => {
+  assert.equal(
+    getTorontoDateEnd("2026-01-15"),
+    Date.parse("2026-01-16T05:00:00.000Z"),
+  );
+  assert.equal(
+    getTorontoDateEnd("2026-07-15"),
+    Date.parse("2026-07-16T04:00:00.000Z"),
+  );
+  assert.equal(getTorontoDateEnd("not a date"), null);
+});
@@ -3,10 +3,16 @@ import type {
   Season,
   SeasonSummary,
   TeamSeasonStatLine,
+  TradeDeadlineStatus,
   Week,
 } from "@gshl-types";
-import { getSeasonString, safeParseSheetDate } from "../core/date";
+import {
+  getSeasonString,
+  normalizeDateOnlyValue,
+  safeParseSheetDate,
+} from "../core/date";
 import { formatRecord } from "../core/format";
+import { getTorontoDate, getTorontoDateEnd, shiftDateKey } from "./contracts";
 
 type SeasonDateInput = Date | string | number | null | undefined;
 
@@ -595,3 +601,78 @@ export function findWeekByDate(
 
   return matchedWeek;
 }
+
+/**
+ * Rule 3.2 puts the deadline 2.5 weeks (17.5 days) before the regular season
+ * ends. Counted back from Toronto midnight at the close of the final
+ * regular-season day, that lands at noon, and the league rounds it up to the
+ * next Toronto midnight: the deadline is the date 17 days earlier and trades
+ * stay open until that date ends.
+ */
+export const TRADE_DEADLINE_DAYS_BEFORE_REGULAR_SEASON_END = Math.floor(
+  2.5 * 7,
+);
+
+/**
+ * Returns the last day of the regular season from the schedule.
+ *
+ * @param weeks - The season's weeks.
+ * @returns The end date of the final non-playoff week, if one exists.
+ */
+export function getRegularSeasonEndDate(
+  weeks: Pick<Week, "isPlayoffs" | "endDate">[],
+): string | null {
+  return weeks.reduce<string | null>((latest, week) => {
+    if (week.isPlayoffs) return latest;
+    const endDate = normalizeDateOnlyValue(week.endDate);
+    return endDate && (!latest || endDate > latest) ? endDate : latest;
+  }, null);
+}
+
+/**
+ * Resolves a season's trade deadline.
+ *
+ * A commissioner-published `tradeDeadlineDate` wins. Otherwise the deadline
+ * is derived from the last regular-season week in the schedule.
+ *
+ * @param season - The season to evaluate.
+ * @param weeks - The season's weeks.
+ * @param referenceDate - The moment to evaluate the trade window at.
+ * @returns The deadline and whether trades are currently frozen.
+ */
+export function getTradeDeadlineStatus(
+  season: Pick<Season, "id" | "endDate" | "tradeDeadlineDate">,
+  weeks: Pick<Week, "isPlayoffs" | "endDate">[],
+  referenceDate: Date = new Date(),
+): TradeDeadlineStatus {
+  const regularSeasonEndDate = getRegularSeasonEndDate(weeks);
+  const override = normalizeDateOnlyValue(season.tradeDeadlineDate);
+  const deadline =
+    override ??
+    (regularSeasonEndDate
+      ? shiftDateKey(
+          regularSeasonEndDate,
+          -TRADE_DEADLINE_DAYS_BEFORE_REGULAR_SEASON_END,
+        )
+      : null);
+  const today = getTorontoDate(referenceDate);
+  const seasonEndDate =
+    normalizeDateOnlyValue(season.endDate) ??
+    weeks.reduce<string | null>((latest, week) => {
+      const endDate = normalizeDateOnlyValue(week.endDate);
+      return endDate && (!latest || endDate > latest) ? endDate : latest;
+    }, null);
+
+  return {
+    seasonId: String(season.id),
+    deadline,
+    deadlineAt: deadline ? getTorontoDateEnd(deadline) : null,
+    regularSeasonEndDate,
+    isOverride: Boolean(override),
+    isClosed: Boolean(
+      deadline &&
+        today > deadline &&
+        (!seasonEndDate || today <= seasonEndDate),
+    ),
+  };
+}
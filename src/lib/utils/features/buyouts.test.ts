@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { Contract, Season } from "@gshl-types";
+import { ContractStatus, ContractType } from "../domain/constants";
+import { planContractBuyout } from "./buyouts";
+
+const seasons = Array.from(
+  { length: 3 },
+  (_, index): Season => ({
+    id: String(index + 5),
+    year: 2020 + index,
+    name: `Season ${index + 5}`,
+    categories: [],
+    rosterSpots: [],
+    startDate: `${2019 + index}-10-01`,
+    endDate: `${2020 + index}-04-20`,
+    signingEndDate: `${2020 + index}-06-20`,
+    isActive: index === 1,
+    usesLegacyTies: false,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  }),
+);
+
+function contract(overrides: Partial<Contract> = {}): Contract {
+  return {
+    id: "contract-1",
+    playerId: "player-1",
+    ownerId: "owner-1",
+    seasonId: "5",
+    contractType: [ContractType.STANDARD],
+    contractLength: 2,
+    contractSalary: 4_000_000,
+    signingDate: "2020-05-01",
+    startDate: "2020-10-01",
+    signingStatus: ContractStatus.DRAFTED,
+    expiryStatus: ContractStatus.RFA,
+    expiryDate: "2022-04-20",
+    capHit: 4_000_000,
+    capHitEndDate: "2022-04-20",
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+const buyoutOptions = {
+  playerId: "player-1",
+  ownerId: "owner-1",
+  seasons,
+  buyoutDate: "2021-01-15",
+};
+
+void test("a buyout halves the cap hit for every remaining contract year", () => {
+  const plan = planContractBuyout({
+    ...buyoutOptions,
+    contracts: [contract()],
+  });
+
+  assert.deepEqual(plan.errors, []);
+  assert.deepEqual(plan.changes, [
+    {
+      contractId: "contract-1",
+      capHit: 2_000_000,
+      capHitEndDate: "2022-04-20",
+      isFinalYear: false,
+    },
+  ]);
+  assert.deepEqual(
+    plan.seasons.map((season) => [
+      season.seasonId,
+      season.currentCapHit,
+      season.buyoutCapHit,
+    ]),
+    [
+      ["6", 4_000_000, 2_000_000],
+      ["7", 4_000_000, 2_000_000],
+    ],
+  );
+});
+
+void test("a final-year buyout carries the charge through the next season", () => {
+  const plan = planContractBuyout({
+    ...buyoutOptions,
+    contracts: [
+      contract({
+        contractLength: 1,
+        expiryDate: "2021-04-20",
+        capHitEndDate: "2021-04-20",
+      }),
+    ],
+  });
+
+  assert.deepEqual(plan.errors, []);
+  assert.equal(plan.changes[0]?.isFinalYear, true);
+  assert.equal(plan.changes[0]?.capHitEndDate, "2022-04-20");
+  assert.deepEqual(
+    plan.seasons.map((season) => [
+      season.seasonId,
+      season.currentCapHit,
+      season.buyoutCapHit,
+    ]),
+    [
+      ["6", 4_000_000, 2_000_000],
+      ["7", 0, 2_000_000],
+    ],
+  );
+});
+
+void test("a final-year buyout needs the following season to exist", () => {
+  const plan = planContractBuyout({
+    ...buyoutOptions,
+    buyoutDate: "2022-01-15",
+    contracts: [contract()],
+  });
+
+  assert.deepEqual(plan.changes, []);
+  assert.deepEqual(plan.errors, [
+    "The season after Season 7 must be configured before a final-year buyout.",
+  ]);
+});
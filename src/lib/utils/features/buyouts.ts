@@ -0,0 +1,152 @@
+import type {
+  Contract,
+  ContractBuyoutChange,
+  ContractBuyoutPlan,
+  ContractBuyoutSeasonPreview,
+  Season,
+} from "@gshl-types";
+import {
+  doesContractAffectSeason,
+  orderContractSeasons,
+} from "../domain/contracts";
+import { normalizeDateOnlyValue } from "../core/date";
+import { getTradeableContracts } from "./trades";
+
+type BuyoutContractSource = Pick<
+  Contract,
+  | "id"
+  | "playerId"
+  | "ownerId"
+  | "seasonId"
+  | "contractType"
+  | "contractLength"
+  | "contractSalary"
+  | "startDate"
+  | "expiryStatus"
+  | "expiryDate"
+  | "capHit"
+  | "capHitEndDate"
+>;
+
+function contractCapHit(contract: Pick<Contract, "capHit" | "contractSalary">) {
+  const capHit = Number(contract.capHit ?? contract.contractSalary ?? 0);
+  return Number.isFinite(capHit) ? capHit : 0;
+}
+
+/**
+ * Projects a rule 9.5 buyout of every live contract an owner holds for a
+ * player.
+ *
+ * Each cap hit is halved and keeps counting through the end of its original
+ * term. A contract bought out in its final year carries the charge through
+ * the following season instead.
+ */
+export function planContractBuyout(options: {
+  playerId: string;
+  ownerId: string;
+  contracts: BuyoutContractSource[];
+  seasons: Season[];
+  buyoutDate: string;
+}): ContractBuyoutPlan {
+  const { playerId, ownerId, seasons, buyoutDate } = options;
+  const ordered = orderContractSeasons(seasons);
+  const errors: string[] = [];
+  const live = getTradeableContracts(
+    playerId,
+    ownerId,
+    options.contracts,
+    buyoutDate,
+  );
+  if (live.length === 0) {
+    errors.push("That player has no live contract with this owner to buy out.");
+  }
+
+  const changes: ContractBuyoutChange[] = [];
+  const charges: Array<{
+    contract: BuyoutContractSource;
+    change: ContractBuyoutChange;
+  }> = [];
+  for (const contract of live) {
+    const remaining = ordered.filter((season) => {
+      const seasonEnd = normalizeDateOnlyValue(season.endDate);
+      return (
+        seasonEnd !== null &&
+        seasonEnd >= buyoutDate &&
+        doesContractAffectSeason(contract, season, seasons)
+      );
+    });
+    const finalSeason = remaining.at(-1);
+    if (!finalSeason) continue;
+    const isFinalYear = remaining.length === 1;
+    const followingSeason = isFinalYear
+      ? ordered[ordered.indexOf(finalSeason) + 1]
+      : undefined;
+    if (isFinalYear && !followingSeason) {
+      errors.push(
+        `The season after ${finalSeason.name} must be configured before a final-year buyout.`,
+      );
+      continue;
+    }
+    const capHitEndDate = normalizeDateOnlyValue(
+      isFinalYear
+        ? followingSeason?.endDate
+        : (contract.capHitEndDate ?? contract.expiryDate),
+    );
+    if (!capHitEndDate) {
+      errors.push("The contract's remaining term could not be determined.");
+      continue;
+    }
+    const change = {
+      contractId: String(contract.id),
+      capHit: Math.round(contractCapHit(contract) / 2),
+      capHitEndDate,
+      isFinalYear,
+    };
+    changes.push(change);
+    charges.push({ contract, change });
+  }
+
+  const seasonPreviews: ContractBuyoutSeasonPreview[] = ordered.flatMap(
+    (season) => {
+      const seasonEnd = normalizeDateOnlyValue(season.endDate);
+      if (!seasonEnd || seasonEnd < buyoutDate) return [];
+      const totals = charges.reduce(
+        (sum, { contract, change }) => ({
+          current:
+            sum.current +
+            (doesContractAffectSeason(contract, season, seasons)
+              ? contractCapHit(contract)
+              : 0),
+          buyout:
+            sum.buyout +
+            (doesContractAffectSeason(
+              { ...contract, capHitEndDate: change.capHitEndDate },
+              season,
+              seasons,
+            )
+              ? change.capHit
+              : 0),
+        }),
+        { current: 0, buyout: 0 },
+      );
+      return totals.current || totals.buyout
+        ? [
+            {
+              seasonId: String(season.id),
+              seasonName: season.name,
+              currentCapHit: totals.current,
+              buyoutCapHit: totals.buyout,
+            },
+          ]
+        : [];
+    },
+  );
+
+  return {
+    playerId: String(playerId),
+    ownerId: String(ownerId),
+    changes: errors.length ? [] : changes,
+    seasons: seasonPreviews,
+    errors,
+  };
+}
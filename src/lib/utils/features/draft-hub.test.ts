@@ -9,9 +9,11 @@ import type {
 import {
   canSubmitDraftPick,
   findLatestCompletedLiveDraftPick,
+  findLatestStartedDraftSeason,
   getDefaultDraftPlayerSortDirection,
   getDraftYear,
   getNextOwnerDraftPickNotice,
+  moveDraftQueuePlayer,
   resolveDraftClockState,
   resolveDraftHubSeason,
   serializeDraftHubPick,
@@ -445,3 +447,28 @@ void test("allows only the active owner before expiry and commissioner after exp
     true,
   );
 });
+
+void test("sweeps only the most recently started draft for auto-picks", () => {
+  const now = Date.parse("2026-09-20T18:00:00.000Z");
+  const seasons = [
+    { id: "2025", draftStartAt: Date.parse("2025-09-21T17:00:00.000Z") },
+    { id: "2026", draftStartAt: Date.parse("2026-09-20T17:00:00.000Z") },
+    { id: "2027", draftStartAt: Date.parse("2027-09-19T17:00:00.000Z") },
+    { id: "none", draftStartAt: null },
+  ];
+
+  assert.equal(findLatestStartedDraftSeason(seasons, now)?.id, "2026");
+  assert.equal(
+    findLatestStartedDraftSeason(seasons, Date.parse("2020-01-01")),
+    undefined,
+  );
+});
+
+void test("reorders a draft queue without dropping players", () => {
+  const queue = ["a", "b", "c", "d"];
+
+  assert.deepEqual(moveDraftQueuePlayer(queue, "c", -1), ["a", "c", "b", "d"]);
+  assert.deepEqual(moveDraftQueuePlayer(queue, "a", -1), queue);
+  assert.deepEqual(moveDraftQueuePlayer(queue, "b", 5), ["a", "c", "d", "b"]);
+  assert.deepEqual(moveDraftQueuePlayer(queue, "z", 1), queue);
+});
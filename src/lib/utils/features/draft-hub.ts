@@ -14,6 +14,7 @@ import { findCurrentSeason, findUpcomingSeason } from "../domain/season";
 
 export const DRAFT_PICK_CLOCK_MS = 4 * 60 * 1000;
 export const ESTIMATED_DRAFT_PICK_MS = 82 * 1000;
+export const DRAFT_QUEUE_LIMIT = 50;
 
 const DRAFT_RANK_SORT_KEYS = new Set<DraftPlayerSortKey>([
   "overallRk",
@@ -332,3 +333,32 @@ export function resolveDraftHubSeason(
   const upcomingSeason = findUpcomingSeason(realSeasons, referenceDate);
   return upcomingSeason?.draftStartAt ? upcomingSeason : undefined;
 }
+
+/** The season whose draft began most recently, ignoring drafts yet to start. */
+export function findLatestStartedDraftSeason<
+  T extends { draftStartAt?: Date | string | number | null },
+>(seasons: readonly T[], now: number): T | undefined {
+  let latest: T | undefined;
+  let latestStart = Number.NEGATIVE_INFINITY;
+  for (const season of seasons) {
+    const start = timestamp(season.draftStartAt);
+    if (start === null || start > now || start <= latestStart) continue;
+    latest = season;
+    latestStart = start;
+  }
+  return latest;
+}
+
+/** Moves a queued player up (negative offset) or down the draft queue. */
+export function moveDraftQueuePlayer(
+  queue: readonly string[],
+  playerId: string,
+  offset: number,
+): string[] {
+  const from = queue.indexOf(playerId);
+  if (from === -1) return [...queue];
+  const to = Math.min(Math.max(from + offset, 0), queue.length - 1);
+  const next = queue.filter((id) => id !== playerId);
+  next.splice(to, 0, playerId);
+  return next;
+}
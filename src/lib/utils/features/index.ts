@@ -10,12 +10,23 @@ export * from "./draft-admin";
 export * from "./draft-hub";
 export * from "./draft-roster-board";
 export * from "./matchup-details";
+export * from "./matchup-scoring";
+export * from "./player-rating-config";
+export * from "./player-rating-engine";
+export * from "./player-rating-history";
+export * from "./power-gm-ladder";
+export * from "./power-rating-engine";
 export * from "./mock-draft";
 export * from "./playoff-bracket";
 export * from "./season-awards";
 
 export * from "./locker-room-header";
 export * from "./league-activity";
+export * from "./buyouts";
+export * from "./rfa-signing";
+export * from "./player-days";
+export * from "./trades";
+export * from "./waivers";
 export * from "./jobs";
 
 export {
@@ -46,6 +57,7 @@ export type {
   TeamInfoProps as StandingsTeamInfoProps,
   PlayoffProbType,
 } from "./standings-container";
+export * from "./standings-engine";
 
 export * from "./team-draft-pick-list";
 export * from "./team-record-book";
@@ -116,6 +128,9 @@ export {
   isValidMatchup,
 } from "./weekly-schedule";
 export * from "./ufa";
+export * from "./ufa-draw";
+export * from "./ufa-market";
+export * from "./ufa-odds";
 export * from "./ufa-state";
 export * from "./weekly-edition";
 export * from "./weekly-edition-brand";
@@ -1,7 +1,14 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 
-import { normalizeJobRuns } from "./jobs";
+import {
+  dailyCronExpression,
+  describeJobScheduleTiming,
+  jobRunProgressPercent,
+  normalizeJobRunDetail,
+  normalizeJobRuns,
+  normalizeJobSchedules,
+} from "./jobs";
 
 void test("normalizes job rows before they reach admin components", () => {
   const runs = normalizeJobRuns([
@@ -22,3 +29,104 @@ void test("normalizes job rows before they reach admin components", () => {
   assert.deepEqual(runs[0]?.progress, { processed: 12, updated: 4 });
   assert.equal(runs[0]?.apply, true);
 });
+
+void test("normalizes schedules with their run history", () => {
+  const [schedule] = normalizeJobSchedules([
+    {
+      id: "schedule-1",
+      name: "Nightly refresh",
+      jobName: "active-season-refresh",
+      args: { seasonId: "season-1" },
+      enabled: true,
+      cron: "0 4 * * *",
+      activeSeasonOnly: true,
+      nextRunAt: "2025-10-08T08:00:00.000Z",
+      runs: [{ id: "job-run-2", status: "succeeded", createdAt: 200 }],
+    },
+  ]);
+
+  assert.equal(schedule?.nextRunAt, Date.parse("2025-10-08T08:00:00.000Z"));
+  assert.equal(schedule?.apply, false);
+  assert.equal(schedule?.runs[0]?.status, "succeeded");
+  assert.ok(schedule);
+  assert.equal(
+    describeJobScheduleTiming(schedule),
+    "Daily at 4:00 AM ET during the active season",
+  );
+});
+
+void test("builds daily cron expressions from Toronto times", () => {
+  assert.equal(dailyCronExpression("04:30"), "30 4 * * *");
+  assert.equal(
+    describeJobScheduleTiming({ cron: "0 16 * * *", activeSeasonOnly: false }),
+    "Daily at 4:00 PM ET",
+  );
+  assert.equal(
+    describeJobScheduleTiming({ intervalMinutes: 15, activeSeasonOnly: false }),
+    "Every 15 min",
+  );
+  assert.throws(() => dailyCronExpression("4am"), /04:00/);
+});
+
+void test("lays pipeline children out under every stage", () => {
+  const detail = normalizeJobRunDetail({
+    run: { id: "parent", jobName: "active-season-refresh", status: "running" },
+    events: [
+      { id: "event-1", level: "warning", message: "Slow page" },
+      { id: "event-2", level: "loud", message: "Unknown level" },
+    ],
+    artifacts: [{ id: "artifact-1", name: "report", url: null }],
+    tasks: [{ id: "task-1", status: "leased", resultChunks: 3 }],
+    children: [
+      {
+        id: "child-1",
+        jobName: "season-stat-aggregation",
+        status: "running",
+        pipelineStage: 1,
+        progress: { processed: 5, total: 20 },
+      },
+      {
+        id: "child-0",
+        jobName: "nhl-daily-stat-sync",
+        status: "succeeded",
+        pipelineStage: 0,
+      },
+    ],
+    pipelineStages: [
+      { id: "nhl-stats", jobName: "nhl-daily-stat-sync", after: [] },
+      {
+        id: "season-stats",
+        jobName: "season-stat-aggregation",
+        after: ["nhl-stats"],
+      },
+      {
+        id: "awards",
+        jobName: "awards-backfill",
+        after: ["season-stats"],
+        condition: "after the season's end date",
+        skipReason: "Runs only after the season's end date",
+      },
+    ],
+  });
+
+  assert.deepEqual(
+    detail?.pipelineStages.map((stage) => stage.run?.id ?? null),
+    ["child-0", "child-1", null],
+  );
+  assert.deepEqual(
+    detail?.events.map((event) => event.level),
+    ["warning", "info"],
+  );
+  assert.deepEqual(detail?.pipelineStages[1]?.after, ["nhl-stats"]);
+  assert.equal(
+    detail?.pipelineStages[2]?.skipReason,
+    "Runs only after the season's end date",
+  );
+  assert.equal(detail?.tasks[0]?.resultChunks, 3);
+  assert.deepEqual(
+    detail?.pipelineStages.map((stage) => jobRunProgressPercent(stage.run)),
+    [100, 25, 0],
+  );
+  assert.equal(jobRunProgressPercent(detail?.run), null);
+  assert.equal(normalizeJobRunDetail(null), null);
+});
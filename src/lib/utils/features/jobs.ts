@@ -1,4 +1,14 @@
-import type { JobRun, JobRunProgress } from "@gshl-types";
+import type {
+  JobArtifact,
+  JobEvent,
+  JobEventLevel,
+  JobExternalTask,
+  JobPipelineStage,
+  JobRun,
+  JobRunDetail,
+  JobRunProgress,
+  JobSchedule,
+} from "@gshl-types";
 import type { Id } from "@gshl-convex/_generated/dataModel";
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -23,12 +33,33 @@ function optionalNumber(value: unknown): number | undefined {
     : undefined;
 }
 
+// Convex public rows carry `*At` fields as ISO strings.
+function optionalTimestamp(value: unknown): number | undefined {
+  if (typeof value === "string" && value) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return optionalNumber(value);
+}
+
+const PROGRESS_FIELDS = [
+  "processed",
+  "inserted",
+  "updated",
+  "deleted",
+  "unchanged",
+  "skipped",
+  "total",
+] as const;
+
 function normalizeProgress(value: unknown): JobRunProgress {
   if (!isRecord(value)) return {};
-  return {
-    processed: optionalNumber(value.processed),
-    updated: optionalNumber(value.updated),
-  };
+  const progress: JobRunProgress = {};
+  for (const field of PROGRESS_FIELDS) {
+    const count = optionalNumber(value[field]);
+    if (count !== undefined) progress[field] = count;
+  }
+  return progress;
 }
 
 export function normalizeJobRuns(value: unknown): JobRun[] {
@@ -49,9 +80,198 @@ export function normalizeJobRuns(value: unknown): JobRun[] {
         status: stringValue(run.status),
         progress: normalizeProgress(run.progress),
         ...(error ? { error } : {}),
-        startedAt: optionalNumber(run.startedAt),
-        createdAt: optionalNumber(run.createdAt),
+        pipelineStage: optionalNumber(run.pipelineStage),
+        startedAt: optionalTimestamp(run.startedAt),
+        createdAt: optionalTimestamp(run.createdAt),
+        heartbeatAt: optionalTimestamp(run.heartbeatAt),
+        finishedAt: optionalTimestamp(run.finishedAt),
       },
     ];
   });
 }
+
+function isJobScheduleId(value: unknown): value is Id<"jobSchedules"> {
+  return typeof value === "string" && value.length > 0;
+}
+
+export function normalizeJobSchedules(value: unknown): JobSchedule[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .flatMap((schedule) => {
+      if (!isRecord(schedule)) return [];
+      const id = schedule.id ?? schedule._id;
+      if (!isJobScheduleId(id)) return [];
+      const cron = stringValue(schedule.cron);
+      const intervalMinutes = optionalNumber(schedule.intervalMinutes);
+      return [
+        {
+          id,
+          name: stringValue(schedule.name),
+          jobName: stringValue(schedule.jobName),
+          args: isRecord(schedule.args)
+            ? Object.fromEntries(
+                Object.entries(schedule.args).map(([key, entry]) => [
+                  key,
+                  stringValue(entry),
+                ]),
+              )
+            : {},
+          apply: schedule.apply === true,
+          enabled: schedule.enabled === true,
+          ...(cron ? { cron } : {}),
+          ...(intervalMinutes === undefined ? {} : { intervalMinutes }),
+          activeSeasonOnly: schedule.activeSeasonOnly === true,
+          nextRunAt: optionalTimestamp(schedule.nextRunAt),
+          lastRunAt: optionalTimestamp(schedule.lastRunAt),
+          runs: normalizeJobRuns(schedule.runs),
+        },
+      ];
+    })
+    .sort((left, right) => left.name.localeCompare(right.name));
+}
+
+/** Builds the cron expression for a daily run at a Toronto `HH:MM` time. */
+export function dailyCronExpression(time: string): string {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) throw new Error("Use a time like 04:00");
+  return `${Number(match[2])} ${Number(match[1])} * * *`;
+}
+
+/** Summarizes when a schedule runs, e.g. "Daily at 4:00 AM ET". */
+export function describeJobScheduleTiming(
+  schedule: Pick<JobSchedule, "cron" | "intervalMinutes" | "activeSeasonOnly">,
+): string {
+  const suffix = schedule.activeSeasonOnly ? " during the active season" : "";
+  if (schedule.intervalMinutes !== undefined) {
+    return `Every ${schedule.intervalMinutes} min${suffix}`;
+  }
+  if (!schedule.cron) return "Unscheduled";
+  const daily = /^(\d{1,2}) (\d{1,2}) \* \* \*$/.exec(schedule.cron);
+  if (!daily) return `Cron ${schedule.cron} (ET)${suffix}`;
+  const hour = Number(daily[2]);
+  const minute = String(Number(daily[1])).padStart(2, "0");
+  const period = hour < 12 ? "AM" : "PM";
+  return `Daily at ${hour % 12 || 12}:${minute} ${period} ET${suffix}`;
+}
+
+const JOB_EVENT_LEVELS = new Set<string>(["debug", "info", "warning", "error"]);
+
+function rowId(row: Record<string, unknown>): string | null {
+  const id = row.id ?? row._id;
+  return typeof id === "string" && id ? id : null;
+}
+
+function normalizeJobEvents(value: unknown): JobEvent[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((event) => {
+    if (!isRecord(event)) return [];
+    const id = rowId(event);
+    if (!id) return [];
+    const level = stringValue(event.level);
+    return [
+      {
+        id: id as Id<"jobEvents">,
+        level: (JOB_EVENT_LEVELS.has(level) ? level : "info") as JobEventLevel,
+        message: stringValue(event.message),
+        ...(event.data === undefined ? {} : { data: event.data }),
+        createdAt: optionalTimestamp(event.createdAt),
+      },
+    ];
+  });
+}
+
+function normalizeJobArtifacts(value: unknown): JobArtifact[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((artifact) => {
+    if (!isRecord(artifact)) return [];
+    const id = rowId(artifact);
+    if (!id) return [];
+    const contentType = stringValue(artifact.contentType);
+    return [
+      {
+        id: id as Id<"jobArtifacts">,
+        kind: stringValue(artifact.kind),
+        name: stringValue(artifact.name),
+        ...(contentType ? { contentType } : {}),
+        url: stringValue(artifact.url) || null,
+        createdAt: optionalTimestamp(artifact.createdAt),
+      },
+    ];
+  });
+}
+
+function normalizeJobExternalTasks(value: unknown): JobExternalTask[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((task) => {
+    if (!isRecord(task)) return [];
+    const id = rowId(task);
+    if (!id) return [];
+    const leaseOwner = stringValue(task.leaseOwner);
+    const error = stringValue(task.error);
+    return [
+      {
+        id: id as Id<"externalTasks">,
+        kind: stringValue(task.kind),
+        status: stringValue(task.status),
+        ...(leaseOwner ? { leaseOwner } : {}),
+        leaseExpiresAt: optionalTimestamp(task.leaseExpiresAt),
+        heartbeatAt: optionalTimestamp(task.heartbeatAt),
+        resultChunks: optionalNumber(task.resultChunks) ?? 0,
+        ...(error ? { error } : {}),
+        createdAt: optionalTimestamp(task.createdAt),
+        updatedAt: optionalTimestamp(task.updatedAt),
+      },
+    ];
+  });
+}
+
+/**
+ * Normalizes a run's inspector payload. Pipeline runs list every stage of
+ * the pipeline, with the child run that ran it once the stage has started.
+ */
+export function normalizeJobRunDetail(value: unknown): JobRunDetail | null {
+  if (!isRecord(value)) return null;
+  const [run] = normalizeJobRuns([value.run]);
+  if (!run) return null;
+  const children = normalizeJobRuns(value.children);
+  const stages = Array.isArray(value.pipelineStages)
+    ? value.pipelineStages.filter(isRecord)
+    : [];
+  const pipelineStages: JobPipelineStage[] = stages.map((entry, stage) => {
+    const condition = stringValue(entry.condition);
+    const skipReason = stringValue(entry.skipReason);
+    const child = children.find((run) => run.pipelineStage === stage);
+    return {
+      stage,
+      id: stringValue(entry.id),
+      jobName: stringValue(entry.jobName),
+      after: Array.isArray(entry.after) ? entry.after.map(stringValue) : [],
+      ...(condition ? { condition } : {}),
+      ...(skipReason ? { skipReason } : {}),
+      ...(child ? { run: child } : {}),
+    };
+  });
+  return {
+    run,
+    events: normalizeJobEvents(value.events),
+    artifacts: normalizeJobArtifacts(value.artifacts),
+    tasks: normalizeJobExternalTasks(value.tasks),
+    children,
+    pipelineStages,
+  };
+}
+
+/**
+ * Returns how far a run has got as a percentage, or null while a running job
+ * has not reported a total to measure against.
+ */
+export function jobRunProgressPercent(run: JobRun | undefined): number | null {
+  if (!run) return 0;
+  if (run.status === "succeeded") return 100;
+  const { processed, total } = run.progress;
+  if (total && total > 0) {
+    return Math.min(100, Math.round(((processed ?? 0) / total) * 100));
+  }
+  return run.status === "queued" ? 0 : null;
+}
@@ -162,3 +162,111 @@ void test("does not infer drops when today's team snapshot is missing", () => {
     false,
   );
 });
+
+void test("records each ledger trade asset with its sending team", () => {
+  const activity = buildLeagueActivity({
+    players,
+    franchises,
+    teams,
+    contracts: [],
+    playerDays: [],
+    trades: [
+      {
+        id: "tr1",
+        seasonId: "s1",
+        executedAt: "2026-01-03T17:00:00.000Z",
+        assets: [
+          {
+            kind: "player",
+            fromOwnerId: "o1",
+            toOwnerId: "o2",
+            playerId: "p1",
+          },
+          {
+            kind: "draftPick",
+            fromOwnerId: "o2",
+            toOwnerId: "o1",
+            draftPickId: "dp1",
+          },
+        ],
+      },
+    ],
+    draftPicks: [{ id: "dp1", seasonId: "s2", round: "1", pick: "" }],
+    seasons: [{ id: "s2", name: "2027" }],
+  });
+
+  assert.deepEqual(
+    activity.map((event) => [
+      event.type,
+      event.date,
+      event.playerName,
+      event.teamName,
+      event.fromTeamName,
+    ]),
+    [
+      [
+        "trade",
+        "2026-01-03",
+        "2027 Round 1 pick",
+        "Toronto Testers",
+        "Missing Scrape",
+      ],
+      [
+        "trade",
+        "2026-01-03",
+        "Player One",
+        "Missing Scrape",
+        "Toronto Testers",
+      ],
+    ],
+  );
+});
+
+void test("reports awarded waiver claims and skips players who cleared", () => {
+  const activity = buildLeagueActivity({
+    players,
+    franchises,
+    teams,
+    contracts: [],
+    playerDays: [],
+    waivers: [
+      {
+        id: "w1",
+        seasonId: "s1",
+        playerId: "p2",
+        droppedByOwnerId: "o1",
+        status: "claimed",
+        awardedOwnerId: "o2",
+        processedAt: "2026-01-08T05:05:00.000Z",
+      },
+      {
+        id: "w2",
+        seasonId: "s1",
+        playerId: "p3",
+        droppedByOwnerId: "o2",
+        status: "cleared",
+        awardedOwnerId: null,
+        processedAt: "2026-01-08T05:05:00.000Z",
+      },
+    ],
+  });
+
+  assert.deepEqual(
+    activity.map((event) => [
+      event.type,
+      event.date,
+      event.playerName,
+      event.teamName,
+      event.fromTeamName,
+    ]),
+    [
+      [
+        "waiver",
+        "2026-01-08",
+        "Player Two",
+        "Missing Scrape",
+        "Toronto Testers",
+      ],
+    ],
+  );
+});
@@ -1,16 +1,22 @@
 import type {
   Contract,
   ContractStatus as ContractStatusType,
+  DraftPick,
   Franchise,
   LeagueActivityEvent,
   LeagueActivityType,
   Player,
   PlayerDayStatLine,
+  Season,
   Team,
+  Trade,
+  Waiver,
 } from "@gshl-types";
 import { ContractStatus } from "../domain/constants";
+import { getTorontoDate } from "../domain/contracts";
 import { normalizeDateOnlyValue } from "../core/date";
 import { toNumber } from "../core/data";
+import { formatTradeDraftPickLabel } from "./trades";
 
 type ContractSource = Pick<
   Contract,
@@ -33,6 +39,19 @@ type FranchiseSource = Pick<
   Franchise,
   "id" | "ownerId" | "name" | "abbr" | "logoUrl"
 >;
+type TradeSource = Pick<Trade, "id" | "seasonId" | "assets" | "executedAt">;
+type DraftPickSource = Pick<DraftPick, "id" | "seasonId" | "round" | "pick">;
+type SeasonSource = Pick<Season, "id" | "name">;
+type WaiverSource = Pick<
+  Waiver,
+  | "id"
+  | "seasonId"
+  | "playerId"
+  | "droppedByOwnerId"
+  | "status"
+  | "awardedOwnerId"
+  | "processedAt"
+>;
 
 interface BuildLeagueActivityOptions {
   contracts: ContractSource[];
@@ -40,6 +59,10 @@ interface BuildLeagueActivityOptions {
   players: PlayerSource[];
   teams: TeamSource[];
   franchises: FranchiseSource[];
+  trades?: TradeSource[];
+  draftPicks?: DraftPickSource[];
+  seasons?: SeasonSource[];
+  waivers?: WaiverSource[];
   limit?: number;
 }
 
@@ -53,8 +76,9 @@ const TYPE_PRIORITY: Record<LeagueActivityType, number> = {
   signing: 0,
   trade: 1,
   add: 2,
-  drop: 3,
-  missed_start: 4,
+  waiver: 3,
+  drop: 4,
+  missed_start: 5,
 };
 
 function previousCalendarDate(date: string): string {
@@ -70,6 +94,10 @@ export function buildLeagueActivity({
   players,
   teams,
   franchises,
+  trades = [],
+  draftPicks = [],
+  seasons = [],
+  waivers = [],
   limit = 12,
 }: BuildLeagueActivityOptions): LeagueActivityEvent[] {
   const playerById = new Map(
@@ -82,6 +110,12 @@ export function buildLeagueActivity({
     franchises.map((franchise) => [String(franchise.ownerId), franchise]),
   );
   const teamById = new Map(teams.map((team) => [String(team.id), team]));
+  const draftPickById = new Map(
+    draftPicks.map((draftPick) => [String(draftPick.id), draftPick]),
+  );
+  const seasonById = new Map(
+    seasons.map((season) => [String(season.id), season]),
+  );
 
   const playerName = (playerId: string) =>
     playerById.get(String(playerId))?.fullName ?? "Unknown player";
@@ -132,6 +166,72 @@ export function buildLeagueActivity({
     });
   });
 
+  trades.forEach((trade) => {
+    const executedAt = new Date(trade.executedAt);
+    if (Number.isNaN(executedAt.getTime())) return;
+    const date = getTorontoDate(executedAt);
+    const ownerTeam = (ownerId: string) => {
+      const franchise = franchiseByOwnerId.get(String(ownerId));
+      const team = teams.find(
+        (candidate) =>
+          String(candidate.seasonId) === String(trade.seasonId) &&
+          String(candidate.franchiseId) === String(franchise?.id ?? ""),
+      );
+      return teamDetails(team, franchise);
+    };
+
+    trade.assets.forEach((asset, index) => {
+      const draftPick =
+        asset.kind === "draftPick"
+          ? draftPickById.get(String(asset.draftPickId))
+          : undefined;
+      const assetId = String(
+        (asset.kind === "player" ? asset.playerId : asset.draftPickId) ?? "",
+      );
+      push({
+        id: `trade:${trade.id}:${index}`,
+        type: "trade",
+        date,
+        playerId: assetId,
+        playerName:
+          asset.kind === "player"
+            ? playerName(assetId)
+            : formatTradeDraftPickLabel(
+                draftPick,
+                draftPick
+                  ? seasonById.get(String(draftPick.seasonId))
+                  : undefined,
+              ),
+        ...ownerTeam(asset.toOwnerId),
+        fromTeamName: ownerTeam(asset.fromOwnerId).teamName,
+      });
+    });
+  });
+
+  waivers.forEach((waiver) => {
+    if (waiver.status !== "claimed" || !waiver.awardedOwnerId) return;
+    const processedAt = new Date(waiver.processedAt ?? "");
+    if (Number.isNaN(processedAt.getTime())) return;
+    const ownerTeam = (ownerId: string) => {
+      const franchise = franchiseByOwnerId.get(String(ownerId));
+      const team = teams.find(
+        (candidate) =>
+          String(candidate.seasonId) === String(waiver.seasonId) &&
+          String(candidate.franchiseId) === String(franchise?.id ?? ""),
+      );
+      return teamDetails(team, franchise);
+    };
+    push({
+      id: `waiver:${waiver.id}`,
+      type: "waiver",
+      date: getTorontoDate(processedAt),
+      playerId: String(waiver.playerId),
+      playerName: playerName(String(waiver.playerId)),
+      ...ownerTeam(waiver.awardedOwnerId),
+      fromTeamName: ownerTeam(waiver.droppedByOwnerId).teamName,
+    });
+  });
+
   const rosterByDate = new Map<string, Map<string, Set<string>>>();
   playerDays.forEach((row) => {
     const date = normalizeDateOnlyValue(row.date);
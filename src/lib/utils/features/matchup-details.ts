@@ -14,6 +14,7 @@ import type {
   TeamWeekStatLine,
 } from "@gshl-types";
 import { formatPlayerPositionList } from "../domain/player";
+import { GOALIE_START_MINIMUM, scoreMatchup } from "./matchup-scoring";
 
 type MatchupStatCategoryConfig = MatchupCategoryConfig & {
   field: PlayerStatCategoryKey;
@@ -33,7 +34,7 @@ export const MATCHUP_CATEGORY_MAP: Record<
   HIT: { field: "HIT", label: "HIT" },
   BLK: { field: "BLK", label: "BLK" },
   W: { field: "W", label: "W" },
-  GA: { field: "GA", label: "GA" },
+  GA: { field: "GA", label: "GA", isInverse: true },
   GAA: { field: "GAA", label: "GAA", isInverse: true, precision: 2 },
   SV: { field: "SV", label: "SV" },
   SA: { field: "SA", label: "SA" },
@@ -54,6 +55,35 @@ export const FALLBACK_MATCHUP_CATEGORIES: MatchupStatCategoryConfig[] = [
   MATCHUP_CATEGORY_MAP.SVP,
 ];
 
+const MATCHUP_CATEGORY_ALIASES: Record<string, PlayerStatCategoryKey> = {
+  "+/-": "PM",
+  PLUSMINUS: "PM",
+  PLUS_MINUS: "PM",
+  "PLUS-MINUS": "PM",
+  PENALTYMINUTES: "PIM",
+  PENALTY_MINUTES: "PIM",
+  "PENALTY-MINUTES": "PIM",
+  POWERPLAYPOINTS: "PPP",
+  POWER_PLAY_POINTS: "PPP",
+  "POWER-PLAY-POINTS": "PPP",
+  SHOTS: "SOG",
+  SHOTSONGOAL: "SOG",
+  SHOTS_ON_GOAL: "SOG",
+  "SHOTS-ON-GOAL": "SOG",
+  HITS: "HIT",
+  BLOCKS: "BLK",
+  WINS: "W",
+  GOALSAGAINST: "GA",
+  GOALS_AGAINST: "GA",
+  "GOALS-AGAINST": "GA",
+  "SV%": "SVP",
+  SAVEPERCENTAGE: "SVP",
+  SAVE_PERCENTAGE: "SVP",
+  "SAVE-PERCENTAGE": "SVP",
+  SAVES: "SV",
+  SHUTOUTS: "SO",
+};
+
 const PLAYER_STAT_IDENTITY_COLUMNS: ReadonlyArray<
   PlayerStatColumn & {
     key: "player" | "pos" | "nhlTeam";
@@ -132,7 +162,8 @@ function normalizeSeasonCategory(
 ): PlayerStatCategoryKey | null {
   const value = category.trim().toUpperCase();
   if (!value) return null;
-  if (value === "SV%") return "SVP";
+  const alias = MATCHUP_CATEGORY_ALIASES[value];
+  if (alias) return alias;
 
   return value in MATCHUP_CATEGORY_MAP
     ? (value as PlayerStatCategoryKey)
@@ -514,13 +545,25 @@ export function renderPlayerStatCell(
  * @param homeTeamStats - The home team stats to use.
  * @param awayTeamStats - The away team stats to use.
  * @param matchupCategories - The matchup categories to use.
+ * @param goalieStartMinimum - The goalie starts needed to contest goalie categories.
  * @returns The assembled category results.
  */
 export function buildCategoryResults(
   homeTeamStats: TeamWeekStatLine,
   awayTeamStats: TeamWeekStatLine,
   matchupCategories: MatchupCategoryConfig[],
+  goalieStartMinimum = GOALIE_START_MINIMUM,
 ): CategoryResult[] {
+  const scoredCategories = matchupCategories.filter((category) =>
+    isPlayerStatCategoryKey(category.field),
+  );
+  const score = scoreMatchup({
+    homeStats: homeTeamStats,
+    awayStats: awayTeamStats,
+    categories: scoredCategories,
+    goalieStartMinimum,
+  });
+
   return matchupCategories.map((category) => {
     if (!isPlayerStatCategoryKey(category.field)) {
       return {
@@ -532,8 +575,6 @@ export function buildCategoryResults(
       };
     }
 
-    const homeValue = toStatNumber(homeTeamStats[category.field]);
-    const awayValue = toStatNumber(awayTeamStats[category.field]);
     return {
       key: String(category.field),
       label: category.label,
@@ -545,7 +586,8 @@ export function buildCategoryResults(
         awayTeamStats[category.field],
         category.precision,
       ),
-      winner: resolveCategoryWinner(homeValue, awayValue, category.isInverse),
+      winner:
+        score.categories[scoredCategories.indexOf(category)]?.winner ?? "tie",
     };
   });
 }
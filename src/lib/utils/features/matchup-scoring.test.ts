@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { TeamWeekStatLine } from "@gshl-types";
+import {
+  buildCategoryResults,
+  resolveMatchupCategories,
+} from "./matchup-details";
+import {
+  getGoalieStartMinimum,
+  resolveMatchupResult,
+  scoreMatchup,
+} from "./matchup-scoring";
+
+const categories = resolveMatchupCategories([
+  "G",
+  "Hits",
+  "W",
+  "GAA",
+  "SavePercentage",
+]);
+
+void test("scores skater categories and inverse goalie categories", () => {
+  const score = scoreMatchup({
+    homeStats: { G: "5", HIT: "20", W: "2", GAA: "2.10", SVP: ".920" },
+    awayStats: { G: "3", HIT: "20", W: "1", GAA: "3.40", SVP: ".930" },
+    categories,
+    homeGoalieStarts: 3,
+    awayGoalieStarts: 2,
+  });
+  assert.deepEqual(
+    score.categories.map((category) => [category.field, category.winner]),
+    [
+      ["G", "home"],
+      ["HIT", "tie"],
+      ["W", "home"],
+      ["GAA", "home"],
+      ["SVP", "away"],
+    ],
+  );
+  assert.deepEqual([score.homeScore, score.awayScore], [3, 1]);
+});
+
+void test("awards goalie categories to the only team with enough starts", () => {
+  const homeStats = { G: "1", W: "0", GAA: "5.00", SVP: ".850" };
+  const awayStats = { G: "2", W: "1", GAA: "1.00", SVP: ".950" };
+  const score = scoreMatchup({
+    homeStats,
+    awayStats,
+    categories,
+    homeGoalieStarts: 2,
+    awayGoalieStarts: 1,
+  });
+  assert.deepEqual([score.homeScore, score.awayScore], [3, 1]);
+  assert.equal(
+    score.categories.filter((category) => category.forfeit).length,
+    3,
+  );
+
+  const inaugural = scoreMatchup({
+    homeStats,
+    awayStats,
+    categories,
+    goalieStartMinimum: getGoalieStartMinimum({ id: "s1", legacyId: "1" }),
+    homeGoalieStarts: 2,
+    awayGoalieStarts: 1,
+  });
+  assert.deepEqual([inaugural.homeScore, inaugural.awayScore], [0, 4]);
+
+  const neither = scoreMatchup({
+    homeStats: { G: "1" },
+    awayStats: { G: "1" },
+    categories,
+  });
+  assert.deepEqual([neither.homeScore, neither.awayScore], [0, 0]);
+});
+
+void test("gives level matchups to the home team unless legacy ties apply", () => {
+  const level = { homeScore: 4, awayScore: 4 };
+  assert.deepEqual(
+    resolveMatchupResult(level, {
+      season: { usesLegacyTies: false },
+      weekType: "RS",
+    }),
+    { homeWin: true, awayWin: false, tie: false },
+  );
+  assert.deepEqual(
+    resolveMatchupResult(level, {
+      season: { usesLegacyTies: true },
+      weekType: "RS",
+    }),
+    { homeWin: false, awayWin: false, tie: true },
+  );
+  assert.deepEqual(
+    resolveMatchupResult(level, {
+      season: { usesLegacyTies: true },
+      weekType: "PO",
+    }),
+    { homeWin: true, awayWin: false, tie: false },
+  );
+});
+
+void test("matchup detail winners follow the shared scorer", () => {
+  const results = buildCategoryResults(
+    { W: "1", GAA: "2.50" } as unknown as TeamWeekStatLine,
+    { W: null, GAA: null } as unknown as TeamWeekStatLine,
+    categories.filter((category) => ["W", "GAA"].includes(category.field)),
+  );
+  assert.deepEqual(
+    results.map((result) => result.winner),
+    ["home", "home"],
+  );
+});
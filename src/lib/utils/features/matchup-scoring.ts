@@ -0,0 +1,192 @@
+import type {
+  MatchupCategoryConfig,
+  MatchupCategoryScore,
+  MatchupCategoryWinner,
+  MatchupResult,
+  MatchupScore,
+  Season,
+} from "@gshl-types";
+import { SeasonType } from "../domain/constants";
+import { usesLegacyTieRules } from "../domain/season";
+
+/** Goalie starts a team needs in a week to contest the goalie categories. */
+export const GOALIE_START_MINIMUM = 2;
+
+/** The inaugural season only required a single goalie start. */
+const SINGLE_GOALIE_START_SEASON_IDS = new Set(["1"]);
+
+export const GOALIE_MATCHUP_CATEGORIES: ReadonlySet<string> = new Set([
+  "W",
+  "GA",
+  "GAA",
+  "SV",
+  "SVP",
+  "SO",
+]);
+
+const GOALIE_STAT_FIELDS = ["W", "GA", "GAA", "SV", "SA", "SVP", "SO", "TOI"];
+
+export type MatchupScoringCategory = Pick<
+  MatchupCategoryConfig,
+  "field" | "isInverse"
+>;
+
+export interface ScoreMatchupInput {
+  homeStats: object | null | undefined;
+  awayStats: object | null | undefined;
+  categories: readonly MatchupScoringCategory[];
+  goalieStartMinimum?: number;
+  /** Summed goalie `GS`; when absent the team qualifies on any goalie stat. */
+  homeGoalieStarts?: number | null;
+  awayGoalieStarts?: number | null;
+}
+
+function readStat(stats: object | null | undefined, field: string): unknown {
+  return stats ? (stats as Record<string, unknown>)[field] : undefined;
+}
+
+function toScoringNumber(value: unknown): number {
+  const numericValue =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? Number.parseFloat(value)
+        : Number.NaN;
+  return Number.isFinite(numericValue) ? numericValue : 0;
+}
+
+function isBlankStat(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+/**
+ * Returns the goalie start minimum for a season.
+ *
+ * @param season - The season being scored.
+ * @returns The goalie starts required to contest goalie categories.
+ */
+export function getGoalieStartMinimum(
+  season: Pick<Season, "id" | "legacyId"> | null | undefined,
+): number {
+  const ids = [season?.legacyId, season?.id].map((value) =>
+    String(value ?? "").trim(),
+  );
+  return ids.some((value) => SINGLE_GOALIE_START_SEASON_IDS.has(value))
+    ? 1
+    : GOALIE_START_MINIMUM;
+}
+
+/**
+ * Checks whether a team week recorded any goalie stats.
+ *
+ * @param stats - The team week stats to inspect.
+ * @returns True when any goalie stat is filled in.
+ */
+export function hasQualifiedGoalieStats(
+  stats: object | null | undefined,
+): boolean {
+  return GOALIE_STAT_FIELDS.some(
+    (field) => !isBlankStat(readStat(stats, field)),
+  );
+}
+
+function resolveGoalieQualification(
+  stats: object | null | undefined,
+  goalieStarts: number | null | undefined,
+  goalieStartMinimum: number,
+): boolean {
+  return goalieStarts === undefined || goalieStarts === null
+    ? hasQualifiedGoalieStats(stats)
+    : goalieStarts >= goalieStartMinimum;
+}
+
+/**
+ * Scores a matchup one category at a time. A goalie category goes to the
+ * only team that met the goalie start minimum and is skipped when neither
+ * did; every other category goes to the better value, lower for inverse
+ * categories, with equal values left as ties.
+ *
+ * @param input - Both team weeks, the season categories and goalie starts.
+ * @returns Category wins per team and the winner of each category.
+ */
+export function scoreMatchup({
+  homeStats,
+  awayStats,
+  categories,
+  goalieStartMinimum = GOALIE_START_MINIMUM,
+  homeGoalieStarts,
+  awayGoalieStarts,
+}: ScoreMatchupInput): MatchupScore {
+  const homeHasGoalies = resolveGoalieQualification(
+    homeStats,
+    homeGoalieStarts,
+    goalieStartMinimum,
+  );
+  const awayHasGoalies = resolveGoalieQualification(
+    awayStats,
+    awayGoalieStarts,
+    goalieStartMinimum,
+  );
+
+  const scored = categories.map((category): MatchupCategoryScore => {
+    const field = String(category.field);
+    if (
+      GOALIE_MATCHUP_CATEGORIES.has(field) &&
+      homeHasGoalies !== awayHasGoalies
+    ) {
+      return {
+        field,
+        winner: homeHasGoalies ? "home" : "away",
+        forfeit: true,
+      };
+    }
+    if (GOALIE_MATCHUP_CATEGORIES.has(field) && !homeHasGoalies) {
+      return { field, winner: "tie", forfeit: false };
+    }
+
+    const homeValue = toScoringNumber(readStat(homeStats, field));
+    const awayValue = toScoringNumber(readStat(awayStats, field));
+    let winner: MatchupCategoryWinner = "tie";
+    if (homeValue !== awayValue) {
+      winner =
+        homeValue > awayValue !== Boolean(category.isInverse) ? "home" : "away";
+    }
+    return { field, winner, forfeit: false };
+  });
+
+  return {
+    homeScore: scored.filter((category) => category.winner === "home").length,
+    awayScore: scored.filter((category) => category.winner === "away").length,
+    categories: scored,
+  };
+}
+
+/**
+ * Resolves a completed matchup's result. Level scores are a tie only in a
+ * legacy-tie regular season; otherwise the home team holds home ice.
+ *
+ * @param score - The category score of the matchup.
+ * @param context - The season's tie rules and the week type.
+ * @returns The home win, away win and tie flags.
+ */
+export function resolveMatchupResult(
+  score: Pick<MatchupScore, "homeScore" | "awayScore">,
+  context: {
+    season: Pick<Season, "usesLegacyTies"> | null | undefined;
+    weekType: string | null | undefined;
+  },
+): MatchupResult {
+  const tie =
+    usesLegacyTieRules(context.season) &&
+    context.weekType === SeasonType.REGULAR_SEASON &&
+    score.homeScore === score.awayScore;
+  return {
+    homeWin: !tie && score.homeScore >= score.awayScore,
+    awayWin: !tie && score.homeScore < score.awayScore,
+    tie,
+  };
+}
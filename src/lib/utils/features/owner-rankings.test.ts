@@ -2,7 +2,9 @@ import assert from "node:assert/strict";
 import test from "node:test";
 
 import {
+  buildOwnerLadderHistoryChart,
   buildOwnerRankings,
+  normalizeOwnerLadderSnapshots,
   OWNER_LADDER_BASE_RATING,
   OWNER_LADDER_REFERENCE_CEILING,
   OWNER_LADDER_REFERENCE_FLOOR,
@@ -13,6 +15,7 @@ import {
   type Matchup,
   type MatchupType as MatchupTypeValue,
   type Owner,
+  type OwnerLadderSnapshot,
   type OwnerPowerRankingStat,
   type Season,
   type TeamAward,
@@ -418,3 +421,88 @@ void test("treats zero and 1000 as reference points rather than hard limits", ()
   assert.ok(dominant.rating > OWNER_LADDER_REFERENCE_CEILING);
   assert.ok(struggling.rating < OWNER_LADDER_REFERENCE_FLOOR);
 });
+
+const snapshot = (
+  ownerId: string,
+  seasonId: string,
+  weekStartDate: string,
+  rating: number,
+  rank: number,
+): OwnerLadderSnapshot => ({
+  ownerId,
+  seasonId,
+  weekId: `${seasonId}-${weekStartDate}`,
+  weekStartDate,
+  rating,
+  rank,
+});
+
+void test("ranks owners by the persisted ladder when snapshots exist", () => {
+  const owners = [owner("a", true), owner("b", true), owner("c", true)];
+  const seasons = [season("s1", 2024), season("s2", 2025)];
+  const teams = [
+    team("a-s2", "s2", "a"),
+    team("b-s2", "s2", "b"),
+    team("c-s2", "s2", "c"),
+  ];
+  const result = buildOwnerRankings({
+    owners,
+    seasons,
+    teams,
+    weeks: [week("w1", "s2", 1)],
+    matchups: [
+      matchup("m1", "s2", "w1", "a-s2", "b-s2", MatchupType.CONFERENCE, 6, 4),
+    ],
+    teamAwards: [],
+    ladderSnapshots: [
+      snapshot("a", "s1", "2024-03-01", 520, 1),
+      snapshot("b", "s1", "2024-03-01", 510, 2),
+      snapshot("b", "s2", "2025-01-01", 540, 1),
+      snapshot("a", "s2", "2025-01-01", 530, 2),
+    ],
+  });
+
+  assert.deepEqual(
+    result.rankings.map((entry) => [
+      entry.owner.id,
+      entry.rank,
+      entry.previousRank,
+      entry.rating,
+    ]),
+    [
+      ["b", 1, 2, 540],
+      ["a", 2, 1, 530],
+      ["c", 3, 3, OWNER_LADDER_BASE_RATING],
+    ],
+  );
+});
+
+void test("charts the top active owners' ladder ratings week by week", () => {
+  const snapshots = normalizeOwnerLadderSnapshots([
+    snapshot("a", "s1", "2025-01-08", 512.34, 1),
+    snapshot("a", "s1", "2025-01-01", 505, 1),
+    snapshot("b", "s1", "2025-01-01", 495, 2),
+    snapshot("b", "s1", "2025-01-08", 487.66, 2),
+    { ownerId: "broken", rating: "high" },
+  ]);
+  assert.equal(snapshots.length, 4);
+
+  const result = buildOwnerRankings({
+    owners: [owner("a", true), owner("b", true)],
+    seasons: [season("s1", 2025)],
+    teams: [],
+    weeks: [],
+    matchups: [],
+    teamAwards: [],
+    ladderSnapshots: snapshots,
+  });
+  const chart = buildOwnerLadderHistoryChart(snapshots, result.rankings, 1);
+
+  assert.deepEqual(chart.series, [
+    { ownerId: "a", name: result.rankings[0]!.displayName },
+  ]);
+  assert.deepEqual(chart.rows, [
+    { weekStartDate: "2025-01-01", a: 505 },
+    { weekStartDate: "2025-01-08", a: 512.3 },
+  ]);
+});
@@ -4,6 +4,8 @@ import type {
   MatchupType as MatchupTypeValue,
   Owner,
   OwnerLadderBattle,
+  OwnerLadderHistoryChart,
+  OwnerLadderSnapshot,
   OwnerPowerRankingStat,
   OwnerRankingEntry,
   OwnerRankingRecord,
@@ -13,35 +15,25 @@ import type {
   Week,
 } from "@gshl-types";
 import { AwardsList, MatchupType } from "../domain/constants";
-import { isPlayoffMatchupType } from "@gshl-utils/domain/matchup";
+import {
+  computeGmLadderRating,
+  computeGmPerformanceAdjustment,
+  computeGmPowerAdjustment,
+  GM_BASE_RATING,
+  GM_BONUSES,
+  GM_POWER_WEIGHTS,
+  scoreGmMatchup,
+} from "./power-gm-ladder";
 
 /** The ladder's normal reference band. These are guideposts, not hard limits. */
 export const OWNER_LADDER_REFERENCE_FLOOR = 0;
 export const OWNER_LADDER_REFERENCE_CEILING = 1000;
-export const OWNER_LADDER_BASE_RATING = 250;
 
-/**
- * Elo is useful for recent form and opponent strength, but the owner ladder is
- * a career resume. Keeping only a small share of the Elo movement prevents a
- * favorable run or schedule from outweighing years of results.
- */
-const OWNER_LADDER_ELO_WEIGHT = 0.15;
-
-export const OWNER_LADDER_BONUSES = {
-  playoffAppearance: 8,
-  finalsAppearance: 18,
-  cup: 40,
-  leadershipAward: 20,
-  otherAward: 5,
-  brophy: -10,
-} as const;
-
-export const OWNER_LADDER_POWER_WEIGHTS = {
-  numberOne: 1.5,
-  topThree: 0.5,
-  bottomThree: -0.5,
-  lastPlace: -1.5,
-} as const;
+// The rating itself comes from the GM ladder engine, which the persisted
+// Owner Ladder snapshots also replay, so the two cannot drift.
+export const OWNER_LADDER_BASE_RATING = GM_BASE_RATING;
+export const OWNER_LADDER_BONUSES = GM_BONUSES;
+export const OWNER_LADDER_POWER_WEIGHTS = GM_POWER_WEIGHTS;
 
 const PLAYOFF_TYPES = new Set<MatchupTypeValue>([
   MatchupType.QUARTER_FINAL,
@@ -120,50 +112,9 @@ const toRecord = (record: MutableRecord): OwnerRankingRecord => ({
   winPercentage: recordPercentage(record),
 });
 
-const bayesianPercentage = (record: MutableRecord, priorGames: number) => {
-  const games = gamesPlayed(record);
-  return (
-    (record.wins + record.ties * 0.5 + priorGames * 0.5) / (games + priorGames)
-  );
-};
-
-const performanceAdjustment = (state: OwnerLadderState) =>
-  (bayesianPercentage(state.overall, 20) - 0.5) * 300 +
-  (bayesianPercentage(state.conference, 10) - 0.5) * 80 +
-  (bayesianPercentage(state.playoffs, 6) - 0.5) * 120;
-
-const powerRankingAdjustment = (state: OwnerLadderState) =>
-  state.weeksAtNumberOne * OWNER_LADDER_POWER_WEIGHTS.numberOne +
-  state.weeksInTopThree * OWNER_LADDER_POWER_WEIGHTS.topThree +
-  state.weeksInBottomThree * OWNER_LADDER_POWER_WEIGHTS.bottomThree +
-  state.weeksInLastPlace * OWNER_LADDER_POWER_WEIGHTS.lastPlace;
-
-const ladderRating = (state: OwnerLadderState) =>
-  OWNER_LADDER_BASE_RATING +
-  (state.elo - OWNER_LADDER_BASE_RATING) * OWNER_LADDER_ELO_WEIGHT +
-  state.achievementBonus +
-  powerRankingAdjustment(state) +
-  performanceAdjustment(state);
-
-const expectedScore = (ratingA: number, ratingB: number) =>
-  1 / (1 + 10 ** ((ratingB - ratingA) / 400));
-
-const matchupK = (gameType: MatchupTypeValue) => {
-  if (gameType === MatchupType.FINAL) return 40;
-  if (gameType === MatchupType.SEMI_FINAL) return 34;
-  if (gameType === MatchupType.QUARTER_FINAL) return 28;
-  return 20;
-};
-
-const matchupActual = (
-  homeScore: number,
-  awayScore: number,
-  gameType: MatchupTypeValue,
-) => {
-  if (homeScore > awayScore) return 1;
-  if (awayScore > homeScore) return 0;
-  return isPlayoffMatchupType(gameType) ? 1 : 0.5;
-};
+const performanceAdjustment = computeGmPerformanceAdjustment;
+const powerRankingAdjustment = computeGmPowerAdjustment;
+const ladderRating = computeGmLadderRating;
 
 const applyRecordResult = (
   home: MutableRecord,
@@ -229,6 +180,34 @@ const rankStates = (states: Map<string, OwnerLadderState>) =>
     })
     .map((state, index) => ({ state, rank: index + 1 }));
 
+const MISSING_LADDER_RANK = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Reads the persisted ladder: each owner's latest snapshot, and their rank
+ * from the last week before the latest season for rank movement.
+ */
+const persistedLadder = (
+  snapshots: OwnerLadderSnapshot[],
+  latestSeasonId: string | null,
+) => {
+  if (!snapshots.length) return null;
+  const weekOf = (rows: OwnerLadderSnapshot[]) => {
+    const latest = rows.reduce(
+      (date, row) => (row.weekStartDate > date ? row.weekStartDate : date),
+      "",
+    );
+    return rows.filter((row) => row.weekStartDate === latest);
+  };
+  return {
+    current: new Map(weekOf(snapshots).map((row) => [row.ownerId, row])),
+    previous: new Map(
+      weekOf(snapshots.filter((row) => row.seasonId !== latestSeasonId)).map(
+        (row) => [row.ownerId, row.rank],
+      ),
+    ),
+  };
+};
+
 const fallbackOwnerFromTeam = (team: GSHLTeam): Owner | null => {
   const id = normalizeId(team.ownerId);
   if (!id) return null;
@@ -253,6 +232,9 @@ export function buildOwnerRankings(params: {
   weeks: Week[];
   teamAwards: TeamAward[];
   powerRankingStats?: OwnerPowerRankingStat[];
+  // The persisted Owner Ladder. When present it decides ranks and ratings;
+  // the replay here still supplies records, awards and battles.
+  ladderSnapshots?: OwnerLadderSnapshot[];
 }): OwnerRankingsViewModel {
   const {
     teams,
@@ -346,14 +328,13 @@ export function buildOwnerRankings(params: {
       if (!homeState || !awayState || homeScore == null || awayScore == null)
         continue;
 
-      const actualHome = matchupActual(homeScore, awayScore, matchup.gameType);
-      const expectedHome = expectedScore(homeState.elo, awayState.elo);
-      const marginMultiplier =
-        1 + Math.min(Math.abs(homeScore - awayScore), 4) * 0.08;
-      const rawDelta =
-        matchupK(matchup.gameType) *
-        marginMultiplier *
-        (actualHome - expectedHome);
+      const { actualHome, delta: rawDelta } = scoreGmMatchup({
+        homeElo: homeState.elo,
+        awayElo: awayState.elo,
+        homeScore,
+        awayScore,
+        gameType: matchup.gameType,
+      });
       const nextHomeElo = homeState.elo + rawDelta;
       const nextAwayElo = awayState.elo - rawDelta;
       const homeDelta = nextHomeElo - homeState.elo;
@@ -543,9 +524,25 @@ export function buildOwnerRankings(params: {
     states.set(owner.id, makeState(owner, OWNER_LADDER_BASE_RATING, teams));
   }
 
-  const finalRanks = rankStates(states);
+  const persisted = persistedLadder(
+    params.ladderSnapshots ?? [],
+    latestSeason ? String(latestSeason.id) : null,
+  );
+  const finalRanks = persisted
+    ? [...states.values()]
+        .sort(
+          (a, b) =>
+            (persisted.current.get(a.owner.id)?.rank ?? MISSING_LADDER_RANK) -
+              (persisted.current.get(b.owner.id)?.rank ??
+                MISSING_LADDER_RANK) ||
+            ladderRating(b) - ladderRating(a) ||
+            ownerName(a.owner).localeCompare(ownerName(b.owner)),
+        )
+        .map((state, index) => ({ state, rank: index + 1 }))
+    : rankStates(states);
   const rankings: OwnerRankingEntry[] = finalRanks.map(({ state, rank }) => {
-    const previousRank = previousRanks.get(state.owner.id) ?? rank;
+    const previousRank =
+      (persisted?.previous ?? previousRanks).get(state.owner.id) ?? rank;
     return {
       owner: state.owner,
       rank,
@@ -555,7 +552,8 @@ export function buildOwnerRankings(params: {
       isActive: state.owner.isActive,
       primaryTeam: state.primaryTeam,
       seasonsPlayed: state.seasonIds.size,
-      rating: ladderRating(state),
+      rating:
+        persisted?.current.get(state.owner.id)?.rating ?? ladderRating(state),
       elo: state.elo,
       seedRating: state.seedRating,
       matchupDelta: state.lastDelta,
@@ -590,3 +588,60 @@ export function buildOwnerRankings(params: {
     inactiveOwnerCount: rankings.filter((entry) => !entry.isActive).length,
   };
 }
+
+export function normalizeOwnerLadderSnapshots(
+  value: unknown,
+): OwnerLadderSnapshot[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((row: unknown) => {
+    if (!row || typeof row !== "object") return [];
+    const entry = row as Record<string, unknown>;
+    const ownerId = normalizeId(entry.ownerId);
+    const rating = numericScore(entry.rating);
+    const rank = numericScore(entry.rank);
+    if (!ownerId || rating == null || rank == null) return [];
+    return [
+      {
+        ownerId,
+        seasonId: normalizeId(entry.seasonId) ?? "",
+        weekId: normalizeId(entry.weekId) ?? "",
+        weekStartDate:
+          typeof entry.weekStartDate === "string" ? entry.weekStartDate : "",
+        rating,
+        rank,
+      },
+    ];
+  });
+}
+
+/**
+ * Pivots ladder snapshots into one chart row per week, with a line for each
+ * of the top `limit` active owners on the ladder.
+ */
+export function buildOwnerLadderHistoryChart(
+  snapshots: OwnerLadderSnapshot[],
+  rankings: OwnerRankingEntry[],
+  limit = 8,
+): OwnerLadderHistoryChart {
+  const charted = new Set(snapshots.map((row) => row.ownerId));
+  const series = rankings
+    .filter((entry) => entry.isActive && charted.has(entry.owner.id))
+    .slice(0, limit)
+    .map((entry) => ({ ownerId: entry.owner.id, name: entry.displayName }));
+  const seriesIds = new Set(series.map((entry) => entry.ownerId));
+  const rowsByWeek = new Map<string, Record<string, number | string>>();
+  for (const row of snapshots) {
+    if (!seriesIds.has(row.ownerId)) continue;
+    const chartRow = rowsByWeek.get(row.weekStartDate) ?? {
+      weekStartDate: row.weekStartDate,
+    };
+    chartRow[row.ownerId] = Math.round(row.rating * 10) / 10;
+    rowsByWeek.set(row.weekStartDate, chartRow);
+  }
+  return {
+    rows: [...rowsByWeek.values()].sort((a, b) =>
+      String(a.weekStartDate).localeCompare(String(b.weekStartDate)),
+    ),
+    series,
+  };
+}
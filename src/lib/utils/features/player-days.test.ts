@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { SeasonType } from "../domain/constants";
+import {
+  countRegularSeasonDays,
+  getPlayerDayEligibilityError,
+  resolvePlayerDayEligibility,
+  tallyPlayerDays,
+} from "./player-days";
+
+void test("only regular-season weeks count toward the day total", () => {
+  assert.equal(
+    countRegularSeasonDays([
+      {
+        weekType: SeasonType.REGULAR_SEASON,
+        startDate: "2024-10-07",
+        endDate: "2024-10-13",
+      },
+      {
+        weekType: SeasonType.REGULAR_SEASON,
+        startDate: "2024-10-14",
+        endDate: "2024-10-20",
+      },
+      {
+        weekType: SeasonType.PLAYOFFS,
+        startDate: "2025-03-24",
+        endDate: "2025-03-30",
+      },
+    ]),
+    14,
+  );
+});
+
+void test("tallies survive a page break inside one date", () => {
+  const first = tallyPlayerDays([
+    { gshlTeamId: "team-a", date: "2024-10-07" },
+    { gshlTeamId: "team-a", date: "2024-10-08" },
+  ]);
+  const tally = tallyPlayerDays(
+    [
+      { gshlTeamId: "team-a", date: "2024-10-08" },
+      { gshlTeamId: "team-b", date: "2024-10-08" },
+      { gshlTeamId: "team-b", date: "2024-10-09" },
+    ],
+    first,
+  );
+
+  assert.equal(tally.rosterDays, 3);
+  assert.deepEqual(tally.teamDays, [
+    { gshlTeamId: "team-a", days: 2 },
+    { gshlTeamId: "team-b", days: 2 },
+  ]);
+});
+
+void test("eligibility needs more than two-thirds of regular-season days", () => {
+  const traded = resolvePlayerDayEligibility({
+    seasonId: "season-1",
+    playerId: "player-1",
+    regularSeasonDays: 150,
+    rosterDays: 120,
+    teamDays: [
+      { gshlTeamId: "team-a", days: 70 },
+      { gshlTeamId: "team-b", days: 50 },
+    ],
+  });
+  assert.equal(traded.isEligible, true);
+  assert.deepEqual(traded.qualifyingTeamIds, []);
+
+  const exact = resolvePlayerDayEligibility({
+    seasonId: "season-1",
+    playerId: "player-2",
+    regularSeasonDays: 150,
+    rosterDays: 100,
+    teamDays: [{ gshlTeamId: "team-a", days: 100 }],
+  });
+  assert.equal(exact.isEligible, false);
+  assert.equal(
+    getPlayerDayEligibilityError(exact, "Test Player"),
+    "Test Player spent 100 of 150 regular-season days (66.7%) on GSHL rosters. Rule 9.11 requires more than two-thirds.",
+  );
+  assert.equal(getPlayerDayEligibilityError(null, "Test Player"), null);
+});
@@ -0,0 +1,120 @@
+import type {
+  PlayerDayEligibility,
+  PlayerDayStatLine,
+  PlayerDayTally,
+  PlayerDayTeamCount,
+  Week,
+} from "@gshl-types";
+import { SeasonType } from "../domain/constants";
+import { normalizeDateOnlyValue } from "../core/date";
+import { formatPercentage } from "../core/format";
+
+/** Rule 9.11: a player must exceed this share of regular-season days. */
+export const PLAYER_DAY_ELIGIBILITY_SHARE = 2 / 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Counts the calendar days covered by the season's regular-season weeks. */
+export function countRegularSeasonDays(
+  weeks: Array<Pick<Week, "weekType" | "startDate" | "endDate">>,
+): number {
+  return weeks.reduce((total, week) => {
+    if (String(week.weekType) !== String(SeasonType.REGULAR_SEASON)) {
+      return total;
+    }
+    const start = normalizeDateOnlyValue(week.startDate);
+    const end = normalizeDateOnlyValue(week.endDate);
+    if (!start || !end || end < start) return total;
+    const days =
+      (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) /
+        DAY_MS +
+      1;
+    return total + days;
+  }, 0);
+}
+
+export function emptyPlayerDayTally(): PlayerDayTally {
+  return { rosterDays: 0, teamDays: [], lastDate: null, lastDateTeamIds: [] };
+}
+
+/**
+ * Adds one player's date-ordered day rows to a running tally. A date counts
+ * once toward roster days and once per team, so pages may split a date.
+ */
+export function tallyPlayerDays(
+  rows: Array<Pick<PlayerDayStatLine, "gshlTeamId" | "date">>,
+  previous: PlayerDayTally = emptyPlayerDayTally(),
+): PlayerDayTally {
+  const teamDays = new Map(
+    previous.teamDays.map((count) => [count.gshlTeamId, count.days]),
+  );
+  let { rosterDays, lastDate } = previous;
+  let lastDateTeamIds = new Set(previous.lastDateTeamIds);
+  for (const row of rows) {
+    const date = normalizeDateOnlyValue(row.date);
+    const teamId = String(row.gshlTeamId ?? "");
+    if (!date || !teamId) continue;
+    if (date !== lastDate) {
+      rosterDays += 1;
+      lastDate = date;
+      lastDateTeamIds = new Set();
+    }
+    if (lastDateTeamIds.has(teamId)) continue;
+    lastDateTeamIds.add(teamId);
+    teamDays.set(teamId, (teamDays.get(teamId) ?? 0) + 1);
+  }
+  return {
+    rosterDays,
+    teamDays: Array.from(teamDays, ([gshlTeamId, days]) => ({
+      gshlTeamId,
+      days,
+    })).sort(
+      (a, b) => b.days - a.days || a.gshlTeamId.localeCompare(b.gshlTeamId),
+    ),
+    lastDate,
+    lastDateTeamIds: Array.from(lastDateTeamIds),
+  };
+}
+
+/** Turns player-day counts into the stored rule 9.11 verdict. */
+export function resolvePlayerDayEligibility(options: {
+  seasonId: string;
+  playerId: string;
+  regularSeasonDays: number;
+  rosterDays: number;
+  teamDays: PlayerDayTeamCount[];
+}): PlayerDayEligibility {
+  const { seasonId, playerId, regularSeasonDays, rosterDays } = options;
+  const ratio = (days: number) =>
+    regularSeasonDays > 0 ? days / regularSeasonDays : 0;
+  const teamDays = options.teamDays.map((count) => ({
+    gshlTeamId: count.gshlTeamId,
+    days: count.days,
+    ratio: ratio(count.days),
+  }));
+  const rosterRatio = ratio(rosterDays);
+  return {
+    seasonId,
+    playerId,
+    regularSeasonDays,
+    rosterDays,
+    rosterRatio,
+    teamDays,
+    qualifyingTeamIds: teamDays
+      .filter((count) => count.ratio > PLAYER_DAY_ELIGIBILITY_SHARE)
+      .map((count) => count.gshlTeamId),
+    isEligible: rosterRatio > PLAYER_DAY_ELIGIBILITY_SHARE,
+  };
+}
+
+/**
+ * Explains why a player cannot be signed under rule 9.11, or returns null.
+ * A missing verdict means the season has not been computed yet.
+ */
+export function getPlayerDayEligibilityError(
+  verdict: PlayerDayEligibility | null | undefined,
+  playerName: string,
+): string | null {
+  if (!verdict || verdict.isEligible) return null;
+  return `${playerName} spent ${verdict.rosterDays} of ${verdict.regularSeasonDays} regular-season days (${formatPercentage(verdict.rosterRatio, true)}) on GSHL rosters. Rule 9.11 requires more than two-thirds.`;
+}
@@ -0,0 +1,331 @@
+import type { PlayerRatingModel, PlayerRatingPosGroup } from "@gshl-types";
+
+/**
+ * Player tuning for the native rating engine, ported from the Apps Script
+ * `RankingEngine.TuningConfig`. Keep the two in step until the Apps Script
+ * engine is retired; `ratings:parity` compares their output.
+ */
+
+type PositionShares = Record<PlayerRatingPosGroup, number>;
+
+type SeasonTypeLimits = Record<"RS" | "PO", PositionShares>;
+
+export interface PlayerRatingSmallSampleCap {
+  maxUsage?: number;
+  maxUsageExclusive?: number;
+  minWorkload?: number;
+  cap: number;
+}
+
+export interface SkaterRatingProfile {
+  categoryBlend: { raw: number; rate: number };
+  weights: {
+    efficiency: number;
+    support: number;
+    breadth: number;
+    volume: number;
+    star: number;
+    core?: number;
+  };
+  volumeMix: { usage: number; event: number };
+  volumeScoreBlend?: { normalized: number; raw: number };
+  balancedBonus: number;
+  specialistCap: {
+    maxSupport: number;
+    maxBreadth?: number;
+    cap: number;
+  } | null;
+  smallSampleCaps: PlayerRatingSmallSampleCap[];
+}
+
+export type GoalieSpecialistCap =
+  | { type: "support"; maxSupport: number; cap: number }
+  | { type: "singleElite"; threshold: number; cap: number };
+
+export interface GoalieRatingProfile {
+  winBlend: { raw: number; rate: number };
+  weights: {
+    efficiency: number;
+    support: number;
+    breadth: number;
+    workload: number;
+  };
+  workloadMix: { GS: number; SA: number; SV: number; TOI: number; GA?: number };
+  balancedBonus: number;
+  specialistCap: GoalieSpecialistCap | null;
+  smallSampleCap: PlayerRatingSmallSampleCap | null;
+}
+
+export const PLAYER_RATING_DEFAULT_SKATER_CATEGORIES = [
+  "G",
+  "A",
+  "P",
+  "PPP",
+  "SOG",
+  "HIT",
+  "BLK",
+] as const;
+
+export const PLAYER_RATING_GOALIE_CATEGORIES = ["W", "GAA", "SVP"] as const;
+
+export const PLAYER_RATING_LOWER_BETTER_STATS: ReadonlySet<string> = new Set([
+  "GAA",
+  "GA",
+]);
+
+/** Distribution sizes kept per model; zero or absent keeps every row. */
+export const PLAYER_RATING_DISTRIBUTION_LIMITS: Partial<
+  Record<PlayerRatingModel, PositionShares | SeasonTypeLimits>
+> = {
+  PlayerNHL: { F: 256, D: 128, G: 56 },
+  PlayerTotalStatLine: {
+    RS: { F: 350, D: 140, G: 112 },
+    PO: { F: 140, D: 49, G: 28 },
+  },
+  PlayerSplitStatLine: {
+    RS: { F: 350, D: 140, G: 112 },
+    PO: { F: 140, D: 49, G: 28 },
+  },
+  PlayerCareerSplitStatLine: {
+    RS: { F: 350, D: 140, G: 112 },
+    PO: { F: 140, D: 49, G: 28 },
+  },
+  PlayerCareerTotalStatLine: {
+    RS: { F: 350, D: 140, G: 112 },
+    PO: { F: 140, D: 49, G: 28 },
+  },
+};
+
+export const PLAYER_RATING_RETENTION = {
+  dayShare: { F: 0.85, D: 0.75, G: 0.55 } satisfies PositionShares,
+  weekShare: { F: 0.5, D: 0.75, G: 0.5 } satisfies PositionShares,
+  negativeCarry: 0.3,
+  negativeFloor: -0.3,
+};
+
+export const PLAYER_RATING_GOALIE_TOI = {
+  minimumToiForRating: 0,
+  negligibleToiThreshold: 30,
+  negligibleToiMaxScore: 15,
+};
+
+export const PLAYER_RATING_CALIBRATION = {
+  dayPositionMultiplier: {
+    F: 1.725,
+    D: 1.575,
+    G: 1.325,
+  } satisfies PositionShares,
+  weekPositionMultiplier: {
+    F: 1.75,
+    D: 1.5,
+    G: 1.05,
+  } satisfies PositionShares,
+  weekNormalization: {
+    skater: { targetUsage: 3.5, fullUsage: 3 },
+    goalie: { targetUsage: 2, fullUsage: 2 },
+  },
+};
+
+export const SKATER_RATING_PROFILES: Record<
+  PlayerRatingModel,
+  SkaterRatingProfile
+> = {
+  PlayerDayStatLine: {
+    categoryBlend: { raw: 1, rate: 0 },
+    weights: {
+      efficiency: 0.33,
+      support: 0.14,
+      breadth: 0.08,
+      volume: 0.1,
+      star: 0.35,
+    },
+    volumeMix: { usage: 0.1, event: 0.9 },
+    volumeScoreBlend: { normalized: 0.675, raw: 0.325 },
+    balancedBonus: 0,
+    specialistCap: { maxSupport: 0.18, maxBreadth: 0.15, cap: 102 },
+    smallSampleCaps: [],
+  },
+  PlayerWeekStatLine: {
+    categoryBlend: { raw: 0.62, rate: 0.38 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.14,
+      breadth: 0.09,
+      volume: 0.17,
+      star: 0.36,
+    },
+    volumeMix: { usage: 0.58, event: 0.42 },
+    volumeScoreBlend: { normalized: 0.675, raw: 0.325 },
+    balancedBonus: 2,
+    specialistCap: { maxSupport: 0.24, cap: 96 },
+    smallSampleCaps: [{ maxUsage: 1, cap: 92 }],
+  },
+  PlayerSplitStatLine: {
+    categoryBlend: { raw: 0.6, rate: 0.4 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.17,
+      breadth: 0.13,
+      volume: 0.18,
+      star: 0.28,
+    },
+    volumeMix: { usage: 0.7, event: 0.3 },
+    balancedBonus: 4,
+    specialistCap: { maxSupport: 0.32, cap: 90 },
+    smallSampleCaps: [{ maxUsageExclusive: 3, cap: 87 }],
+  },
+  PlayerTotalStatLine: {
+    categoryBlend: { raw: 0.58, rate: 0.42 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.14,
+      breadth: 0.1,
+      volume: 0.14,
+      star: 0.38,
+    },
+    volumeMix: { usage: 0.68, event: 0.32 },
+    balancedBonus: 5,
+    specialistCap: { maxSupport: 0.3, cap: 88 },
+    smallSampleCaps: [{ maxUsageExclusive: 6, cap: 86 }],
+  },
+  PlayerCareerSplitStatLine: {
+    categoryBlend: { raw: 0.6, rate: 0.4 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.17,
+      breadth: 0.13,
+      volume: 0.18,
+      star: 0.28,
+    },
+    volumeMix: { usage: 0.7, event: 0.3 },
+    balancedBonus: 4,
+    specialistCap: { maxSupport: 0.32, cap: 90 },
+    smallSampleCaps: [{ maxUsageExclusive: 3, cap: 87 }],
+  },
+  PlayerCareerTotalStatLine: {
+    categoryBlend: { raw: 0.58, rate: 0.42 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.14,
+      breadth: 0.1,
+      volume: 0.14,
+      star: 0.38,
+    },
+    volumeMix: { usage: 0.68, event: 0.32 },
+    balancedBonus: 5,
+    specialistCap: { maxSupport: 0.3, cap: 88 },
+    smallSampleCaps: [{ maxUsageExclusive: 6, cap: 86 }],
+  },
+  PlayerNHL: {
+    categoryBlend: { raw: 0.55, rate: 0.45 },
+    weights: {
+      efficiency: 0.045,
+      support: 0.04,
+      breadth: 0.01,
+      volume: 0.005,
+      star: 0.18,
+      core: 0.675,
+    },
+    volumeMix: { usage: 0.5, event: 0.5 },
+    balancedBonus: 5,
+    specialistCap: { maxSupport: 0.3, cap: 88 },
+    smallSampleCaps: [{ maxUsageExclusive: 6, cap: 86 }],
+  },
+};
+
+export const GOALIE_RATING_PROFILES: Record<
+  PlayerRatingModel,
+  GoalieRatingProfile
+> = {
+  PlayerDayStatLine: {
+    winBlend: { raw: 1, rate: 0 },
+    weights: {
+      efficiency: 0.53,
+      support: 0.12,
+      breadth: 0.07,
+      workload: 0.18,
+    },
+    workloadMix: { GS: 0, SA: 0.18, SV: 0.34, TOI: 0.4 },
+    balancedBonus: 0,
+    specialistCap: null,
+    smallSampleCap: null,
+  },
+  PlayerWeekStatLine: {
+    winBlend: { raw: 1, rate: 0 },
+    weights: {
+      efficiency: 0.5,
+      support: 0.2,
+      breadth: 0.15,
+      workload: 0.225,
+    },
+    workloadMix: { GS: 0.25, SA: 0.2, SV: 0.3, TOI: 0.45 },
+    balancedBonus: 2,
+    specialistCap: null,
+    smallSampleCap: null,
+  },
+  PlayerSplitStatLine: {
+    winBlend: { raw: 0.75, rate: 0.25 },
+    weights: {
+      efficiency: 0.29,
+      support: 0.18,
+      breadth: 0.17,
+      workload: 0.36,
+    },
+    workloadMix: { GS: 0.7, SA: 0.12, SV: 0.08, TOI: 0.1 },
+    balancedBonus: 4,
+    specialistCap: { type: "support", maxSupport: 0.4, cap: 88 },
+    smallSampleCap: { maxUsageExclusive: 3, cap: 84 },
+  },
+  PlayerTotalStatLine: {
+    winBlend: { raw: 0.85, rate: 0.15 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.17,
+      breadth: 0.17,
+      workload: 0.42,
+    },
+    workloadMix: { GS: 0.8, SA: 0.08, SV: 0.07, TOI: 0.05 },
+    balancedBonus: 5,
+    specialistCap: { type: "support", maxSupport: 0.45, cap: 84 },
+    smallSampleCap: { maxUsageExclusive: 8, cap: 82 },
+  },
+  PlayerCareerSplitStatLine: {
+    winBlend: { raw: 0.75, rate: 0.25 },
+    weights: {
+      efficiency: 0.29,
+      support: 0.18,
+      breadth: 0.17,
+      workload: 0.36,
+    },
+    workloadMix: { GS: 0.7, SA: 0.12, SV: 0.08, TOI: 0.1 },
+    balancedBonus: 4,
+    specialistCap: { type: "support", maxSupport: 0.4, cap: 88 },
+    smallSampleCap: { maxUsageExclusive: 3, cap: 84 },
+  },
+  PlayerCareerTotalStatLine: {
+    winBlend: { raw: 0.85, rate: 0.15 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.17,
+      breadth: 0.17,
+      workload: 0.42,
+    },
+    workloadMix: { GS: 0.8, SA: 0.08, SV: 0.07, TOI: 0.05 },
+    balancedBonus: 5,
+    specialistCap: { type: "support", maxSupport: 0.45, cap: 84 },
+    smallSampleCap: { maxUsageExclusive: 8, cap: 82 },
+  },
+  PlayerNHL: {
+    winBlend: { raw: 0.8, rate: 0.2 },
+    weights: {
+      efficiency: 0.24,
+      support: 0.17,
+      breadth: 0.17,
+      workload: 0.42,
+    },
+    workloadMix: { GS: 0.8, SA: 0.08, SV: 0.07, TOI: 0.05 },
+    balancedBonus: 5,
+    specialistCap: { type: "support", maxSupport: 0.45, cap: 84 },
+    smallSampleCap: { maxUsageExclusive: 8, cap: 82 },
+  },
+};
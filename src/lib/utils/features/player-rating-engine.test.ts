@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  accumulatePlayerRatingPopulation,
+  getPlayerRatingOutputField,
+  getRatingSkaterCategories,
+  ratePlayerRows,
+  ratePlayerRowsAgainstPopulation,
+  type PlayerRatingPopulation,
+} from "./player-rating-engine";
+import {
+  buildPlayerRatingLeagueAnchors,
+  computeOverallPlayerRating,
+  rankPlayerRatings,
+} from "./player-rating-history";
+
+function skater(id: string, scale: number, posGroup = "F") {
+  return {
+    id,
+    seasonId: "s1",
+    seasonType: "RS",
+    posGroup,
+    GP: 40,
+    G: 10 * scale,
+    A: 12 * scale,
+    P: 22 * scale,
+    PPP: 5 * scale,
+    SOG: 60 * scale,
+    HIT: 30 * scale,
+    BLK: 20 * scale,
+  };
+}
+
+void test("rates skaters within their position group and skips idle rows", () => {
+  const rows = [
+    skater("f1", 1),
+    skater("f2", 2),
+    skater("f3", 3),
+    { ...skater("idle", 0), GP: 0 },
+    skater("d1", 1, "D"),
+  ];
+  const scores = ratePlayerRows(rows, {
+    model: "PlayerTotalStatLine",
+    seasonCategories: ["G", "A", "P", "W", "GAA"],
+  });
+
+  const [low, mid, high, idle, defence] = scores;
+  assert.ok(typeof low === "number" && typeof mid === "number");
+  assert.ok(typeof high === "number");
+  assert.ok(low < mid && mid < high);
+  assert.equal(idle, null);
+  assert.equal(typeof defence, "number");
+  assert.deepEqual(
+    getRatingSkaterCategories("PlayerTotalStatLine", ["G", "A", "P", "W"]),
+    ["G", "A", "P"],
+  );
+  assert.equal(getPlayerRatingOutputField("PlayerNHL"), "seasonRating");
+});
+
+void test("zeroes goalies without ice time", () => {
+  const goalie = (id: string, toi: number) => ({
+    id,
+    seasonId: "s1",
+    seasonType: "RS",
+    posGroup: "G",
+    GP: 10,
+    GS: 10,
+    W: 5,
+    GAA: 2.5,
+    SVP: 0.91,
+    SA: 300,
+    SV: 273,
+    GA: 27,
+    TOI: toi,
+  });
+  const [rated, benched] = ratePlayerRows(
+    [goalie("g1", 600), goalie("g2", 0)],
+    { model: "PlayerSplitStatLine" },
+  );
+  assert.ok(typeof rated === "number" && rated > 0);
+  assert.equal(benched, 0);
+});
+
+void test("rating pages against a collected population matches one pass", () => {
+  const rows = Array.from({ length: 24 }, (_, index) => ({
+    ...skater(`p${index}`, (index % 5) / 2, index % 3 ? "F" : "D"),
+    GP: index % 4 ? 1 : 0,
+    date: `2024-11-${String((index % 9) + 1).padStart(2, "0")}`,
+  }));
+  for (const model of ["PlayerDayStatLine", "PlayerTotalStatLine"] as const) {
+    const options = { model, seasonCategories: ["G", "A", "P", "HIT"] };
+    const pages = [rows.slice(0, 7), rows.slice(7, 15), rows.slice(15)];
+    const population = pages.reduce<PlayerRatingPopulation>(
+      (collected, page) =>
+        accumulatePlayerRatingPopulation(collected, page, options),
+      [],
+    );
+
+    assert.deepEqual(
+      pages.flatMap((page) =>
+        ratePlayerRowsAgainstPopulation(page, population, options),
+      ),
+      ratePlayerRows(rows, options),
+    );
+  }
+});
+
+void test("pulls short NHL careers toward the league anchor", () => {
+  const anchors = buildPlayerRatingLeagueAnchors([
+    { posGroup: "F", seasonRating: 60 },
+    { posGroup: "F", seasonRating: 80 },
+  ]);
+  assert.equal(anchors.F, 70);
+  assert.equal(anchors.G, 62.5);
+
+  const rookie = computeOverallPlayerRating(
+    [{ posGroup: "F", seasonRating: 95, GP: 82 }],
+    anchors.F,
+  );
+  const veteran = computeOverallPlayerRating(
+    Array.from({ length: 4 }, () => ({
+      posGroup: "F",
+      seasonRating: 95,
+      GP: 82,
+    })),
+    anchors.F,
+  );
+  assert.ok(rookie !== null && veteran !== null);
+  assert.ok(rookie < veteran);
+  assert.ok(rookie > anchors.F);
+  assert.equal(computeOverallPlayerRating([{ seasonRating: null }], 70), null);
+});
+
+void test("ranks ratings with shared ranks for ties", () => {
+  const ranked = rankPlayerRatings(
+    [
+      { id: "a", rating: 80 },
+      { id: "b", rating: 90 },
+      { id: "c", rating: 80 },
+      { id: "d", rating: null },
+      { id: "e", rating: 70 },
+    ],
+    (entry) => entry.rating,
+  );
+  assert.deepEqual(
+    ranked.map(({ item, rank }) => [item.id, rank]),
+    [
+      ["b", 1],
+      ["a", 2],
+      ["c", 2],
+      ["e", 4],
+    ],
+  );
+});
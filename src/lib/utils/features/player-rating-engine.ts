@@ -0,0 +1,1482 @@
+import type {
+  PlayerRatingModel,
+  PlayerRatingOutputField,
+  PlayerRatingPosGroup,
+} from "@gshl-types";
+import {
+  GOALIE_RATING_PROFILES,
+  PLAYER_RATING_CALIBRATION,
+  PLAYER_RATING_DEFAULT_SKATER_CATEGORIES,
+  PLAYER_RATING_DISTRIBUTION_LIMITS,
+  PLAYER_RATING_GOALIE_CATEGORIES,
+  PLAYER_RATING_GOALIE_TOI,
+  PLAYER_RATING_LOWER_BETTER_STATS,
+  PLAYER_RATING_RETENTION,
+  SKATER_RATING_PROFILES,
+  type GoalieRatingProfile,
+  type SkaterRatingProfile,
+} from "./player-rating-config";
+
+/*
+ * Typed port of the pure player scoring in the Apps Script `RankingEngine`
+ * (`player-pure.js` and the helpers it borrows from `index.js`). Scores are
+ * meant to match the Apps Script engine to the hundredth; change both
+ * together and check the result with `ratings:parity`.
+ */
+
+type RatingRow = Record<string, unknown>;
+
+type ScoreMode = "retainedRange" | "distribution";
+
+type SeasonTypeKey = "RS" | "PO";
+
+interface ScoreRange {
+  values: number[];
+  best: number;
+  floor: number;
+}
+
+interface SkaterDistributions {
+  scoreMode: ScoreMode;
+  raw: Record<string, ScoreRange>;
+  rate: Record<string, ScoreRange>;
+  usage: ScoreRange;
+  rawUsage: ScoreRange;
+  event: ScoreRange;
+  rawEvent: ScoreRange;
+}
+
+interface GoalieDistributions {
+  scoreMode: ScoreMode;
+  W: ScoreRange;
+  GAA: ScoreRange;
+  SVP: ScoreRange;
+  rateW: ScoreRange;
+  GS: ScoreRange;
+  SA: ScoreRange;
+  GA: ScoreRange;
+  SV: ScoreRange;
+  TOI: ScoreRange;
+}
+
+/** A population's values as ascending `[value, count]` pairs. */
+type Histogram = Array<[number, number]>;
+
+interface RangeSpec {
+  name: string;
+  getter: (row: RatingRow) => number;
+  lowerBetter: boolean;
+}
+
+/**
+ * One rating group's distributions, collected a page of rows at a time so a
+ * table too large to read at once is still rated against its whole group.
+ */
+export interface PlayerRatingGroupPopulation {
+  key: string;
+  posGroup: PlayerRatingPosGroup;
+  seasonType: SeasonTypeKey;
+  hasSeason: boolean;
+  /** Day and week baselines drop unplayed rows once a played row is seen. */
+  played: boolean;
+  ranges: Array<{ name: string; values: Histogram }>;
+}
+
+export type PlayerRatingPopulation = PlayerRatingGroupPopulation[];
+
+interface SkaterCategoryEntry {
+  category: string;
+  score: number;
+  weight: number;
+}
+
+const SEASON_TYPE_SCOPED_MODELS: ReadonlySet<PlayerRatingModel> = new Set([
+  "PlayerSplitStatLine",
+  "PlayerTotalStatLine",
+  "PlayerCareerSplitStatLine",
+  "PlayerCareerTotalStatLine",
+]);
+
+const RATING_CATEGORIES: ReadonlySet<string> = new Set([
+  "G",
+  "A",
+  "P",
+  "PM",
+  "PPP",
+  "SOG",
+  "HIT",
+  "BLK",
+  ...PLAYER_RATING_GOALIE_CATEGORIES,
+]);
+
+const GOALIE_CATEGORY_SET: ReadonlySet<string> = new Set(
+  PLAYER_RATING_GOALIE_CATEGORIES,
+);
+
+const SKATER_DROP_SCENARIOS: Partial<
+  Record<PlayerRatingModel, Array<{ dropCount: number; weight: number }>>
+> = {
+  PlayerDayStatLine: [
+    { dropCount: 3, weight: 0.5 },
+    { dropCount: 2, weight: 0.35 },
+    { dropCount: 1, weight: 0.1 },
+    { dropCount: 0, weight: 0.05 },
+  ],
+  PlayerWeekStatLine: [
+    { dropCount: 3, weight: 0.25 },
+    { dropCount: 2, weight: 0.45 },
+    { dropCount: 1, weight: 0.2 },
+    { dropCount: 0, weight: 0.1 },
+  ],
+};
+
+const SCORE_SCALE = 100;
+
+function clip(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
+
+function toNumber(value: unknown): number {
+  if (value === undefined || value === null || value === "") return 0;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+function readNumber(row: RatingRow, field: string): number {
+  return toNumber(row[field]);
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+function average(values: number[]): number {
+  if (!values.length) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function toText(value: unknown): string {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : "";
+}
+
+function normalizePosGroup(value: unknown): PlayerRatingPosGroup {
+  const raw = toText(value).toUpperCase();
+  if (raw === "G") return "G";
+  if (raw === "D") return "D";
+  return "F";
+}
+
+function isLowerBetterStat(category: string): boolean {
+  return PLAYER_RATING_LOWER_BETTER_STATS.has(category);
+}
+
+function isWeeklyModel(model: PlayerRatingModel): boolean {
+  return model === "PlayerWeekStatLine";
+}
+
+function isDayOrWeekModel(model: PlayerRatingModel): boolean {
+  return model === "PlayerDayStatLine" || model === "PlayerWeekStatLine";
+}
+
+function getScoreMode(model: PlayerRatingModel): ScoreMode {
+  return isDayOrWeekModel(model) ? "retainedRange" : "distribution";
+}
+
+/**
+ * Returns the field a model's rating is written to.
+ *
+ * @param model - The rated stat line model.
+ * @returns `seasonRating` for NHL seasons, otherwise `Rating`.
+ */
+export function getPlayerRatingOutputField(
+  model: PlayerRatingModel,
+): PlayerRatingOutputField {
+  return model === "PlayerNHL" ? "seasonRating" : "Rating";
+}
+
+function parseSeasonCategories(rawValue: unknown): string[] {
+  const values = Array.isArray(rawValue)
+    ? rawValue
+    : typeof rawValue === "string"
+      ? rawValue.split(",")
+      : [];
+  return values
+    .map((value) =>
+      String(value ?? "")
+        .trim()
+        .toUpperCase(),
+    )
+    .filter((value) => RATING_CATEGORIES.has(value));
+}
+
+/**
+ * Resolves the skater categories a model is rated on. NHL seasons and career
+ * rows use the default categories; other models use the season's skater
+ * categories.
+ *
+ * @param model - The rated stat line model.
+ * @param seasonCategories - The season's configured categories, if any.
+ * @returns The skater categories to rate.
+ */
+export function getRatingSkaterCategories(
+  model: PlayerRatingModel,
+  seasonCategories?: unknown,
+): string[] {
+  if (model === "PlayerNHL")
+    return [...PLAYER_RATING_DEFAULT_SKATER_CATEGORIES];
+  const parsed = parseSeasonCategories(seasonCategories);
+  return (
+    parsed.length ? parsed : [...PLAYER_RATING_DEFAULT_SKATER_CATEGORIES]
+  ).filter((category) => !GOALIE_CATEGORY_SET.has(category));
+}
+
+function hasMeaningfulPlayerVolume(
+  row: RatingRow,
+  posGroup: PlayerRatingPosGroup,
+  model: PlayerRatingModel,
+): boolean {
+  if (readNumber(row, "GP") > 0 || readNumber(row, "GS") > 0) return true;
+  if (posGroup === "G") {
+    return ["W", "TOI", "SA", "SV", "GAA", "SVP"].some(
+      (field) => readNumber(row, field) > 0,
+    );
+  }
+  if (model === "PlayerNHL") {
+    return ["G", "A", "P", "PPP", "SOG", "HIT", "BLK"].some(
+      (field) => readNumber(row, field) > 0,
+    );
+  }
+  return false;
+}
+
+function getSkaterProductionVolumeProxy(row: RatingRow): number {
+  return (
+    0.3 * readNumber(row, "G") +
+    0.3 * readNumber(row, "A") +
+    0.15 * readNumber(row, "PPP") +
+    0.15 * readNumber(row, "SOG") +
+    0.05 * readNumber(row, "HIT") +
+    0.05 * readNumber(row, "BLK")
+  );
+}
+
+function getUsageValue(
+  row: RatingRow,
+  posGroup: PlayerRatingPosGroup,
+  model: PlayerRatingModel,
+): number {
+  if (posGroup === "G") {
+    const starts = readNumber(row, "GS");
+    if (starts > 0) return starts;
+    return readNumber(row, "GP");
+  }
+  const gamesPlayed = readNumber(row, "GP");
+  if (gamesPlayed > 0) return gamesPlayed;
+  const starts = readNumber(row, "GS");
+  if (starts > 0) return starts;
+  if (model === "PlayerNHL") return getSkaterProductionVolumeProxy(row);
+  return 0;
+}
+
+function getUsageRateValue(
+  row: RatingRow,
+  field: string,
+  posGroup: PlayerRatingPosGroup,
+  model: PlayerRatingModel,
+): number {
+  const usage = getUsageValue(row, posGroup, model);
+  if (usage <= 0) return 0;
+  return readNumber(row, field) / usage;
+}
+
+/** Normalizes weekly counting stats toward a comparable full-week workload. */
+function getComparableWeekUsageValue(
+  usage: number,
+  posGroup: PlayerRatingPosGroup,
+  model: PlayerRatingModel,
+): number {
+  if (!Number.isFinite(usage) || usage <= 0) return 0;
+  if (!isWeeklyModel(model)) return usage;
+
+  if (posGroup !== "G") {
+    if (usage >= 3) return 3.5;
+    if (usage >= 2) return 2.75 + (usage - 2) * 0.75;
+    if (usage >= 1) return 2 + (usage - 1) * 0.75;
+    return usage;
+  }
+
+  const { targetUsage, fullUsage } =
+    PLAYER_RATING_CALIBRATION.weekNormalization.goalie;
+  if (usage >= targetUsage) return targetUsage;
+  const completion = clip(usage / Math.max(fullUsage, 0.0001), 0, 1);
+  return usage + (targetUsage - usage) * completion;
+}
+
+function getComparableUsageValue(
+  row: RatingRow,
+  posGroup: PlayerRatingPosGroup,
+  model: PlayerRatingModel,
+): number {
+  return getComparableWeekUsageValue(
+    getUsageValue(row, posGroup, model),
+    posGroup,
+    model,
+  );
+}
+
+function scaleWeeklyCountingValue(
+  value: number,
+  row: RatingRow,
+  posGroup: PlayerRatingPosGroup,
+  model: PlayerRatingModel,
+): number {
+  if (!Number.isFinite(value) || value <= 0) return Math.max(value, 0);
+  const usage = getUsageValue(row, posGroup, model);
+  if (usage <= 0) return value;
+  const comparableUsage = getComparableUsageValue(row, posGroup, model);
+  if (comparableUsage <= 0) return value;
+  return value * (comparableUsage / usage);
+}
+
+function getComparableCategoryValue(
+  row: RatingRow,
+  category: string,
+  posGroup: PlayerRatingPosGroup,
+  model: PlayerRatingModel,
+): number {
+  const value = readNumber(row, category);
+  if (!isWeeklyModel(model)) return value;
+  if (category === "GAA" || category === "SVP") return value;
+  return scaleWeeklyCountingValue(value, row, posGroup, model);
+}
+
+function getSkaterEventLoadValue(row: RatingRow): number {
+  return (
+    0.4 * readNumber(row, "SOG") +
+    0.35 * readNumber(row, "HIT") +
+    0.25 * readNumber(row, "BLK")
+  );
+}
+
+function getComparableSkaterEventLoadValue(
+  row: RatingRow,
+  model: PlayerRatingModel,
+): number {
+  const eventLoad = getSkaterEventLoadValue(row);
+  if (!isWeeklyModel(model)) return eventLoad;
+  return scaleWeeklyCountingValue(eventLoad, row, "F", model);
+}
+
+function getDailyPlayedFlag(row: RatingRow): boolean {
+  if (toText(row.GP).trim() === "1") return true;
+  return readNumber(row, "GS") > 0;
+}
+
+function isDayWeekBaselineRow(
+  row: RatingRow,
+  model: PlayerRatingModel,
+  posGroup: PlayerRatingPosGroup,
+): boolean {
+  if (!hasMeaningfulPlayerVolume(row, posGroup, model)) return false;
+  if (model === "PlayerDayStatLine") return getDailyPlayedFlag(row);
+  return getUsageValue(row, posGroup, model) > 0;
+}
+
+function addHistogramValues(histogram: Histogram, values: number[]): Histogram {
+  const counts = new Map(histogram);
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts].sort(([left], [right]) => left - right);
+}
+
+function histogramSize(histogram: Histogram): number {
+  return histogram.reduce((total, [, count]) => total + count, 0);
+}
+
+/** Keeps the `limit` best values, counting repeats, or all of them at zero. */
+function limitHistogram(
+  histogram: Histogram,
+  limit: number,
+  lowerBetter: boolean,
+): Histogram {
+  if (!limit || histogramSize(histogram) <= limit) return histogram;
+  const kept: Histogram = [];
+  let remaining = limit;
+  for (const [value, count] of lowerBetter
+    ? histogram
+    : [...histogram].reverse()) {
+    if (remaining <= 0) break;
+    kept.push([value, Math.min(count, remaining)]);
+    remaining -= count;
+  }
+  return lowerBetter ? kept : kept.reverse();
+}
+
+function histogramValueAt(histogram: Histogram, index: number): number {
+  let seen = 0;
+  for (const [value, count] of histogram) {
+    seen += count;
+    if (index < seen) return value;
+  }
+  return 0;
+}
+
+function histogramPercentile(histogram: Histogram, percentile: number): number {
+  const size = histogramSize(histogram);
+  if (!size) return 0;
+  if (size === 1) return histogramValueAt(histogram, 0);
+  const index = clip(Number(percentile) || 0, 0, 1) * (size - 1);
+  const lowerIndex = Math.floor(index);
+  const upperIndex = Math.ceil(index);
+  const lowerValue = histogramValueAt(histogram, lowerIndex);
+  const upperValue = histogramValueAt(histogram, upperIndex);
+  if (lowerIndex === upperIndex) return lowerValue;
+  return lowerValue + (upperValue - lowerValue) * (index - lowerIndex);
+}
+
+function percentileRank(
+  value: number,
+  sortedValues: number[],
+  lowerBetter: boolean,
+): number {
+  if (!sortedValues.length) return 0.5;
+  const numeric = Number.isFinite(value) ? value : 0;
+  if (sortedValues.length === 1) return 0.5;
+
+  let less = 0;
+  let equal = 0;
+  for (const sortedValue of sortedValues) {
+    if (sortedValue < numeric) less += 1;
+    else if (sortedValue === numeric) equal += 1;
+  }
+  const rank = (less + Math.max(equal - 1, 0) / 2) / (sortedValues.length - 1);
+  return lowerBetter ? 1 - rank : rank;
+}
+
+function getRetainedRangeShare(
+  model: PlayerRatingModel,
+  posGroup: PlayerRatingPosGroup,
+): number {
+  if (model === "PlayerDayStatLine") {
+    return PLAYER_RATING_RETENTION.dayShare[posGroup];
+  }
+  if (model === "PlayerWeekStatLine") {
+    return PLAYER_RATING_RETENTION.weekShare[posGroup];
+  }
+  return 0;
+}
+
+function computeRetainedRangeScore(
+  value: number,
+  baselineValue: number,
+  bestValue: number,
+  lowerBetter: boolean,
+): number {
+  const numeric = Number.isFinite(value) ? value : 0;
+  const baseline = Number.isFinite(baselineValue) ? baselineValue : 0;
+  const best = Number.isFinite(bestValue) ? bestValue : 0;
+  const { negativeCarry, negativeFloor } = PLAYER_RATING_RETENTION;
+
+  const span = lowerBetter ? baseline - best : best - baseline;
+  if (span <= 0.0001) {
+    return (lowerBetter ? numeric <= best : numeric >= best) ? 1 : 0;
+  }
+  const score = (lowerBetter ? baseline - numeric : numeric - baseline) / span;
+  if (score >= 0) return clip(score, 0, 1);
+  return Math.max(negativeFloor, score * negativeCarry);
+}
+
+function getSeasonTypeKey(row: RatingRow | undefined): SeasonTypeKey {
+  const seasonType = toText(row?.seasonType).trim().toUpperCase();
+  return seasonType === "PO" ? "PO" : "RS";
+}
+
+function getDistributionLimit(
+  model: PlayerRatingModel,
+  posGroup: PlayerRatingPosGroup,
+  seasonType: SeasonTypeKey,
+): number {
+  const limits = PLAYER_RATING_DISTRIBUTION_LIMITS[model];
+  if (!limits) return 0;
+  if ("RS" in limits) {
+    return SEASON_TYPE_SCOPED_MODELS.has(model)
+      ? limits[seasonType][posGroup]
+      : 0;
+  }
+  return limits[posGroup];
+}
+
+function toScoreRange(
+  histogram: Histogram,
+  lowerBetter: boolean,
+  retainedShare: number,
+  scoreMode: ScoreMode,
+): ScoreRange {
+  if (!histogram.length) return { values: [], best: 0, floor: 0 };
+  const [best] = lowerBetter ? histogram[0]! : histogram[histogram.length - 1]!;
+  const share = clip(Number(retainedShare) || 0, 0, 1);
+  return {
+    // Only distribution scoring ranks against every value.
+    values:
+      scoreMode === "distribution"
+        ? histogram.flatMap(([value, count]) =>
+            Array<number>(count).fill(value),
+          )
+        : [],
+    best,
+    floor:
+      share <= 0
+        ? best
+        : histogramPercentile(histogram, lowerBetter ? share : 1 - share),
+  };
+}
+
+function scoreAgainstRange(
+  value: number,
+  range: ScoreRange | undefined,
+  lowerBetter: boolean,
+  scoreMode: ScoreMode,
+): number {
+  if (scoreMode === "retainedRange") {
+    return computeRetainedRangeScore(
+      value,
+      range?.floor ?? 0,
+      range?.best ?? 0,
+      lowerBetter,
+    );
+  }
+  return percentileRank(value, range?.values ?? [], lowerBetter);
+}
+
+function clampCategoryScore(score: number, model: PlayerRatingModel): number {
+  if (!Number.isFinite(score)) return 0;
+  return isDayOrWeekModel(model) ? Math.max(score, 0) : score;
+}
+
+function compressScoreAbove(
+  score: number,
+  threshold: number,
+  carry: number,
+): number {
+  if (!Number.isFinite(score)) return 0;
+  if (score <= threshold) return score;
+  return threshold + (score - threshold) * carry;
+}
+
+function applyModelCalibration(
+  score: number,
+  model: PlayerRatingModel,
+  posGroup: PlayerRatingPosGroup,
+): number {
+  if (!Number.isFinite(score)) return 0;
+  if (model === "PlayerDayStatLine") {
+    return score * PLAYER_RATING_CALIBRATION.dayPositionMultiplier[posGroup];
+  }
+  if (model === "PlayerWeekStatLine") {
+    return score * PLAYER_RATING_CALIBRATION.weekPositionMultiplier[posGroup];
+  }
+  if (model === "PlayerNHL") return compressScoreAbove(score, 100, 0.78);
+  return score;
+}
+
+function finalizeScore(score: number): number {
+  if (!Number.isFinite(score)) return 0;
+  return roundScore(Math.max(score, 0));
+}
+
+function computeBreadthScore(values: number[], targetDepth: number): number {
+  if (!values.length) return 0;
+  const depth = Math.max(
+    1,
+    Math.min(Number(targetDepth) || values.length, values.length),
+  );
+  const countAbove = (threshold: number) =>
+    Math.min(values.filter((value) => value >= threshold).length, depth);
+  return (
+    0.5 * (countAbove(0.6) / depth) +
+    0.3 * (countAbove(0.75) / depth) +
+    0.2 * (countAbove(0.9) / depth)
+  );
+}
+
+function computeSupportScore(values: number[], count: number): number {
+  if (!values.length) return 0;
+  const sorted = values.slice().sort((left, right) => right - left);
+  return average(sorted.slice(1, 1 + count));
+}
+
+function weightedEntryScore(entry: SkaterCategoryEntry): number {
+  return (Number(entry.score) || 0) * (Number(entry.weight) || 0);
+}
+
+function computeWeightedScoreAverage(entries: SkaterCategoryEntry[]): number {
+  let total = 0;
+  let totalWeight = 0;
+  for (const entry of entries) {
+    const weight = Number(entry.weight) || 0;
+    if (weight <= 0) continue;
+    total += (Number(entry.score) || 0) * weight;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? total / totalWeight : 0;
+}
+
+function sortByWeightedScore(
+  entries: SkaterCategoryEntry[],
+): SkaterCategoryEntry[] {
+  return entries
+    .slice()
+    .sort(
+      (left, right) => weightedEntryScore(right) - weightedEntryScore(left),
+    );
+}
+
+function computeWeightedTopAverage(
+  entries: SkaterCategoryEntry[],
+  skipCount: number,
+  takeCount: number,
+): number {
+  if (!entries.length) return 0;
+  const sorted = sortByWeightedScore(entries);
+  return computeWeightedScoreAverage(
+    sorted.slice(skipCount, skipCount + (takeCount || sorted.length)),
+  );
+}
+
+function getNhlBreadthEntries(
+  entries: SkaterCategoryEntry[],
+): SkaterCategoryEntry[] {
+  return sortByWeightedScore(entries).slice(0, Math.min(5, entries.length));
+}
+
+function computePlayerNhlCoreScore(entries: SkaterCategoryEntry[]): number {
+  const topFiveAverage = computeWeightedScoreAverage(
+    getNhlBreadthEntries(entries),
+  );
+  const topThreeAverage = computeWeightedTopAverage(entries, 0, 3);
+  return 0.72 * topFiveAverage + 0.28 * topThreeAverage;
+}
+
+function applySkaterTalentCategoryEmphasis(
+  model: PlayerRatingModel,
+  category: string,
+  score: number,
+): number {
+  if (!Number.isFinite(score)) return 0;
+  let adjusted = score;
+  let maxScore = 1;
+
+  if (!isDayOrWeekModel(model)) {
+    maxScore = 1.08;
+    if (category === "P") {
+      maxScore = model === "PlayerNHL" ? 1.14 : 1.1;
+      if (adjusted > 0.72) adjusted += (adjusted - 0.72) * 0.22;
+      if (adjusted > 0.88) {
+        adjusted += (adjusted - 0.88) * (model === "PlayerNHL" ? 0.28 : 0.18);
+      }
+    }
+  }
+
+  return clip(adjusted, 0, maxScore);
+}
+
+function getSkaterCategoryWeight(
+  model: PlayerRatingModel,
+  category: string,
+): number {
+  if (category !== "P") return 1;
+  if (model === "PlayerNHL") return 1.18;
+  return isDayOrWeekModel(model) ? 1.08 : 1.14;
+}
+
+function findRange(
+  group: PlayerRatingGroupPopulation,
+  name: string,
+): Histogram {
+  return group.ranges.find((range) => range.name === name)?.values ?? [];
+}
+
+function skaterRangeSpecs(
+  categories: string[],
+  model: PlayerRatingModel,
+  posGroup: PlayerRatingPosGroup,
+): RangeSpec[] {
+  return [
+    ...categories.flatMap((category): RangeSpec[] => {
+      const lowerBetter = isLowerBetterStat(category);
+      return [
+        {
+          name: `raw:${category}`,
+          getter: (row) =>
+            getComparableCategoryValue(row, category, posGroup, model),
+          lowerBetter,
+        },
+        {
+          name: `rate:${category}`,
+          getter: (row) => getUsageRateValue(row, category, posGroup, model),
+          lowerBetter,
+        },
+      ];
+    }),
+    {
+      name: "usage",
+      getter: (row) => getComparableUsageValue(row, posGroup, model),
+      lowerBetter: false,
+    },
+    {
+      name: "rawUsage",
+      getter: (row) => getUsageValue(row, posGroup, model),
+      lowerBetter: false,
+    },
+    {
+      name: "event",
+      getter: (row) => getComparableSkaterEventLoadValue(row, model),
+      lowerBetter: false,
+    },
+    {
+      name: "rawEvent",
+      getter: (row) => getSkaterEventLoadValue(row),
+      lowerBetter: false,
+    },
+  ];
+}
+
+function buildSkaterDistributions(
+  group: PlayerRatingGroupPopulation,
+  categories: string[],
+  model: PlayerRatingModel,
+): SkaterDistributions {
+  const scoreMode = getScoreMode(model);
+  const share = getRetainedRangeShare(model, group.posGroup);
+  const range = (name: string, lowerBetter = false) =>
+    toScoreRange(findRange(group, name), lowerBetter, share, scoreMode);
+
+  const raw: Record<string, ScoreRange> = {};
+  const rate: Record<string, ScoreRange> = {};
+  for (const category of categories) {
+    const lowerBetter = isLowerBetterStat(category);
+    raw[category] = range(`raw:${category}`, lowerBetter);
+    rate[category] = range(`rate:${category}`, lowerBetter);
+  }
+  return {
+    scoreMode,
+    raw,
+    rate,
+    usage: range("usage"),
+    rawUsage: range("rawUsage"),
+    event: range("event"),
+    rawEvent: range("rawEvent"),
+  };
+}
+
+function computeSkaterCategoryScore(
+  row: RatingRow,
+  category: string,
+  profile: SkaterRatingProfile,
+  distributions: SkaterDistributions,
+  model: PlayerRatingModel,
+): number {
+  const lowerBetter = isLowerBetterStat(category);
+  const rawScore = clampCategoryScore(
+    scoreAgainstRange(
+      getComparableCategoryValue(row, category, "F", model),
+      distributions.raw[category],
+      lowerBetter,
+      distributions.scoreMode,
+    ),
+    model,
+  );
+  const rateScore = profile.categoryBlend.rate
+    ? clampCategoryScore(
+        scoreAgainstRange(
+          getUsageRateValue(row, category, "F", model),
+          distributions.rate[category],
+          lowerBetter,
+          distributions.scoreMode,
+        ),
+        model,
+      )
+    : rawScore;
+  return clampCategoryScore(
+    profile.categoryBlend.raw * rawScore +
+      profile.categoryBlend.rate * rateScore,
+    model,
+  );
+}
+
+function computeSkaterVolumeScore(
+  row: RatingRow,
+  profile: SkaterRatingProfile,
+  distributions: SkaterDistributions,
+  model: PlayerRatingModel,
+): number {
+  const blend = profile.volumeScoreBlend ?? { normalized: 1, raw: 0 };
+  const { scoreMode } = distributions;
+  const normalizedScore =
+    profile.volumeMix.usage *
+      scoreAgainstRange(
+        getComparableUsageValue(row, "F", model),
+        distributions.usage,
+        false,
+        scoreMode,
+      ) +
+    profile.volumeMix.event *
+      scoreAgainstRange(
+        getComparableSkaterEventLoadValue(row, model),
+        distributions.event,
+        false,
+        scoreMode,
+      );
+  if (!blend.raw) return normalizedScore;
+
+  const rawScore =
+    profile.volumeMix.usage *
+      scoreAgainstRange(
+        getUsageValue(row, "F", model),
+        distributions.rawUsage,
+        false,
+        scoreMode,
+      ) +
+    profile.volumeMix.event *
+      scoreAgainstRange(
+        getSkaterEventLoadValue(row),
+        distributions.rawEvent,
+        false,
+        scoreMode,
+      );
+  return blend.normalized * normalizedScore + blend.raw * rawScore;
+}
+
+function applySkaterSpecialistCap(
+  score: number,
+  profile: SkaterRatingProfile,
+  supportScore: number,
+  breadthScore: number,
+): number {
+  const cap = profile.specialistCap;
+  if (!cap) return score;
+  if (cap.maxBreadth !== undefined) {
+    return supportScore < cap.maxSupport && breadthScore < cap.maxBreadth
+      ? Math.min(score, cap.cap)
+      : score;
+  }
+  return supportScore < cap.maxSupport ? Math.min(score, cap.cap) : score;
+}
+
+function applySkaterSmallSampleCaps(
+  score: number,
+  row: RatingRow,
+  profile: SkaterRatingProfile,
+  model: PlayerRatingModel,
+): number {
+  const usage = getUsageValue(row, "F", model);
+  let capped = score;
+  for (const rule of profile.smallSampleCaps) {
+    if (rule.maxUsage !== undefined && usage <= rule.maxUsage) {
+      capped = Math.min(capped, rule.cap);
+    }
+    if (
+      rule.maxUsageExclusive !== undefined &&
+      usage < rule.maxUsageExclusive
+    ) {
+      capped = Math.min(capped, rule.cap);
+    }
+  }
+  return capped;
+}
+
+function maybeApplyBalancedBonus(
+  score: number,
+  balancedBonus: number,
+  supportScore: number,
+  breadthScore: number,
+  volumeOrWorkload: number,
+): number {
+  if (!balancedBonus) return score;
+  return supportScore >= 0.75 && breadthScore >= 0.6 && volumeOrWorkload >= 0.55
+    ? score + balancedBonus
+    : score;
+}
+
+/** Drops the weakest weighted categories, always keeping at least one. */
+function splitSkaterEntriesByDropCount(
+  entries: SkaterCategoryEntry[],
+  dropCount: number,
+): SkaterCategoryEntry[] {
+  const maxDrop = Math.max(0, Math.min(dropCount, entries.length - 1));
+  if (!maxDrop) return entries.slice();
+  const dropped = new Set(
+    entries
+      .slice()
+      .sort((left, right) => {
+        const difference = weightedEntryScore(left) - weightedEntryScore(right);
+        if (difference !== 0) return difference;
+        return (Number(left.score) || 0) - (Number(right.score) || 0);
+      })
+      .slice(0, maxDrop)
+      .map((entry) => entry.category),
+  );
+  return entries.filter((entry) => !dropped.has(entry.category));
+}
+
+function scoreSkaterScenario(
+  entries: SkaterCategoryEntry[],
+  model: PlayerRatingModel,
+  dropCount: number,
+): {
+  efficiency: number;
+  support: number;
+  breadth: number;
+  star: number;
+  core: number;
+} {
+  const kept = splitSkaterEntriesByDropCount(entries, dropCount);
+  const breadthEntries =
+    model === "PlayerNHL"
+      ? getNhlBreadthEntries(kept)
+      : kept.slice(0, Math.min(5, kept.length));
+  return {
+    efficiency: computeWeightedScoreAverage(
+      model === "PlayerNHL" ? getNhlBreadthEntries(kept) : kept,
+    ),
+    support: computeWeightedTopAverage(kept, 1, 4),
+    breadth: computeBreadthScore(
+      breadthEntries.map((entry) => entry.score),
+      breadthEntries.length,
+    ),
+    star: computeWeightedTopAverage(kept, 0, Math.min(3, kept.length)),
+    core: model === "PlayerNHL" ? computePlayerNhlCoreScore(kept) : 0,
+  };
+}
+
+function rateSkaterGroup(
+  rows: RatingRow[],
+  model: PlayerRatingModel,
+  categories: string[],
+  distributions: SkaterDistributions,
+): Array<number | null> {
+  const profile = SKATER_RATING_PROFILES[model];
+  const scenarios = SKATER_DROP_SCENARIOS[model] ?? [
+    { dropCount: 0, weight: 1 },
+  ];
+  const { weights } = profile;
+
+  return rows.map((row) => {
+    if (!hasMeaningfulPlayerVolume(row, "F", model) && model !== "PlayerNHL") {
+      return null;
+    }
+    const entries = categories.map(
+      (category): SkaterCategoryEntry => ({
+        category,
+        score: applySkaterTalentCategoryEmphasis(
+          model,
+          category,
+          computeSkaterCategoryScore(
+            row,
+            category,
+            profile,
+            distributions,
+            model,
+          ),
+        ),
+        weight: getSkaterCategoryWeight(model, category),
+      }),
+    );
+    const volumeScore = computeSkaterVolumeScore(
+      row,
+      profile,
+      distributions,
+      model,
+    );
+    const score = scenarios.reduce((sum, scenario) => {
+      const metrics = scoreSkaterScenario(entries, model, scenario.dropCount);
+      let scenarioScore =
+        SCORE_SCALE *
+        (weights.efficiency * metrics.efficiency +
+          weights.support * metrics.support +
+          weights.breadth * metrics.breadth +
+          weights.volume * volumeScore +
+          weights.star * metrics.star +
+          (weights.core ?? 0) * metrics.core);
+      scenarioScore = maybeApplyBalancedBonus(
+        scenarioScore,
+        profile.balancedBonus,
+        metrics.support,
+        metrics.breadth,
+        volumeScore,
+      );
+      scenarioScore = applySkaterSpecialistCap(
+        scenarioScore,
+        profile,
+        metrics.support,
+        metrics.breadth,
+      );
+      scenarioScore = applySkaterSmallSampleCaps(
+        scenarioScore,
+        row,
+        profile,
+        model,
+      );
+      return sum + scenario.weight * scenarioScore;
+    }, 0);
+    return finalizeScore(
+      applyModelCalibration(score, model, normalizePosGroup(row.posGroup)),
+    );
+  });
+}
+
+function goalieRangeSpecs(model: PlayerRatingModel): RangeSpec[] {
+  const comparable = (category: string) => (row: RatingRow) =>
+    getComparableCategoryValue(row, category, "G", model);
+  return [
+    { name: "W", getter: comparable("W"), lowerBetter: false },
+    { name: "GAA", getter: (row) => readNumber(row, "GAA"), lowerBetter: true },
+    {
+      name: "SVP",
+      getter: (row) => readNumber(row, "SVP"),
+      lowerBetter: false,
+    },
+    {
+      name: "rateW",
+      getter: (row) => getUsageRateValue(row, "W", "G", model),
+      lowerBetter: false,
+    },
+    {
+      name: "GS",
+      getter: (row) => getComparableUsageValue(row, "G", model),
+      lowerBetter: false,
+    },
+    { name: "SA", getter: comparable("SA"), lowerBetter: false },
+    { name: "GA", getter: comparable("GA"), lowerBetter: true },
+    { name: "SV", getter: comparable("SV"), lowerBetter: false },
+    { name: "TOI", getter: comparable("TOI"), lowerBetter: false },
+  ];
+}
+
+function buildGoalieDistributions(
+  group: PlayerRatingGroupPopulation,
+  model: PlayerRatingModel,
+): GoalieDistributions {
+  const scoreMode = getScoreMode(model);
+  const share = getRetainedRangeShare(model, "G");
+  const range = (name: string, lowerBetter = false) =>
+    toScoreRange(findRange(group, name), lowerBetter, share, scoreMode);
+
+  return {
+    scoreMode,
+    W: range("W"),
+    GAA: range("GAA", true),
+    SVP: range("SVP"),
+    rateW: range("rateW"),
+    GS: range("GS"),
+    SA: range("SA"),
+    GA: range("GA", true),
+    SV: range("SV"),
+    TOI: range("TOI"),
+  };
+}
+
+function computeGoalieWinScore(
+  row: RatingRow,
+  profile: GoalieRatingProfile,
+  distributions: GoalieDistributions,
+  model: PlayerRatingModel,
+): number {
+  const rawScore = clampCategoryScore(
+    scoreAgainstRange(
+      getComparableCategoryValue(row, "W", "G", model),
+      distributions.W,
+      false,
+      distributions.scoreMode,
+    ),
+    model,
+  );
+  if (!profile.winBlend.rate) return rawScore;
+  const rateScore = clampCategoryScore(
+    scoreAgainstRange(
+      getUsageRateValue(row, "W", "G", model),
+      distributions.rateW,
+      false,
+      distributions.scoreMode,
+    ),
+    model,
+  );
+  return clampCategoryScore(
+    profile.winBlend.raw * rawScore + profile.winBlend.rate * rateScore,
+    model,
+  );
+}
+
+function computeGoalieWorkloadScore(
+  row: RatingRow,
+  profile: GoalieRatingProfile,
+  distributions: GoalieDistributions,
+  model: PlayerRatingModel,
+): number {
+  const mix = profile.workloadMix;
+  const { scoreMode } = distributions;
+  let score = 0;
+  if (mix.GS) {
+    score +=
+      mix.GS *
+      scoreAgainstRange(
+        getComparableUsageValue(row, "G", model),
+        distributions.GS,
+        false,
+        scoreMode,
+      );
+  }
+  for (const field of ["SA", "GA", "SV", "TOI"] as const) {
+    const share = mix[field];
+    if (!share) continue;
+    score +=
+      share *
+      scoreAgainstRange(
+        getComparableCategoryValue(row, field, "G", model),
+        distributions[field],
+        field === "GA",
+        scoreMode,
+      );
+  }
+  return score;
+}
+
+function applyGoalieSpecialistCap(
+  score: number,
+  profile: GoalieRatingProfile,
+  categoryScores: number[],
+  supportScore: number,
+): number {
+  const cap = profile.specialistCap;
+  if (!cap) return score;
+  if (cap.type === "singleElite") {
+    const eliteCount = categoryScores.filter(
+      (value) => value >= cap.threshold,
+    ).length;
+    return eliteCount <= 1 ? Math.min(score, cap.cap) : score;
+  }
+  return supportScore < cap.maxSupport ? Math.min(score, cap.cap) : score;
+}
+
+function applyGoalieSmallSampleCap(
+  score: number,
+  row: RatingRow,
+  profile: GoalieRatingProfile,
+  workloadScore: number,
+  model: PlayerRatingModel,
+): number {
+  const rule = profile.smallSampleCap;
+  if (!rule) return score;
+  const usage = getUsageValue(row, "G", model);
+  if (
+    rule.maxUsage !== undefined &&
+    usage <= rule.maxUsage &&
+    (rule.minWorkload === undefined || workloadScore < rule.minWorkload)
+  ) {
+    return Math.min(score, rule.cap);
+  }
+  if (rule.maxUsageExclusive !== undefined && usage < rule.maxUsageExclusive) {
+    return Math.min(score, rule.cap);
+  }
+  return score;
+}
+
+/** Goalies with negligible ice time are capped toward zero. */
+function applyGoalieToiCap(score: number, row: RatingRow): number {
+  const { minimumToiForRating, negligibleToiThreshold, negligibleToiMaxScore } =
+    PLAYER_RATING_GOALIE_TOI;
+  const toi = readNumber(row, "TOI");
+  if (toi <= minimumToiForRating) return 0;
+  if (toi >= negligibleToiThreshold) return score;
+  return Math.min(
+    score,
+    negligibleToiMaxScore * clip(toi / negligibleToiThreshold, 0, 1),
+  );
+}
+
+function rateGoalieGroup(
+  rows: RatingRow[],
+  model: PlayerRatingModel,
+  distributions: GoalieDistributions,
+): Array<number | null> {
+  const profile = GOALIE_RATING_PROFILES[model];
+  const { scoreMode } = distributions;
+  const { weights } = profile;
+
+  return rows.map((row) => {
+    if (!hasMeaningfulPlayerVolume(row, "G", model) && model !== "PlayerNHL") {
+      return null;
+    }
+    if (
+      readNumber(row, "TOI") <= PLAYER_RATING_GOALIE_TOI.minimumToiForRating
+    ) {
+      return 0;
+    }
+
+    const coreScores = {
+      W: computeGoalieWinScore(row, profile, distributions, model),
+      GAA: clampCategoryScore(
+        scoreAgainstRange(
+          readNumber(row, "GAA"),
+          distributions.GAA,
+          true,
+          scoreMode,
+        ),
+        model,
+      ),
+      SVP: clampCategoryScore(
+        scoreAgainstRange(
+          readNumber(row, "SVP"),
+          distributions.SVP,
+          false,
+          scoreMode,
+        ),
+        model,
+      ),
+    };
+    const categoryScores = [coreScores.W, coreScores.GAA, coreScores.SVP];
+    const efficiencyScore =
+      (coreScores.W * 0.3 + coreScores.GAA * 0.35 + coreScores.SVP * 0.35) /
+      (0.3 + 0.35 + 0.35);
+    const supportScore = computeSupportScore(categoryScores, 2);
+    const breadthScore = computeBreadthScore(
+      categoryScores,
+      categoryScores.length,
+    );
+    const workloadScore = computeGoalieWorkloadScore(
+      row,
+      profile,
+      distributions,
+      model,
+    );
+    let score =
+      SCORE_SCALE *
+      (weights.efficiency * efficiencyScore +
+        weights.support * supportScore +
+        weights.breadth * breadthScore +
+        weights.workload * workloadScore);
+    score = maybeApplyBalancedBonus(
+      score,
+      profile.balancedBonus,
+      supportScore,
+      breadthScore,
+      workloadScore,
+    );
+    score = applyGoalieSpecialistCap(
+      score,
+      profile,
+      categoryScores,
+      supportScore,
+    );
+    score = applyGoalieSmallSampleCap(
+      score,
+      row,
+      profile,
+      workloadScore,
+      model,
+    );
+    score = applyModelCalibration(
+      score,
+      model,
+      normalizePosGroup(row.posGroup),
+    );
+    return finalizeScore(applyGoalieToiCap(score, row));
+  });
+}
+
+function buildRatingGroupKey(row: RatingRow, model: PlayerRatingModel): string {
+  const seasonId = toText(row.seasonId);
+  const posGroup = normalizePosGroup(row.posGroup);
+  return SEASON_TYPE_SCOPED_MODELS.has(model)
+    ? [seasonId, getSeasonTypeKey(row), posGroup].join("|")
+    : [seasonId, posGroup].join("|");
+}
+
+export interface RatePlayerRowsOptions {
+  model: PlayerRatingModel;
+  /** The season's configured categories; career rows use the defaults. */
+  seasonCategories?: unknown;
+}
+
+function groupRatingRows(
+  rows: readonly object[],
+  model: PlayerRatingModel,
+): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = buildRatingGroupKey(row as RatingRow, model);
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  });
+  return groups;
+}
+
+function createGroupPopulation(
+  key: string,
+  row: RatingRow | undefined,
+): PlayerRatingGroupPopulation {
+  return {
+    key,
+    posGroup: normalizePosGroup(row?.posGroup),
+    seasonType: getSeasonTypeKey(row),
+    hasSeason: toText(row?.seasonId) !== "",
+    played: false,
+    ranges: [],
+  };
+}
+
+function getGroupSkaterCategories(
+  group: PlayerRatingGroupPopulation,
+  options: RatePlayerRowsOptions,
+): string[] {
+  return getRatingSkaterCategories(
+    options.model,
+    group.hasSeason ? options.seasonCategories : undefined,
+  );
+}
+
+function accumulateGroupPopulation(
+  group: PlayerRatingGroupPopulation,
+  rows: RatingRow[],
+  options: RatePlayerRowsOptions,
+): PlayerRatingGroupPopulation {
+  const { model } = options;
+  const { posGroup } = group;
+  const poolRows = rows.filter((row) =>
+    hasMeaningfulPlayerVolume(row, posGroup === "G" ? "G" : "F", model),
+  );
+  let { played, ranges } = group;
+  let baselineRows = poolRows;
+  if (getScoreMode(model) === "retainedRange") {
+    const playedRows = poolRows.filter((row) =>
+      isDayWeekBaselineRow(row, model, posGroup),
+    );
+    // Unplayed rows only form the baseline while no row has been played.
+    if (playedRows.length && !played) ranges = [];
+    played ||= playedRows.length > 0;
+    baselineRows = played ? playedRows : poolRows;
+  }
+  const limit = getDistributionLimit(model, posGroup, group.seasonType);
+  const specs =
+    posGroup === "G"
+      ? goalieRangeSpecs(model)
+      : skaterRangeSpecs(
+          getGroupSkaterCategories(group, options),
+          model,
+          posGroup,
+        );
+  return {
+    ...group,
+    played,
+    ranges: specs.map((spec) => ({
+      name: spec.name,
+      values: limitHistogram(
+        addHistogramValues(
+          ranges.find((range) => range.name === spec.name)?.values ?? [],
+          baselineRows.map(spec.getter),
+        ),
+        limit,
+        spec.lowerBetter,
+      ),
+    })),
+  };
+}
+
+/**
+ * Adds a page of stat lines to the rating groups' distributions. Feeding
+ * every page of a table through here and then rating each page with
+ * `ratePlayerRowsAgainstPopulation` scores rows as `ratePlayerRows` would
+ * with the whole table at once.
+ *
+ * @param population - The groups collected from earlier pages.
+ * @param rows - The next page of stat lines.
+ * @param options - The model and the season's categories.
+ * @returns The population with this page's rows added.
+ */
+export function accumulatePlayerRatingPopulation(
+  population: PlayerRatingPopulation,
+  rows: readonly object[],
+  options: RatePlayerRowsOptions,
+): PlayerRatingPopulation {
+  const byKey = new Map(population.map((group) => [group.key, group]));
+  for (const [key, indexes] of groupRatingRows(rows, options.model)) {
+    const groupRows = indexes.map((index) => rows[index] as RatingRow);
+    byKey.set(
+      key,
+      accumulateGroupPopulation(
+        byKey.get(key) ?? createGroupPopulation(key, groupRows[0]),
+        groupRows,
+        options,
+      ),
+    );
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Scores stat lines against distributions collected by
+ * `accumulatePlayerRatingPopulation`.
+ *
+ * @param rows - The stat lines to rate.
+ * @param population - The rating groups' distributions.
+ * @param options - The model and the season's categories.
+ * @returns One score per row, or null when the row has no meaningful volume.
+ */
+export function ratePlayerRowsAgainstPopulation(
+  rows: readonly object[],
+  population: PlayerRatingPopulation,
+  options: RatePlayerRowsOptions,
+): Array<number | null> {
+  const { model } = options;
+  const byKey = new Map(population.map((group) => [group.key, group]));
+  const scores: Array<number | null> = rows.map(() => null);
+  for (const [key, indexes] of groupRatingRows(rows, model)) {
+    const groupRows = indexes.map((index) => rows[index] as RatingRow);
+    const group = byKey.get(key) ?? createGroupPopulation(key, groupRows[0]);
+    const categories = getGroupSkaterCategories(group, options);
+    const groupScores =
+      group.posGroup === "G"
+        ? rateGoalieGroup(
+            groupRows,
+            model,
+            buildGoalieDistributions(group, model),
+          )
+        : rateSkaterGroup(
+            groupRows,
+            model,
+            categories,
+            buildSkaterDistributions(group, categories, model),
+          );
+    indexes.forEach((rowIndex, groupIndex) => {
+      scores[rowIndex] = groupScores[groupIndex] ?? null;
+    });
+  }
+  return scores;
+}
+
+/**
+ * Rates player stat lines the way the Apps Script `RankingEngine.rankRows`
+ * does: rows are grouped by season, season type where the model is split by
+ * it, and position group, and each row is scored against its group's
+ * distributions.
+ *
+ * @param rows - The stat lines to rate, typically one season's table.
+ * @param options - The model and the season's categories.
+ * @returns One score per row, or null when the row has no meaningful volume.
+ */
+export function ratePlayerRows(
+  rows: readonly object[],
+  options: RatePlayerRowsOptions,
+): Array<number | null> {
+  return ratePlayerRowsAgainstPopulation(
+    rows,
+    accumulatePlayerRatingPopulation([], rows, options),
+    options,
+  );
+}
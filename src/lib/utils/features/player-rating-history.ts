@@ -0,0 +1,264 @@
+import type { PlayerRatingPosGroup } from "@gshl-types";
+
+/*
+ * Career-weighted overall ratings and league ranks for NHL seasons, ported
+ * from the `ratings:backfill` script's `PlayerNHLStatLine` derived fields.
+ */
+
+const MAX_LOOKBACK_SEASONS = 4;
+const RECENCY_WEIGHTS = [1.0, 0.78, 0.59, 0.43] as const;
+const RECENT_SEASON_INFLUENCE_BASE = 0.11;
+const RECENT_SEASON_INFLUENCE_MIN = 0.05;
+const RECENT_SEASON_INFLUENCE_MAX = 0.24;
+const SKATER_SAMPLE_TARGET = 82;
+const GOALIE_SAMPLE_TARGET = 50;
+const SKATER_TALENT_STABILITY_TARGET = 180;
+const GOALIE_TALENT_STABILITY_TARGET = 90;
+const DEFAULT_LEAGUE_ANCHOR = 62.5;
+
+/** One NHL season of a player's history, newest first when passed along. */
+export interface PlayerRatingHistoryRow {
+  posGroup?: string | null;
+  seasonRating?: number | string | null;
+  GP?: number | string | null;
+  GS?: number | string | null;
+}
+
+export interface RankedPlayerRating<T> {
+  item: T;
+  rank: number;
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+function clip(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
+
+function getPosGroup(row: PlayerRatingHistoryRow): PlayerRatingPosGroup {
+  const posGroup = String(row.posGroup ?? "")
+    .trim()
+    .toUpperCase();
+  return posGroup === "G" || posGroup === "D" ? posGroup : "F";
+}
+
+function getUsageValue(row: PlayerRatingHistoryRow): number {
+  if (getPosGroup(row) === "G") {
+    const starts = toFiniteNumber(row.GS) ?? 0;
+    if (starts > 0) return starts;
+  }
+  return toFiniteNumber(row.GP) ?? 0;
+}
+
+function getSampleReliability(row: PlayerRatingHistoryRow): number {
+  const usage = getUsageValue(row);
+  if (usage <= 0) return 0;
+  const target =
+    getPosGroup(row) === "G" ? GOALIE_SAMPLE_TARGET : SKATER_SAMPLE_TARGET;
+  return 0.35 + 0.65 * Math.sqrt(clip(usage / target, 0, 1));
+}
+
+function getCareerStabilityFactor(
+  posGroup: PlayerRatingPosGroup,
+  seasonCount: number,
+  totalUsage: number,
+): number {
+  const usageTarget =
+    posGroup === "G"
+      ? GOALIE_TALENT_STABILITY_TARGET
+      : SKATER_TALENT_STABILITY_TARGET;
+  const usageTrust = Math.sqrt(clip(totalUsage / usageTarget, 0, 1));
+  const seasonTrust =
+    seasonCount >= 4
+      ? 1
+      : seasonCount === 3
+        ? 0.92
+        : seasonCount === 2
+          ? 0.84
+          : 0.76;
+  return seasonTrust * (0.8 + 0.2 * usageTrust);
+}
+
+/** Pulls outlier seasons toward the mean, less so for well-sampled seasons. */
+function dampDeviation(
+  score: number,
+  mean: number,
+  reliability: number,
+): number {
+  const deviation = score - mean;
+  const absDeviation = Math.abs(deviation);
+  const factor =
+    absDeviation <= 8
+      ? 1
+      : absDeviation <= 18
+        ? 0.78 + 0.12 * reliability
+        : 0.55 + 0.2 * reliability;
+  return mean + deviation * factor;
+}
+
+function getRecentSeasonInfluence(
+  anchoredScore: number,
+  recentScore: number,
+  reliability: number,
+  seasonCount: number,
+): number {
+  const tierScore = Math.max(anchoredScore, recentScore);
+  const volatility = Math.abs(recentScore - anchoredScore);
+  const tierMultiplier =
+    tierScore >= 88
+      ? 0.58
+      : tierScore >= 80
+        ? 0.78
+        : tierScore >= 68
+          ? 1.2
+          : tierScore >= 56
+            ? 1.4
+            : 1.3;
+  const volatilityMultiplier =
+    tierScore >= 80
+      ? 1 - 0.35 * clip(volatility / 18, 0, 1)
+      : 1 + 0.35 * clip(volatility / 16, 0, 1);
+  const historyMultiplier =
+    seasonCount >= 3 ? 1 : seasonCount === 2 ? 1.08 : 1.16;
+
+  return clip(
+    RECENT_SEASON_INFLUENCE_BASE *
+      reliability *
+      tierMultiplier *
+      volatilityMultiplier *
+      historyMultiplier,
+    RECENT_SEASON_INFLUENCE_MIN,
+    RECENT_SEASON_INFLUENCE_MAX,
+  );
+}
+
+function weightedMean(entries: Array<{ value: number; weight: number }>) {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight <= 0) return 0;
+  return (
+    entries.reduce((sum, entry) => sum + entry.value * entry.weight, 0) /
+    totalWeight
+  );
+}
+
+/**
+ * Averages each position group's season ratings; the overall rating regresses
+ * short careers toward these anchors.
+ *
+ * @param rows - The target season's NHL rows with their season ratings.
+ * @returns The mean season rating per position group.
+ */
+export function buildPlayerRatingLeagueAnchors(
+  rows: readonly PlayerRatingHistoryRow[],
+): Record<PlayerRatingPosGroup, number> {
+  const anchor = (posGroup: PlayerRatingPosGroup) => {
+    const scores = rows
+      .filter((row) => getPosGroup(row) === posGroup)
+      .map((row) => toFiniteNumber(row.seasonRating))
+      .filter((value): value is number => value !== null);
+    if (!scores.length) return DEFAULT_LEAGUE_ANCHOR;
+    return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  };
+  return { F: anchor("F"), D: anchor("D"), G: anchor("G") };
+}
+
+/**
+ * Blends up to four recent NHL seasons into an overall rating. Seasons are
+ * weighted by recency and sample size, outliers are damped, short careers
+ * are pulled toward the league anchor and the latest season keeps a bounded
+ * say.
+ *
+ * @param history - The player's NHL seasons, newest first.
+ * @param leagueAnchor - The position group's mean season rating.
+ * @returns The overall rating, or null when no season has a rating.
+ */
+export function computeOverallPlayerRating(
+  history: readonly PlayerRatingHistoryRow[],
+  leagueAnchor: number,
+): number | null {
+  const scoredHistory = history
+    .slice(0, MAX_LOOKBACK_SEASONS)
+    .map((row, index) => {
+      const score = toFiniteNumber(row.seasonRating);
+      if (score === null) return null;
+      return {
+        row,
+        score,
+        usage: getUsageValue(row),
+        reliability: getSampleReliability(row),
+        recencyWeight:
+          RECENCY_WEIGHTS[index] ??
+          RECENCY_WEIGHTS[RECENCY_WEIGHTS.length - 1] ??
+          0,
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+  const latest = scoredHistory[0];
+  if (!latest) return null;
+
+  const prelimMean = weightedMean(
+    scoredHistory.map((entry) => ({
+      value: entry.score,
+      weight: entry.recencyWeight * entry.reliability,
+    })),
+  );
+  const dampedMean = weightedMean(
+    scoredHistory.map((entry) => ({
+      value: dampDeviation(entry.score, prelimMean, entry.reliability),
+      weight: entry.recencyWeight * entry.reliability,
+    })),
+  );
+
+  const posGroup = getPosGroup(latest.row);
+  const stability = getCareerStabilityFactor(
+    posGroup,
+    scoredHistory.length,
+    scoredHistory.reduce((sum, entry) => sum + entry.usage, 0),
+  );
+  const anchored = leagueAnchor + (dampedMean - leagueAnchor) * stability;
+  const recentInfluence = getRecentSeasonInfluence(
+    anchored,
+    latest.score,
+    latest.reliability,
+    scoredHistory.length,
+  );
+  let overall = anchored + (latest.score - anchored) * recentInfluence;
+  if (posGroup === "G") overall *= 1.03;
+  else if (posGroup === "D") overall *= 1.0025;
+
+  return Math.round(clip(overall, 0, 125) * 100) / 100;
+}
+
+/**
+ * Ranks items by rating, highest first. Equal ratings share a rank and the
+ * next rating skips ahead; items without a rating are left out.
+ *
+ * @param items - The items to rank.
+ * @param getRating - Reads an item's rating.
+ * @returns The ranked items in rank order.
+ */
+export function rankPlayerRatings<T>(
+  items: readonly T[],
+  getRating: (item: T) => number | null | undefined,
+): Array<RankedPlayerRating<T>> {
+  const rated = items
+    .map((item) => ({ item, rating: getRating(item) }))
+    .filter(
+      (entry): entry is { item: T; rating: number } =>
+        typeof entry.rating === "number" && Number.isFinite(entry.rating),
+    )
+    .sort((left, right) => right.rating - left.rating);
+
+  let rank = 0;
+  return rated.map((entry, index) => {
+    if (rated[index - 1]?.rating !== entry.rating) rank = index + 1;
+    return { item: entry.item, rank };
+  });
+}
@@ -4,11 +4,16 @@ import test from "node:test";
 import type {
   GSHLTeam,
   Matchup,
+  MatchupType as MatchupTypeValue,
   Season,
   TeamSeasonStatLine,
+  Week,
 } from "@gshl-types";
 import { MatchupType } from "../domain/constants";
-import { buildPlayoffBracket } from "./playoff-bracket";
+import {
+  buildDraftOrderTournament,
+  buildPlayoffBracket,
+} from "./playoff-bracket";
 
 function season(legacyId: string): Season {
   return {
@@ -343,3 +348,130 @@ void test("uses a played matchup and advances its winner into the bracket", () =
   assert.equal(bracket.columns[0]?.matchups[0]?.source, "played");
   assert.equal(bracket.columns[1]?.matchups[0]?.homeTeam?.id, "team-1");
 });
+
+function playoffWeek(weekNum: number): Week {
+  return {
+    id: `playoff-week-${weekNum}`,
+    seasonId: "season-7",
+    weekNum: 20 + weekNum,
+    weekType: "PO",
+    gameDays: 7,
+    startDate: "2024-03-01",
+    endDate: "2024-03-07",
+    isActive: false,
+    isPlayoffs: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+function game(
+  week: number,
+  gameType: MatchupTypeValue,
+  homeTeamId: string,
+  awayTeamId: string,
+  homeScore: number,
+  awayScore: number,
+): Matchup {
+  return {
+    ...matchup(homeTeamId, awayTeamId),
+    id: `${homeTeamId}-${awayTeamId}-week-${week}`,
+    weekId: `playoff-week-${week}`,
+    gameType,
+    homeRank: null,
+    awayRank: null,
+    homeScore,
+    awayScore,
+    homeWin: homeScore > awayScore,
+    awayWin: awayScore > homeScore,
+  };
+}
+
+const draftOrderWeeks = [playoffWeek(1), playoffWeek(2), playoffWeek(3)];
+const draftOrderWeekOne = [
+  game(1, MatchupType.QUARTER_FINAL, "team-1", "team-4", 6, 4),
+  game(1, MatchupType.QUARTER_FINAL, "team-2", "team-3", 6, 4),
+  game(1, MatchupType.QUARTER_FINAL, "team-8", "team-5", 6, 4),
+  game(1, MatchupType.QUARTER_FINAL, "team-9", "team-10", 6, 4),
+  game(1, MatchupType.LOSERS_TOURNAMENT, "team-6", "team-7", 6, 4),
+  game(1, MatchupType.LOSERS_TOURNAMENT, "team-11", "team-12", 6, 4),
+  game(1, MatchupType.LOSERS_TOURNAMENT, "team-13", "team-14", 6, 4),
+];
+
+void test("seeds the draft-order placement games from week one results", () => {
+  const { teams, stats } = seasonSevenTeamsAndStats();
+  const tournament = buildDraftOrderTournament(
+    teams,
+    stats,
+    draftOrderWeekOne,
+    season("7"),
+    draftOrderWeeks,
+  );
+  const games = new Map(
+    tournament.groups.flatMap((group) =>
+      group.games.map((placement) => [placement.id, placement] as const),
+    ),
+  );
+
+  assert.deepEqual(
+    ["picks-1-6-sf-1", "picks-1-6-sf-2", "picks-1-6-5v6", "picks-7-10-1"].map(
+      (id) => [games.get(id)?.homeTeam?.id, games.get(id)?.awayTeam?.id],
+    ),
+    [
+      ["team-11", "team-13"],
+      ["team-6", "team-14"],
+      ["team-7", "team-12"],
+      ["team-4", "team-3"],
+    ],
+  );
+  assert.equal(tournament.isFinal, false);
+  assert.equal(tournament.order[0]?.team, null);
+});
+
+void test("resolves picks 1–14 once every placement game is final", () => {
+  const { teams, stats } = seasonSevenTeamsAndStats();
+  const tournament = buildDraftOrderTournament(
+    teams,
+    stats,
+    [
+      ...draftOrderWeekOne,
+      game(2, MatchupType.SEMI_FINAL, "team-1", "team-2", 6, 4),
+      game(2, MatchupType.SEMI_FINAL, "team-8", "team-9", 6, 4),
+      game(2, MatchupType.LOSERS_TOURNAMENT, "team-11", "team-13", 4, 6),
+      game(2, MatchupType.LOSERS_TOURNAMENT, "team-6", "team-14", 4, 6),
+      game(2, MatchupType.LOSERS_TOURNAMENT, "team-7", "team-12", 3, 5),
+      game(2, MatchupType.LOSERS_TOURNAMENT, "team-4", "team-3", 4, 6),
+      game(2, MatchupType.LOSERS_TOURNAMENT, "team-5", "team-10", 6, 4),
+      game(3, MatchupType.FINAL, "team-1", "team-8", 4, 6),
+      game(3, MatchupType.LOSERS_TOURNAMENT, "team-13", "team-14", 4, 6),
+      game(3, MatchupType.LOSERS_TOURNAMENT, "team-11", "team-6", 4, 6),
+      game(3, MatchupType.LOSERS_TOURNAMENT, "team-12", "team-7", 2, 6),
+      game(3, MatchupType.LOSERS_TOURNAMENT, "team-3", "team-5", 4, 6),
+      game(3, MatchupType.LOSERS_TOURNAMENT, "team-4", "team-10", 4, 6),
+      game(3, MatchupType.LOSERS_TOURNAMENT, "team-2", "team-9", 4, 6),
+    ],
+    season("7"),
+    draftOrderWeeks,
+  );
+
+  assert.equal(tournament.isFinal, true);
+  assert.deepEqual(
+    tournament.order.map((slot) => slot.team?.id),
+    [
+      "team-14",
+      "team-13",
+      "team-6",
+      "team-11",
+      "team-7",
+      "team-12",
+      "team-5",
+      "team-3",
+      "team-10",
+      "team-4",
+      "team-9",
+      "team-2",
+      "team-1",
+      "team-8",
+    ],
+  );
+});
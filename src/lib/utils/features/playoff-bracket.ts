@@ -1,5 +1,10 @@
 import type {
   BracketMatchup,
+  DraftOrderGame,
+  DraftOrderGroup,
+  DraftOrderSlot,
+  DraftOrderTournamentViewModel,
+  DraftOrderWeek,
   Matchup,
   PlayoffBracketColumn,
   PlayoffBracketFormat,
@@ -8,8 +13,9 @@ import type {
   SeededTeam,
   Season,
   TeamSeasonStatLine,
+  Week,
 } from "@gshl-types";
-import { MatchupType } from "../domain/constants";
+import { MatchupType, SeasonType } from "../domain/constants";
 import { isPlayoffMatchupType } from "../domain/matchup";
 
 function safeRank(value: string | number | null | undefined): number | null {
@@ -662,3 +668,375 @@ export function buildPlayoffBracket(
     columns,
   };
 }
+
+const DRAFT_ORDER_PICKS = 14;
+
+function getMatchupLoser(matchup: BracketMatchup | DraftOrderGame) {
+  if (!matchup.isComplete || !matchup.winnerTeam) return null;
+  return matchup.winnerTeam.id === matchup.homeTeam?.id
+    ? matchup.awayTeam
+    : matchup.homeTeam;
+}
+
+function getPlacementWeekIds(weeks: Week[], season: Season | null): string[] {
+  return weeks
+    .filter(
+      (week) =>
+        (!season || String(week.seasonId) === String(season.id)) &&
+        (week.isPlayoffs || week.weekType !== SeasonType.REGULAR_SEASON),
+    )
+    .sort((left, right) => Number(left.weekNum) - Number(right.weekNum))
+    .slice(0, 3)
+    .map((week) => String(week.id));
+}
+
+function ordinal(place: number): string {
+  const suffix =
+    place % 100 >= 11 && place % 100 <= 13
+      ? "th"
+      : (({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[
+          place % 10
+        ] ?? "th");
+  return `${place}${suffix}`;
+}
+
+/**
+ * Resolves a placement game from every stored meeting of the pair in its
+ * weeks. Multi-week games total their scores and finish with the last week.
+ */
+function resolvePlacementGame(
+  game: Omit<
+    DraftOrderGame,
+    "homeScore" | "awayScore" | "isComplete" | "source" | "winnerTeam"
+  >,
+  meetings: Matchup[],
+  finalWeekId: string | null,
+): DraftOrderGame {
+  const { homeTeam, awayTeam } = game;
+  if (!homeTeam || !awayTeam || meetings.length === 0) {
+    return {
+      ...game,
+      homeScore: null,
+      awayScore: null,
+      isComplete: false,
+      source: "projected",
+      winnerTeam: null,
+    };
+  }
+
+  let homeScore: number | null = null;
+  let awayScore: number | null = null;
+  for (const meeting of meetings) {
+    const flipped = String(meeting.homeTeamId) !== homeTeam.id;
+    const home = Number(flipped ? meeting.awayScore : meeting.homeScore);
+    const away = Number(flipped ? meeting.homeScore : meeting.awayScore);
+    if (Number.isFinite(home)) homeScore = (homeScore ?? 0) + home;
+    if (Number.isFinite(away)) awayScore = (awayScore ?? 0) + away;
+  }
+  const isComplete =
+    meetings.every(isMatchupComplete) &&
+    (!finalWeekId ||
+      meetings.some((meeting) => String(meeting.weekId) === finalWeekId));
+  const lastMeeting = meetings[meetings.length - 1]!;
+  const lastWinner = getMatchupWinner(
+    lastMeeting,
+    String(lastMeeting.homeTeamId) === homeTeam.id ? homeTeam : awayTeam,
+    String(lastMeeting.homeTeamId) === homeTeam.id ? awayTeam : homeTeam,
+  );
+  const winnerTeam =
+    meetings.length > 1 && homeScore !== null && awayScore !== null
+      ? homeScore > awayScore
+        ? homeTeam
+        : awayScore > homeScore
+          ? awayTeam
+          : lastWinner
+      : lastWinner;
+
+  return {
+    ...game,
+    homeScore,
+    awayScore,
+    isComplete,
+    source: isComplete ? "played" : "scheduled",
+    winnerTeam: isComplete ? winnerTeam : null,
+  };
+}
+
+/**
+ * Builds the rule 7 draft-order tournament for picks 1–14 from the season's
+ * playoff bracket and any placement games already stored for the three
+ * playoff weeks.
+ */
+export function buildDraftOrderTournament(
+  teams: SeededTeam[],
+  stats: TeamSeasonStatLine[],
+  matchups: Matchup[] = [],
+  season: Season | null = null,
+  weeks: Week[] = [],
+): DraftOrderTournamentViewModel {
+  const bracket = buildPlayoffBracket(teams, stats, matchups, season);
+  const [quarterfinals = [], semifinals = [], finals = []] =
+    bracket.columns.map((column) => column.matchups);
+  const playoffTeamIds = new Set(
+    quarterfinals.flatMap((matchup) =>
+      [matchup.homeTeam?.id, matchup.awayTeam?.id].filter(Boolean),
+    ),
+  );
+  const placed = sortByRank(
+    attachStats(teams, stats).filter((team) => !playoffTeamIds.has(team.id)),
+    "overallRk",
+  );
+  const place = (rank: number) => placed[rank - 9] ?? null;
+
+  const weekIds = getPlacementWeekIds(weeks, season);
+  const placementMatchups = matchups.filter(
+    (matchup) =>
+      (!season || String(matchup.seasonId) === String(season.id)) &&
+      matchup.gameType !== MatchupType.CONFERENCE &&
+      matchup.gameType !== MatchupType.NON_CONFERENCE,
+  );
+  const game = (
+    fields: Omit<
+      DraftOrderGame,
+      "homeScore" | "awayScore" | "isComplete" | "source" | "winnerTeam"
+    >,
+    spanWeeks: DraftOrderWeek[] = [fields.week],
+  ) => {
+    const meetingWeekIds = spanWeeks.flatMap((week) =>
+      weekIds[week - 1] ? [weekIds[week - 1]!] : [],
+    );
+    const pair =
+      fields.homeTeam && fields.awayTeam
+        ? pairKey(fields.homeTeam.id, fields.awayTeam.id)
+        : null;
+    const meetings = placementMatchups.filter(
+      (matchup) =>
+        pair === pairKey(matchup.homeTeamId, matchup.awayTeamId) &&
+        (!weekIds.length || meetingWeekIds.includes(String(matchup.weekId))),
+    );
+    return resolvePlacementGame(
+      fields,
+      meetings,
+      meetingWeekIds[meetingWeekIds.length - 1] ?? null,
+    );
+  };
+
+  const ninthTenth = game({
+    id: "picks-1-6-9v10",
+    week: 1,
+    title: "9th vs. 10th",
+    homeLabel: ordinal(9),
+    awayLabel: ordinal(10),
+    homeTeam: place(9),
+    awayTeam: place(10),
+    picks: null,
+  });
+  const eleventhTwelfth = game({
+    id: "picks-1-6-11v12",
+    week: 1,
+    title: "11th vs. 12th",
+    homeLabel: ordinal(11),
+    awayLabel: ordinal(12),
+    homeTeam: place(11),
+    awayTeam: place(12),
+    picks: null,
+  });
+  const thirteenthFourteenth = game({
+    id: "picks-1-6-13v14",
+    week: 1,
+    title: "13th vs. 14th",
+    homeLabel: ordinal(13),
+    awayLabel: ordinal(14),
+    homeTeam: place(13),
+    awayTeam: place(14),
+    picks: null,
+  });
+  const upperSemifinal = game({
+    id: "picks-1-6-sf-1",
+    week: 2,
+    title: "Semifinal 1",
+    homeLabel: "W 11/12",
+    awayLabel: "W 13/14",
+    homeTeam: eleventhTwelfth.winnerTeam,
+    awayTeam: thirteenthFourteenth.winnerTeam,
+    picks: null,
+  });
+  const lowerSemifinal = game({
+    id: "picks-1-6-sf-2",
+    week: 2,
+    title: "Semifinal 2",
+    homeLabel: "W 9/10",
+    awayLabel: "L 13/14",
+    homeTeam: ninthTenth.winnerTeam,
+    awayTeam: getMatchupLoser(thirteenthFourteenth),
+    picks: null,
+  });
+  const fifthSixth = game(
+    {
+      id: "picks-1-6-5v6",
+      week: 2,
+      title: "Picks 5–6 (two weeks)",
+      homeLabel: "L 9/10",
+      awayLabel: "L 11/12",
+      homeTeam: getMatchupLoser(ninthTenth),
+      awayTeam: getMatchupLoser(eleventhTwelfth),
+      picks: [5, 6],
+    },
+    [2, 3],
+  );
+  const firstSecond = game({
+    id: "picks-1-6-1v2",
+    week: 3,
+    title: "Picks 1–2",
+    homeLabel: "W SF1",
+    awayLabel: "W SF2",
+    homeTeam: upperSemifinal.winnerTeam,
+    awayTeam: lowerSemifinal.winnerTeam,
+    picks: [1, 2],
+  });
+  const thirdFourth = game({
+    id: "picks-1-6-3v4",
+    week: 3,
+    title: "Picks 3–4",
+    homeLabel: "L SF1",
+    awayLabel: "L SF2",
+    homeTeam: getMatchupLoser(upperSemifinal),
+    awayTeam: getMatchupLoser(lowerSemifinal),
+    picks: [3, 4],
+  });
+
+  const firstRoundLosers = quarterfinals.map(getMatchupLoser);
+  const consolationTitle = (index: number) =>
+    bracket.format === "conference" && quarterfinals[index]?.homeTeam?.confName
+      ? `${quarterfinals[index].homeTeam.confName} first-round losers`
+      : `QF${index + 1}/QF${index + 2} losers`;
+  const upperConsolation = game({
+    id: "picks-7-10-1",
+    week: 2,
+    title: consolationTitle(0),
+    homeLabel: "L QF1",
+    awayLabel: "L QF2",
+    homeTeam: firstRoundLosers[0] ?? null,
+    awayTeam: firstRoundLosers[1] ?? null,
+    picks: null,
+  });
+  const lowerConsolation = game({
+    id: "picks-7-10-2",
+    week: 2,
+    title: consolationTitle(2),
+    homeLabel: "L QF3",
+    awayLabel: "L QF4",
+    homeTeam: firstRoundLosers[2] ?? null,
+    awayTeam: firstRoundLosers[3] ?? null,
+    picks: null,
+  });
+  const seventhEighth = game({
+    id: "picks-7-10-7v8",
+    week: 3,
+    title: "Picks 7–8",
+    homeLabel: "Winner",
+    awayLabel: "Winner",
+    homeTeam: upperConsolation.winnerTeam,
+    awayTeam: lowerConsolation.winnerTeam,
+    picks: [7, 8],
+  });
+  const ninthTenthPicks = game({
+    id: "picks-7-10-9v10",
+    week: 3,
+    title: "Picks 9–10",
+    homeLabel: "Loser",
+    awayLabel: "Loser",
+    homeTeam: getMatchupLoser(upperConsolation),
+    awayTeam: getMatchupLoser(lowerConsolation),
+    picks: [9, 10],
+  });
+
+  const eleventhTwelfthPicks = game({
+    id: "picks-11-12",
+    week: 3,
+    title: "Picks 11–12",
+    homeLabel: "L CF1",
+    awayLabel: "L CF2",
+    homeTeam: semifinals[0] ? getMatchupLoser(semifinals[0]) : null,
+    awayTeam: semifinals[1] ? getMatchupLoser(semifinals[1]) : null,
+    picks: [11, 12],
+  });
+  const cupFinal = finals[0];
+  const finalGame: DraftOrderGame = {
+    id: "picks-13-14",
+    week: 3,
+    title: "GSHL Cup Final",
+    homeLabel: cupFinal?.homeLabel ?? "TBD",
+    awayLabel: cupFinal?.awayLabel ?? "TBD",
+    homeTeam: cupFinal?.homeTeam ?? null,
+    awayTeam: cupFinal?.awayTeam ?? null,
+    homeScore: cupFinal?.homeScore ?? null,
+    awayScore: cupFinal?.awayScore ?? null,
+    isComplete: cupFinal?.isComplete ?? false,
+    source: cupFinal?.source ?? "projected",
+    winnerTeam: cupFinal?.winnerTeam ?? null,
+    picks: [14, 13],
+  };
+
+  const groups: DraftOrderGroup[] = [
+    {
+      id: "picks-1-6",
+      title: "Picks 1–6",
+      subtitle: "Non-playoff teams, 9th through 14th",
+      games: [
+        ninthTenth,
+        eleventhTwelfth,
+        thirteenthFourteenth,
+        upperSemifinal,
+        lowerSemifinal,
+        fifthSixth,
+        firstSecond,
+        thirdFourth,
+      ],
+    },
+    {
+      id: "picks-7-10",
+      title: "Picks 7–10",
+      subtitle: "First-round playoff losers",
+      games: [
+        upperConsolation,
+        lowerConsolation,
+        seventhEighth,
+        ninthTenthPicks,
+      ],
+    },
+    {
+      id: "picks-11-12",
+      title: "Picks 11–12",
+      subtitle: "Conference championship losers",
+      games: [eleventhTwelfthPicks],
+    },
+    {
+      id: "picks-13-14",
+      title: "Picks 13–14",
+      subtitle: "Runner-up picks 13, champion picks 14",
+      games: [finalGame],
+    },
+  ];
+
+  const teamByPick = new Map<number, SeededTeam | null>();
+  for (const placement of groups.flatMap((group) => group.games)) {
+    if (!placement.picks) continue;
+    const [winnerPick, loserPick] = placement.picks;
+    teamByPick.set(winnerPick, placement.winnerTeam);
+    teamByPick.set(loserPick, getMatchupLoser(placement));
+  }
+  const order: DraftOrderSlot[] = Array.from(
+    { length: DRAFT_ORDER_PICKS },
+    (_, index) => ({
+      pick: index + 1,
+      team: teamByPick.get(index + 1) ?? null,
+    }),
+  );
+
+  return {
+    groups,
+    order,
+    isFinal: order.every((slot) => slot.team !== null),
+  };
+}
@@ -0,0 +1,382 @@
+import type { PowerGmRecord, PowerGmState } from "@gshl-types";
+
+/*
+ * The GM ladder from the Apps Script `PowerRankingsAlgo`: an owner Elo that
+ * also credits records, playoff runs, awards and weeks spent at either end
+ * of the power rankings. Owners carry their state across seasons, so the
+ * ladder is replayed from the league's first season.
+ */
+
+export const GM_BASE_RATING = 250;
+export const GM_ELO_WEIGHT = 0.15;
+export const GM_BONUSES = {
+  playoffAppearance: 8,
+  finalsAppearance: 18,
+  cup: 40,
+  leadershipAward: 20,
+  otherAward: 5,
+  brophy: -10,
+} as const;
+export const GM_POWER_WEIGHTS = {
+  numberOne: 1.5,
+  topThree: 0.5,
+  bottomThree: -0.5,
+  lastPlace: -1.5,
+} as const;
+
+/** Owner states keyed by owner id. */
+export type PowerGmStates = Record<string, PowerGmState>;
+
+/** The parts of an owner's state that the ladder rating reads. */
+export type PowerGmRatingInputs = Omit<
+  PowerGmState,
+  "playoffSeasonIds" | "finalistSeasonIds"
+>;
+
+export interface PowerGmLadderEntry {
+  ownerId: string;
+  rating: number;
+  rank: number;
+}
+
+export interface PowerGmMatchup {
+  homeTeamId: string;
+  awayTeamId: string;
+  gameType?: string | null;
+  homeScore?: number | string | null;
+  awayScore?: number | string | null;
+}
+
+export interface PowerGmRankedRow {
+  gshlTeamId: string;
+  powerRk?: number | string | null;
+}
+
+export interface PowerGmAward {
+  award: string;
+  ownerId?: string | null;
+  teamId?: string | null;
+}
+
+export interface PowerGmSeasonReplay {
+  seasonId: string;
+  /** The season's weeks in play order. */
+  weekIds: readonly string[];
+  matchupsByWeek: ReadonlyMap<string, readonly PowerGmMatchup[]>;
+  rankedRowsByWeek: ReadonlyMap<string, readonly PowerGmRankedRow[]>;
+  awards: readonly PowerGmAward[];
+}
+
+function parseScore(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+function emptyRecord(): PowerGmRecord {
+  return { wins: 0, losses: 0, ties: 0 };
+}
+
+export function createPowerGmState(): PowerGmState {
+  return {
+    elo: GM_BASE_RATING,
+    achievementBonus: 0,
+    weeksAtNumberOne: 0,
+    weeksInTopThree: 0,
+    weeksInBottomThree: 0,
+    weeksInLastPlace: 0,
+    overall: emptyRecord(),
+    conference: emptyRecord(),
+    playoffs: emptyRecord(),
+    playoffSeasonIds: [],
+    finalistSeasonIds: [],
+  };
+}
+
+function ensureState(
+  states: PowerGmStates,
+  ownerId: string | undefined,
+): PowerGmState | null {
+  if (!ownerId) return null;
+  states[ownerId] ??= createPowerGmState();
+  return states[ownerId];
+}
+
+function bayesianPercentage(record: PowerGmRecord, priorGames: number) {
+  const games = record.wins + record.losses + record.ties;
+  return (
+    (record.wins + record.ties * 0.5 + priorGames * 0.5) / (games + priorGames)
+  );
+}
+
+/** Credit for weeks at the top or bottom of the power rankings. */
+export function computeGmPowerAdjustment(state: PowerGmRatingInputs): number {
+  return (
+    state.weeksAtNumberOne * GM_POWER_WEIGHTS.numberOne +
+    state.weeksInTopThree * GM_POWER_WEIGHTS.topThree +
+    state.weeksInBottomThree * GM_POWER_WEIGHTS.bottomThree +
+    state.weeksInLastPlace * GM_POWER_WEIGHTS.lastPlace
+  );
+}
+
+/** Credit for Bayesian-shrunk overall, conference and playoff records. */
+export function computeGmPerformanceAdjustment(
+  state: PowerGmRatingInputs,
+): number {
+  return (
+    (bayesianPercentage(state.overall, 20) - 0.5) * 300 +
+    (bayesianPercentage(state.conference, 10) - 0.5) * 80 +
+    (bayesianPercentage(state.playoffs, 6) - 0.5) * 120
+  );
+}
+
+/**
+ * Rates an owner on the ladder: a damped Elo plus achievement bonuses, weeks
+ * at the top or bottom of the power rankings and Bayesian-shrunk records.
+ */
+export function computeGmLadderRating(state: PowerGmRatingInputs): number {
+  return (
+    GM_BASE_RATING +
+    (state.elo - GM_BASE_RATING) * GM_ELO_WEIGHT +
+    state.achievementBonus +
+    computeGmPowerAdjustment(state) +
+    computeGmPerformanceAdjustment(state)
+  );
+}
+
+/** Ranks every owner with a state, best rating first. */
+export function rankGmLadder(states: PowerGmStates): PowerGmLadderEntry[] {
+  return Object.entries(states)
+    .map(([ownerId, state]) => ({
+      ownerId,
+      rating: computeGmLadderRating(state),
+    }))
+    .sort(
+      (left, right) =>
+        right.rating - left.rating || left.ownerId.localeCompare(right.ownerId),
+    )
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+/** Reads an owner's ladder rating, or the base rating for a new owner. */
+export function getGmLadderRating(
+  states: PowerGmStates,
+  ownerId: string | undefined,
+): number {
+  const state = ensureState(states, ownerId);
+  return state ? computeGmLadderRating(state) : GM_BASE_RATING;
+}
+
+function applyRecord(
+  home: PowerGmRecord,
+  away: PowerGmRecord,
+  actualHome: number,
+) {
+  if (actualHome === 1) {
+    home.wins += 1;
+    away.losses += 1;
+  } else if (actualHome === 0) {
+    away.wins += 1;
+    home.losses += 1;
+  } else {
+    home.ties += 1;
+    away.ties += 1;
+  }
+}
+
+function isPlayoffGameType(gameType: string) {
+  return gameType === "QF" || gameType === "SF" || gameType === "F";
+}
+
+function matchupK(gameType: string) {
+  if (gameType === "F") return 40;
+  if (gameType === "SF") return 34;
+  if (gameType === "QF") return 28;
+  return 20;
+}
+
+/**
+ * Scores one matchup for the ladder Elo: the home result (playoff ties go to
+ * the home team) and the Elo points the home owner gains.
+ */
+export function scoreGmMatchup(input: {
+  homeElo: number;
+  awayElo: number;
+  homeScore: number;
+  awayScore: number;
+  gameType: string;
+}): { actualHome: number; delta: number } {
+  const { homeScore, awayScore, gameType } = input;
+  const actualHome =
+    homeScore > awayScore
+      ? 1
+      : awayScore > homeScore
+        ? 0
+        : isPlayoffGameType(gameType)
+          ? 1
+          : 0.5;
+  const expectedHome =
+    1 / (1 + Math.pow(10, (input.awayElo - input.homeElo) / 400));
+  const marginMultiplier =
+    1 + Math.min(Math.abs(homeScore - awayScore), 4) * 0.08;
+  return {
+    actualHome,
+    delta: matchupK(gameType) * marginMultiplier * (actualHome - expectedHome),
+  };
+}
+
+/**
+ * Applies one scored matchup between two owners. Playoff ties go to the
+ * home team, and the first playoff or finals game of a season earns its
+ * appearance bonus.
+ */
+export function applyGmMatchup(
+  states: PowerGmStates,
+  matchup: PowerGmMatchup,
+  ownerIdByTeamId: ReadonlyMap<string, string>,
+  seasonId: string,
+): void {
+  const homeScore = parseScore(matchup.homeScore);
+  const awayScore = parseScore(matchup.awayScore);
+  if (homeScore === null || awayScore === null) return;
+  const homeOwnerId = ownerIdByTeamId.get(matchup.homeTeamId) ?? "";
+  const awayOwnerId = ownerIdByTeamId.get(matchup.awayTeamId) ?? "";
+  if (!homeOwnerId || !awayOwnerId || homeOwnerId === awayOwnerId) return;
+  const home = ensureState(states, homeOwnerId);
+  const away = ensureState(states, awayOwnerId);
+  if (!home || !away) return;
+
+  const gameType = matchup.gameType ?? "";
+  const { actualHome, delta } = scoreGmMatchup({
+    homeElo: home.elo,
+    awayElo: away.elo,
+    homeScore,
+    awayScore,
+    gameType,
+  });
+  home.elo += delta;
+  away.elo -= delta;
+
+  if (gameType === "CC" || gameType === "NC") {
+    applyRecord(home.overall, away.overall, actualHome);
+  }
+  if (gameType === "CC") {
+    applyRecord(home.conference, away.conference, actualHome);
+  }
+  if (isPlayoffGameType(gameType)) {
+    applyRecord(home.playoffs, away.playoffs, actualHome);
+    for (const state of [home, away]) {
+      if (state.playoffSeasonIds.includes(seasonId)) continue;
+      state.playoffSeasonIds.push(seasonId);
+      state.achievementBonus += GM_BONUSES.playoffAppearance;
+    }
+  }
+  if (gameType === "F") {
+    for (const state of [home, away]) {
+      if (state.finalistSeasonIds.includes(seasonId)) continue;
+      state.finalistSeasonIds.push(seasonId);
+      state.achievementBonus += GM_BONUSES.finalsAppearance;
+    }
+  }
+}
+
+/**
+ * Credits a week of power ranks, using each owner's best-ranked team. The
+ * bottom three and last place are measured from the week's lowest rank.
+ */
+export function applyGmPowerRanks(
+  states: PowerGmStates,
+  rows: readonly PowerGmRankedRow[],
+  ownerIdByTeamId: ReadonlyMap<string, string>,
+): void {
+  const ranked = rows
+    .map((row) => ({ teamId: row.gshlTeamId, rank: Number(row.powerRk) }))
+    .filter((row) => Number.isFinite(row.rank) && row.rank > 0);
+  if (!ranked.length) return;
+  const lastRank = ranked.reduce((max, row) => Math.max(max, row.rank), 0);
+  const bottomThreeThreshold = Math.max(1, lastRank - 2);
+  const bestRankByOwner = new Map<string, number>();
+  for (const row of ranked) {
+    const ownerId = ownerIdByTeamId.get(row.teamId) ?? "";
+    if (!ownerId) continue;
+    const previous = bestRankByOwner.get(ownerId);
+    if (previous === undefined || row.rank < previous) {
+      bestRankByOwner.set(ownerId, row.rank);
+    }
+  }
+  for (const [ownerId, rank] of bestRankByOwner) {
+    const state = ensureState(states, ownerId);
+    if (!state) continue;
+    if (rank === 1) state.weeksAtNumberOne += 1;
+    if (rank <= 3) state.weeksInTopThree += 1;
+    if (rank >= bottomThreeThreshold) state.weeksInBottomThree += 1;
+    if (rank === lastRank) state.weeksInLastPlace += 1;
+  }
+}
+
+/** Adds a season's team awards to the owners who won them. */
+export function applyGmSeasonAwards(
+  states: PowerGmStates,
+  awards: readonly PowerGmAward[],
+  ownerIdByTeamId: ReadonlyMap<string, string>,
+): void {
+  for (const award of awards) {
+    const ownerId =
+      award.ownerId ?? ownerIdByTeamId.get(award.teamId ?? "") ?? "";
+    const state = ensureState(states, ownerId);
+    if (!state) continue;
+    if (award.award === "gshlCup") {
+      state.achievementBonus += GM_BONUSES.cup;
+    } else if (award.award === "brophy") {
+      state.achievementBonus += GM_BONUSES.brophy;
+    } else if (award.award === "jackAdams" || award.award === "gmoy") {
+      state.achievementBonus += GM_BONUSES.leadershipAward;
+    } else {
+      state.achievementBonus += GM_BONUSES.otherAward;
+    }
+  }
+}
+
+/**
+ * Replays a completed season onto the ladder: each week's matchups and then
+ * its stored power ranks, followed by the season's awards. Seasons without
+ * a cup award credit the cup to the winner of the scored final. `onWeek`
+ * sees the states after each week, before the awards.
+ */
+export function replayGmSeason(
+  states: PowerGmStates,
+  season: PowerGmSeasonReplay,
+  ownerIdByTeamId: ReadonlyMap<string, string>,
+  onWeek?: (weekId: string) => void,
+): void {
+  for (const weekId of season.weekIds) {
+    for (const matchup of season.matchupsByWeek.get(weekId) ?? []) {
+      applyGmMatchup(states, matchup, ownerIdByTeamId, season.seasonId);
+    }
+    applyGmPowerRanks(
+      states,
+      season.rankedRowsByWeek.get(weekId) ?? [],
+      ownerIdByTeamId,
+    );
+    onWeek?.(weekId);
+  }
+  if (!season.awards.some((award) => award.award === "gshlCup")) {
+    const final = Array.from(season.matchupsByWeek.values())
+      .flat()
+      .find(
+        (matchup) =>
+          matchup.gameType === "F" &&
+          parseScore(matchup.homeScore) !== null &&
+          parseScore(matchup.awayScore) !== null,
+      );
+    if (final) {
+      const winnerTeamId =
+        (parseScore(final.homeScore) ?? 0) >= (parseScore(final.awayScore) ?? 0)
+          ? final.homeTeamId
+          : final.awayTeamId;
+      const winner = ensureState(states, ownerIdByTeamId.get(winnerTeamId));
+      if (winner) winner.achievementBonus += GM_BONUSES.cup;
+    }
+  }
+  applyGmSeasonAwards(states, season.awards, ownerIdByTeamId);
+}
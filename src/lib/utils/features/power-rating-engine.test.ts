@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { PowerTalentAccumulator } from "@gshl-types";
+import {
+  applyGmMatchup,
+  getGmLadderRating,
+  GM_BASE_RATING,
+  type PowerGmStates,
+} from "./power-gm-ladder";
+import {
+  accumulatePlayerTalent,
+  computePlayerTalent,
+  computePowerRatingWeek,
+  getPreseasonPlayerTalent,
+  seedPowerTeamStates,
+} from "./power-rating-engine";
+
+const teamIds = ["team-a", "team-b"];
+const owners = new Map([
+  ["team-a", "owner-a"],
+  ["team-b", "owner-b"],
+]);
+
+function teamWeek(value: number) {
+  return {
+    GP: 10,
+    G: value,
+    A: value,
+    P: value,
+    PM: value,
+    PPP: value,
+    SOG: value,
+    HIT: value,
+    BLK: value,
+    W: value,
+    GAA: value ? 2 : 5,
+    SVP: value ? 0.92 : 0.88,
+  };
+}
+
+function runWeek(
+  weekNumber: number,
+  isComplete: boolean,
+  teamStates: ReturnType<typeof seedPowerTeamStates>,
+) {
+  return computePowerRatingWeek({
+    teamIds,
+    week: { id: `week-${weekNumber}`, weekType: "RS", isComplete },
+    weekNumber,
+    playoffRound: 1,
+    teamStates,
+    teamWeeks: new Map([
+      ["team-a", teamWeek(10)],
+      ["team-b", teamWeek(1)],
+    ]),
+    matchups: [
+      {
+        id: `matchup-${weekNumber}`,
+        homeTeamId: "team-a",
+        awayTeamId: "team-b",
+        gameType: "CC",
+        homeScore: isComplete ? 8 : null,
+        awayScore: isComplete ? 3 : null,
+        isComplete,
+      },
+    ],
+    rosterStrength: new Map(),
+    gmRatings: new Map(),
+    historyPrior: {},
+  });
+}
+
+void test("reads preseason talent from the overall rating, else the rating", () => {
+  assert.equal(getPreseasonPlayerTalent({ overallRating: 72, Rating: 40 }), 72);
+  assert.equal(getPreseasonPlayerTalent({ overallRating: "", Rating: 40 }), 40);
+  assert.equal(getPreseasonPlayerTalent({ overallRating: 0 }), null);
+  assert.equal(getPreseasonPlayerTalent(undefined), null);
+});
+
+void test("blends preseason talent into the rolling rating by games played", () => {
+  const accumulators: Record<string, PowerTalentAccumulator> = {};
+  accumulatePlayerTalent(
+    accumulators,
+    [
+      { playerId: "p1", Rating: 90, GP: 42 },
+      { playerId: "idle", Rating: 90, GP: 0 },
+    ],
+    0,
+  );
+
+  assert.equal(accumulators.idle, undefined);
+  assert.equal(computePlayerTalent(50, accumulators.p1), 70);
+  assert.equal(computePlayerTalent(50, undefined), 50);
+  assert.equal(computePlayerTalent(null, accumulators.p1), 90);
+});
+
+void test("completed weeks move Elo only after the pregame snapshot", () => {
+  const seeded = seedPowerTeamStates(teamIds, new Map(), {});
+  const first = runWeek(1, true, seeded);
+  const [weekOneA, weekOneB] = first.teamWeeks;
+  assert.ok(weekOneA && weekOneB);
+  assert.equal(weekOneA.powerEloPre, weekOneB.powerEloPre);
+  assert.equal(weekOneA.powerRating, 50);
+  assert.ok(weekOneA.powerEloPost > weekOneA.powerEloPre);
+  assert.equal(weekOneA.powerEloDelta, -weekOneB.powerEloDelta);
+
+  const second = runWeek(2, false, first.teamStates);
+  const [weekTwoA, weekTwoB] = second.teamWeeks;
+  assert.ok(weekTwoA && weekTwoB);
+  assert.equal(weekTwoA.powerElo, weekOneA.powerEloPost);
+  assert.equal(weekTwoA.powerEloPost, weekTwoA.powerEloPre);
+  assert.equal(weekTwoA.powerRk, 1);
+  assert.equal(second.matchups[0]?.ratingRealized, null);
+});
+
+void test("the GM ladder credits matchup wins to the owner", () => {
+  const states: PowerGmStates = {};
+  assert.equal(getGmLadderRating(states, "owner-a"), GM_BASE_RATING);
+  applyGmMatchup(
+    states,
+    {
+      homeTeamId: "team-a",
+      awayTeamId: "team-b",
+      gameType: "F",
+      homeScore: 5,
+      awayScore: 5,
+    },
+    owners,
+    "season-1",
+  );
+
+  assert.equal(states["owner-a"]?.playoffs.wins, 1);
+  assert.deepEqual(states["owner-b"]?.finalistSeasonIds, ["season-1"]);
+  assert.ok(
+    getGmLadderRating(states, "owner-a") > getGmLadderRating(states, "owner-b"),
+  );
+});
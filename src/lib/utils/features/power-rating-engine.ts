@@ -0,0 +1,784 @@
+import type {
+  PowerHistorySignal,
+  PowerMatchupUpdate,
+  PowerTalentAccumulator,
+  PowerTeamState,
+  PowerTeamWeekUpdate,
+} from "@gshl-types";
+import { GM_BASE_RATING, type PowerGmMatchup } from "./power-gm-ladder";
+
+/*
+ * Typed port of the weekly power chain in the Apps Script
+ * `PowerRankingsAlgo`: Elo, a stat EWMA, the previous week's form, roster
+ * talent, the GM ladder and a franchise history prior, blended into a
+ * pregame composite and rank. Values are meant to match the Apps Script
+ * engine; change both together and check the result with `power:parity`.
+ */
+
+type StatRow = Readonly<Record<string, unknown>>;
+
+const CATEGORY_RULES = [
+  { field: "G", higherBetter: true },
+  { field: "A", higherBetter: true },
+  { field: "P", higherBetter: true },
+  { field: "PM", higherBetter: true },
+  { field: "PPP", higherBetter: true },
+  { field: "SOG", higherBetter: true },
+  { field: "HIT", higherBetter: true },
+  { field: "BLK", higherBetter: true },
+  { field: "W", higherBetter: true },
+  { field: "GAA", higherBetter: false },
+  { field: "SVP", higherBetter: true },
+] as const;
+const MAX_CATEGORIES = CATEGORY_RULES.length;
+
+const BASE_ELO = 1500;
+const ELO_SCALE = 400;
+const BASE_K = 36;
+const MARGIN_K_MULTIPLIER = 0.9;
+const ELO_MARGIN_WEIGHT = 0.75;
+const ELO_WEEK_TYPE_K_MULTIPLIERS: Record<string, number> = {
+  RS: 1,
+  LT: 0.5,
+  PO: 2,
+};
+const ELO_PLAYOFF_ROUND_STEP = 1;
+const EWMA_ALPHA = 0.72;
+const PERFORMANCE_WEIGHTS = { category: 0.5, points: 0.25, margin: 0.25 };
+const HISTORY_SEASONS = 3;
+const HISTORY_OWNER_HALF_LIFE_SEASONS = 1.5;
+const HISTORY_FRANCHISE_HALF_LIFE_SEASONS = 1;
+const HISTORY_HALF_LIFE_WEEKS = 3;
+const SEED_ELO_TALENT_POINTS_PER_Z = 120;
+const SEED_ELO_HISTORY_POINTS_PER_Z = 110;
+const COMPOSITE_WEIGHTS = {
+  elo: 0.2,
+  stat: 0.3,
+  current: 0.25,
+  talent: 0.15,
+  gm: 0.1,
+  history: 0,
+};
+const MATCHUP_WEIGHTS = {
+  pregameBlend: 0.6,
+  realizedBlend: 0.4,
+  pregameStrength: 0.55,
+  pregameCompetitive: 0.25,
+  pregameImportance: 0.1,
+  pregameRoster: 0.1,
+  realizedStrength: 0.65,
+  realizedCompetitive: 0.35,
+};
+const TALENT_RECENCY_DECAY = 0.72;
+const TALENT_FULL_WEIGHT_GAMES = 84;
+const RANK_TIE_EPSILON = 0.0000001;
+
+export interface PowerRatingMatchup extends PowerGmMatchup {
+  id: string;
+  homeWin?: boolean | null;
+  awayWin?: boolean | null;
+  tie?: boolean | null;
+  isComplete?: boolean | null;
+}
+
+export interface PowerPlayerWeekRow {
+  playerId: string;
+  Rating?: number | string | null;
+  GP?: number | string | null;
+}
+
+export interface PowerPlayerNhlRow {
+  overallRating?: number | string | null;
+  Rating?: number | string | null;
+}
+
+export interface PowerFinishWeek {
+  weekType: string;
+  endDate: string;
+}
+
+export interface PowerHistoryTeam {
+  teamId: string;
+  franchiseId: string;
+  ownerId: string;
+}
+
+export interface PowerRatingWeekInput {
+  /** The season's team ids, in a stable order. */
+  teamIds: readonly string[];
+  week: { id: string; weekType: string; isComplete: boolean };
+  /** The week's 1-based position among the season's started weeks. */
+  weekNumber: number;
+  /** The week's 1-based playoff round, or 1 outside the playoffs. */
+  playoffRound: number;
+  teamStates: Readonly<Record<string, PowerTeamState>>;
+  teamWeeks: ReadonlyMap<string, StatRow>;
+  matchups: readonly PowerRatingMatchup[];
+  rosterStrength: ReadonlyMap<string, number>;
+  gmRatings: ReadonlyMap<string, number>;
+  historyPrior: Readonly<Record<string, number>>;
+}
+
+export interface PowerRatingWeekResult {
+  teamWeeks: PowerTeamWeekUpdate[];
+  matchups: PowerMatchupUpdate[];
+  /** Team states entering the following week. */
+  teamStates: Record<string, PowerTeamState>;
+}
+
+function toNumber(value: unknown): number {
+  if (value === null || value === undefined || value === "") return NaN;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : NaN;
+}
+
+function parseScore(value: unknown): number | null {
+  const numeric = toNumber(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+/** Reads a number the way the Apps Script engine's `value || 0` does. */
+function orZero(value: number | undefined): number {
+  return value === undefined || Number.isNaN(value) ? 0 : value;
+}
+
+function clamp01(value: number) {
+  if (value <= 0) return 0;
+  if (value >= 1) return 1;
+  return value;
+}
+
+/** Population mean and standard deviation, with a unit spread when flat. */
+function zMeta(values: readonly unknown[]): { mean: number; std: number } {
+  const clean = values.map(toNumber).filter((value) => Number.isFinite(value));
+  if (!clean.length) return { mean: 0, std: 1 };
+  const mean = clean.reduce((sum, value) => sum + value, 0) / clean.length;
+  const variance =
+    clean.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) /
+    Math.max(1, clean.length);
+  const std = Math.sqrt(variance);
+  return { mean, std: std && Number.isFinite(std) ? std : 1 };
+}
+
+function zScoresByTeam(
+  teamIds: readonly string[],
+  readValue: (teamId: string) => number,
+): Map<string, number> {
+  const values = teamIds.map(readValue);
+  const meta = zMeta(values);
+  return new Map(
+    teamIds.map((teamId, index) => [
+      teamId,
+      ((values[index] ?? 0) - meta.mean) / meta.std,
+    ]),
+  );
+}
+
+/** A matchup counts as played once it is flagged complete or has scores. */
+function isMatchupComplete(matchup: PowerRatingMatchup): boolean {
+  const hasScore = (score: PowerRatingMatchup["homeScore"]) =>
+    score !== null && score !== undefined && score !== "";
+  return (
+    matchup.isComplete === true ||
+    (hasScore(matchup.homeScore) && hasScore(matchup.awayScore))
+  );
+}
+
+/**
+ * Reads a player's talent entering a season from their latest earlier NHL
+ * season: the overall rating, else the rating. The Apps Script engine never
+ * reaches its season-rating fallback, so neither does this. Only positive
+ * ratings count.
+ */
+export function getPreseasonPlayerTalent(
+  row: PowerPlayerNhlRow | undefined,
+): number | null {
+  if (!row) return null;
+  const rating = [row.overallRating, row.Rating]
+    .map(toNumber)
+    .find((value) => Number.isFinite(value));
+  return rating !== undefined && rating > 0 ? rating : null;
+}
+
+/**
+ * Adds a week of rated player weeks to the rolling talent sums. Weights
+ * decay by 0.72 a week and scale with games played; the sums are kept
+ * relative to the season's first week, which cancels out in the average.
+ */
+export function accumulatePlayerTalent(
+  accumulators: Record<string, PowerTalentAccumulator>,
+  rows: readonly PowerPlayerWeekRow[],
+  weekIndex: number,
+): void {
+  const recency = Math.pow(TALENT_RECENCY_DECAY, -weekIndex);
+  for (const row of rows) {
+    const rating = toNumber(row.Rating);
+    const gamesPlayed = toNumber(row.GP);
+    if (!row.playerId || !(rating > 0) || !(gamesPlayed > 0)) continue;
+    const weight = recency * Math.max(1, gamesPlayed);
+    const accumulator = (accumulators[row.playerId] ??= {
+      weightedRating: 0,
+      weight: 0,
+      gamesPlayed: 0,
+    });
+    accumulator.weightedRating += rating * weight;
+    accumulator.weight += weight;
+    accumulator.gamesPlayed += gamesPlayed;
+  }
+}
+
+/**
+ * Blends a player's preseason talent into their rolling in-season rating as
+ * they approach a full season of games.
+ */
+export function computePlayerTalent(
+  baseTalent: number | null | undefined,
+  accumulator: PowerTalentAccumulator | undefined,
+): number | null {
+  const rolling = accumulator?.weight
+    ? accumulator.weightedRating / accumulator.weight
+    : null;
+  const base = baseTalent ?? null;
+  let talent: number | null = null;
+  if (base !== null && rolling !== null) {
+    const progress = clamp01(
+      (accumulator?.gamesPlayed ?? 0) / TALENT_FULL_WEIGHT_GAMES,
+    );
+    talent = (1 - progress) * base + progress * rolling;
+  } else {
+    talent = rolling ?? base;
+  }
+  return talent !== null && talent > 0 ? talent : null;
+}
+
+/**
+ * Averages a roster's talent with the best players weighted most: the top
+ * nine fully, then 0.8, 0.6 and 0.35 further down the depth chart.
+ */
+export function computeRosterStrength(ratings: readonly number[]): number {
+  const sorted = ratings
+    .filter((rating) => Number.isFinite(rating) && rating > 0)
+    .sort((left, right) => right - left);
+  let total = 0;
+  let weightTotal = 0;
+  sorted.forEach((rating, index) => {
+    const weight = index < 9 ? 1 : index < 14 ? 0.8 : index < 18 ? 0.6 : 0.35;
+    total += rating * weight;
+    weightTotal += weight;
+  });
+  return weightTotal ? total / weightTotal : 0;
+}
+
+/**
+ * Picks each team's finishing week of a season: the latest playoff week,
+ * else the latest regular season week.
+ */
+export function pickBestFinishWeekRows<
+  T extends { gshlTeamId: string; weekId: string },
+>(rows: readonly T[], weeks: ReadonlyMap<string, PowerFinishWeek>): T[] {
+  const priority = (row: T) => {
+    const weekType = weeks.get(row.weekId)?.weekType ?? "RS";
+    return weekType === "PO" ? 2 : weekType === "RS" ? 1 : 0;
+  };
+  const bestByTeam = new Map<string, T>();
+  for (const row of rows) {
+    const best = bestByTeam.get(row.gshlTeamId);
+    if (!best) {
+      bestByTeam.set(row.gshlTeamId, row);
+      continue;
+    }
+    const byPriority = priority(row) - priority(best);
+    const rowEnd = weeks.get(row.weekId)?.endDate ?? "";
+    const bestEnd = weeks.get(best.weekId)?.endDate ?? "";
+    const later =
+      byPriority > 0 ||
+      (byPriority === 0 &&
+        (rowEnd && bestEnd && rowEnd !== bestEnd
+          ? rowEnd > bestEnd
+          : row.weekId.localeCompare(best.weekId) < 0));
+    if (later) bestByTeam.set(row.gshlTeamId, row);
+  }
+  return Array.from(bestByTeam.values());
+}
+
+/**
+ * Reads a stored power signal in composite units, converting legacy 0-100
+ * power ratings when no composite was stored.
+ */
+export function readPowerHistorySignal(row: {
+  powerComposite?: number | string | null;
+  powerRating?: number | string | null;
+}): number | null {
+  const composite = toNumber(row.powerComposite);
+  if (Number.isFinite(composite)) return composite;
+  const rating = toNumber(row.powerRating);
+  if (!Number.isFinite(rating)) return null;
+  return rating >= 0 && rating <= 100 ? (rating - 50) / 25 : rating;
+}
+
+/**
+ * Scores each team's recent history as a z-score across the league. Seasons
+ * under the same owner decay with a 1.5-season half-life, franchise seasons
+ * under other owners with a one-season half-life. Teams without history
+ * score 0.
+ */
+export function computePowerHistoryPrior(
+  teams: readonly PowerHistoryTeam[],
+  signals: readonly PowerHistorySignal[],
+  seasonIndex: number,
+): Record<string, number> {
+  const recent = signals.filter(
+    (signal) =>
+      signal.seasonIndex < seasonIndex &&
+      seasonIndex - signal.seasonIndex <= HISTORY_SEASONS,
+  );
+  const recency = (distance: number, halfLife: number) =>
+    distance > 0 ? Math.pow(0.5, distance / halfLife) : 1;
+  const raw = teams.map((team) => {
+    let total = 0;
+    let weight = 0;
+    for (const signal of recent) {
+      const distance = seasonIndex - signal.seasonIndex;
+      const halfLife =
+        team.ownerId && signal.ownerId === team.ownerId
+          ? HISTORY_OWNER_HALF_LIFE_SEASONS
+          : team.franchiseId && signal.franchiseId === team.franchiseId
+            ? HISTORY_FRANCHISE_HALF_LIFE_SEASONS
+            : null;
+      if (halfLife === null) continue;
+      const signalWeight = recency(distance, halfLife);
+      total += signal.signal * signalWeight;
+      weight += signalWeight;
+    }
+    return { teamId: team.teamId, value: weight ? total / weight : 0, weight };
+  });
+  const meta = zMeta(raw.map((entry) => entry.value));
+  return Object.fromEntries(
+    raw.map((entry) => [
+      entry.teamId,
+      entry.weight > 0 ? (entry.value - meta.mean) / meta.std : 0,
+    ]),
+  );
+}
+
+/**
+ * Seeds each team's Elo from its opening roster talent and history prior,
+ * with no current-season form yet.
+ */
+export function seedPowerTeamStates(
+  teamIds: readonly string[],
+  rosterStrength: ReadonlyMap<string, number>,
+  historyPrior: Readonly<Record<string, number>>,
+): Record<string, PowerTeamState> {
+  const talentZ = zScoresByTeam(teamIds, (teamId) =>
+    orZero(rosterStrength.get(teamId)),
+  );
+  return Object.fromEntries(
+    teamIds.map((teamId) => {
+      const elo =
+        BASE_ELO +
+        SEED_ELO_TALENT_POINTS_PER_Z * orZero(talentZ.get(teamId)) +
+        SEED_ELO_HISTORY_POINTS_PER_Z * orZero(historyPrior[teamId]);
+      return [
+        teamId,
+        {
+          elo: Number.isFinite(elo) ? elo : BASE_ELO,
+          statEwma: 0,
+          previousWeekScore: 0,
+        },
+      ];
+    }),
+  );
+}
+
+function rankByComposite(
+  compositeByTeam: ReadonlyMap<string, number>,
+): Map<string, number> {
+  const entries = Array.from(compositeByTeam.entries()).sort(
+    (left, right) => right[1] - left[1],
+  );
+  const rankByTeam = new Map<string, number>();
+  let previousComposite: number | null = null;
+  let previousRank = 0;
+  entries.forEach(([teamId, composite], index) => {
+    const rank =
+      previousComposite !== null &&
+      Math.abs(composite - previousComposite) < RANK_TIE_EPSILON
+        ? previousRank
+        : index + 1;
+    rankByTeam.set(teamId, rank);
+    previousComposite = composite;
+    previousRank = rank;
+  });
+  return rankByTeam;
+}
+
+function matchupPoints(
+  matchup: PowerRatingMatchup,
+): { home: number; away: number } | null {
+  const homeScore = parseScore(matchup.homeScore);
+  const awayScore = parseScore(matchup.awayScore);
+  const hasScores = homeScore !== null && awayScore !== null;
+  const scoresEqual = hasScores && homeScore === awayScore;
+  // A home win on equal scores is the league's tiebreak win: 2 points to 1.
+  if (matchup.homeWin === true) {
+    return scoresEqual ? { home: 2, away: 1 } : { home: 3, away: 0 };
+  }
+  if (matchup.awayWin === true) return { home: 0, away: 3 };
+  if (matchup.tie === true) return { home: 1.5, away: 1.5 };
+  if (hasScores) {
+    if (scoresEqual) return { home: 2, away: 1 };
+    return homeScore > awayScore ? { home: 3, away: 0 } : { home: 0, away: 3 };
+  }
+  return null;
+}
+
+function marginScore(homeScore: number, awayScore: number) {
+  return clamp01(0.5 + (homeScore - awayScore) / (2 * MAX_CATEGORIES));
+}
+
+/** Blends the category margin with the points result into an Elo outcome. */
+function actualEloScore(matchup: PowerRatingMatchup): number | null {
+  const homeScore = parseScore(matchup.homeScore);
+  const awayScore = parseScore(matchup.awayScore);
+  const margin =
+    homeScore !== null && awayScore !== null
+      ? marginScore(homeScore, awayScore)
+      : null;
+  const points = matchupPoints(matchup);
+  const pointsScore = points ? clamp01(points.home / 3) : null;
+  if (margin === null) return pointsScore;
+  if (pointsScore === null) return margin;
+  return clamp01(
+    ELO_MARGIN_WEIGHT * margin + (1 - ELO_MARGIN_WEIGHT) * pointsScore,
+  );
+}
+
+/**
+ * The matchup's Elo K: wider margins move ratings further, losers
+ * tournament games count half and playoff games count double plus a step
+ * per round. Matchups carry no playoff flag, so the week type decides.
+ */
+function eloKFactor(
+  matchup: PowerRatingMatchup,
+  weekType: string,
+  playoffRound: number,
+) {
+  const homeScore = parseScore(matchup.homeScore);
+  const awayScore = parseScore(matchup.awayScore);
+  const marginK =
+    homeScore === null || awayScore === null
+      ? BASE_K
+      : BASE_K *
+        (1 +
+          (MARGIN_K_MULTIPLIER * Math.abs(homeScore - awayScore)) /
+            MAX_CATEGORIES);
+  const baseMultiplier = ELO_WEEK_TYPE_K_MULTIPLIERS[weekType] ?? 1;
+  const multiplier =
+    weekType === "PO"
+      ? baseMultiplier + Math.max(0, playoffRound - 1) * ELO_PLAYOFF_ROUND_STEP
+      : baseMultiplier;
+  return marginK * multiplier;
+}
+
+function weekImportance(weekType: string, playoffRound: number) {
+  if (weekType === "PO") return 68 + Math.max(0, playoffRound - 1) * 6;
+  if (weekType === "LT") return 48;
+  return 55;
+}
+
+function hasPerformanceData(row: StatRow | undefined): boolean {
+  if (!row) return false;
+  if (toNumber(row.GP) > 0) return true;
+  return CATEGORY_RULES.some((rule) =>
+    Number.isFinite(toNumber(row[rule.field])),
+  );
+}
+
+/** Averages each team's directional z-score across the week's categories. */
+function weeklyCategoryScores(
+  teamIds: readonly string[],
+  teamWeeks: ReadonlyMap<string, StatRow>,
+): Map<string, number> {
+  const categories = CATEGORY_RULES.map((rule) => {
+    const values = teamIds.map((teamId) =>
+      toNumber(teamWeeks.get(teamId)?.[rule.field]),
+    );
+    return {
+      values,
+      meta: zMeta(values),
+      direction: rule.higherBetter ? 1 : -1,
+    };
+  });
+  return new Map(
+    teamIds.map((teamId, index) => {
+      let sum = 0;
+      let count = 0;
+      for (const category of categories) {
+        const value = category.values[index] ?? NaN;
+        if (!Number.isFinite(value)) continue;
+        sum +=
+          (category.direction * (value - category.meta.mean)) /
+          category.meta.std;
+        count += 1;
+      }
+      return [teamId, count ? sum / count : 0];
+    }),
+  );
+}
+
+/**
+ * Runs one week of the power chain. Published team-week values are the
+ * pregame state entering the week; a completed week then updates each
+ * team's stat EWMA, form and Elo for the week after. Matchups get a pregame
+ * rating from both teams' power, closeness, the stakes and (before the
+ * result) roster strength, blended with a realized rating once scored.
+ */
+export function computePowerRatingWeek(
+  input: PowerRatingWeekInput,
+): PowerRatingWeekResult {
+  const { teamIds, week, teamStates, teamWeeks, matchups } = input;
+  const state = (teamId: string) => teamStates[teamId];
+  const talentZ = zScoresByTeam(teamIds, (teamId) =>
+    orZero(input.rosterStrength.get(teamId)),
+  );
+  const gmRatings = new Map(
+    teamIds.map((teamId) => {
+      const rating = input.gmRatings.get(teamId);
+      return [
+        teamId,
+        rating !== undefined && Number.isFinite(rating)
+          ? rating
+          : GM_BASE_RATING,
+      ];
+    }),
+  );
+  const gmZ = zScoresByTeam(teamIds, (teamId) => gmRatings.get(teamId) ?? 0);
+  const eloZ = zScoresByTeam(teamIds, (teamId) => toNumber(state(teamId)?.elo));
+  const historyDecay =
+    input.weekNumber <= 1
+      ? 1
+      : Math.pow(0.5, (input.weekNumber - 1) / HISTORY_HALF_LIFE_WEEKS);
+
+  const compositeByTeam = new Map<string, number>();
+  const ratingByTeam = new Map<string, number>();
+  for (const teamId of teamIds) {
+    const composite =
+      COMPOSITE_WEIGHTS.elo * orZero(eloZ.get(teamId)) +
+      COMPOSITE_WEIGHTS.stat * orZero(state(teamId)?.statEwma) +
+      COMPOSITE_WEIGHTS.current * orZero(state(teamId)?.previousWeekScore) +
+      COMPOSITE_WEIGHTS.talent * orZero(talentZ.get(teamId)) +
+      COMPOSITE_WEIGHTS.gm * orZero(gmZ.get(teamId)) +
+      COMPOSITE_WEIGHTS.history *
+        orZero(input.historyPrior[teamId]) *
+        historyDecay;
+    compositeByTeam.set(teamId, composite);
+    ratingByTeam.set(
+      teamId,
+      Number.isFinite(composite) ? 50 + 25 * composite : 0,
+    );
+  }
+  const rankByTeam = rankByComposite(compositeByTeam);
+
+  const pregameByMatchup = new Map<
+    string,
+    Omit<PowerMatchupUpdate, "id" | "homeRank" | "awayRank">
+  >();
+  for (const matchup of matchups) {
+    if (!matchup.homeTeamId || !matchup.awayTeamId) continue;
+    const homePower = orZero(ratingByTeam.get(matchup.homeTeamId));
+    const awayPower = orZero(ratingByTeam.get(matchup.awayTeamId));
+    const competitive = Math.max(
+      0,
+      100 - Math.abs(homePower - awayPower) * 1.35,
+    );
+    const importance = weekImportance(week.weekType, input.playoffRound);
+    const rosterStrength =
+      (orZero(input.rosterStrength.get(matchup.homeTeamId)) +
+        orZero(input.rosterStrength.get(matchup.awayTeamId))) /
+      2;
+    const ratingPre =
+      MATCHUP_WEIGHTS.pregameStrength * ((homePower + awayPower) / 2) +
+      MATCHUP_WEIGHTS.pregameCompetitive * competitive +
+      MATCHUP_WEIGHTS.pregameImportance * importance +
+      (isMatchupComplete(matchup)
+        ? 0
+        : MATCHUP_WEIGHTS.pregameRoster * rosterStrength);
+    pregameByMatchup.set(matchup.id, {
+      rating: ratingPre,
+      ratingPre,
+      ratingRealized: null,
+      ratingCompetitive: competitive,
+      ratingImportance: importance,
+      ratingRosterStrength: rosterStrength,
+    });
+  }
+
+  const pointsByTeam = new Map<string, number>();
+  const marginByTeam = new Map<string, number>();
+  for (const matchup of matchups) {
+    if (!matchup.homeTeamId || !matchup.awayTeamId) continue;
+    const points = matchupPoints(matchup);
+    if (points) {
+      pointsByTeam.set(
+        matchup.homeTeamId,
+        (pointsByTeam.get(matchup.homeTeamId) ?? 0) + points.home,
+      );
+      pointsByTeam.set(
+        matchup.awayTeamId,
+        (pointsByTeam.get(matchup.awayTeamId) ?? 0) + points.away,
+      );
+    }
+    const homeScore = parseScore(matchup.homeScore);
+    const awayScore = parseScore(matchup.awayScore);
+    if (homeScore !== null && awayScore !== null) {
+      const diff = homeScore - awayScore;
+      marginByTeam.set(
+        matchup.homeTeamId,
+        (marginByTeam.get(matchup.homeTeamId) ?? 0) + diff,
+      );
+      marginByTeam.set(
+        matchup.awayTeamId,
+        (marginByTeam.get(matchup.awayTeamId) ?? 0) - diff,
+      );
+    }
+  }
+
+  const categoryZ = weeklyCategoryScores(teamIds, teamWeeks);
+  const pointsZ = zScoresByTeam(teamIds, (teamId) =>
+    toNumber(pointsByTeam.get(teamId) ?? 0),
+  );
+  const marginZ = zScoresByTeam(teamIds, (teamId) =>
+    toNumber(marginByTeam.get(teamId) ?? 0),
+  );
+
+  const nextStates: Record<string, PowerTeamState> = {};
+  for (const teamId of teamIds) {
+    const previous = state(teamId);
+    const hasSignal =
+      hasPerformanceData(teamWeeks.get(teamId)) ||
+      pointsByTeam.has(teamId) ||
+      marginByTeam.has(teamId);
+    const score = hasSignal
+      ? PERFORMANCE_WEIGHTS.category * toNumber(categoryZ.get(teamId)) +
+        PERFORMANCE_WEIGHTS.points * toNumber(pointsZ.get(teamId)) +
+        PERFORMANCE_WEIGHTS.margin * toNumber(marginZ.get(teamId))
+      : 0;
+    const statEwma = orZero(previous?.statEwma);
+    nextStates[teamId] = {
+      elo: previous?.elo ?? NaN,
+      statEwma:
+        week.isComplete && hasSignal
+          ? EWMA_ALPHA * orZero(score) + (1 - EWMA_ALPHA) * statEwma
+          : statEwma,
+      previousWeekScore: week.isComplete
+        ? orZero(score)
+        : orZero(previous?.previousWeekScore),
+    };
+  }
+
+  const eloParamsByTeam = new Map<string, { expected: number; k: number }>();
+  for (const matchup of matchups) {
+    if (!matchup.homeTeamId || !matchup.awayTeamId) continue;
+    const homeElo = state(matchup.homeTeamId)?.elo;
+    const awayElo = state(matchup.awayTeamId)?.elo;
+    if (
+      homeElo === undefined ||
+      awayElo === undefined ||
+      !Number.isFinite(homeElo) ||
+      !Number.isFinite(awayElo)
+    ) {
+      continue;
+    }
+    const expectedHome =
+      1 / (1 + Math.pow(10, (awayElo - homeElo) / ELO_SCALE));
+    const k = eloKFactor(matchup, week.weekType, input.playoffRound);
+    if (!eloParamsByTeam.has(matchup.homeTeamId)) {
+      eloParamsByTeam.set(matchup.homeTeamId, { expected: expectedHome, k });
+    }
+    if (!eloParamsByTeam.has(matchup.awayTeamId)) {
+      eloParamsByTeam.set(matchup.awayTeamId, {
+        expected: 1 - expectedHome,
+        k,
+      });
+    }
+    const actualHome = actualEloScore(matchup);
+    if (actualHome === null || !week.isComplete || !isMatchupComplete(matchup))
+      continue;
+    const home = nextStates[matchup.homeTeamId];
+    const away = nextStates[matchup.awayTeamId];
+    if (home) home.elo = homeElo + k * (actualHome - expectedHome);
+    if (away) away.elo = awayElo + k * (1 - actualHome - (1 - expectedHome));
+  }
+
+  const teamWeekUpdates = teamIds.map((teamId): PowerTeamWeekUpdate => {
+    const pre = toNumber(state(teamId)?.elo);
+    const post = toNumber(nextStates[teamId]?.elo);
+    const params = eloParamsByTeam.get(teamId);
+    return {
+      gshlTeamId: teamId,
+      weekId: week.id,
+      powerElo: pre,
+      powerEloPre: pre,
+      powerEloPost: post,
+      powerEloDelta:
+        Number.isFinite(post) && Number.isFinite(pre) ? post - pre : 0,
+      powerEloExpected: params?.expected ?? null,
+      powerEloK: params?.k ?? null,
+      powerStatScore: orZero(state(teamId)?.previousWeekScore),
+      powerStatEwma: orZero(state(teamId)?.statEwma),
+      powerTalent: orZero(input.rosterStrength.get(teamId)),
+      gmLadderRating: gmRatings.get(teamId) ?? GM_BASE_RATING,
+      powerGmScore: orZero(gmZ.get(teamId)),
+      powerHistoryPrior: orZero(input.historyPrior[teamId]),
+      powerComposite: orZero(compositeByTeam.get(teamId)),
+      powerRating: orZero(ratingByTeam.get(teamId)),
+      powerRk: rankByTeam.get(teamId) ?? null,
+    };
+  });
+
+  const matchupUpdates: PowerMatchupUpdate[] = [];
+  for (const matchup of matchups) {
+    const pregame = pregameByMatchup.get(matchup.id);
+    if (!pregame) continue;
+    const update: PowerMatchupUpdate = {
+      id: matchup.id,
+      homeRank: rankByTeam.get(matchup.homeTeamId) ?? null,
+      awayRank: rankByTeam.get(matchup.awayTeamId) ?? null,
+      ...pregame,
+    };
+    const homeScore = parseScore(matchup.homeScore);
+    const awayScore = parseScore(matchup.awayScore);
+    const homeRating = ratingByTeam.get(matchup.homeTeamId);
+    const awayRating = ratingByTeam.get(matchup.awayTeamId);
+    if (
+      isMatchupComplete(matchup) &&
+      homeScore !== null &&
+      awayScore !== null &&
+      homeRating !== undefined &&
+      awayRating !== undefined
+    ) {
+      const competitive = Math.max(
+        0,
+        100 - (Math.abs(homeScore - awayScore) / MAX_CATEGORIES) * 100,
+      );
+      const ratingRealized =
+        MATCHUP_WEIGHTS.realizedStrength * ((homeRating + awayRating) / 2) +
+        MATCHUP_WEIGHTS.realizedCompetitive * competitive;
+      update.ratingRealized = ratingRealized;
+      update.ratingCompetitive =
+        MATCHUP_WEIGHTS.pregameBlend * pregame.ratingCompetitive +
+        MATCHUP_WEIGHTS.realizedBlend * competitive;
+      update.rating =
+        MATCHUP_WEIGHTS.pregameBlend * pregame.ratingPre +
+        MATCHUP_WEIGHTS.realizedBlend * ratingRealized;
+    }
+    matchupUpdates.push(update);
+  }
+
+  return {
+    teamWeeks: teamWeekUpdates,
+    matchups: matchupUpdates,
+    teamStates: nextStates,
+  };
+}
@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { Contract, Season } from "@gshl-types";
+import { ContractStatus, ContractType } from "../domain/constants";
+import { resolvePlayerDayEligibility } from "./player-days";
+import { listRfaResigningCandidates, planRfaResigning } from "./rfa-signing";
+
+const seasons = Array.from(
+  { length: 5 },
+  (_, index): Season => ({
+    id: String(index + 5),
+    year: 2020 + index,
+    name: `Season ${index + 5}`,
+    categories: [],
+    rosterSpots: [],
+    startDate: `${2019 + index}-10-01`,
+    endDate: `${2020 + index}-04-20`,
+    signingEndDate: `${2020 + index}-06-20`,
+    isActive: index === 1,
+    usesLegacyTies: false,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  }),
+);
+const signingSeason = seasons[1]!;
+
+function contract(overrides: Partial<Contract> = {}): Contract {
+  return {
+    id: "contract-1",
+    playerId: "player-1",
+    ownerId: "owner-1",
+    seasonId: "4",
+    contractType: [ContractType.STANDARD],
+    contractLength: 2,
+    contractSalary: 4_000_000,
+    signingDate: "2019-05-01",
+    startDate: "2019-10-01",
+    signingStatus: ContractStatus.DRAFTED,
+    expiryStatus: ContractStatus.RFA,
+    expiryDate: "2021-04-20",
+    capHit: 4_000_000,
+    capHitEndDate: "2021-04-20",
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+const resigningOptions = {
+  player: { id: "player-1", fullName: "Test Player", salary: 4_000_000 },
+  ownerId: "owner-1",
+  signingSeason,
+  seasons,
+  referenceDate: new Date("2021-05-01T16:00:00Z"),
+};
+
+void test("an owner re-signs their RFA at 115% in the Late Signing Period", () => {
+  const plan = planRfaResigning({
+    ...resigningOptions,
+    contractLength: 2,
+    contracts: [contract()],
+  });
+
+  assert.deepEqual(plan.errors, []);
+  assert.equal(plan.signingPeriod, "late");
+  assert.equal(plan.expiringContractId, "contract-1");
+  assert.equal(plan.terms?.contractSalary, 4_600_000);
+  assert.equal(plan.terms?.signingStatus, ContractStatus.RFA);
+  assert.equal(plan.terms?.expiryDate, "2023-04-20");
+  assert.deepEqual(plan.capCheck?.coveredSeasonIds, ["7", "8"]);
+});
+
+void test("only the owner holding the expiring contract may re-sign an RFA", () => {
+  const plan = planRfaResigning({
+    ...resigningOptions,
+    ownerId: "owner-2",
+    contractLength: 1,
+    contracts: [contract()],
+  });
+
+  assert.deepEqual(plan.errors, [
+    "Test Player is not an RFA coming off a contract you hold.",
+  ]);
+});
+
+void test("RFA re-signing closes with the Late Signing Period and respects the cap", () => {
+  const plan = planRfaResigning({
+    ...resigningOptions,
+    referenceDate: new Date("2021-06-21T16:00:00Z"),
+    contractLength: 1,
+    contracts: [
+      contract(),
+      contract({
+        id: "contract-2",
+        playerId: "player-2",
+        seasonId: "6",
+        contractLength: 1,
+        contractSalary: 22_000_000,
+        capHit: 22_000_000,
+        startDate: "2021-10-01",
+        expiryStatus: ContractStatus.UFA,
+        expiryDate: "2022-04-20",
+        capHitEndDate: "2022-04-20",
+      }),
+    ],
+  });
+
+  assert.equal(plan.signingPeriod, "summer");
+  assert.deepEqual(plan.errors, [
+    "RFA rights end with the Late Signing Period. The player can now only be signed in Summer Free Agency.",
+    "Test Player would cost $4.600 M but only $3.000 M of cap space is available in Season 7.",
+  ]);
+});
+
+void test("RFA re-signing cannot spend cap reserved by pending UFA offers", () => {
+  const plan = planRfaResigning({
+    ...resigningOptions,
+    contractLength: 1,
+    contracts: [contract()],
+    reservedCapBySeasonId: new Map([["7", 22_000_000]]),
+  });
+
+  assert.deepEqual(plan.errors, [
+    "Test Player would cost $4.600 M but only $3.000 M of cap space is available in Season 7.",
+  ]);
+});
+
+void test("re-signed RFAs drop off the candidate list", () => {
+  const candidates = listRfaResigningCandidates({
+    ownerId: "owner-1",
+    signingSeason,
+    seasons,
+    players: [{ id: "player-1" }, { id: "player-2" }],
+    contracts: [
+      contract(),
+      contract({ id: "contract-2", playerId: "player-2" }),
+      contract({
+        id: "extension",
+        playerId: "player-2",
+        seasonId: "6",
+        contractType: [ContractType.EXTENSION],
+        startDate: "2021-10-01",
+        expiryDate: "2022-04-20",
+        capHitEndDate: "2022-04-20",
+      }),
+    ],
+  });
+
+  assert.deepEqual(
+    candidates.map(({ player, expiringContract }) => [
+      player.id,
+      expiringContract.id,
+    ]),
+    [["player-1", "contract-1"]],
+  );
+});
+
+void test("a player off a second consecutive contract cannot be re-signed", () => {
+  const plan = planRfaResigning({
+    ...resigningOptions,
+    contractLength: 1,
+    contracts: [
+      contract({ id: "contract-0", expiryDate: "2020-04-20" }),
+      contract({
+        seasonId: "5",
+        signingStatus: ContractStatus.RFA,
+        contractType: [ContractType.EXTENSION],
+        contractLength: 1,
+        startDate: "2020-10-01",
+      }),
+    ],
+  });
+
+  assert.match(plan.errors.join(" "), /GSHL Draft pool/);
+});
+
+void test("an RFA who missed the rule 9.11 roster-day test cannot be re-signed", () => {
+  const plan = planRfaResigning({
+    ...resigningOptions,
+    contractLength: 1,
+    contracts: [contract()],
+    playerDays: resolvePlayerDayEligibility({
+      seasonId: signingSeason.id,
+      playerId: "player-1",
+      regularSeasonDays: 160,
+      rosterDays: 80,
+      teamDays: [{ gshlTeamId: "team-1", days: 80 }],
+    }),
+  });
+
+  assert.deepEqual(plan.errors, [
+    "Test Player spent 80 of 160 regular-season days (50.0%) on GSHL rosters. Rule 9.11 requires more than two-thirds.",
+  ]);
+});
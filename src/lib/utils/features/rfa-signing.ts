@@ -0,0 +1,230 @@
+import type {
+  Contract,
+  ContractLength,
+  ContractCapCheck,
+  ContractCreationTerms,
+  Player,
+  PlayerDayEligibility,
+  RfaResigningPlan,
+  Season,
+  SigningPeriodWindow,
+} from "@gshl-types";
+import {
+  buildSigningPeriodCalendar,
+  checkContractCapSpace,
+  deriveContractCreationTerms,
+  findSigningPeriodWindow,
+  getContractEligibility,
+  getSigningPeriodError,
+  isPlayingContract,
+  isUnsignedForSigningSeason,
+} from "../domain/contracts";
+import { ContractStatus, ResignableStatus } from "../domain/constants";
+import { normalizeDateOnlyValue } from "../core/date";
+import { formatMoney } from "../core/format";
+import { getPlayerDayEligibilityError } from "./player-days";
+
+/**
+ * Finds the RFA contract an owner holds that expires with the signing season.
+ * Only that owner may re-sign the player under rule 9.10.
+ */
+export function findExpiringRfaContract(
+  playerId: string,
+  ownerId: string,
+  signingSeason: Pick<Season, "startDate" | "endDate">,
+  contracts: Contract[],
+): Contract | null {
+  const seasonStart = normalizeDateOnlyValue(signingSeason.startDate);
+  const seasonEnd = normalizeDateOnlyValue(signingSeason.endDate);
+  return (
+    contracts.find((contract) => {
+      if (String(contract.playerId) !== String(playerId)) return false;
+      if (String(contract.ownerId) !== String(ownerId)) return false;
+      if (String(contract.expiryStatus) !== String(ContractStatus.RFA)) {
+        return false;
+      }
+      if (!isPlayingContract(contract)) return false;
+      const expiryDate = normalizeDateOnlyValue(contract.expiryDate);
+      return Boolean(
+        expiryDate &&
+          seasonStart &&
+          seasonEnd &&
+          expiryDate >= seasonStart &&
+          expiryDate <= seasonEnd,
+      );
+    }) ?? null
+  );
+}
+
+/**
+ * Validates an owner re-signing their own RFA at 115% of the updated salary.
+ *
+ * The re-signing must happen in a signing period open to RFAs, the owner
+ * must hold the expiring RFA contract, and the new contract must fit under
+ * the cap in every season it covers, after the cap the owner's pending UFA
+ * offers reserve. When the season's rule 9.11 verdict is known, the player
+ * must also have passed the roster-day test.
+ */
+export function planRfaResigning(options: {
+  player: Pick<Player, "id" | "fullName" | "salary">;
+  ownerId: string;
+  signingSeason: Season;
+  contractLength: ContractLength;
+  contracts: Contract[];
+  seasons: Season[];
+  playerDays?: PlayerDayEligibility | null;
+  signingPeriods?: SigningPeriodWindow[];
+  referenceDate?: Date;
+  reservedCapBySeasonId?: ReadonlyMap<string, number>;
+}): RfaResigningPlan {
+  const {
+    player,
+    ownerId,
+    signingSeason,
+    contractLength,
+    contracts,
+    seasons,
+    playerDays,
+    signingPeriods,
+    referenceDate = new Date(),
+    reservedCapBySeasonId,
+  } = options;
+  const errors: string[] = [];
+  const window = findSigningPeriodWindow(
+    signingPeriods ?? buildSigningPeriodCalendar({ season: signingSeason }),
+    referenceDate,
+  );
+  const signingPeriod = window?.period ?? null;
+  if (signingPeriod === "summer") {
+    errors.push(
+      "RFA rights end with the Late Signing Period. The player can now only be signed in Summer Free Agency.",
+    );
+  } else if (!window) {
+    errors.push("RFAs can only be re-signed during a signing period.");
+  } else {
+    const periodError = getSigningPeriodError(window, ResignableStatus.RFA);
+    if (periodError) errors.push(periodError);
+  }
+
+  const expiringContract = findExpiringRfaContract(
+    String(player.id),
+    ownerId,
+    signingSeason,
+    contracts,
+  );
+  if (!expiringContract) {
+    errors.push(
+      `${player.fullName} is not an RFA coming off a contract you hold.`,
+    );
+  } else if (
+    !isUnsignedForSigningSeason(
+      String(player.id),
+      String(signingSeason.id),
+      contracts,
+      seasons,
+    )
+  ) {
+    errors.push(`${player.fullName} has already been re-signed.`);
+  } else {
+    const eligibility = getContractEligibility({
+      player: { ...player, ownerId },
+      signingSeason,
+      contracts,
+      seasons,
+      signingPeriods,
+      referenceDate,
+    });
+    if (!eligibility.canSign) errors.push(eligibility.reason);
+    const playerDayError = getPlayerDayEligibilityError(
+      playerDays,
+      player.fullName,
+    );
+    if (playerDayError) errors.push(playerDayError);
+  }
+
+  let terms: ContractCreationTerms | null = null;
+  let capCheck: ContractCapCheck | null = null;
+  try {
+    terms = deriveContractCreationTerms({
+      player: {
+        id: player.id,
+        salary: player.salary,
+        isResignable: ResignableStatus.RFA,
+      },
+      signingSeason,
+      contractLength,
+      contracts,
+      seasons,
+    });
+    capCheck = checkContractCapSpace({
+      ownerId,
+      signingSeasonId: String(signingSeason.id),
+      contractLength,
+      contractSalary: terms.contractSalary,
+      contracts,
+      seasons,
+      reservedCapBySeasonId,
+    });
+    if (!capCheck.affordable) {
+      const limitingSeason = seasons.find(
+        (season) => String(season.id) === capCheck?.limitingSeasonId,
+      );
+      errors.push(
+        `${player.fullName} would cost ${formatMoney(terms.contractSalary)} but ${capCheck.availableCapSpace > 0 ? `only ${formatMoney(capCheck.availableCapSpace)} of` : "no"} cap space is available in ${limitingSeason?.name ?? "a covered season"}.`,
+      );
+    }
+  } catch (error) {
+    errors.push(
+      error instanceof Error
+        ? error.message
+        : "The contract terms are invalid.",
+    );
+  }
+
+  return {
+    playerId: String(player.id),
+    ownerId: String(ownerId),
+    expiringContractId: expiringContract ? String(expiringContract.id) : null,
+    signingPeriod,
+    contractLength,
+    terms,
+    capCheck,
+    errors,
+  };
+}
+
+/**
+ * Lists the owner's players coming off an RFA contract this signing season
+ * who have not been re-signed yet.
+ */
+export function listRfaResigningCandidates<
+  T extends Pick<Player, "id">,
+>(options: {
+  ownerId: string;
+  signingSeason: Season;
+  players: T[];
+  contracts: Contract[];
+  seasons: Season[];
+}): Array<{ player: T; expiringContract: Contract }> {
+  const { ownerId, signingSeason, players, contracts, seasons } = options;
+  return players.flatMap((player) => {
+    const expiringContract = findExpiringRfaContract(
+      String(player.id),
+      ownerId,
+      signingSeason,
+      contracts,
+    );
+    if (
+      !expiringContract ||
+      !isUnsignedForSigningSeason(
+        String(player.id),
+        String(signingSeason.id),
+        contracts,
+        seasons,
+      )
+    ) {
+      return [];
+    }
+    return [{ player, expiringContract }];
+  });
+}
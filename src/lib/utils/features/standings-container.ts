@@ -20,6 +20,7 @@ import type {
   Week,
 } from "@gshl-types";
 import { keyBy } from "../core";
+import { describeStandingsTiebreaks } from "./standings-engine";
 
 // Re-export types for backward compatibility
 export type {
@@ -754,6 +755,15 @@ export function buildStandingsTeamCardViewModel(
     conferenceLabel: team.confName ?? team.confAbbr ?? "Independent",
     ownerName,
     powerRank: Number.isFinite(powerRank) && powerRank > 0 ? powerRank : null,
+    tiebreakNotes: describeStandingsTiebreaks(
+      team.seasonStats?.tiebreaks,
+      new Map(
+        allTeams.map((candidate) => [
+          candidate.id,
+          candidate.name ?? candidate.abbr ?? "Unknown team",
+        ]),
+      ),
+    ),
     topPlayers: buildStandingsTopPlayers(team, players, playerTotals),
   };
 }
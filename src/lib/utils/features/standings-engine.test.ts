@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { MatchupType as MatchupTypeValue } from "@gshl-types";
+import { MatchupType } from "../domain/constants";
+import {
+  buildSeasonStandings,
+  describeStandingsTiebreaks,
+  type SeasonStandingsInput,
+} from "./standings-engine";
+
+const weeks = [1, 2, 3, 4, 5].map((weekNum) => ({
+  id: `w${weekNum}`,
+  weekNum,
+  weekType: weekNum === 5 ? "PO" : "RS",
+})) as SeasonStandingsInput["weeks"];
+
+function matchup(
+  weekId: string,
+  homeTeamId: string,
+  awayTeamId: string,
+  homeScore: number,
+  awayScore: number,
+  gameType: MatchupTypeValue = MatchupType.CONFERENCE,
+) {
+  return {
+    weekId,
+    homeTeamId,
+    awayTeamId,
+    gameType,
+    homeScore,
+    awayScore,
+  };
+}
+
+function standings(
+  matchups: SeasonStandingsInput["matchups"],
+  conferences: Record<string, string>,
+  options: {
+    ladder?: Record<string, number>;
+    seasonTypes?: string[];
+  } = {},
+) {
+  const teamIds = Object.keys(conferences);
+  return buildSeasonStandings({
+    season: { usesLegacyTies: false },
+    weeks,
+    matchups,
+    teamSeasons: teamIds.flatMap((teamId) =>
+      (options.seasonTypes ?? ["RS"]).map((seasonType) => ({
+        id: `${teamId}-${seasonType}`,
+        gshlTeamId: teamId,
+        seasonType,
+      })),
+    ) as SeasonStandingsInput["teamSeasons"],
+    conferenceByTeamId: new Map(Object.entries(conferences)),
+    ownerLadderRankByTeamId: new Map(Object.entries(options.ladder ?? {})),
+  });
+}
+
+void test("builds records, home-ice results, conference records and streaks", () => {
+  const rows = standings(
+    [
+      matchup("w1", "a", "b", 5, 5),
+      matchup("w2", "c", "a", 6, 4, MatchupType.NON_CONFERENCE),
+      matchup("w3", "c", "a", 3, 7, MatchupType.NON_CONFERENCE),
+      matchup("w4", "b", "a", 2, 8),
+      matchup("w5", "a", "c", 4, 4, MatchupType.QUARTER_FINAL),
+    ],
+    { a: "east", b: "east", c: "west" },
+    { seasonTypes: ["RS", "LT"] },
+  );
+  const a = rows.find((row) => row.id === "a-RS");
+  assert.deepEqual(
+    [a?.teamW, a?.teamHW, a?.teamL, a?.teamCCW, a?.teamCCHW, a?.streak],
+    [3, 1, 1, 2, 1, "2W"],
+  );
+  const b = rows.find((row) => row.id === "b-RS");
+  assert.deepEqual([b?.teamL, b?.teamHL, b?.teamCCL], [2, 1, 2]);
+  assert.equal(a?.overallRk, 1);
+
+  const playoffs = rows.find((row) => row.id === "a-LT");
+  assert.equal(playoffs?.seasonType, "PO");
+  assert.deepEqual(
+    [playoffs?.teamW, playoffs?.teamHW, playoffs?.overallRk],
+    [1, 1, null],
+  );
+});
+
+void test("re-runs the chain for teams still tied after a tiebreaker", () => {
+  const rows = standings(
+    [
+      matchup("w1", "a", "b", 7, 3),
+      matchup("w1", "c", "d", 6, 5, MatchupType.NON_CONFERENCE),
+      matchup("w2", "a", "c", 6, 5),
+      matchup("w2", "b", "d", 7, 2, MatchupType.NON_CONFERENCE),
+      matchup("w2", "d", "e", 7, 1),
+      matchup("w3", "d", "a", 6, 0, MatchupType.NON_CONFERENCE),
+      matchup("w3", "b", "e", 8, 1, MatchupType.NON_CONFERENCE),
+      matchup("w3", "c", "e", 9, 0, MatchupType.NON_CONFERENCE),
+      matchup("w4", "e", "a", 5, 4, MatchupType.NON_CONFERENCE),
+      matchup("w4", "d", "b", 6, 4, MatchupType.NON_CONFERENCE),
+      matchup("w4", "e", "c", 6, 3, MatchupType.NON_CONFERENCE),
+    ],
+    { a: "east", b: "east", c: "east", d: "west", e: "west" },
+  );
+  const byId = new Map(rows.map((row) => [row.gshlTeamId, row]));
+  assert.deepEqual(
+    ["d", "a", "c", "b", "e"].map((teamId) => byId.get(teamId)?.overallRk),
+    [1, 2, 3, 4, 5],
+  );
+  assert.deepEqual(
+    byId.get("b")?.tiebreaks.filter((tiebreak) => tiebreak.scope === "overall"),
+    [
+      {
+        scope: "overall",
+        tiebreaker: "headToHeadPoints",
+        teamIds: ["a", "b", "c"],
+        values: [6, 0, 0],
+      },
+      {
+        scope: "overall",
+        tiebreaker: "conferenceDifferential",
+        teamIds: ["c", "b"],
+        values: [-1, -4],
+      },
+    ],
+  );
+  assert.equal(byId.get("b")?.conferenceRk, 3);
+  assert.equal(byId.get("d")?.wildcardRk, null);
+});
+
+void test("falls back to the Owner Ladder when every other tiebreaker is level", () => {
+  const rows = standings(
+    [matchup("w1", "a", "b", 5, 4), matchup("w2", "b", "a", 5, 4)],
+    { a: "east", b: "east" },
+    { ladder: { a: 4, b: 2 } },
+  );
+  const a = rows.find((row) => row.gshlTeamId === "a");
+  assert.equal(a?.overallRk, 2);
+  assert.deepEqual(a?.tiebreaks[0], {
+    scope: "overall",
+    tiebreaker: "ownerLadder",
+    teamIds: ["b", "a"],
+    values: [2, 4],
+  });
+
+  assert.deepEqual(
+    describeStandingsTiebreaks(
+      [
+        ...(a?.tiebreaks.slice(0, 1) ?? []),
+        {
+          scope: "conference",
+          tiebreaker: "headToHeadDifferential",
+          teamIds: ["a", "b"],
+          values: [3, -3],
+        },
+      ],
+      new Map([
+        ["a", "Wolves"],
+        ["b", "Bears"],
+      ]),
+    ),
+    [
+      {
+        scopeLabel: "League",
+        tiebreakerLabel: "Owner Ladder Ranking",
+        summary: "Bears #2, Wolves #4",
+      },
+      {
+        scopeLabel: "Conference",
+        tiebreakerLabel: "Head-to-head category differential",
+        summary: "Wolves +3, Bears -3",
+      },
+    ],
+  );
+});
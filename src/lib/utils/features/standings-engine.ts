@@ -0,0 +1,532 @@
+import type {
+  Matchup,
+  Season,
+  StandingsTiebreak,
+  StandingsTiebreaker,
+  StandingsTiebreakNote,
+  StandingsType,
+  TeamSeasonStandingsUpdate,
+  TeamSeasonStatLine,
+  Week,
+} from "@gshl-types";
+import { SeasonType } from "../domain/constants";
+import { isPlayoffMatchupType } from "../domain/matchup";
+import { calculateStandingsPoints, usesLegacyTieRules } from "../domain/season";
+
+/** Rule 4.5, applied in order once teams share a record. */
+export const STANDINGS_TIEBREAKERS: readonly StandingsTiebreaker[] = [
+  "standingsPoints",
+  "headToHeadPoints",
+  "headToHeadDifferential",
+  "categoryDifferential",
+  "conferencePoints",
+  "conferenceDifferential",
+  "ownerLadder",
+];
+
+export const STANDINGS_TIEBREAKER_LABELS: Record<StandingsTiebreaker, string> =
+  {
+    standingsPoints: "Total standings points",
+    headToHeadPoints: "Head-to-head standings points",
+    headToHeadDifferential: "Head-to-head category differential",
+    categoryDifferential: "Overall category differential",
+    conferencePoints: "Conference standings points",
+    conferenceDifferential: "Conference category differential",
+    ownerLadder: "Owner Ladder Ranking",
+  };
+
+const STANDINGS_SCOPE_LABELS: Record<StandingsType, string> = {
+  overall: "League",
+  conference: "Conference",
+  wildcard: "Wildcard",
+};
+
+type StandingsRecord = Pick<
+  TeamSeasonStatLine,
+  "teamW" | "teamHW" | "teamHL" | "teamL" | "teamT"
+>;
+
+type StandingsMatchup = Pick<
+  Matchup,
+  | "weekId"
+  | "homeTeamId"
+  | "awayTeamId"
+  | "gameType"
+  | "homeScore"
+  | "awayScore"
+  | "homeWin"
+  | "awayWin"
+  | "tie"
+>;
+
+export interface StandingsOutcome {
+  hasOutcome: boolean;
+  homeWin: boolean;
+  awayWin: boolean;
+  tie: boolean;
+  /** A tied category score awarded to the home team (home-ice win/loss). */
+  scoresWereEqual: boolean;
+}
+
+export interface SeasonStandingsInput {
+  season: Pick<Season, "usesLegacyTies">;
+  weeks: Pick<Week, "id" | "weekNum" | "weekType">[];
+  matchups: StandingsMatchup[];
+  teamSeasons: Pick<TeamSeasonStatLine, "id" | "gshlTeamId" | "seasonType">[];
+  conferenceByTeamId: Map<string, string>;
+  /**
+   * Owner Ladder rank of each team's owner as the regular season ended, 1
+   * being the best.
+   */
+  ownerLadderRankByTeamId: Map<string, number>;
+}
+
+interface RankingEntry {
+  teamId: string;
+  confId: string;
+  update: TeamSeasonStandingsUpdate;
+  record: StandingsRecord;
+  conferenceRecord: StandingsRecord;
+  categoryDifferential: number;
+  conferenceDifferential: number;
+}
+
+const numericScore = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/** Playoff and losers-tournament weeks share one standings line. */
+function standingsSeasonType(value: string | null | undefined): string {
+  const seasonType = (value ?? "").trim();
+  if (!seasonType) return SeasonType.REGULAR_SEASON;
+  return seasonType === String(SeasonType.LOSERS_TOURNAMENT)
+    ? SeasonType.PLAYOFFS
+    : seasonType;
+}
+
+/**
+ * Reads the recorded result of a matchup, falling back to its category
+ * scores. A tied score goes to the home team unless a legacy tie was
+ * recorded, and playoff games can never end tied.
+ */
+export function resolveStandingsOutcome(
+  matchup: StandingsMatchup,
+): StandingsOutcome {
+  const homeScore = numericScore(matchup.homeScore);
+  const awayScore = numericScore(matchup.awayScore);
+  const hasScores = homeScore !== null && awayScore !== null;
+  const scoresWereEqual = hasScores && homeScore === awayScore;
+  const none = {
+    hasOutcome: false,
+    homeWin: false,
+    awayWin: false,
+    tie: false,
+    scoresWereEqual: false,
+  };
+
+  if (isPlayoffMatchupType(matchup.gameType)) {
+    if (hasScores) {
+      return {
+        hasOutcome: true,
+        homeWin: homeScore >= awayScore,
+        awayWin: awayScore > homeScore,
+        tie: false,
+        scoresWereEqual,
+      };
+    }
+    if (matchup.tie === true) {
+      return { ...none, hasOutcome: true, homeWin: true };
+    }
+  }
+  if (matchup.tie === true) {
+    return { ...none, hasOutcome: true, tie: true, scoresWereEqual };
+  }
+  if (matchup.homeWin === true) {
+    return { ...none, hasOutcome: true, homeWin: true, scoresWereEqual };
+  }
+  if (matchup.awayWin === true) {
+    return { ...none, hasOutcome: true, awayWin: true, scoresWereEqual };
+  }
+  if (hasScores) {
+    return {
+      hasOutcome: true,
+      homeWin: homeScore >= awayScore,
+      awayWin: awayScore > homeScore,
+      tie: false,
+      scoresWereEqual,
+    };
+  }
+  return none;
+}
+
+const emptyRecord = (): StandingsRecord => ({
+  teamW: 0,
+  teamHW: 0,
+  teamHL: 0,
+  teamL: 0,
+  teamT: 0,
+});
+
+/** Adds one result to a record from the given team's side of the matchup. */
+function addResult(
+  record: StandingsRecord,
+  outcome: StandingsOutcome,
+  isHome: boolean,
+): "W" | "L" | "T" | null {
+  if (outcome.tie) {
+    record.teamT += 1;
+    return "T";
+  }
+  const won = isHome ? outcome.homeWin : outcome.awayWin;
+  const lost = isHome ? outcome.awayWin : outcome.homeWin;
+  if (won) {
+    record.teamW += 1;
+    if (isHome && outcome.scoresWereEqual) record.teamHW += 1;
+    return "W";
+  }
+  if (lost) {
+    record.teamL += 1;
+    if (!isHome && outcome.scoresWereEqual) record.teamHL += 1;
+    return "L";
+  }
+  return null;
+}
+
+function categoryDifferential(matchup: StandingsMatchup, isHome: boolean) {
+  const homeScore = numericScore(matchup.homeScore) ?? 0;
+  const awayScore = numericScore(matchup.awayScore) ?? 0;
+  return isHome ? homeScore - awayScore : awayScore - homeScore;
+}
+
+function buildStreak(results: string[]): string {
+  const last = results.at(-1);
+  if (!last) return "";
+  let count = 0;
+  for (let index = results.length - 1; index >= 0; index -= 1) {
+    if (results[index] !== last) break;
+    count += 1;
+  }
+  return `${count}${last}`;
+}
+
+/**
+ * Orders teams by record: wins then losses, or 2-1-0 points then wins in
+ * seasons that still recorded ties.
+ */
+function compareRecords(
+  left: StandingsRecord,
+  right: StandingsRecord,
+  season: SeasonStandingsInput["season"],
+): number {
+  if (usesLegacyTieRules(season)) {
+    return (
+      calculateStandingsPoints(right, season) -
+        calculateStandingsPoints(left, season) || right.teamW - left.teamW
+    );
+  }
+  return right.teamW - left.teamW || left.teamL - right.teamL;
+}
+
+/** Head-to-head points and category differential within a tied group. */
+function headToHead(
+  group: RankingEntry[],
+  matchups: StandingsMatchup[],
+  season: SeasonStandingsInput["season"],
+) {
+  const teamIds = new Set(group.map((entry) => entry.teamId));
+  const records = new Map(group.map((entry) => [entry.teamId, emptyRecord()]));
+  const differentials = new Map(group.map((entry) => [entry.teamId, 0]));
+  for (const matchup of matchups) {
+    if (!teamIds.has(matchup.homeTeamId) || !teamIds.has(matchup.awayTeamId)) {
+      continue;
+    }
+    const outcome = resolveStandingsOutcome(matchup);
+    for (const [teamId, isHome] of [
+      [matchup.homeTeamId, true],
+      [matchup.awayTeamId, false],
+    ] as const) {
+      addResult(records.get(teamId)!, outcome, isHome);
+      differentials.set(
+        teamId,
+        differentials.get(teamId)! + categoryDifferential(matchup, isHome),
+      );
+    }
+  }
+  return {
+    points: new Map(
+      [...records].map(([teamId, record]) => [
+        teamId,
+        calculateStandingsPoints(record, season),
+      ]),
+    ),
+    differentials,
+  };
+}
+
+/**
+ * Breaks a tie between teams with the same record. The first tiebreaker
+ * that separates the group is recorded, and any teams still level after it
+ * go back through the full chain on their own, so head-to-head is always
+ * measured within the teams that remain tied.
+ */
+function breakTie(
+  group: RankingEntry[],
+  scope: StandingsType,
+  input: SeasonStandingsInput,
+  matchups: StandingsMatchup[],
+): RankingEntry[] {
+  if (group.length < 2) return group;
+  const h2h = headToHead(group, matchups, input.season);
+  const valueOf = (
+    tiebreaker: StandingsTiebreaker,
+    entry: RankingEntry,
+  ): number => {
+    switch (tiebreaker) {
+      case "standingsPoints":
+        return calculateStandingsPoints(entry.record, input.season);
+      case "headToHeadPoints":
+        return h2h.points.get(entry.teamId) ?? 0;
+      case "headToHeadDifferential":
+        return h2h.differentials.get(entry.teamId) ?? 0;
+      case "categoryDifferential":
+        return entry.categoryDifferential;
+      case "conferencePoints":
+        return calculateStandingsPoints(entry.conferenceRecord, input.season);
+      case "conferenceDifferential":
+        return entry.conferenceDifferential;
+      case "ownerLadder":
+        // Owners missing from the ladder rank behind everyone on it.
+        return (
+          input.ownerLadderRankByTeamId.get(entry.teamId) ??
+          input.ownerLadderRankByTeamId.size + 1
+        );
+    }
+  };
+
+  for (const tiebreaker of STANDINGS_TIEBREAKERS) {
+    const direction = tiebreaker === "ownerLadder" ? 1 : -1;
+    const valued = group
+      .map((entry) => ({ entry, value: valueOf(tiebreaker, entry) }))
+      .sort(
+        (left, right) =>
+          direction * (left.value - right.value) ||
+          left.entry.teamId.localeCompare(right.entry.teamId),
+      );
+    if (valued[0]!.value === valued.at(-1)!.value) continue;
+
+    const decision: StandingsTiebreak = {
+      scope,
+      tiebreaker,
+      teamIds: valued.map(({ entry }) => entry.teamId),
+      values: valued.map(({ value }) => value),
+    };
+    for (const { entry } of valued) entry.update.tiebreaks.push(decision);
+
+    const ordered: RankingEntry[] = [];
+    for (let start = 0; start < valued.length; ) {
+      let end = start + 1;
+      while (
+        end < valued.length &&
+        valued[end]!.value === valued[start]!.value
+      ) {
+        end += 1;
+      }
+      ordered.push(
+        ...breakTie(
+          valued.slice(start, end).map(({ entry }) => entry),
+          scope,
+          input,
+          matchups,
+        ),
+      );
+      start = end;
+    }
+    return ordered;
+  }
+  return [...group].sort((left, right) =>
+    left.teamId.localeCompare(right.teamId),
+  );
+}
+
+function rankEntries(
+  entries: RankingEntry[],
+  scope: StandingsType,
+  input: SeasonStandingsInput,
+  matchups: StandingsMatchup[],
+): RankingEntry[] {
+  const byRecord = [...entries].sort(
+    (left, right) =>
+      compareRecords(left.record, right.record, input.season) ||
+      left.teamId.localeCompare(right.teamId),
+  );
+  const ranked: RankingEntry[] = [];
+  for (let start = 0; start < byRecord.length; ) {
+    let end = start + 1;
+    while (
+      end < byRecord.length &&
+      compareRecords(
+        byRecord[start]!.record,
+        byRecord[end]!.record,
+        input.season,
+      ) === 0
+    ) {
+      end += 1;
+    }
+    ranked.push(
+      ...breakTie(byRecord.slice(start, end), scope, input, matchups),
+    );
+    start = end;
+  }
+  return ranked;
+}
+
+/**
+ * Rebuilds every team-season standings line from the season's matchups:
+ * overall and conference records, streaks, and for the regular season the
+ * overall, conference and wildcard ranks under rule 4.5. Each tiebreaker
+ * decision is returned on the lines of the teams it separated.
+ */
+export function buildSeasonStandings(
+  input: SeasonStandingsInput,
+): TeamSeasonStandingsUpdate[] {
+  const weekById = new Map(input.weeks.map((week) => [week.id, week]));
+  const matchupsByType = new Map<string, StandingsMatchup[]>();
+  for (const matchup of [...input.matchups].sort(
+    (left, right) =>
+      Number(weekById.get(left.weekId)?.weekNum ?? 0) -
+      Number(weekById.get(right.weekId)?.weekNum ?? 0),
+  )) {
+    const week = weekById.get(matchup.weekId);
+    if (!week || !resolveStandingsOutcome(matchup).hasOutcome) continue;
+    const seasonType = standingsSeasonType(week.weekType);
+    matchupsByType.set(seasonType, [
+      ...(matchupsByType.get(seasonType) ?? []),
+      matchup,
+    ]);
+  }
+
+  const rankingEntries: RankingEntry[] = [];
+  const updates = input.teamSeasons.map((teamSeason) => {
+    const teamId = teamSeason.gshlTeamId;
+    const seasonType = standingsSeasonType(teamSeason.seasonType);
+    const confId = input.conferenceByTeamId.get(teamId) ?? "";
+    const record = emptyRecord();
+    const conferenceRecord = emptyRecord();
+    let differential = 0;
+    let conferenceDifferential = 0;
+    const results: string[] = [];
+
+    for (const matchup of matchupsByType.get(seasonType) ?? []) {
+      const isHome = matchup.homeTeamId === teamId;
+      if (!isHome && matchup.awayTeamId !== teamId) continue;
+      const opponentId = isHome ? matchup.awayTeamId : matchup.homeTeamId;
+      const isConference =
+        Boolean(confId) && input.conferenceByTeamId.get(opponentId) === confId;
+      const outcome = resolveStandingsOutcome(matchup);
+      const result = addResult(record, outcome, isHome);
+      if (result) results.push(result);
+      differential += categoryDifferential(matchup, isHome);
+      if (isConference) {
+        addResult(conferenceRecord, outcome, isHome);
+        conferenceDifferential += categoryDifferential(matchup, isHome);
+      }
+    }
+
+    const update: TeamSeasonStandingsUpdate = {
+      id: teamSeason.id,
+      gshlTeamId: teamId,
+      seasonType,
+      ...record,
+      teamCCW: conferenceRecord.teamW,
+      teamCCHW: conferenceRecord.teamHW,
+      teamCCHL: conferenceRecord.teamHL,
+      teamCCL: conferenceRecord.teamL,
+      teamCCT: conferenceRecord.teamT,
+      streak: buildStreak(results),
+      overallRk: null,
+      conferenceRk: null,
+      wildcardRk: null,
+      tiebreaks: [],
+    };
+    if (seasonType === String(SeasonType.REGULAR_SEASON)) {
+      rankingEntries.push({
+        teamId,
+        confId,
+        update,
+        record,
+        conferenceRecord,
+        categoryDifferential: differential,
+        conferenceDifferential,
+      });
+    }
+    return update;
+  });
+
+  const regularSeasonMatchups =
+    matchupsByType.get(SeasonType.REGULAR_SEASON) ?? [];
+  rankEntries(rankingEntries, "overall", input, regularSeasonMatchups).forEach(
+    (entry, index) => {
+      entry.update.overallRk = index + 1;
+    },
+  );
+
+  const entriesByConference = new Map<string, RankingEntry[]>();
+  for (const entry of rankingEntries) {
+    if (!entry.confId) continue;
+    entriesByConference.set(entry.confId, [
+      ...(entriesByConference.get(entry.confId) ?? []),
+      entry,
+    ]);
+  }
+  for (const conferenceEntries of entriesByConference.values()) {
+    rankEntries(
+      conferenceEntries,
+      "conference",
+      input,
+      regularSeasonMatchups,
+    ).forEach((entry, index) => {
+      entry.update.conferenceRk = index + 1;
+    });
+  }
+
+  const wildcardPool = rankingEntries.filter(
+    (entry) => (entry.update.conferenceRk ?? 0) > 3,
+  );
+  rankEntries(wildcardPool, "wildcard", input, regularSeasonMatchups).forEach(
+    (entry, index) => {
+      entry.update.wildcardRk = index + 1;
+    },
+  );
+
+  return updates;
+}
+
+/**
+ * Explains each recorded tiebreak for one team, e.g. "Head-to-head
+ * standings points: Wolves 5, Bears 3".
+ */
+export function describeStandingsTiebreaks(
+  tiebreaks: StandingsTiebreak[] | null | undefined,
+  teamNameById: Map<string, string>,
+): StandingsTiebreakNote[] {
+  return (tiebreaks ?? []).map((tiebreak) => {
+    const format = (value: number) =>
+      tiebreak.tiebreaker === "ownerLadder"
+        ? `#${value}`
+        : tiebreak.tiebreaker.endsWith("Differential") && value > 0
+          ? `+${value}`
+          : String(value);
+    return {
+      scopeLabel: STANDINGS_SCOPE_LABELS[tiebreak.scope],
+      tiebreakerLabel: STANDINGS_TIEBREAKER_LABELS[tiebreak.tiebreaker],
+      summary: tiebreak.teamIds
+        .map(
+          (teamId, index) =>
+            `${teamNameById.get(teamId) ?? "Unknown team"} ${format(tiebreak.values[index] ?? 0)}`,
+        )
+        .join(", "),
+    };
+  });
+}
@@ -0,0 +1,323 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { Contract, Season, Trade } from "@gshl-types";
+import { ContractStatus, ContractType } from "../domain/constants";
+import { buildTradeHistoryRows, planTrade } from "./trades";
+
+const seasons = Array.from(
+  { length: 4 },
+  (_, index): Season => ({
+    id: String(index + 5),
+    year: 2020 + index,
+    name: `Season ${index + 5}`,
+    categories: [],
+    rosterSpots: [],
+    startDate: `${2019 + index}-10-01`,
+    endDate: `${2020 + index}-04-20`,
+    signingEndDate: `${2020 + index}-06-20`,
+    isActive: index === 1,
+    usesLegacyTies: false,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  }),
+);
+
+function contract(overrides: Partial<Contract> = {}): Contract {
+  return {
+    id: "contract-1",
+    playerId: "player-1",
+    ownerId: "owner-1",
+    seasonId: "5",
+    contractType: [ContractType.STANDARD],
+    contractLength: 2,
+    contractSalary: 5_000_000,
+    signingDate: "2020-05-01",
+    startDate: "2020-10-01",
+    signingStatus: ContractStatus.DRAFTED,
+    expiryStatus: ContractStatus.RFA,
+    expiryDate: "2022-04-20",
+    capHit: 5_000_000,
+    capHitEndDate: "2022-04-20",
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+const tradeOptions = {
+  seasons,
+  tradeSeasonId: "6",
+  tradeDate: "2021-01-15",
+  ownerNames: new Map([
+    ["owner-1", "Toronto Testers"],
+    ["owner-2", "Montreal Mockers"],
+  ]),
+};
+
+void test("a traded player carries every remaining contract year", () => {
+  const plan = planTrade({
+    ...tradeOptions,
+    assets: [
+      {
+        kind: "player",
+        fromOwnerId: "owner-1",
+        toOwnerId: "owner-2",
+        playerId: "player-1",
+      },
+      {
+        kind: "draftPick",
+        fromOwnerId: "owner-2",
+        toOwnerId: "owner-1",
+        draftPickId: "pick-1",
+      },
+    ],
+    contracts: [
+      contract(),
+      contract({
+        id: "expired",
+        seasonId: "4",
+        capHitEndDate: "2020-04-20",
+        expiryDate: "2020-04-20",
+      }),
+    ],
+  });
+
+  assert.deepEqual(plan.errors, []);
+  assert.deepEqual(
+    plan.contractMoves.map((move) => [move.contractId, move.toOwnerId]),
+    [["contract-1", "owner-2"]],
+  );
+  assert.deepEqual(
+    plan.capChecks.map((check) => [check.ownerId, check.seasonId]),
+    [
+      ["owner-2", "6"],
+      ["owner-2", "7"],
+    ],
+  );
+});
+
+void test("a partial contract list is rejected as salary retention", () => {
+  const plan = planTrade({
+    ...tradeOptions,
+    assets: [
+      {
+        kind: "player",
+        fromOwnerId: "owner-1",
+        toOwnerId: "owner-2",
+        playerId: "player-1",
+        contractIds: [],
+      },
+      {
+        kind: "draftPick",
+        fromOwnerId: "owner-2",
+        toOwnerId: "owner-1",
+        draftPickId: "pick-1",
+      },
+    ],
+    contracts: [contract()],
+  });
+
+  assert.equal(plan.contractMoves.length, 0);
+  assert.match(plan.errors.join(" "), /rule 3\.5/);
+});
+
+void test("the receiving owner must fit the cap in every covered season", () => {
+  const plan = planTrade({
+    ...tradeOptions,
+    assets: [
+      {
+        kind: "player",
+        fromOwnerId: "owner-1",
+        toOwnerId: "owner-2",
+        playerId: "player-1",
+      },
+      {
+        kind: "player",
+        fromOwnerId: "owner-2",
+        toOwnerId: "owner-1",
+        playerId: "player-2",
+      },
+    ],
+    contracts: [
+      contract(),
+      contract({
+        id: "contract-2",
+        playerId: "player-2",
+        ownerId: "owner-2",
+        contractLength: 1,
+        contractSalary: 1_000_000,
+        capHit: 1_000_000,
+        expiryDate: "2021-04-20",
+        capHitEndDate: "2021-04-20",
+      }),
+      contract({
+        id: "contract-3",
+        playerId: "player-3",
+        ownerId: "owner-2",
+        seasonId: "6",
+        contractLength: 1,
+        contractSalary: 21_000_000,
+        capHit: 21_000_000,
+        startDate: "2021-10-01",
+        expiryDate: "2022-04-20",
+        capHitEndDate: "2022-04-20",
+      }),
+    ],
+  });
+
+  assert.deepEqual(
+    plan.capChecks.map((check) => [
+      check.ownerId,
+      check.seasonId,
+      check.affordable,
+    ]),
+    [
+      ["owner-2", "6", true],
+      ["owner-2", "7", false],
+    ],
+  );
+  assert.deepEqual(plan.errors, [
+    "Montreal Mockers would be $1.000 M over the salary cap in Season 7.",
+  ]);
+});
+
+void test("a trade in the first configured season is checked against the cap", () => {
+  const firstSeasonContract = {
+    seasonId: "4",
+    contractLength: 1,
+    startDate: "2019-10-01",
+    expiryDate: "2020-04-20",
+    capHitEndDate: "2020-04-20",
+  };
+  const plan = planTrade({
+    ...tradeOptions,
+    tradeSeasonId: "5",
+    tradeDate: "2020-01-15",
+    assets: [
+      {
+        kind: "player",
+        fromOwnerId: "owner-1",
+        toOwnerId: "owner-2",
+        playerId: "player-1",
+      },
+      {
+        kind: "draftPick",
+        fromOwnerId: "owner-2",
+        toOwnerId: "owner-1",
+        draftPickId: "pick-1",
+      },
+    ],
+    contracts: [
+      contract(firstSeasonContract),
+      contract({
+        ...firstSeasonContract,
+        id: "contract-2",
+        playerId: "player-2",
+        ownerId: "owner-2",
+        contractSalary: 21_000_000,
+        capHit: 21_000_000,
+      }),
+    ],
+  });
+
+  assert.deepEqual(
+    plan.capChecks.map((check) => [
+      check.ownerId,
+      check.seasonId,
+      check.affordable,
+    ]),
+    [["owner-2", "5", false]],
+  );
+  assert.deepEqual(plan.errors, [
+    "Montreal Mockers would be $1.000 M over the salary cap in Season 5.",
+  ]);
+});
+
+void test("pending UFA offers count against the receiving owner's cap", () => {
+  const options = {
+    ...tradeOptions,
+    assets: [
+      {
+        kind: "player" as const,
+        fromOwnerId: "owner-1",
+        toOwnerId: "owner-2",
+        playerId: "player-1",
+      },
+      {
+        kind: "draftPick" as const,
+        fromOwnerId: "owner-2",
+        toOwnerId: "owner-1",
+        draftPickId: "pick-1",
+      },
+    ],
+    contracts: [contract()],
+  };
+
+  assert.deepEqual(planTrade(options).errors, []);
+  const plan = planTrade({
+    ...options,
+    reservedCapByOwnerId: new Map([["owner-2", new Map([["7", 21_000_000]])]]),
+  });
+  assert.deepEqual(
+    plan.capChecks.map((check) => [check.seasonId, check.availableCapSpace]),
+    [
+      ["6", 20_000_000],
+      ["7", -1_000_000],
+    ],
+  );
+  assert.deepEqual(plan.errors, [
+    "Montreal Mockers would be $1.000 M over the salary cap in Season 7.",
+  ]);
+});
+
+void test("trade history lists what each side received", () => {
+  const trade: Trade = {
+    id: "trade-1",
+    seasonId: "6",
+    ownerIds: ["owner-1", "owner-2"],
+    assets: [
+      {
+        kind: "player",
+        fromOwnerId: "owner-1",
+        toOwnerId: "owner-2",
+        playerId: "player-1",
+        contractIds: ["contract-1"],
+      },
+      {
+        kind: "draftPick",
+        fromOwnerId: "owner-2",
+        toOwnerId: "owner-1",
+        draftPickId: "pick-1",
+      },
+    ],
+    executedAt: "2021-01-15T17:00:00.000Z",
+    createdAt: "2021-01-15T17:00:00.000Z",
+    updatedAt: "2021-01-15T17:00:00.000Z",
+  };
+
+  const rows = buildTradeHistoryRows({
+    trades: [trade],
+    players: [{ id: "player-1", fullName: "Test Player" }],
+    draftPicks: [{ id: "pick-1", seasonId: "7", round: "2", pick: "" }],
+    franchises: [
+      { ownerId: "owner-1", name: "Toronto Testers" },
+      { ownerId: "owner-2", name: "Montreal Mockers" },
+    ],
+    seasons,
+    contracts: [
+      { id: "contract-1", contractLength: 2, contractSalary: 5_000_000 },
+    ],
+    ownerId: "owner-2",
+  });
+
+  assert.deepEqual(
+    rows[0]?.sides.map((side) => [
+      side.franchiseName,
+      side.received.map((asset) => [asset.label, asset.detail]),
+    ]),
+    [
+      ["Toronto Testers", [["Season 7 Round 2 pick", null]]],
+      ["Montreal Mockers", [["Test Player", "2 yr · $5.0 M"]]],
+    ],
+  );
+});
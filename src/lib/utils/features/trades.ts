@@ -0,0 +1,330 @@
+import type {
+  Contract,
+  DraftPick,
+  Franchise,
+  Player,
+  Season,
+  Trade,
+  TradeAsset,
+  TradeContractMove,
+  TradeHistoryAssetView,
+  TradeHistoryRowView,
+  TradePlan,
+  TradeSeasonCapCheck,
+} from "@gshl-types";
+import {
+  doesContractAffectSeason,
+  getCommittedCapHit,
+  isPlayingContract,
+  orderContractSeasons,
+} from "../domain/contracts";
+import { SALARY_CAP } from "../domain/constants";
+import { normalizeDateOnlyValue } from "../core/date";
+import { formatMoney } from "../core/format";
+
+type TradeContractSource = Pick<
+  Contract,
+  | "id"
+  | "playerId"
+  | "ownerId"
+  | "seasonId"
+  | "contractType"
+  | "contractLength"
+  | "contractSalary"
+  | "startDate"
+  | "expiryStatus"
+  | "expiryDate"
+  | "capHit"
+  | "capHitEndDate"
+>;
+
+function contractCapHit(contract: Pick<Contract, "capHit" | "contractSalary">) {
+  const capHit = Number(contract.capHit ?? contract.contractSalary ?? 0);
+  return Number.isFinite(capHit) ? capHit : 0;
+}
+
+function assetKey(asset: TradeAsset): string {
+  return asset.kind === "player"
+    ? `player:${asset.playerId ?? ""}`
+    : `draftPick:${asset.draftPickId ?? ""}`;
+}
+
+/**
+ * Returns every live playing contract an owner holds for a player. Rule 3.5
+ * moves all of them together, so this is the complete set a trade carries.
+ */
+export function getTradeableContracts<T extends TradeContractSource>(
+  playerId: string,
+  ownerId: string,
+  contracts: T[],
+  tradeDate: string,
+): T[] {
+  return contracts.filter((contract) => {
+    if (String(contract.playerId) !== String(playerId)) return false;
+    if (String(contract.ownerId) !== String(ownerId)) return false;
+    if (!isPlayingContract(contract)) return false;
+    const capHitEnd = normalizeDateOnlyValue(
+      contract.capHitEndDate ?? contract.expiryDate,
+    );
+    return !capHitEnd || capHitEnd >= tradeDate;
+  });
+}
+
+/** Lists the owners that appear on either side of a trade. */
+export function getTradeOwnerIds(assets: TradeAsset[]): string[] {
+  return [
+    ...new Set(
+      assets.flatMap((asset) => [
+        String(asset.fromOwnerId),
+        String(asset.toOwnerId),
+      ]),
+    ),
+  ].sort();
+}
+
+/**
+ * Validates a multi-asset trade and projects its cap effect.
+ *
+ * Player contracts always move in full (rule 3.5). Every season a moved
+ * contract touches, from the trade season on, is then checked for each owner
+ * that takes on more cap than they send out, using the post-trade ledger and
+ * the cap their pending UFA offers reserve.
+ */
+export function planTrade(options: {
+  assets: TradeAsset[];
+  contracts: Contract[];
+  seasons: Season[];
+  tradeSeasonId: string;
+  tradeDate: string;
+  salaryCap?: number;
+  ownerNames?: ReadonlyMap<string, string>;
+  // Pending UFA offer reservations by owner, then by season.
+  reservedCapByOwnerId?: ReadonlyMap<string, ReadonlyMap<string, number>>;
+}): TradePlan {
+  const {
+    assets,
+    contracts,
+    seasons,
+    tradeSeasonId,
+    tradeDate,
+    salaryCap = SALARY_CAP,
+    ownerNames,
+    reservedCapByOwnerId,
+  } = options;
+  const errors: string[] = [];
+  const ownerName = (ownerId: string) =>
+    ownerNames?.get(String(ownerId)) ?? "An owner";
+
+  if (assets.length === 0) {
+    errors.push("A trade must include at least one asset.");
+  }
+  if (getTradeOwnerIds(assets).length < 2) {
+    errors.push("A trade must involve at least two owners.");
+  }
+
+  const seenAssets = new Set<string>();
+  const contractMoves: TradeContractMove[] = [];
+  for (const asset of assets) {
+    if (String(asset.fromOwnerId) === String(asset.toOwnerId)) {
+      errors.push("An asset cannot be traded to the owner that sends it.");
+      continue;
+    }
+    if (asset.kind === "player" && !asset.playerId) {
+      errors.push("Player assets must name a player.");
+      continue;
+    }
+    if (asset.kind === "draftPick" && !asset.draftPickId) {
+      errors.push("Draft pick assets must name a draft pick.");
+      continue;
+    }
+    const key = assetKey(asset);
+    if (seenAssets.has(key)) {
+      errors.push("The same asset cannot appear twice in one trade.");
+      continue;
+    }
+    seenAssets.add(key);
+    if (asset.kind !== "player" || !asset.playerId) continue;
+
+    const tradeable = getTradeableContracts(
+      asset.playerId,
+      asset.fromOwnerId,
+      contracts,
+      tradeDate,
+    );
+    if (asset.contractIds) {
+      const requested = new Set(asset.contractIds.map(String));
+      const complete =
+        requested.size === tradeable.length &&
+        tradeable.every((contract) => requested.has(String(contract.id)));
+      if (!complete) {
+        errors.push(
+          "Salary retention is not allowed: traded players keep every remaining contract year (rule 3.5).",
+        );
+        continue;
+      }
+    }
+    tradeable.forEach((contract) =>
+      contractMoves.push({
+        contractId: String(contract.id),
+        playerId: String(asset.playerId),
+        fromOwnerId: String(asset.fromOwnerId),
+        toOwnerId: String(asset.toOwnerId),
+        capHit: contractCapHit(contract),
+      }),
+    );
+  }
+
+  const moveByContractId = new Map(
+    contractMoves.map((move) => [move.contractId, move]),
+  );
+  const postTradeContracts = contracts.map((contract) => {
+    const move = moveByContractId.get(String(contract.id));
+    return move ? { ...contract, ownerId: move.toOwnerId } : contract;
+  });
+
+  const ordered = orderContractSeasons(seasons);
+  const tradeSeasonIndex = ordered.findIndex(
+    (season) => String(season.id) === String(tradeSeasonId),
+  );
+  const capChecks: TradeSeasonCapCheck[] = [];
+  const ownerIds = getTradeOwnerIds(assets);
+
+  ordered.forEach((season, index) => {
+    if (tradeSeasonIndex < 0 || index < tradeSeasonIndex) return;
+    const movesInSeason = contractMoves.filter((move) => {
+      const contract = contracts.find(
+        (candidate) => String(candidate.id) === move.contractId,
+      );
+      return contract
+        ? doesContractAffectSeason(contract, season, ordered)
+        : false;
+    });
+    if (movesInSeason.length === 0) return;
+
+    ownerIds.forEach((ownerId) => {
+      const incomingCapHit = movesInSeason
+        .filter((move) => move.toOwnerId === ownerId)
+        .reduce((total, move) => total + move.capHit, 0);
+      const outgoingCapHit = movesInSeason
+        .filter((move) => move.fromOwnerId === ownerId)
+        .reduce((total, move) => total + move.capHit, 0);
+      if (incomingCapHit <= outgoingCapHit) return;
+
+      const availableCapSpace =
+        salaryCap -
+        getCommittedCapHit(ownerId, season, postTradeContracts, ordered) -
+        (reservedCapByOwnerId?.get(ownerId)?.get(String(season.id)) ?? 0);
+      const check: TradeSeasonCapCheck = {
+        ownerId,
+        seasonId: String(season.id),
+        incomingCapHit,
+        outgoingCapHit,
+        availableCapSpace,
+        affordable: availableCapSpace >= 0,
+      };
+      capChecks.push(check);
+      if (!check.affordable) {
+        errors.push(
+          `${ownerName(ownerId)} would be ${formatMoney(
+            Math.abs(check.availableCapSpace),
+          )} over the salary cap in ${season.name}.`,
+        );
+      }
+    });
+  });
+
+  return { contractMoves, capChecks, errors };
+}
+
+/** Describes a draft pick for trade summaries and league activity. */
+export function formatTradeDraftPickLabel(
+  draftPick: Pick<DraftPick, "round" | "pick"> | undefined,
+  season?: Pick<Season, "name">,
+): string {
+  if (!draftPick) return "Draft pick";
+  const round = Number(draftPick.round);
+  const label = Number.isFinite(round) ? `Round ${round} pick` : "Draft pick";
+  return season?.name ? `${season.name} ${label}` : label;
+}
+
+/** Builds the per-side trade summaries shown in the locker room. */
+export function buildTradeHistoryRows(options: {
+  trades: Trade[];
+  players: Pick<Player, "id" | "fullName">[];
+  draftPicks: Pick<DraftPick, "id" | "seasonId" | "round" | "pick">[];
+  franchises: Pick<Franchise, "ownerId" | "name">[];
+  seasons: Pick<Season, "id" | "name">[];
+  contracts?: Pick<Contract, "id" | "contractSalary" | "contractLength">[];
+  ownerId?: string;
+}): TradeHistoryRowView[] {
+  const { trades, players, draftPicks, franchises, seasons, ownerId } = options;
+  const playerById = new Map(
+    players.map((player) => [String(player.id), player]),
+  );
+  const pickById = new Map(draftPicks.map((pick) => [String(pick.id), pick]));
+  const seasonById = new Map(
+    seasons.map((season) => [String(season.id), season]),
+  );
+  const contractById = new Map(
+    (options.contracts ?? []).map((contract) => [
+      String(contract.id),
+      contract,
+    ]),
+  );
+  const franchiseNameByOwnerId = new Map(
+    franchises.map((franchise) => [String(franchise.ownerId), franchise.name]),
+  );
+
+  const describeAsset = (
+    asset: TradeAsset,
+    index: number,
+  ): TradeHistoryAssetView => {
+    if (asset.kind === "draftPick") {
+      const pick = pickById.get(String(asset.draftPickId));
+      return {
+        key: `${index}:${asset.draftPickId}`,
+        kind: asset.kind,
+        label: formatTradeDraftPickLabel(
+          pick,
+          pick ? seasonById.get(String(pick.seasonId)) : undefined,
+        ),
+        detail: pick?.pick ? `#${pick.pick}` : null,
+      };
+    }
+    const contract = (asset.contractIds ?? [])
+      .map((contractId) => contractById.get(String(contractId)))
+      .find(Boolean);
+    return {
+      key: `${index}:${asset.playerId}`,
+      kind: asset.kind,
+      label:
+        playerById.get(String(asset.playerId))?.fullName ?? "Unknown player",
+      detail: contract
+        ? `${contract.contractLength} yr · ${formatMoney(contract.contractSalary, true)}`
+        : null,
+    };
+  };
+
+  return trades
+    .filter(
+      (trade) =>
+        !ownerId || trade.ownerIds.map(String).includes(String(ownerId)),
+    )
+    .sort((left, right) => right.executedAt.localeCompare(left.executedAt))
+    .map((trade) => ({
+      id: trade.id,
+      executedAt: trade.executedAt,
+      notes: trade.notes ?? null,
+      sides: trade.ownerIds.map((sideOwnerId) => ({
+        ownerId: String(sideOwnerId),
+        franchiseName:
+          franchiseNameByOwnerId.get(String(sideOwnerId)) ?? "Unknown team",
+        received: trade.assets
+          .map((asset, index) => ({ asset, index }))
+          .filter(
+            ({ asset }) => String(asset.toOwnerId) === String(sideOwnerId),
+          )
+          .map(({ asset, index }) => describeAsset(asset, index)),
+      })),
+    }));
+}
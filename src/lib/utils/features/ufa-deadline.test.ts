@@ -1,6 +1,11 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { getUfaOfferGroupDeadline, UFA_OFFER_MS } from "./ufa-deadline";
+import {
+  getUfaOfferChangeBlock,
+  getUfaOfferGroupDeadline,
+  UFA_OFFER_LOCK_MS,
+  UFA_OFFER_MS,
+} from "./ufa-deadline";
 
 void test("the first UFA offer opens a seven-day bidding window", () => {
   const firstOfferAt = Date.parse("2026-07-01T12:00:00.000Z");
@@ -38,3 +43,82 @@ void test("a later UFA offer never extends an earlier stored deadline", () => {
     earlierDeadlineAt,
   );
 });
+
+void test("UFA offers lock in the final 24 hours", () => {
+  const deadlineAt = Date.parse("2026-07-08T12:00:00.000Z");
+  const offer = { id: "offer-1", status: "pending", submittedAt: 0 };
+
+  assert.equal(
+    getUfaOfferChangeBlock({
+      action: "amend",
+      offer,
+      groupOffers: [offer],
+      deadlineAt,
+      now: deadlineAt - UFA_OFFER_LOCK_MS - 1,
+    }),
+    null,
+  );
+  assert.match(
+    getUfaOfferChangeBlock({
+      action: "withdraw",
+      offer,
+      groupOffers: [offer],
+      deadlineAt,
+      now: deadlineAt - UFA_OFFER_LOCK_MS,
+    }) ?? "",
+    /final 24 hours/,
+  );
+  assert.match(
+    getUfaOfferChangeBlock({
+      action: "amend",
+      offer: { ...offer, status: "withdrawn" },
+      groupOffers: [],
+      deadlineAt,
+      now: 0,
+    }) ?? "",
+    /pending/,
+  );
+});
+
+void test("the original UFA offer stays once another team has matched", () => {
+  const original = { id: "offer-1", status: "pending", submittedAt: 1 };
+  const match = { id: "offer-2", status: "pending", submittedAt: 2 };
+  const options = { deadlineAt: UFA_OFFER_MS, now: 3 };
+
+  assert.match(
+    getUfaOfferChangeBlock({
+      ...options,
+      action: "withdraw",
+      offer: original,
+      groupOffers: [original, match],
+    }) ?? "",
+    /original offer/,
+  );
+  assert.equal(
+    getUfaOfferChangeBlock({
+      ...options,
+      action: "withdraw",
+      offer: match,
+      groupOffers: [original, match],
+    }),
+    null,
+  );
+  assert.equal(
+    getUfaOfferChangeBlock({
+      ...options,
+      action: "amend",
+      offer: original,
+      groupOffers: [original, match],
+    }),
+    null,
+  );
+  assert.equal(
+    getUfaOfferChangeBlock({
+      ...options,
+      action: "withdraw",
+      offer: original,
+      groupOffers: [original, { ...match, status: "withdrawn" }],
+    }),
+    null,
+  );
+});
@@ -20,3 +20,42 @@ export function getUfaOfferGroupDeadline(options: {
     ? deadlineFromFirstOffer
     : Math.min(existingDeadlineAt, deadlineFromFirstOffer);
 }
+
+// Offers can no longer be withdrawn or amended this close to the deadline.
+export const UFA_OFFER_LOCK_MS = 24 * 60 * 60 * 1_000;
+
+/**
+ * Returns why an owner cannot withdraw or amend an offer, or null when they
+ * can. The original offer cannot be withdrawn once another team has matched
+ * it, so a match always has something to compete against.
+ */
+export function getUfaOfferChangeBlock(options: {
+  action: "withdraw" | "amend";
+  offer: { id: string; status: string; submittedAt: number };
+  groupOffers: ReadonlyArray<{
+    id: string;
+    status: string;
+    submittedAt: number;
+  }>;
+  deadlineAt: number;
+  now: number;
+}): string | null {
+  const { action, offer, groupOffers, deadlineAt, now } = options;
+  if (offer.status !== "pending") return "Only pending offers can be changed.";
+  if (deadlineAt <= now) return "Offers for this player are closed.";
+  if (deadlineAt - now <= UFA_OFFER_LOCK_MS)
+    return "Offers are locked in the final 24 hours.";
+  if (action === "withdraw") {
+    const pending = groupOffers.filter((entry) => entry.status === "pending");
+    const original = pending.reduce<(typeof pending)[number] | undefined>(
+      (earliest, entry) =>
+        !earliest || entry.submittedAt < earliest.submittedAt
+          ? entry
+          : earliest,
+      undefined,
+    );
+    if (original?.id === offer.id && pending.length > 1)
+      return "The original offer cannot be withdrawn once another team has matched it.";
+  }
+  return null;
+}
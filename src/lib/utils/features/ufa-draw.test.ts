@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  createUfaDrawSeed,
+  deriveUfaDrawRoll,
+  hashUfaDrawSeed,
+  pickUfaDrawWinner,
+  verifyUfaDraw,
+} from "./ufa-draw";
+
+const odds = [
+  { offerId: "offer-b", probability: 0.6 },
+  { offerId: "offer-a", probability: 0.4 },
+];
+
+void test("UFA draw seeds commit to a SHA-256 hash", async () => {
+  const seed = createUfaDrawSeed();
+  assert.match(seed, /^[0-9a-f]{64}$/);
+  assert.equal(
+    await hashUfaDrawSeed("abc"),
+    "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+  );
+});
+
+void test("UFA draw rolls depend on the seed and the set of offers", async () => {
+  const roll = await deriveUfaDrawRoll("seed", ["offer-b", "offer-a"]);
+  assert.ok(roll >= 0 && roll < 1);
+  assert.equal(await deriveUfaDrawRoll("seed", ["offer-a", "offer-b"]), roll);
+  assert.notEqual(await deriveUfaDrawRoll("seed", ["offer-a"]), roll);
+  assert.notEqual(
+    await deriveUfaDrawRoll("other", ["offer-a", "offer-b"]),
+    roll,
+  );
+});
+
+void test("UFA draw winners follow cumulative published odds", () => {
+  assert.equal(pickUfaDrawWinner(odds, 0.59), "offer-b");
+  assert.equal(pickUfaDrawWinner(odds, 0.6), "offer-a");
+  assert.equal(pickUfaDrawWinner(odds, 0.999_999_9), "offer-a");
+  assert.equal(pickUfaDrawWinner([], 0.5), null);
+});
+
+void test("verifying a draw recomputes the hash, roll and winner", async () => {
+  const seed = "revealed-seed";
+  const randomRoll = await deriveUfaDrawRoll(seed, ["offer-a", "offer-b"]);
+  const winningOfferId = pickUfaDrawWinner(odds, randomRoll);
+  const check = await verifyUfaDraw({
+    seedHash: await hashUfaDrawSeed(seed),
+    revealedSeed: seed,
+    odds,
+    randomRoll,
+    winningOfferId,
+  });
+  assert.equal(check.hashMatches, true);
+  assert.equal(check.rollMatches, true);
+  assert.equal(check.winnerMatches, true);
+
+  const tampered = await verifyUfaDraw({
+    seedHash: await hashUfaDrawSeed("committed-seed"),
+    revealedSeed: seed,
+    odds,
+    randomRoll,
+    winningOfferId,
+  });
+  assert.equal(tampered.hashMatches, false);
+
+  const legacy = await verifyUfaDraw({ odds, randomRoll: 0.3 });
+  assert.deepEqual(
+    [legacy.hashMatches, legacy.rollMatches, legacy.winnerMatches],
+    [null, null, null],
+  );
+});
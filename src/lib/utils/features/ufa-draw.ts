@@ -0,0 +1,101 @@
+/*
+ * UFA draws use commit-reveal. When an offer group opens, the server picks a
+ * random seed and publishes only its SHA-256 hash. At the deadline the seed
+ * is revealed and the roll is derived from it and the competing offer ids, so
+ * anyone can check the roll without seeing how the odds were weighted.
+ *
+ *   seedHash = sha256(seed)
+ *   roll     = first 4 bytes of sha256(`${seed}:${sorted offer ids joined by ","}`) / 2^32
+ *
+ * The winner is the first offer, in published odds order, whose cumulative
+ * probability exceeds the roll.
+ */
+
+const UFA_DRAW_SEED_BYTES = 32;
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+async function sha256(text: string) {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)),
+  );
+}
+
+export function createUfaDrawSeed(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(UFA_DRAW_SEED_BYTES)));
+}
+
+export async function hashUfaDrawSeed(seed: string): Promise<string> {
+  return toHex(await sha256(seed));
+}
+
+export function ufaDrawMessage(seed: string, offerIds: readonly string[]) {
+  return `${seed}:${[...offerIds].sort().join(",")}`;
+}
+
+export async function deriveUfaDrawRoll(
+  seed: string,
+  offerIds: readonly string[],
+): Promise<number> {
+  const digest = await sha256(ufaDrawMessage(seed, offerIds));
+  return new DataView(digest.buffer).getUint32(0) / 2 ** 32;
+}
+
+export function pickUfaDrawWinner(
+  odds: ReadonlyArray<{ offerId: string; probability: number }>,
+  roll: number,
+): string | null {
+  let cumulative = 0;
+  for (const entry of odds) {
+    cumulative += entry.probability;
+    if (roll < cumulative) return entry.offerId;
+  }
+  return odds.at(-1)?.offerId ?? null;
+}
+
+/**
+ * Recomputes a resolved draw from its public record. Each check is null when
+ * the draw predates commit-reveal and there is nothing to compare against.
+ */
+export async function verifyUfaDraw(draw: {
+  seedHash?: string | null;
+  revealedSeed?: string | null;
+  odds: ReadonlyArray<{ offerId: string; probability: number }>;
+  randomRoll?: number | null;
+  winningOfferId?: string | null;
+}) {
+  const seed = draw.revealedSeed ?? null;
+  const recomputedHash = seed ? await hashUfaDrawSeed(seed) : null;
+  const recomputedRoll =
+    seed && draw.odds.length
+      ? await deriveUfaDrawRoll(
+          seed,
+          draw.odds.map((entry) => entry.offerId),
+        )
+      : null;
+  const recomputedWinnerId =
+    recomputedRoll === null
+      ? null
+      : pickUfaDrawWinner(draw.odds, recomputedRoll);
+  return {
+    recomputedHash,
+    recomputedRoll,
+    recomputedWinnerId,
+    hashMatches:
+      recomputedHash === null || !draw.seedHash
+        ? null
+        : recomputedHash === draw.seedHash,
+    rollMatches:
+      recomputedRoll === null || typeof draw.randomRoll !== "number"
+        ? null
+        : recomputedRoll === draw.randomRoll,
+    winnerMatches:
+      recomputedWinnerId === null || !draw.winningOfferId
+        ? null
+        : recomputedWinnerId === draw.winningOfferId,
+  };
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { UfaMarketOpenRow } from "@gshl-types";
+import {
+  filterUfaMarketRows,
+  getUfaDemandLevel,
+  getUfaSalaryBand,
+} from "./ufa-market";
+
+const row = (
+  playerId: string,
+  posGroup: string,
+  salary: number,
+  myTerm: number | null = null,
+): UfaMarketOpenRow => ({
+  groupId: `group-${playerId}`,
+  playerId,
+  playerName: playerId,
+  nhlTeam: "TOR",
+  posGroup,
+  positions: [],
+  salary,
+  deadlineAt: 0,
+  offerCount: 1,
+  lastOfferAt: 0,
+  myTerm,
+});
+
+void test("UFA salary bands include their lower bound", () => {
+  assert.equal(getUfaSalaryBand(999_999), "under-1m");
+  assert.equal(getUfaSalaryBand(1_000_000), "1m-3m");
+  assert.equal(getUfaSalaryBand(3_000_000), "3m-6m");
+  assert.equal(getUfaSalaryBand(12_500_000), "6m-plus");
+});
+
+void test("UFA demand grows with the number of competing offers", () => {
+  assert.equal(getUfaDemandLevel(1), "single offer");
+  assert.equal(getUfaDemandLevel(2), "contested");
+  assert.equal(getUfaDemandLevel(5), "bidding war");
+});
+
+void test("filters the UFA market by position, salary band and watchlist", () => {
+  const rows = [
+    row("forward", "F", 2_000_000, 2),
+    row("defence", "D", 2_500_000),
+    row("goalie", "G", 7_000_000, 1),
+  ];
+  const ids = (filters: Parameters<typeof filterUfaMarketRows>[1]) =>
+    filterUfaMarketRows(rows, filters).map((entry) => entry.playerId);
+
+  assert.deepEqual(ids({ posGroup: "", salaryBand: "", myOffersOnly: false }), [
+    "forward",
+    "defence",
+    "goalie",
+  ]);
+  assert.deepEqual(
+    ids({ posGroup: "", salaryBand: "1m-3m", myOffersOnly: false }),
+    ["forward", "defence"],
+  );
+  assert.deepEqual(
+    ids({ posGroup: "D", salaryBand: "1m-3m", myOffersOnly: false }),
+    ["defence"],
+  );
+  assert.deepEqual(ids({ posGroup: "", salaryBand: "", myOffersOnly: true }), [
+    "forward",
+    "goalie",
+  ]);
+});
@@ -0,0 +1,53 @@
+import type {
+  UfaDemandLevel,
+  UfaMarketFilters,
+  UfaMarketPlayerRow,
+  UfaSalaryBandId,
+} from "@gshl-types";
+
+/*
+ * The UFA market board groups premium salaries into bands and turns the
+ * anonymous offer count into a demand signal. Bands are half-open: a
+ * $3,000,000 salary sits in "$3M–$6M".
+ */
+
+export const UFA_SALARY_BANDS: ReadonlyArray<{
+  id: UfaSalaryBandId;
+  label: string;
+  min: number;
+  max: number;
+}> = [
+  { id: "under-1m", label: "Under $1M", min: 0, max: 1_000_000 },
+  { id: "1m-3m", label: "$1M–$3M", min: 1_000_000, max: 3_000_000 },
+  { id: "3m-6m", label: "$3M–$6M", min: 3_000_000, max: 6_000_000 },
+  { id: "6m-plus", label: "$6M+", min: 6_000_000, max: Infinity },
+];
+
+export function getUfaSalaryBand(salary: number): UfaSalaryBandId {
+  return (
+    UFA_SALARY_BANDS.find((band) => salary >= band.min && salary < band.max)
+      ?.id ?? "under-1m"
+  );
+}
+
+export function getUfaDemandLevel(offerCount: number): UfaDemandLevel {
+  if (offerCount >= 3) return "bidding war";
+  if (offerCount === 2) return "contested";
+  return "single offer";
+}
+
+/**
+ * Applies the board's position and salary filters. The "my offers" watchlist
+ * keeps only rows where the viewer has a pending term.
+ */
+export function filterUfaMarketRows<
+  T extends UfaMarketPlayerRow & { myTerm?: number | null },
+>(rows: T[], filters: UfaMarketFilters): T[] {
+  return rows.filter(
+    (row) =>
+      (!filters.posGroup || row.posGroup === filters.posGroup) &&
+      (!filters.salaryBand ||
+        getUfaSalaryBand(row.salary) === filters.salaryBand) &&
+      (!filters.myOffersOnly || row.myTerm != null),
+  );
+}
@@ -0,0 +1,14 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { getUfaOfferStandingBand } from "./ufa-odds";
+
+void test("an unopposed UFA offer stands strong", () => {
+  assert.equal(getUfaOfferStandingBand(1, 1), "strong");
+});
+
+void test("UFA standing bands compare odds to an even share of the field", () => {
+  assert.equal(getUfaOfferStandingBand(0.62, 2), "strong");
+  assert.equal(getUfaOfferStandingBand(0.5, 2), "even");
+  assert.equal(getUfaOfferStandingBand(0.22, 4), "even");
+  assert.equal(getUfaOfferStandingBand(0.15, 4), "long shot");
+});
@@ -0,0 +1,18 @@
+/*
+ * Owners see where an offer would stand before making it, but only as a band
+ * so the signing weights stay private. The band compares the offer's odds to
+ * an even share of the field: 2 teams split 50/50, 4 teams 25% each.
+ */
+
+export const UFA_STANDING_BANDS = ["strong", "even", "long shot"] as const;
+
+export function getUfaOfferStandingBand(
+  probability: number,
+  offerCount: number,
+): (typeof UFA_STANDING_BANDS)[number] {
+  if (offerCount <= 1) return "strong";
+  const share = probability * offerCount;
+  if (share >= 1.2) return "strong";
+  if (share >= 0.8) return "even";
+  return "long shot";
+}
@@ -1,7 +1,12 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 
-import { normalizeUfaPublicState } from "./ufa-state";
+import {
+  normalizeUfaDrawRecord,
+  normalizeUfaMarketBoard,
+  normalizeUfaOfferStanding,
+  normalizeUfaPublicState,
+} from "./ufa-state";
 
 void test("normalizes the untyped public UFA query boundary", () => {
   const state = normalizeUfaPublicState({
@@ -26,8 +31,11 @@ void test("normalizes the untyped public UFA query boundary", () => {
         isMine: true,
       },
     ],
-    oddsByGroup: {
-      "group-1": [{ offerId: "offer-1", probability: 0.75 }],
+    standingByGroup: {
+      "group-1": [
+        { offerId: "offer-1", band: "strong" },
+        { offerId: "offer-2", band: "certain" },
+      ],
     },
   });
 
@@ -42,13 +50,118 @@ void test("normalizes the untyped public UFA query boundary", () => {
     },
   ]);
   assert.equal(state.offers[0]?.isMine, true);
-  assert.equal(state.oddsByGroup["group-1"]?.[0]?.probability, 0.75);
+  assert.deepEqual(state.standingByGroup["group-1"], [
+    { offerId: "offer-1", band: "strong" },
+  ]);
 });
 
 void test("returns an empty state for malformed input", () => {
   assert.deepEqual(normalizeUfaPublicState(null), {
     groups: [],
     offers: [],
-    oddsByGroup: {},
+    standingByGroup: {},
   });
 });
+
+void test("normalizes a draw verification record", () => {
+  const draw = normalizeUfaDrawRecord({
+    id: "group-1",
+    playerName: "Auston Matthews",
+    status: "resolved",
+    deadlineAt: 123,
+    resolvedAt: 456,
+    seedHash: "abc",
+    revealedSeed: "seed",
+    randomRoll: 0.42,
+    odds: [{ offerId: "offer-1", probability: 1 }, null],
+    winningOfferId: "offer-1",
+    offers: [
+      {
+        id: "offer-1",
+        franchiseName: "Maple Leafs",
+        contractLength: 3,
+        salary: 1_000_000,
+        status: "won",
+      },
+    ],
+  });
+
+  assert.equal(draw?.revealedSeed, "seed");
+  assert.deepEqual(draw?.odds, [{ offerId: "offer-1", probability: 1 }]);
+  assert.equal(draw?.offers[0]?.franchiseLogoUrl, null);
+  assert.equal(
+    normalizeUfaDrawRecord({ id: "group-2", seedHash: "" })?.seedHash,
+    null,
+  );
+  assert.equal(normalizeUfaDrawRecord(null), null);
+});
+
+void test("normalizes an offer standing preview", () => {
+  const standing = normalizeUfaOfferStanding({
+    playerId: "player-1",
+    competingOffers: 2,
+    currentTerm: null,
+    terms: [
+      { years: 1, band: "long shot" },
+      { years: 2, band: "even" },
+      { years: 4, band: "strong" },
+      { years: 3, band: "certain" },
+    ],
+  });
+
+  assert.deepEqual(standing?.terms, [
+    { years: 1, band: "long shot" },
+    { years: 2, band: "even" },
+  ]);
+  assert.equal(standing?.competingOffers, 2);
+  assert.equal(normalizeUfaOfferStanding({ terms: [] }), null);
+});
+
+void test("normalizes the UFA market board soonest deadline first", () => {
+  const board = normalizeUfaMarketBoard({
+    open: [
+      {
+        groupId: "group-2",
+        playerName: "Later",
+        posGroup: "D",
+        salary: 2_500_000,
+        deadlineAt: 200,
+        offerCount: 3,
+        myTerm: 2,
+      },
+      {
+        groupId: "group-1",
+        playerName: "Sooner",
+        posGroup: "F",
+        positions: ["C", null],
+        salary: 1_250_000,
+        deadlineAt: 100,
+        offerCount: 1,
+      },
+      { playerName: "No group" },
+    ],
+    signings: [
+      { groupId: "group-3", years: 3, resolvedAt: 10 },
+      { groupId: "group-4", years: 1, resolvedAt: 20 },
+    ],
+    marketEditionId: "",
+  });
+
+  assert.deepEqual(
+    board?.open.map((row) => [row.groupId, row.myTerm]),
+    [
+      ["group-1", null],
+      ["group-2", 2],
+    ],
+  );
+  assert.deepEqual(board?.open[0]?.positions, ["C"]);
+  assert.deepEqual(
+    board?.signings.map((row) => [row.groupId, row.years]),
+    [
+      ["group-4", 1],
+      ["group-3", 3],
+    ],
+  );
+  assert.equal(board?.marketEditionId, null);
+  assert.equal(normalizeUfaMarketBoard(undefined), null);
+});
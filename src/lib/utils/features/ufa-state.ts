@@ -1,8 +1,17 @@
 import type {
+  UfaDrawOffer,
+  UfaDrawRecord,
+  UfaMarketBoardData,
+  UfaMarketOpenRow,
+  UfaMarketPlayerRow,
+  UfaMarketSigningRow,
   UfaOfferProbability,
+  UfaOfferStanding,
+  UfaOfferStandingEntry,
   UfaPublicGroup,
   UfaPublicOffer,
   UfaPublicState,
+  UfaStandingBand,
 } from "@gshl-types";
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -33,6 +42,12 @@ function normalizeGroup(value: unknown): UfaPublicGroup | null {
     seasonId: toStringValue(value.seasonId),
     deadlineAt: toNumberValue(value.deadlineAt),
     status: toStringValue(value.status),
+    ...(value.winningOfferId
+      ? { winningOfferId: toStringValue(value.winningOfferId) }
+      : {}),
+    ...(typeof value.resolvedAt === "number"
+      ? { resolvedAt: value.resolvedAt }
+      : {}),
   };
 }
 
@@ -47,6 +62,7 @@ function normalizeOffer(value: unknown): UfaPublicOffer | null {
     contractLength: toNumberValue(value.contractLength),
     salary: toNumberValue(value.salary),
     status: toStringValue(value.status),
+    submittedAt: toNumberValue(value.submittedAt),
     isMine: value.isMine === true,
   };
 }
@@ -61,9 +77,18 @@ function normalizeProbability(value: unknown): UfaOfferProbability | null {
   };
 }
 
+const STANDING_BANDS: UfaStandingBand[] = ["strong", "even", "long shot"];
+
+function normalizeStandingEntry(value: unknown): UfaOfferStandingEntry | null {
+  if (!isRecord(value)) return null;
+  const offerId = toStringValue(value.offerId);
+  const band = STANDING_BANDS.find((entry) => entry === value.band);
+  return offerId && band ? { offerId, band } : null;
+}
+
 export function normalizeUfaPublicState(value: unknown): UfaPublicState {
   if (!isRecord(value)) {
-    return { groups: [], offers: [], oddsByGroup: {} };
+    return { groups: [], offers: [], standingByGroup: {} };
   }
 
   const groups = Array.isArray(value.groups)
@@ -76,17 +101,145 @@ export function normalizeUfaPublicState(value: unknown): UfaPublicState {
         .map(normalizeOffer)
         .filter((offer): offer is UfaPublicOffer => offer !== null)
     : [];
-  const oddsByGroup: Record<string, UfaOfferProbability[]> = {};
+  const standingByGroup: Record<string, UfaOfferStandingEntry[]> = {};
 
-  if (isRecord(value.oddsByGroup)) {
-    for (const [groupId, entries] of Object.entries(value.oddsByGroup)) {
-      oddsByGroup[groupId] = Array.isArray(entries)
+  if (isRecord(value.standingByGroup)) {
+    for (const [groupId, entries] of Object.entries(value.standingByGroup)) {
+      standingByGroup[groupId] = Array.isArray(entries)
         ? entries
-            .map(normalizeProbability)
-            .filter((entry): entry is UfaOfferProbability => entry !== null)
+            .map(normalizeStandingEntry)
+            .filter((entry): entry is UfaOfferStandingEntry => entry !== null)
         : [];
     }
   }
 
-  return { groups, offers, oddsByGroup };
+  return { groups, offers, standingByGroup };
+}
+
+function optionalString(value: unknown): string | null {
+  return toStringValue(value) || null;
+}
+
+function normalizeDrawOffer(value: unknown): UfaDrawOffer | null {
+  if (!isRecord(value)) return null;
+  const id = toStringValue(value.id);
+  if (!id) return null;
+  return {
+    id,
+    franchiseName: toStringValue(value.franchiseName),
+    franchiseLogoUrl: optionalString(value.franchiseLogoUrl),
+    contractLength: toNumberValue(value.contractLength),
+    salary: toNumberValue(value.salary),
+    status: toStringValue(value.status),
+  };
+}
+
+export function normalizeUfaDrawRecord(value: unknown): UfaDrawRecord | null {
+  if (!isRecord(value)) return null;
+  const id = toStringValue(value.id);
+  if (!id) return null;
+  return {
+    id,
+    playerName: toStringValue(value.playerName),
+    status: toStringValue(value.status),
+    deadlineAt: toNumberValue(value.deadlineAt),
+    resolvedAt: typeof value.resolvedAt === "number" ? value.resolvedAt : null,
+    seedHash: optionalString(value.seedHash),
+    revealedSeed: optionalString(value.revealedSeed),
+    randomRoll: typeof value.randomRoll === "number" ? value.randomRoll : null,
+    odds: Array.isArray(value.odds)
+      ? value.odds
+          .map(normalizeProbability)
+          .filter((entry): entry is UfaOfferProbability => entry !== null)
+      : [],
+    winningOfferId: optionalString(value.winningOfferId),
+    offers: Array.isArray(value.offers)
+      ? value.offers
+          .map(normalizeDrawOffer)
+          .filter((offer): offer is UfaDrawOffer => offer !== null)
+      : [],
+  };
+}
+
+export function normalizeUfaOfferStanding(
+  value: unknown,
+): UfaOfferStanding | null {
+  if (!isRecord(value)) return null;
+  const playerId = toStringValue(value.playerId);
+  if (!playerId) return null;
+  return {
+    playerId,
+    competingOffers: toNumberValue(value.competingOffers),
+    currentTerm:
+      typeof value.currentTerm === "number" ? value.currentTerm : null,
+    terms: Array.isArray(value.terms)
+      ? value.terms.flatMap((term) => {
+          if (!isRecord(term)) return [];
+          const years = toNumberValue(term.years);
+          const band = STANDING_BANDS.find((entry) => entry === term.band);
+          return (years === 1 || years === 2 || years === 3) && band
+            ? [{ years, band }]
+            : [];
+        })
+      : [],
+  };
+}
+
+function normalizeMarketPlayer(value: unknown): UfaMarketPlayerRow | null {
+  if (!isRecord(value)) return null;
+  const groupId = toStringValue(value.groupId);
+  if (!groupId) return null;
+  return {
+    groupId,
+    playerId: toStringValue(value.playerId),
+    playerName: toStringValue(value.playerName),
+    nhlTeam: toStringValue(value.nhlTeam),
+    posGroup: toStringValue(value.posGroup),
+    positions: Array.isArray(value.positions)
+      ? value.positions.map(toStringValue).filter(Boolean)
+      : [],
+    salary: toNumberValue(value.salary),
+  };
+}
+
+export function normalizeUfaMarketBoard(
+  value: unknown,
+): UfaMarketBoardData | null {
+  if (!isRecord(value)) return null;
+  const open = Array.isArray(value.open)
+    ? value.open.flatMap((entry): UfaMarketOpenRow[] => {
+        const player = normalizeMarketPlayer(entry);
+        if (!player || !isRecord(entry)) return [];
+        return [
+          {
+            ...player,
+            deadlineAt: toNumberValue(entry.deadlineAt),
+            offerCount: toNumberValue(entry.offerCount),
+            lastOfferAt: toNumberValue(entry.lastOfferAt),
+            myTerm: typeof entry.myTerm === "number" ? entry.myTerm : null,
+          },
+        ];
+      })
+    : [];
+  const signings = Array.isArray(value.signings)
+    ? value.signings.flatMap((entry): UfaMarketSigningRow[] => {
+        const player = normalizeMarketPlayer(entry);
+        if (!player || !isRecord(entry)) return [];
+        return [
+          {
+            ...player,
+            years: toNumberValue(entry.years),
+            offerCount: toNumberValue(entry.offerCount),
+            resolvedAt: toNumberValue(entry.resolvedAt),
+          },
+        ];
+      })
+    : [];
+  return {
+    open: open.sort((left, right) => left.deadlineAt - right.deadlineAt),
+    signings: signings.sort(
+      (left, right) => right.resolvedAt - left.resolvedAt,
+    ),
+    marketEditionId: optionalString(value.marketEditionId),
+  };
 }
@@ -220,3 +220,29 @@ void test("fit scoring rewards term and changes roster preference with player pe
   assert.ok(Math.abs(elite.rosterFit - 0.65) < 1e-12);
   assert.ok(elite.score > developing.score);
 });
+
+void test("a signing calendar decides whether UFA offers are open", () => {
+  const calendar = [
+    {
+      seasonId: "season-1",
+      period: "summer" as const,
+      label: "Summer Free Agency",
+      isOverride: true,
+      startAt: Date.parse("2026-07-01T04:00:00.000Z"),
+      endAt: Date.parse("2026-09-01T04:00:00.000Z"),
+      allowedStatuses: ["UFA" as const],
+    },
+  ];
+  const season = { signingEndDate: "2026-06-30" };
+  assert.equal(
+    getUfaWindow(season, new Date("2026-08-01T12:00:00.000Z"), calendar).isOpen,
+    true,
+  );
+  const closed = getUfaWindow(
+    season,
+    new Date("2026-09-02T12:00:00.000Z"),
+    calendar,
+  );
+  assert.equal(closed.isOpen, false);
+  assert.equal(closed.reason, "No signing period is open.");
+});
@@ -2,37 +2,55 @@ import type {
   Contract,
   Player,
   Season,
+  SigningPeriodWindow,
   UfaPublicGroup,
   UfaPublicOffer,
   UfaStatView,
 } from "@gshl-types";
 import {
   checkContractCapSpace,
+  findSigningPeriodWindow,
   getContractCoveredSeasonIds,
+  getSigningPeriodError,
   getTorontoDate,
   orderContractSeasons,
 } from "../domain/contracts";
 import { UFA_OFFER_MS } from "./ufa-deadline";
 
-export { UFA_OFFER_MS } from "./ufa-deadline";
+export {
+  getUfaOfferChangeBlock,
+  UFA_OFFER_LOCK_MS,
+  UFA_OFFER_MS,
+} from "./ufa-deadline";
 
 export function calculateUfaSalary(baseSalary: unknown): number {
   const parsed = Number(baseSalary);
   return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * 1.25) : 0;
 }
 
+/**
+ * Resolves whether UFA offers are open. A rule 9.8 calendar wins over the
+ * season's signing deadline when one is loaded.
+ */
 export function getUfaWindow(
   season: Pick<Season, "signingEndDate"> | null,
   referenceDate = new Date(),
+  calendar?: SigningPeriodWindow[],
 ) {
-  const afterSigning = Boolean(
-    season?.signingEndDate &&
-      getTorontoDate(referenceDate) > season.signingEndDate,
-  );
+  const reason = calendar
+    ? getSigningPeriodError(
+        findSigningPeriodWindow(calendar, referenceDate),
+        "UFA",
+      )
+    : season?.signingEndDate &&
+        getTorontoDate(referenceDate) > season.signingEndDate
+      ? null
+      : "Summer Free Agency is closed.";
   const now = referenceDate.getTime();
   return {
-    isOpen: afterSigning,
-    deadlineForFirstOffer: afterSigning ? now + UFA_OFFER_MS : null,
+    isOpen: reason === null,
+    reason,
+    deadlineForFirstOffer: reason === null ? now + UFA_OFFER_MS : null,
   };
 }
 
@@ -131,6 +149,27 @@ export function formatUfaStat(
   return value === undefined || value === "" ? "—" : String(value);
 }
 
+/**
+ * Sums the salary pending UFA offers hold back in each season they would
+ * cover, as the reserved cap `checkContractCapSpace` takes. Winning a group
+ * does not re-check cap, so every other cap check must count this too.
+ */
+export function getUfaReservedCapBySeasonId(
+  offers: Array<{ seasonId: string; contractLength: number; salary: number }>,
+  seasons: Season[],
+): Map<string, number> {
+  const reservedCapBySeasonId = new Map<string, number>();
+  offers.forEach((offer) => {
+    getContractCoveredSeasonIds(offer, seasons).forEach((seasonId) => {
+      reservedCapBySeasonId.set(
+        seasonId,
+        (reservedCapBySeasonId.get(seasonId) ?? 0) + offer.salary,
+      );
+    });
+  });
+  return reservedCapBySeasonId;
+}
+
 export function getAffordableUfaTerms(options: {
   ownerId: string | undefined;
   salary: number;
@@ -151,26 +190,15 @@ export function getAffordableUfaTerms(options: {
 
   const orderedSeasons = orderContractSeasons(seasons);
   const groupById = new Map(groups.map((group) => [group.id, group]));
-  const reservedCapBySeasonId = new Map<string, number>();
-
-  offers
-    .filter((offer) => offer.isMine && offer.status === "pending")
-    .forEach((offer) => {
-      const group = groupById.get(offer.groupId);
-      if (!group) return;
-      getContractCoveredSeasonIds(
-        {
-          seasonId: group.seasonId,
-          contractLength: offer.contractLength,
-        },
-        orderedSeasons,
-      ).forEach((seasonId) => {
-        reservedCapBySeasonId.set(
-          seasonId,
-          (reservedCapBySeasonId.get(seasonId) ?? 0) + offer.salary,
-        );
-      });
-    });
+  const reservedCapBySeasonId = getUfaReservedCapBySeasonId(
+    offers
+      .filter((offer) => offer.isMine && offer.status === "pending")
+      .flatMap((offer) => {
+        const group = groupById.get(offer.groupId);
+        return group ? [{ ...offer, seasonId: group.seasonId }] : [];
+      }),
+    orderedSeasons,
+  );
 
   return ([1, 2, 3] as const).filter(
     (contractLength) =>
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  getWaiverClearsAt,
+  rankWaiverClaims,
+  rotateWaiverPriority,
+  seedWaiverPriority,
+} from "./waivers";
+
+void test("a drop clears waivers at the end of the second Toronto day", () => {
+  assert.equal(
+    getWaiverClearsAt(Date.parse("2026-01-05T20:00:00.000Z")),
+    Date.parse("2026-01-08T05:00:00.000Z"),
+  );
+  // 11 p.m. in Toronto is already the next day in UTC.
+  assert.equal(
+    getWaiverClearsAt(Date.parse("2026-01-06T04:00:00.000Z")),
+    Date.parse("2026-01-08T05:00:00.000Z"),
+  );
+});
+
+void test("the rolling list starts in reverse draft order", () => {
+  assert.deepEqual(
+    seedWaiverPriority({
+      draftOrderOwnerIds: ["o1", "o2", "o3"],
+      ownerIds: ["o4", "o3", "o2", "o1"],
+    }),
+    ["o3", "o2", "o1", "o4"],
+  );
+});
+
+void test("the best-placed claimant wins and drops to the bottom", () => {
+  const claims = [
+    { id: "c1", ownerId: "o3", createdAt: "2026-01-05T10:00:00.000Z" },
+    { id: "c2", ownerId: "o2", createdAt: "2026-01-05T12:00:00.000Z" },
+    { id: "c3", ownerId: "o9", createdAt: "2026-01-05T09:00:00.000Z" },
+  ];
+  const priority = ["o1", "o2", "o3"];
+
+  assert.deepEqual(
+    rankWaiverClaims(claims, priority).map((claim) => claim.id),
+    ["c2", "c1", "c3"],
+  );
+  assert.deepEqual(rotateWaiverPriority(priority, "o2"), ["o1", "o3", "o2"]);
+});
@@ -0,0 +1,67 @@
+import type { WaiverClaim } from "@gshl-types";
+import {
+  getTorontoDate,
+  getTorontoDateEnd,
+  shiftDateKey,
+} from "../domain/contracts";
+
+/** Rule 3.1: dropped players sit on waivers for two days. */
+export const WAIVER_DAYS = 2;
+
+/**
+ * Returns when a drop clears waivers: the end of the second full Toronto day
+ * after the drop.
+ */
+export function getWaiverClearsAt(droppedAt: number): number | null {
+  return getTorontoDateEnd(
+    shiftDateKey(getTorontoDate(new Date(droppedAt)), WAIVER_DAYS),
+  );
+}
+
+/**
+ * Seeds a season's rolling waiver list in reverse draft order, the way Yahoo
+ * starts its Continuous Waivers list. Owners without a pick follow in the
+ * order given.
+ */
+export function seedWaiverPriority(options: {
+  draftOrderOwnerIds: string[];
+  ownerIds: string[];
+}): string[] {
+  const seeded = [...new Set(options.draftOrderOwnerIds)].reverse();
+  const remaining = options.ownerIds.filter(
+    (ownerId) => !seeded.includes(ownerId),
+  );
+  return [
+    ...seeded.filter((ownerId) => options.ownerIds.includes(ownerId)),
+    ...new Set(remaining),
+  ];
+}
+
+/**
+ * Orders pending claims on one waiver by the claimants' rolling priority.
+ * Owners missing from the list rank last, earliest claim first.
+ */
+export function rankWaiverClaims<
+  T extends Pick<WaiverClaim, "ownerId" | "createdAt">,
+>(claims: T[], priority: string[]): T[] {
+  const rank = (ownerId: string) => {
+    const index = priority.indexOf(ownerId);
+    return index < 0 ? Number.POSITIVE_INFINITY : index;
+  };
+  return [...claims].sort(
+    (left, right) =>
+      rank(left.ownerId) - rank(right.ownerId) ||
+      left.createdAt.localeCompare(right.createdAt),
+  );
+}
+
+/** Moves a successful claimant to the bottom of the rolling list. */
+export function rotateWaiverPriority(
+  priority: string[],
+  winningOwnerId: string,
+): string[] {
+  return [
+    ...priority.filter((ownerId) => ownerId !== winningOwnerId),
+    winningOwnerId,
+  ];
+}
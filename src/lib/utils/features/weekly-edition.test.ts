@@ -837,6 +837,58 @@ void test("allows creative article choices while rejecting unsafe imports", () =
   );
 });
 
+void test("the trade deadline issue reports completed deals and the stretch run", () => {
+  const packet = buildMilestoneEditionFactPacket({
+    issueType: "trade_deadline",
+    issueLabel: "Trade Deadline",
+    triggerDate: "2026-03-12",
+    regularSeasonEndDate: "2026-03-29",
+    analysisSeason: { id: "season-1", name: "2026 GSHL" },
+    season: {
+      id: "season-1",
+      name: "2026 GSHL",
+      year: "2026",
+      endDate: "2026-04-12",
+    },
+    week: {
+      id: "week-18",
+      number: 18,
+      startDate: "2026-03-09",
+      endDate: "2026-03-15",
+    },
+    teams: source().teams,
+    power: source().power,
+    teamOutlooks: [],
+    expiringContracts: [],
+    recentSignings: [],
+    draftPicks: [],
+    activity: [
+      {
+        id: "trade-1:player",
+        kind: "trade",
+        date: "2026-03-11",
+        playerName: "Alex North",
+        teamName: "Aurora",
+        detail: "from Bears",
+      },
+    ],
+  });
+  const content = buildTemplateWeeklyEdition(packet);
+  const ruleContext = JSON.stringify(buildWeeklyEditionRuleContext(packet));
+  const prompt = buildWeeklyEditionChatGptPrompt(packet);
+
+  assert.equal(content.sections.length, 6);
+  assert.match(
+    content.sections.map((section) => section.body).join(" "),
+    /Aurora acquired Alex North from Bears\./,
+  );
+  assert.match(ruleContext, /"tradeDeadline":"2026-03-12"/);
+  assert.match(ruleContext, /Salary retention is not allowed/);
+  assert.doesNotMatch(ruleContext, /upcomingSeason/);
+  assert.match(prompt, /"deadlineDeals"/);
+  assert.match(prompt, /"regularSeasonEndDate": "2026-03-29"/);
+});
+
 void test("builds each season milestone from contract, cap, draft, and roster facts", () => {
   const issueTypes = [
     "final_recap",
@@ -1349,8 +1401,10 @@ void test("schedules the season editorial calendar from league dates", () => {
       finalWeekEnd: "2026-04-20",
       signingEndDate: "2026-06-30",
       draftStartAt: "2026-10-03T23:00:00.000Z",
+      tradeDeadline: "2026-03-08",
     }).map(({ issueType, scheduledFor }) => [issueType, scheduledFor]),
     [
+      ["trade_deadline", "2026-03-08"],
       ["final_recap", "2026-04-20"],
       ["resigning_outlook", "2026-04-27"],
       ["offseason_market", "2026-06-30"],
@@ -1359,3 +1413,25 @@ void test("schedules the season editorial calendar from league dates", () => {
     ],
   );
 });
+
+void test("the offseason market issue follows the late signing window", () => {
+  const schedule = buildWeeklyEditionMilestoneSchedule({
+    finalWeekEnd: "2026-04-20",
+    signingEndDate: "2026-06-30",
+    draftStartAt: "2026-10-03T23:00:00.000Z",
+    signingPeriods: [
+      {
+        period: "late",
+        startAt: Date.parse("2026-04-21T04:00:00.000Z"),
+        endAt: Date.parse("2026-07-08T04:00:00.000Z"),
+        allowedStatuses: ["DRAFT", "RFA"],
+      },
+    ],
+  });
+
+  assert.equal(
+    schedule.find((item) => item.issueType === "offseason_market")
+      ?.scheduledFor,
+    "2026-07-07",
+  );
+});
@@ -23,6 +23,7 @@ import type {
 } from "@gshl-types";
 import { normalizeDateOnlyValue } from "../core/date";
 import { ContractStatus, ContractType } from "../domain/constants";
+import { getSigningPeriodDateRange } from "../domain/contracts";
 
 export const WEEKLY_EDITION_SECTION_KINDS = [
   "primary_article",
@@ -51,6 +52,7 @@ export const WEEKLY_EDITION_ISSUE_LABELS = {
   offseason_market: "Offseason Market",
   pre_draft: "Pre-Draft Issue",
   preseason: "Preseason Preview",
+  trade_deadline: "Trade Deadline",
 } as const;
 
 const WEEKLY_EDITION_ARTICLE_SLOTS = [
@@ -73,9 +75,20 @@ export function buildWeeklyEditionMilestoneSchedule({
   finalWeekEnd,
   signingEndDate,
   draftStartAt,
+  tradeDeadline,
+  signingPeriods,
 }: WeeklyEditionMilestoneScheduleInput): WeeklyEditionMilestoneScheduleEntry[] {
   const draftDate = String(draftStartAt ?? "").slice(0, 10);
+  const lateWindow = signingPeriods?.find((window) => window.period === "late");
+  const lateWindowClose =
+    (lateWindow ? getSigningPeriodDateRange(lateWindow).endDate : null) ??
+    String(signingEndDate ?? "").slice(0, 10);
   return [
+    {
+      issueType: "trade_deadline" as const,
+      issueLabel: WEEKLY_EDITION_ISSUE_LABELS.trade_deadline,
+      scheduledFor: String(tradeDeadline ?? "").slice(0, 10),
+    },
     {
       issueType: "final_recap" as const,
       issueLabel: WEEKLY_EDITION_ISSUE_LABELS.final_recap,
@@ -89,7 +102,7 @@ export function buildWeeklyEditionMilestoneSchedule({
     {
       issueType: "offseason_market" as const,
       issueLabel: WEEKLY_EDITION_ISSUE_LABELS.offseason_market,
-      scheduledFor: String(signingEndDate ?? "").slice(0, 10),
+      scheduledFor: lateWindowClose,
     },
     {
       issueType: "pre_draft" as const,
@@ -1005,7 +1018,7 @@ export function buildMilestoneEditionFactPacket(
     heroMatchupId: hero?.matchupId,
     stars,
     powerMovers,
-    activity: [],
+    activity: input.activity ?? [],
     missedStarts: [],
     nextMatchups: [],
     editorialCandidates: input.editorialCandidates ?? [],
@@ -1017,6 +1030,7 @@ export function buildMilestoneEditionFactPacket(
       analysisSeasonName: input.analysisSeason.name,
       analysisSeasonSigningEndDate: input.analysisSeason.signingEndDate,
       analysisSeasonDraftStartAt: input.analysisSeason.draftStartAt,
+      regularSeasonEndDate: input.regularSeasonEndDate,
       salaryCap: 25_000_000,
       teamOutlooks: [...input.teamOutlooks].sort(
         (left, right) =>
@@ -1847,6 +1861,80 @@ function buildMilestoneTemplateEditionCopy(
     .join(" ");
   const standingsLink = [{ label: "View standings", href: "/standings" }];
 
+  if (packet.issueType === "trade_deadline") {
+    const deals = packet.activity.filter((item) => item.kind === "trade");
+    const powerLeader = packet.powerMovers[0];
+    const regularSeasonEnd = facts.regularSeasonEndDate;
+    return {
+      headline: deals[0]
+        ? `${deals[0].teamName} makes the final move before the deadline`
+        : "The trade deadline passes without a deal",
+      deck: `Trades are closed for ${facts.analysisSeasonName}. Rosters are set for the stretch run${regularSeasonEnd ? ` to ${regularSeasonEnd}` : ""}, and the hard cap decided who could afford to add.`,
+      sections: [
+        section(
+          "transaction_wire",
+          "Deadline Deals",
+          deals.length
+            ? `${deals.length} trade piece${deals.length === 1 ? "" : "s"} changed hands`
+            : "The ledger stayed quiet",
+          deals
+            .slice(0, 12)
+            .map(
+              (deal) =>
+                `${deal.teamName} acquired ${deal.playerName}${deal.detail ? ` ${deal.detail}` : ""}.`,
+            )
+            .join(" ") || "No trades were recorded before the deadline.",
+          [],
+        ),
+        section(
+          "power_movers",
+          "Contenders",
+          powerLeader
+            ? `${powerLeader.teamName} leads the stretch run`
+            : "The stretch-run pecking order",
+          packet.powerMovers
+            .slice(0, 6)
+            .map((team) => `${team.currentRank}. ${team.teamName}`)
+            .join(" ") || "Power rankings were unavailable at the deadline.",
+          standingsLink,
+        ),
+        section(
+          "cap_space",
+          "Cap Room",
+          capLeader
+            ? `${capLeader.teamName} kept the most room`
+            : "Every dollar was spoken for",
+          [...facts.teamOutlooks]
+            .sort((left, right) => right.capSpace - left.capSpace)
+            .map(
+              (team) =>
+                `${team.teamName}: ${money(team.capSpace)} available against ${money(team.committedSalary)} committed.`,
+            )
+            .join(" "),
+          [],
+        ),
+        section(
+          "roster_outlook",
+          "Roster Talent",
+          topTeam
+            ? `${topTeam.teamName} carries the deepest roster`
+            : "Talent on paper for the final weeks",
+          teamOutlookSummary(packet),
+          [],
+        ),
+        section(
+          "next_week",
+          "Stretch Run",
+          regularSeasonEnd
+            ? `The regular season ends ${regularSeasonEnd}`
+            : "The regular season enters its final weeks",
+          "No more players or picks can change hands by trade until the season ends. The weekly recap returns as the playoff race tightens.",
+          [{ label: "View schedule", href: "/schedule" }],
+        ),
+      ],
+    };
+  }
+
   if (packet.issueType === "final_recap") {
     const hero = packet.matchups.find(
       (matchup) => matchup.matchupId === packet.heroMatchupId,
@@ -2571,31 +2659,41 @@ export function buildWeeklyEditionRuleContext(packet: WeeklyEditionFactPacket) {
   const signingDeadline = milestone?.analysisSeasonSigningEndDate;
   const draftStartAt = milestone?.analysisSeasonDraftStartAt;
   const seasonFrame = milestone
-    ? packet.issueType === "final_recap"
+    ? packet.issueType === "trade_deadline"
       ? {
-          completedSeason: {
-            id: packet.season.id,
-            name: packet.season.name,
-            endDate: packet.season.endDate,
-          },
-          issueTriggerDate: milestone.triggerDate,
-          timeZone: "America/Toronto",
-        }
-      : {
-          completedSeason: {
+          activeSeason: {
             id: packet.season.id,
             name: packet.season.name,
-            endDate: packet.season.endDate,
-          },
-          upcomingSeason: {
-            id: milestone.analysisSeasonId,
-            name: milestone.analysisSeasonName,
           },
-          issueTriggerDate: milestone.triggerDate,
+          tradeDeadline: milestone.triggerDate,
+          regularSeasonEndDate: milestone.regularSeasonEndDate,
           timeZone: "America/Toronto",
-          contractCoverage:
-            "A contract signed during the completed season's signing cycle starts with the upcoming season and covers one, two, or three future GSHL seasons.",
         }
+      : packet.issueType === "final_recap"
+        ? {
+            completedSeason: {
+              id: packet.season.id,
+              name: packet.season.name,
+              endDate: packet.season.endDate,
+            },
+            issueTriggerDate: milestone.triggerDate,
+            timeZone: "America/Toronto",
+          }
+        : {
+            completedSeason: {
+              id: packet.season.id,
+              name: packet.season.name,
+              endDate: packet.season.endDate,
+            },
+            upcomingSeason: {
+              id: milestone.analysisSeasonId,
+              name: milestone.analysisSeasonName,
+            },
+            issueTriggerDate: milestone.triggerDate,
+            timeZone: "America/Toronto",
+            contractCoverage:
+              "A contract signed during the completed season's signing cycle starts with the upcoming season and covers one, two, or three future GSHL seasons.",
+          }
     : {
         activeSeason: {
           id: packet.season.id,
@@ -2696,6 +2794,16 @@ export function buildWeeklyEditionRuleContext(packet: WeeklyEditionFactPacket) {
     editorialUse:
       "The routine 15-slot allotment is not an advantage or storyline. Discuss actual selection order, early position, keeper-consumed selections, roster needs, player fit and board decisions.",
   };
+  const tradeDeadlineRules = {
+    deadline:
+      "The trade deadline is 2.5 weeks before the end of the GSHL regular season. No trade can be completed after it until the season ends.",
+    process:
+      "Trades are not subject to commissioner approval. Every trade in EDITION_FACTS has already been completed.",
+    fullContracts:
+      "A traded player carries every remaining year of his contract to the new team. Salary retention is not allowed.",
+    capCheck:
+      "The receiving team must remain under the hard cap in every season the traded contracts cover.",
+  };
   const matchupRules = {
     playoffOrder:
       "F means Final, SF means Semifinal and QF means Quarterfinal. Playoff games are major stories ordered F, then SF, then QF.",
@@ -2735,6 +2843,13 @@ export function buildWeeklyEditionRuleContext(packet: WeeklyEditionFactPacket) {
       return { ...common, capRules, rosterConstructionRules, draftRules };
     case "preseason":
       return { ...common, capRules, rosterConstructionRules, draftRules };
+    case "trade_deadline":
+      return {
+        ...common,
+        capRules,
+        rosterConstructionRules,
+        tradeDeadlineRules,
+      };
   }
 }
 
@@ -2971,6 +3086,16 @@ export function buildWeeklyEditionChatGptPrompt(
         gmLadder: milestone?.gmRankings ?? [],
       };
       break;
+    case "trade_deadline":
+      facts = {
+        ...leagueSnapshot,
+        ...milestoneContext,
+        regularSeasonEndDate: milestone?.regularSeasonEndDate,
+        deadlineDeals: packet.activity.filter((item) => item.kind === "trade"),
+        teams: offseasonTeamProfiles,
+        powerRankings: packet.powerMovers,
+      };
+      break;
   }
   const outputContract = {
     layout: